@@ -0,0 +1,52 @@
+/**
+ * Local Favorites Server
+ *
+ * Runs the favorites sync function (api/favorites.ts) as a plain Node server,
+ * so the app can sync favorites without deploying. Point the app at it with
+ * `VITE_FAVORITES_API_URL=http://localhost:3001/api/favorites`.
+ *
+ * - FAVORITES_SERVER_PORT: port to listen on (3001 by default)
+ * - FAVORITES_SERVER_ORIGIN: origin allowed by CORS (the Vite dev server by default)
+ * - FAVORITES_STORE=file keeps favorites across restarts (see _lib/favoritesStoreFromEnv)
+ *
+ * @example
+ * ```bash
+ * FAVORITES_STORE=file npm run dev:favorites
+ * ```
+ */
+import { createServer } from "http";
+import handler from "../favorites";
+
+const port = Number(process.env.FAVORITES_SERVER_PORT) || 3001;
+const allowedOrigin =
+  process.env.FAVORITES_SERVER_ORIGIN || "http://localhost:5173";
+
+const server = createServer((req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", allowedOrigin);
+  res.setHeader("Access-Control-Allow-Methods", "GET, PUT");
+  res.setHeader(
+    "Access-Control-Allow-Headers",
+    "Authorization, Content-Type, If-Match",
+  );
+  res.setHeader("Access-Control-Expose-Headers", "ETag");
+  res.setHeader("Vary", "Origin");
+
+  const { pathname } = new URL(req.url ?? "/", "http://localhost");
+  if (pathname !== "/api/favorites") {
+    res.statusCode = 404;
+    res.end();
+    return;
+  }
+
+  if (req.method === "OPTIONS") {
+    res.statusCode = 204;
+    res.end();
+    return;
+  }
+
+  void handler(req, res);
+});
+
+server.listen(port, () => {
+  console.log(`Favorites server listening on http://localhost:${port}`);
+});
@@ -0,0 +1,35 @@
+import { FavoritesDocument } from "./favoritesDocument";
+
+/**
+ * Favorites Store
+ *
+ * Storage contract for the favorites server: one document per user, keyed by
+ * a hash of the user's sync key.
+ *
+ * - MemoryFavoritesStore: local development and tests (per instance)
+ * - FileFavoritesStore: a single long-lived host (e.g. the local dev server)
+ * - KvFavoritesStore: shared across every instance (Vercel KV / Upstash REST)
+ *
+ * @example
+ * ```typescript
+ * const store: FavoritesStore = new MemoryFavoritesStore();
+ * await store.put(userKey, document);
+ * const current = await store.get(userKey);
+ * ```
+ */
+export interface FavoritesStore {
+  /** Store type, reported in logs */
+  readonly kind: "memory" | "file" | "kv";
+
+  /**
+   * Get a user's document
+   *
+   * @returns The document, or undefined before the user's first write
+   */
+  get(userKey: string): Promise<FavoritesDocument | undefined>;
+
+  /**
+   * Replace a user's document
+   */
+  put(userKey: string, document: FavoritesDocument): Promise<void>;
+}
@@ -0,0 +1,69 @@
+/**
+ * File Favorites Store Tests
+ *
+ * Tests reading and replacing documents in a temporary directory.
+ */
+
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FavoritesDocument } from "./favoritesDocument";
+import { FileFavoritesStore } from "./FileFavoritesStore";
+
+const documentWith = (ids: number[]): FavoritesDocument => ({
+  version: 2,
+  favorites: ids.map((id) => ({
+    id,
+    name: `Character ${id}`,
+    thumbnailUrl: "",
+    description: "",
+    addedAt: "2024-01-01T00:00:00.000Z",
+  })),
+  lastModified: "2024-01-01T00:00:00.000Z",
+});
+
+describe("FileFavoritesStore", () => {
+  let directory: string;
+  let store: FileFavoritesStore;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "favorites-store-test-"));
+    // Created on first write
+    store = new FileFavoritesStore(join(directory, "favorites"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should return undefined before a user's first write", async () => {
+    expect(await store.get("a1")).toBeUndefined();
+  });
+
+  it("should replace a user's document", async () => {
+    await store.put("a1", documentWith([1]));
+    await store.put("a1", documentWith([1, 2]));
+
+    expect(await store.get("a1")).toEqual(documentWith([1, 2]));
+  });
+
+  it("should keep users apart and leave no temporary files", async () => {
+    await store.put("a1", documentWith([1]));
+    await store.put("b2", documentWith([2]));
+
+    expect(await store.get("a1")).toEqual(documentWith([1]));
+    expect(await store.get("b2")).toEqual(documentWith([2]));
+    expect((await readdir(join(directory, "favorites"))).sort()).toEqual([
+      "favorites-a1.json",
+      "favorites-b2.json",
+    ]);
+  });
+
+  it("should keep documents across store instances", async () => {
+    await store.put("a1", documentWith([3]));
+
+    const reopened = new FileFavoritesStore(join(directory, "favorites"));
+
+    expect(await reopened.get("a1")).toEqual(documentWith([3]));
+  });
+});
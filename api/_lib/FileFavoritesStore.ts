@@ -0,0 +1,44 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { join } from "path";
+import { FavoritesDocument } from "./favoritesDocument";
+import { FavoritesStore } from "./FavoritesStore";
+
+/**
+ * File Favorites Store
+ *
+ * Writes one JSON file per user under a directory. Writes go to a temporary
+ * file first and are renamed into place, so a crash never leaves half a
+ * document behind. Suits a single host: concurrent processes may overwrite
+ * each other's writes.
+ */
+export class FileFavoritesStore implements FavoritesStore {
+  readonly kind = "file";
+
+  constructor(private readonly directory: string) {}
+
+  async get(userKey: string): Promise<FavoritesDocument | undefined> {
+    try {
+      return JSON.parse(
+        await readFile(this.getPath(userKey), "utf8"),
+      ) as FavoritesDocument;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async put(userKey: string, document: FavoritesDocument): Promise<void> {
+    const path = this.getPath(userKey);
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(`${path}.tmp`, JSON.stringify(document), "utf8");
+    await rename(`${path}.tmp`, path);
+  }
+
+  // User keys are hex hashes, safe as file names
+  private getPath(userKey: string): string {
+    return join(this.directory, `favorites-${userKey}.json`);
+  }
+}
@@ -0,0 +1,99 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { CachedResponse, ProxyCacheStore } from "./ProxyCacheStore";
+
+interface FileRecord<T> {
+  key: string;
+  value: T;
+  expiresAt: number | null; // null when it never expires
+}
+
+/**
+ * File Proxy Cache Store
+ *
+ * Writes one JSON file per entry and counter under a directory. Suits a single
+ * long-lived host or a warm serverless instance's /tmp; counters are
+ * read-modify-write, so concurrent processes may lose increments.
+ */
+export class FileProxyCacheStore implements ProxyCacheStore {
+  readonly kind = "file";
+
+  constructor(
+    private readonly directory: string,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    return (await this.read<CachedResponse>("entry", key))?.value;
+  }
+
+  async set(
+    key: string,
+    value: CachedResponse,
+    ttlSeconds: number,
+  ): Promise<void> {
+    await this.write("entry", {
+      key,
+      value,
+      expiresAt: this.now() + ttlSeconds * 1000,
+    });
+  }
+
+  async increment(counter: string, ttlSeconds?: number): Promise<number> {
+    const current = await this.read<number>("counter", counter);
+    const next = (current?.value ?? 0) + 1;
+
+    await this.write("counter", {
+      key: counter,
+      value: next,
+      expiresAt: current
+        ? current.expiresAt
+        : ttlSeconds !== undefined
+          ? this.now() + ttlSeconds * 1000
+          : null,
+    });
+    return next;
+  }
+
+  async getCounter(counter: string): Promise<number> {
+    return (await this.read<number>("counter", counter))?.value ?? 0;
+  }
+
+  private getPath(type: "entry" | "counter", key: string): string {
+    const hash = createHash("sha1").update(key).digest("hex");
+    return join(this.directory, `${type}-${hash}.json`);
+  }
+
+  private async read<T>(
+    type: "entry" | "counter",
+    key: string,
+  ): Promise<FileRecord<T> | undefined> {
+    try {
+      const record = JSON.parse(
+        await readFile(this.getPath(type, key), "utf8"),
+      ) as FileRecord<T>;
+
+      const expired =
+        record.expiresAt !== null && record.expiresAt <= this.now();
+      return record.key === key && !expired ? record : undefined;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async write<T>(
+    type: "entry" | "counter",
+    record: FileRecord<T>,
+  ): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(
+      this.getPath(type, record.key),
+      JSON.stringify(record),
+      "utf8",
+    );
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * KV Favorites Store Tests
+ *
+ * Tests the Upstash REST commands sent for reads and writes.
+ */
+
+import { FavoritesDocument } from "./favoritesDocument";
+import { KvFavoritesStore } from "./KvFavoritesStore";
+
+const document: FavoritesDocument = {
+  version: 2,
+  favorites: [],
+  lastModified: "2024-01-01T00:00:00.000Z",
+};
+
+describe("KvFavoritesStore", () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+  let store: KvFavoritesStore;
+
+  const respond = (results: unknown[], status = 200) =>
+    fetchMock.mockResolvedValueOnce(
+      new Response(JSON.stringify(results), { status }),
+    );
+
+  const sentCommands = (call = 0) =>
+    JSON.parse(fetchMock.mock.calls[call][1].body as string) as unknown[];
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    store = new KvFavoritesStore("https://kv.example.com", "token");
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("should write the document under a namespaced key", async () => {
+    respond([{ result: "OK" }]);
+
+    await store.put("a1", document);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://kv.example.com/pipeline");
+    expect(init.headers.Authorization).toBe("Bearer token");
+    expect(sentCommands()).toEqual([
+      ["SET", "marvel-favorites:a1", JSON.stringify(document)],
+    ]);
+  });
+
+  it("should read a stored document", async () => {
+    respond([{ result: JSON.stringify(document) }]);
+
+    expect(await store.get("a1")).toEqual(document);
+    expect(sentCommands()).toEqual([["GET", "marvel-favorites:a1"]]);
+  });
+
+  it("should return undefined before a user's first write", async () => {
+    respond([{ result: null }]);
+
+    expect(await store.get("a1")).toBeUndefined();
+  });
+
+  it("should reject when KV fails", async () => {
+    respond([], 500);
+    await expect(store.get("a1")).rejects.toThrow("KV request failed: 500");
+
+    respond([{ error: "WRONGTYPE" }]);
+    await expect(store.put("a1", document)).rejects.toThrow(
+      "KV command failed: WRONGTYPE",
+    );
+  });
+});
@@ -0,0 +1,42 @@
+import { FavoritesDocument } from "./favoritesDocument";
+import { FavoritesStore } from "./FavoritesStore";
+import { runKvPipeline } from "./kvPipeline";
+
+/** Namespace so favorites can share a KV database with the proxy cache */
+const PREFIX = "marvel-favorites:";
+
+/**
+ * KV Favorites Store
+ *
+ * Keeps each user's document in a Redis-compatible store over the Upstash
+ * REST API (Vercel KV). Shared by every serverless instance, so it's the
+ * store deployments need.
+ *
+ * @example
+ * ```typescript
+ * const store = new KvFavoritesStore(process.env.KV_REST_API_URL!, process.env.KV_REST_API_TOKEN!);
+ * ```
+ */
+export class KvFavoritesStore implements FavoritesStore {
+  readonly kind = "kv";
+
+  constructor(
+    private readonly url: string,
+    private readonly token: string,
+  ) {}
+
+  async get(userKey: string): Promise<FavoritesDocument | undefined> {
+    const [value] = await runKvPipeline(this.url, this.token, [
+      ["GET", PREFIX + userKey],
+    ]);
+    return typeof value === "string"
+      ? (JSON.parse(value) as FavoritesDocument)
+      : undefined;
+  }
+
+  async put(userKey: string, document: FavoritesDocument): Promise<void> {
+    await runKvPipeline(this.url, this.token, [
+      ["SET", PREFIX + userKey, JSON.stringify(document)],
+    ]);
+  }
+}
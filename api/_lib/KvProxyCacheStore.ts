@@ -0,0 +1,64 @@
+import { RedisCommand, runKvPipeline } from "./kvPipeline";
+import { CachedResponse, ProxyCacheStore } from "./ProxyCacheStore";
+
+/** Namespace so the cache can share a KV database with other data */
+const PREFIX = "comicvine-proxy:";
+
+/**
+ * KV Proxy Cache Store
+ *
+ * Redis-compatible store over the Upstash REST API (what Vercel KV exposes via
+ * `KV_REST_API_URL` / `KV_REST_API_TOKEN`). Shared by every serverless
+ * instance, so cached responses and counters are global.
+ *
+ * @example
+ * ```typescript
+ * const store = new KvProxyCacheStore(process.env.KV_REST_API_URL!, process.env.KV_REST_API_TOKEN!);
+ * ```
+ */
+export class KvProxyCacheStore implements ProxyCacheStore {
+  readonly kind = "kv";
+
+  constructor(
+    private readonly url: string,
+    private readonly token: string,
+  ) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const [value] = await this.send([["GET", PREFIX + key]]);
+    return typeof value === "string"
+      ? (JSON.parse(value) as CachedResponse)
+      : undefined;
+  }
+
+  async set(
+    key: string,
+    value: CachedResponse,
+    ttlSeconds: number,
+  ): Promise<void> {
+    await this.send([
+      ["SET", PREFIX + key, JSON.stringify(value), "EX", ttlSeconds],
+    ]);
+  }
+
+  async increment(counter: string, ttlSeconds?: number): Promise<number> {
+    const key = PREFIX + counter;
+    const commands: RedisCommand[] = [["INCR", key]];
+    if (ttlSeconds !== undefined) {
+      // NX: only the first increment of a window sets its expiry
+      commands.push(["EXPIRE", key, ttlSeconds, "NX"]);
+    }
+
+    const [value] = await this.send(commands);
+    return Number(value);
+  }
+
+  async getCounter(counter: string): Promise<number> {
+    const [value] = await this.send([["GET", PREFIX + counter]]);
+    return Number(value ?? 0);
+  }
+
+  private send(commands: RedisCommand[]): Promise<unknown[]> {
+    return runKvPipeline(this.url, this.token, commands);
+  }
+}
@@ -0,0 +1,21 @@
+import { FavoritesDocument } from "./favoritesDocument";
+import { FavoritesStore } from "./FavoritesStore";
+
+/**
+ * Memory Favorites Store
+ *
+ * Map-backed store for local development and tests. Each serverless instance
+ * has its own copy and loses it on cold start, so it only suits one process.
+ */
+export class MemoryFavoritesStore implements FavoritesStore {
+  readonly kind = "memory";
+  private readonly documents = new Map<string, FavoritesDocument>();
+
+  async get(userKey: string): Promise<FavoritesDocument | undefined> {
+    return this.documents.get(userKey);
+  }
+
+  async put(userKey: string, document: FavoritesDocument): Promise<void> {
+    this.documents.set(userKey, document);
+  }
+}
@@ -0,0 +1,82 @@
+import { CachedResponse, ProxyCacheStore } from "./ProxyCacheStore";
+
+interface Expiring<T> {
+  value: T;
+  expiresAt: number; // Infinity when it never expires
+}
+
+/**
+ * Memory Proxy Cache Store
+ *
+ * Map-backed store for local development and tests. Each serverless instance
+ * has its own copy, so deployed setups should prefer the KV store.
+ * Size-bounded: the oldest entries are dropped first when full.
+ */
+export class MemoryProxyCacheStore implements ProxyCacheStore {
+  readonly kind = "memory";
+  private readonly entries = new Map<string, Expiring<CachedResponse>>();
+  private readonly counters = new Map<string, Expiring<number>>();
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+
+  constructor(options: { maxEntries?: number; now?: () => number } = {}) {
+    this.maxEntries = options.maxEntries ?? 500;
+    this.now = options.now ?? Date.now;
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    return this.read(this.entries, key);
+  }
+
+  async set(
+    key: string,
+    value: CachedResponse,
+    ttlSeconds: number,
+  ): Promise<void> {
+    this.entries.delete(key);
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+
+    this.entries.set(key, {
+      value,
+      expiresAt: this.now() + ttlSeconds * 1000,
+    });
+  }
+
+  async increment(counter: string, ttlSeconds?: number): Promise<number> {
+    const current = this.read(this.counters, counter);
+    const next = (current ?? 0) + 1;
+
+    this.counters.set(counter, {
+      value: next,
+      expiresAt:
+        current !== undefined
+          ? (this.counters.get(counter)?.expiresAt ?? Infinity)
+          : ttlSeconds !== undefined
+            ? this.now() + ttlSeconds * 1000
+            : Infinity,
+    });
+    return next;
+  }
+
+  async getCounter(counter: string): Promise<number> {
+    return this.read(this.counters, counter) ?? 0;
+  }
+
+  private read<T>(map: Map<string, Expiring<T>>, key: string): T | undefined {
+    const item = map.get(key);
+    if (!item) {
+      return undefined;
+    }
+
+    if (item.expiresAt <= this.now()) {
+      map.delete(key);
+      return undefined;
+    }
+
+    return item.value;
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * Proxy Cache Tests
+ *
+ * Tests hits, misses and TTL expiry, coalescing of concurrent misses, that
+ * errors are never stored, and the hit-ratio and quota counters.
+ */
+
+import { MemoryProxyCacheStore } from "./MemoryProxyCacheStore";
+import { ProxyCache, UpstreamResponse } from "./ProxyCache";
+import { ProxyCacheStore } from "./ProxyCacheStore";
+
+const KEY = "/characters/?limit=50&offset=0";
+
+const ok = (body = '{"status_code":1}'): UpstreamResponse => ({
+  body,
+  cacheable: true,
+});
+
+describe("ProxyCache", () => {
+  let now: number;
+  let store: MemoryProxyCacheStore;
+  let cache: ProxyCache;
+
+  beforeEach(() => {
+    // Ten minutes into a quota window
+    now = Date.UTC(2026, 0, 1, 12, 10);
+    store = new MemoryProxyCacheStore({ now: () => now });
+    cache = new ProxyCache(store, () => now);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("getOrFetch", () => {
+    it("should fetch on a miss and serve the stored response afterwards", async () => {
+      const fetchUpstream = jest.fn().mockResolvedValue(ok());
+
+      const miss = await cache.getOrFetch(KEY, "characters", 60, fetchUpstream);
+      const hit = await cache.getOrFetch(KEY, "characters", 60, fetchUpstream);
+
+      expect(fetchUpstream).toHaveBeenCalledTimes(1);
+      expect(miss).toMatchObject({ status: "MISS", cacheable: true });
+      expect(hit).toMatchObject({ status: "HIT", cacheable: true });
+      expect(hit.response).toEqual(miss.response);
+      expect(hit.response.etag).toMatch(/^".+"$/);
+    });
+
+    it("should fetch again once the TTL expires", async () => {
+      const fetchUpstream = jest
+        .fn()
+        .mockResolvedValueOnce(ok('{"v":1}'))
+        .mockResolvedValueOnce(ok('{"v":2}'));
+      await cache.getOrFetch(KEY, "characters", 60, fetchUpstream);
+
+      now += 59_000;
+      const fresh = await cache.getOrFetch(
+        KEY,
+        "characters",
+        60,
+        fetchUpstream,
+      );
+      now += 1_000;
+      const refetched = await cache.getOrFetch(
+        KEY,
+        "characters",
+        60,
+        fetchUpstream,
+      );
+
+      expect(fresh.status).toBe("HIT");
+      expect(refetched).toMatchObject({ status: "MISS" });
+      expect(refetched.response.body).toBe('{"v":2}');
+      expect(fetchUpstream).toHaveBeenCalledTimes(2);
+    });
+
+    it("should coalesce concurrent misses into one upstream request", async () => {
+      let resolveUpstream!: (response: UpstreamResponse) => void;
+      const fetchUpstream = jest.fn(
+        () =>
+          new Promise<UpstreamResponse>((resolve) => {
+            resolveUpstream = resolve;
+          }),
+      );
+
+      const first = cache.getOrFetch(KEY, "characters", 60, fetchUpstream);
+      const second = cache.getOrFetch(KEY, "characters", 60, fetchUpstream);
+      const third = cache.getOrFetch(KEY, "characters", 60, fetchUpstream);
+      // Let the first lookup read the store and call upstream
+      await new Promise((resolve) => setImmediate(resolve));
+      resolveUpstream(ok());
+
+      const results = await Promise.all([first, second, third]);
+
+      expect(fetchUpstream).toHaveBeenCalledTimes(1);
+      expect(results.map(({ status }) => status)).toEqual([
+        "MISS",
+        "COALESCED",
+        "COALESCED",
+      ]);
+      expect(results[1]?.response).toEqual(results[0]?.response);
+    });
+
+    it("should not coalesce different keys", async () => {
+      const fetchUpstream = jest.fn().mockResolvedValue(ok());
+
+      await Promise.all([
+        cache.getOrFetch(KEY, "characters", 60, fetchUpstream),
+        cache.getOrFetch(
+          `${KEY}&sort=name:asc`,
+          "characters",
+          60,
+          fetchUpstream,
+        ),
+      ]);
+
+      expect(fetchUpstream).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject every coalesced caller when upstream fails, and not store it", async () => {
+      const fetchUpstream = jest
+        .fn()
+        .mockRejectedValueOnce(new Error("upstream down"))
+        .mockResolvedValueOnce(ok());
+
+      const results = await Promise.allSettled([
+        cache.getOrFetch(KEY, "characters", 60, fetchUpstream),
+        cache.getOrFetch(KEY, "characters", 60, fetchUpstream),
+      ]);
+      const retried = await cache.getOrFetch(
+        KEY,
+        "characters",
+        60,
+        fetchUpstream,
+      );
+
+      expect(results.map(({ status }) => status)).toEqual([
+        "rejected",
+        "rejected",
+      ]);
+      expect(retried.status).toBe("MISS");
+      expect(fetchUpstream).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not store responses that aren't cacheable", async () => {
+      const fetchUpstream = jest
+        .fn()
+        .mockResolvedValue({ body: '{"status_code":100}', cacheable: false });
+
+      const first = await cache.getOrFetch(
+        KEY,
+        "characters",
+        60,
+        fetchUpstream,
+      );
+      const second = await cache.getOrFetch(
+        KEY,
+        "characters",
+        60,
+        fetchUpstream,
+      );
+
+      expect(first).toMatchObject({ status: "MISS", cacheable: false });
+      expect(second).toMatchObject({ status: "MISS", cacheable: false });
+      expect(fetchUpstream).toHaveBeenCalledTimes(2);
+    });
+
+    it("should fall back to upstream when the store fails", async () => {
+      const failing: ProxyCacheStore = {
+        kind: "kv",
+        get: jest.fn().mockRejectedValue(new Error("KV down")),
+        set: jest.fn().mockRejectedValue(new Error("KV down")),
+        increment: jest.fn().mockRejectedValue(new Error("KV down")),
+        getCounter: jest.fn().mockResolvedValue(0),
+      };
+      cache = new ProxyCache(failing, () => now);
+
+      const result = await cache.getOrFetch(
+        KEY,
+        "characters",
+        60,
+        jest.fn().mockResolvedValue(ok()),
+      );
+
+      expect(result).toMatchObject({ status: "MISS", cacheable: true });
+      expect(console.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe("getStats", () => {
+    it("should report zeros before any request", async () => {
+      const stats = await cache.getStats();
+
+      expect(stats).toMatchObject({
+        store: "memory",
+        requests: 0,
+        hits: 0,
+        misses: 0,
+        coalesced: 0,
+        upstreamErrors: 0,
+        hitRatio: 0,
+      });
+      expect(stats.quota.map(({ resource }) => resource)).toEqual([
+        "characters",
+        "character",
+        "issues",
+        "issue",
+        "team",
+        "power",
+      ]);
+    });
+
+    it("should count hits, misses, coalesced requests and upstream errors", async () => {
+      const fetchUpstream = jest.fn().mockResolvedValue(ok());
+      await Promise.all([
+        cache.getOrFetch(KEY, "characters", 60, fetchUpstream),
+        cache.getOrFetch(KEY, "characters", 60, fetchUpstream),
+      ]);
+      await cache.getOrFetch(KEY, "characters", 60, fetchUpstream);
+      await cache.getOrFetch(KEY, "characters", 60, fetchUpstream);
+      await cache
+        .getOrFetch(
+          "/issue/4000-1/?",
+          "issue",
+          60,
+          jest.fn().mockRejectedValue(new Error("upstream down")),
+        )
+        .catch(() => undefined);
+
+      const stats = await cache.getStats();
+
+      expect(stats).toMatchObject({
+        requests: 4,
+        hits: 2,
+        misses: 1,
+        coalesced: 1,
+        upstreamErrors: 1,
+        hitRatio: 0.75,
+      });
+    });
+
+    it("should track upstream quota per resource in hourly windows", async () => {
+      const fetchUpstream = jest.fn().mockResolvedValue(ok());
+      await cache.getOrFetch(KEY, "characters", 60, fetchUpstream);
+      await cache.getOrFetch(KEY, "characters", 60, fetchUpstream);
+      await cache.getOrFetch("/power/4035-1/?", "power", 60, fetchUpstream);
+      await cache
+        .getOrFetch(
+          "/team/4060-1/?",
+          "team",
+          60,
+          jest.fn().mockRejectedValue(new Error("upstream down")),
+        )
+        .catch(() => undefined);
+
+      const { quota } = await cache.getStats();
+      const byResource = Object.fromEntries(
+        quota.map((entry) => [entry.resource, entry]),
+      );
+
+      // Hits don't spend quota; failed upstream calls do
+      expect(byResource.characters).toEqual({
+        resource: "characters",
+        limit: 200,
+        used: 1,
+        remaining: 199,
+        resetAt: "2026-01-01T13:00:00.000Z",
+      });
+      expect(byResource.power?.used).toBe(1);
+      expect(byResource.team?.used).toBe(1);
+      expect(byResource.issues?.used).toBe(0);
+
+      now = Date.UTC(2026, 0, 1, 13, 0);
+      const { quota: nextWindow } = await cache.getStats();
+      expect(nextWindow.every(({ used }) => used === 0)).toBe(true);
+    });
+  });
+});
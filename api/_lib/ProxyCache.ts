@@ -0,0 +1,229 @@
+import { PROXY_RESOURCES, ProxyResource } from "./allowlist";
+import { createETag } from "./cachePolicy";
+import { CachedResponse, ProxyCacheStore } from "./ProxyCacheStore";
+
+/** Comic Vine quota: requests per resource per window */
+const UPSTREAM_QUOTA_LIMIT = 200;
+
+/** Comic Vine quota window in seconds (1 hour) */
+const UPSTREAM_QUOTA_WINDOW = 60 * 60;
+
+/**
+ * How a request was served
+ * - HIT: from the store
+ * - MISS: fetched from Comic Vine
+ * - COALESCED: shared a concurrent identical lookup
+ */
+export type CacheStatus = "HIT" | "MISS" | "COALESCED";
+
+/**
+ * Comic Vine response as fetched by the proxy
+ * (errors reported in the body must not be cached)
+ */
+export interface UpstreamResponse {
+  body: string;
+  cacheable: boolean;
+}
+
+export interface ProxyCacheResult {
+  response: CachedResponse;
+  status: CacheStatus;
+  cacheable: boolean; // false for Comic Vine errors reported in the body
+}
+
+/**
+ * Remaining Comic Vine quota for one resource, as spent through this proxy
+ */
+export interface UpstreamQuota {
+  resource: ProxyResource;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: string; // ISO date
+}
+
+/**
+ * Cache effectiveness and quota report (admin endpoint)
+ */
+export interface ProxyCacheStats {
+  store: ProxyCacheStore["kind"];
+  requests: number;
+  hits: number;
+  misses: number;
+  coalesced: number;
+  upstreamErrors: number;
+  hitRatio: number; // Share of requests served without calling Comic Vine (0-1)
+  quota: UpstreamQuota[];
+}
+
+const COUNTERS = {
+  HIT: "stats:hits",
+  MISS: "stats:misses",
+  COALESCED: "stats:coalesced",
+  errors: "stats:upstream-errors",
+} as const;
+
+/**
+ * Proxy Cache
+ *
+ * Server-side cache in front of Comic Vine, so identical requests from every
+ * user spend the shared key's quota once per TTL.
+ *
+ * Features:
+ * - Pluggable store (memory, file or KV)
+ * - Per-resource TTLs chosen by the caller
+ * - Coalescing: concurrent identical misses share one upstream request
+ * - Hit/miss counters and per-resource upstream quota tracking (fixed hourly window)
+ * - Store failures degrade to uncached requests instead of failing them
+ *
+ * @example
+ * ```typescript
+ * const cache = new ProxyCache(new MemoryProxyCacheStore());
+ * const { response, status } = await cache.getOrFetch(key, 'characters', 3600, fetchFromComicVine);
+ * ```
+ */
+export class ProxyCache {
+  private readonly inFlight = new Map<string, Promise<ProxyCacheResult>>();
+
+  constructor(
+    private readonly store: ProxyCacheStore,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Serve a request from the store, or fetch it once for all concurrent callers
+   *
+   * @param key - Normalized request key (endpoint + sorted params, no API key)
+   * @param resource - Comic Vine resource (for quota tracking)
+   * @param ttlSeconds - How long to keep a cacheable response
+   * @param fetchUpstream - Calls Comic Vine; rejects on upstream errors
+   */
+  async getOrFetch(
+    key: string,
+    resource: ProxyResource,
+    ttlSeconds: number,
+    fetchUpstream: () => Promise<UpstreamResponse>,
+  ): Promise<ProxyCacheResult> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      const result = await pending;
+      await this.count(COUNTERS.COALESCED);
+      return { ...result, status: "COALESCED" };
+    }
+
+    const lookup = this.lookup(key, resource, ttlSeconds, fetchUpstream);
+    this.inFlight.set(key, lookup);
+
+    try {
+      const result = await lookup;
+      await this.count(COUNTERS[result.status]);
+      return result;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Hit ratio and remaining upstream quota
+   */
+  async getStats(): Promise<ProxyCacheStats> {
+    const [hits, misses, coalesced, upstreamErrors] = await Promise.all([
+      this.store.getCounter(COUNTERS.HIT),
+      this.store.getCounter(COUNTERS.MISS),
+      this.store.getCounter(COUNTERS.COALESCED),
+      this.store.getCounter(COUNTERS.errors),
+    ]);
+    const requests = hits + misses + coalesced;
+
+    const windowStart = this.getQuotaWindowStart();
+    const quota = await Promise.all(
+      PROXY_RESOURCES.map(async (resource) => {
+        const used = await this.store.getCounter(
+          this.getQuotaCounter(resource, windowStart),
+        );
+        return {
+          resource,
+          limit: UPSTREAM_QUOTA_LIMIT,
+          used,
+          remaining: Math.max(0, UPSTREAM_QUOTA_LIMIT - used),
+          resetAt: new Date(
+            windowStart + UPSTREAM_QUOTA_WINDOW * 1000,
+          ).toISOString(),
+        };
+      }),
+    );
+
+    return {
+      store: this.store.kind,
+      requests,
+      hits,
+      misses,
+      coalesced,
+      upstreamErrors,
+      hitRatio: requests > 0 ? (hits + coalesced) / requests : 0,
+      quota,
+    };
+  }
+
+  private async lookup(
+    key: string,
+    resource: ProxyResource,
+    ttlSeconds: number,
+    fetchUpstream: () => Promise<UpstreamResponse>,
+  ): Promise<ProxyCacheResult> {
+    const cached = await this.store.get(key).catch((error: unknown) => {
+      console.warn("Proxy cache read failed:", error);
+      return undefined;
+    });
+    if (cached) {
+      return { response: cached, status: "HIT", cacheable: true };
+    }
+
+    // Comic Vine counts every request, successful or not
+    await this.count(
+      this.getQuotaCounter(resource, this.getQuotaWindowStart()),
+      UPSTREAM_QUOTA_WINDOW,
+    );
+
+    let upstream: UpstreamResponse;
+    try {
+      upstream = await fetchUpstream();
+    } catch (error: unknown) {
+      await this.count(COUNTERS.errors);
+      throw error;
+    }
+
+    const response: CachedResponse = {
+      body: upstream.body,
+      etag: createETag(upstream.body),
+      storedAt: this.now(),
+    };
+
+    if (upstream.cacheable) {
+      await this.store
+        .set(key, response, ttlSeconds)
+        .catch((error: unknown) =>
+          console.warn("Proxy cache write failed:", error),
+        );
+    }
+
+    return { response, status: "MISS", cacheable: upstream.cacheable };
+  }
+
+  private async count(counter: string, ttlSeconds?: number): Promise<void> {
+    await this.store
+      .increment(counter, ttlSeconds)
+      .catch((error: unknown) =>
+        console.warn("Proxy cache counter failed:", error),
+      );
+  }
+
+  private getQuotaWindowStart(): number {
+    const windowMs = UPSTREAM_QUOTA_WINDOW * 1000;
+    return Math.floor(this.now() / windowMs) * windowMs;
+  }
+
+  private getQuotaCounter(resource: ProxyResource, windowStart: number) {
+    return `quota:${resource}:${windowStart}`;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Upstream response held by the proxy cache
+ */
+export interface CachedResponse {
+  body: string; // Comic Vine JSON, as received
+  etag: string;
+  storedAt: number; // ms since epoch
+}
+
+/**
+ * Proxy Cache Store
+ *
+ * Pluggable storage contract for the proxy's server-side cache and counters.
+ * Stores own expiry: entries and counters vanish once their TTL elapses.
+ *
+ * - MemoryProxyCacheStore: local development and tests (per instance)
+ * - FileProxyCacheStore: single-host deployments (e.g. /tmp on a warm instance)
+ * - KvProxyCacheStore: shared across every instance (Vercel KV / Upstash REST)
+ *
+ * @example
+ * ```typescript
+ * const store: ProxyCacheStore = new MemoryProxyCacheStore();
+ * await store.set('/characters/?limit=50', response, 3600);
+ * await store.increment('stats:hits');
+ * ```
+ */
+export interface ProxyCacheStore {
+  /** Store type, reported by the admin endpoint */
+  readonly kind: "memory" | "file" | "kv";
+
+  /**
+   * Get a live entry
+   *
+   * @returns Entry if present and not expired, undefined otherwise
+   */
+  get(key: string): Promise<CachedResponse | undefined>;
+
+  /**
+   * Store an entry for `ttlSeconds`
+   */
+  set(key: string, value: CachedResponse, ttlSeconds: number): Promise<void>;
+
+  /**
+   * Increment a counter, creating it with `ttlSeconds` (no expiry when omitted)
+   *
+   * @returns The new value
+   */
+  increment(counter: string, ttlSeconds?: number): Promise<number>;
+
+  /**
+   * Read a counter (0 when missing or expired)
+   */
+  getCounter(counter: string): Promise<number>;
+}
@@ -0,0 +1,91 @@
+/**
+ * Token Bucket Limiter Tests
+ *
+ * Tests bursts up to capacity, continuous refill, retry hints and
+ * per-key isolation, using an injected clock.
+ */
+
+import { TokenBucketLimiter } from "./TokenBucketLimiter";
+
+describe("TokenBucketLimiter", () => {
+  let now: number;
+  let limiter: TokenBucketLimiter;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    limiter = new TokenBucketLimiter({
+      capacity: 3,
+      refillPerSecond: 0.5,
+      now: () => now,
+    });
+  });
+
+  it("should allow a burst up to capacity", () => {
+    expect(limiter.take("ip")).toEqual({
+      allowed: true,
+      limit: 3,
+      remaining: 2,
+      retryAfter: 0,
+    });
+    expect(limiter.take("ip").remaining).toBe(1);
+    expect(limiter.take("ip").remaining).toBe(0);
+  });
+
+  it("should reject once the bucket is empty, with a retry hint", () => {
+    limiter.take("ip");
+    limiter.take("ip");
+    limiter.take("ip");
+
+    expect(limiter.take("ip")).toEqual({
+      allowed: false,
+      limit: 3,
+      remaining: 0,
+      retryAfter: 2,
+    });
+  });
+
+  it("should refill continuously at the configured rate", () => {
+    limiter.take("ip");
+    limiter.take("ip");
+    limiter.take("ip");
+
+    now += 1000;
+    expect(limiter.take("ip")).toMatchObject({ allowed: false, retryAfter: 1 });
+
+    now += 1000;
+    expect(limiter.take("ip")).toMatchObject({ allowed: true, remaining: 0 });
+    expect(limiter.take("ip").allowed).toBe(false);
+  });
+
+  it("should never refill past capacity", () => {
+    limiter.take("ip");
+    now += 60_000;
+
+    expect(limiter.take("ip").remaining).toBe(2);
+  });
+
+  it("should keep a bucket per key", () => {
+    limiter.take("a");
+    limiter.take("a");
+    limiter.take("a");
+
+    expect(limiter.take("a").allowed).toBe(false);
+    expect(limiter.take("b").allowed).toBe(true);
+  });
+
+  it("should drop full buckets when over maxKeys", () => {
+    limiter = new TokenBucketLimiter({
+      capacity: 1,
+      refillPerSecond: 1,
+      maxKeys: 1,
+      now: () => now,
+    });
+    limiter.take("a");
+    now += 5000;
+
+    // "a" has refilled, so it's pruned to make room for "b"
+    limiter.take("b");
+    expect(limiter.take("b").allowed).toBe(false);
+    expect(limiter.take("a").allowed).toBe(true);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Result of taking a token
+ */
+export interface TokenBucketResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the next token (0 when allowed) */
+  retryAfter: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token Bucket Limiter
+ *
+ * Per-key token buckets (one per client IP in the proxy). Each bucket holds up
+ * to `capacity` tokens and refills continuously at `refillPerSecond`, so clients
+ * get short bursts (page loads) but can't drain the shared Comic Vine quota.
+ *
+ * State lives in memory, per serverless instance - it's a first line of defence,
+ * not a global quota.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new TokenBucketLimiter({ capacity: 30, refillPerSecond: 0.5 });
+ * const { allowed, retryAfter } = limiter.take(clientIp);
+ * ```
+ */
+export class TokenBucketLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly capacity: number;
+  private readonly refillPerSecond: number;
+  private readonly maxKeys: number;
+  private readonly now: () => number;
+
+  constructor(options: {
+    capacity: number;
+    refillPerSecond: number;
+    /** Buckets kept before full ones are dropped (bounds memory) */
+    maxKeys?: number;
+    now?: () => number;
+  }) {
+    this.capacity = options.capacity;
+    this.refillPerSecond = options.refillPerSecond;
+    this.maxKeys = options.maxKeys ?? 10_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Take one token from a key's bucket
+   */
+  take(key: string): TokenBucketResult {
+    const now = this.now();
+    const bucket = this.refill(this.buckets.get(key), now);
+
+    if (!this.buckets.has(key) && this.buckets.size >= this.maxKeys) {
+      this.prune(now);
+    }
+
+    if (bucket.tokens < 1) {
+      this.buckets.set(key, bucket);
+      return {
+        allowed: false,
+        limit: this.capacity,
+        remaining: 0,
+        retryAfter: Math.ceil((1 - bucket.tokens) / this.refillPerSecond),
+      };
+    }
+
+    bucket.tokens -= 1;
+    this.buckets.set(key, bucket);
+    return {
+      allowed: true,
+      limit: this.capacity,
+      remaining: Math.floor(bucket.tokens),
+      retryAfter: 0,
+    };
+  }
+
+  private refill(bucket: Bucket | undefined, now: number): Bucket {
+    if (!bucket) {
+      return { tokens: this.capacity, updatedAt: now };
+    }
+
+    const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+    return {
+      tokens: Math.min(
+        this.capacity,
+        bucket.tokens + elapsedSeconds * this.refillPerSecond,
+      ),
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Drop buckets that have refilled completely (equivalent to no bucket)
+   */
+  private prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (this.refill(bucket, now).tokens >= this.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Proxy Allowlist Tests
+ *
+ * Tests which endpoints and params the proxy forwards with the shared API key,
+ * and that everything else is rejected before it reaches Comic Vine.
+ */
+
+import {
+  AllowedRequest,
+  getRequestKey,
+  resolveAllowedRequest,
+} from "./allowlist";
+
+const resolve = (query: string) =>
+  resolveAllowedRequest(new URLSearchParams(query));
+
+describe("resolveAllowedRequest", () => {
+  describe("endpoints", () => {
+    it("should allow the endpoints the app uses", () => {
+      expect(resolve("endpoint=/characters/")).toMatchObject({
+        resource: "characters",
+      });
+      expect(resolve("endpoint=/character/4005-1699/")).toMatchObject({
+        resource: "character",
+      });
+      expect(resolve("endpoint=/issues/")).toMatchObject({
+        resource: "issues",
+      });
+      expect(resolve("endpoint=/issue/4000-6/")).toMatchObject({
+        resource: "issue",
+      });
+      expect(resolve("endpoint=/team/4060-3806/")).toMatchObject({
+        resource: "team",
+      });
+      expect(resolve("endpoint=/power/4035-1/")).toMatchObject({
+        resource: "power",
+      });
+    });
+
+    it("should normalize missing leading and trailing slashes", () => {
+      expect(resolve("endpoint=characters")).toEqual({
+        endpoint: "/characters/",
+        resource: "characters",
+        params: {},
+      });
+    });
+
+    it("should reject a missing endpoint with 400", () => {
+      expect(resolve("limit=50")).toEqual({
+        status: 400,
+        error: "Missing endpoint parameter",
+      });
+    });
+
+    it("should reject endpoints that aren't allowlisted with 403", () => {
+      for (const endpoint of [
+        "/publishers/",
+        "/volume/4050-1/",
+        "/character/4005-abc/",
+        "/character/4060-1/",
+        "/characters/../search/",
+        "https://evil.example/",
+      ]) {
+        expect(resolve(`endpoint=${encodeURIComponent(endpoint)}`)).toEqual(
+          expect.objectContaining({ status: 403 }),
+        );
+      }
+    });
+  });
+
+  describe("params", () => {
+    it("should forward valid params", () => {
+      const request = resolve(
+        "endpoint=/characters/&filter=publisher:31,name:Spider&limit=50&offset=100&sort=name:asc&field_list=id,name",
+      );
+
+      expect(request).toEqual({
+        endpoint: "/characters/",
+        resource: "characters",
+        params: {
+          filter: "publisher:31,name:Spider",
+          limit: "50",
+          offset: "100",
+          sort: "name:asc",
+          field_list: "id,name",
+        },
+      });
+    });
+
+    it("should reject params the endpoint doesn't accept", () => {
+      expect(resolve("endpoint=/characters/&api_key=stolen")).toEqual({
+        status: 400,
+        error: "Parameter not allowed: api_key",
+      });
+      expect(resolve("endpoint=/character/4005-1/&limit=10")).toEqual({
+        status: 400,
+        error: "Parameter not allowed: limit",
+      });
+    });
+
+    it("should reject repeated params", () => {
+      expect(resolve("endpoint=/characters/&limit=10&limit=20")).toEqual({
+        status: 400,
+        error: "Invalid value for parameter: limit",
+      });
+    });
+
+    it("should reject out-of-range and malformed values", () => {
+      for (const query of [
+        "limit=0",
+        "limit=101",
+        "limit=ten",
+        "offset=-1",
+        "offset=1234567",
+        "sort=name:sideways",
+        "sort=name",
+        "field_list=id,,name",
+        "field_list=id;drop",
+      ]) {
+        expect(resolve(`endpoint=/characters/&${query}`)).toMatchObject({
+          status: 400,
+        });
+      }
+    });
+  });
+
+  describe("filter", () => {
+    it("should accept id lists up to 100 ids", () => {
+      const ids = Array.from({ length: 100 }, (_, index) => index + 1);
+
+      expect(
+        resolve(`endpoint=/characters/&filter=id:${ids.join("|")}`),
+      ).toMatchObject({ resource: "characters" });
+    });
+
+    it("should reject id lists over 100 ids", () => {
+      const ids = Array.from({ length: 101 }, (_, index) => index + 1);
+
+      expect(
+        resolve(`endpoint=/characters/&filter=id:${ids.join("|")}`),
+      ).toEqual({ status: 400, error: "Invalid value for parameter: filter" });
+    });
+
+    it("should reject filters over the length limit", () => {
+      const name = "a".repeat(100);
+      const filter = Array.from({ length: 13 }, () => `name:${name}`).join(",");
+
+      expect(resolve(`endpoint=/characters/&filter=${filter}`)).toMatchObject({
+        status: 400,
+      });
+    });
+
+    it("should reject filter fields that aren't allowlisted", () => {
+      for (const filter of [
+        "gender:1",
+        "publisher:31,origin:2",
+        "name:Spider,date_added:2020-01-01",
+        ":31",
+        "publisher",
+      ]) {
+        expect(
+          resolve(`endpoint=/characters/&filter=${encodeURIComponent(filter)}`),
+        ).toMatchObject({ status: 400 });
+      }
+    });
+
+    it("should reject values that smuggle extra fields", () => {
+      expect(
+        resolve("endpoint=/characters/&filter=publisher:31:name:x"),
+      ).toMatchObject({ status: 400 });
+      expect(resolve("endpoint=/characters/&filter=id:1|2,x")).toMatchObject({
+        status: 400,
+      });
+      expect(
+        resolve(
+          `endpoint=/characters/&filter=${encodeURIComponent("id:1&api_key=x")}`,
+        ),
+      ).toMatchObject({ status: 400 });
+    });
+
+    it("should only accept id filters on issues", () => {
+      expect(resolve("endpoint=/issues/&filter=id:1|2")).toMatchObject({
+        resource: "issues",
+      });
+      expect(resolve("endpoint=/issues/&filter=publisher:31")).toMatchObject({
+        status: 400,
+      });
+    });
+  });
+});
+
+describe("getRequestKey", () => {
+  it("should sort params so equivalent requests share a key", () => {
+    const first = resolve(
+      "endpoint=/characters/&offset=0&limit=50",
+    ) as AllowedRequest;
+    const second = resolve(
+      "endpoint=characters&limit=50&offset=0",
+    ) as AllowedRequest;
+
+    expect(getRequestKey(first)).toBe("/characters/?limit=50&offset=0");
+    expect(getRequestKey(second)).toBe(getRequestKey(first));
+  });
+});
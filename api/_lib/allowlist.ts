@@ -0,0 +1,192 @@
+/**
+ * Comic Vine Proxy Allowlist
+ *
+ * The proxy attaches the shared server-side API key, so it only forwards the
+ * endpoints and parameters the app actually uses. Anything else is rejected
+ * before it reaches Comic Vine.
+ */
+
+/**
+ * Resource types, used for rate limiting, caching policies and quota tracking
+ * (Comic Vine's quota is per resource)
+ */
+export const PROXY_RESOURCES = [
+  "characters",
+  "character",
+  "issues",
+  "issue",
+  "team",
+  "power",
+] as const;
+
+export type ProxyResource = (typeof PROXY_RESOURCES)[number];
+
+/** Comic Vine's page size limit */
+const MAX_LIMIT = 100;
+
+/** Longest filter value forwarded (searches plus up to 100 batched IDs) */
+const MAX_FILTER_LENGTH = 1200;
+
+type ParamValidator = (value: string) => boolean;
+
+const isPageSize: ParamValidator = (value) =>
+  /^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= MAX_LIMIT;
+
+const isOffset: ParamValidator = (value) => /^\d{1,6}$/.test(value);
+
+const isSort: ParamValidator = (value) => /^[a-z_]+:(asc|desc)$/.test(value);
+
+const isFieldList: ParamValidator = (value) =>
+  /^[a-z_]+(,[a-z_]+)*$/.test(value);
+
+/**
+ * `filter=field:value,field:value` with only the given fields
+ * e.g. 'publisher:31,name:Spider' or 'id:1|2|3'
+ */
+function isFilter(fields: Record<string, RegExp>): ParamValidator {
+  return (value) =>
+    value.length <= MAX_FILTER_LENGTH &&
+    value.split(",").every((part) => {
+      const separator = part.indexOf(":");
+      const pattern = fields[part.slice(0, separator)];
+      return separator > 0 && pattern?.test(part.slice(separator + 1)) === true;
+    });
+}
+
+const ID_LIST = /^\d+(\|\d+){0,99}$/;
+
+/**
+ * Allowed endpoints and the params each accepts
+ */
+const ALLOWLIST: Array<{
+  pattern: RegExp;
+  resource: ProxyResource;
+  params: Record<string, ParamValidator>;
+}> = [
+  {
+    pattern: /^\/characters\/$/,
+    resource: "characters",
+    params: {
+      filter: isFilter({
+        publisher: /^\d+$/,
+        name: /^[^,:]{1,100}$/,
+        id: ID_LIST,
+      }),
+      limit: isPageSize,
+      offset: isOffset,
+      sort: isSort,
+      field_list: isFieldList,
+    },
+  },
+  {
+    pattern: /^\/character\/4005-\d+\/$/,
+    resource: "character",
+    params: { field_list: isFieldList },
+  },
+  {
+    pattern: /^\/issues\/$/,
+    resource: "issues",
+    params: {
+      filter: isFilter({ id: ID_LIST }),
+      limit: isPageSize,
+      offset: isOffset,
+      sort: isSort,
+      field_list: isFieldList,
+    },
+  },
+  {
+    pattern: /^\/issue\/4000-\d+\/$/,
+    resource: "issue",
+    params: { field_list: isFieldList },
+  },
+  {
+    pattern: /^\/team\/4060-\d+\/$/,
+    resource: "team",
+    params: { field_list: isFieldList },
+  },
+  {
+    pattern: /^\/power\/4035-\d+\/$/,
+    resource: "power",
+    params: { field_list: isFieldList },
+  },
+];
+
+/**
+ * A request the proxy may forward
+ */
+export interface AllowedRequest {
+  endpoint: string;
+  resource: ProxyResource;
+  params: Record<string, string>;
+}
+
+/**
+ * Why a request was rejected
+ */
+export interface RejectedRequest {
+  status: 400 | 403;
+  error: string;
+}
+
+/**
+ * Check a proxy request against the allowlist
+ *
+ * @param query - Proxy query string (`endpoint` plus Comic Vine params)
+ * @returns The endpoint and params to forward, or why it was rejected
+ *
+ * @example
+ * ```typescript
+ * resolveAllowedRequest(new URLSearchParams('endpoint=/characters/&limit=50'));
+ * // { endpoint: '/characters/', resource: 'characters', params: { limit: '50' } }
+ * ```
+ */
+export function resolveAllowedRequest(
+  query: URLSearchParams,
+): AllowedRequest | RejectedRequest {
+  const rawEndpoint = query.get("endpoint");
+  if (!rawEndpoint) {
+    return { status: 400, error: "Missing endpoint parameter" };
+  }
+
+  const withLeading = rawEndpoint.startsWith("/")
+    ? rawEndpoint
+    : `/${rawEndpoint}`;
+  const endpoint = withLeading.endsWith("/") ? withLeading : `${withLeading}/`;
+
+  const rule = ALLOWLIST.find(({ pattern }) => pattern.test(endpoint));
+  if (!rule) {
+    return { status: 403, error: `Endpoint not allowed: ${endpoint}` };
+  }
+
+  const params: Record<string, string> = {};
+  for (const key of new Set(query.keys())) {
+    if (key === "endpoint") continue;
+
+    const values = query.getAll(key);
+    const validate = rule.params[key];
+    if (!validate) {
+      return { status: 400, error: `Parameter not allowed: ${key}` };
+    }
+
+    const value = values[0] ?? "";
+    if (values.length > 1 || !validate(value)) {
+      return { status: 400, error: `Invalid value for parameter: ${key}` };
+    }
+
+    params[key] = value;
+  }
+
+  return { endpoint, resource: rule.resource, params };
+}
+
+/**
+ * Normalized key for an allowed request: endpoint + sorted params
+ * e.g. '/characters/?filter=publisher:31&limit=50&offset=0'
+ */
+export function getRequestKey({ endpoint, params }: AllowedRequest): string {
+  const sortedParams = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join("&");
+  return `${endpoint}?${sortedParams}`;
+}
@@ -0,0 +1,56 @@
+/**
+ * Cache Policy Tests
+ *
+ * Tests ETag creation and If-None-Match matching, and that every resource has
+ * a CDN cache policy matching its server-side TTL.
+ */
+
+import { PROXY_RESOURCES } from "./allowlist";
+import {
+  createETag,
+  getCacheControl,
+  getCacheTtl,
+  matchesETag,
+} from "./cachePolicy";
+
+describe("createETag", () => {
+  it("should create the same strong ETag for the same body", () => {
+    const etag = createETag('{"status_code":1}');
+
+    expect(etag).toMatch(/^"[\w-]+"$/);
+    expect(createETag('{"status_code":1}')).toBe(etag);
+    expect(createETag('{"status_code":100}')).not.toBe(etag);
+  });
+});
+
+describe("matchesETag", () => {
+  const etag = createETag("body");
+
+  it("should not match without If-None-Match", () => {
+    expect(matchesETag(undefined, etag)).toBe(false);
+    expect(matchesETag("", etag)).toBe(false);
+  });
+
+  it("should match the current ETag", () => {
+    expect(matchesETag(etag, etag)).toBe(true);
+    expect(matchesETag('"stale"', etag)).toBe(false);
+  });
+
+  it("should match within a list, weak tags and the wildcard", () => {
+    expect(matchesETag(`"stale", ${etag}`, etag)).toBe(true);
+    expect(matchesETag(`W/${etag}`, etag)).toBe(true);
+    expect(matchesETag("*", etag)).toBe(true);
+    expect(matchesETag(['"stale"', etag], etag)).toBe(true);
+  });
+});
+
+describe("cache policy", () => {
+  it("should let the CDN keep each resource as long as the server cache", () => {
+    for (const resource of PROXY_RESOURCES) {
+      expect(getCacheControl(resource)).toContain(
+        `s-maxage=${getCacheTtl(resource)}`,
+      );
+      expect(getCacheControl(resource)).toMatch(/^public, /);
+    }
+  });
+});
@@ -0,0 +1,75 @@
+import { createHash } from "crypto";
+import { ProxyResource } from "./allowlist";
+
+/**
+ * Server-side cache TTL per resource type, in seconds
+ * - characters: lists and searches (1 hour)
+ * - character/team/power: details, rosters and power lists rarely change (1 day)
+ * - issues/issue: published issues almost never change (7 days)
+ */
+const CACHE_TTL_SECONDS: Record<ProxyResource, number> = {
+  characters: 60 * 60,
+  character: 24 * 60 * 60,
+  issues: 7 * 24 * 60 * 60,
+  issue: 7 * 24 * 60 * 60,
+  team: 24 * 60 * 60,
+  power: 24 * 60 * 60,
+};
+
+/**
+ * Cache-Control per resource type
+ *
+ * `s-maxage` matches the server-side TTL so Vercel's CDN answers repeated calls
+ * without invoking the function; browsers keep a shorter `max-age` and
+ * revalidate with ETags.
+ */
+const CACHE_CONTROL: Record<ProxyResource, string> = {
+  characters:
+    "public, max-age=300, s-maxage=3600, stale-while-revalidate=86400",
+  character:
+    "public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800",
+  issues:
+    "public, max-age=86400, s-maxage=604800, stale-while-revalidate=604800",
+  issue:
+    "public, max-age=86400, s-maxage=604800, stale-while-revalidate=604800",
+  team: "public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800",
+  power: "public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800",
+};
+
+/** Errors and rejected requests must never be cached */
+export const NO_STORE = "no-store";
+
+export function getCacheControl(resource: ProxyResource): string {
+  return CACHE_CONTROL[resource];
+}
+
+export function getCacheTtl(resource: ProxyResource): number {
+  return CACHE_TTL_SECONDS[resource];
+}
+
+/**
+ * Strong ETag for a response body
+ */
+export function createETag(body: string): string {
+  return `"${createHash("sha1").update(body).digest("base64url")}"`;
+}
+
+/**
+ * Whether an If-None-Match header matches the current ETag (→ 304)
+ */
+export function matchesETag(
+  ifNoneMatch: string | string[] | undefined,
+  etag: string,
+): boolean {
+  const header = Array.isArray(ifNoneMatch)
+    ? ifNoneMatch.join(",")
+    : ifNoneMatch;
+  if (!header) {
+    return false;
+  }
+
+  return header
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === etag);
+}
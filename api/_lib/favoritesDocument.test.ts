@@ -0,0 +1,123 @@
+/**
+ * Favorites Document Tests
+ *
+ * Tests validation of documents sent by clients and their version tags.
+ */
+
+import {
+  createEmptyFavoritesDocument,
+  FavoritesDocument,
+  getDocumentETag,
+  MAX_FAVORITES,
+  parseFavoritesDocument,
+} from "./favoritesDocument";
+
+const entry = (id: number) => ({
+  id,
+  name: `Character ${id}`,
+  thumbnailUrl: `https://example.com/${id}.jpg`,
+  description: "",
+  addedAt: "2024-01-01T00:00:00.000Z",
+});
+
+const document = (favorites: unknown[] = [entry(1)]) => ({
+  version: 2,
+  favorites,
+  lastModified: "2024-01-02T00:00:00.000Z",
+});
+
+describe("parseFavoritesDocument", () => {
+  it("should accept a valid document", () => {
+    expect(parseFavoritesDocument(document([entry(1), entry(2)]))).toEqual(
+      document([entry(1), entry(2)]),
+    );
+  });
+
+  it("should drop unknown properties", () => {
+    const parsed = parseFavoritesDocument({
+      ...document([{ ...entry(1), isAdmin: true }]),
+      owner: "someone-else",
+    });
+
+    expect(parsed).toEqual(document([entry(1)]));
+  });
+
+  it("should keep the first entry of duplicate IDs", () => {
+    const parsed = parseFavoritesDocument(
+      document([entry(1), { ...entry(1), name: "Duplicate" }, entry(2)]),
+    );
+
+    expect(parsed?.favorites.map(({ id, name }) => [id, name])).toEqual([
+      [1, "Character 1"],
+      [2, "Character 2"],
+    ]);
+  });
+
+  it("should reject values that aren't documents", () => {
+    expect(parseFavoritesDocument(undefined)).toBeNull();
+    expect(parseFavoritesDocument(null)).toBeNull();
+    expect(parseFavoritesDocument("favorites")).toBeNull();
+    expect(parseFavoritesDocument([entry(1)])).toBeNull();
+  });
+
+  it("should reject invalid versions and dates", () => {
+    expect(parseFavoritesDocument({ ...document(), version: "2" })).toBeNull();
+    expect(parseFavoritesDocument({ ...document(), version: 1.5 })).toBeNull();
+    expect(
+      parseFavoritesDocument({ ...document(), lastModified: "yesterday" }),
+    ).toBeNull();
+    expect(
+      parseFavoritesDocument({ ...document(), favorites: "1,2" }),
+    ).toBeNull();
+  });
+
+  it("should reject invalid entries", () => {
+    for (const invalid of [
+      { ...entry(1), id: 0 },
+      { ...entry(1), id: 1.5 },
+      { ...entry(1), id: "1" },
+      { ...entry(1), name: 1 },
+      { ...entry(1), thumbnailUrl: "x".repeat(2049) },
+      { ...entry(1), addedAt: "not a date" },
+      null,
+    ]) {
+      expect(parseFavoritesDocument(document([invalid]))).toBeNull();
+    }
+  });
+
+  it("should reject more than MAX_FAVORITES favorites", () => {
+    const favorites = Array.from({ length: MAX_FAVORITES + 1 }, (_, index) =>
+      entry(index + 1),
+    );
+
+    expect(parseFavoritesDocument(document(favorites))).toBeNull();
+    expect(
+      parseFavoritesDocument(document(favorites.slice(0, MAX_FAVORITES))),
+    ).not.toBeNull();
+  });
+});
+
+describe("createEmptyFavoritesDocument", () => {
+  it("should be older than any client write", () => {
+    const empty = createEmptyFavoritesDocument();
+
+    expect(empty.favorites).toEqual([]);
+    expect(Date.parse(empty.lastModified)).toBe(0);
+  });
+});
+
+describe("getDocumentETag", () => {
+  const stored = (lastModified: string, ids = [1]): FavoritesDocument => ({
+    version: 2,
+    favorites: ids.map(entry),
+    lastModified,
+  });
+
+  it("should tag a document by its lastModified", () => {
+    const tag = getDocumentETag(stored("2024-01-02T00:00:00.000Z"));
+
+    expect(tag).toBe(`"${Date.parse("2024-01-02T00:00:00.000Z")}"`);
+    expect(getDocumentETag(stored("2024-01-02T00:00:00.000Z", [9]))).toBe(tag);
+    expect(getDocumentETag(stored("2024-01-03T00:00:00.000Z"))).not.toBe(tag);
+  });
+});
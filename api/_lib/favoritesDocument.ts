@@ -0,0 +1,109 @@
+/**
+ * A favorite as stored by the favorites server (same shape as the app's
+ * `FavoriteEntry` in localStorage)
+ */
+export interface FavoritesDocumentEntry {
+  id: number;
+  name: string;
+  thumbnailUrl: string;
+  description: string;
+  addedAt: string; // ISO date string
+}
+
+/**
+ * One user's favorites (same shape as the app's `FavoritesData`)
+ */
+export interface FavoritesDocument {
+  version: number;
+  favorites: FavoritesDocumentEntry[];
+  lastModified: string; // ISO date string, set by the client that wrote it
+}
+
+/** Most favorites one document may hold */
+export const MAX_FAVORITES = 1000;
+
+/** Longest string accepted in an entry (URLs included) */
+const MAX_FIELD_LENGTH = 2048;
+
+/**
+ * Document returned before a user's first write
+ */
+export function createEmptyFavoritesDocument(): FavoritesDocument {
+  return {
+    version: 2,
+    favorites: [],
+    lastModified: new Date(0).toISOString(),
+  };
+}
+
+/**
+ * Entity tag of a document version, compared against `If-Match`
+ */
+export function getDocumentETag(document: FavoritesDocument): string {
+  return `"${Date.parse(document.lastModified)}"`;
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value));
+}
+
+function isField(value: unknown): value is string {
+  return typeof value === "string" && value.length <= MAX_FIELD_LENGTH;
+}
+
+function isEntry(value: unknown): value is FavoritesDocumentEntry {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const entry = value as Record<string, unknown>;
+  return (
+    Number.isSafeInteger(entry.id) &&
+    (entry.id as number) > 0 &&
+    isField(entry.name) &&
+    isField(entry.thumbnailUrl) &&
+    isField(entry.description) &&
+    isDate(entry.addedAt)
+  );
+}
+
+/**
+ * Validate a document sent by a client
+ *
+ * Unknown properties are dropped; duplicate IDs keep their first entry.
+ *
+ * @returns The document, or null when it isn't a valid favorites document
+ */
+export function parseFavoritesDocument(
+  value: unknown,
+): FavoritesDocument | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+
+  const { version, favorites, lastModified } = value as Record<string, unknown>;
+  if (
+    !Number.isSafeInteger(version) ||
+    !isDate(lastModified) ||
+    !Array.isArray(favorites) ||
+    favorites.length > MAX_FAVORITES ||
+    !favorites.every(isEntry)
+  ) {
+    return null;
+  }
+
+  const seen = new Set<number>();
+  return {
+    version: version as number,
+    favorites: favorites
+      .filter(({ id }) => !seen.has(id) && seen.add(id))
+      .map(({ id, name, thumbnailUrl, description, addedAt }) => ({
+        id,
+        name,
+        thumbnailUrl,
+        description,
+        addedAt,
+      })),
+    lastModified,
+  };
+}
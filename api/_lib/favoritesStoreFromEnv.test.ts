@@ -0,0 +1,56 @@
+/**
+ * Favorites Store Selection Tests
+ *
+ * Tests how FAVORITES_STORE and the Vercel KV variables pick a store, and
+ * that per-instance stores are refused on Vercel.
+ */
+
+import { FileFavoritesStore } from "./FileFavoritesStore";
+import { KvFavoritesStore } from "./KvFavoritesStore";
+import { MemoryFavoritesStore } from "./MemoryFavoritesStore";
+import { createFavoritesStore } from "./favoritesStoreFromEnv";
+
+const KV_ENV = {
+  KV_REST_API_URL: "https://kv.example.com",
+  KV_REST_API_TOKEN: "token",
+};
+
+describe("createFavoritesStore", () => {
+  it("should default to the memory store locally", () => {
+    expect(createFavoritesStore({})).toBeInstanceOf(MemoryFavoritesStore);
+  });
+
+  it("should pick KV when Vercel KV is configured", () => {
+    expect(createFavoritesStore(KV_ENV)).toBeInstanceOf(KvFavoritesStore);
+  });
+
+  it("should honour an explicit FAVORITES_STORE", () => {
+    expect(createFavoritesStore({ FAVORITES_STORE: "file" })).toBeInstanceOf(
+      FileFavoritesStore,
+    );
+    expect(
+      createFavoritesStore({ ...KV_ENV, FAVORITES_STORE: "memory" }),
+    ).toBeInstanceOf(MemoryFavoritesStore);
+  });
+
+  it("should throw when KV is selected but not configured", () => {
+    expect(() => createFavoritesStore({ FAVORITES_STORE: "kv" })).toThrow(
+      "FAVORITES_STORE=kv needs KV_REST_API_URL and KV_REST_API_TOKEN",
+    );
+  });
+
+  it("should refuse per-instance stores on Vercel", () => {
+    expect(() => createFavoritesStore({ VERCEL: "1" })).toThrow(
+      "FAVORITES_STORE=memory loses favorites across serverless instances",
+    );
+    expect(() =>
+      createFavoritesStore({ VERCEL: "1", FAVORITES_STORE: "file" }),
+    ).toThrow("FAVORITES_STORE=file loses favorites");
+  });
+
+  it("should use KV on Vercel", () => {
+    expect(createFavoritesStore({ ...KV_ENV, VERCEL: "1" })).toBeInstanceOf(
+      KvFavoritesStore,
+    );
+  });
+});
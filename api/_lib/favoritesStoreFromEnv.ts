@@ -0,0 +1,62 @@
+import { tmpdir } from "os";
+import { join } from "path";
+import { FavoritesStore } from "./FavoritesStore";
+import { FileFavoritesStore } from "./FileFavoritesStore";
+import { KvFavoritesStore } from "./KvFavoritesStore";
+import { MemoryFavoritesStore } from "./MemoryFavoritesStore";
+
+/**
+ * Pick the favorites store from environment variables
+ *
+ * - FAVORITES_STORE=memory|file|kv selects explicitly
+ * - Otherwise KV when KV_REST_API_URL/KV_REST_API_TOKEN are set (Vercel KV), memory if not
+ * - FAVORITES_STORE_DIR sets the file store's directory (defaults to the OS temp dir)
+ *
+ * On Vercel (VERCEL is set) only KV keeps favorites: memory and file stores
+ * live in one serverless instance and lose them on the next cold start or
+ * on another instance, so they are refused.
+ *
+ * @throws {Error} When KV is selected but not configured, or a per-instance store is picked on Vercel
+ */
+export function createFavoritesStore(
+  env: NodeJS.ProcessEnv = process.env,
+): FavoritesStore {
+  const kvUrl = env.KV_REST_API_URL;
+  const kvToken = env.KV_REST_API_TOKEN;
+  const kind = env.FAVORITES_STORE || (kvUrl && kvToken ? "kv" : "memory");
+
+  if (kind === "kv") {
+    if (!kvUrl || !kvToken) {
+      throw new Error(
+        "FAVORITES_STORE=kv needs KV_REST_API_URL and KV_REST_API_TOKEN",
+      );
+    }
+    return new KvFavoritesStore(kvUrl, kvToken);
+  }
+
+  if (env.VERCEL) {
+    throw new Error(
+      `FAVORITES_STORE=${kind} loses favorites across serverless instances: connect a Vercel KV store`,
+    );
+  }
+
+  if (kind === "file") {
+    return new FileFavoritesStore(
+      env.FAVORITES_STORE_DIR || join(tmpdir(), "marvel-favorites"),
+    );
+  }
+
+  return new MemoryFavoritesStore();
+}
+
+let favoritesStore: FavoritesStore | null = null;
+
+/**
+ * Favorites store shared by every request an instance handles
+ *
+ * @throws {Error} When the environment doesn't configure a usable store
+ */
+export function getFavoritesStore(): FavoritesStore {
+  favoritesStore ??= createFavoritesStore();
+  return favoritesStore;
+}
@@ -0,0 +1,43 @@
+export type RedisCommand = Array<string | number>;
+
+/**
+ * Run Redis commands in one round trip over the Upstash REST API
+ * (`/pipeline` endpoint, what Vercel KV exposes via `KV_REST_API_URL`)
+ *
+ * @returns Each command's result, in order
+ * @throws {Error} When the request or any command fails
+ *
+ * @example
+ * ```typescript
+ * const [value] = await runKvPipeline(url, token, [['GET', 'key']]);
+ * ```
+ */
+export async function runKvPipeline(
+  url: string,
+  token: string,
+  commands: RedisCommand[],
+): Promise<unknown[]> {
+  const response = await fetch(`${url}/pipeline`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(commands),
+  });
+
+  if (!response.ok) {
+    throw new Error(`KV request failed: ${response.status}`);
+  }
+
+  const results = (await response.json()) as Array<{
+    result?: unknown;
+    error?: string;
+  }>;
+  return results.map(({ result, error }) => {
+    if (error) {
+      throw new Error(`KV command failed: ${error}`);
+    }
+    return result;
+  });
+}
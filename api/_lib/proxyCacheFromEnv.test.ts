@@ -0,0 +1,55 @@
+/**
+ * Proxy Cache Store Selection Tests
+ *
+ * Tests how PROXY_CACHE_STORE and the Vercel KV variables pick a store.
+ */
+
+import { FileProxyCacheStore } from "./FileProxyCacheStore";
+import { KvProxyCacheStore } from "./KvProxyCacheStore";
+import { MemoryProxyCacheStore } from "./MemoryProxyCacheStore";
+import { createProxyCacheStore } from "./proxyCacheFromEnv";
+
+const KV_ENV = {
+  KV_REST_API_URL: "https://kv.example.com",
+  KV_REST_API_TOKEN: "token",
+};
+
+describe("createProxyCacheStore", () => {
+  it("should default to the memory store", () => {
+    expect(createProxyCacheStore({})).toBeInstanceOf(MemoryProxyCacheStore);
+  });
+
+  it("should pick KV when Vercel KV is configured", () => {
+    expect(createProxyCacheStore(KV_ENV)).toBeInstanceOf(KvProxyCacheStore);
+  });
+
+  it("should not pick KV with only part of its configuration", () => {
+    expect(
+      createProxyCacheStore({ KV_REST_API_URL: KV_ENV.KV_REST_API_URL }),
+    ).toBeInstanceOf(MemoryProxyCacheStore);
+  });
+
+  it("should honour an explicit PROXY_CACHE_STORE", () => {
+    expect(
+      createProxyCacheStore({ ...KV_ENV, PROXY_CACHE_STORE: "memory" }),
+    ).toBeInstanceOf(MemoryProxyCacheStore);
+    expect(createProxyCacheStore({ PROXY_CACHE_STORE: "file" })).toBeInstanceOf(
+      FileProxyCacheStore,
+    );
+    expect(
+      createProxyCacheStore({ ...KV_ENV, PROXY_CACHE_STORE: "kv" }),
+    ).toBeInstanceOf(KvProxyCacheStore);
+  });
+
+  it("should fall back to memory for unknown store names", () => {
+    expect(
+      createProxyCacheStore({ PROXY_CACHE_STORE: "redis" }),
+    ).toBeInstanceOf(MemoryProxyCacheStore);
+  });
+
+  it("should throw when KV is selected but not configured", () => {
+    expect(() => createProxyCacheStore({ PROXY_CACHE_STORE: "kv" })).toThrow(
+      "PROXY_CACHE_STORE=kv needs KV_REST_API_URL and KV_REST_API_TOKEN",
+    );
+  });
+});
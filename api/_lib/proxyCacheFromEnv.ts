@@ -0,0 +1,50 @@
+import { tmpdir } from "os";
+import { join } from "path";
+import { FileProxyCacheStore } from "./FileProxyCacheStore";
+import { KvProxyCacheStore } from "./KvProxyCacheStore";
+import { MemoryProxyCacheStore } from "./MemoryProxyCacheStore";
+import { ProxyCache } from "./ProxyCache";
+import { ProxyCacheStore } from "./ProxyCacheStore";
+
+/**
+ * Pick the proxy cache store from environment variables
+ *
+ * - PROXY_CACHE_STORE=memory|file|kv selects explicitly
+ * - Otherwise KV when KV_REST_API_URL/KV_REST_API_TOKEN are set (Vercel KV), memory if not
+ * - PROXY_CACHE_DIR sets the file store's directory (defaults to the OS temp dir)
+ *
+ * @throws {Error} When the KV store is selected but not configured
+ */
+export function createProxyCacheStore(
+  env: NodeJS.ProcessEnv = process.env,
+): ProxyCacheStore {
+  const kvUrl = env.KV_REST_API_URL;
+  const kvToken = env.KV_REST_API_TOKEN;
+  const kind = env.PROXY_CACHE_STORE || (kvUrl && kvToken ? "kv" : "memory");
+
+  switch (kind) {
+    case "kv":
+      if (!kvUrl || !kvToken) {
+        throw new Error(
+          "PROXY_CACHE_STORE=kv needs KV_REST_API_URL and KV_REST_API_TOKEN",
+        );
+      }
+      return new KvProxyCacheStore(kvUrl, kvToken);
+    case "file":
+      return new FileProxyCacheStore(
+        env.PROXY_CACHE_DIR || join(tmpdir(), "comicvine-proxy-cache"),
+      );
+    default:
+      return new MemoryProxyCacheStore();
+  }
+}
+
+let proxyCache: ProxyCache | null = null;
+
+/**
+ * Proxy cache shared by every request an instance handles
+ */
+export function getProxyCache(): ProxyCache {
+  proxyCache ??= new ProxyCache(createProxyCacheStore());
+  return proxyCache;
+}
@@ -0,0 +1,136 @@
+/**
+ * Proxy Cache Admin Handler Tests
+ *
+ * Tests that the stats endpoint stays hidden without PROXY_ADMIN_TOKEN,
+ * requires the bearer token, and reports the shared cache's stats.
+ */
+
+import type { IncomingMessage, ServerResponse } from "http";
+import { getProxyCache } from "../_lib/proxyCacheFromEnv";
+import handler from "./proxy-cache";
+
+jest.mock("../_lib/proxyCacheFromEnv");
+
+interface RecordedResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+const TOKEN = "admin-token";
+
+const stats = {
+  store: "memory",
+  requests: 4,
+  hits: 2,
+  misses: 1,
+  coalesced: 1,
+  upstreamErrors: 0,
+  hitRatio: 0.75,
+  quota: [],
+};
+
+async function call(
+  options: { method?: string; authorization?: string } = {},
+): Promise<RecordedResponse> {
+  const req = {
+    method: options.method ?? "GET",
+    headers:
+      options.authorization !== undefined
+        ? { authorization: options.authorization }
+        : {},
+  } as unknown as IncomingMessage;
+
+  const recorded: RecordedResponse = { statusCode: 200, headers: {}, body: "" };
+  const res = {
+    set statusCode(status: number) {
+      recorded.statusCode = status;
+    },
+    setHeader(name: string, value: string) {
+      recorded.headers[name.toLowerCase()] = value;
+    },
+    end(body: string) {
+      recorded.body = JSON.parse(body);
+    },
+  } as unknown as ServerResponse;
+
+  await handler(req, res);
+  return recorded;
+}
+
+describe("proxy cache admin handler", () => {
+  const originalToken = process.env.PROXY_ADMIN_TOKEN;
+  const getStats = jest.fn();
+
+  beforeEach(() => {
+    process.env.PROXY_ADMIN_TOKEN = TOKEN;
+    getStats.mockReset().mockResolvedValue(stats);
+    jest.mocked(getProxyCache).mockReturnValue({
+      getStats,
+    } as unknown as ReturnType<typeof getProxyCache>);
+  });
+
+  afterEach(() => {
+    if (originalToken === undefined) {
+      delete process.env.PROXY_ADMIN_TOKEN;
+    } else {
+      process.env.PROXY_ADMIN_TOKEN = originalToken;
+    }
+    jest.restoreAllMocks();
+  });
+
+  it("should answer 404 when no admin token is configured", async () => {
+    delete process.env.PROXY_ADMIN_TOKEN;
+
+    const response = await call({ authorization: "Bearer " });
+
+    expect(response.statusCode).toBe(404);
+    expect(getStats).not.toHaveBeenCalled();
+  });
+
+  it("should answer 401 without the bearer token", async () => {
+    for (const authorization of [
+      undefined,
+      "",
+      TOKEN,
+      "Bearer wrong-token",
+      `Bearer ${TOKEN}x`,
+      `Basic ${TOKEN}`,
+    ]) {
+      const response = await call(
+        authorization !== undefined ? { authorization } : {},
+      );
+
+      expect(response.statusCode).toBe(401);
+      expect(response.headers["cache-control"]).toBe("no-store");
+    }
+    expect(getStats).not.toHaveBeenCalled();
+  });
+
+  it("should reject methods other than GET", async () => {
+    const response = await call({
+      method: "DELETE",
+      authorization: `Bearer ${TOKEN}`,
+    });
+
+    expect(response.statusCode).toBe(405);
+    expect(response.headers.allow).toBe("GET");
+  });
+
+  it("should report the cache stats with the bearer token", async () => {
+    const response = await call({ authorization: `Bearer ${TOKEN}` });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toEqual(stats);
+    expect(response.headers["cache-control"]).toBe("no-store");
+  });
+
+  it("should answer 502 when the stats can't be read", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    getStats.mockRejectedValue(new Error("KV down"));
+
+    const response = await call({ authorization: `Bearer ${TOKEN}` });
+
+    expect(response.statusCode).toBe(502);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Vercel Serverless Function - Proxy Cache Admin
+ *
+ * Reports the proxy cache's hit ratio and the Comic Vine quota the proxy has
+ * spent in the current window. Counters live in the cache store, so numbers
+ * are global with the KV store and per instance with the memory store.
+ *
+ * Disabled unless PROXY_ADMIN_TOKEN is set; requests must send it as a bearer token.
+ *
+ * @example
+ * ```bash
+ * curl -H "Authorization: Bearer $PROXY_ADMIN_TOKEN" https://<app>/api/admin/proxy-cache
+ * ```
+ */
+import { timingSafeEqual } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import { NO_STORE } from "../_lib/cachePolicy";
+import { getProxyCache } from "../_lib/proxyCacheFromEnv";
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", NO_STORE);
+  res.end(JSON.stringify(body));
+}
+
+function isAuthorized(header: string | undefined, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const received = Buffer.from(header ?? "");
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+}
+
+export default async function handler(
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> {
+  const token = process.env.PROXY_ADMIN_TOKEN;
+  if (!token) {
+    send(res, 404, { error: "Not found" });
+    return;
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    send(res, 405, { error: "Method not allowed" });
+    return;
+  }
+
+  if (!isAuthorized(req.headers.authorization, token)) {
+    send(res, 401, { error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    send(res, 200, await getProxyCache().getStats());
+  } catch (error: unknown) {
+    console.error("Proxy cache stats failed:", error);
+    send(res, 502, { error: "Failed to read proxy cache stats" });
+  }
+}
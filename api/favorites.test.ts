@@ -0,0 +1,257 @@
+/**
+ * Favorites Sync Handler Tests
+ *
+ * Tests the reference favorites server: sync key validation, one document
+ * per key, If-Match preconditions (412) and last-writer-wins by
+ * `lastModified` (409).
+ */
+
+import type { IncomingMessage, ServerResponse } from "http";
+import { Readable } from "stream";
+import { FavoritesDocument } from "./_lib/favoritesDocument";
+import { getFavoritesStore } from "./_lib/favoritesStoreFromEnv";
+import { MemoryFavoritesStore } from "./_lib/MemoryFavoritesStore";
+import handler from "./favorites";
+
+jest.mock("./_lib/favoritesStoreFromEnv");
+
+interface RecordedResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+const SYNC_KEY = "3f9a0c7e1b2d4a6f8e0c1b3d";
+const OTHER_KEY = "0a1b2c3d4e5f60718293a4b5";
+
+const documentAt = (
+  lastModified: string,
+  ids: number[] = [1],
+): FavoritesDocument => ({
+  version: 2,
+  favorites: ids.map((id) => ({
+    id,
+    name: `Character ${id}`,
+    thumbnailUrl: "",
+    description: "",
+    addedAt: lastModified,
+  })),
+  lastModified,
+});
+
+async function call(
+  options: {
+    method?: string;
+    syncKey?: string | null;
+    ifMatch?: string;
+    body?: unknown;
+  } = {},
+): Promise<RecordedResponse> {
+  const { syncKey = SYNC_KEY } = options;
+  const raw =
+    typeof options.body === "string"
+      ? options.body
+      : JSON.stringify(options.body ?? null);
+
+  const req = Object.assign(Readable.from([Buffer.from(raw)]), {
+    method: options.method ?? "GET",
+    url: "/api/favorites",
+    headers: {
+      ...(syncKey !== null && { authorization: `Bearer ${syncKey}` }),
+      ...(options.ifMatch !== undefined && { "if-match": options.ifMatch }),
+    },
+  }) as unknown as IncomingMessage;
+
+  const recorded: RecordedResponse = { statusCode: 200, headers: {}, body: "" };
+  const res = {
+    set statusCode(status: number) {
+      recorded.statusCode = status;
+    },
+    setHeader(name: string, value: string) {
+      recorded.headers[name.toLowerCase()] = value;
+    },
+    end(body: string) {
+      recorded.body = JSON.parse(body);
+    },
+  } as unknown as ServerResponse;
+
+  await handler(req, res);
+  return recorded;
+}
+
+const put = (body: unknown, ifMatch?: string) =>
+  call({ method: "PUT", body, ...(ifMatch !== undefined && { ifMatch }) });
+
+describe("favorites handler", () => {
+  let store: MemoryFavoritesStore;
+
+  beforeEach(() => {
+    store = new MemoryFavoritesStore();
+    jest.mocked(getFavoritesStore).mockReturnValue(store);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should reject methods other than GET and PUT", async () => {
+    const response = await call({ method: "DELETE" });
+
+    expect(response.statusCode).toBe(405);
+    expect(response.headers.allow).toBe("GET, PUT");
+  });
+
+  describe("sync key", () => {
+    it("should answer 401 without a valid sync key", async () => {
+      for (const syncKey of [
+        null,
+        "",
+        "too-short",
+        "a".repeat(129),
+        `${SYNC_KEY}/..`,
+        `${SYNC_KEY} extra`,
+      ]) {
+        const response = await call({ syncKey });
+
+        expect(response.statusCode).toBe(401);
+      }
+    });
+
+    it("should store documents under a hash of the key, not the key", async () => {
+      const putSpy = jest.spyOn(store, "put");
+
+      await put(documentAt("2024-01-01T00:00:00.000Z"));
+
+      const [userKey] = putSpy.mock.calls[0]!;
+      expect(userKey).toMatch(/^[0-9a-f]{64}$/);
+      expect(userKey).not.toContain(SYNC_KEY);
+    });
+
+    it("should keep one document per key", async () => {
+      await put(documentAt("2024-01-01T00:00:00.000Z", [1, 2]));
+
+      const own = await call();
+      const other = await call({ syncKey: OTHER_KEY });
+
+      expect((own.body as FavoritesDocument).favorites).toHaveLength(2);
+      expect((other.body as FavoritesDocument).favorites).toEqual([]);
+    });
+  });
+
+  describe("GET", () => {
+    it("should return an empty document before the first write", async () => {
+      const response = await call();
+
+      expect(response.statusCode).toBe(200);
+      expect(response.body).toEqual({
+        version: 2,
+        favorites: [],
+        lastModified: new Date(0).toISOString(),
+      });
+      expect(response.headers.etag).toBe('"0"');
+      expect(response.headers["cache-control"]).toBe("no-store");
+    });
+
+    it("should return the stored document and its ETag", async () => {
+      const document = documentAt("2024-01-01T00:00:00.000Z", [1, 2]);
+      await put(document);
+
+      const response = await call();
+
+      expect(response.body).toEqual(document);
+      expect(response.headers.etag).toBe(
+        `"${Date.parse(document.lastModified)}"`,
+      );
+    });
+  });
+
+  describe("PUT", () => {
+    it("should store a valid document", async () => {
+      const document = documentAt("2024-01-01T00:00:00.000Z");
+
+      const response = await put(document, '"0"');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.body).toEqual(document);
+      expect((await call()).body).toEqual(document);
+    });
+
+    it("should answer 400 for invalid documents", async () => {
+      expect((await put({ favorites: [] })).statusCode).toBe(400);
+      expect((await put("{not json")).statusCode).toBe(400);
+      expect((await call()).body).toMatchObject({ favorites: [] });
+    });
+
+    it("should answer 400 for bodies over the size limit", async () => {
+      const response = await put(
+        JSON.stringify({
+          ...documentAt("2024-01-01T00:00:00.000Z"),
+          padding: "x".repeat(600 * 1024),
+        }),
+      );
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it("should answer 412 with the current document when If-Match is stale", async () => {
+      const current = documentAt("2024-01-02T00:00:00.000Z", [1, 2]);
+      await put(current);
+
+      const response = await put(
+        documentAt("2024-01-03T00:00:00.000Z", [3]),
+        '"0"',
+      );
+
+      expect(response.statusCode).toBe(412);
+      expect(response.body).toEqual(current);
+      expect(response.headers.etag).toBe(
+        `"${Date.parse(current.lastModified)}"`,
+      );
+      expect((await call()).body).toEqual(current);
+    });
+
+    it("should accept a write whose If-Match names the current version", async () => {
+      await put(documentAt("2024-01-02T00:00:00.000Z"));
+      const { headers } = await call();
+
+      const response = await put(
+        documentAt("2024-01-03T00:00:00.000Z", [1, 5]),
+        headers.etag,
+      );
+
+      expect(response.statusCode).toBe(200);
+    });
+
+    it("should answer 409 with the current document for an older write (last writer wins)", async () => {
+      const current = documentAt("2024-01-02T00:00:00.000Z", [1, 2]);
+      await put(current);
+
+      const response = await put(documentAt("2024-01-01T00:00:00.000Z", [3]));
+
+      expect(response.statusCode).toBe(409);
+      expect(response.body).toEqual(current);
+      expect((await call()).body).toEqual(current);
+    });
+
+    it("should accept a write as recent as the stored one", async () => {
+      await put(documentAt("2024-01-02T00:00:00.000Z", [1]));
+
+      const response = await put(documentAt("2024-01-02T00:00:00.000Z", [2]));
+
+      expect(response.statusCode).toBe(200);
+      expect((await call()).body).toMatchObject({ favorites: [{ id: 2 }] });
+    });
+  });
+
+  it("should answer 500 when the store can't be used", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    jest.mocked(getFavoritesStore).mockImplementation(() => {
+      throw new Error("FAVORITES_STORE=memory loses favorites");
+    });
+
+    const response = await call();
+
+    expect(response.statusCode).toBe(500);
+    expect(response.body).toEqual({ error: "Failed to access favorites" });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Vercel Serverless Function - Favorites Sync (reference server)
+ *
+ * Stores one favorites document per user so favorites follow them across
+ * devices. Users are identified by the sync key their browser generated, sent
+ * as a bearer token; only a hash of the key is stored.
+ *
+ * - GET returns the document (empty before the first write) and its ETag
+ * - PUT replaces it. `If-Match` must name the current version (412 otherwise),
+ *   and the document's `lastModified` must not be older than the stored one
+ *   (409 otherwise): the last writer wins. Both errors return the current
+ *   document so the client can rebase its changes on it.
+ *
+ * Storage is picked by FAVORITES_STORE (see _lib/favoritesStoreFromEnv). The
+ * memory and file stores are per instance, so on Vercel the function refuses
+ * them and needs Vercel KV; locally, `npm run dev:favorites` runs this
+ * handler as a plain Node server.
+ *
+ * @example
+ * ```bash
+ * curl -H "Authorization: Bearer $SYNC_KEY" http://localhost:3001/api/favorites
+ * ```
+ */
+import { createHash } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import { NO_STORE } from "./_lib/cachePolicy";
+import {
+  createEmptyFavoritesDocument,
+  FavoritesDocument,
+  getDocumentETag,
+  parseFavoritesDocument,
+} from "./_lib/favoritesDocument";
+import { getFavoritesStore } from "./_lib/favoritesStoreFromEnv";
+
+/** Largest request body accepted (a full document is well under this) */
+const MAX_BODY_BYTES = 512 * 1024;
+
+const SYNC_KEY_PATTERN = /^Bearer ([A-Za-z0-9_-]{16,128})$/;
+
+function send(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): void {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", NO_STORE);
+  for (const [name, value] of Object.entries(headers)) {
+    res.setHeader(name, value);
+  }
+  res.end(JSON.stringify(body));
+}
+
+function sendDocument(
+  res: ServerResponse,
+  status: number,
+  document: FavoritesDocument,
+): void {
+  send(res, status, document, { ETag: getDocumentETag(document) });
+}
+
+/**
+ * Storage key for the sync key in the Authorization header
+ *
+ * @returns Hex hash of the key, or null when the header is missing or invalid
+ */
+function getUserKey(header: string | undefined): string | null {
+  const syncKey = SYNC_KEY_PATTERN.exec(header ?? "")?.[1];
+  return syncKey ? createHash("sha256").update(syncKey).digest("hex") : null;
+}
+
+/**
+ * Read a JSON request body
+ *
+ * @returns The parsed body, or undefined when it's too large or not JSON
+ */
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      return undefined;
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8")) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+export default async function handler(
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> {
+  if (req.method !== "GET" && req.method !== "PUT") {
+    send(res, 405, { error: "Method not allowed" }, { Allow: "GET, PUT" });
+    return;
+  }
+
+  const userKey = getUserKey(req.headers.authorization);
+  if (!userKey) {
+    send(res, 401, { error: "Missing or invalid sync key" });
+    return;
+  }
+
+  try {
+    const store = getFavoritesStore();
+    const current =
+      (await store.get(userKey)) ?? createEmptyFavoritesDocument();
+
+    if (req.method === "GET") {
+      sendDocument(res, 200, current);
+      return;
+    }
+
+    const document = parseFavoritesDocument(await readJson(req));
+    if (!document) {
+      send(res, 400, { error: "Body is not a valid favorites document" });
+      return;
+    }
+
+    const ifMatch = req.headers["if-match"];
+    if (ifMatch !== undefined && ifMatch !== getDocumentETag(current)) {
+      sendDocument(res, 412, current);
+      return;
+    }
+
+    if (Date.parse(document.lastModified) < Date.parse(current.lastModified)) {
+      sendDocument(res, 409, current);
+      return;
+    }
+
+    await store.put(userKey, document);
+    sendDocument(res, 200, document);
+  } catch (error: unknown) {
+    console.error("Favorites sync error:", error);
+    send(res, 500, { error: "Failed to access favorites" });
+  }
+}
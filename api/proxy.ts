@@ -0,0 +1,7 @@
+/**
+ * Compatibility wrapper for Vercel routing.
+ *
+ * Some deployments end up routing `/api/proxy` to `api/proxy.ts` instead of
+ * `api/proxy/index.ts`. Export the same handler so both are guaranteed to work.
+ */
+export { default } from "./proxy/index";
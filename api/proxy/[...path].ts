@@ -0,0 +1,7 @@
+/**
+ * Catch-all for Vercel routing.
+ *
+ * Routes `/api/proxy/*` to the same handler as `/api/proxy`, as the
+ * JavaScript version of the proxy did.
+ */
+export { default } from "./index";
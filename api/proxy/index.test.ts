@@ -0,0 +1,280 @@
+/**
+ * Comic Vine Proxy Handler Tests
+ *
+ * Tests the proxy end to end with a mocked upstream: allowlist rejections,
+ * per-IP rate limiting, server-side caching, ETag revalidation and that
+ * errors are never cached.
+ */
+
+import type { IncomingMessage, ServerResponse } from "http";
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+interface RecordedResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+const CHARACTERS_QUERY = "endpoint=/characters/&limit=50&offset=0";
+
+const okBody = JSON.stringify({ status_code: 1, results: [{ id: 1 }] });
+
+function upstream(body: string, status = 200, statusText = "OK"): Response {
+  return new Response(body, { status, statusText });
+}
+
+describe("proxy handler", () => {
+  let handler: Handler;
+  let fetchMock: jest.Mock;
+  const originalFetch = global.fetch;
+  const originalEnv = { ...process.env };
+
+  async function call(
+    query: string,
+    options: {
+      method?: string;
+      ip?: string;
+      headers?: Record<string, string>;
+    } = {},
+  ): Promise<RecordedResponse> {
+    const req = {
+      method: options.method ?? "GET",
+      url: `/api/proxy?${query}`,
+      headers: { "x-real-ip": options.ip ?? "203.0.113.1", ...options.headers },
+      socket: {},
+    } as unknown as IncomingMessage;
+
+    const recorded: RecordedResponse = {
+      statusCode: 200,
+      headers: {},
+      body: "",
+    };
+    const res = {
+      set statusCode(status: number) {
+        recorded.statusCode = status;
+      },
+      setHeader(name: string, value: string) {
+        recorded.headers[name.toLowerCase()] = value;
+      },
+      end(body?: string) {
+        recorded.body = body ?? "";
+      },
+    } as unknown as ServerResponse;
+
+    await handler(req, res);
+    return recorded;
+  }
+
+  beforeEach(() => {
+    // Fresh limiter and cache per test
+    jest.resetModules();
+    process.env = { ...originalEnv, COMICVINE_API_KEY: "secret-key" };
+    delete process.env.PROXY_CACHE_STORE;
+    delete process.env.KV_REST_API_URL;
+    delete process.env.KV_REST_API_TOKEN;
+
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    handler = (require("./index") as { default: Handler }).default;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it("should reject methods other than GET", async () => {
+    const response = await call(CHARACTERS_QUERY, { method: "POST" });
+
+    expect(response.statusCode).toBe(405);
+    expect(response.headers.allow).toBe("GET");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should reject endpoints that aren't allowlisted without calling Comic Vine", async () => {
+    const response = await call("endpoint=/publishers/");
+
+    expect(response.statusCode).toBe(403);
+    expect(response.headers["cache-control"]).toBe("no-store");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should reject params that aren't allowlisted without calling Comic Vine", async () => {
+    const response = await call(`${CHARACTERS_QUERY}&filter=gender:1`);
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body)).toEqual({
+      error: "Invalid value for parameter: filter",
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should forward allowed requests with the server-side key", async () => {
+    fetchMock.mockResolvedValue(upstream(okBody));
+
+    const response = await call(`${CHARACTERS_QUERY}&filter=publisher:31`);
+
+    const target = fetchMock.mock.calls[0][0] as URL;
+    expect(target.pathname).toBe("/api/characters/");
+    expect(target.searchParams.get("api_key")).toBe("secret-key");
+    expect(target.searchParams.get("format")).toBe("json");
+    expect(target.searchParams.get("filter")).toBe("publisher:31");
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toBe(okBody);
+    expect(response.body).not.toContain("secret-key");
+  });
+
+  it("should answer 500 when the API key isn't configured", async () => {
+    delete process.env.COMICVINE_API_KEY;
+    delete process.env.VITE_COMICVINE_API_KEY;
+
+    const response = await call(CHARACTERS_QUERY);
+
+    expect(response.statusCode).toBe(500);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  describe("caching", () => {
+    it("should serve repeated requests from the server-side cache", async () => {
+      fetchMock.mockResolvedValue(upstream(okBody));
+
+      const first = await call(CHARACTERS_QUERY);
+      const second = await call("endpoint=characters&offset=0&limit=50");
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(first.headers["x-cache"]).toBe("MISS");
+      expect(second.headers["x-cache"]).toBe("HIT");
+      expect(second.body).toBe(okBody);
+      expect(second.headers["cache-control"]).toContain("s-maxage=3600");
+    });
+
+    it("should answer 304 when If-None-Match matches the ETag", async () => {
+      fetchMock.mockResolvedValue(upstream(okBody));
+      const first = await call(CHARACTERS_QUERY);
+      const etag = first.headers.etag as string;
+
+      const revalidated = await call(CHARACTERS_QUERY, {
+        headers: { "if-none-match": etag },
+      });
+
+      expect(etag).toBeTruthy();
+      expect(revalidated.statusCode).toBe(304);
+      expect(revalidated.body).toBe("");
+      expect(revalidated.headers.etag).toBe(etag);
+      expect(revalidated.headers["cache-control"]).toContain("public");
+    });
+
+    it("should answer 200 when If-None-Match is stale", async () => {
+      fetchMock.mockResolvedValue(upstream(okBody));
+
+      const response = await call(CHARACTERS_QUERY, {
+        headers: { "if-none-match": '"stale"' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.body).toBe(okBody);
+    });
+
+    it("should never cache Comic Vine errors reported in the body", async () => {
+      const errorBody = JSON.stringify({
+        status_code: 100,
+        error: "Invalid API Key",
+      });
+      fetchMock.mockImplementation(async () => upstream(errorBody));
+
+      const first = await call(CHARACTERS_QUERY);
+      const second = await call(CHARACTERS_QUERY, {
+        headers: { "if-none-match": "*" },
+      });
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(first.body).toBe(errorBody);
+      expect(first.headers["cache-control"]).toBe("no-store");
+      expect(first.headers.etag).toBeUndefined();
+      expect(second.statusCode).toBe(200);
+    });
+
+    it("should never cache upstream HTTP errors", async () => {
+      fetchMock
+        .mockResolvedValueOnce(upstream("", 500, "Internal Server Error"))
+        .mockResolvedValueOnce(upstream(okBody));
+
+      const failed = await call(CHARACTERS_QUERY);
+      const retried = await call(CHARACTERS_QUERY);
+
+      expect(failed.statusCode).toBe(500);
+      expect(failed.headers["cache-control"]).toBe("no-store");
+      expect(retried.statusCode).toBe(200);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("should map Comic Vine's 420 rate limit to 429", async () => {
+      fetchMock.mockResolvedValue(upstream("", 420, "Enhance Your Calm"));
+
+      const response = await call(CHARACTERS_QUERY);
+
+      expect(response.statusCode).toBe(429);
+      expect(response.headers["cache-control"]).toBe("no-store");
+    });
+
+    it("should answer 504 when Comic Vine times out", async () => {
+      const timeout = new Error("The operation timed out");
+      timeout.name = "TimeoutError";
+      fetchMock.mockRejectedValue(timeout);
+
+      const response = await call(CHARACTERS_QUERY);
+
+      expect(response.statusCode).toBe(504);
+      expect(response.headers["cache-control"]).toBe("no-store");
+    });
+  });
+
+  describe("rate limiting", () => {
+    it("should answer 429 with Retry-After once a client's burst is spent", async () => {
+      fetchMock.mockResolvedValue(upstream(okBody));
+
+      for (let i = 0; i < 30; i++) {
+        expect((await call(CHARACTERS_QUERY)).statusCode).toBe(200);
+      }
+      const limited = await call(CHARACTERS_QUERY);
+
+      expect(limited.statusCode).toBe(429);
+      expect(limited.headers["retry-after"]).toBe("2");
+      expect(limited.headers["ratelimit-remaining"]).toBe("0");
+      expect(limited.headers["cache-control"]).toBe("no-store");
+    });
+
+    it("should limit each client IP separately", async () => {
+      fetchMock.mockResolvedValue(upstream(okBody));
+
+      for (let i = 0; i < 31; i++) {
+        await call(CHARACTERS_QUERY, { ip: "203.0.113.1" });
+      }
+      const other = await call(CHARACTERS_QUERY, { ip: "203.0.113.2" });
+
+      expect(other.statusCode).toBe(200);
+      expect(other.headers["ratelimit-remaining"]).toBe("29");
+    });
+
+    it("should use the first X-Forwarded-For address without X-Real-IP", async () => {
+      fetchMock.mockResolvedValue(upstream(okBody));
+
+      for (let i = 0; i < 30; i++) {
+        await call(CHARACTERS_QUERY, {
+          ip: "",
+          headers: { "x-forwarded-for": "198.51.100.7, 10.0.0.1" },
+        });
+      }
+      const limited = await call(CHARACTERS_QUERY, {
+        ip: "",
+        headers: { "x-forwarded-for": "198.51.100.7, 10.0.0.2" },
+      });
+
+      expect(limited.statusCode).toBe(429);
+    });
+  });
+});
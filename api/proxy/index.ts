@@ -0,0 +1,202 @@
+/**
+ * Vercel Serverless Function - Comic Vine API Proxy
+ *
+ * Makes Comic Vine requests server-side so the API key never reaches the browser.
+ *
+ * - Only allowlisted endpoints and params are forwarded (see _lib/allowlist)
+ * - Per-IP token bucket protects the shared key's quota
+ * - Server-side cache (memory, file or KV) with coalescing of identical misses
+ * - Cache-Control/s-maxage per resource type lets the CDN absorb repeated calls,
+ *   and ETags turn browser revalidations into 304s
+ * - Same-origin only: no CORS headers
+ *
+ * `api/package.json` sets `"type": "commonjs"` so this function runs reliably
+ * even though the root project uses `"type": "module"`.
+ *
+ * @example
+ * ```
+ * GET /api/proxy?endpoint=/characters/&filter=publisher:31&limit=50&offset=0
+ * ```
+ */
+import type { IncomingMessage, ServerResponse } from "http";
+import { getRequestKey, resolveAllowedRequest } from "../_lib/allowlist";
+import {
+  getCacheControl,
+  getCacheTtl,
+  matchesETag,
+  NO_STORE,
+} from "../_lib/cachePolicy";
+import { UpstreamResponse } from "../_lib/ProxyCache";
+import { getProxyCache } from "../_lib/proxyCacheFromEnv";
+import { TokenBucketLimiter } from "../_lib/TokenBucketLimiter";
+
+const COMIC_VINE_API_URL = "https://comicvine.gamespot.com/api";
+
+/** Give up on Comic Vine before Vercel's function timeout does */
+const UPSTREAM_TIMEOUT_MS = 15_000;
+
+/**
+ * Burst of 30 requests (a page load with prefetches), then one every 2 seconds
+ */
+const limiter = new TokenBucketLimiter({ capacity: 30, refillPerSecond: 0.5 });
+
+/**
+ * Comic Vine answered with an HTTP error
+ */
+class UpstreamError extends Error {
+  constructor(
+    public readonly status: number,
+    statusText: string,
+  ) {
+    super(`Comic Vine API error: ${statusText}`);
+    this.name = "UpstreamError";
+  }
+}
+
+async function fetchUpstream(target: URL): Promise<UpstreamResponse> {
+  const response = await fetch(target, {
+    headers: { "User-Agent": "Marvel-Characters-App/1.0" },
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new UpstreamError(response.status, response.statusText);
+  }
+
+  const body = await response.text();
+
+  // Comic Vine reports errors (bad key, not found...) with a 200 and status_code !== 1
+  const { status_code: statusCode } = JSON.parse(body) as {
+    status_code?: number;
+  };
+  return { body, cacheable: statusCode === 1 };
+}
+
+function send(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): void {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", NO_STORE);
+  for (const [name, value] of Object.entries(headers)) {
+    res.setHeader(name, value);
+  }
+  res.end(typeof body === "string" ? body : JSON.stringify(body));
+}
+
+/**
+ * Client IP as seen by Vercel's edge (falls back to the socket locally)
+ */
+function getClientIp(req: IncomingMessage): string {
+  const realIp = req.headers["x-real-ip"];
+  if (typeof realIp === "string" && realIp) {
+    return realIp;
+  }
+
+  const forwarded = req.headers["x-forwarded-for"];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)
+    ?.split(",")[0]
+    ?.trim();
+  return first || req.socket?.remoteAddress || "unknown";
+}
+
+export default async function handler(
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> {
+  if (req.method !== "GET") {
+    send(res, 405, { error: "Method not allowed" }, { Allow: "GET" });
+    return;
+  }
+
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const request = resolveAllowedRequest(url.searchParams);
+  if ("error" in request) {
+    send(res, request.status, { error: request.error });
+    return;
+  }
+
+  const quota = limiter.take(getClientIp(req));
+  const rateLimitHeaders = {
+    "RateLimit-Limit": String(quota.limit),
+    "RateLimit-Remaining": String(quota.remaining),
+  };
+  if (!quota.allowed) {
+    send(
+      res,
+      429,
+      { error: "Too many requests, slow down" },
+      { ...rateLimitHeaders, "Retry-After": String(quota.retryAfter) },
+    );
+    return;
+  }
+
+  // Recommended: COMICVINE_API_KEY (server-only)
+  // Temporary fallback: VITE_COMICVINE_API_KEY (NOT secure to expose to the browser bundle)
+  const apiKey =
+    process.env.COMICVINE_API_KEY || process.env.VITE_COMICVINE_API_KEY;
+  if (!apiKey) {
+    send(res, 500, {
+      error:
+        "Server not configured: missing COMICVINE_API_KEY. Add it in Vercel project env vars (Preview + Production).",
+    });
+    return;
+  }
+
+  const target = new URL(`${COMIC_VINE_API_URL}${request.endpoint}`);
+  for (const [key, value] of Object.entries(request.params)) {
+    target.searchParams.set(key, value);
+  }
+  target.searchParams.set("api_key", apiKey);
+  target.searchParams.set("format", "json");
+
+  try {
+    const { response, status, cacheable } = await getProxyCache().getOrFetch(
+      getRequestKey(request),
+      request.resource,
+      getCacheTtl(request.resource),
+      () => fetchUpstream(target),
+    );
+
+    if (!cacheable) {
+      send(res, 200, response.body, { ...rateLimitHeaders, "X-Cache": status });
+      return;
+    }
+
+    const cacheHeaders = {
+      ...rateLimitHeaders,
+      "Cache-Control": getCacheControl(request.resource),
+      ETag: response.etag,
+      "X-Cache": status,
+    };
+
+    if (matchesETag(req.headers["if-none-match"], response.etag)) {
+      res.statusCode = 304;
+      for (const [name, value] of Object.entries(cacheHeaders)) {
+        res.setHeader(name, value);
+      }
+      res.end();
+      return;
+    }
+
+    send(res, 200, response.body, cacheHeaders);
+  } catch (error: unknown) {
+    if (error instanceof UpstreamError) {
+      // Comic Vine answers 420 when its own rate limit is hit
+      const status = error.status === 420 ? 429 : error.status;
+      send(res, status, { error: error.message }, rateLimitHeaders);
+      return;
+    }
+
+    const timedOut = error instanceof Error && error.name === "TimeoutError";
+    console.error("Proxy error:", error);
+    send(res, timedOut ? 504 : 502, {
+      error: timedOut
+        ? "Comic Vine API timed out"
+        : "Failed to fetch from Comic Vine API",
+    });
+  }
+}
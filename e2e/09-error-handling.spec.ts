@@ -1,5 +1,10 @@
 import { test, expect } from "@playwright/test";
-import { waitForAppLoad } from "./helpers";
+import {
+  waitForAppLoad,
+  waitForCharacters,
+  injectApiFault,
+  isMockApi,
+} from "./helpers";
 
 /**
  * USER JOURNEY: Handling API Errors Gracefully
@@ -20,6 +25,8 @@ import { waitForAppLoad } from "./helpers";
  *
  * TECHNICAL DETAILS:
  * - Uses Playwright route mocking to simulate API failures
+ * - With the mock API (npm run test:e2e:mock), also injects real 5xx, 429
+ *   and slow responses through the mock server's fault switch
  * - Tests error boundaries and error states
  * - Validates retry functionality
  */
@@ -220,4 +227,73 @@ test.describe("Error Handling", () => {
       await expect(root).toBeVisible();
     }
   });
+
+  test.describe("with mock API faults", () => {
+    test.skip(!isMockApi, "Requires the mock API (npm run test:e2e:mock)");
+
+    test("should show an error when the API rate limit is exceeded", async ({
+      page,
+    }) => {
+      /**
+       * WHAT THIS TESTS: When Comic Vine answers 429 (too many requests),
+       * users see an error state with a way to retry.
+       *
+       * WHY IT MATTERS: The API allows 200 requests per hour. Hitting the
+       * limit must not leave users with a blank page.
+       */
+      await injectApiFault(page, "429");
+
+      await page.goto("/");
+      await waitForAppLoad(page);
+
+      const retryButton = page.getByRole("button", { name: /retry/i });
+      await expect(retryButton).toBeVisible({ timeout: 15000 });
+
+      // No technical details leak to the user
+      const bodyText = await page.textContent("body");
+      expect(bodyText).not.toMatch(/429|TypeError|undefined/i);
+    });
+
+    test("should recover from transient server errors", async ({ page }) => {
+      /**
+       * WHAT THIS TESTS: When the API fails with 503 a couple of times and
+       * then recovers, characters still load without user action.
+       *
+       * WHY IT MATTERS: Comic Vine has short outages. Automatic retries
+       * should hide them from users.
+       */
+      await injectApiFault(page, "503", {
+        urlPattern: "**/characters/**",
+        times: 2,
+      });
+
+      await page.goto("/");
+      await waitForAppLoad(page);
+      await waitForCharacters(page);
+
+      const count = await page
+        .locator('[data-testid="character-card"]')
+        .count();
+      expect(count).toBeGreaterThan(0);
+    });
+
+    test("should show loading feedback while the API is slow", async ({
+      page,
+    }) => {
+      /**
+       * WHAT THIS TESTS: A slow API shows loading feedback first, then the
+       * characters once the response arrives.
+       *
+       * WHY IT MATTERS: Users need to know the app is working, not frozen.
+       */
+      await injectApiFault(page, "latency:3000");
+
+      await page.goto("/");
+
+      await expect(page.getByRole("progressbar").first()).toBeVisible({
+        timeout: 5000,
+      });
+      await waitForCharacters(page);
+    });
+  });
 });
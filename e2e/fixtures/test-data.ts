@@ -134,6 +134,124 @@ export const mockCharacters = {
   },
 };
 
+/**
+ * Build a Comic Vine image object from an upload path
+ */
+export const mockImage = (path: string) => ({
+  icon_url: `https://comicvine.gamespot.com/a/uploads/square_avatar/${path}`,
+  medium_url: `https://comicvine.gamespot.com/a/uploads/scale_medium/${path}`,
+  screen_url: `https://comicvine.gamespot.com/a/uploads/screen_medium/${path}`,
+  screen_large_url: `https://comicvine.gamespot.com/a/uploads/screen_kubrick/${path}`,
+  small_url: `https://comicvine.gamespot.com/a/uploads/scale_small/${path}`,
+  super_url: `https://comicvine.gamespot.com/a/uploads/scale_large/${path}`,
+  thumb_url: `https://comicvine.gamespot.com/a/uploads/scale_avatar/${path}`,
+  tiny_url: `https://comicvine.gamespot.com/a/uploads/square_mini/${path}`,
+  original_url: `https://comicvine.gamespot.com/a/uploads/original/${path}`,
+});
+
+/**
+ * Additional characters matching the search queries below
+ * (used by the local mock server)
+ */
+export const mockSearchCharacters = [
+  { id: 1456, name: "Iron Man", deck: "Tony Stark's armored alter ego" },
+  { id: 1442, name: "Captain America", deck: "Steve Rogers, super-soldier" },
+  { id: 2268, name: "Thor", deck: "The Asgardian God of Thunder" },
+].map(({ id, name, deck }) => {
+  const slug = name.toLowerCase().replace(/\s+/g, "-");
+  return {
+    id,
+    name,
+    deck,
+    description: `<p>${deck}.</p>`,
+    image: mockImage(`0/${id}/${slug}.jpg`),
+    publisher: { id: 31, name: "Marvel" },
+    date_added: "2024-01-01 00:00:00",
+    date_last_updated: "2024-01-10 00:00:00",
+    site_detail_url: `https://comicvine.gamespot.com/${slug}/4005-${id}/`,
+    api_detail_url: `https://comicvine.gamespot.com/api/character/4005-${id}/`,
+  };
+});
+
+/**
+ * Character list test data (Comic Vine structure)
+ */
+export const mockCharacterList = {
+  // Generate filler characters for testing pagination and infinite scroll
+  generateCharacters: (
+    count: number,
+    publisher: { id: number; name: string } = { id: 31, name: "Marvel" },
+    startId: number = 20000,
+  ) => {
+    return Array.from({ length: count }, (_, i) => ({
+      id: startId + i,
+      name: `${publisher.name} Test Hero ${i + 1}`,
+      deck: `Generated ${publisher.name} character #${i + 1}`,
+      description: null,
+      image: mockImage("11/11111/placeholder.jpg"),
+      publisher,
+      date_added: "2024-01-01 00:00:00",
+      date_last_updated: "2024-01-01 00:00:00",
+      site_detail_url: `https://comicvine.gamespot.com/test-hero-${startId + i}/4005-${startId + i}/`,
+      api_detail_url: `https://comicvine.gamespot.com/api/character/4005-${startId + i}/`,
+    }));
+  },
+};
+
+/**
+ * Teams served by the local mock server (Comic Vine structure)
+ * Rosters list mock character IDs; the seed links them both ways
+ */
+export const mockTeams = [
+  {
+    id: 3806,
+    name: "Avengers",
+    deck: "Earth's Mightiest Heroes",
+    image: mockImage("0/3806/avengers.jpg"),
+    characterIds: [1443, 1456, 1442, 2268, 1009],
+  },
+  {
+    id: 40000,
+    name: "Test Team",
+    deck: null,
+    image: null,
+    characterIds: [],
+  },
+];
+
+/**
+ * Powers served by the local mock server (Comic Vine structure)
+ * Like Comic Vine, powers list characters from every publisher
+ */
+export const mockPowers = [
+  {
+    id: 1,
+    name: "Super Strength",
+    description: "Strength far beyond human limits.",
+    // More than one page of Marvel characters, plus a DC character
+    characterIds: [
+      1443,
+      1009,
+      2268,
+      30000,
+      ...Array.from({ length: 60 }, (_, i) => 20000 + i),
+    ],
+  },
+  {
+    id: 8,
+    name: "Wall Clinging",
+    description: null,
+    characterIds: [1443],
+  },
+  {
+    id: 40000,
+    name: "Test Power",
+    description: null,
+    // Only other publishers' characters: the page shows its empty state
+    characterIds: [30001],
+  },
+];
+
 /**
  * Mock API responses for error scenarios (Comic Vine structure)
  */
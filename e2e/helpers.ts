@@ -374,3 +374,43 @@ export async function navigateToHome(page: Page): Promise<void> {
   // Wait for page to load
   await page.waitForLoadState("domcontentloaded", { timeout: 10000 });
 }
+
+/**
+ * Whether the app runs against the local mock Comic Vine API
+ * (`npm run test:e2e:mock`, see e2e/mock-server)
+ */
+export const isMockApi = process.env.MOCK_API === "true";
+
+/**
+ * Inject a fault into mock API responses
+ *
+ * WHAT THIS DOES:
+ * Makes the mock Comic Vine server answer API calls with an error, a delay
+ * or no answer at all. Like unplugging the API on purpose.
+ *
+ * WHY WE NEED THIS:
+ * Error handling tests need failures that happen the same way every run.
+ * The mock server produces real HTTP responses (503, 429, slow responses)
+ * instead of aborted requests.
+ *
+ * TECHNICAL DETAILS:
+ * - Adds the x-mock-fault header to matching API requests
+ * - Spec examples: "503", "429", "latency:2000", "timeout", "latency:500,503"
+ * - `times` limits the fault to the first N requests (then requests pass through)
+ */
+export async function injectApiFault(
+  page: Page,
+  spec: string,
+  options: { urlPattern?: string; times?: number } = {},
+): Promise<void> {
+  const { urlPattern = "**/api/**", times = Infinity } = options;
+  let count = 0;
+
+  await page.route(urlPattern, (route) => {
+    count++;
+    const headers = route.request().headers();
+    return route.continue({
+      headers: count <= times ? { ...headers, "x-mock-fault": spec } : headers,
+    });
+  });
+}
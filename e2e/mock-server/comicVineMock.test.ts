@@ -0,0 +1,268 @@
+/**
+ * Mock Comic Vine Server Tests
+ *
+ * Tests the query handling every E2E test relies on: filter, sort,
+ * limit/offset paging, field_list projection and detail lookups
+ * (characters, issues, teams and powers).
+ */
+
+import { handleComicVineRequest, normalizeEndpoint } from "./comicVineMock";
+import { MockDatabase } from "./seed";
+
+interface ListBody {
+  error: string;
+  limit: number;
+  offset: number;
+  number_of_page_results: number;
+  number_of_total_results: number;
+  results: Array<Record<string, unknown>>;
+}
+
+const MARVEL = { id: 31, name: "Marvel" };
+const DC = { id: 10, name: "DC Comics" };
+
+const createDb = (): MockDatabase => ({
+  characters: [
+    { id: 3, name: "Spider-Man", deck: "Web-slinger", publisher: MARVEL },
+    { id: 1, name: "Iron Man", deck: "Armored", publisher: MARVEL },
+    { id: 2, name: "Superman", deck: "Kryptonian", publisher: DC },
+    { id: 4, name: "Spider-Woman", deck: null, publisher: MARVEL },
+  ],
+  issues: [
+    { id: 10, name: "Issue A", cover_date: "2024-01-02", volume: { id: 7 } },
+    { id: 11, name: "Issue B", cover_date: "2024-01-03", volume: { id: 8 } },
+    { id: 12, name: "Issue C", cover_date: null, volume: { id: 7 } },
+  ],
+  teams: [
+    { id: 20, name: "Avengers", deck: "Heroes", characters: [{ id: 1 }] },
+  ],
+  powers: [
+    { id: 30, name: "Flight", description: null, characters: [{ id: 2 }] },
+  ],
+});
+
+const list = (endpoint: string, query: Record<string, string> = {}) => {
+  const response = handleComicVineRequest(
+    createDb(),
+    endpoint,
+    new URLSearchParams(query),
+  );
+  return { status: response.status, body: response.body as ListBody };
+};
+
+const ids = (body: ListBody) => body.results.map((record) => record.id);
+
+describe("normalizeEndpoint", () => {
+  it("should add missing leading and trailing slashes", () => {
+    expect(normalizeEndpoint("characters")).toBe("/characters/");
+    expect(normalizeEndpoint("/characters")).toBe("/characters/");
+    expect(normalizeEndpoint("/characters/")).toBe("/characters/");
+  });
+});
+
+describe("handleComicVineRequest", () => {
+  describe("lists", () => {
+    it("should return every record in Comic Vine's list envelope", () => {
+      const { status, body } = list("/characters/");
+
+      expect(status).toBe(200);
+      expect(body).toMatchObject({
+        error: "OK",
+        offset: 0,
+        limit: 100,
+        number_of_page_results: 4,
+        number_of_total_results: 4,
+      });
+      expect(ids(body)).toEqual([3, 1, 2, 4]);
+    });
+
+    it("should serve endpoints given without slashes", () => {
+      expect(list("characters").status).toBe(200);
+    });
+  });
+
+  describe("filter", () => {
+    it("should match the publisher by nested id", () => {
+      expect(
+        ids(list("/characters/", { filter: "publisher:31" }).body),
+      ).toEqual([3, 1, 4]);
+    });
+
+    it("should match names case-insensitively by substring", () => {
+      expect(ids(list("/characters/", { filter: "name:spider" }).body)).toEqual(
+        [3, 4],
+      );
+    });
+
+    it("should match ids against a '|' separated list", () => {
+      expect(ids(list("/characters/", { filter: "id:2|4|99" }).body)).toEqual([
+        2, 4,
+      ]);
+    });
+
+    it("should combine filters with AND", () => {
+      const { body } = list("/characters/", {
+        filter: "publisher:31,name:man",
+      });
+
+      // Superman matches the name but not the publisher
+      expect(ids(body)).toEqual([3, 1, 4]);
+      expect(body.number_of_total_results).toBe(3);
+    });
+
+    it("should match the volume of issues by nested id", () => {
+      expect(ids(list("/issues/", { filter: "volume:7" }).body)).toEqual([
+        10, 12,
+      ]);
+    });
+
+    it("should ignore malformed filter parts", () => {
+      expect(
+        ids(list("/characters/", { filter: "publisher:31,garbage" }).body),
+      ).toEqual([3, 1, 4]);
+    });
+  });
+
+  describe("sort", () => {
+    it("should sort ascending by default", () => {
+      expect(ids(list("/characters/", { sort: "name" }).body)).toEqual([
+        1, 3, 4, 2,
+      ]);
+    });
+
+    it("should sort descending and keep missing values last", () => {
+      expect(ids(list("/issues/", { sort: "cover_date:desc" }).body)).toEqual([
+        11, 10, 12,
+      ]);
+    });
+  });
+
+  describe("paging", () => {
+    it("should slice by offset and limit and report the full total", () => {
+      const { body } = list("/characters/", { offset: "1", limit: "2" });
+
+      expect(ids(body)).toEqual([1, 2]);
+      expect(body).toMatchObject({
+        offset: 1,
+        limit: 2,
+        number_of_page_results: 2,
+        number_of_total_results: 4,
+      });
+    });
+
+    it("should return an empty page past the end", () => {
+      const { body } = list("/characters/", { offset: "50" });
+
+      expect(body.results).toEqual([]);
+      expect(body.number_of_total_results).toBe(4);
+    });
+
+    it("should clamp the limit to Comic Vine's 1-100 range", () => {
+      expect(list("/characters/", { limit: "500" }).body.limit).toBe(100);
+      expect(list("/characters/", { limit: "0" }).body.limit).toBe(1);
+    });
+
+    it("should fall back to defaults for invalid numbers", () => {
+      const { body } = list("/characters/", { offset: "-5", limit: "abc" });
+
+      expect(body.offset).toBe(0);
+      expect(body.limit).toBe(100);
+    });
+
+    it("should page after filtering and sorting", () => {
+      const { body } = list("/characters/", {
+        filter: "publisher:31",
+        sort: "id:desc",
+        limit: "2",
+      });
+
+      expect(ids(body)).toEqual([4, 3]);
+      expect(body.number_of_total_results).toBe(3);
+    });
+  });
+
+  describe("field_list", () => {
+    it("should keep only the listed fields", () => {
+      const { body } = list("/characters/", {
+        field_list: "id, name",
+        limit: "1",
+      });
+
+      expect(body.results).toEqual([{ id: 3, name: "Spider-Man" }]);
+    });
+  });
+
+  describe("details", () => {
+    it("should return a character by id with projected fields", () => {
+      const response = handleComicVineRequest(
+        createDb(),
+        "/character/4005-1/",
+        new URLSearchParams({ field_list: "id,name" }),
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        error: "OK",
+        status_code: 1,
+        results: { id: 1, name: "Iron Man" },
+      });
+      expect(
+        (response.body as { results: Record<string, unknown> }).results,
+      ).not.toHaveProperty("deck");
+    });
+
+    it("should return an issue by id", () => {
+      const response = handleComicVineRequest(
+        createDb(),
+        "/issue/4000-11/",
+        new URLSearchParams(),
+      );
+
+      expect(response.body).toMatchObject({ results: { name: "Issue B" } });
+    });
+
+    it("should return a team by id", () => {
+      const response = handleComicVineRequest(
+        createDb(),
+        "/team/4060-20/",
+        new URLSearchParams({ field_list: "id,name,characters" }),
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        results: { id: 20, name: "Avengers", characters: [{ id: 1 }] },
+      });
+    });
+
+    it("should return a power by id", () => {
+      const response = handleComicVineRequest(
+        createDb(),
+        "/power/4035-30/",
+        new URLSearchParams({ field_list: "id,name,characters" }),
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        results: { id: 30, name: "Flight", characters: [{ id: 2 }] },
+      });
+    });
+
+    it("should respond 404 for an unknown id", () => {
+      const response = handleComicVineRequest(
+        createDb(),
+        "/character/4005-999/",
+        new URLSearchParams(),
+      );
+
+      expect(response.status).toBe(404);
+      expect(response.body).toMatchObject({ error: "Object Not Found" });
+    });
+
+    it("should respond 404 for an unknown endpoint", () => {
+      expect(
+        handleComicVineRequest(createDb(), "/volumes/", new URLSearchParams())
+          .status,
+      ).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { mockApiResponses } from "../fixtures/test-data";
+import { MockDatabase, MockRecord } from "./seed";
+
+/**
+ * Status and JSON body of a mock Comic Vine response
+ */
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+/** Comic Vine's page size limit */
+const MAX_LIMIT = 100;
+
+/**
+ * List endpoints and detail endpoints (`/{resource}/{typeId}-{id}/`) per collection
+ */
+const LIST_ENDPOINTS: Record<string, keyof MockDatabase> = {
+  "/characters/": "characters",
+  "/issues/": "issues",
+  "/teams/": "teams",
+  "/powers/": "powers",
+};
+
+const DETAIL_ENDPOINTS: Array<{
+  pattern: RegExp;
+  collection: keyof MockDatabase;
+}> = [
+  { pattern: /^\/character\/4005-(\d+)\/$/, collection: "characters" },
+  { pattern: /^\/issue\/4000-(\d+)\/$/, collection: "issues" },
+  { pattern: /^\/team\/4060-(\d+)\/$/, collection: "teams" },
+  { pattern: /^\/power\/4035-(\d+)\/$/, collection: "powers" },
+];
+
+/**
+ * Normalize an endpoint to '/path/' form
+ */
+export function normalizeEndpoint(endpoint: string): string {
+  const withLeading = endpoint.startsWith("/") ? endpoint : `/${endpoint}`;
+  return withLeading.endsWith("/") ? withLeading : `${withLeading}/`;
+}
+
+/**
+ * Parse Comic Vine's `filter` param
+ * e.g. 'publisher:31,name:Spider' → [['publisher', '31'], ['name', 'Spider']]
+ */
+function parseFilter(filter: string | null): Array<[string, string]> {
+  if (!filter) {
+    return [];
+  }
+
+  return filter
+    .split(",")
+    .map((part) => {
+      const separator = part.indexOf(":");
+      return separator === -1
+        ? null
+        : ([part.slice(0, separator), part.slice(separator + 1)] as [
+            string,
+            string,
+          ]);
+    })
+    .filter((entry): entry is [string, string] => entry !== null);
+}
+
+/**
+ * Comic Vine filter semantics:
+ * - id: exact match against a '|' separated list
+ * - name: case-insensitive substring
+ * - publisher/volume: match the nested object's id
+ * - anything else: exact string match
+ */
+function matchesFilter(record: MockRecord, field: string, value: string) {
+  const fieldValue = record[field];
+
+  switch (field) {
+    case "id":
+      return value.split("|").map(Number).includes(record.id);
+    case "name":
+      return String(fieldValue ?? "")
+        .toLowerCase()
+        .includes(value.toLowerCase());
+    case "publisher":
+    case "volume": {
+      const nested = fieldValue as { id?: number } | null | undefined;
+      return String(nested?.id) === value;
+    }
+    default:
+      return String(fieldValue) === value;
+  }
+}
+
+/**
+ * Apply `sort=field:asc|desc`
+ */
+function sortRecords(records: MockRecord[], sort: string | null) {
+  if (!sort) {
+    return records;
+  }
+
+  const [field = "", direction = "asc"] = sort.split(":");
+  const factor = direction === "desc" ? -1 : 1;
+
+  return [...records].sort((a, b) => {
+    const left = a[field];
+    const right = b[field];
+    if (left === right) return 0;
+    if (left === null || left === undefined) return 1;
+    if (right === null || right === undefined) return -1;
+    return (left < right ? -1 : 1) * factor;
+  });
+}
+
+/**
+ * Apply `field_list=id,name,...`
+ */
+function projectFields(record: MockRecord, fieldList: string | null) {
+  if (!fieldList) {
+    return record;
+  }
+
+  const fields = fieldList.split(",").map((field) => field.trim());
+  return Object.fromEntries(
+    Object.entries(record).filter(([key]) => fields.includes(key)),
+  );
+}
+
+function parseNumber(value: string | null, fallback: number): number {
+  const parsed = Number(value);
+  return value !== null && Number.isInteger(parsed) && parsed >= 0
+    ? parsed
+    : fallback;
+}
+
+function listResponse(records: MockRecord[], query: URLSearchParams) {
+  const filtered = parseFilter(query.get("filter")).reduce(
+    (current, [field, value]) =>
+      current.filter((record) => matchesFilter(record, field, value)),
+    records,
+  );
+  const sorted = sortRecords(filtered, query.get("sort"));
+
+  const limit = Math.min(
+    Math.max(parseNumber(query.get("limit"), MAX_LIMIT), 1),
+    MAX_LIMIT,
+  );
+  const offset = parseNumber(query.get("offset"), 0);
+  const page = sorted
+    .slice(offset, offset + limit)
+    .map((record) => projectFields(record, query.get("field_list")));
+
+  return {
+    error: "OK",
+    limit,
+    offset,
+    number_of_page_results: page.length,
+    number_of_total_results: sorted.length,
+    status_code: 1,
+    results: page,
+    version: "1.0",
+  };
+}
+
+/**
+ * Resolve a Comic Vine request against the mock database
+ *
+ * @param db - Seeded data
+ * @param endpoint - Comic Vine endpoint (e.g. '/characters/', '/character/4005-1443/')
+ * @param query - Comic Vine query params (filter, limit, offset, sort, field_list)
+ * @returns Status and body in Comic Vine's response format
+ */
+export function handleComicVineRequest(
+  db: MockDatabase,
+  endpoint: string,
+  query: URLSearchParams,
+): MockResponse {
+  const path = normalizeEndpoint(endpoint);
+
+  const listCollection = LIST_ENDPOINTS[path];
+  if (listCollection) {
+    return { status: 200, body: listResponse(db[listCollection], query) };
+  }
+
+  for (const { pattern, collection } of DETAIL_ENDPOINTS) {
+    const match = pattern.exec(path);
+    if (!match) continue;
+
+    const id = Number(match[1]);
+    const record = db[collection].find((item) => item.id === id);
+    if (!record) {
+      return { status: 404, body: mockApiResponses.notFound };
+    }
+
+    return {
+      status: 200,
+      body: {
+        ...mockApiResponses.characterDetail(
+          projectFields(record, query.get("field_list")),
+        ),
+        version: "1.0",
+      },
+    };
+  }
+
+  return { status: 404, body: mockApiResponses.notFound };
+}
@@ -0,0 +1,103 @@
+/**
+ * Fault Injection Tests
+ *
+ * Tests fault spec parsing, header/environment precedence and the
+ * error bodies returned for injected statuses.
+ */
+
+import {
+  FAULT_ENV,
+  faultResponse,
+  parseFaultSpec,
+  resolveFault,
+} from "./faults";
+
+describe("parseFaultSpec", () => {
+  it("should inject nothing without a spec", () => {
+    expect(parseFaultSpec(undefined)).toEqual({
+      latencyMs: 0,
+      status: null,
+      timeout: false,
+    });
+    expect(parseFaultSpec("")).toEqual(parseFaultSpec(null));
+  });
+
+  it("should parse latency, status and timeout tokens", () => {
+    expect(parseFaultSpec("latency:800")).toMatchObject({ latencyMs: 800 });
+    expect(parseFaultSpec("503")).toMatchObject({ status: 503 });
+    expect(parseFaultSpec("429")).toMatchObject({ status: 429 });
+    expect(parseFaultSpec("timeout")).toMatchObject({ timeout: true });
+  });
+
+  it("should combine tokens regardless of case and spacing", () => {
+    expect(parseFaultSpec(" Latency:1500 , 502 ")).toEqual({
+      latencyMs: 1500,
+      status: 502,
+      timeout: false,
+    });
+  });
+
+  it("should ignore statuses that aren't 5xx or 429", () => {
+    expect(parseFaultSpec("404").status).toBeNull();
+    expect(parseFaultSpec("200").status).toBeNull();
+    expect(parseFaultSpec("600").status).toBeNull();
+  });
+
+  it("should ignore invalid latencies and unknown tokens", () => {
+    expect(parseFaultSpec("latency:-5,latency:abc,slow")).toEqual({
+      latencyMs: 0,
+      status: null,
+      timeout: false,
+    });
+  });
+});
+
+describe("resolveFault", () => {
+  const originalEnv = process.env[FAULT_ENV];
+
+  afterEach(() => {
+    if (originalEnv === undefined) {
+      delete process.env[FAULT_ENV];
+    } else {
+      process.env[FAULT_ENV] = originalEnv;
+    }
+  });
+
+  it("should use the environment default without a header", () => {
+    process.env[FAULT_ENV] = "500";
+
+    expect(resolveFault(undefined).status).toBe(500);
+  });
+
+  it("should prefer the header over the environment", () => {
+    process.env[FAULT_ENV] = "500";
+
+    expect(resolveFault("429").status).toBe(429);
+    expect(resolveFault(["timeout", "500"])).toMatchObject({
+      timeout: true,
+      status: null,
+    });
+  });
+
+  it("should inject nothing without a header or environment", () => {
+    delete process.env[FAULT_ENV];
+
+    expect(resolveFault(undefined).status).toBeNull();
+  });
+});
+
+describe("faultResponse", () => {
+  it("should return Comic Vine's rate limit body for 429", () => {
+    expect(faultResponse(429)).toMatchObject({
+      status: 429,
+      body: { error: "Rate limit exceeded. Please try again later." },
+    });
+  });
+
+  it("should return a server error body for 5xx", () => {
+    expect(faultResponse(503)).toMatchObject({
+      status: 503,
+      body: { error: "Internal Server Error" },
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { mockApiResponses } from "../fixtures/test-data";
+import { MockResponse } from "./comicVineMock";
+
+/** Request header that selects a fault for that request */
+export const FAULT_HEADER = "x-mock-fault";
+
+/** Environment variable that applies a fault to every request */
+export const FAULT_ENV = "MOCK_API_FAULT";
+
+/**
+ * Faults the mock server can inject
+ * - latencyMs: delay before responding (combinable with the others)
+ * - status: respond with a 5xx or 429 error instead of data
+ * - timeout: never respond (the client gives up on its own)
+ */
+export interface FaultConfig {
+  latencyMs: number;
+  status: number | null;
+  timeout: boolean;
+}
+
+const NO_FAULT: FaultConfig = { latencyMs: 0, status: null, timeout: false };
+
+/**
+ * Parse a fault spec: comma-separated tokens
+ * - 'latency:800' → wait 800ms
+ * - '500' | '502' | '503' | '429' → error status
+ * - 'timeout' → hang
+ *
+ * e.g. 'latency:1500,503' responds with a 503 after 1.5s
+ */
+export function parseFaultSpec(spec: string | undefined | null): FaultConfig {
+  if (!spec) {
+    return NO_FAULT;
+  }
+
+  return spec
+    .split(",")
+    .map((token) => token.trim().toLowerCase())
+    .reduce<FaultConfig>((fault, token) => {
+      if (token === "timeout") {
+        return { ...fault, timeout: true };
+      }
+
+      if (token.startsWith("latency:")) {
+        const ms = Number(token.slice("latency:".length));
+        return Number.isFinite(ms) && ms > 0
+          ? { ...fault, latencyMs: ms }
+          : fault;
+      }
+
+      const status = Number(token);
+      if (status === 429 || (status >= 500 && status < 600)) {
+        return { ...fault, status };
+      }
+
+      return fault;
+    }, NO_FAULT);
+}
+
+/**
+ * Resolve the fault for a request: the header wins over the environment default
+ */
+export function resolveFault(
+  headerValue: string | string[] | undefined,
+): FaultConfig {
+  const header = Array.isArray(headerValue) ? headerValue[0] : headerValue;
+  return parseFaultSpec(header || process.env[FAULT_ENV]);
+}
+
+/**
+ * Comic Vine-style error response for an injected status
+ */
+export function faultResponse(status: number): MockResponse {
+  return status === 429
+    ? { status, body: mockApiResponses.rateLimitExceeded }
+    : { status, body: mockApiResponses.serverError };
+}
@@ -0,0 +1,125 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import { handleComicVineRequest, MockResponse } from "./comicVineMock";
+import { FAULT_HEADER, faultResponse, resolveFault } from "./faults";
+import { Recordings, replayRecording } from "./recordings";
+import { createSeed, MockDatabase } from "./seed";
+
+/**
+ * Connect-style middleware (what Vite's dev and preview servers accept)
+ */
+export type MockApiMiddleware = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next: () => void,
+) => void;
+
+/** Give up on a 'timeout' fault after this long so sockets don't leak */
+const TIMEOUT_FAULT_MAX_MS = 2 * 60 * 1000;
+
+function send(res: ServerResponse, { status, body }: MockResponse): void {
+  if (res.writableEnded || res.destroyed) {
+    return;
+  }
+
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Cache-Control", "no-store");
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Resolve the Comic Vine endpoint and params for both protocols the app uses:
+ * - Vercel proxy: /api/proxy?endpoint=/characters/&filter=...
+ * - Vite dev proxy: /api/characters/?api_key=...&format=json&filter=...
+ */
+function parseRequest(
+  url: URL,
+): { endpoint: string; query: URLSearchParams } | MockResponse {
+  if (url.pathname === "/api/proxy" || url.pathname.startsWith("/api/proxy/")) {
+    const endpoint = url.searchParams.get("endpoint");
+    if (!endpoint) {
+      return { status: 400, body: { error: "Missing endpoint parameter" } };
+    }
+
+    const query = new URLSearchParams(url.searchParams);
+    query.delete("endpoint");
+    return { endpoint, query };
+  }
+
+  if (!url.searchParams.get("api_key")) {
+    return {
+      status: 401,
+      body: { error: "Invalid API Key", status_code: 100, results: [] },
+    };
+  }
+
+  return {
+    endpoint: url.pathname.slice("/api".length),
+    query: url.searchParams,
+  };
+}
+
+/**
+ * Mock Comic Vine API middleware
+ *
+ * Serves seeded E2E fixtures under /api and injects faults on demand
+ * (x-mock-fault header per request, or MOCK_API_FAULT for every request).
+ *
+ * @param db - Data to serve (defaults to the E2E seed)
+ * @param recordings - Recorded Comic Vine responses to serve instead of the seed
+ *
+ * @example
+ * ```typescript
+ * server.middlewares.use(createMockApiMiddleware());
+ * // GET /api/proxy?endpoint=/characters/&filter=publisher:31,name:Spider
+ * ```
+ */
+export function createMockApiMiddleware(
+  db: MockDatabase = createSeed(),
+  recordings?: Recordings,
+): MockApiMiddleware {
+  return (req, res, next) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (!url.pathname.startsWith("/api/")) {
+      next();
+      return;
+    }
+
+    if (req.method !== "GET") {
+      send(res, { status: 405, body: { error: "Method not allowed" } });
+      return;
+    }
+
+    const parsed = parseRequest(url);
+    if ("status" in parsed) {
+      send(res, parsed);
+      return;
+    }
+
+    const fault = resolveFault(req.headers[FAULT_HEADER]);
+
+    const respond = () => {
+      if (fault.timeout) {
+        setTimeout(
+          () => send(res, { status: 504, body: { error: "Gateway Timeout" } }),
+          TIMEOUT_FAULT_MAX_MS,
+        );
+        return;
+      }
+
+      if (fault.status !== null) {
+        send(res, faultResponse(fault.status));
+      } else if (recordings) {
+        send(res, replayRecording(recordings, parsed.endpoint, parsed.query));
+      } else {
+        send(res, handleComicVineRequest(db, parsed.endpoint, parsed.query));
+      }
+    };
+
+    if (fault.latencyMs > 0) {
+      setTimeout(respond, fault.latencyMs);
+    } else {
+      respond();
+    }
+  };
+}
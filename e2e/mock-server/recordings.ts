@@ -0,0 +1,78 @@
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { MockResponse } from "./comicVineMock";
+
+/**
+ * Responses recorded by ComicVineApiClient's record mode, by request key
+ */
+export type Recordings = Map<string, unknown>;
+
+/** Params added by the transport, not part of the client's request key */
+const TRANSPORT_PARAMS = ["api_key", "format", "endpoint"];
+
+/**
+ * Load a directory written by FileFixtureStore
+ *
+ * Each file holds `{ key, recordedAt, data }`; files are indexed by their
+ * stored key, so file names don't matter.
+ */
+export function loadRecordings(directory: string): Recordings {
+  const recordings: Recordings = new Map();
+
+  for (const file of readdirSync(directory)) {
+    if (!file.endsWith(".json")) continue;
+
+    const fixture = JSON.parse(readFileSync(join(directory, file), "utf8")) as {
+      key?: string;
+      data?: unknown;
+    };
+    if (typeof fixture.key === "string") {
+      recordings.set(fixture.key, fixture.data);
+    }
+  }
+
+  return recordings;
+}
+
+/**
+ * Request key in the client's getCacheKey format: endpoint + sorted params
+ * e.g. '/characters/?limit=50&offset=0'
+ */
+export function getRecordingKey(
+  endpoint: string,
+  query: URLSearchParams,
+): string {
+  const params: Array<[string, string]> = [];
+  query.forEach((value, key) => {
+    if (!TRANSPORT_PARAMS.includes(key)) {
+      params.push([key, value]);
+    }
+  });
+
+  const sortedParams = params
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+  return `${endpoint}?${sortedParams}`;
+}
+
+/**
+ * Serve a recorded response
+ *
+ * A miss means the recorded dataset is incomplete, so it's answered with
+ * a 500 naming the missing key rather than falling back to the seed.
+ */
+export function replayRecording(
+  recordings: Recordings,
+  endpoint: string,
+  query: URLSearchParams,
+): MockResponse {
+  const key = getRecordingKey(endpoint, query);
+
+  return recordings.has(key)
+    ? { status: 200, body: recordings.get(key) }
+    : {
+        status: 500,
+        body: { error: `No recorded fixture for "${key}"`, status_code: 500 },
+      };
+}
@@ -0,0 +1,174 @@
+/**
+ * Mock Seed Tests
+ *
+ * Tests that the pages `dev:mock` and the mock-backed E2E runs link to load
+ * from the seeded data: each team page's team and roster, each power page's
+ * power and Marvel characters, and the team and power credits on character
+ * details.
+ */
+
+import { handleComicVineRequest } from "./comicVineMock";
+import { createSeed } from "./seed";
+
+/** `field_list` values the Comic Vine repositories send */
+const CHARACTER_SUMMARY_FIELD_LIST = "id,name,deck,image";
+const CHARACTER_DETAIL_FIELD_LIST = "id,name,deck,image,character_teams,powers";
+const TEAM_FIELD_LIST = "id,name,deck,image,characters";
+const POWER_FIELD_LIST = "id,name,description,characters";
+
+/** Character IDs per power page, as ListPowerCharacters cuts them */
+const PAGE_SIZE = 50;
+
+interface Credit {
+  id: number;
+  name?: string | null;
+}
+
+interface Body {
+  results: Record<string, unknown>;
+}
+
+const db = createSeed();
+
+const request = (endpoint: string, query: Record<string, string> = {}) => {
+  const response = handleComicVineRequest(
+    db,
+    endpoint,
+    new URLSearchParams(query),
+  );
+  return { status: response.status, results: (response.body as Body).results };
+};
+
+/**
+ * IDs returned by a character lookup, as a team or power page makes one
+ */
+const lookUpCharacters = (ids: number[], filter = "") => {
+  const { status, results } = request("/characters/", {
+    filter: `${filter}id:${ids.join("|")}`,
+    field_list: CHARACTER_SUMMARY_FIELD_LIST,
+  });
+
+  expect(status).toBe(200);
+  return (results as unknown as Credit[]).map(({ id }) => id);
+};
+
+describe("createSeed", () => {
+  describe("team pages", () => {
+    it.each(db.teams.map(({ id, name }) => [name, id]))(
+      "should load the %s page and its roster",
+      (_, id) => {
+        const { status, results } = request(`/team/4060-${id}/`, {
+          field_list: TEAM_FIELD_LIST,
+        });
+
+        expect(status).toBe(200);
+        expect(results).toMatchObject({ id, name: expect.any(String) });
+        const memberIds = (results.characters as Credit[]).map(({ id }) => id);
+
+        if (memberIds.length > 0) {
+          expect(lookUpCharacters(memberIds).sort()).toEqual(
+            [...memberIds].sort(),
+          );
+        }
+      },
+    );
+
+    it("should have a team with members and an empty team", () => {
+      const sizes = db.teams.map(
+        ({ characters }) => (characters as unknown[]).length,
+      );
+
+      expect(sizes).toContain(0);
+      expect(sizes.some((size) => size > 0)).toBe(true);
+    });
+  });
+
+  describe("power pages", () => {
+    it.each(db.powers.map(({ id, name }) => [name, id]))(
+      "should load the %s page and its Marvel characters page by page",
+      (_, id) => {
+        const { status, results } = request(`/power/4035-${id}/`, {
+          field_list: POWER_FIELD_LIST,
+        });
+
+        expect(status).toBe(200);
+        expect(results).toMatchObject({ id, name: expect.any(String) });
+        const characterIds = (results.characters as Credit[]).map(
+          ({ id }) => id,
+        );
+
+        const loaded: number[] = [];
+        for (
+          let offset = 0;
+          offset < characterIds.length;
+          offset += PAGE_SIZE
+        ) {
+          loaded.push(
+            ...lookUpCharacters(
+              characterIds.slice(offset, offset + PAGE_SIZE),
+              "publisher:31,",
+            ),
+          );
+        }
+
+        const marvelIds = characterIds.filter((characterId) =>
+          db.characters.some(
+            (character) =>
+              character.id === characterId &&
+              (character.publisher as { id: number }).id === 31,
+          ),
+        );
+        expect(loaded.sort()).toEqual(marvelIds.sort());
+      },
+    );
+
+    it("should have a power past one page and one without Marvel characters", () => {
+      const sizes = db.powers.map(
+        ({ characters }) => (characters as unknown[]).length,
+      );
+
+      expect(sizes.some((size) => size > PAGE_SIZE)).toBe(true);
+      expect(
+        db.powers.find(({ name }) => name === "Test Power")?.characters,
+      ).toEqual([expect.objectContaining({ id: 30001 })]);
+    });
+  });
+
+  describe("character details", () => {
+    it("should credit Spider-Man's teams and powers", () => {
+      const { results } = request("/character/4005-1443/", {
+        field_list: CHARACTER_DETAIL_FIELD_LIST,
+      });
+
+      expect(results.character_teams).toEqual([
+        expect.objectContaining({ id: 3806, name: "Avengers" }),
+      ]);
+      expect(results.powers).toEqual([
+        expect.objectContaining({ id: 1, name: "Super Strength" }),
+        expect.objectContaining({ id: 8, name: "Wall Clinging" }),
+      ]);
+    });
+
+    it("should link every team credit to a team page", () => {
+      const teamIds = db.characters.flatMap((character) =>
+        (character.character_teams as Credit[]).map(({ id }) => id),
+      );
+
+      expect(teamIds.length).toBeGreaterThan(0);
+      for (const id of teamIds) {
+        expect(request(`/team/4060-${id}/`).status).toBe(200);
+      }
+    });
+
+    it("should link every power credit to a power page", () => {
+      const powerIds = db.characters.flatMap((character) =>
+        (character.powers as Credit[]).map(({ id }) => id),
+      );
+
+      expect(powerIds.length).toBeGreaterThan(0);
+      for (const id of powerIds) {
+        expect(request(`/power/4035-${id}/`).status).toBe(200);
+      }
+    });
+  });
+});
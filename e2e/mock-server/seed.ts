@@ -0,0 +1,162 @@
+import {
+  mockCharacters,
+  mockSearchCharacters,
+  mockCharacterList,
+  mockComics,
+  mockTeams,
+  mockPowers,
+} from "../fixtures/test-data";
+
+/**
+ * A Comic Vine record as served by the mock (any resource)
+ */
+export type MockRecord = Record<string, unknown> & { id: number };
+
+/**
+ * In-memory data served by the mock Comic Vine server
+ */
+export interface MockDatabase {
+  characters: MockRecord[];
+  issues: MockRecord[];
+  teams: MockRecord[];
+  powers: MockRecord[];
+}
+
+/** Marvel filler characters so the list has two full pages of 50 */
+const FILLER_MARVEL_CHARACTERS = 94;
+/** Non-Marvel characters, to exercise the publisher filter */
+const FILLER_OTHER_CHARACTERS = 5;
+/** Issues available for issue_credits */
+const ISSUE_COUNT = 60;
+
+/**
+ * Issue credits for a character: the first `count` issues starting at `from`
+ */
+function issueCredits(issues: MockRecord[], from: number, count: number) {
+  return issues.slice(from, from + count).map((issue) => ({
+    id: issue.id,
+    name: issue.name,
+    api_detail_url: issue.api_detail_url,
+  }));
+}
+
+/**
+ * A fixture that names its characters by ID (teams, powers)
+ */
+type CharacterLinkedFixture = MockRecord & {
+  name: string;
+  characterIds: number[];
+};
+
+/**
+ * Credit (`{ id, name, api_detail_url }`) pointing at a mock record
+ */
+function credit(record: MockRecord) {
+  return {
+    id: record.id,
+    name: record.name,
+    api_detail_url: record.api_detail_url,
+  };
+}
+
+/**
+ * Link fixtures and characters both ways, as Comic Vine does: each record
+ * credits its characters under `characters`, and each character credits the
+ * records it belongs to under `characterField`
+ */
+function linkCharacters(
+  characters: MockRecord[],
+  fixtures: CharacterLinkedFixture[],
+  detailPath: string,
+  characterField: string,
+) {
+  const records: MockRecord[] = fixtures.map(
+    ({ characterIds, ...fixture }) => ({
+      ...fixture,
+      api_detail_url: `https://comicvine.gamespot.com/api/${detailPath}-${fixture.id}/`,
+      characters: characterIds
+        .map((id) => characters.find((character) => character.id === id))
+        .filter((character): character is MockRecord => character !== undefined)
+        .map(credit),
+    }),
+  );
+
+  const linked = characters.map((character) => ({
+    ...character,
+    [characterField]: records
+      .filter((record) =>
+        (record.characters as MockRecord[]).some(
+          ({ id }) => id === character.id,
+        ),
+      )
+      .map(credit),
+  }));
+
+  return { records, characters: linked };
+}
+
+/**
+ * Build the mock database from the E2E fixtures
+ *
+ * - Spider-Man appears in 45 issues (more than one page of comics)
+ * - Hulk and the search characters appear in a few issues
+ * - The minimal character and filler characters have no issues
+ * - Issues get distinct cover dates so sorting is observable
+ * - The Avengers roster holds the named characters; the test team is empty
+ * - Super Strength has more than a page of characters, from two publishers;
+ *   the test power has only a non-Marvel character
+ */
+export function createSeed(): MockDatabase {
+  const issues: MockRecord[] = mockComics
+    .generateComics(ISSUE_COUNT)
+    .map((issue, i) => {
+      const coverDate = new Date(Date.UTC(2024, 0, 1) - i * 86400000)
+        .toISOString()
+        .slice(0, 10);
+      return { ...issue, cover_date: coverDate, store_date: coverDate };
+    });
+
+  const characters: MockRecord[] = [
+    { ...mockCharacters.spiderMan, issue_credits: issueCredits(issues, 0, 45) },
+    {
+      ...mockCharacters.longDescription,
+      issue_credits: issueCredits(issues, 45, 5),
+    },
+    { ...mockCharacters.minimal, issue_credits: [] },
+    ...mockSearchCharacters.map((character, i) => ({
+      ...character,
+      issue_credits: issueCredits(issues, 50 + i * 3, 3),
+    })),
+    ...mockCharacterList
+      .generateCharacters(FILLER_MARVEL_CHARACTERS)
+      .map((character) => ({ ...character, issue_credits: [] })),
+    ...mockCharacterList
+      .generateCharacters(
+        FILLER_OTHER_CHARACTERS,
+        { id: 10, name: "DC Comics" },
+        30000,
+      )
+      .map((character) => ({ ...character, issue_credits: [] })),
+  ];
+
+  const teams = linkCharacters(
+    characters,
+    mockTeams,
+    "team/4060",
+    "character_teams",
+  );
+
+  const powers = linkCharacters(
+    teams.characters,
+    mockPowers,
+    "power/4035",
+    "powers",
+  );
+
+  return {
+    characters: powers.characters,
+    issues,
+    teams: teams.records,
+    powers: powers.records,
+  };
+}
@@ -0,0 +1,47 @@
+import type { Plugin } from "vite";
+import { createMockApiMiddleware } from "./middleware";
+import { loadRecordings } from "./recordings";
+import { createSeed } from "./seed";
+
+/** Placeholder key so the app treats the API as configured (never sent anywhere) */
+const MOCK_API_KEY = "mock-comicvine-api-key-for-local-development-only";
+
+/** Environment variable pointing at a FileFixtureStore directory to replay */
+export const RECORDINGS_ENV = "MOCK_API_FIXTURES";
+
+/**
+ * Vite plugin serving the mock Comic Vine API from the dev and preview servers
+ *
+ * Replaces the /api proxy to comicvine.gamespot.com with seeded fixtures,
+ * so the app and E2E tests run offline and without a real API key.
+ * With MOCK_API_FIXTURES set, replays real responses recorded by the API
+ * client's record mode instead of the seed.
+ *
+ * @example
+ * ```bash
+ * MOCK_API=true npm run dev
+ * MOCK_API=true MOCK_API_FAULT=latency:2000 npm run dev
+ * MOCK_API=true MOCK_API_FIXTURES=e2e/fixtures/recorded npm run dev
+ * ```
+ */
+export function comicVineMockPlugin(): Plugin {
+  const recordingsDir = process.env[RECORDINGS_ENV];
+  const middleware = createMockApiMiddleware(
+    createSeed(),
+    recordingsDir ? loadRecordings(recordingsDir) : undefined,
+  );
+
+  return {
+    name: "comic-vine-mock",
+    config() {
+      // Must be set before Vite loads env variables
+      process.env.VITE_COMICVINE_API_KEY = MOCK_API_KEY;
+    },
+    configureServer(server) {
+      server.middlewares.use(middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(middleware);
+    },
+  };
+}
@@ -1,4 +1,8 @@
-export default {
+/**
+ * Browser app (src/)
+ */
+const appProject = {
+  displayName: 'app',
   preset: 'ts-jest',
   testEnvironment: 'jsdom',
   roots: ['<rootDir>/src'],
@@ -18,6 +22,24 @@ export default {
     '\\.(jpg|jpeg|png|gif|svg)$': '<rootDir>/src/tests/mocks/fileMock.ts',
   },
   setupFilesAfterEnv: ['<rootDir>/src/tests/setup.ts'],
+};
+
+/**
+ * Node code: Vercel functions (api/) and the E2E mock server
+ * (the Playwright specs under e2e/ are not Jest tests)
+ */
+const nodeProject = {
+  displayName: 'node',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/api', '<rootDir>/e2e/mock-server'],
+  testMatch: ['**/?(*.)+(test).ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/api/tsconfig.json' }],
+  },
+};
+
+export default {
+  projects: [appProject, nodeProject],
   collectCoverageFrom: [
     'src/**/*.{ts,tsx}',
     '!src/**/*.d.ts',
@@ -1,7 +1,10 @@
 import { AppRouter } from "./ui/routes/AppRouter";
 import { FavoritesProvider } from "./ui/state/FavoritesContext";
+import { ToastProvider } from "./ui/state/ToastContext";
 import { DependenciesProvider } from "./ui/state/DependenciesContext";
 import { QueryProvider } from "./ui/providers/QueryProvider";
+import { RevalidationSync } from "./ui/providers/RevalidationSync";
+import { SystemNotifications } from "./ui/providers/SystemNotifications";
 import { ErrorBoundary } from "./ui/components/ErrorBoundary/ErrorBoundary";
 import "./App.scss";
 
@@ -14,7 +17,10 @@ import "./App.scss";
  * 1. ErrorBoundary - Catches React errors and prevents console spam in production
  * 2. DependenciesProvider - Injects use cases and repositories (hexagonal architecture)
  * 3. QueryProvider - React Query for server state caching and loading management
- * 4. FavoritesProvider - Manages favorites state (client state - localStorage)
+ * 4. RevalidationSync - Refreshes React Query caches when stale API responses are revalidated
+ * 5. ToastProvider - Queues toast notifications
+ * 6. SystemNotifications - Toasts for rate limiting and offline/online changes
+ * 7. FavoritesProvider - Manages favorites state (client state - localStorage)
 
  */
 function App() {
@@ -22,9 +28,15 @@ function App() {
     <ErrorBoundary>
       <DependenciesProvider>
         <QueryProvider>
-          <FavoritesProvider>
-            <AppRouter />
-          </FavoritesProvider>
+          <RevalidationSync>
+            <ToastProvider>
+              <SystemNotifications>
+                <FavoritesProvider>
+                  <AppRouter />
+                </FavoritesProvider>
+              </SystemNotifications>
+            </ToastProvider>
+          </RevalidationSync>
         </QueryProvider>
       </DependenciesProvider>
     </ErrorBoundary>
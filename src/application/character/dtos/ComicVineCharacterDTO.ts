@@ -1,76 +1,230 @@
+import { z } from "zod";
+
 /**
  * Comic Vine Character DTOs
  *
- * Data Transfer Object Interfaces for Comic Vine API character responses.
- * Defines Interfaces for Mapping external API structure to application layer.
+ * Zod schemas and inferred types for Comic Vine API character responses.
+ * Schemas validate payloads at the repository boundary; types are derived
+ * from them so the two can't drift apart.
+ *
+ * Fields the app never reads, or that a `field_list` may leave out, are optional.
  */
 
+/**
+ * Comic Vine Image
+ * Complete URLs for each size Comic Vine renders
+ */
+export const comicVineImageSchema = z.object({
+  icon_url: z.string().optional(),
+  medium_url: z.string().optional(),
+  screen_url: z.string().optional(),
+  screen_large_url: z.string().optional(),
+  small_url: z.string().optional(),
+  super_url: z.string().optional(),
+  thumb_url: z.string().optional(),
+  tiny_url: z.string().optional(),
+  original_url: z.string().optional(),
+});
+
+export type ComicVineImage = z.infer<typeof comicVineImageSchema>;
+
 /**
  * Comic Vine Issue Credit
  * Minimal reference to an issue that a character appears in
  */
-export interface ComicVineIssueCredit {
-  id: number;
-  api_detail_url: string;
-  name?: string;
-}
-
-/**
- * Comic Vine Character Response
- * Structure returned by /characters/ and /character/ endpoints
- */
-export interface ComicVineCharacterResponse {
-  id: number;
-  name: string;
-  deck: string | null; // Short description
-  description: string | null; // HTML formatted description
-  image: {
-    icon_url: string;
-    medium_url: string;
-    screen_url: string;
-    screen_large_url: string;
-    small_url: string;
-    super_url: string;
-    thumb_url: string;
-    tiny_url: string;
-    original_url: string;
-  };
-  publisher: {
-    id: number;
-    name: string;
-  } | null;
-  date_added: string; // ISO date
-  date_last_updated: string; // ISO date
-  site_detail_url: string;
-  api_detail_url: string;
-  // List of issues this character appears in (only included with field_list)
-  issue_credits?: ComicVineIssueCredit[];
-}
+export const comicVineIssueCreditSchema = z.object({
+  id: z.number().int().positive(),
+  api_detail_url: z.string().optional(),
+  name: z.string().nullish(),
+});
+
+export type ComicVineIssueCredit = z.infer<typeof comicVineIssueCreditSchema>;
+
+/**
+ * Comic Vine Origin
+ * Kind of character (Mutant, Human, Robot...)
+ */
+export const comicVineOriginSchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string().nullish(),
+  api_detail_url: z.string().optional(),
+});
+
+/**
+ * Comic Vine First Appearance
+ * Issue a character first appeared in
+ */
+export const comicVineFirstAppearanceSchema = comicVineIssueCreditSchema.extend(
+  {
+    issue_number: z.string().nullish(),
+  },
+);
+
+/**
+ * Comic Vine Team Credit
+ * Minimal reference to a team that a character belongs to
+ */
+export const comicVineTeamCreditSchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string().nullish(),
+  api_detail_url: z.string().optional(),
+});
+
+/**
+ * Comic Vine Power Credit
+ * Minimal reference to a power that a character has
+ */
+export const comicVinePowerCreditSchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string().nullish(),
+  api_detail_url: z.string().optional(),
+});
+
+/**
+ * Comic Vine Character Credit
+ * Minimal reference to another character (an ally or an enemy)
+ */
+export const comicVineCharacterCreditSchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string().nullish(),
+  api_detail_url: z.string().optional(),
+});
+
+/**
+ * Comic Vine Character Summary
+ * A character as listed by the /characters/ endpoint (grids and lookups)
+ */
+export const comicVineCharacterSummarySchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string().trim().min(1, "Character name cannot be empty"),
+  deck: z.string().nullish(), // Short description
+  image: comicVineImageSchema.nullish(),
+});
+
+export type ComicVineCharacterSummaryResponse = z.infer<
+  typeof comicVineCharacterSummarySchema
+>;
+
+/**
+ * Comic Vine Character Detail
+ * A character as returned by the /character/ endpoint (detail page)
+ */
+export const comicVineCharacterDetailSchema =
+  comicVineCharacterSummarySchema.extend({
+    description: z.string().nullish(), // HTML formatted description
+    // List of issues this character appears in (can run to thousands)
+    issue_credits: z.array(comicVineIssueCreditSchema).nullish(),
+    // Teams this character belongs to. Best-effort like the profile facts
+    character_teams: z.array(comicVineTeamCreditSchema).nullish().catch(null),
+    // Powers this character has. Best-effort like the teams
+    powers: z.array(comicVinePowerCreditSchema).nullish().catch(null),
+    // Profile facts. Best-effort: a malformed fact is dropped, not the character
+    real_name: z.string().nullish().catch(null),
+    aliases: z.string().nullish().catch(null), // One alias per line
+    gender: z.number().int().nullish().catch(null), // 0 = other, 1 = male, 2 = female
+    origin: comicVineOriginSchema.nullish().catch(null),
+    birth: z.string().nullish().catch(null), // Free text, usually a date
+    first_appeared_in_issue: comicVineFirstAppearanceSchema
+      .nullish()
+      .catch(null),
+    count_of_issue_appearances: z
+      .number()
+      .int()
+      .nonnegative()
+      .nullish()
+      .catch(null),
+  });
+
+export type ComicVineCharacterDetailResponse = z.infer<
+  typeof comicVineCharacterDetailSchema
+>;
+
+/**
+ * Comic Vine Character Relationships
+ * A character's allies and enemies, requested apart from the detail so the
+ * detail page's first request stays small
+ */
+export const comicVineCharacterRelationshipsSchema = z.object({
+  id: z.number().int().positive(),
+  // Best-effort: a malformed list leaves that rail empty
+  character_friends: z
+    .array(comicVineCharacterCreditSchema)
+    .nullish()
+    .catch(null),
+  character_enemies: z
+    .array(comicVineCharacterCreditSchema)
+    .nullish()
+    .catch(null),
+});
+
+export type ComicVineCharacterRelationshipsResponse = z.infer<
+  typeof comicVineCharacterRelationshipsSchema
+>;
+
+/**
+ * `field_list` values asking Comic Vine for exactly the fields each schema
+ * reads, so list pages don't download descriptions and issue credits
+ */
+export const CHARACTER_SUMMARY_FIELD_LIST = Object.keys(
+  comicVineCharacterSummarySchema.shape,
+).join(",");
+
+export const CHARACTER_DETAIL_FIELD_LIST = Object.keys(
+  comicVineCharacterDetailSchema.shape,
+).join(",");
+
+export const CHARACTER_RELATIONSHIPS_FIELD_LIST = Object.keys(
+  comicVineCharacterRelationshipsSchema.shape,
+).join(",");
+
+/**
+ * Comic Vine Response Envelope
+ * Fields shared by every Comic Vine endpoint
+ */
+const comicVineEnvelopeSchema = z.object({
+  error: z.string(), // "OK" on success, error message otherwise
+  status_code: z.number(), // 1 = success
+  limit: z.number().optional(),
+  offset: z.number().optional(),
+  number_of_page_results: z.number().optional(),
+  number_of_total_results: z.number().optional(),
+});
+
+/**
+ * Comic Vine List Response
+ * Items stay unknown so each one can be validated (and skipped) individually
+ */
+export const comicVineListResponseSchema = comicVineEnvelopeSchema.extend({
+  number_of_total_results: z.number(),
+  results: z.array(z.unknown()),
+});
+
+/**
+ * Comic Vine Single Resource Response
+ * `results` is an object when found, and null or [] otherwise
+ */
+export const comicVineSingleResponseSchema = comicVineEnvelopeSchema.extend({
+  results: z.unknown(),
+});
 
 /**
  * Comic Vine API Response Wrapper
- * Standard response format for all Comic Vine endpoints
- */
-export interface ComicVineApiResponse<T> {
-  error: string; // "OK" on success, error message otherwise
-  limit: number;
-  offset: number;
-  number_of_page_results: number;
-  number_of_total_results: number;
-  status_code: number; // 1 = success
+ * Standard response format for all Comic Vine list endpoints
+ */
+export type ComicVineApiResponse<T> = Omit<
+  z.infer<typeof comicVineListResponseSchema>,
+  "results"
+> & {
   results: T[];
-}
+};
 
 /**
  * Single Character Detail Response
  * Used for /character/4005-{id}/ endpoint
  */
-export interface ComicVineSingleCharacterResponse {
-  error: string;
-  limit: number;
-  offset: number;
-  number_of_page_results: number;
-  number_of_total_results: number;
-  status_code: number;
-  results: ComicVineCharacterResponse;
-}
+export type ComicVineSingleCharacterResponse = Omit<
+  z.infer<typeof comicVineSingleResponseSchema>,
+  "results"
+> & {
+  results: ComicVineCharacterDetailResponse;
+};
@@ -1,51 +1,48 @@
+import { z } from "zod";
+import {
+  ComicVineApiResponse,
+  comicVineImageSchema,
+} from "./ComicVineCharacterDTO";
+
 /**
  * Comic Vine Comic/Issue DTOs
  *
- * Data Transfer Object Interfaces for Comic Vine API issue responses.
- * Defines Interfaces for Mapping external API structure to application layer.
+ * Zod schemas and inferred types for Comic Vine API issue responses.
+ * Schemas validate payloads at the repository boundary; types are derived
+ * from them so the two can't drift apart.
  */
 
 /**
  * Comic Vine Issue Response
  * Structure returned by /issues/ endpoint
  */
-export interface ComicVineIssueResponse {
-  id: number;
-  name: string | null; // Issue title
-  issue_number: string;
-  volume: {
-    id: number;
-    name: string;
-  };
-  cover_date: string; // "2024-01-15" format
-  store_date: string | null;
-  description: string | null; // HTML formatted
-  image: {
-    icon_url: string;
-    medium_url: string;
-    screen_url: string;
-    screen_large_url: string;
-    small_url: string;
-    super_url: string;
-    thumb_url: string;
-    tiny_url: string;
-    original_url: string;
-  } | null;
-  date_added: string;
-  date_last_updated: string;
-  site_detail_url: string;
-  api_detail_url: string;
-}
+export const comicVineIssueSchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string().nullish(), // Issue title
+  issue_number: z.string().nullish(),
+  volume: z
+    .object({
+      id: z.number(),
+      name: z.string(),
+    })
+    .nullish(),
+  cover_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD cover date")
+    .nullish(),
+  store_date: z.string().nullish(),
+  description: z.string().nullish(), // HTML formatted
+  image: comicVineImageSchema.nullish(),
+  date_added: z.string().optional(),
+  date_last_updated: z.string().optional(),
+  site_detail_url: z.string().optional(),
+  api_detail_url: z.string().optional(),
+});
+
+export type ComicVineIssueResponse = z.infer<typeof comicVineIssueSchema>;
 
 /**
  * Comic Vine Issues API Response
  */
-export interface ComicVineIssuesApiResponse {
-  error: string;
-  limit: number;
-  offset: number;
-  number_of_page_results: number;
-  number_of_total_results: number;
-  status_code: number;
-  results: ComicVineIssueResponse[];
-}
+export type ComicVineIssuesApiResponse =
+  ComicVineApiResponse<ComicVineIssueResponse>;
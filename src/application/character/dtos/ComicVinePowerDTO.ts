@@ -0,0 +1,32 @@
+import { z } from "zod";
+import { comicVineCharacterCreditSchema } from "./ComicVineCharacterDTO";
+
+/**
+ * Comic Vine Power DTOs
+ *
+ * Zod schemas and inferred types for Comic Vine API power responses.
+ * Schemas validate payloads at the repository boundary; types are derived
+ * from them so the two can't drift apart.
+ */
+
+/**
+ * Comic Vine Power Response
+ * Structure returned by the /power/4035-{id}/ endpoint
+ */
+export const comicVinePowerSchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string().trim().min(1, "Power name cannot be empty"),
+  description: z.string().nullish(), // Short plain-text description
+  // Characters with this power, from every publisher. A malformed list
+  // leaves the power without characters instead of unreadable
+  characters: z.array(comicVineCharacterCreditSchema).nullish().catch(null),
+});
+
+export type ComicVinePowerResponse = z.infer<typeof comicVinePowerSchema>;
+
+/**
+ * `field_list` asking Comic Vine for exactly the fields the power schema reads
+ */
+export const POWER_FIELD_LIST = Object.keys(comicVinePowerSchema.shape).join(
+  ",",
+);
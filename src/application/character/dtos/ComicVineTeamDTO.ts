@@ -0,0 +1,40 @@
+import { z } from "zod";
+import { comicVineImageSchema } from "./ComicVineCharacterDTO";
+
+/**
+ * Comic Vine Team DTOs
+ *
+ * Zod schemas and inferred types for Comic Vine API team responses.
+ * Schemas validate payloads at the repository boundary; types are derived
+ * from them so the two can't drift apart.
+ */
+
+/**
+ * Comic Vine Team Member
+ * Minimal reference to a character on a team's roster
+ */
+export const comicVineTeamMemberSchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string().nullish(),
+  api_detail_url: z.string().optional(),
+});
+
+/**
+ * Comic Vine Team Response
+ * Structure returned by the /team/4060-{id}/ endpoint
+ */
+export const comicVineTeamSchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string().trim().min(1, "Team name cannot be empty"),
+  deck: z.string().nullish(), // Short description
+  image: comicVineImageSchema.nullish(),
+  // Roster. A malformed roster leaves the team empty instead of unreadable
+  characters: z.array(comicVineTeamMemberSchema).nullish().catch(null),
+});
+
+export type ComicVineTeamResponse = z.infer<typeof comicVineTeamSchema>;
+
+/**
+ * `field_list` asking Comic Vine for exactly the fields the team schema reads
+ */
+export const TEAM_FIELD_LIST = Object.keys(comicVineTeamSchema.shape).join(",");
@@ -0,0 +1,347 @@
+/**
+ * ComicVineCharacterDetailMapper Unit Tests
+ *
+ * Tests for mapping Comic Vine character responses to CharacterDetail
+ * entities: HTML cleaning, issue credits and profile facts.
+ */
+
+import { ComicVineCharacterDetailMapper } from "./ComicVineCharacterDetailMapper";
+import { CharacterDetail } from "@domain/character/entities/CharacterDetail";
+import { ComicVineCharacterDetailResponse } from "../dtos/ComicVineCharacterDTO";
+
+describe("ComicVineCharacterDetailMapper", () => {
+  const createValidApiResponse = (
+    overrides?: Partial<ComicVineCharacterDetailResponse>,
+  ): ComicVineCharacterDetailResponse => ({
+    id: 1699,
+    name: "Spider-Man",
+    deck: "Friendly neighborhood hero",
+    description: "<p>Bitten by a radioactive spider.</p>",
+    image: {
+      icon_url:
+        "https://comicvine.gamespot.com/a/uploads/square_avatar/11/11111/123456-spider-man.jpg",
+      medium_url:
+        "https://comicvine.gamespot.com/a/uploads/scale_medium/11/11111/123456-spider-man.jpg",
+      screen_url:
+        "https://comicvine.gamespot.com/a/uploads/screen_medium/11/11111/123456-spider-man.jpg",
+      screen_large_url:
+        "https://comicvine.gamespot.com/a/uploads/screen_kubrick/11/11111/123456-spider-man.jpg",
+      small_url:
+        "https://comicvine.gamespot.com/a/uploads/scale_small/11/11111/123456-spider-man.jpg",
+      super_url:
+        "https://comicvine.gamespot.com/a/uploads/original/11/11111/123456-spider-man.jpg",
+      thumb_url:
+        "https://comicvine.gamespot.com/a/uploads/scale_avatar/11/11111/123456-spider-man.jpg",
+      tiny_url:
+        "https://comicvine.gamespot.com/a/uploads/square_mini/11/11111/123456-spider-man.jpg",
+      original_url:
+        "https://comicvine.gamespot.com/a/uploads/original/11/11111/123456-spider-man.jpg",
+    },
+    ...overrides,
+  });
+
+  describe("toDomain", () => {
+    describe("Happy Path", () => {
+      it("maps complete API response to CharacterDetail entity", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse();
+
+        // Act
+        const character = ComicVineCharacterDetailMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character).toBeInstanceOf(CharacterDetail);
+        expect(character.id.value).toBe(1699);
+        expect(character.name.value).toBe("Spider-Man");
+        expect(character.description).toBe("Bitten by a radioactive spider.");
+      });
+
+      it("strips HTML tags from description", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse({
+          description:
+            "<h2>Title</h2><p>Description with <strong>bold</strong> text.</p>",
+        });
+
+        // Act
+        const character = ComicVineCharacterDetailMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.description).toBe("Title Description with bold text.");
+        expect(character.description).not.toContain("<");
+        expect(character.description).not.toContain(">");
+      });
+
+      it("decodes HTML entities", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse({
+          description:
+            "Spider-Man&apos;s real name is Peter&nbsp;Parker. He&amp;#39;s a hero.",
+        });
+
+        // Act
+        const character = ComicVineCharacterDetailMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.description).toContain("Spider-Man's");
+        expect(character.description).toContain("Peter Parker");
+        expect(character.description).not.toContain("&nbsp;");
+        expect(character.description).not.toContain("&amp;");
+      });
+
+      it("includes issue IDs when provided", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse({
+          issue_credits: [
+            { id: 1, api_detail_url: "url1" },
+            { id: 2, api_detail_url: "url2" },
+          ],
+        });
+
+        // Act
+        const character = ComicVineCharacterDetailMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.issueIds).toEqual([1, 2]);
+      });
+    });
+
+    describe("Description Handling", () => {
+      it("uses deck when description is null", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse({
+          description: null,
+          deck: "Short deck description",
+        });
+
+        // Act
+        const character = ComicVineCharacterDetailMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.description).toBe("Short deck description");
+      });
+
+      it("prefers description over deck", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse({
+          description: "Full description",
+          deck: "Short deck",
+        });
+
+        // Act
+        const character = ComicVineCharacterDetailMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.description).toBe("Full description");
+      });
+
+      it("keeps the deck alongside the description", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse({
+          description: "Full description",
+          deck: "<p>Short deck</p>",
+        });
+
+        // Act
+        const character = ComicVineCharacterDetailMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.deck).toBe("Short deck");
+      });
+
+      it("returns empty string when both description and deck are null", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse({
+          description: null,
+          deck: null,
+        });
+
+        // Act
+        const character = ComicVineCharacterDetailMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.description).toBe("");
+      });
+
+      it("normalizes extra whitespace", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse({
+          description: "<p>Text   with    extra     spaces</p>",
+        });
+
+        // Act
+        const character = ComicVineCharacterDetailMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.description).toBe("Text with extra spaces");
+      });
+    });
+
+    describe("Edge Cases", () => {
+      it("handles very long descriptions", () => {
+        // Arrange
+        const longDescription = "<p>" + "A".repeat(10000) + "</p>";
+        const apiResponse = createValidApiResponse({
+          description: longDescription,
+        });
+
+        // Act
+        const character = ComicVineCharacterDetailMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.description.length).toBeGreaterThan(5000);
+      });
+
+      it("handles missing issue_credits", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse();
+        delete apiResponse.issue_credits;
+
+        // Act
+        const character = ComicVineCharacterDetailMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.hasIssues()).toBe(false);
+      });
+    });
+
+    describe("Profile Facts", () => {
+      it("maps profile facts", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse({
+          real_name: "Peter Parker",
+          aliases: "Spidey\r\nWeb-Slinger\r\nSpider-Man",
+          gender: 1,
+          origin: { id: 4, name: "Human" },
+          birth: "Aug 10, 1962",
+          first_appeared_in_issue: {
+            id: 6686,
+            name: "Spider-Man!",
+            issue_number: "15",
+          },
+          count_of_issue_appearances: 8932,
+        });
+
+        // Act
+        const character = ComicVineCharacterDetailMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.name.value).toBe("Spider-Man");
+        expect(character.realName?.value).toBe("Peter Parker");
+        expect(character.aliases.values).toEqual(["Spidey", "Web-Slinger"]);
+        expect(character.gender?.value).toBe("male");
+        expect(character.origin?.name).toBe("Human");
+        expect(character.birth?.toDisplayString()).toBe("August 10, 1962");
+        expect(character.firstAppearance?.toDisplayString()).toBe(
+          "#15 · Spider-Man!",
+        );
+        expect(character.issueAppearances).toBe(8932);
+      });
+
+      it("leaves out facts the response doesn't have", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse({
+          real_name: "",
+          aliases: null,
+          gender: 7,
+          origin: null,
+          birth: "   ",
+        });
+
+        // Act
+        const character = ComicVineCharacterDetailMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.hasFacts()).toBe(false);
+      });
+
+      it.each([
+        [0, "other"],
+        [2, "female"],
+      ])("maps gender code %i to %s", (gender, expected) => {
+        const character = ComicVineCharacterDetailMapper.toDomain(
+          createValidApiResponse({ gender }),
+        );
+
+        expect(character.gender?.value).toBe(expected);
+      });
+    });
+
+    describe("Teams", () => {
+      it("maps team credits to team references", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse({
+          character_teams: [
+            { id: 3806, name: "Avengers" },
+            { id: 4149, name: "Defenders" },
+          ],
+        });
+
+        // Act
+        const character = ComicVineCharacterDetailMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(
+          character.teams.map((team) => [team.id.value, team.name]),
+        ).toEqual([
+          [3806, "Avengers"],
+          [4149, "Defenders"],
+        ]);
+      });
+
+      it("skips team credits without a name", () => {
+        const character = ComicVineCharacterDetailMapper.toDomain(
+          createValidApiResponse({
+            character_teams: [{ id: 3806, name: null }],
+          }),
+        );
+
+        expect(character.teams).toEqual([]);
+      });
+
+      it("handles missing character_teams", () => {
+        const character = ComicVineCharacterDetailMapper.toDomain(
+          createValidApiResponse({ character_teams: null }),
+        );
+
+        expect(character.teams).toEqual([]);
+      });
+    });
+
+    describe("Powers", () => {
+      it("maps power credits to powers", () => {
+        const character = ComicVineCharacterDetailMapper.toDomain(
+          createValidApiResponse({
+            powers: [
+              { id: 3, name: "Wall Crawling" },
+              { id: 1135, name: "Telepathy" },
+            ],
+          }),
+        );
+
+        expect(
+          character.powers.map((power) => [power.id.value, power.name]),
+        ).toEqual([
+          [3, "Wall Crawling"],
+          [1135, "Telepathy"],
+        ]);
+      });
+
+      it("skips power credits without a name", () => {
+        const character = ComicVineCharacterDetailMapper.toDomain(
+          createValidApiResponse({ powers: [{ id: 3, name: "" }] }),
+        );
+
+        expect(character.powers).toEqual([]);
+      });
+
+      it("handles missing powers", () => {
+        const character = ComicVineCharacterDetailMapper.toDomain(
+          createValidApiResponse({ powers: null }),
+        );
+
+        expect(character.powers).toEqual([]);
+      });
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { CharacterDetail } from "@domain/character/entities/CharacterDetail";
+import { Power } from "@domain/character/entities/Power";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { Aliases } from "@domain/character/valueObjects/Aliases";
+import { Gender, GenderValue } from "@domain/character/valueObjects/Gender";
+import { Origin } from "@domain/character/valueObjects/Origin";
+import { BirthDate } from "@domain/character/valueObjects/BirthDate";
+import { FirstAppearance } from "@domain/character/valueObjects/FirstAppearance";
+import { TeamId } from "@domain/character/valueObjects/TeamId";
+import { TeamReference } from "@domain/character/valueObjects/TeamReference";
+import { PowerId } from "@domain/character/valueObjects/PowerId";
+import { ComicVineCharacterDetailResponse } from "../dtos/ComicVineCharacterDTO";
+import {
+  cleanHtmlText,
+  createCharacterImageUrl,
+} from "./comicVineCharacterFields";
+
+/**
+ * Comic Vine Character Detail Mapper
+ *
+ * Transforms a Comic Vine character response (requested with the detail
+ * `field_list`) to a CharacterDetail entity.
+ * Handles HTML stripping, issue credits, team and power credits and the
+ * optional profile facts.
+ *
+ * @example
+ * ```typescript
+ * const character = ComicVineCharacterDetailMapper.toDomain(apiResponse);
+ * ```
+ */
+export class ComicVineCharacterDetailMapper {
+  /**
+   * Transform a Comic Vine character response to a CharacterDetail
+   *
+   * Facts the response leaves blank (or that fail validation) are left out.
+   *
+   * @param response - Raw Comic Vine API response
+   * @returns CharacterDetail domain entity
+   */
+  static toDomain(response: ComicVineCharacterDetailResponse): CharacterDetail {
+    const origin = response.origin;
+    const firstIssue = response.first_appeared_in_issue;
+
+    return new CharacterDetail({
+      id: new CharacterId(response.id),
+      name: new CharacterName(response.name),
+      deck: cleanHtmlText(response.deck),
+      description: cleanHtmlText(response.description || response.deck),
+      thumbnail: createCharacterImageUrl(response.image),
+      // Issue IDs for efficient comic fetching
+      issueIds: response.issue_credits?.map((credit) => credit.id) || [],
+      realName: this.optional(
+        () => response.real_name && new CharacterName(response.real_name),
+      ),
+      aliases: Aliases.fromText(response.aliases),
+      gender: this.createGender(response.gender),
+      origin: this.optional(
+        () => origin?.name && new Origin(origin.id, origin.name),
+      ),
+      birth: this.optional(
+        () => response.birth && new BirthDate(response.birth),
+      ),
+      firstAppearance: firstIssue
+        ? new FirstAppearance({
+            issueId: firstIssue.id,
+            issueName: firstIssue.name ?? null,
+            issueNumber: firstIssue.issue_number ?? null,
+          })
+        : null,
+      issueAppearances: response.count_of_issue_appearances ?? null,
+      teams: (response.character_teams ?? []).flatMap(
+        (team) =>
+          this.optional(
+            () =>
+              team.name && new TeamReference(new TeamId(team.id), team.name),
+          ) ?? [],
+      ),
+      powers: (response.powers ?? []).flatMap(
+        (power) =>
+          this.optional(
+            () =>
+              power.name &&
+              new Power({ id: new PowerId(power.id), name: power.name }),
+          ) ?? [],
+      ),
+    });
+  }
+
+  /**
+   * Map Comic Vine's gender code (0 = other, 1 = male, 2 = female)
+   *
+   * @returns Gender, or null for unknown codes
+   */
+  private static createGender(code: number | null | undefined): Gender | null {
+    const genders: Record<number, GenderValue> = {
+      0: "other",
+      1: "male",
+      2: "female",
+    };
+    const value = code == null ? undefined : genders[code];
+    return value ? new Gender(value) : null;
+  }
+
+  /**
+   * Build an optional value object, dropping blank or invalid values
+   */
+  private static optional<T>(
+    create: () => T | null | undefined | "",
+  ): T | null {
+    try {
+      return create() || null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * ComicVineCharacterRelationshipsMapper Unit Tests
+ *
+ * Tests for mapping Comic Vine friends and enemies to
+ * CharacterRelationships.
+ */
+
+import { ComicVineCharacterRelationshipsMapper } from "./ComicVineCharacterRelationshipsMapper";
+import { ComicVineCharacterRelationshipsResponse } from "../dtos/ComicVineCharacterDTO";
+
+describe("ComicVineCharacterRelationshipsMapper", () => {
+  const createValidApiResponse = (
+    overrides?: Partial<ComicVineCharacterRelationshipsResponse>,
+  ): ComicVineCharacterRelationshipsResponse => ({
+    id: 1699,
+    character_friends: [
+      { id: 1443, name: "Iron Man" },
+      { id: 1455, name: "Thor" },
+    ],
+    character_enemies: [{ id: 1502, name: "Green Goblin" }],
+    ...overrides,
+  });
+
+  describe("toDomain", () => {
+    it("maps friends to allies and enemies to enemies", () => {
+      // Act
+      const relationships = ComicVineCharacterRelationshipsMapper.toDomain(
+        createValidApiResponse(),
+      );
+
+      // Assert
+      expect(relationships.characterId.value).toBe(1699);
+      expect(relationships.allies.map((id) => id.value)).toEqual([1443, 1455]);
+      expect(relationships.enemies.map((id) => id.value)).toEqual([1502]);
+    });
+
+    it("handles missing lists", () => {
+      const relationships = ComicVineCharacterRelationshipsMapper.toDomain(
+        createValidApiResponse({
+          character_friends: null,
+          character_enemies: undefined,
+        }),
+      );
+
+      expect(relationships.isEmpty()).toBe(true);
+    });
+  });
+});
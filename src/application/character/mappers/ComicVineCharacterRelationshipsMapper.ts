@@ -0,0 +1,38 @@
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterRelationships } from "@domain/character/valueObjects/CharacterRelationships";
+import { ComicVineCharacterRelationshipsResponse } from "../dtos/ComicVineCharacterDTO";
+
+/**
+ * Comic Vine Character Relationships Mapper
+ *
+ * Transforms a Comic Vine character response (requested with the
+ * relationships `field_list`) to CharacterRelationships.
+ * `character_friends` become allies and `character_enemies` enemies,
+ * in Comic Vine's order.
+ *
+ * @example
+ * ```typescript
+ * const relationships = ComicVineCharacterRelationshipsMapper.toDomain(apiResponse);
+ * ```
+ */
+export class ComicVineCharacterRelationshipsMapper {
+  /**
+   * Transform a Comic Vine character response to CharacterRelationships
+   *
+   * @param response - Raw Comic Vine API response
+   * @returns CharacterRelationships value object
+   */
+  static toDomain(
+    response: ComicVineCharacterRelationshipsResponse,
+  ): CharacterRelationships {
+    return new CharacterRelationships({
+      characterId: new CharacterId(response.id),
+      allies: (response.character_friends ?? []).map(
+        (credit) => new CharacterId(credit.id),
+      ),
+      enemies: (response.character_enemies ?? []).map(
+        (credit) => new CharacterId(credit.id),
+      ),
+    });
+  }
+}
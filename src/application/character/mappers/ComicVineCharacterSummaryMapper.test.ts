@@ -0,0 +1,233 @@
+/**
+ * ComicVineCharacterSummaryMapper Unit Tests
+ *
+ * Tests for mapping Comic Vine list items to CharacterSummary entities:
+ * deck cleaning, image URL fallbacks and list mapping.
+ */
+
+import { ComicVineCharacterSummaryMapper } from "./ComicVineCharacterSummaryMapper";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { ComicVineCharacterSummaryResponse } from "../dtos/ComicVineCharacterDTO";
+
+describe("ComicVineCharacterSummaryMapper", () => {
+  const createValidApiResponse = (
+    overrides?: Partial<ComicVineCharacterSummaryResponse>,
+  ): ComicVineCharacterSummaryResponse => ({
+    id: 1699,
+    name: "Spider-Man",
+    deck: "Friendly neighborhood hero",
+    image: {
+      icon_url:
+        "https://comicvine.gamespot.com/a/uploads/square_avatar/11/11111/123456-spider-man.jpg",
+      medium_url:
+        "https://comicvine.gamespot.com/a/uploads/scale_medium/11/11111/123456-spider-man.jpg",
+      screen_url:
+        "https://comicvine.gamespot.com/a/uploads/screen_medium/11/11111/123456-spider-man.jpg",
+      screen_large_url:
+        "https://comicvine.gamespot.com/a/uploads/screen_kubrick/11/11111/123456-spider-man.jpg",
+      small_url:
+        "https://comicvine.gamespot.com/a/uploads/scale_small/11/11111/123456-spider-man.jpg",
+      super_url:
+        "https://comicvine.gamespot.com/a/uploads/original/11/11111/123456-spider-man.jpg",
+      thumb_url:
+        "https://comicvine.gamespot.com/a/uploads/scale_avatar/11/11111/123456-spider-man.jpg",
+      tiny_url:
+        "https://comicvine.gamespot.com/a/uploads/square_mini/11/11111/123456-spider-man.jpg",
+      original_url:
+        "https://comicvine.gamespot.com/a/uploads/original/11/11111/123456-spider-man.jpg",
+    },
+    ...overrides,
+  });
+
+  describe("toDomain", () => {
+    describe("Happy Path", () => {
+      it("maps list item to CharacterSummary entity", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse();
+
+        // Act
+        const character = ComicVineCharacterSummaryMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character).toBeInstanceOf(CharacterSummary);
+        expect(character.id.value).toBe(1699);
+        expect(character.name.value).toBe("Spider-Man");
+        expect(character.deck).toBe("Friendly neighborhood hero");
+      });
+
+      it("cleans HTML entities from the deck", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse({
+          deck: "Peter&nbsp;Parker&apos;s   alter ego",
+        });
+
+        // Act
+        const character = ComicVineCharacterSummaryMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.deck).toBe("Peter Parker's alter ego");
+      });
+
+      it("returns an empty deck when deck is null", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse({ deck: null });
+
+        // Act
+        const character = ComicVineCharacterSummaryMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.deck).toBe("");
+      });
+    });
+
+    describe("Image URL Handling", () => {
+      it("creates ImageUrl from medium_url", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse();
+
+        // Act
+        const character = ComicVineCharacterSummaryMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.thumbnail.url).toContain("comicvine.gamespot.com");
+        expect(character.thumbnail.url).toContain(".jpg");
+      });
+
+      it("falls back to screen_url when medium_url is missing", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse({
+          image: {
+            ...createValidApiResponse().image,
+            medium_url: "",
+            screen_url: "https://example.com/screen.jpg",
+          },
+        });
+
+        // Act
+        const character = ComicVineCharacterSummaryMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.thumbnail.url).toContain("example.com");
+      });
+
+      it("falls back to original_url when other URLs missing", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse({
+          image: {
+            ...createValidApiResponse().image,
+            medium_url: "",
+            screen_url: "",
+            original_url: "https://example.com/original.png",
+          },
+        });
+
+        // Act
+        const character = ComicVineCharacterSummaryMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.thumbnail.url).toContain("example.com");
+      });
+
+      it("uses placeholder when no image URLs available", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse({
+          image: {
+            icon_url: "",
+            medium_url: "",
+            screen_url: "",
+            screen_large_url: "",
+            small_url: "",
+            super_url: "",
+            thumb_url: "",
+            tiny_url: "",
+            original_url: "",
+          },
+        });
+
+        // Act
+        const character = ComicVineCharacterSummaryMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.thumbnail.url).toContain("placeholder");
+      });
+
+      it("uses placeholder when image is null", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse({ image: null });
+
+        // Act
+        const character = ComicVineCharacterSummaryMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.thumbnail.url).toContain("placeholder");
+      });
+    });
+
+    describe("Edge Cases", () => {
+      it("handles special characters in name", () => {
+        // Arrange
+        const apiResponse = createValidApiResponse({
+          name: "Spider-Man™ (Peter B. Parker) / The Amazing Spider-Man's Clone",
+        });
+
+        // Act
+        const character = ComicVineCharacterSummaryMapper.toDomain(apiResponse);
+
+        // Assert
+        expect(character.name.value).toBe(
+          "Spider-Man™ (Peter B. Parker) / The Amazing Spider-Man's Clone",
+        );
+      });
+    });
+  });
+
+  describe("toDomainList", () => {
+    it("maps array of responses to CharacterSummary entities", () => {
+      // Arrange
+      const responses = [
+        createValidApiResponse({ id: 1, name: "Spider-Man" }),
+        createValidApiResponse({ id: 2, name: "Iron Man" }),
+        createValidApiResponse({ id: 3, name: "Captain America" }),
+      ];
+
+      // Act
+      const characters =
+        ComicVineCharacterSummaryMapper.toDomainList(responses);
+
+      // Assert
+      expect(characters).toHaveLength(3);
+      expect(characters[0]!.name.value).toBe("Spider-Man");
+      expect(characters[1]!.name.value).toBe("Iron Man");
+      expect(characters[2]!.name.value).toBe("Captain America");
+      characters.forEach((char) =>
+        expect(char).toBeInstanceOf(CharacterSummary),
+      );
+    });
+
+    it("handles empty array", () => {
+      // Arrange
+      const responses: ComicVineCharacterSummaryResponse[] = [];
+
+      // Act
+      const characters =
+        ComicVineCharacterSummaryMapper.toDomainList(responses);
+
+      // Assert
+      expect(characters).toHaveLength(0);
+      expect(characters).toEqual([]);
+    });
+
+    it("processes all valid entries", () => {
+      // Arrange
+      const responses = [createValidApiResponse()];
+
+      // Act
+      const characters =
+        ComicVineCharacterSummaryMapper.toDomainList(responses);
+
+      // Assert
+      expect(characters).toHaveLength(1);
+      expect(characters[0]).toBeInstanceOf(CharacterSummary);
+    });
+  });
+});
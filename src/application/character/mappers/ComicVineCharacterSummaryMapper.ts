@@ -0,0 +1,51 @@
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { ComicVineCharacterSummaryResponse } from "../dtos/ComicVineCharacterDTO";
+import {
+  cleanHtmlText,
+  createCharacterImageUrl,
+} from "./comicVineCharacterFields";
+
+/**
+ * Comic Vine Character Summary Mapper
+ *
+ * Transforms Comic Vine list items (requested with the summary `field_list`)
+ * to CharacterSummary entities.
+ *
+ * @example
+ * ```typescript
+ * const character = ComicVineCharacterSummaryMapper.toDomain(apiResponse);
+ * const characters = ComicVineCharacterSummaryMapper.toDomainList(apiResponses);
+ * ```
+ */
+export class ComicVineCharacterSummaryMapper {
+  /**
+   * Transform single Comic Vine list item to a Character
+   *
+   * @param response - Raw Comic Vine API list item
+   * @returns CharacterSummary domain entity
+   */
+  static toDomain(
+    response: ComicVineCharacterSummaryResponse,
+  ): CharacterSummary {
+    return new CharacterSummary({
+      id: new CharacterId(response.id),
+      name: new CharacterName(response.name),
+      deck: cleanHtmlText(response.deck),
+      thumbnail: createCharacterImageUrl(response.image),
+    });
+  }
+
+  /**
+   * Transform array of Comic Vine list items to CharacterSummary entities
+   *
+   * @param responses - Array of raw Comic Vine API list items
+   * @returns Array of CharacterSummary domain entities
+   */
+  static toDomainList(
+    responses: ComicVineCharacterSummaryResponse[],
+  ): CharacterSummary[] {
+    return responses.map((response) => this.toDomain(response));
+  }
+}
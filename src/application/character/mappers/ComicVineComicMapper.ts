@@ -81,7 +81,7 @@ export class ComicVineComicMapper {
    * @param html - HTML formatted description
    * @returns Clean text description
    */
-  private static cleanHtmlDescription(html: string | null): string {
+  private static cleanHtmlDescription(html: string | null | undefined): string {
     if (!html) return "";
 
     return (
@@ -109,7 +109,7 @@ export class ComicVineComicMapper {
    * @returns ReleaseDate value object
    */
   private static parseReleaseDate(
-    coverDate: string | null,
+    coverDate: string | null | undefined,
   ): ReleaseDate | null {
     if (!coverDate) {
       // Return null if no date
@@ -128,7 +128,7 @@ export class ComicVineComicMapper {
    * @returns ImageUrl value object
    */
   private static createImageUrl(
-    image: ComicVineIssueResponse["image"] | null,
+    image: ComicVineIssueResponse["image"],
   ): ImageUrl {
     if (!image || !image.medium_url) {
       // Return placeholder for missing images (without extension in path)
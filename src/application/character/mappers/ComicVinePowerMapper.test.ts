@@ -0,0 +1,63 @@
+/**
+ * ComicVinePowerMapper Unit Tests
+ *
+ * Tests for mapping Comic Vine power responses to Power entities:
+ * description cleaning and character mapping.
+ */
+
+import { ComicVinePowerMapper } from "./ComicVinePowerMapper";
+import { Power } from "@domain/character/entities/Power";
+import { ComicVinePowerResponse } from "../dtos/ComicVinePowerDTO";
+
+describe("ComicVinePowerMapper", () => {
+  const createValidApiResponse = (
+    overrides?: Partial<ComicVinePowerResponse>,
+  ): ComicVinePowerResponse => ({
+    id: 1135,
+    name: "Telepathy",
+    description: "The ability to read minds",
+    characters: [
+      { id: 1440, name: "Jean Grey" },
+      { id: 1489, name: "Professor X" },
+    ],
+    ...overrides,
+  });
+
+  describe("toDomain", () => {
+    it("maps complete API response to Power entity", () => {
+      // Act
+      const power = ComicVinePowerMapper.toDomain(createValidApiResponse());
+
+      // Assert
+      expect(power).toBeInstanceOf(Power);
+      expect(power.id.value).toBe(1135);
+      expect(power.name).toBe("Telepathy");
+      expect(power.description).toBe("The ability to read minds");
+    });
+
+    it("keeps the characters in Comic Vine's order", () => {
+      const power = ComicVinePowerMapper.toDomain(createValidApiResponse());
+
+      expect(power.characterIds.map((id) => id.value)).toEqual([1440, 1489]);
+    });
+
+    it("strips HTML from the description", () => {
+      const power = ComicVinePowerMapper.toDomain(
+        createValidApiResponse({
+          description: "<p>Reads <b>minds</b> &amp; thoughts</p>",
+        }),
+      );
+
+      expect(power.description).toBe("Reads minds & thoughts");
+    });
+
+    it("handles a missing description and characters", () => {
+      const power = ComicVinePowerMapper.toDomain(
+        createValidApiResponse({ description: null, characters: null }),
+      );
+
+      expect(power.hasDescription()).toBe(false);
+      expect(power.characterCount).toBe(0);
+    });
+  });
+});
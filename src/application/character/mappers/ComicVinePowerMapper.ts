@@ -0,0 +1,35 @@
+import { Power } from "@domain/character/entities/Power";
+import { PowerId } from "@domain/character/valueObjects/PowerId";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { ComicVinePowerResponse } from "../dtos/ComicVinePowerDTO";
+import { cleanHtmlText } from "./comicVineCharacterFields";
+
+/**
+ * Comic Vine Power Mapper
+ *
+ * Transforms Comic Vine power responses to Power entities.
+ * Characters keep Comic Vine's order and include every publisher.
+ *
+ * @example
+ * ```typescript
+ * const power = ComicVinePowerMapper.toDomain(apiResponse);
+ * ```
+ */
+export class ComicVinePowerMapper {
+  /**
+   * Transform a Comic Vine power response to a Power
+   *
+   * @param response - Raw Comic Vine API response
+   * @returns Power domain entity
+   */
+  static toDomain(response: ComicVinePowerResponse): Power {
+    return new Power({
+      id: new PowerId(response.id),
+      name: response.name,
+      description: cleanHtmlText(response.description),
+      characterIds: (response.characters ?? []).map(
+        (character) => new CharacterId(character.id),
+      ),
+    });
+  }
+}
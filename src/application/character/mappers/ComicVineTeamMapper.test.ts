@@ -0,0 +1,76 @@
+/**
+ * ComicVineTeamMapper Unit Tests
+ *
+ * Tests for mapping Comic Vine team responses to Team entities:
+ * deck cleaning, image URL fallbacks and roster mapping.
+ */
+
+import { ComicVineTeamMapper } from "./ComicVineTeamMapper";
+import { Team } from "@domain/character/entities/Team";
+import { ComicVineTeamResponse } from "../dtos/ComicVineTeamDTO";
+
+describe("ComicVineTeamMapper", () => {
+  const createValidApiResponse = (
+    overrides?: Partial<ComicVineTeamResponse>,
+  ): ComicVineTeamResponse => ({
+    id: 3806,
+    name: "Avengers",
+    deck: "Earth's Mightiest Heroes",
+    image: {
+      original_url:
+        "https://comicvine.gamespot.com/a/uploads/original/11/11111/123456-avengers.jpg",
+    },
+    characters: [
+      { id: 1443, name: "Iron Man" },
+      { id: 1455, name: "Thor" },
+    ],
+    ...overrides,
+  });
+
+  describe("toDomain", () => {
+    it("maps complete API response to Team entity", () => {
+      // Act
+      const team = ComicVineTeamMapper.toDomain(createValidApiResponse());
+
+      // Assert
+      expect(team).toBeInstanceOf(Team);
+      expect(team.id.value).toBe(3806);
+      expect(team.name).toBe("Avengers");
+      expect(team.description).toBe("Earth's Mightiest Heroes");
+      expect(team.image.url).toBe(
+        "https://comicvine.gamespot.com/a/uploads/original/11/11111/123456-avengers.jpg",
+      );
+    });
+
+    it("keeps the roster in Comic Vine's order", () => {
+      const team = ComicVineTeamMapper.toDomain(createValidApiResponse());
+
+      expect(team.memberIds.map((id) => id.value)).toEqual([1443, 1455]);
+    });
+
+    it("strips HTML from the deck", () => {
+      const team = ComicVineTeamMapper.toDomain(
+        createValidApiResponse({ deck: "<p>Earth&#39;s <b>Mightiest</b></p>" }),
+      );
+
+      expect(team.description).toBe("Earth's Mightiest");
+    });
+
+    it("handles a missing deck and roster", () => {
+      const team = ComicVineTeamMapper.toDomain(
+        createValidApiResponse({ deck: null, characters: null }),
+      );
+
+      expect(team.hasDescription()).toBe(false);
+      expect(team.memberCount).toBe(0);
+    });
+
+    it("falls back to a placeholder image", () => {
+      const team = ComicVineTeamMapper.toDomain(
+        createValidApiResponse({ image: null }),
+      );
+
+      expect(team.image.url).toContain("placeholder");
+    });
+  });
+});
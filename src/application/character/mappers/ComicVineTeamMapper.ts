@@ -0,0 +1,39 @@
+import { Team } from "@domain/character/entities/Team";
+import { TeamId } from "@domain/character/valueObjects/TeamId";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { ComicVineTeamResponse } from "../dtos/ComicVineTeamDTO";
+import {
+  cleanHtmlText,
+  createCharacterImageUrl,
+} from "./comicVineCharacterFields";
+
+/**
+ * Comic Vine Team Mapper
+ *
+ * Transforms Comic Vine team responses to Team entities.
+ * The deck becomes the description; the roster keeps Comic Vine's order.
+ *
+ * @example
+ * ```typescript
+ * const team = ComicVineTeamMapper.toDomain(apiResponse);
+ * ```
+ */
+export class ComicVineTeamMapper {
+  /**
+   * Transform a Comic Vine team response to a Team
+   *
+   * @param response - Raw Comic Vine API response
+   * @returns Team domain entity
+   */
+  static toDomain(response: ComicVineTeamResponse): Team {
+    return new Team({
+      id: new TeamId(response.id),
+      name: response.name,
+      description: cleanHtmlText(response.deck),
+      image: createCharacterImageUrl(response.image),
+      memberIds: (response.characters ?? []).map(
+        (member) => new CharacterId(member.id),
+      ),
+    });
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * FavoriteSnapshotMapper Unit Tests
+ *
+ * Tests for rebuilding CharacterSummary entities from stored favorite snapshots.
+ */
+
+import { FavoriteSnapshotMapper } from "./FavoriteSnapshotMapper";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { FavoriteSnapshot } from "@domain/character/ports/FavoritesRepository";
+
+describe("FavoriteSnapshotMapper", () => {
+  const createSnapshot = (
+    overrides?: Partial<FavoriteSnapshot>,
+  ): FavoriteSnapshot => ({
+    id: new CharacterId(1443),
+    name: "Spider-Man",
+    thumbnailUrl:
+      "https://comicvine.gamespot.com/a/uploads/scale_medium/12/124259/8126579-amazing_spider-man_vol_5_54_stormbreakers_variant_textless.jpg",
+    description: "Bitten by a radioactive spider",
+    addedAt: new Date("2024-01-01T00:00:00.000Z"),
+    ...overrides,
+  });
+
+  describe("toDomain", () => {
+    it("should rebuild a character from a snapshot", () => {
+      const snapshot = createSnapshot();
+
+      const character = FavoriteSnapshotMapper.toDomain(snapshot);
+
+      expect(character).toBeInstanceOf(CharacterSummary);
+      expect(character?.id.value).toBe(1443);
+      expect(character?.name.value).toBe("Spider-Man");
+      expect(character?.deck).toBe("Bitten by a radioactive spider");
+      expect(character?.getThumbnailUrl("portrait_uncanny")).toBe(
+        snapshot.thumbnailUrl,
+      );
+    });
+
+    it("should default to jpg for thumbnails without extension", () => {
+      const character = FavoriteSnapshotMapper.toDomain(
+        createSnapshot({
+          thumbnailUrl: "https://comicvine.gamespot.com/a/uploads/original/1",
+        }),
+      );
+
+      expect(character?.thumbnail.extension).toBe("jpg");
+    });
+
+    it("should return null for snapshots without character data", () => {
+      expect(
+        FavoriteSnapshotMapper.toDomain(
+          createSnapshot({ name: "", thumbnailUrl: "" }),
+        ),
+      ).toBeNull();
+    });
+
+    it("should return null for snapshots the domain rejects", () => {
+      expect(
+        FavoriteSnapshotMapper.toDomain(
+          createSnapshot({ name: "x".repeat(500) }),
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("toDomainList", () => {
+    it("should skip incomplete snapshots and keep order", () => {
+      const characters = FavoriteSnapshotMapper.toDomainList([
+        createSnapshot({ id: new CharacterId(1), name: "Iron Man" }),
+        createSnapshot({ id: new CharacterId(2), name: "" }),
+        createSnapshot({ id: new CharacterId(3), name: "Thor" }),
+      ]);
+
+      expect(characters.map((c) => c.name.value)).toEqual(["Iron Man", "Thor"]);
+    });
+  });
+});
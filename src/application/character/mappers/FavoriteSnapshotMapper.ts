@@ -0,0 +1,64 @@
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
+import { FavoriteSnapshot } from "@domain/character/ports/FavoritesRepository";
+
+/**
+ * Favorite Snapshot Mapper
+ *
+ * Rebuilds CharacterSummary entities from stored favorite snapshots, so
+ * favorites can be rendered before (or without) the API.
+ *
+ * @example
+ * ```typescript
+ * const snapshots = await favoritesRepository.findAllSnapshots();
+ * const characters = FavoriteSnapshotMapper.toDomainList(snapshots);
+ * ```
+ */
+export class FavoriteSnapshotMapper {
+  /**
+   * Transform a snapshot to a CharacterSummary entity
+   *
+   * @param snapshot - Stored favorite snapshot
+   * @returns CharacterSummary, or null when the snapshot has no character data yet
+   */
+  static toDomain(snapshot: FavoriteSnapshot): CharacterSummary | null {
+    if (!snapshot.name.trim() || !snapshot.thumbnailUrl.trim()) {
+      return null;
+    }
+
+    try {
+      return new CharacterSummary({
+        id: snapshot.id,
+        name: new CharacterName(snapshot.name),
+        deck: snapshot.description,
+        thumbnail: this.createImageUrl(snapshot.thumbnailUrl),
+      });
+    } catch {
+      // Snapshot edited or corrupted in storage: wait for the API data instead
+      return null;
+    }
+  }
+
+  /**
+   * Transform snapshots to CharacterSummary entities, skipping incomplete ones
+   */
+  static toDomainList(snapshots: FavoriteSnapshot[]): CharacterSummary[] {
+    return snapshots
+      .map((snapshot) => this.toDomain(snapshot))
+      .filter((character): character is CharacterSummary => character !== null);
+  }
+
+  /**
+   * Split a stored thumbnail URL back into path and extension
+   */
+  private static createImageUrl(url: string): ImageUrl {
+    const match = url.match(/^(.+)\.(jpg|jpeg|png|gif)$/i);
+
+    if (match?.[1] && match[2]) {
+      return new ImageUrl(match[1], match[2]);
+    }
+
+    return new ImageUrl(url, "jpg");
+  }
+}
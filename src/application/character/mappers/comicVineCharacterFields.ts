@@ -0,0 +1,67 @@
+import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
+import { ComicVineImage } from "../dtos/ComicVineCharacterDTO";
+
+/**
+ * Clean HTML text from Comic Vine
+ * Strips HTML tags, entities, and extra whitespace
+ *
+ * @param html - HTML formatted text (description or deck)
+ * @returns Clean text
+ */
+export function cleanHtmlText(html: string | null | undefined): string {
+  if (!html) return "";
+
+  return (
+    html
+      // Remove HTML tags with space preservation
+      .replace(/<[^>]*>/g, " ")
+      // Decode common HTML entities
+      .replace(/&nbsp;/g, " ")
+      .replace(/&amp;/g, "&")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&#39;/g, "'")
+      // Remove extra whitespace
+      .replace(/\s+/g, " ")
+      .trim()
+  );
+}
+
+/**
+ * Create ImageUrl value object from Comic Vine image structure
+ *
+ * Comic Vine provides complete URLs, so we store them as-is without splitting.
+ *
+ * @param image - Comic Vine image object (null or missing for characters without art)
+ * @returns ImageUrl value object
+ */
+export function createCharacterImageUrl(
+  image: ComicVineImage | null | undefined,
+): ImageUrl {
+  // Use medium_url as default, fallback to original_url
+  const url = image?.medium_url || image?.screen_url || image?.original_url;
+
+  if (!url) {
+    // Return placeholder if no image (without extension in path)
+    return new ImageUrl(
+      "https://via.placeholder.com/300x450/2c3e50/ffffff",
+      "png",
+    );
+  }
+
+  // Comic Vine returns complete URLs: https://comicvine.gamespot.com/a/uploads/scale_medium/11/11111/123456-file.jpg
+  // Some URLs don't have extensions (e.g., ending with -latest), so we handle that
+  const lastDotIndex = url.lastIndexOf(".");
+
+  // Check if there's a valid extension (after last dot, should be 3-4 chars)
+  if (lastDotIndex > 0 && url.length - lastDotIndex <= 5) {
+    const extension = url.substring(lastDotIndex + 1);
+    const pathWithoutExtension = url.substring(0, lastDotIndex);
+    return new ImageUrl(pathWithoutExtension, extension);
+  }
+
+  // No extension found, use URL as-is and default to jpg
+  return new ImageUrl(url, "jpg");
+}
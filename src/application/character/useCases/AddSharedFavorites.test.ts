@@ -0,0 +1,70 @@
+/**
+ * AddSharedFavorites Tests
+ *
+ * Tests for adding the characters of a shared list to favorites.
+ */
+
+import { AddSharedFavorites } from "./AddSharedFavorites";
+import {
+  FavoriteSnapshot,
+  FavoritesRepository,
+} from "@domain/character/ports/FavoritesRepository";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
+
+describe("AddSharedFavorites", () => {
+  const now = new Date("2024-03-01T12:00:00.000Z");
+
+  let mockFavoritesRepository: jest.Mocked<FavoritesRepository>;
+  let useCase: AddSharedFavorites;
+
+  const snapshot = (id: number): FavoriteSnapshot => ({
+    id: new CharacterId(id),
+    name: `Character ${id}`,
+    thumbnailUrl: "",
+    description: "",
+    addedAt: new Date("2024-01-01"),
+  });
+
+  const character = (id: number) =>
+    new CharacterSummary({
+      id: new CharacterId(id),
+      name: new CharacterName(`Character ${id}`),
+      deck: "Shared character",
+      thumbnail: new ImageUrl("http://example.com/image", "jpg"),
+    });
+
+  beforeEach(() => {
+    mockFavoritesRepository = {
+      findAllSnapshots: jest.fn().mockResolvedValue([snapshot(1)]),
+      replaceAll: jest.fn(),
+    } as unknown as jest.Mocked<FavoritesRepository>;
+
+    useCase = new AddSharedFavorites(mockFavoritesRepository);
+  });
+
+  it("should add new characters after current favorites, with snapshots", async () => {
+    const result = await useCase.execute([character(1), character(2)], now);
+
+    expect(result).toEqual({ added: 1, alreadyFavorites: 1 });
+    expect(mockFavoritesRepository.replaceAll).toHaveBeenCalledWith([
+      snapshot(1),
+      {
+        id: new CharacterId(2),
+        name: "Character 2",
+        thumbnailUrl: character(2).getThumbnailUrl(),
+        description: "Shared character",
+        addedAt: now,
+      },
+    ]);
+  });
+
+  it("should not write when every character is a favorite already", async () => {
+    const result = await useCase.execute([character(1)], now);
+
+    expect(result).toEqual({ added: 0, alreadyFavorites: 1 });
+    expect(mockFavoritesRepository.replaceAll).not.toHaveBeenCalled();
+  });
+});
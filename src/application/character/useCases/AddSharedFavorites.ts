@@ -0,0 +1,65 @@
+import { FavoritesRepository } from "@domain/character/ports/FavoritesRepository";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+
+/**
+ * What adding a shared list did
+ */
+export interface AddSharedFavoritesResult {
+  added: number; // Characters that became favorites
+  alreadyFavorites: number; // Characters that were favorites already
+}
+
+/**
+ * Add Shared Favorites Use Case
+ *
+ * Adds the characters of a shared list to the current favorites.
+ *
+ * Business rules:
+ * - Current favorites are kept; only new characters are added
+ * - Added characters are snapshotted for offline display
+ * - Favorites are written at once (a single change notification)
+ *
+ * @example
+ * ```typescript
+ * const useCase = new AddSharedFavorites(favoritesRepository);
+ * const { added } = await useCase.execute(sharedCharacters);
+ * ```
+ */
+export class AddSharedFavorites {
+  constructor(private readonly favoritesRepository: FavoritesRepository) {}
+
+  /**
+   * Execute the use case
+   *
+   * @param characters - Characters of the shared list
+   * @param now - Date added for the new favorites
+   * @returns How many characters were added
+   * @throws {StorageError} When localStorage operation fails
+   */
+  async execute(
+    characters: CharacterSummary[],
+    now: Date = new Date(),
+  ): Promise<AddSharedFavoritesResult> {
+    const current = await this.favoritesRepository.findAllSnapshots();
+    const currentIds = new Set(current.map(({ id }) => id.value));
+
+    const added = characters
+      .filter(({ id }) => !currentIds.has(id.value))
+      .map((character) => ({
+        id: character.id,
+        name: character.name.value,
+        thumbnailUrl: character.getThumbnailUrl(),
+        description: character.deck,
+        addedAt: now,
+      }));
+
+    if (added.length > 0) {
+      await this.favoritesRepository.replaceAll([...current, ...added]);
+    }
+
+    return {
+      added: added.length,
+      alreadyFavorites: characters.length - added.length,
+    };
+  }
+}
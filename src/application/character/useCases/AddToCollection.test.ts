@@ -0,0 +1,106 @@
+/**
+ * AddToCollection Tests
+ *
+ * Tests for adding characters to collections, covering favorites
+ * synchronization, duplicates, and missing collections.
+ */
+
+import { AddToCollection } from "./AddToCollection";
+import { FavoriteCollectionsRepository } from "@domain/character/ports/FavoriteCollectionsRepository";
+import { FavoritesRepository } from "@domain/character/ports/FavoritesRepository";
+import { FavoriteCollection } from "@domain/character/entities/FavoriteCollection";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
+
+describe("AddToCollection", () => {
+  let useCase: AddToCollection;
+  let mockCollectionsRepository: jest.Mocked<FavoriteCollectionsRepository>;
+  let mockFavoritesRepository: jest.Mocked<FavoritesRepository>;
+  let collection: FavoriteCollection;
+
+  const spiderMan = new CharacterSummary({
+    id: new CharacterId(1009610),
+    name: new CharacterName("Spider-Man"),
+    deck: "Friendly neighborhood Spider-Man",
+    thumbnail: new ImageUrl("http://example.com/spiderman", "jpg"),
+  });
+
+  beforeEach(() => {
+    collection = new FavoriteCollection({
+      id: "c_1",
+      name: "Avengers roster",
+      createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    });
+
+    mockCollectionsRepository = {
+      findAll: jest.fn(),
+      findById: jest.fn().mockResolvedValue(collection),
+      save: jest.fn(),
+      delete: jest.fn(),
+      subscribe: jest.fn(),
+    } as jest.Mocked<FavoriteCollectionsRepository>;
+
+    mockFavoritesRepository = {
+      add: jest.fn(),
+      remove: jest.fn(),
+      findAll: jest.fn(),
+      contains: jest.fn().mockResolvedValue(true),
+      count: jest.fn(),
+      clear: jest.fn(),
+      replaceAll: jest.fn(),
+      findAllSnapshots: jest.fn(),
+      updateSnapshots: jest.fn(),
+      subscribe: jest.fn(),
+    } as jest.Mocked<FavoritesRepository>;
+
+    useCase = new AddToCollection(
+      mockCollectionsRepository,
+      mockFavoritesRepository,
+    );
+  });
+
+  it("should add the character and save the collection", async () => {
+    const result = await useCase.execute("c_1", 1009610);
+
+    expect(result.contains(new CharacterId(1009610))).toBe(true);
+    expect(mockCollectionsRepository.save).toHaveBeenCalledWith(result);
+  });
+
+  it("should favorite the character when it is not a favorite yet", async () => {
+    mockFavoritesRepository.contains.mockResolvedValue(false);
+
+    await useCase.execute("c_1", 1009610, spiderMan);
+
+    expect(mockFavoritesRepository.add).toHaveBeenCalledWith(
+      new CharacterId(1009610),
+      spiderMan,
+    );
+  });
+
+  it("should not re-add an existing favorite", async () => {
+    await useCase.execute("c_1", 1009610, spiderMan);
+
+    expect(mockFavoritesRepository.add).not.toHaveBeenCalled();
+  });
+
+  it("should not save when the character is already in the collection", async () => {
+    mockCollectionsRepository.findById.mockResolvedValue(
+      collection.withCharacter(new CharacterId(1009610)),
+    );
+
+    await useCase.execute("c_1", 1009610);
+
+    expect(mockCollectionsRepository.save).not.toHaveBeenCalled();
+  });
+
+  it("should throw error when the collection does not exist", async () => {
+    mockCollectionsRepository.findById.mockResolvedValue(null);
+
+    await expect(useCase.execute("missing", 1009610)).rejects.toThrow(
+      "Collection not found: missing",
+    );
+    expect(mockFavoritesRepository.add).not.toHaveBeenCalled();
+  });
+});
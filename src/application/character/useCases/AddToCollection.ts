@@ -0,0 +1,62 @@
+import { FavoriteCollectionsRepository } from "@domain/character/ports/FavoriteCollectionsRepository";
+import { FavoritesRepository } from "@domain/character/ports/FavoritesRepository";
+import { FavoriteCollection } from "@domain/character/entities/FavoriteCollection";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+
+/**
+ * Add To Collection Use Case
+ *
+ * Adds a character to a named collection.
+ *
+ * Business rules:
+ * - The character is also added to favorites (collections organize favorites)
+ * - Adding a character already in the collection keeps its notes and tags
+ * - The collection must exist
+ *
+ * @example
+ * ```typescript
+ * const useCase = new AddToCollection(collectionsRepository, favoritesRepository);
+ * await useCase.execute('c_lq2x8k3f_4g7a', 1455, character);
+ * ```
+ */
+export class AddToCollection {
+  constructor(
+    private readonly collectionsRepository: FavoriteCollectionsRepository,
+    private readonly favoritesRepository: FavoritesRepository,
+  ) {}
+
+  /**
+   * Execute the use case
+   *
+   * @param collectionId - Collection ID
+   * @param characterId - Character ID (number)
+   * @param character - Character data to snapshot if it becomes a favorite (optional)
+   * @returns The updated collection
+   * @throws {Error} When the collection doesn't exist
+   * @throws {StorageError} When localStorage operation fails
+   */
+  async execute(
+    collectionId: string,
+    characterId: number,
+    character?: CharacterSummary,
+  ): Promise<FavoriteCollection> {
+    const id = new CharacterId(characterId);
+    const collection = await this.collectionsRepository.findById(collectionId);
+
+    if (!collection) {
+      throw new Error(`Collection not found: ${collectionId}`);
+    }
+
+    if (!(await this.favoritesRepository.contains(id))) {
+      await this.favoritesRepository.add(id, character);
+    }
+
+    const updated = collection.withCharacter(id);
+    if (updated !== collection) {
+      await this.collectionsRepository.save(updated);
+    }
+
+    return updated;
+  }
+}
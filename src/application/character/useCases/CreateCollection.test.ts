@@ -0,0 +1,64 @@
+/**
+ * CreateCollection Tests
+ *
+ * Tests for creating collections, covering validation and name uniqueness.
+ */
+
+import { CreateCollection } from "./CreateCollection";
+import { FavoriteCollectionsRepository } from "@domain/character/ports/FavoriteCollectionsRepository";
+import { FavoriteCollection } from "@domain/character/entities/FavoriteCollection";
+
+describe("CreateCollection", () => {
+  let useCase: CreateCollection;
+  let mockCollectionsRepository: jest.Mocked<FavoriteCollectionsRepository>;
+
+  beforeEach(() => {
+    mockCollectionsRepository = {
+      findAll: jest.fn().mockResolvedValue([]),
+      findById: jest.fn(),
+      save: jest.fn(),
+      delete: jest.fn(),
+      subscribe: jest.fn(),
+    } as jest.Mocked<FavoriteCollectionsRepository>;
+
+    useCase = new CreateCollection(mockCollectionsRepository, () => "c_test");
+  });
+
+  it("should create and save an empty collection", async () => {
+    const collection = await useCase.execute("  X-Men villains ");
+
+    expect(collection.id).toBe("c_test");
+    expect(collection.name).toBe("X-Men villains");
+    expect(collection.size).toBe(0);
+    expect(mockCollectionsRepository.save).toHaveBeenCalledWith(collection);
+  });
+
+  it("should generate an ID by default", async () => {
+    const collection = await new CreateCollection(
+      mockCollectionsRepository,
+    ).execute("X-Men villains");
+
+    expect(collection.id).toMatch(/^c_/);
+  });
+
+  it("should throw error when the name is already used", async () => {
+    mockCollectionsRepository.findAll.mockResolvedValue([
+      new FavoriteCollection({
+        id: "c_1",
+        name: "X-Men Villains",
+        createdAt: new Date(),
+      }),
+    ]);
+
+    await expect(useCase.execute("x-men villains")).rejects.toThrow(
+      'A collection named "x-men villains" already exists',
+    );
+    expect(mockCollectionsRepository.save).not.toHaveBeenCalled();
+  });
+
+  it("should throw error for an empty name", async () => {
+    await expect(useCase.execute("")).rejects.toThrow(
+      "Collection name cannot be empty",
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import { FavoriteCollectionsRepository } from "@domain/character/ports/FavoriteCollectionsRepository";
+import { FavoriteCollection } from "@domain/character/entities/FavoriteCollection";
+
+/**
+ * Default collection ID: time-ordered and unique enough for local data
+ * e.g. 'c_lq2x8k3f_4g7a'
+ */
+function createCollectionId(): string {
+  return `c_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Create Collection Use Case
+ *
+ * Creates a new, empty named collection.
+ *
+ * Business rules:
+ * - Name is required and at most 60 characters
+ * - Names are unique (case-insensitive)
+ *
+ * @example
+ * ```typescript
+ * const useCase = new CreateCollection(collectionsRepository);
+ * const collection = await useCase.execute('Avengers roster');
+ * ```
+ */
+export class CreateCollection {
+  constructor(
+    private readonly collectionsRepository: FavoriteCollectionsRepository,
+    private readonly generateId: () => string = createCollectionId,
+  ) {}
+
+  /**
+   * Execute the use case
+   *
+   * @param name - Collection name
+   * @returns The new collection
+   * @throws {Error} When the name is invalid or already used
+   * @throws {StorageError} When localStorage operation fails
+   */
+  async execute(name: string): Promise<FavoriteCollection> {
+    const collection = new FavoriteCollection({
+      id: this.generateId(),
+      name,
+      createdAt: new Date(),
+    });
+
+    const existing = await this.collectionsRepository.findAll();
+    if (existing.some((other) => other.hasName(collection.name))) {
+      throw new Error(`A collection named "${collection.name}" already exists`);
+    }
+
+    await this.collectionsRepository.save(collection);
+    return collection;
+  }
+}
@@ -0,0 +1,32 @@
+import { FavoriteCollectionsRepository } from "@domain/character/ports/FavoriteCollectionsRepository";
+
+/**
+ * Delete Collection Use Case
+ *
+ * Deletes a collection with its notes and tags.
+ *
+ * Business rules:
+ * - Characters stay in favorites
+ * - Deleting a missing collection is a no-op
+ *
+ * @example
+ * ```typescript
+ * const useCase = new DeleteCollection(collectionsRepository);
+ * await useCase.execute('c_lq2x8k3f_4g7a');
+ * ```
+ */
+export class DeleteCollection {
+  constructor(
+    private readonly collectionsRepository: FavoriteCollectionsRepository,
+  ) {}
+
+  /**
+   * Execute the use case
+   *
+   * @param collectionId - Collection ID
+   * @throws {StorageError} When localStorage operation fails
+   */
+  async execute(collectionId: string): Promise<void> {
+    await this.collectionsRepository.delete(collectionId);
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * ExportFavorites Tests
+ *
+ * Tests for exporting favorites to a downloadable file.
+ */
+
+import { ExportFavorites } from "./ExportFavorites";
+import {
+  FavoriteSnapshot,
+  FavoritesRepository,
+} from "@domain/character/ports/FavoritesRepository";
+import { FavoritesFileCodec } from "@domain/character/ports/FavoritesFileCodec";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+
+describe("ExportFavorites", () => {
+  const snapshots: FavoriteSnapshot[] = [
+    {
+      id: new CharacterId(1009610),
+      name: "Spider-Man",
+      thumbnailUrl: "https://example.com/spiderman.jpg",
+      description: "Friendly neighborhood Spider-Man",
+      addedAt: new Date("2024-01-01T00:00:00.000Z"),
+    },
+  ];
+
+  let useCase: ExportFavorites;
+  let mockCodec: jest.Mocked<FavoritesFileCodec>;
+
+  beforeEach(() => {
+    const mockFavoritesRepository = {
+      findAllSnapshots: jest.fn().mockResolvedValue(snapshots),
+    } as unknown as jest.Mocked<FavoritesRepository>;
+
+    mockCodec = {
+      encode: jest.fn().mockReturnValue("encoded"),
+      decode: jest.fn(),
+    };
+
+    useCase = new ExportFavorites(mockFavoritesRepository, mockCodec);
+  });
+
+  it("should encode every favorite snapshot", async () => {
+    const result = await useCase.execute("json");
+
+    expect(mockCodec.encode).toHaveBeenCalledWith(snapshots, "json");
+    expect(result.content).toBe("encoded");
+    expect(result.count).toBe(1);
+  });
+
+  it("should name the file after the export date and format", async () => {
+    const now = new Date("2024-03-01T12:00:00.000Z");
+
+    const json = await useCase.execute("json", now);
+    const csv = await useCase.execute("csv", now);
+
+    expect(json).toMatchObject({
+      fileName: "marvel-favorites-2024-03-01.json",
+      mimeType: "application/json",
+    });
+    expect(csv).toMatchObject({
+      fileName: "marvel-favorites-2024-03-01.csv",
+      mimeType: "text/csv",
+    });
+  });
+});
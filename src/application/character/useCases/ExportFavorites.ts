@@ -0,0 +1,61 @@
+import { FavoritesRepository } from "@domain/character/ports/FavoritesRepository";
+import {
+  FavoritesFileCodec,
+  FavoritesFileFormat,
+} from "@domain/character/ports/FavoritesFileCodec";
+
+/**
+ * Exported favorites file, ready to download
+ */
+export interface FavoritesExport {
+  content: string;
+  fileName: string; // e.g. 'marvel-favorites-2024-01-31.json'
+  mimeType: string;
+  count: number; // Number of favorites in the file
+}
+
+const MIME_TYPES: Record<FavoritesFileFormat, string> = {
+  json: "application/json",
+  csv: "text/csv",
+};
+
+/**
+ * Export Favorites Use Case
+ *
+ * Writes every favorite, with its snapshot and date added, to a file that can
+ * be imported back (backup, or moving favorites to another browser).
+ *
+ * @example
+ * ```typescript
+ * const useCase = new ExportFavorites(favoritesRepository, codec);
+ * const { content, fileName, mimeType } = await useCase.execute('csv');
+ * ```
+ */
+export class ExportFavorites {
+  constructor(
+    private readonly favoritesRepository: FavoritesRepository,
+    private readonly codec: FavoritesFileCodec,
+  ) {}
+
+  /**
+   * Execute the use case
+   *
+   * @param format - File format (versioned JSON or CSV)
+   * @param now - Export date, used in the file name
+   * @returns File content and metadata
+   * @throws {StorageError} When localStorage operation fails
+   */
+  async execute(
+    format: FavoritesFileFormat,
+    now: Date = new Date(),
+  ): Promise<FavoritesExport> {
+    const favorites = await this.favoritesRepository.findAllSnapshots();
+
+    return {
+      content: this.codec.encode(favorites, format),
+      fileName: `marvel-favorites-${now.toISOString().slice(0, 10)}.${format}`,
+      mimeType: MIME_TYPES[format],
+      count: favorites.length,
+    };
+  }
+}
@@ -1,40 +1,40 @@
 import { FilterCharacters } from "./FilterCharacters";
-import { Character } from "@domain/character/entities/Character";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
 import { CharacterId } from "@domain/character/valueObjects/CharacterId";
 import { CharacterName } from "@domain/character/valueObjects/CharacterName";
 import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
 
 describe("FilterCharacters Use Case", () => {
   let useCase: FilterCharacters;
-  let mockCharacters: Character[];
+  let mockCharacters: CharacterSummary[];
 
   beforeEach(() => {
     useCase = new FilterCharacters();
 
     // Create mock characters
     mockCharacters = [
-      new Character({
+      new CharacterSummary({
         id: new CharacterId(1),
         name: new CharacterName("Spider-Man"),
-        description: "Friendly neighborhood hero",
+        deck: "Friendly neighborhood hero",
         thumbnail: new ImageUrl("https://example.com/spiderman", "jpg"),
       }),
-      new Character({
+      new CharacterSummary({
         id: new CharacterId(2),
         name: new CharacterName("Iron Man"),
-        description: "Genius billionaire",
+        deck: "Genius billionaire",
         thumbnail: new ImageUrl("https://example.com/ironman", "jpg"),
       }),
-      new Character({
+      new CharacterSummary({
         id: new CharacterId(3),
         name: new CharacterName("Captain America"),
-        description: "Super soldier",
+        deck: "Super soldier",
         thumbnail: new ImageUrl("https://example.com/cap", "jpg"),
       }),
-      new Character({
+      new CharacterSummary({
         id: new CharacterId(4),
         name: new CharacterName("Spider-Woman"),
-        description: "Jessica Drew",
+        deck: "Jessica Drew",
         thumbnail: new ImageUrl("https://example.com/spiderwoman", "jpg"),
       }),
     ];
@@ -1,4 +1,4 @@
-import { Character } from "@domain/character/entities/Character";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
 
 /**
  * Filter Characters Use Case
@@ -27,7 +27,7 @@ export class FilterCharacters {
    * @param query - Search query (name filter)
    * @returns Filtered list of characters
    */
-  execute(characters: Character[], query: string): Character[] {
+  execute(characters: CharacterSummary[], query: string): CharacterSummary[] {
     // Trim and normalize query
     const normalizedQuery = query.trim().toLowerCase();
 
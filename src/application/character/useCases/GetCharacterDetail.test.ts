@@ -10,7 +10,7 @@ import {
   CharacterNotFoundError,
 } from "./GetCharacterDetail";
 import { CharacterRepository } from "@domain/character/ports/CharacterRepository";
-import { Character } from "@domain/character/entities/Character";
+import { CharacterDetail } from "@domain/character/entities/CharacterDetail";
 import { CharacterId } from "@domain/character/valueObjects/CharacterId";
 import { CharacterName } from "@domain/character/valueObjects/CharacterName";
 import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
@@ -18,11 +18,11 @@ import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
 describe("GetCharacterDetail", () => {
   let useCase: GetCharacterDetail;
   let mockRepository: jest.Mocked<CharacterRepository>;
-  let mockCharacter: Character;
+  let mockCharacter: CharacterDetail;
 
   beforeEach(() => {
     // Create mock character
-    mockCharacter = new Character({
+    mockCharacter = new CharacterDetail({
       id: new CharacterId(1009610),
       name: new CharacterName("Spider-Man"),
       description: "Friendly neighborhood Spider-Man",
@@ -32,6 +32,8 @@ describe("GetCharacterDetail", () => {
     // Create mock repository
     mockRepository = {
       findById: jest.fn(),
+      findRelationships: jest.fn(),
+      findManyByIds: jest.fn(),
       searchByName: jest.fn(),
       list: jest.fn(),
       findMany: jest.fn(),
@@ -64,7 +66,7 @@ describe("GetCharacterDetail", () => {
       });
 
       it("should handle different character IDs", async () => {
-        const differentCharacter = new Character({
+        const differentCharacter = new CharacterDetail({
           id: new CharacterId(999),
           name: new CharacterName("Iron Man"),
           description: "Genius billionaire",
@@ -188,7 +190,7 @@ describe("GetCharacterDetail", () => {
 
       it("should handle very large character IDs", async () => {
         const largeId = 9999999999;
-        const character = new Character({
+        const character = new CharacterDetail({
           id: new CharacterId(largeId),
           name: new CharacterName("Test"),
           description: "Test",
@@ -240,7 +242,7 @@ describe("GetCharacterDetail", () => {
       });
 
       it("should work with minimal character data", async () => {
-        const minimalCharacter = new Character({
+        const minimalCharacter = new CharacterDetail({
           id: new CharacterId(1),
           name: new CharacterName("A"),
           description: "",
@@ -256,7 +258,7 @@ describe("GetCharacterDetail", () => {
       });
 
       it("should work with character with special characters in name", async () => {
-        const character = new Character({
+        const character = new CharacterDetail({
           id: new CharacterId(1),
           name: new CharacterName("Spider-Man (Peter Parker)"),
           description: "Test",
@@ -1,5 +1,5 @@
 import { CharacterRepository } from "@domain/character/ports/CharacterRepository";
-import { Character } from "@domain/character/entities/Character";
+import { CharacterDetail } from "@domain/character/entities/CharacterDetail";
 import { CharacterId } from "@domain/character/valueObjects/CharacterId";
 
 /**
@@ -20,7 +20,7 @@ export class CharacterNotFoundError extends Error {
  * Business rules:
  * - Throws error if character doesn't exist
  * - Results are cached for performance
- * - Returns full character entity
+ * - Returns the character's profile (character plus biographical facts)
  *
  * @example
  * ```typescript
@@ -36,11 +36,11 @@ export class GetCharacterDetail {
    * Execute the use case
    *
    * @param characterId - Character ID (number)
-   * @returns Character entity
+   * @returns Character profile
    * @throws {CharacterNotFoundError} When character doesn't exist
    * @throws {ApiError} When the Marvel API request fails
    */
-  async execute(characterId: number): Promise<Character> {
+  async execute(characterId: number): Promise<CharacterDetail> {
     const id = new CharacterId(characterId);
     const character = await this.characterRepositoryP.findById(id);
 
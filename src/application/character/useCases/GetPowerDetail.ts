@@ -0,0 +1,51 @@
+import { PowerRepository } from "@domain/character/ports/PowerRepository";
+import { Power } from "@domain/character/entities/Power";
+import { PowerId } from "@domain/character/valueObjects/PowerId";
+
+/**
+ * Power not found error
+ */
+export class PowerNotFoundError extends Error {
+  constructor(powerId: number) {
+    super(`Power with ID ${powerId} not found`);
+    this.name = "PowerNotFoundError";
+  }
+}
+
+/**
+ * Get Power Detail Use Case
+ *
+ * Retrieves a single power with the IDs of the characters that have it.
+ *
+ * Business rules:
+ * - Throws error if power doesn't exist
+ * - Results are cached for performance
+ *
+ * @example
+ * ```typescript
+ * const useCase = new GetPowerDetail(powerRepository);
+ * const power = await useCase.execute(1135); // Telepathy
+ * console.log(power.name);
+ * ```
+ */
+export class GetPowerDetail {
+  constructor(private readonly powerRepository: PowerRepository) {}
+
+  /**
+   * Execute the use case
+   *
+   * @param powerId - Power ID (number)
+   * @returns Power
+   * @throws {PowerNotFoundError} When power doesn't exist
+   * @throws {ApiError} When the API request fails
+   */
+  async execute(powerId: number): Promise<Power> {
+    const power = await this.powerRepository.findById(new PowerId(powerId));
+
+    if (!power) {
+      throw new PowerNotFoundError(powerId);
+    }
+
+    return power;
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * GetSharedList Tests
+ *
+ * Tests for loading the characters of a shared link.
+ */
+
+import { GetSharedList } from "./GetSharedList";
+import { CharacterRepository } from "@domain/character/ports/CharacterRepository";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
+import {
+  InvalidSharedListError,
+  SharedList,
+} from "@domain/character/valueObjects/SharedList";
+
+describe("GetSharedList", () => {
+  let mockCharacterRepository: jest.Mocked<CharacterRepository>;
+  let useCase: GetSharedList;
+
+  const character = (id: number) =>
+    new CharacterSummary({
+      id: new CharacterId(id),
+      name: new CharacterName(`Character ${id}`),
+      deck: "",
+      thumbnail: new ImageUrl("http://example.com/image", "jpg"),
+    });
+
+  const payloadOf = (...ids: number[]) =>
+    SharedList.of(ids.map((id) => new CharacterId(id))).encode();
+
+  beforeEach(() => {
+    mockCharacterRepository = {
+      findById: jest.fn(),
+      findRelationships: jest.fn(),
+      findManyByIds: jest.fn(),
+      searchByName: jest.fn(),
+      findMany: jest.fn(),
+      getComicsByIds: jest.fn(),
+    } as jest.Mocked<CharacterRepository>;
+
+    useCase = new GetSharedList(mockCharacterRepository);
+  });
+
+  it("should return characters in shared order", async () => {
+    mockCharacterRepository.findManyByIds.mockResolvedValue({
+      found: [character(2), character(1)],
+      notFound: [],
+      failed: [],
+    });
+
+    const result = await useCase.execute(payloadOf(1, 2));
+
+    expect(mockCharacterRepository.findManyByIds).toHaveBeenCalledWith([
+      new CharacterId(1),
+      new CharacterId(2),
+    ]);
+    expect(result.characters.map(({ id }) => id.value)).toEqual([1, 2]);
+  });
+
+  it("should report characters that weren't found or loaded", async () => {
+    mockCharacterRepository.findManyByIds.mockResolvedValue({
+      found: [character(1)],
+      notFound: [new CharacterId(2)],
+      failed: [new CharacterId(3)],
+    });
+
+    const result = await useCase.execute(payloadOf(1, 2, 3));
+
+    expect(result).toMatchObject({ notFound: [2], failed: [3] });
+  });
+
+  it("should reject invalid payloads without calling the API", async () => {
+    await expect(useCase.execute("not-a-list")).rejects.toThrow(
+      InvalidSharedListError,
+    );
+    expect(mockCharacterRepository.findManyByIds).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,55 @@
+import { CharacterRepository } from "@domain/character/ports/CharacterRepository";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { SharedList } from "@domain/character/valueObjects/SharedList";
+
+/**
+ * Characters of a shared list
+ */
+export interface SharedListCharacters {
+  characters: CharacterSummary[]; // In list order
+  notFound: number[]; // IDs with no matching character
+  failed: number[]; // IDs that couldn't be loaded (API errors)
+}
+
+/**
+ * Get Shared List Use Case
+ *
+ * Reads a shared link payload and loads its characters.
+ *
+ * Business rules:
+ * - Invalid or tampered payloads are rejected before any API call
+ * - Characters are returned in the order they were shared
+ * - Missing characters are reported, not fatal
+ *
+ * @example
+ * ```typescript
+ * const useCase = new GetSharedList(characterRepository);
+ * const { characters, notFound } = await useCase.execute(payload);
+ * ```
+ */
+export class GetSharedList {
+  constructor(private readonly characterRepository: CharacterRepository) {}
+
+  /**
+   * Execute the use case
+   *
+   * @param payload - Value of the `list` parameter of the shared link
+   * @returns Characters found and IDs that weren't
+   * @throws {InvalidSharedListError} When the payload is invalid or tampered with
+   */
+  async execute(payload: string): Promise<SharedListCharacters> {
+    const list = SharedList.decode(payload);
+    const { found, notFound, failed } =
+      await this.characterRepository.findManyByIds([...list.ids]);
+
+    const byId = new Map(
+      found.map((character) => [character.id.value, character]),
+    );
+
+    return {
+      characters: list.ids.flatMap(({ value }) => byId.get(value) ?? []),
+      notFound: notFound.map(({ value }) => value),
+      failed: failed.map(({ value }) => value),
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import { TeamRepository } from "@domain/character/ports/TeamRepository";
+import { Team } from "@domain/character/entities/Team";
+import { TeamId } from "@domain/character/valueObjects/TeamId";
+
+/**
+ * Team not found error
+ */
+export class TeamNotFoundError extends Error {
+  constructor(teamId: number) {
+    super(`Team with ID ${teamId} not found`);
+    this.name = "TeamNotFoundError";
+  }
+}
+
+/**
+ * Get Team Detail Use Case
+ *
+ * Retrieves a single team with the IDs of its members.
+ *
+ * Business rules:
+ * - Throws error if team doesn't exist
+ * - Results are cached for performance
+ *
+ * @example
+ * ```typescript
+ * const useCase = new GetTeamDetail(teamRepository);
+ * const team = await useCase.execute(3806); // Avengers
+ * console.log(team.memberCount);
+ * ```
+ */
+export class GetTeamDetail {
+  constructor(private readonly teamRepository: TeamRepository) {}
+
+  /**
+   * Execute the use case
+   *
+   * @param teamId - Team ID (number)
+   * @returns Team
+   * @throws {TeamNotFoundError} When team doesn't exist
+   * @throws {ApiError} When the API request fails
+   */
+  async execute(teamId: number): Promise<Team> {
+    const team = await this.teamRepository.findById(new TeamId(teamId));
+
+    if (!team) {
+      throw new TeamNotFoundError(teamId);
+    }
+
+    return team;
+  }
+}
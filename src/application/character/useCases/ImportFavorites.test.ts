@@ -0,0 +1,218 @@
+/**
+ * ImportFavorites Tests
+ *
+ * Tests for importing favorites from a file, covering merge and replace
+ * modes, duplicates, unknown or unverifiable IDs, and unreadable files.
+ */
+
+import { ImportFavorites } from "./ImportFavorites";
+import { CharacterRepository } from "@domain/character/ports/CharacterRepository";
+import {
+  FavoriteSnapshot,
+  FavoritesRepository,
+} from "@domain/character/ports/FavoritesRepository";
+import { FavoritesFileCodec } from "@domain/character/ports/FavoritesFileCodec";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
+
+describe("ImportFavorites", () => {
+  let useCase: ImportFavorites;
+  let mockCharacterRepository: jest.Mocked<CharacterRepository>;
+  let mockFavoritesRepository: jest.Mocked<FavoritesRepository>;
+  let mockCodec: jest.Mocked<FavoritesFileCodec>;
+
+  const snapshot = (id: number, addedAt = "2024-01-01"): FavoriteSnapshot => ({
+    id: new CharacterId(id),
+    name: `Character ${id}`,
+    thumbnailUrl: "",
+    description: "",
+    addedAt: new Date(addedAt),
+  });
+
+  const character = (id: number) =>
+    new CharacterSummary({
+      id: new CharacterId(id),
+      name: new CharacterName(`Character ${id}`),
+      deck: "",
+      thumbnail: new ImageUrl("http://example.com/image", "jpg"),
+    });
+
+  const fileWith = (ids: number[], invalidRecords = 0) =>
+    mockCodec.decode.mockReturnValue({
+      favorites: ids.map((id) => snapshot(id, "2023-06-01")),
+      invalidRecords,
+      schemaVersion: 2,
+    });
+
+  const importedIds = () =>
+    mockFavoritesRepository.replaceAll.mock.calls[0]![0].map(
+      ({ id }) => id.value,
+    );
+
+  beforeEach(() => {
+    mockCharacterRepository = {
+      findById: jest.fn(),
+      findRelationships: jest.fn(),
+      findManyByIds: jest.fn(async (ids: CharacterId[]) => ({
+        found: ids.map(({ value }) => character(value)),
+        notFound: [],
+        failed: [],
+      })),
+      searchByName: jest.fn(),
+      findMany: jest.fn(),
+      getComicsByIds: jest.fn(),
+    } as jest.Mocked<CharacterRepository>;
+
+    mockFavoritesRepository = {
+      add: jest.fn(),
+      remove: jest.fn(),
+      findAll: jest.fn(),
+      contains: jest.fn(),
+      count: jest.fn(),
+      clear: jest.fn(),
+      replaceAll: jest.fn(),
+      findAllSnapshots: jest.fn().mockResolvedValue([snapshot(1), snapshot(2)]),
+      updateSnapshots: jest.fn(),
+      subscribe: jest.fn(),
+    } as jest.Mocked<FavoritesRepository>;
+
+    mockCodec = {
+      encode: jest.fn(),
+      decode: jest.fn(),
+    };
+
+    useCase = new ImportFavorites(
+      mockFavoritesRepository,
+      mockCharacterRepository,
+      mockCodec,
+    );
+  });
+
+  describe("Merge", () => {
+    it("should keep current favorites and add new ones", async () => {
+      fileWith([3, 4]);
+
+      const report = await useCase.execute("content", "json", "merge");
+
+      expect(mockCodec.decode).toHaveBeenCalledWith("content", "json");
+      expect(importedIds()).toEqual([1, 2, 3, 4]);
+      expect(report).toMatchObject({ imported: 2, total: 4, duplicates: [] });
+    });
+
+    it("should report current favorites and repeated IDs as duplicates", async () => {
+      fileWith([2, 3, 3]);
+
+      const report = await useCase.execute("content", "csv", "merge");
+
+      expect(importedIds()).toEqual([1, 2, 3]);
+      expect(report.duplicates).toEqual([2, 3]);
+      expect(report.imported).toBe(1);
+    });
+
+    it("should keep the dates added from the file", async () => {
+      fileWith([3]);
+
+      await useCase.execute("content", "json", "merge");
+
+      const imported = mockFavoritesRepository.replaceAll.mock.calls[0]![0];
+      expect(imported[2]!.addedAt).toEqual(new Date("2023-06-01"));
+    });
+  });
+
+  describe("Replace", () => {
+    it("should replace current favorites with the file's", async () => {
+      fileWith([2, 3]);
+
+      const report = await useCase.execute("content", "json", "replace");
+
+      expect(importedIds()).toEqual([2, 3]);
+      expect(report).toMatchObject({ imported: 1, total: 2, duplicates: [] });
+    });
+  });
+
+  describe("Verification", () => {
+    it("should skip unknown IDs", async () => {
+      fileWith([3, 999]);
+      mockCharacterRepository.findManyByIds.mockResolvedValue({
+        found: [character(3)],
+        notFound: [new CharacterId(999)],
+        failed: [],
+      });
+
+      const report = await useCase.execute("content", "json", "merge");
+
+      expect(importedIds()).toEqual([1, 2, 3]);
+      expect(report.unknownIds).toEqual([999]);
+    });
+
+    it("should only check new IDs in merge mode", async () => {
+      fileWith([1, 3]);
+
+      await useCase.execute("content", "json", "merge");
+
+      expect(mockCharacterRepository.findManyByIds).toHaveBeenCalledWith([
+        new CharacterId(3),
+      ]);
+    });
+
+    it("should import IDs that could not be checked", async () => {
+      fileWith([3]);
+      mockCharacterRepository.findManyByIds.mockResolvedValue({
+        found: [],
+        notFound: [],
+        failed: [new CharacterId(3)],
+      });
+
+      const report = await useCase.execute("content", "json", "merge");
+
+      expect(importedIds()).toEqual([1, 2, 3]);
+      expect(report.unverifiedIds).toEqual([3]);
+    });
+
+    it("should import everything unverified when the API fails", async () => {
+      fileWith([3, 4]);
+      mockCharacterRepository.findManyByIds.mockRejectedValue(
+        new Error("Network error"),
+      );
+
+      const report = await useCase.execute("content", "json", "merge");
+
+      expect(importedIds()).toEqual([1, 2, 3, 4]);
+      expect(report.unverifiedIds).toEqual([3, 4]);
+      expect(mockFavoritesRepository.updateSnapshots).not.toHaveBeenCalled();
+    });
+
+    it("should refresh snapshots with the characters found", async () => {
+      fileWith([3]);
+
+      await useCase.execute("content", "json", "merge");
+
+      expect(mockFavoritesRepository.updateSnapshots).toHaveBeenCalledWith([
+        character(3),
+      ]);
+    });
+  });
+
+  describe("Invalid files", () => {
+    it("should report unreadable records", async () => {
+      fileWith([3], 2);
+
+      const report = await useCase.execute("content", "csv", "merge");
+
+      expect(report.invalidRecords).toBe(2);
+    });
+
+    it("should not write anything when the file cannot be read", async () => {
+      mockCodec.decode.mockImplementation(() => {
+        throw new Error("File is not valid JSON");
+      });
+
+      await expect(
+        useCase.execute("{ nope", "json", "replace"),
+      ).rejects.toThrow("File is not valid JSON");
+      expect(mockFavoritesRepository.replaceAll).not.toHaveBeenCalled();
+    });
+  });
+});
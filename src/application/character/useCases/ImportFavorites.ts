@@ -0,0 +1,130 @@
+import {
+  CharacterRepository,
+  CharactersByIdResult,
+} from "@domain/character/ports/CharacterRepository";
+import {
+  FavoriteSnapshot,
+  FavoritesRepository,
+} from "@domain/character/ports/FavoritesRepository";
+import {
+  FavoritesFileCodec,
+  FavoritesFileFormat,
+} from "@domain/character/ports/FavoritesFileCodec";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+
+/**
+ * How imported favorites combine with the current ones
+ * - merge: keep current favorites, add the new ones
+ * - replace: favorites become exactly the imported ones
+ */
+export type ImportMode = "merge" | "replace";
+
+/**
+ * What an import did
+ */
+export interface ImportFavoritesReport {
+  imported: number; // Favorites added by the import
+  duplicates: number[]; // IDs repeated in the file, or already favorites (merge)
+  unknownIds: number[]; // IDs with no matching character (skipped)
+  unverifiedIds: number[]; // IDs that couldn't be checked (API unavailable), imported anyway
+  invalidRecords: number; // File entries or rows that couldn't be read
+  total: number; // Favorites after the import
+}
+
+/**
+ * Import Favorites Use Case
+ *
+ * Reads favorites from an exported file (JSON or CSV, any schema version)
+ * and merges them into, or replaces, the current favorites.
+ *
+ * Business rules:
+ * - Dates added and snapshots from the file are kept
+ * - IDs that don't match any character are skipped
+ * - When characters can't be checked (offline, rate limit), they're imported
+ *   anyway: a backup must be restorable without the API
+ * - Nothing is written when the file can't be read
+ *
+ * @example
+ * ```typescript
+ * const useCase = new ImportFavorites(favoritesRepository, characterRepository, codec);
+ * const report = await useCase.execute(fileContent, 'json', 'merge');
+ * ```
+ */
+export class ImportFavorites {
+  constructor(
+    private readonly favoritesRepository: FavoritesRepository,
+    private readonly characterRepository: CharacterRepository,
+    private readonly codec: FavoritesFileCodec,
+  ) {}
+
+  /**
+   * Execute the use case
+   *
+   * @param content - File content
+   * @param format - File format
+   * @param mode - Merge with or replace the current favorites
+   * @returns Import report
+   * @throws {Error} When the file isn't a favorites file
+   * @throws {StorageError} When localStorage operation fails
+   */
+  async execute(
+    content: string,
+    format: FavoritesFileFormat,
+    mode: ImportMode,
+  ): Promise<ImportFavoritesReport> {
+    const { favorites, invalidRecords } = this.codec.decode(content, format);
+    const current = await this.favoritesRepository.findAllSnapshots();
+    const currentIds = new Set(current.map(({ id }) => id.value));
+
+    // Unique candidates, in file order
+    const duplicates = new Set<number>();
+    const candidates = new Map<number, FavoriteSnapshot>();
+    for (const favorite of favorites) {
+      const id = favorite.id.value;
+      if (candidates.has(id) || (mode === "merge" && currentIds.has(id))) {
+        duplicates.add(id);
+      } else {
+        candidates.set(id, favorite);
+      }
+    }
+
+    const { found, notFound, failed } = await this.verify([
+      ...candidates.keys(),
+    ]);
+    notFound.forEach((id) => candidates.delete(id.value));
+
+    const accepted = [...candidates.values()];
+    const next = mode === "merge" ? [...current, ...accepted] : accepted;
+    await this.favoritesRepository.replaceAll(next);
+
+    // Fill in snapshots missing from older files with the fresh data
+    if (found.length > 0) {
+      await this.favoritesRepository.updateSnapshots(found);
+    }
+
+    return {
+      imported: accepted.filter(({ id }) => !currentIds.has(id.value)).length,
+      duplicates: [...duplicates],
+      unknownIds: notFound.map(({ value }) => value),
+      unverifiedIds: failed.map(({ value }) => value),
+      invalidRecords,
+      total: next.length,
+    };
+  }
+
+  /**
+   * Check which IDs match a character (all unverified when the API fails)
+   */
+  private async verify(ids: number[]): Promise<CharactersByIdResult> {
+    const characterIds = ids.map((id) => new CharacterId(id));
+    if (characterIds.length === 0) {
+      return { found: [], notFound: [], failed: [] };
+    }
+
+    try {
+      return await this.characterRepository.findManyByIds(characterIds);
+    } catch {
+      return { found: [], notFound: [], failed: characterIds };
+    }
+  }
+}
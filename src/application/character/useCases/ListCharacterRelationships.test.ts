@@ -0,0 +1,140 @@
+/**
+ * ListCharacterRelationships Tests
+ *
+ * Tests for loading a character's allies and enemies: order, the per-rail
+ * limit, a single batched lookup, missing characters and unknown characters.
+ */
+
+import { ListCharacterRelationships } from "./ListCharacterRelationships";
+import { CharacterNotFoundError } from "./GetCharacterDetail";
+import { CharacterRepository } from "@domain/character/ports/CharacterRepository";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { CharacterRelationships } from "@domain/character/valueObjects/CharacterRelationships";
+import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
+
+describe("ListCharacterRelationships", () => {
+  let useCase: ListCharacterRelationships;
+  let mockRepository: jest.Mocked<CharacterRepository>;
+
+  const character = (id: number) =>
+    new CharacterSummary({
+      id: new CharacterId(id),
+      name: new CharacterName(`Character ${id}`),
+      deck: "",
+      thumbnail: new ImageUrl("http://example.com/image", "jpg"),
+    });
+
+  const relationships = (allies: number[], enemies: number[]) =>
+    new CharacterRelationships({
+      characterId: new CharacterId(1699),
+      allies: allies.map((id) => new CharacterId(id)),
+      enemies: enemies.map((id) => new CharacterId(id)),
+    });
+
+  // Finds every requested ID except the given ones
+  const findAllExcept =
+    (...missing: number[]) =>
+    async (ids: CharacterId[]) => ({
+      found: ids
+        .filter(({ value }) => !missing.includes(value))
+        .map(({ value }) => character(value)),
+      notFound: ids.filter(({ value }) => missing.includes(value)),
+      failed: [],
+    });
+
+  beforeEach(() => {
+    mockRepository = {
+      findById: jest.fn(),
+      findRelationships: jest.fn(),
+      findManyByIds: jest.fn(),
+      searchByName: jest.fn(),
+      findMany: jest.fn(),
+      getComicsByIds: jest.fn(),
+    } as jest.Mocked<CharacterRepository>;
+
+    useCase = new ListCharacterRelationships(mockRepository);
+  });
+
+  it("should return allies and enemies in the order listed", async () => {
+    mockRepository.findRelationships.mockResolvedValue(
+      relationships([3, 1], [2]),
+    );
+    mockRepository.findManyByIds.mockImplementation(findAllExcept());
+
+    const result = await useCase.execute(1699);
+
+    expect(result.allies.map((c) => c.id.value)).toEqual([3, 1]);
+    expect(result.enemies.map((c) => c.id.value)).toEqual([2]);
+  });
+
+  it("should load both rails in a single lookup", async () => {
+    mockRepository.findRelationships.mockResolvedValue(
+      relationships([1, 2], [3]),
+    );
+    mockRepository.findManyByIds.mockImplementation(findAllExcept());
+
+    await useCase.execute(1699);
+
+    expect(mockRepository.findManyByIds).toHaveBeenCalledTimes(1);
+    expect(
+      mockRepository.findManyByIds.mock.calls[0]?.[0].map((id) => id.value),
+    ).toEqual([1, 2, 3]);
+  });
+
+  it("should load at most `limit` allies and enemies", async () => {
+    mockRepository.findRelationships.mockResolvedValue(
+      relationships([1, 2, 3], [4, 5, 6]),
+    );
+    mockRepository.findManyByIds.mockImplementation(findAllExcept());
+
+    const result = await useCase.execute(1699, { limit: 2 });
+
+    expect(result.allies.map((c) => c.id.value)).toEqual([1, 2]);
+    expect(result.enemies.map((c) => c.id.value)).toEqual([4, 5]);
+  });
+
+  it("should default to 20 of each", async () => {
+    const many = (from: number) =>
+      Array.from({ length: 30 }, (_, index) => from + index);
+    mockRepository.findRelationships.mockResolvedValue(
+      relationships(many(1), many(101)),
+    );
+    mockRepository.findManyByIds.mockImplementation(findAllExcept());
+
+    const result = await useCase.execute(1699);
+
+    expect(result.allies).toHaveLength(20);
+    expect(result.enemies).toHaveLength(20);
+  });
+
+  it("should leave out characters that weren't found", async () => {
+    mockRepository.findRelationships.mockResolvedValue(
+      relationships([1, 2], [3]),
+    );
+    mockRepository.findManyByIds.mockImplementation(findAllExcept(2, 3));
+
+    const result = await useCase.execute(1699);
+
+    expect(result.allies.map((c) => c.id.value)).toEqual([1]);
+    expect(result.enemies).toEqual([]);
+  });
+
+  it("should not look up characters when there are no relationships", async () => {
+    mockRepository.findRelationships.mockResolvedValue(relationships([], []));
+
+    const result = await useCase.execute(1699);
+
+    expect(result).toEqual({ allies: [], enemies: [] });
+    expect(mockRepository.findManyByIds).not.toHaveBeenCalled();
+  });
+
+  it("should throw CharacterNotFoundError when the character doesn't exist", async () => {
+    mockRepository.findRelationships.mockResolvedValue(null);
+
+    await expect(useCase.execute(99999)).rejects.toThrow(
+      CharacterNotFoundError,
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { CharacterRepository } from "@domain/character/ports/CharacterRepository";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterNotFoundError } from "./GetCharacterDetail";
+
+/**
+ * A character's allies and enemies
+ */
+export interface RelatedCharacters {
+  allies: CharacterSummary[]; // In the order Comic Vine lists them
+  enemies: CharacterSummary[];
+}
+
+/**
+ * List Character Relationships Use Case
+ *
+ * Loads the characters related to a character, in two steps:
+ * 1. Get the character's relationships (ally and enemy IDs)
+ * 2. Batch fetch the related characters' summaries by ID
+ *
+ * Business rules:
+ * - At most `limit` allies and `limit` enemies (default 20), so both rails
+ *   load in a single batch
+ * - Related characters that no longer exist are left out
+ * - Results are cached for performance
+ *
+ * @example
+ * ```typescript
+ * const useCase = new ListCharacterRelationships(repository);
+ * const { allies, enemies } = await useCase.execute(1699);
+ * ```
+ */
+export class ListCharacterRelationships {
+  constructor(private readonly characterRepository: CharacterRepository) {}
+
+  /**
+   * Execute the use case
+   *
+   * @param characterId - Character ID (number)
+   * @param options - Maximum allies and enemies to load (each)
+   * @returns Allies and enemies found
+   * @throws {CharacterNotFoundError} When character doesn't exist
+   * @throws {ApiError} When the API request fails
+   */
+  async execute(
+    characterId: number,
+    options: { limit?: number } = {},
+  ): Promise<RelatedCharacters> {
+    const { limit = 20 } = options;
+
+    // Step 1: Get ally and enemy IDs
+    const relationships = await this.characterRepository.findRelationships(
+      new CharacterId(characterId),
+    );
+
+    if (!relationships) {
+      throw new CharacterNotFoundError(characterId);
+    }
+
+    const allyIds = relationships.allies.slice(0, limit);
+    const enemyIds = relationships.enemies.slice(0, limit);
+
+    if (allyIds.length === 0 && enemyIds.length === 0) {
+      return { allies: [], enemies: [] };
+    }
+
+    // Step 2: Batch fetch both rails' summaries at once
+    const { found } = await this.characterRepository.findManyByIds([
+      ...allyIds,
+      ...enemyIds,
+    ]);
+    const byId = new Map(
+      found.map((character) => [character.id.value, character]),
+    );
+    const pick = (ids: CharacterId[]) =>
+      ids.flatMap(({ value }) => byId.get(value) ?? []);
+
+    return { allies: pick(allyIds), enemies: pick(enemyIds) };
+  }
+}
@@ -1,6 +1,6 @@
 import { ListCharacters } from "./ListCharacters";
 import { CharacterRepository } from "@domain/character/ports/CharacterRepository";
-import { Character } from "@domain/character/entities/Character";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
 import { CharacterId } from "@domain/character/valueObjects/CharacterId";
 import { CharacterName } from "@domain/character/valueObjects/CharacterName";
 import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
@@ -9,15 +9,17 @@ describe("ListCharacters Use Case", () => {
   const createMockRepository = (): jest.Mocked<CharacterRepository> => ({
     findMany: jest.fn(),
     findById: jest.fn(),
+    findRelationships: jest.fn(),
+    findManyByIds: jest.fn(),
     searchByName: jest.fn(),
     getComicsByIds: jest.fn(),
   });
 
-  const createMockCharacter = (id: number, name: string): Character =>
-    new Character({
+  const createMockCharacter = (id: number, name: string): CharacterSummary =>
+    new CharacterSummary({
       id: new CharacterId(id),
       name: new CharacterName(name),
-      description: "Test character",
+      deck: "Test character",
       thumbnail: new ImageUrl("http://example.com/image", "jpg"),
     });
 
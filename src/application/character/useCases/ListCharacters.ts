@@ -2,7 +2,7 @@ import {
   CharacterRepository,
   PaginatedResult,
 } from "@domain/character/ports/CharacterRepository";
-import { Character } from "@domain/character/entities/Character";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
 import { PAGINATION } from "@config/constants";
 
 /**
@@ -20,7 +20,7 @@ import { PAGINATION } from "@config/constants";
  * ```typescript
  * const useCase = new ListCharacters(repository);
  * const result = await useCase.execute({ limit: 50, offset: 0 });
- * console.log(result.items); // Character[]
+ * console.log(result.items); // CharacterSummary[]
  * console.log(result.total); // Total available characters
  * ```
  */
@@ -37,7 +37,7 @@ export class ListCharacters {
   async execute(params?: {
     limit?: number;
     offset?: number;
-  }): Promise<PaginatedResult<Character>> {
+  }): Promise<PaginatedResult<CharacterSummary>> {
     const limit = params?.limit ?? PAGINATION.DEFAULT_LIMIT;
     const offset = params?.offset ?? PAGINATION.DEFAULT_OFFSET;
 
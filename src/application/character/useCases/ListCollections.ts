@@ -0,0 +1,37 @@
+import { FavoriteCollectionsRepository } from "@domain/character/ports/FavoriteCollectionsRepository";
+import { FavoriteCollection } from "@domain/character/entities/FavoriteCollection";
+
+/**
+ * List Collections Use Case
+ *
+ * Retrieves the user's favorite collections.
+ *
+ * Business rules:
+ * - Oldest collection first (creation order)
+ * - Results can be empty if no collections
+ *
+ * @example
+ * ```typescript
+ * const useCase = new ListCollections(collectionsRepository);
+ * const collections = await useCase.execute();
+ * console.log(collections.map((c) => c.name)); // ['Avengers roster', 'X-Men villains']
+ * ```
+ */
+export class ListCollections {
+  constructor(
+    private readonly collectionsRepository: FavoriteCollectionsRepository,
+  ) {}
+
+  /**
+   * Execute the use case
+   *
+   * @returns Collections in creation order
+   * @throws {StorageError} When localStorage operation fails
+   */
+  async execute(): Promise<FavoriteCollection[]> {
+    const collections = await this.collectionsRepository.findAll();
+    return [...collections].sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+    );
+  }
+}
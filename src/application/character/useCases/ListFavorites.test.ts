@@ -8,7 +8,7 @@
 import { ListFavorites } from "./ListFavorites";
 import { CharacterRepository } from "@domain/character/ports/CharacterRepository";
 import { FavoritesRepository } from "@domain/character/ports/FavoritesRepository";
-import { Character } from "@domain/character/entities/Character";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
 import { CharacterId } from "@domain/character/valueObjects/CharacterId";
 import { CharacterName } from "@domain/character/valueObjects/CharacterName";
 import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
@@ -17,27 +17,27 @@ describe("ListFavorites", () => {
   let useCase: ListFavorites;
   let mockCharacterRepository: jest.Mocked<CharacterRepository>;
   let mockFavoritesRepository: jest.Mocked<FavoritesRepository>;
-  let mockCharacters: Character[];
+  let mockCharacters: CharacterSummary[];
 
   beforeEach(() => {
     // Create mock characters
     mockCharacters = [
-      new Character({
+      new CharacterSummary({
         id: new CharacterId(1009610),
         name: new CharacterName("Spider-Man"),
-        description: "Friendly neighborhood Spider-Man",
+        deck: "Friendly neighborhood Spider-Man",
         thumbnail: new ImageUrl("http://example.com/spiderman", "jpg"),
       }),
-      new Character({
+      new CharacterSummary({
         id: new CharacterId(1009368),
         name: new CharacterName("Iron Man"),
-        description: "Genius billionaire",
+        deck: "Genius billionaire",
         thumbnail: new ImageUrl("http://example.com/ironman", "jpg"),
       }),
-      new Character({
+      new CharacterSummary({
         id: new CharacterId(1009220),
         name: new CharacterName("Captain America"),
-        description: "Super soldier",
+        deck: "Super soldier",
         thumbnail: new ImageUrl("http://example.com/cap", "jpg"),
       }),
     ];
@@ -45,6 +45,8 @@ describe("ListFavorites", () => {
     // Create mock repositories
     mockCharacterRepository = {
       findById: jest.fn(),
+      findRelationships: jest.fn(),
+      findManyByIds: jest.fn(),
       searchByName: jest.fn(),
       list: jest.fn(),
       findMany: jest.fn(),
@@ -58,6 +60,10 @@ describe("ListFavorites", () => {
       contains: jest.fn(),
       count: jest.fn(),
       clear: jest.fn(),
+      replaceAll: jest.fn(),
+      findAllSnapshots: jest.fn().mockResolvedValue([]),
+      updateSnapshots: jest.fn().mockResolvedValue(undefined),
+      subscribe: jest.fn(),
     } as jest.Mocked<FavoritesRepository>;
 
     useCase = new ListFavorites(
@@ -74,7 +80,7 @@ describe("ListFavorites", () => {
         const result = await useCase.execute();
 
         expect(result).toEqual([]);
-        expect(mockCharacterRepository.findById).not.toHaveBeenCalled();
+        expect(mockCharacterRepository.findManyByIds).not.toHaveBeenCalled();
       });
 
       it("should call favoritesRepository.findAll", async () => {
@@ -84,213 +90,215 @@ describe("ListFavorites", () => {
 
         expect(mockFavoritesRepository.findAll).toHaveBeenCalledTimes(1);
       });
-
-      it("should not fetch characters when favorites are empty", async () => {
-        mockFavoritesRepository.findAll.mockResolvedValue([]);
-
-        await useCase.execute();
-
-        expect(mockCharacterRepository.findById).not.toHaveBeenCalled();
-      });
-    });
-
-    describe("Single favorite", () => {
-      it("should return single character when one favorite", async () => {
-        const favoriteId = new CharacterId(1009610);
-        mockFavoritesRepository.findAll.mockResolvedValue([favoriteId]);
-        mockCharacterRepository.findById.mockResolvedValue(mockCharacters[0]!);
-
-        const result = await useCase.execute();
-
-        expect(result).toHaveLength(1);
-        expect(result[0]).toBe(mockCharacters[0]);
-      });
-
-      it("should fetch character by ID", async () => {
-        const favoriteId = new CharacterId(1009610);
-        mockFavoritesRepository.findAll.mockResolvedValue([favoriteId]);
-        mockCharacterRepository.findById.mockResolvedValue(mockCharacters[0]!);
-
-        await useCase.execute();
-
-        expect(mockCharacterRepository.findById).toHaveBeenCalledWith(
-          favoriteId,
-        );
-      });
     });
 
-    describe("Multiple favorites", () => {
-      it("should return all favorited characters", async () => {
+    describe("Batch loading", () => {
+      it("should fetch all favorites with a single batch lookup", async () => {
         const favoriteIds = [
           new CharacterId(1009610),
           new CharacterId(1009368),
           new CharacterId(1009220),
         ];
         mockFavoritesRepository.findAll.mockResolvedValue(favoriteIds);
-        mockCharacterRepository.findById
-          .mockResolvedValueOnce(mockCharacters[0]!)
-          .mockResolvedValueOnce(mockCharacters[1]!)
-          .mockResolvedValueOnce(mockCharacters[2]!);
+        mockCharacterRepository.findManyByIds.mockResolvedValue({
+          found: mockCharacters,
+          notFound: [],
+          failed: [],
+        });
 
         const result = await useCase.execute();
 
-        expect(result).toHaveLength(3);
-        expect(result[0]).toBe(mockCharacters[0]);
-        expect(result[1]).toBe(mockCharacters[1]);
-        expect(result[2]).toBe(mockCharacters[2]);
-      });
-
-      it("should fetch all characters in parallel", async () => {
-        const favoriteIds = [
-          new CharacterId(1009610),
-          new CharacterId(1009368),
-        ];
-        mockFavoritesRepository.findAll.mockResolvedValue(favoriteIds);
-        mockCharacterRepository.findById.mockResolvedValue(mockCharacters[0]!);
-
-        await useCase.execute();
-
-        expect(mockCharacterRepository.findById).toHaveBeenCalledTimes(2);
+        expect(result).toEqual(mockCharacters);
+        expect(mockCharacterRepository.findManyByIds).toHaveBeenCalledTimes(1);
+        expect(mockCharacterRepository.findManyByIds).toHaveBeenCalledWith(
+          favoriteIds,
+        );
+        expect(mockCharacterRepository.findById).not.toHaveBeenCalled();
       });
 
-      it("should call findById for each favorite ID", async () => {
-        const favoriteIds = [
+      it("should maintain order of found characters", async () => {
+        mockFavoritesRepository.findAll.mockResolvedValue([
           new CharacterId(1009610),
           new CharacterId(1009368),
-        ];
-        mockFavoritesRepository.findAll.mockResolvedValue(favoriteIds);
-        mockCharacterRepository.findById
-          .mockResolvedValueOnce(mockCharacters[0]!)
-          .mockResolvedValueOnce(mockCharacters[1]!);
+        ]);
+        mockCharacterRepository.findManyByIds.mockResolvedValue({
+          found: [mockCharacters[0]!, mockCharacters[1]!],
+          notFound: [],
+          failed: [],
+        });
 
-        await useCase.execute();
+        const result = await useCase.execute();
 
-        expect(mockCharacterRepository.findById).toHaveBeenCalledWith(
-          favoriteIds[0],
-        );
-        expect(mockCharacterRepository.findById).toHaveBeenCalledWith(
-          favoriteIds[1],
-        );
+        expect(result[0]?.name.value).toBe("Spider-Man");
+        expect(result[1]?.name.value).toBe("Iron Man");
       });
     });
 
     describe("Error handling", () => {
-      it("should handle character not found", async () => {
-        const favoriteIds = [
+      it("should skip characters that are not found", async () => {
+        mockFavoritesRepository.findAll.mockResolvedValue([
           new CharacterId(1009610),
           new CharacterId(999999), // Doesn't exist
-        ];
-        mockFavoritesRepository.findAll.mockResolvedValue(favoriteIds);
-        mockCharacterRepository.findById
-          .mockResolvedValueOnce(mockCharacters[0]!)
-          .mockResolvedValueOnce(null);
+        ]);
+        mockCharacterRepository.findManyByIds.mockResolvedValue({
+          found: [mockCharacters[0]!],
+          notFound: [new CharacterId(999999)],
+          failed: [],
+        });
 
         const result = await useCase.execute();
 
-        expect(result).toHaveLength(1);
-        expect(result[0]).toBe(mockCharacters[0]);
+        expect(result).toEqual([mockCharacters[0]]);
       });
 
-      it("should handle fetch errors gracefully", async () => {
-        const favoriteIds = [
+      it("should skip characters that failed to fetch", async () => {
+        mockFavoritesRepository.findAll.mockResolvedValue([
           new CharacterId(1009610),
-          new CharacterId(1009368),
-        ];
-        mockFavoritesRepository.findAll.mockResolvedValue(favoriteIds);
-        mockCharacterRepository.findById
-          .mockResolvedValueOnce(mockCharacters[0]!)
-          .mockRejectedValueOnce(new Error("API Error"));
+        ]);
+        mockCharacterRepository.findManyByIds.mockResolvedValue({
+          found: [],
+          notFound: [],
+          failed: [new CharacterId(1009610)],
+        });
 
         const result = await useCase.execute();
 
-        expect(result).toHaveLength(1);
-        expect(result[0]).toBe(mockCharacters[0]);
+        expect(result).toEqual([]);
       });
 
-      it("should handle all characters failing to fetch", async () => {
-        const favoriteIds = [new CharacterId(1009610)];
-        mockFavoritesRepository.findAll.mockResolvedValue(favoriteIds);
-        mockCharacterRepository.findById.mockRejectedValue(
-          new Error("API Error"),
+      it("should propagate favoritesRepository errors", async () => {
+        mockFavoritesRepository.findAll.mockRejectedValue(
+          new Error("Storage error"),
         );
 
-        const result = await useCase.execute();
-
-        expect(result).toEqual([]);
+        await expect(useCase.execute()).rejects.toThrow("Storage error");
       });
 
-      it("should handle mix of success and failure", async () => {
-        const favoriteIds = [
+      it("should propagate cancellations", async () => {
+        mockFavoritesRepository.findAll.mockResolvedValue([
           new CharacterId(1009610),
-          new CharacterId(1009368),
-          new CharacterId(1009220),
-        ];
-        mockFavoritesRepository.findAll.mockResolvedValue(favoriteIds);
-        mockCharacterRepository.findById
-          .mockResolvedValueOnce(mockCharacters[0]!)
-          .mockRejectedValueOnce(new Error("Network error"))
-          .mockResolvedValueOnce(mockCharacters[2]!);
+        ]);
+        mockCharacterRepository.findManyByIds.mockRejectedValue(
+          new Error("Request was cancelled"),
+        );
 
-        const result = await useCase.execute();
+        await expect(useCase.execute()).rejects.toThrow(
+          "Request was cancelled",
+        );
+      });
+    });
+  });
 
-        expect(result).toHaveLength(2);
-        expect(result[0]).toBe(mockCharacters[0]);
-        expect(result[1]).toBe(mockCharacters[2]);
+  describe("executeWithReport", () => {
+    it("should report not found and failed IDs per favorite", async () => {
+      mockFavoritesRepository.findAll.mockResolvedValue([
+        new CharacterId(1009610),
+        new CharacterId(999999),
+        new CharacterId(1009368),
+      ]);
+      mockCharacterRepository.findManyByIds.mockResolvedValue({
+        found: [mockCharacters[0]!],
+        notFound: [new CharacterId(999999)],
+        failed: [new CharacterId(1009368)],
       });
 
-      it("should propagate favoritesRepository errors", async () => {
-        mockFavoritesRepository.findAll.mockRejectedValue(
-          new Error("Storage error"),
-        );
+      const result = await useCase.executeWithReport();
 
-        await expect(useCase.execute()).rejects.toThrow("Storage error");
+      expect(result.characters).toEqual([mockCharacters[0]]);
+      expect(result.notFound.map((id) => id.value)).toEqual([999999]);
+      expect(result.failed.map((id) => id.value)).toEqual([1009368]);
+    });
+
+    it("should refresh snapshots with the characters found", async () => {
+      mockFavoritesRepository.findAll.mockResolvedValue([
+        new CharacterId(1009610),
+      ]);
+      mockCharacterRepository.findManyByIds.mockResolvedValue({
+        found: [mockCharacters[0]!],
+        notFound: [],
+        failed: [],
       });
 
-      it("should handle null characters in results", async () => {
-        const favoriteIds = [new CharacterId(1009610)];
-        mockFavoritesRepository.findAll.mockResolvedValue(favoriteIds);
-        mockCharacterRepository.findById.mockResolvedValue(null);
+      await useCase.executeWithReport();
 
-        const result = await useCase.execute();
+      expect(mockFavoritesRepository.updateSnapshots).toHaveBeenCalledWith([
+        mockCharacters[0],
+      ]);
+    });
 
-        expect(result).toEqual([]);
+    it("should fall back to snapshots for favorites that failed to load", async () => {
+      mockFavoritesRepository.findAll.mockResolvedValue([
+        new CharacterId(1009368),
+        new CharacterId(1009610),
+      ]);
+      mockCharacterRepository.findManyByIds.mockResolvedValue({
+        found: [mockCharacters[0]!],
+        notFound: [],
+        failed: [new CharacterId(1009368)],
       });
-    });
+      mockFavoritesRepository.findAllSnapshots.mockResolvedValue([
+        {
+          id: new CharacterId(1009368),
+          name: "Iron Man",
+          thumbnailUrl: "http://example.com/ironman.jpg",
+          description: "Genius billionaire",
+          addedAt: new Date("2024-01-01T00:00:00.000Z"),
+        },
+      ]);
 
-    describe("Filtering", () => {
-      it("should filter out null results", async () => {
-        const favoriteIds = [
-          new CharacterId(1009610),
-          new CharacterId(999999),
-          new CharacterId(1009368),
-        ];
-        mockFavoritesRepository.findAll.mockResolvedValue(favoriteIds);
-        mockCharacterRepository.findById
-          .mockResolvedValueOnce(mockCharacters[0]!)
-          .mockResolvedValueOnce(null)
-          .mockResolvedValueOnce(mockCharacters[1]!);
+      const result = await useCase.executeWithReport();
 
-        const result = await useCase.execute();
+      expect(result.characters.map((c) => c.name.value)).toEqual([
+        "Iron Man",
+        "Spider-Man",
+      ]);
+      expect(result.characters[0]?.getThumbnailUrl()).toBe(
+        "http://example.com/ironman.jpg",
+      );
+      expect(result.failed.map((id) => id.value)).toEqual([1009368]);
+    });
 
-        expect(result).toHaveLength(2);
-        expect(result.every((char) => char !== null)).toBe(true);
+    it("should return an empty report when no favorites", async () => {
+      mockFavoritesRepository.findAll.mockResolvedValue([]);
+
+      await expect(useCase.executeWithReport()).resolves.toEqual({
+        characters: [],
+        notFound: [],
+        failed: [],
       });
+    });
+  });
 
-      it("should maintain order of valid characters", async () => {
-        const favoriteIds = [
-          new CharacterId(1009610),
-          new CharacterId(1009368),
-        ];
-        mockFavoritesRepository.findAll.mockResolvedValue(favoriteIds);
-        mockCharacterRepository.findById
-          .mockResolvedValueOnce(mockCharacters[0]!)
-          .mockResolvedValueOnce(mockCharacters[1]!);
+  describe("executeFromSnapshot", () => {
+    it("should list favorites from snapshots without calling the API", async () => {
+      mockFavoritesRepository.findAllSnapshots.mockResolvedValue([
+        {
+          id: new CharacterId(1009610),
+          name: "Spider-Man",
+          thumbnailUrl: "http://example.com/spiderman.jpg",
+          description: "Friendly neighborhood Spider-Man",
+          addedAt: new Date("2024-01-01T00:00:00.000Z"),
+        },
+      ]);
 
-        const result = await useCase.execute();
+      const result = await useCase.executeFromSnapshot();
 
-        expect(result[0]?.name.value).toBe("Spider-Man");
-        expect(result[1]?.name.value).toBe("Iron Man");
-      });
+      expect(result.map((c) => c.name.value)).toEqual(["Spider-Man"]);
+      expect(mockCharacterRepository.findManyByIds).not.toHaveBeenCalled();
+    });
+
+    it("should leave out favorites without snapshot data yet", async () => {
+      mockFavoritesRepository.findAllSnapshots.mockResolvedValue([
+        {
+          id: new CharacterId(1009610),
+          name: "",
+          thumbnailUrl: "",
+          description: "",
+          addedAt: new Date("2024-01-01T00:00:00.000Z"),
+        },
+      ]);
+
+      await expect(useCase.executeFromSnapshot()).resolves.toEqual([]);
     });
   });
 
@@ -343,9 +351,11 @@ describe("ListFavorites", () => {
       mockFavoritesRepository.findAll.mockResolvedValue(favoriteIds);
       mockFavoritesRepository.count.mockResolvedValue(2);
       mockFavoritesRepository.contains.mockResolvedValue(true);
-      mockCharacterRepository.findById
-        .mockResolvedValueOnce(mockCharacters[0]!)
-        .mockResolvedValueOnce(mockCharacters[1]!);
+      mockCharacterRepository.findManyByIds.mockResolvedValue({
+        found: [mockCharacters[0]!, mockCharacters[1]!],
+        notFound: [],
+        failed: [],
+      });
 
       const count = await useCase.getCount();
       const favorites = await useCase.execute();
@@ -359,8 +369,11 @@ describe("ListFavorites", () => {
       mockFavoritesRepository.findAll.mockResolvedValue([
         new CharacterId(1009610),
       ]);
-      // @ts-expect-error - Test code, mockCharacters elements are guaranteed to exist
-      mockCharacterRepository.findById.mockResolvedValue(mockCharacters[0]);
+      mockCharacterRepository.findManyByIds.mockResolvedValue({
+        found: [mockCharacters[0]!],
+        notFound: [],
+        failed: [],
+      });
 
       const [count, favorites] = await Promise.all([
         useCase.getCount(),
@@ -1,6 +1,18 @@
 import { CharacterRepository } from "@domain/character/ports/CharacterRepository";
 import { FavoritesRepository } from "@domain/character/ports/FavoritesRepository";
-import { Character } from "@domain/character/entities/Character";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { FavoriteSnapshotMapper } from "../mappers/FavoriteSnapshotMapper";
+
+/**
+ * Favorites with per-ID lookup report
+ */
+export interface FavoritesListResult {
+  characters: CharacterSummary[]; // In favorites order
+  notFound: CharacterId[]; // Favorited IDs the API no longer knows
+  failed: CharacterId[]; // Favorited IDs that couldn't be fetched this time
+}
+
 /**
  * List Favorites Use Case
  *
@@ -9,8 +21,11 @@ import { Character } from "@domain/character/entities/Character";
  *
  * Business rules:
  * - Returns only characters that are currently favorited
- * - Fetches full character details from API
- * - Handles characters that may no longer exist in API
+ * - Fetches all favorites in batches (one request per 100 favorites)
+ * - Reports characters that may no longer exist in API, or failed to load
+ * - Favorites that failed to load fall back to their stored snapshot
+ * - Fresh API data refreshes the stored snapshots
+ * - Snapshots alone can be listed without calling the API (offline first paint)
  * - Results can be empty if no favorites
  *
  * @example
@@ -18,6 +33,10 @@ import { Character } from "@domain/character/entities/Character";
  * const useCase = new ListFavorites(characterRepository, favoritesRepository);
  * const favorites = await useCase.execute();
  * console.log(favorites); // [Spider-Man, Iron Man, ...]
+ *
+ * const { characters, notFound } = await useCase.executeWithReport();
+ *
+ * const cached = await useCase.executeFromSnapshot(); // No API call
  * ```
  */
 export class ListFavorites {
@@ -30,24 +49,66 @@ export class ListFavorites {
    * Execute the use case
    *
    * @returns Array of favorited characters
-   * @throws {ApiError} When the Marvel API request fails
+   * @throws {ApiError} When the request is cancelled
+   */
+  async execute(): Promise<CharacterSummary[]> {
+    const { characters } = await this.executeWithReport();
+    return characters;
+  }
+
+  /**
+   * Execute the use case, reporting favorites that couldn't be loaded
+   *
+   * @returns Favorited characters plus not found and failed IDs
+   * @throws {ApiError} When the request is cancelled
    */
-  async execute(): Promise<Character[]> {
+  async executeWithReport(): Promise<FavoritesListResult> {
     const favoriteIds = await this.favoritesRepository.findAll();
 
     if (favoriteIds.length === 0) {
-      return [];
+      return { characters: [], notFound: [], failed: [] };
+    }
+
+    const { found, notFound, failed } =
+      await this.characterRepository.findManyByIds(favoriteIds);
+
+    await this.favoritesRepository.updateSnapshots(found);
+
+    if (failed.length === 0) {
+      return { characters: found, notFound, failed };
     }
 
-    // Fetch character details for each favorite
-    const characterPromises = favoriteIds.map((id) =>
-      this.characterRepository.findById(id).catch(() => null),
+    // Keep favorites that couldn't be fetched visible with their snapshot
+    const snapshots = FavoriteSnapshotMapper.toDomainList(
+      await this.favoritesRepository.findAllSnapshots(),
+    );
+    const fallbackIds = new Set(failed.map((id) => id.value));
+    const byId = new Map(
+      [
+        ...found,
+        ...snapshots.filter(({ id }) => fallbackIds.has(id.value)),
+      ].map((character) => [character.id.value, character]),
     );
+    const characters = favoriteIds
+      .map((id) => byId.get(id.value))
+      .filter(
+        (character): character is CharacterSummary => character !== undefined,
+      );
 
-    const characters = await Promise.all(characterPromises);
+    return { characters, notFound, failed };
+  }
 
-    // Filter out nulls (characters that no longer exist or failed to fetch)
-    return characters.filter((char): char is Character => char !== null);
+  /**
+   * List favorites from their stored snapshots, without calling the API
+   *
+   * Favorites without a snapshot yet (e.g. migrated from IDs-only storage) are
+   * left out until the next refresh.
+   *
+   * @returns Favorited characters as last seen
+   */
+  async executeFromSnapshot(): Promise<CharacterSummary[]> {
+    const snapshots = await this.favoritesRepository.findAllSnapshots();
+    return FavoriteSnapshotMapper.toDomainList(snapshots);
   }
 
   /**
@@ -0,0 +1,127 @@
+/**
+ * ListPowerCharacters Tests
+ *
+ * Tests for paging through a power's characters: pages cut from the power's
+ * character IDs, Marvel-only lookups, the end of the list and powers that
+ * don't exist.
+ */
+
+import { ListPowerCharacters } from "./ListPowerCharacters";
+import { PowerNotFoundError } from "./GetPowerDetail";
+import { PowerRepository } from "@domain/character/ports/PowerRepository";
+import { CharacterRepository } from "@domain/character/ports/CharacterRepository";
+import { Power } from "@domain/character/entities/Power";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { PowerId } from "@domain/character/valueObjects/PowerId";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
+
+describe("ListPowerCharacters", () => {
+  let useCase: ListPowerCharacters;
+  let mockPowerRepository: jest.Mocked<PowerRepository>;
+  let mockCharacterRepository: jest.Mocked<CharacterRepository>;
+
+  const character = (id: number, name: string) =>
+    new CharacterSummary({
+      id: new CharacterId(id),
+      name: new CharacterName(name),
+      deck: "",
+      thumbnail: new ImageUrl("http://example.com/image", "jpg"),
+    });
+
+  const power = (characterIds: number[]) =>
+    new Power({
+      id: new PowerId(1135),
+      name: "Telepathy",
+      characterIds: characterIds.map((id) => new CharacterId(id)),
+    });
+
+  const requestedIds = () =>
+    mockCharacterRepository.findManyByIds.mock.calls[0]?.[0].map(
+      (id) => id.value,
+    );
+
+  beforeEach(() => {
+    mockPowerRepository = {
+      findById: jest.fn(),
+    } as jest.Mocked<PowerRepository>;
+
+    mockCharacterRepository = {
+      findById: jest.fn(),
+      findManyByIds: jest.fn(),
+      searchByName: jest.fn(),
+      findMany: jest.fn(),
+      getComicsByIds: jest.fn(),
+    } as unknown as jest.Mocked<CharacterRepository>;
+
+    useCase = new ListPowerCharacters(
+      mockPowerRepository,
+      mockCharacterRepository,
+    );
+  });
+
+  it("should fetch one page of the power's characters, Marvel only", async () => {
+    mockPowerRepository.findById.mockResolvedValue(power([1, 2, 3, 4, 5]));
+    mockCharacterRepository.findManyByIds.mockResolvedValue({
+      found: [character(2, "Jean Grey"), character(3, "Emma Frost")],
+      notFound: [],
+      failed: [],
+    });
+
+    const result = await useCase.execute(1135, { offset: 1, limit: 2 });
+
+    expect(requestedIds()).toEqual([2, 3]);
+    expect(mockCharacterRepository.findManyByIds).toHaveBeenCalledWith(
+      expect.any(Array),
+      { marvelOnly: true },
+    );
+    expect(result.items.map((c) => c.name.value)).toEqual([
+      "Jean Grey",
+      "Emma Frost",
+    ]);
+    expect(result).toMatchObject({ total: 5, offset: 1, limit: 2 });
+  });
+
+  it("should count IDs, not characters, when other publishers are left out", async () => {
+    mockPowerRepository.findById.mockResolvedValue(power([1, 2, 3]));
+    mockCharacterRepository.findManyByIds.mockResolvedValue({
+      found: [character(1, "Professor X")],
+      notFound: [new CharacterId(2), new CharacterId(3)],
+      failed: [],
+    });
+
+    const result = await useCase.execute(1135, { offset: 0, limit: 3 });
+
+    expect(result.items).toHaveLength(1);
+    expect(result).toMatchObject({ total: 3, offset: 0, limit: 3 });
+  });
+
+  it("should not fetch characters past the end of the list", async () => {
+    mockPowerRepository.findById.mockResolvedValue(power([1, 2]));
+
+    const result = await useCase.execute(1135, { offset: 50, limit: 50 });
+
+    expect(result).toEqual({ items: [], total: 2, offset: 50, limit: 50 });
+    expect(mockCharacterRepository.findManyByIds).not.toHaveBeenCalled();
+  });
+
+  it("should throw PowerNotFoundError when the power doesn't exist", async () => {
+    mockPowerRepository.findById.mockResolvedValue(null);
+
+    await expect(
+      useCase.execute(99999, { offset: 0, limit: 50 }),
+    ).rejects.toThrow(PowerNotFoundError);
+  });
+
+  it("should propagate repository errors", async () => {
+    mockPowerRepository.findById.mockResolvedValue(power([1]));
+    mockCharacterRepository.findManyByIds.mockRejectedValue(
+      new Error("Request was cancelled"),
+    );
+
+    await expect(
+      useCase.execute(1135, { offset: 0, limit: 50 }),
+    ).rejects.toThrow("Request was cancelled");
+  });
+});
@@ -0,0 +1,81 @@
+import { PowerRepository } from "@domain/character/ports/PowerRepository";
+import {
+  CharacterRepository,
+  PaginatedResult,
+  PaginationParams,
+} from "@domain/character/ports/CharacterRepository";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { PowerId } from "@domain/character/valueObjects/PowerId";
+import { PowerNotFoundError } from "./GetPowerDetail";
+
+/**
+ * List Power Characters Use Case
+ *
+ * Pages through the Marvel characters that have a power, in two steps:
+ * 1. Get the power (IDs of its characters, from every publisher)
+ * 2. Batch fetch one page of those IDs, keeping Marvel characters only
+ *
+ * Comic Vine can't filter characters by power, so pages are cut from the
+ * power's character IDs: `offset`, `limit` and `total` count IDs, and a page
+ * holds fewer than `limit` characters when some aren't Marvel's.
+ *
+ * Business rules:
+ * - Marvel characters only (publisher 31), like ListCharacters
+ * - Characters are returned in the order Comic Vine lists them
+ * - Results are cached for performance
+ *
+ * @example
+ * ```typescript
+ * const useCase = new ListPowerCharacters(powerRepository, characterRepository);
+ * const page = await useCase.execute(1135, { offset: 0, limit: 50 });
+ * const nextOffset = page.offset + page.limit; // while < page.total
+ * ```
+ */
+export class ListPowerCharacters {
+  constructor(
+    private readonly powerRepository: PowerRepository,
+    private readonly characterRepository: CharacterRepository,
+  ) {}
+
+  /**
+   * Execute the use case
+   *
+   * @param powerId - Power ID (number)
+   * @param params - Pagination over the power's character IDs
+   * @returns One page of Marvel characters with the power
+   * @throws {PowerNotFoundError} When power doesn't exist
+   * @throws {ApiError} When the API request fails
+   */
+  async execute(
+    powerId: number,
+    params: PaginationParams,
+  ): Promise<PaginatedResult<CharacterSummary>> {
+    // Step 1: Get power with character IDs
+    const power = await this.powerRepository.findById(new PowerId(powerId));
+
+    if (!power) {
+      throw new PowerNotFoundError(powerId);
+    }
+
+    const page = {
+      total: power.characterCount,
+      offset: params.offset,
+      limit: params.limit,
+    };
+    const ids = power.characterIds.slice(
+      params.offset,
+      params.offset + params.limit,
+    );
+
+    if (ids.length === 0) {
+      return { items: [], ...page };
+    }
+
+    // Step 2: Batch fetch this page, dropping other publishers' characters
+    const { found } = await this.characterRepository.findManyByIds(ids, {
+      marvelOnly: true,
+    });
+
+    return { items: found, ...page };
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * ListTeamMembers Tests
+ *
+ * Tests for loading a team's roster: roster order, missing members,
+ * empty teams and teams that don't exist.
+ */
+
+import { ListTeamMembers } from "./ListTeamMembers";
+import { TeamNotFoundError } from "./GetTeamDetail";
+import { TeamRepository } from "@domain/character/ports/TeamRepository";
+import { CharacterRepository } from "@domain/character/ports/CharacterRepository";
+import { Team } from "@domain/character/entities/Team";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { TeamId } from "@domain/character/valueObjects/TeamId";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
+
+describe("ListTeamMembers", () => {
+  let useCase: ListTeamMembers;
+  let mockTeamRepository: jest.Mocked<TeamRepository>;
+  let mockCharacterRepository: jest.Mocked<CharacterRepository>;
+
+  const character = (id: number, name: string) =>
+    new CharacterSummary({
+      id: new CharacterId(id),
+      name: new CharacterName(name),
+      deck: "",
+      thumbnail: new ImageUrl("http://example.com/image", "jpg"),
+    });
+
+  const team = (memberIds: number[]) =>
+    new Team({
+      id: new TeamId(3806),
+      name: "Avengers",
+      description: "",
+      image: new ImageUrl("http://example.com/avengers", "jpg"),
+      memberIds: memberIds.map((id) => new CharacterId(id)),
+    });
+
+  beforeEach(() => {
+    mockTeamRepository = {
+      findById: jest.fn(),
+    } as jest.Mocked<TeamRepository>;
+
+    mockCharacterRepository = {
+      findById: jest.fn(),
+      findManyByIds: jest.fn(),
+      searchByName: jest.fn(),
+      findMany: jest.fn(),
+      getComicsByIds: jest.fn(),
+    } as unknown as jest.Mocked<CharacterRepository>;
+
+    useCase = new ListTeamMembers(mockTeamRepository, mockCharacterRepository);
+  });
+
+  it("should return the members in roster order", async () => {
+    mockTeamRepository.findById.mockResolvedValue(team([3, 1, 2]));
+    mockCharacterRepository.findManyByIds.mockResolvedValue({
+      found: [
+        character(1, "Iron Man"),
+        character(2, "Thor"),
+        character(3, "Hulk"),
+      ],
+      notFound: [],
+      failed: [],
+    });
+
+    const result = await useCase.execute(3806);
+
+    expect(result.characters.map((c) => c.name.value)).toEqual([
+      "Hulk",
+      "Iron Man",
+      "Thor",
+    ]);
+    expect(result.missing).toBe(0);
+    expect(
+      mockCharacterRepository.findManyByIds.mock.calls[0]?.[0].map(
+        (id) => id.value,
+      ),
+    ).toEqual([3, 1, 2]);
+  });
+
+  it("should count members that weren't found or failed to load", async () => {
+    mockTeamRepository.findById.mockResolvedValue(team([1, 2, 3]));
+    mockCharacterRepository.findManyByIds.mockResolvedValue({
+      found: [character(1, "Iron Man")],
+      notFound: [new CharacterId(2)],
+      failed: [new CharacterId(3)],
+    });
+
+    const result = await useCase.execute(3806);
+
+    expect(result.characters).toHaveLength(1);
+    expect(result.missing).toBe(2);
+  });
+
+  it("should not fetch characters for an empty roster", async () => {
+    mockTeamRepository.findById.mockResolvedValue(team([]));
+
+    const result = await useCase.execute(3806);
+
+    expect(result).toEqual({ characters: [], missing: 0 });
+    expect(mockCharacterRepository.findManyByIds).not.toHaveBeenCalled();
+  });
+
+  it("should throw TeamNotFoundError when the team doesn't exist", async () => {
+    mockTeamRepository.findById.mockResolvedValue(null);
+
+    await expect(useCase.execute(99999)).rejects.toThrow(TeamNotFoundError);
+  });
+
+  it("should propagate repository errors", async () => {
+    mockTeamRepository.findById.mockResolvedValue(team([1]));
+    mockCharacterRepository.findManyByIds.mockRejectedValue(
+      new Error("Request was cancelled"),
+    );
+
+    await expect(useCase.execute(3806)).rejects.toThrow(
+      "Request was cancelled",
+    );
+  });
+});
@@ -0,0 +1,71 @@
+import { TeamRepository } from "@domain/character/ports/TeamRepository";
+import { CharacterRepository } from "@domain/character/ports/CharacterRepository";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { TeamId } from "@domain/character/valueObjects/TeamId";
+import { TeamNotFoundError } from "./GetTeamDetail";
+
+/**
+ * Members of a team
+ */
+export interface TeamMembers {
+  characters: CharacterSummary[]; // In roster order
+  missing: number; // Members that couldn't be loaded or no longer exist
+}
+
+/**
+ * List Team Members Use Case
+ *
+ * Loads the characters on a team's roster, in two steps:
+ * 1. Get the team (list of member IDs)
+ * 2. Batch fetch the members' summaries by ID
+ *
+ * Business rules:
+ * - Members are returned in roster order
+ * - Missing members are counted, not fatal
+ * - Results are cached for performance
+ *
+ * @example
+ * ```typescript
+ * const useCase = new ListTeamMembers(teamRepository, characterRepository);
+ * const { characters, missing } = await useCase.execute(3806);
+ * ```
+ */
+export class ListTeamMembers {
+  constructor(
+    private readonly teamRepository: TeamRepository,
+    private readonly characterRepository: CharacterRepository,
+  ) {}
+
+  /**
+   * Execute the use case
+   *
+   * @param teamId - Team ID (number)
+   * @returns Members found, and how many couldn't be loaded
+   * @throws {TeamNotFoundError} When team doesn't exist
+   * @throws {ApiError} When the API request fails
+   */
+  async execute(teamId: number): Promise<TeamMembers> {
+    // Step 1: Get team with member IDs
+    const team = await this.teamRepository.findById(new TeamId(teamId));
+
+    if (!team) {
+      throw new TeamNotFoundError(teamId);
+    }
+
+    if (team.memberCount === 0) {
+      return { characters: [], missing: 0 };
+    }
+
+    // Step 2: Batch fetch member summaries
+    const { found, notFound, failed } =
+      await this.characterRepository.findManyByIds([...team.memberIds]);
+    const byId = new Map(
+      found.map((character) => [character.id.value, character]),
+    );
+
+    return {
+      characters: team.memberIds.flatMap(({ value }) => byId.get(value) ?? []),
+      missing: notFound.length + failed.length,
+    };
+  }
+}
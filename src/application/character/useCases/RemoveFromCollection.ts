@@ -0,0 +1,48 @@
+import { FavoriteCollectionsRepository } from "@domain/character/ports/FavoriteCollectionsRepository";
+import { FavoriteCollection } from "@domain/character/entities/FavoriteCollection";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+
+/**
+ * Remove From Collection Use Case
+ *
+ * Removes a character (and its notes and tags) from a collection.
+ *
+ * Business rules:
+ * - The character stays in favorites and in other collections
+ * - The collection must exist
+ *
+ * @example
+ * ```typescript
+ * const useCase = new RemoveFromCollection(collectionsRepository);
+ * await useCase.execute('c_lq2x8k3f_4g7a', 1455);
+ * ```
+ */
+export class RemoveFromCollection {
+  constructor(
+    private readonly collectionsRepository: FavoriteCollectionsRepository,
+  ) {}
+
+  /**
+   * Execute the use case
+   *
+   * @param collectionId - Collection ID
+   * @param characterId - Character ID (number)
+   * @returns The updated collection
+   * @throws {Error} When the collection doesn't exist
+   * @throws {StorageError} When localStorage operation fails
+   */
+  async execute(
+    collectionId: string,
+    characterId: number,
+  ): Promise<FavoriteCollection> {
+    const collection = await this.collectionsRepository.findById(collectionId);
+
+    if (!collection) {
+      throw new Error(`Collection not found: ${collectionId}`);
+    }
+
+    const updated = collection.withoutCharacter(new CharacterId(characterId));
+    await this.collectionsRepository.save(updated);
+    return updated;
+  }
+}
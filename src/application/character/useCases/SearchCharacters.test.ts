@@ -7,7 +7,7 @@
 
 import { SearchCharacters } from "./SearchCharacters";
 import { CharacterRepository } from "@domain/character/ports/CharacterRepository";
-import { Character } from "@domain/character/entities/Character";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
 import { CharacterId } from "@domain/character/valueObjects/CharacterId";
 import { CharacterName } from "@domain/character/valueObjects/CharacterName";
 import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
@@ -15,27 +15,27 @@ import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
 describe("SearchCharacters", () => {
   let useCase: SearchCharacters;
   let mockRepository: jest.Mocked<CharacterRepository>;
-  let mockCharacters: Character[];
+  let mockCharacters: CharacterSummary[];
 
   beforeEach(() => {
     // Create mock characters with valid image URLs
     mockCharacters = [
-      new Character({
+      new CharacterSummary({
         id: new CharacterId(1009610),
         name: new CharacterName("Spider-Man"),
-        description: "Friendly neighborhood Spider-Man",
+        deck: "Friendly neighborhood Spider-Man",
         thumbnail: new ImageUrl("http://example.com/spiderman", "jpg"),
       }),
-      new Character({
+      new CharacterSummary({
         id: new CharacterId(1009608),
         name: new CharacterName("Spider-Woman"),
-        description: "Jessica Drew",
+        deck: "Jessica Drew",
         thumbnail: new ImageUrl("http://example.com/spiderwoman", "jpg"),
       }),
-      new Character({
+      new CharacterSummary({
         id: new CharacterId(1011347),
         name: new CharacterName("Spider-Girl"),
-        description: "May Parker",
+        deck: "May Parker",
         thumbnail: new ImageUrl("http://example.com/spidergirl", "jpg"),
       }),
     ];
@@ -44,6 +44,8 @@ describe("SearchCharacters", () => {
     mockRepository = {
       searchByName: jest.fn(),
       findById: jest.fn(),
+      findRelationships: jest.fn(),
+      findManyByIds: jest.fn(),
       list: jest.fn(),
       findMany: jest.fn(),
       getComicsByIds: jest.fn(),
@@ -183,16 +185,16 @@ describe("SearchCharacters", () => {
 
       it("should filter characters using matchesSearch", async () => {
         // Create characters where matchesSearch returns different values
-        const character1 = new Character({
+        const character1 = new CharacterSummary({
           id: new CharacterId(1),
           name: new CharacterName("Spider-Man"),
-          description: "Test description",
+          deck: "Test description",
           thumbnail: new ImageUrl("http://example.com/1", "jpg"),
         });
-        const character2 = new Character({
+        const character2 = new CharacterSummary({
           id: new CharacterId(2),
           name: new CharacterName("Iron Man"),
-          description: "Test description",
+          deck: "Test description",
           thumbnail: new ImageUrl("http://example.com/2", "jpg"),
         });
 
@@ -232,16 +234,16 @@ describe("SearchCharacters", () => {
       });
 
       it("should update count after filtering", async () => {
-        const character1 = new Character({
+        const character1 = new CharacterSummary({
           id: new CharacterId(1),
           name: new CharacterName("Spider-Man"),
-          description: "Test description",
+          deck: "Test description",
           thumbnail: new ImageUrl("http://example.com/1", "jpg"),
         });
-        const character2 = new Character({
+        const character2 = new CharacterSummary({
           id: new CharacterId(2),
           name: new CharacterName("Iron Man"),
-          description: "Test description",
+          deck: "Test description",
           thumbnail: new ImageUrl("http://example.com/2", "jpg"),
         });
 
@@ -270,10 +272,10 @@ describe("SearchCharacters", () => {
       });
 
       it("should handle no results after filtering", async () => {
-        const character = new Character({
+        const character = new CharacterSummary({
           id: new CharacterId(1),
           name: new CharacterName("Iron Man"),
-          description: "Test description",
+          deck: "Test description",
           thumbnail: new ImageUrl("http://example.com/1", "jpg"),
         });
 
@@ -1,11 +1,11 @@
 import { CharacterRepository } from "@domain/character/ports/CharacterRepository";
-import { Character } from "@domain/character/entities/Character";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
 
 /**
  * Search result with count
  */
 export interface SearchResult {
-  characters: Character[];
+  characters: CharacterSummary[];
   count: number;
   query: string;
 }
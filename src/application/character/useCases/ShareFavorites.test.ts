@@ -0,0 +1,58 @@
+/**
+ * ShareFavorites Tests
+ *
+ * Tests for encoding the current favorites as a shared link payload.
+ */
+
+import { ShareFavorites } from "./ShareFavorites";
+import { FavoritesRepository } from "@domain/character/ports/FavoritesRepository";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { SharedList } from "@domain/character/valueObjects/SharedList";
+
+describe("ShareFavorites", () => {
+  let mockFavoritesRepository: jest.Mocked<FavoritesRepository>;
+  let useCase: ShareFavorites;
+
+  const favoritesWith = (count: number) =>
+    mockFavoritesRepository.findAll.mockResolvedValue(
+      Array.from({ length: count }, (_, i) => new CharacterId(i + 1)),
+    );
+
+  beforeEach(() => {
+    mockFavoritesRepository = {
+      findAll: jest.fn(),
+    } as unknown as jest.Mocked<FavoritesRepository>;
+
+    useCase = new ShareFavorites(mockFavoritesRepository);
+  });
+
+  it("should encode favorites in order", async () => {
+    favoritesWith(3);
+
+    const result = await useCase.execute();
+
+    expect(
+      SharedList.decode(result.payload).ids.map(({ value }) => value),
+    ).toEqual([1, 2, 3]);
+    expect(result).toMatchObject({ sharedCount: 3, omittedCount: 0 });
+  });
+
+  it("should leave out favorites over the link budget", async () => {
+    favoritesWith(SharedList.MAX_IDS + 2);
+
+    const result = await useCase.execute();
+
+    expect(result).toMatchObject({
+      sharedCount: SharedList.MAX_IDS,
+      omittedCount: 2,
+    });
+  });
+
+  it("should throw error when there are no favorites", async () => {
+    favoritesWith(0);
+
+    await expect(useCase.execute()).rejects.toThrow(
+      "Invalid shared list (empty)",
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { FavoritesRepository } from "@domain/character/ports/FavoritesRepository";
+import { SharedList } from "@domain/character/valueObjects/SharedList";
+
+/**
+ * Link payload for the current favorites
+ */
+export interface SharedFavorites {
+  payload: string; // Value of the `list` parameter of the shared link
+  sharedCount: number; // Favorites in the link
+  omittedCount: number; // Favorites left out to keep the link short
+}
+
+/**
+ * Share Favorites Use Case
+ *
+ * Encodes the current favorites as a compact link payload, so they can be
+ * sent to someone else without a backend.
+ *
+ * Business rules:
+ * - Favorites are shared in favorites order
+ * - Over the link budget (SharedList.MAX_IDS), the newest are left out
+ * - Sharing no favorites is an error
+ *
+ * @example
+ * ```typescript
+ * const useCase = new ShareFavorites(favoritesRepository);
+ * const { payload } = await useCase.execute();
+ * const url = `${origin}${routes.sharedList(payload)}`;
+ * ```
+ */
+export class ShareFavorites {
+  constructor(private readonly favoritesRepository: FavoritesRepository) {}
+
+  /**
+   * Execute the use case
+   *
+   * @returns Link payload and how many favorites it holds
+   * @throws {InvalidSharedListError} When there are no favorites
+   * @throws {StorageError} When localStorage operation fails
+   */
+  async execute(): Promise<SharedFavorites> {
+    const ids = await this.favoritesRepository.findAll();
+    const { list, omitted } = SharedList.fitting(ids);
+
+    return {
+      payload: list.encode(),
+      sharedCount: list.size,
+      omittedCount: omitted,
+    };
+  }
+}
@@ -1,4 +1,5 @@
 import { FavoritesRepository } from "@domain/character/ports/FavoritesRepository";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
 import { CharacterId } from "@domain/character/valueObjects/CharacterId";
 
 /**
@@ -11,6 +12,7 @@ import { CharacterId } from "@domain/character/valueObjects/CharacterId";
  * - If character is favorited → remove from favorites
  * - If character is not favorited → add to favorites
  * - Updates are persisted immediately
+ * - When the character is known, a snapshot is stored for offline display
  * - Operation is idempotent
  *
  * @example
@@ -18,6 +20,8 @@ import { CharacterId } from "@domain/character/valueObjects/CharacterId";
  * const useCase = new ToggleFavorite(favoritesRepository);
  * const newState = await useCase.execute(1011334); // Spider-Man
  * console.log(newState); // true if now favorited, false if removed
+ *
+ * await useCase.execute(character.id.value, character); // With snapshot
  * ```
  */
 export class ToggleFavorite {
@@ -27,10 +31,14 @@ export class ToggleFavorite {
    * Execute the use case
    *
    * @param characterId - Character ID (number)
+   * @param character - Character data to snapshot when adding (optional)
    * @returns New favorite state (true if favorited, false if not)
    * @throws {StorageError} When localStorage operation fails
    */
-  async execute(characterId: number): Promise<boolean> {
+  async execute(
+    characterId: number,
+    character?: CharacterSummary,
+  ): Promise<boolean> {
     const id = new CharacterId(characterId);
     const isFavorite = await this.favoritesRepository.contains(id);
 
@@ -38,7 +46,7 @@ export class ToggleFavorite {
       await this.favoritesRepository.remove(id);
       return false;
     } else {
-      await this.favoritesRepository.add(id);
+      await this.favoritesRepository.add(id, character);
       return true;
     }
   }
@@ -0,0 +1,63 @@
+/**
+ * UpdateCollectionEntry Tests
+ *
+ * Tests for editing the note and tags of a collection entry.
+ */
+
+import { UpdateCollectionEntry } from "./UpdateCollectionEntry";
+import { FavoriteCollectionsRepository } from "@domain/character/ports/FavoriteCollectionsRepository";
+import { FavoriteCollection } from "@domain/character/entities/FavoriteCollection";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+
+describe("UpdateCollectionEntry", () => {
+  let useCase: UpdateCollectionEntry;
+  let mockCollectionsRepository: jest.Mocked<FavoriteCollectionsRepository>;
+
+  const ironMan = new CharacterId(1009368);
+
+  beforeEach(() => {
+    const collection = new FavoriteCollection({
+      id: "c_1",
+      name: "Avengers roster",
+      createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    }).withCharacter(ironMan);
+
+    mockCollectionsRepository = {
+      findAll: jest.fn(),
+      findById: jest.fn().mockResolvedValue(collection),
+      save: jest.fn(),
+      delete: jest.fn(),
+      subscribe: jest.fn(),
+    } as jest.Mocked<FavoriteCollectionsRepository>;
+
+    useCase = new UpdateCollectionEntry(mockCollectionsRepository);
+  });
+
+  it("should save the entry's note and normalized tags", async () => {
+    const result = await useCase.execute("c_1", 1009368, {
+      note: "Genius billionaire",
+      tags: ["Founding", " tech "],
+    });
+
+    expect(result.getEntry(ironMan)).toMatchObject({
+      note: "Genius billionaire",
+      tags: ["founding", "tech"],
+    });
+    expect(mockCollectionsRepository.save).toHaveBeenCalledWith(result);
+  });
+
+  it("should throw error when the collection does not exist", async () => {
+    mockCollectionsRepository.findById.mockResolvedValue(null);
+
+    await expect(
+      useCase.execute("missing", 1009368, { note: "Genius" }),
+    ).rejects.toThrow("Collection not found: missing");
+  });
+
+  it("should throw error when the character is not in the collection", async () => {
+    await expect(
+      useCase.execute("c_1", 1009610, { note: "Web-slinger" }),
+    ).rejects.toThrow("is not in collection");
+    expect(mockCollectionsRepository.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,57 @@
+import { FavoriteCollectionsRepository } from "@domain/character/ports/FavoriteCollectionsRepository";
+import { FavoriteCollection } from "@domain/character/entities/FavoriteCollection";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+
+/**
+ * Update Collection Entry Use Case
+ *
+ * Edits the note and tags of a character in a collection.
+ *
+ * Business rules:
+ * - Notes are free text, at most 500 characters
+ * - Tags are trimmed, lowercased and deduplicated (at most 10, 30 characters each)
+ * - Omitted fields are left unchanged
+ *
+ * @example
+ * ```typescript
+ * const useCase = new UpdateCollectionEntry(collectionsRepository);
+ * await useCase.execute('c_lq2x8k3f_4g7a', 1455, {
+ *   note: 'Team leader',
+ *   tags: ['founding member', 'shield'],
+ * });
+ * ```
+ */
+export class UpdateCollectionEntry {
+  constructor(
+    private readonly collectionsRepository: FavoriteCollectionsRepository,
+  ) {}
+
+  /**
+   * Execute the use case
+   *
+   * @param collectionId - Collection ID
+   * @param characterId - Character ID (number)
+   * @param details - New note and/or tags
+   * @returns The updated collection
+   * @throws {Error} When the collection doesn't exist, the character isn't in it, or details are invalid
+   * @throws {StorageError} When localStorage operation fails
+   */
+  async execute(
+    collectionId: string,
+    characterId: number,
+    details: { note?: string; tags?: string[] },
+  ): Promise<FavoriteCollection> {
+    const collection = await this.collectionsRepository.findById(collectionId);
+
+    if (!collection) {
+      throw new Error(`Collection not found: ${collectionId}`);
+    }
+
+    const updated = collection.withEntryDetails(
+      new CharacterId(characterId),
+      details,
+    );
+    await this.collectionsRepository.save(updated);
+    return updated;
+  }
+}
@@ -23,8 +23,39 @@ export const PAGINATION = {
 export const API = {
   /** HTTP request timeout in milliseconds (20 seconds) - increased for slower Comic Vine API responses */
   REQUEST_TIMEOUT: 20000,
-  /** Cache time-to-live in milliseconds (5 minutes) */
+  /** Default cache time-to-live in milliseconds (5 minutes) */
   CACHE_TTL: 5 * 60 * 1000,
+  /** Per-resource cache TTLs in milliseconds, matched by endpoint prefix */
+  CACHE_TTL_BY_RESOURCE: {
+    /** Character lists and searches (1 hour) */
+    "/characters/": 60 * 60 * 1000,
+    /** Single character details (24 hours) - characters rarely change */
+    "/character/": 24 * 60 * 60 * 1000,
+    /** Single team and its roster (24 hours) - rosters rarely change */
+    "/team/": 24 * 60 * 60 * 1000,
+    /** Single power and its characters (24 hours) - rarely change */
+    "/power/": 24 * 60 * 60 * 1000,
+    /** Issues (7 days) - published issues almost never change */
+    "/issues/": 7 * 24 * 60 * 60 * 1000,
+  },
+  /** Maximum number of cached responses before LRU eviction */
+  CACHE_MAX_ENTRIES: 500,
+  /** Comic Vine quota: requests allowed per resource per window */
+  RATE_LIMIT_MAX_REQUESTS: 200,
+  /** Comic Vine quota window in milliseconds (1 hour) */
+  RATE_LIMIT_WINDOW: 60 * 60 * 1000,
+  /** Resources the app calls (always reported in quota dashboards) */
+  RATE_LIMITED_RESOURCES: [
+    "characters",
+    "character",
+    "issues",
+    "team",
+    "power",
+  ],
+  /** Requests per resource kept for user-initiated calls (prefetches and revalidations wait) */
+  RATE_LIMIT_RESERVE: 20,
+  /** Minimum delay between requests in milliseconds (Comic Vine asks for 1 request/second) */
+  REQUEST_MIN_INTERVAL: 1000,
   /** Default limit for search results */
   SEARCH_RESULT_LIMIT: 50,
 } as const;
@@ -0,0 +1,138 @@
+import { CharacterDetail } from "./CharacterDetail";
+import { CharacterId } from "../valueObjects/CharacterId";
+import { CharacterName } from "../valueObjects/CharacterName";
+import { ImageUrl } from "../valueObjects/ImageUrl";
+import { Aliases } from "../valueObjects/Aliases";
+import { Gender } from "../valueObjects/Gender";
+import { TeamId } from "../valueObjects/TeamId";
+import { TeamReference } from "../valueObjects/TeamReference";
+import { PowerId } from "../valueObjects/PowerId";
+import { Power } from "./Power";
+
+describe("CharacterDetail", () => {
+  const baseProps = {
+    id: new CharacterId(1443),
+    name: new CharacterName("Spider-Man"),
+    description: "Bitten by a radioactive spider",
+    thumbnail: new ImageUrl("https://example.com/spiderman", "jpg"),
+  };
+
+  it("should keep the description apart from the deck", () => {
+    const character = new CharacterDetail({
+      ...baseProps,
+      deck: " Friendly neighborhood hero ",
+    });
+
+    expect(character.deck).toBe("Friendly neighborhood hero");
+    expect(character.description).toBe("Bitten by a radioactive spider");
+    expect(character.hasDeck()).toBe(true);
+    expect(character.hasDescription()).toBe(true);
+  });
+
+  it("should have an empty deck when none is given", () => {
+    const character = new CharacterDetail(baseProps);
+
+    expect(character.hasDeck()).toBe(false);
+  });
+
+  it("should have no facts when none are given", () => {
+    const character = new CharacterDetail(baseProps);
+
+    expect(character.hasFacts()).toBe(false);
+    expect(character.realName).toBeNull();
+    expect(character.aliases.isEmpty()).toBe(true);
+  });
+
+  it("should expose the given facts", () => {
+    const character = new CharacterDetail({
+      ...baseProps,
+      realName: new CharacterName("Peter Parker"),
+      gender: new Gender("male"),
+      issueAppearances: 8932,
+    });
+
+    expect(character.hasFacts()).toBe(true);
+    expect(character.realName?.value).toBe("Peter Parker");
+    expect(character.gender?.toDisplayString()).toBe("Male");
+    expect(character.issueAppearances).toBe(8932);
+  });
+
+  it("should drop a real name equal to the character's name", () => {
+    const character = new CharacterDetail({
+      ...baseProps,
+      realName: new CharacterName("Spider-Man"),
+    });
+
+    expect(character.realName).toBeNull();
+  });
+
+  it("should drop the character's name from its aliases", () => {
+    const character = new CharacterDetail({
+      ...baseProps,
+      aliases: new Aliases(["Spider-Man", "Spidey"]),
+    });
+
+    expect(character.aliases.values).toEqual(["Spidey"]);
+  });
+
+  it("should expose the issues the character appears in", () => {
+    const character = new CharacterDetail({
+      ...baseProps,
+      issueIds: [6686, 6687],
+    });
+
+    expect(character.issueIds).toEqual([6686, 6687]);
+    expect(character.hasIssues()).toBe(true);
+    expect(character.getIssueCount()).toBe(2);
+  });
+
+  it("should have no issues by default", () => {
+    const character = new CharacterDetail(baseProps);
+
+    expect(character.hasIssues()).toBe(false);
+    expect(character.getIssueCount()).toBe(0);
+  });
+
+  it("should expose the teams the character belongs to", () => {
+    const character = new CharacterDetail({
+      ...baseProps,
+      teams: [new TeamReference(new TeamId(3806), "Avengers")],
+    });
+
+    expect(character.teams.map((team) => team.name)).toEqual(["Avengers"]);
+  });
+
+  it("should belong to no teams by default", () => {
+    const character = new CharacterDetail(baseProps);
+
+    expect(character.teams).toEqual([]);
+  });
+
+  it("should expose the character's powers", () => {
+    const character = new CharacterDetail({
+      ...baseProps,
+      powers: [new Power({ id: new PowerId(3), name: "Wall Crawling" })],
+    });
+
+    expect(character.powers.map((power) => power.name)).toEqual([
+      "Wall Crawling",
+    ]);
+  });
+
+  it("should have no powers by default", () => {
+    const character = new CharacterDetail(baseProps);
+
+    expect(character.powers).toEqual([]);
+  });
+
+  it("should throw error for invalid issue appearances", () => {
+    expect(
+      () => new CharacterDetail({ ...baseProps, issueAppearances: -1 }),
+    ).toThrow("Invalid issue appearances");
+  });
+
+  it("should still be a Character", () => {
+    const character = new CharacterDetail(baseProps);
+    expect(character.hasDescription()).toBe(true);
+  });
+});
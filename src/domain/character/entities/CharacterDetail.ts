@@ -0,0 +1,193 @@
+import { CharacterSummary } from "./CharacterSummary";
+import { CharacterId } from "../valueObjects/CharacterId";
+import { CharacterName } from "../valueObjects/CharacterName";
+import { ImageUrl } from "../valueObjects/ImageUrl";
+import { Aliases } from "../valueObjects/Aliases";
+import { Gender } from "../valueObjects/Gender";
+import { Origin } from "../valueObjects/Origin";
+import { BirthDate } from "../valueObjects/BirthDate";
+import { FirstAppearance } from "../valueObjects/FirstAppearance";
+import { TeamReference } from "../valueObjects/TeamReference";
+import { Power } from "./Power";
+
+/**
+ * CharacterDetail Entity
+ *
+ * A character as shown on its detail page: its summary plus the full
+ * description, the IDs of the issues it appears in (to page through its
+ * comics), the teams it belongs to, its powers and its biographical facts -
+ * real name, aliases, gender, origin, birth, first appearance and how many
+ * issues it appears in. Every fact is optional - the comics database leaves
+ * many blank - and missing facts are null (or empty aliases).
+ *
+ * Business rules:
+ * - Aliases never repeat the character's name
+ * - The real name is only kept when it differs from the character's name
+ *
+ * @example
+ * ```typescript
+ * const character = new CharacterDetail({
+ *   id: new CharacterId(1443),
+ *   name: new CharacterName('Spider-Man'),
+ *   description: 'Bitten by a radioactive spider...',
+ *   thumbnail: new ImageUrl('path/to/image', 'jpg'),
+ *   issueIds: [6686, 6687],
+ *   realName: new CharacterName('Peter Parker'),
+ *   gender: new Gender('male'),
+ * });
+ * character.hasFacts(); // true
+ * ```
+ */
+export class CharacterDetail extends CharacterSummary {
+  private readonly _description: string;
+  private readonly _issueIds: readonly number[]; // IDs of issues this character appears in
+  private readonly _realName: CharacterName | null;
+  private readonly _aliases: Aliases;
+  private readonly _gender: Gender | null;
+  private readonly _origin: Origin | null;
+  private readonly _birth: BirthDate | null;
+  private readonly _firstAppearance: FirstAppearance | null;
+  private readonly _issueAppearances: number | null;
+  private readonly _teams: readonly TeamReference[];
+  private readonly _powers: readonly Power[];
+
+  constructor(props: {
+    id: CharacterId;
+    name: CharacterName;
+    deck?: string; // Short teaser, kept for favorites made from the detail page
+    description: string;
+    thumbnail: ImageUrl;
+    issueIds?: number[];
+    realName?: CharacterName | null;
+    aliases?: Aliases;
+    gender?: Gender | null;
+    origin?: Origin | null;
+    birth?: BirthDate | null;
+    firstAppearance?: FirstAppearance | null;
+    issueAppearances?: number | null; // Total count, may exceed issueIds
+    teams?: TeamReference[];
+    powers?: Power[];
+  }) {
+    super({ ...props, deck: props.deck ?? "" });
+    this._description = props.description.trim();
+    this._issueIds = Object.freeze(props.issueIds || []); // Immutable array
+
+    if (
+      props.issueAppearances != null &&
+      (!Number.isInteger(props.issueAppearances) || props.issueAppearances < 0)
+    ) {
+      throw new Error(`Invalid issue appearances: ${props.issueAppearances}`);
+    }
+
+    this._realName =
+      props.realName && !props.realName.equals(props.name)
+        ? props.realName
+        : null;
+    this._aliases = (props.aliases ?? Aliases.empty()).without(
+      props.name.value,
+    );
+    this._gender = props.gender ?? null;
+    this._origin = props.origin ?? null;
+    this._birth = props.birth ?? null;
+    this._firstAppearance = props.firstAppearance ?? null;
+    this._issueAppearances = props.issueAppearances ?? null;
+    this._teams = Object.freeze(props.teams ?? []);
+    this._powers = Object.freeze(props.powers ?? []);
+  }
+
+  /**
+   * Full plain-text description (empty when unknown)
+   */
+  get description(): string {
+    return this._description;
+  }
+
+  /**
+   * Check if character has a description
+   */
+  hasDescription(): boolean {
+    return this._description.length > 0;
+  }
+
+  /**
+   * Get list of issue IDs this character appears in
+   * Returns a readonly array to maintain immutability
+   */
+  get issueIds(): readonly number[] {
+    return this._issueIds;
+  }
+
+  /**
+   * Check if character has associated issues
+   */
+  hasIssues(): boolean {
+    return this._issueIds.length > 0;
+  }
+
+  /**
+   * Get count of issues this character appears in
+   */
+  getIssueCount(): number {
+    return this._issueIds.length;
+  }
+
+  get realName(): CharacterName | null {
+    return this._realName;
+  }
+
+  get aliases(): Aliases {
+    return this._aliases;
+  }
+
+  get gender(): Gender | null {
+    return this._gender;
+  }
+
+  get origin(): Origin | null {
+    return this._origin;
+  }
+
+  get birth(): BirthDate | null {
+    return this._birth;
+  }
+
+  get firstAppearance(): FirstAppearance | null {
+    return this._firstAppearance;
+  }
+
+  /**
+   * Number of issues the character appears in (null when unknown)
+   */
+  get issueAppearances(): number | null {
+    return this._issueAppearances;
+  }
+
+  /**
+   * Teams the character belongs to, in the order listed
+   */
+  get teams(): readonly TeamReference[] {
+    return this._teams;
+  }
+
+  /**
+   * Powers the character has, in the order listed (ID and name only)
+   */
+  get powers(): readonly Power[] {
+    return this._powers;
+  }
+
+  /**
+   * Check if at least one biographical fact is known
+   */
+  hasFacts(): boolean {
+    return (
+      this._realName !== null ||
+      !this._aliases.isEmpty() ||
+      this._gender !== null ||
+      this._origin !== null ||
+      this._birth !== null ||
+      this._firstAppearance !== null ||
+      this._issueAppearances !== null
+    );
+  }
+}
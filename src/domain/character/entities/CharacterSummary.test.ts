@@ -1,22 +1,21 @@
 /**
- * Character Entity Unit Tests
+ * CharacterSummary Entity Unit Tests
  *
- * Tests for the Character domain entity.
+ * Tests for the CharacterSummary domain entity.
  * Tests cover: construction, validation, methods, and comparisons.
  */
 
-import { Character } from "./Character";
+import { CharacterSummary } from "./CharacterSummary";
 import { CharacterId } from "../valueObjects/CharacterId";
 import { CharacterName } from "../valueObjects/CharacterName";
 import { ImageUrl } from "../valueObjects/ImageUrl";
 
-describe("Character", () => {
+describe("CharacterSummary", () => {
   const createValidCharacterProps = () => ({
     id: new CharacterId(1699),
     name: new CharacterName("Spider-Man"),
-    description: "A hero bitten by a radioactive spider",
+    deck: "A hero bitten by a radioactive spider",
     thumbnail: new ImageUrl("https://example.com/image", "jpg"),
-    issueIds: [1, 2, 3],
   });
 
   describe("Construction", () => {
@@ -25,74 +24,61 @@ describe("Character", () => {
       const props = createValidCharacterProps();
 
       // Act
-      const character = new Character(props);
+      const character = new CharacterSummary(props);
 
       // Assert
       expect(character.id).toBeInstanceOf(CharacterId);
       expect(character.id.value).toBe(1699);
       expect(character.name).toBeInstanceOf(CharacterName);
       expect(character.name.value).toBe("Spider-Man");
-      expect(character.description).toBe(
-        "A hero bitten by a radioactive spider",
-      );
+      expect(character.deck).toBe("A hero bitten by a radioactive spider");
       expect(character.thumbnail).toBeInstanceOf(ImageUrl);
     });
 
-    it("creates character with empty issueIds", () => {
+    it("creates character with empty deck", () => {
       // Arrange
-      const props = { ...createValidCharacterProps(), issueIds: [] };
+      const props = { ...createValidCharacterProps(), deck: "" };
 
       // Act
-      const character = new Character(props);
+      const character = new CharacterSummary(props);
 
       // Assert
-      expect(character).toBeDefined();
-    });
-
-    it("creates character with empty description", () => {
-      // Arrange
-      const props = { ...createValidCharacterProps(), description: "" };
-
-      // Act
-      const character = new Character(props);
-
-      // Assert
-      expect(character.description).toBe("");
+      expect(character.deck).toBe("");
     });
   });
 
-  describe("hasDescription", () => {
-    it("returns true when character has description", () => {
+  describe("hasDeck", () => {
+    it("returns true when character has a deck", () => {
       // Arrange
-      const character = new Character(createValidCharacterProps());
+      const character = new CharacterSummary(createValidCharacterProps());
 
       // Act & Assert
-      expect(character.hasDescription()).toBe(true);
+      expect(character.hasDeck()).toBe(true);
     });
 
-    it("returns false when description is empty", () => {
+    it("returns false when deck is empty", () => {
       // Arrange
-      const props = { ...createValidCharacterProps(), description: "" };
-      const character = new Character(props);
+      const props = { ...createValidCharacterProps(), deck: "" };
+      const character = new CharacterSummary(props);
 
       // Act & Assert
-      expect(character.hasDescription()).toBe(false);
+      expect(character.hasDeck()).toBe(false);
     });
 
-    it("returns false when description is only whitespace", () => {
+    it("returns false when deck is only whitespace", () => {
       // Arrange
-      const props = { ...createValidCharacterProps(), description: "   " };
-      const character = new Character(props);
+      const props = { ...createValidCharacterProps(), deck: "   " };
+      const character = new CharacterSummary(props);
 
       // Act & Assert
-      expect(character.hasDescription()).toBe(false);
+      expect(character.hasDeck()).toBe(false);
     });
   });
 
   describe("getThumbnailUrl", () => {
     it("returns URL with default variant", () => {
       // Arrange
-      const character = new Character(createValidCharacterProps());
+      const character = new CharacterSummary(createValidCharacterProps());
 
       // Act
       const url = character.getThumbnailUrl();
@@ -103,7 +89,7 @@ describe("Character", () => {
 
     it("returns URL with portrait_xlarge variant", () => {
       // Arrange
-      const character = new Character(createValidCharacterProps());
+      const character = new CharacterSummary(createValidCharacterProps());
 
       // Act
       const url = character.getThumbnailUrl("portrait_xlarge");
@@ -114,7 +100,7 @@ describe("Character", () => {
 
     it("returns URL with landscape_large variant", () => {
       // Arrange
-      const character = new Character(createValidCharacterProps());
+      const character = new CharacterSummary(createValidCharacterProps());
 
       // Act
       const url = character.getThumbnailUrl("landscape_large");
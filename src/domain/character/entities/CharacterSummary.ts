@@ -3,41 +3,42 @@ import { CharacterName } from "../valueObjects/CharacterName";
 import { ImageUrl } from "../valueObjects/ImageUrl";
 
 /**
- * Character Entity
+ * CharacterSummary Entity
  *
- * Core domain entity representing a Marvel character.
- * Contains business logic and validation rules.
+ * A Marvel character as listed in grids and lookups (browse, search, teams,
+ * powers, allies and enemies, favorites and collections): just its identity,
+ * name, deck and thumbnail - what a card renders and a favorite snapshots.
  * Immutable - all updates return new instances.
  *
+ * The deck is Comic Vine's short one-line teaser, not the full article: the
+ * detail page gets a CharacterDetail, which adds the description and the rest.
+ *
  * @example
  * ```typescript
- * const character = new Character({
- *   id: new CharacterId(1011334),
+ * const character = new CharacterSummary({
+ *   id: new CharacterId(1443),
  *   name: new CharacterName('Spider-Man'),
- *   description: 'Friendly neighborhood Spider-Man',
+ *   deck: 'Friendly neighborhood Spider-Man',
  *   thumbnail: new ImageUrl('path/to/image', 'jpg'),
  * });
  * ```
  */
-export class Character {
+export class CharacterSummary {
   private readonly _id: CharacterId;
   private readonly _name: CharacterName;
-  private readonly _description: string;
+  private readonly _deck: string;
   private readonly _thumbnail: ImageUrl;
-  private readonly _issueIds: readonly number[]; // IDs of issues this character appears in
 
   constructor(props: {
     id: CharacterId;
     name: CharacterName;
-    description: string;
+    deck: string;
     thumbnail: ImageUrl;
-    issueIds?: number[]; // Optional - not all contexts need issue data
   }) {
     this._id = props.id;
     this._name = props.name;
-    this._description = props.description.trim();
+    this._deck = props.deck.trim();
     this._thumbnail = props.thumbnail;
-    this._issueIds = Object.freeze(props.issueIds || []); // Immutable array
   }
 
   get id(): CharacterId {
@@ -48,41 +49,22 @@ export class Character {
     return this._name;
   }
 
-  get description(): string {
-    return this._description;
-  }
-
-  get thumbnail(): ImageUrl {
-    return this._thumbnail;
-  }
-
   /**
-   * Get list of issue IDs this character appears in
-   * Returns a readonly array to maintain immutability
+   * Short one-line teaser (empty when unknown)
    */
-  get issueIds(): readonly number[] {
-    return this._issueIds;
+  get deck(): string {
+    return this._deck;
   }
 
-  /**
-   * Check if character has associated issues
-   */
-  hasIssues(): boolean {
-    return this._issueIds.length > 0;
-  }
-
-  /**
-   * Get count of issues this character appears in
-   */
-  getIssueCount(): number {
-    return this._issueIds.length;
+  get thumbnail(): ImageUrl {
+    return this._thumbnail;
   }
 
   /**
-   * Check if character has a description
+   * Check if character has a deck
    */
-  hasDescription(): boolean {
-    return this._description.length > 0;
+  hasDeck(): boolean {
+    return this._deck.length > 0;
   }
 
   /**
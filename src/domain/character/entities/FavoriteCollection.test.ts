@@ -0,0 +1,180 @@
+/**
+ * FavoriteCollection Entity Unit Tests
+ *
+ * Tests for the FavoriteCollection domain entity.
+ * Tests cover: construction, validation, entry updates, and tag normalization.
+ */
+
+import { FavoriteCollection } from "./FavoriteCollection";
+import { CharacterId } from "../valueObjects/CharacterId";
+
+describe("FavoriteCollection", () => {
+  const spiderMan = new CharacterId(1009610);
+  const ironMan = new CharacterId(1009368);
+
+  const createCollection = (name = "Avengers roster") =>
+    new FavoriteCollection({
+      id: "c_1",
+      name,
+      createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    });
+
+  describe("Construction", () => {
+    it("creates an empty collection with a trimmed name", () => {
+      const collection = createCollection("  Avengers roster  ");
+
+      expect(collection.id).toBe("c_1");
+      expect(collection.name).toBe("Avengers roster");
+      expect(collection.size).toBe(0);
+      expect(collection.entries).toEqual([]);
+    });
+
+    it("throws error for empty name", () => {
+      expect(() => createCollection("   ")).toThrow(
+        "Collection name cannot be empty",
+      );
+    });
+
+    it("throws error for name over the maximum length", () => {
+      expect(() =>
+        createCollection("x".repeat(FavoriteCollection.MAX_NAME_LENGTH + 1)),
+      ).toThrow("Collection name cannot exceed 60 characters");
+    });
+
+    it("throws error for empty ID", () => {
+      expect(
+        () =>
+          new FavoriteCollection({
+            id: "",
+            name: "X-Men villains",
+            createdAt: new Date(),
+          }),
+      ).toThrow("Collection ID cannot be empty");
+    });
+
+    it("throws error for note over the maximum length", () => {
+      expect(
+        () =>
+          new FavoriteCollection({
+            id: "c_1",
+            name: "X-Men villains",
+            createdAt: new Date(),
+            entries: [
+              {
+                characterId: spiderMan,
+                note: "x".repeat(FavoriteCollection.MAX_NOTE_LENGTH + 1),
+                tags: [],
+                addedAt: new Date(),
+              },
+            ],
+          }),
+      ).toThrow("Note cannot exceed 500 characters");
+    });
+  });
+
+  describe("withCharacter", () => {
+    it("adds an entry with an empty note and no tags", () => {
+      const addedAt = new Date("2024-02-01T00:00:00.000Z");
+
+      const collection = createCollection().withCharacter(spiderMan, addedAt);
+
+      expect(collection.size).toBe(1);
+      expect(collection.getEntry(spiderMan)).toEqual({
+        characterId: spiderMan,
+        note: "",
+        tags: [],
+        addedAt,
+      });
+    });
+
+    it("returns the same instance when the character is already in it", () => {
+      const collection = createCollection().withCharacter(spiderMan);
+
+      expect(collection.withCharacter(new CharacterId(1009610))).toBe(
+        collection,
+      );
+    });
+
+    it("does not modify the original collection", () => {
+      const original = createCollection();
+
+      original.withCharacter(spiderMan);
+
+      expect(original.size).toBe(0);
+    });
+  });
+
+  describe("withoutCharacter", () => {
+    it("removes the character's entry", () => {
+      const collection = createCollection()
+        .withCharacter(spiderMan)
+        .withCharacter(ironMan)
+        .withoutCharacter(spiderMan);
+
+      expect(collection.contains(spiderMan)).toBe(false);
+      expect(collection.contains(ironMan)).toBe(true);
+    });
+  });
+
+  describe("withEntryDetails", () => {
+    it("updates note and normalizes tags", () => {
+      const collection = createCollection()
+        .withCharacter(spiderMan)
+        .withEntryDetails(spiderMan, {
+          note: "  Web-slinger  ",
+          tags: [" Street-Level ", "street-level", "", "Avengers"],
+        });
+
+      const entry = collection.getEntry(spiderMan);
+      expect(entry?.note).toBe("Web-slinger");
+      expect(entry?.tags).toEqual(["street-level", "avengers"]);
+    });
+
+    it("keeps fields that are not provided", () => {
+      const collection = createCollection()
+        .withCharacter(spiderMan)
+        .withEntryDetails(spiderMan, { note: "Leader", tags: ["founding"] })
+        .withEntryDetails(spiderMan, { note: "Co-leader" });
+
+      expect(collection.getEntry(spiderMan)?.tags).toEqual(["founding"]);
+    });
+
+    it("throws error when the character is not in the collection", () => {
+      expect(() =>
+        createCollection().withEntryDetails(ironMan, { note: "Genius" }),
+      ).toThrow('Character 1009368 is not in collection "Avengers roster"');
+    });
+  });
+
+  describe("renamed / hasName", () => {
+    it("renames while keeping entries", () => {
+      const collection = createCollection()
+        .withCharacter(spiderMan)
+        .renamed("New Avengers");
+
+      expect(collection.name).toBe("New Avengers");
+      expect(collection.contains(spiderMan)).toBe(true);
+    });
+
+    it("compares names case-insensitively", () => {
+      expect(createCollection().hasName(" avengers ROSTER ")).toBe(true);
+      expect(createCollection().hasName("X-Men")).toBe(false);
+    });
+  });
+
+  describe("normalizeTags", () => {
+    it("throws error for too many tags", () => {
+      const tags = Array.from({ length: 11 }, (_, i) => `tag${i}`);
+
+      expect(() => FavoriteCollection.normalizeTags(tags)).toThrow(
+        "An entry cannot have more than 10 tags",
+      );
+    });
+
+    it("throws error for a tag over the maximum length", () => {
+      expect(() => FavoriteCollection.normalizeTags(["x".repeat(31)])).toThrow(
+        "Tag cannot exceed 30 characters",
+      );
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { CharacterId } from "../valueObjects/CharacterId";
+
+/**
+ * A character in a collection, with the user's notes and tags
+ */
+export interface CollectionEntry {
+  characterId: CharacterId;
+  note: string;
+  tags: readonly string[]; // Normalized: trimmed, lowercase, unique
+  addedAt: Date;
+}
+
+/**
+ * FavoriteCollection Entity
+ *
+ * Named, user-defined group of characters (e.g. "Avengers roster",
+ * "X-Men villains"). Each entry can carry a free-text note and tags.
+ * Immutable - all updates return new instances.
+ *
+ * @example
+ * ```typescript
+ * const collection = new FavoriteCollection({
+ *   id: 'c_1',
+ *   name: 'Avengers roster',
+ *   createdAt: new Date(),
+ * })
+ *   .withCharacter(new CharacterId(1455))
+ *   .withEntryDetails(new CharacterId(1455), { note: 'Leader', tags: ['Founding'] });
+ * ```
+ */
+export class FavoriteCollection {
+  static readonly MAX_NAME_LENGTH = 60;
+  static readonly MAX_NOTE_LENGTH = 500;
+  static readonly MAX_TAGS = 10;
+  static readonly MAX_TAG_LENGTH = 30;
+
+  private readonly _id: string;
+  private readonly _name: string;
+  private readonly _entries: readonly CollectionEntry[];
+  private readonly _createdAt: Date;
+
+  constructor(props: {
+    id: string;
+    name: string;
+    createdAt: Date;
+    entries?: CollectionEntry[];
+  }) {
+    if (!props.id || props.id.trim() === "") {
+      throw new Error("Collection ID cannot be empty");
+    }
+
+    this._id = props.id;
+    this._name = FavoriteCollection.validateName(props.name);
+    this._createdAt = props.createdAt;
+    this._entries = Object.freeze(
+      (props.entries ?? []).map((entry) => ({
+        characterId: entry.characterId,
+        note: FavoriteCollection.validateNote(entry.note),
+        tags: Object.freeze(FavoriteCollection.normalizeTags(entry.tags)),
+        addedAt: entry.addedAt,
+      })),
+    );
+  }
+
+  get id(): string {
+    return this._id;
+  }
+
+  get name(): string {
+    return this._name;
+  }
+
+  get entries(): readonly CollectionEntry[] {
+    return this._entries;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  get size(): number {
+    return this._entries.length;
+  }
+
+  contains(characterId: CharacterId): boolean {
+    return this.getEntry(characterId) !== undefined;
+  }
+
+  getEntry(characterId: CharacterId): CollectionEntry | undefined {
+    return this._entries.find((entry) => entry.characterId.equals(characterId));
+  }
+
+  /**
+   * Add a character (no-op if already in the collection)
+   */
+  withCharacter(
+    characterId: CharacterId,
+    addedAt: Date = new Date(),
+  ): FavoriteCollection {
+    if (this.contains(characterId)) {
+      return this;
+    }
+
+    return this.withEntries([
+      ...this._entries,
+      { characterId, note: "", tags: [], addedAt },
+    ]);
+  }
+
+  withoutCharacter(characterId: CharacterId): FavoriteCollection {
+    return this.withEntries(
+      this._entries.filter((entry) => !entry.characterId.equals(characterId)),
+    );
+  }
+
+  /**
+   * Update the note and/or tags of a character's entry
+   *
+   * @throws {Error} When the character isn't in the collection
+   */
+  withEntryDetails(
+    characterId: CharacterId,
+    details: { note?: string; tags?: readonly string[] },
+  ): FavoriteCollection {
+    if (!this.contains(characterId)) {
+      throw new Error(
+        `Character ${characterId.value} is not in collection "${this._name}"`,
+      );
+    }
+
+    return this.withEntries(
+      this._entries.map((entry) =>
+        entry.characterId.equals(characterId)
+          ? {
+              ...entry,
+              note: details.note ?? entry.note,
+              tags: details.tags ?? entry.tags,
+            }
+          : entry,
+      ),
+    );
+  }
+
+  renamed(name: string): FavoriteCollection {
+    return new FavoriteCollection({
+      id: this._id,
+      name,
+      createdAt: this._createdAt,
+      entries: [...this._entries],
+    });
+  }
+
+  /**
+   * Check if the collection has a name (case-insensitive)
+   */
+  hasName(name: string): boolean {
+    return this._name.toLowerCase() === name.trim().toLowerCase();
+  }
+
+  /**
+   * Trim, lowercase and dedupe tags, dropping empty ones
+   *
+   * @throws {Error} When there are too many tags or a tag is too long
+   */
+  static normalizeTags(tags: readonly string[]): string[] {
+    const normalized = [
+      ...new Set(
+        tags.map((tag) => tag.trim().toLowerCase()).filter((tag) => tag),
+      ),
+    ];
+
+    if (normalized.length > FavoriteCollection.MAX_TAGS) {
+      throw new Error(
+        `An entry cannot have more than ${FavoriteCollection.MAX_TAGS} tags`,
+      );
+    }
+
+    const tooLong = normalized.find(
+      (tag) => tag.length > FavoriteCollection.MAX_TAG_LENGTH,
+    );
+    if (tooLong) {
+      throw new Error(
+        `Tag cannot exceed ${FavoriteCollection.MAX_TAG_LENGTH} characters: ${tooLong}`,
+      );
+    }
+
+    return normalized;
+  }
+
+  private withEntries(entries: CollectionEntry[]): FavoriteCollection {
+    return new FavoriteCollection({
+      id: this._id,
+      name: this._name,
+      createdAt: this._createdAt,
+      entries,
+    });
+  }
+
+  private static validateName(name: string): string {
+    const trimmed = name.trim();
+
+    if (trimmed === "") {
+      throw new Error("Collection name cannot be empty");
+    }
+
+    if (trimmed.length > FavoriteCollection.MAX_NAME_LENGTH) {
+      throw new Error(
+        `Collection name cannot exceed ${FavoriteCollection.MAX_NAME_LENGTH} characters`,
+      );
+    }
+
+    return trimmed;
+  }
+
+  private static validateNote(note: string): string {
+    const trimmed = note.trim();
+
+    if (trimmed.length > FavoriteCollection.MAX_NOTE_LENGTH) {
+      throw new Error(
+        `Note cannot exceed ${FavoriteCollection.MAX_NOTE_LENGTH} characters`,
+      );
+    }
+
+    return trimmed;
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Power Entity Tests
+ *
+ * Tests for the Power entity: name validation, character order and
+ * deduplication, and powers known only by name.
+ */
+
+import { Power } from "./Power";
+import { PowerId } from "../valueObjects/PowerId";
+import { CharacterId } from "../valueObjects/CharacterId";
+
+describe("Power", () => {
+  const createPower = (
+    overrides?: Partial<ConstructorParameters<typeof Power>[0]>,
+  ) =>
+    new Power({
+      id: new PowerId(1135),
+      name: "Telepathy",
+      description: "Can read minds",
+      characterIds: [new CharacterId(1440), new CharacterId(1489)],
+      ...overrides,
+    });
+
+  it("should create a power with its characters", () => {
+    const power = createPower();
+
+    expect(power.id.value).toBe(1135);
+    expect(power.name).toBe("Telepathy");
+    expect(power.description).toBe("Can read minds");
+    expect(power.characterIds.map((id) => id.value)).toEqual([1440, 1489]);
+    expect(power.characterCount).toBe(2);
+  });
+
+  it("should trim the name and description", () => {
+    const power = createPower({
+      name: " Telepathy  ",
+      description: "  Minds ",
+    });
+
+    expect(power.name).toBe("Telepathy");
+    expect(power.description).toBe("Minds");
+  });
+
+  it("should throw on an empty name", () => {
+    expect(() => createPower({ name: "  " })).toThrow(
+      "Power name cannot be empty",
+    );
+  });
+
+  it("should be created from a name alone", () => {
+    const power = new Power({ id: new PowerId(1135), name: "Telepathy" });
+
+    expect(power.characterCount).toBe(0);
+    expect(power.hasDescription()).toBe(false);
+    expect(power.toString()).toBe("Telepathy");
+  });
+
+  it("should drop duplicate characters and keep their order", () => {
+    const power = createPower({
+      characterIds: [
+        new CharacterId(1489),
+        new CharacterId(1440),
+        new CharacterId(1489),
+      ],
+    });
+
+    expect(power.characterIds.map((id) => id.value)).toEqual([1489, 1440]);
+  });
+
+  it("should be equal to a power with the same ID", () => {
+    expect(
+      createPower().equals(
+        new Power({ id: new PowerId(1135), name: "Mind Reading" }),
+      ),
+    ).toBe(true);
+    expect(
+      createPower().equals(new Power({ id: new PowerId(3), name: "Flight" })),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import { PowerId } from "../valueObjects/PowerId";
+import { CharacterId } from "../valueObjects/CharacterId";
+
+/**
+ * Power Entity
+ *
+ * A superpower or ability (e.g. Telepathy) and the characters that have it.
+ * On a character's detail only the ID and name are known; the description
+ * and characters come with the power itself.
+ *
+ * Business rules:
+ * - Power name cannot be empty
+ * - Characters are unique, in the order listed (any publisher)
+ *
+ * @example
+ * ```typescript
+ * const power = new Power({
+ *   id: new PowerId(1135),
+ *   name: 'Telepathy',
+ *   description: 'Can read minds',
+ *   characterIds: [new CharacterId(1440), new CharacterId(1489)],
+ * });
+ * console.log(power.characterCount); // 2
+ * ```
+ */
+export class Power {
+  private readonly _id: PowerId;
+  private readonly _name: string;
+  private readonly _description: string;
+  private readonly _characterIds: readonly CharacterId[];
+
+  constructor(props: {
+    id: PowerId;
+    name: string;
+    description?: string;
+    characterIds?: CharacterId[];
+  }) {
+    const name = props.name.trim();
+    if (name === "") {
+      throw new Error("Power name cannot be empty");
+    }
+
+    const seen = new Set<number>();
+    this._id = props.id;
+    this._name = name;
+    this._description = (props.description ?? "").trim();
+    this._characterIds = Object.freeze(
+      (props.characterIds ?? []).filter(
+        ({ value }) => !seen.has(value) && seen.add(value),
+      ),
+    );
+  }
+
+  get id(): PowerId {
+    return this._id;
+  }
+
+  get name(): string {
+    return this._name;
+  }
+
+  get description(): string {
+    return this._description;
+  }
+
+  /**
+   * IDs of the characters with this power, in the order listed
+   */
+  get characterIds(): readonly CharacterId[] {
+    return this._characterIds;
+  }
+
+  get characterCount(): number {
+    return this._characterIds.length;
+  }
+
+  hasDescription(): boolean {
+    return this._description.length > 0;
+  }
+
+  equals(other: Power): boolean {
+    return this._id.equals(other._id);
+  }
+
+  toString(): string {
+    return this._name;
+  }
+}
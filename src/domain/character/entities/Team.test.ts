@@ -0,0 +1,79 @@
+/**
+ * Team Entity Tests
+ *
+ * Tests for the Team entity: name validation, roster order and
+ * deduplication, and membership checks.
+ */
+
+import { Team } from "./Team";
+import { TeamId } from "../valueObjects/TeamId";
+import { CharacterId } from "../valueObjects/CharacterId";
+import { ImageUrl } from "../valueObjects/ImageUrl";
+
+describe("Team", () => {
+  const createTeam = (
+    overrides?: Partial<ConstructorParameters<typeof Team>[0]>,
+  ) =>
+    new Team({
+      id: new TeamId(3806),
+      name: "Avengers",
+      description: "Earth's Mightiest Heroes",
+      image: new ImageUrl("https://example.com/avengers", "jpg"),
+      memberIds: [new CharacterId(1443), new CharacterId(1455)],
+      ...overrides,
+    });
+
+  it("should create a team with its roster", () => {
+    const team = createTeam();
+
+    expect(team.id.value).toBe(3806);
+    expect(team.name).toBe("Avengers");
+    expect(team.description).toBe("Earth's Mightiest Heroes");
+    expect(team.memberIds.map((id) => id.value)).toEqual([1443, 1455]);
+    expect(team.memberCount).toBe(2);
+  });
+
+  it("should trim the name and description", () => {
+    const team = createTeam({ name: "  Avengers ", description: " Heroes  " });
+
+    expect(team.name).toBe("Avengers");
+    expect(team.description).toBe("Heroes");
+  });
+
+  it("should throw on an empty name", () => {
+    expect(() => createTeam({ name: "   " })).toThrow(
+      "Team name cannot be empty",
+    );
+  });
+
+  it("should default to an empty roster", () => {
+    const team = new Team({
+      id: new TeamId(3806),
+      name: "Avengers",
+      description: "",
+      image: new ImageUrl("https://example.com/avengers", "jpg"),
+    });
+
+    expect(team.memberCount).toBe(0);
+    expect(team.hasDescription()).toBe(false);
+  });
+
+  it("should drop duplicate members and keep roster order", () => {
+    const team = createTeam({
+      memberIds: [
+        new CharacterId(1455),
+        new CharacterId(1443),
+        new CharacterId(1455),
+      ],
+    });
+
+    expect(team.memberIds.map((id) => id.value)).toEqual([1455, 1443]);
+  });
+
+  it("should check roster membership", () => {
+    const team = createTeam();
+
+    expect(team.hasMember(new CharacterId(1443))).toBe(true);
+    expect(team.hasMember(new CharacterId(1))).toBe(false);
+  });
+});
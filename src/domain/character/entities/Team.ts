@@ -0,0 +1,95 @@
+import { TeamId } from "../valueObjects/TeamId";
+import { ImageUrl } from "../valueObjects/ImageUrl";
+import { CharacterId } from "../valueObjects/CharacterId";
+
+/**
+ * Team Entity
+ *
+ * A group of Marvel characters (e.g. the Avengers) and its roster.
+ * Immutable - all updates return new instances.
+ *
+ * Business rules:
+ * - Team name cannot be empty
+ * - Roster members are unique, in the order listed
+ *
+ * @example
+ * ```typescript
+ * const team = new Team({
+ *   id: new TeamId(3806),
+ *   name: 'Avengers',
+ *   description: "Earth's Mightiest Heroes",
+ *   image: new ImageUrl('path/to/image', 'jpg'),
+ *   memberIds: [new CharacterId(1443), new CharacterId(1455)],
+ * });
+ * console.log(team.memberCount); // 2
+ * ```
+ */
+export class Team {
+  private readonly _id: TeamId;
+  private readonly _name: string;
+  private readonly _description: string;
+  private readonly _image: ImageUrl;
+  private readonly _memberIds: readonly CharacterId[];
+
+  constructor(props: {
+    id: TeamId;
+    name: string;
+    description: string;
+    image: ImageUrl;
+    memberIds?: CharacterId[];
+  }) {
+    const name = props.name.trim();
+    if (name === "") {
+      throw new Error("Team name cannot be empty");
+    }
+
+    const seen = new Set<number>();
+    this._id = props.id;
+    this._name = name;
+    this._description = props.description.trim();
+    this._image = props.image;
+    this._memberIds = Object.freeze(
+      (props.memberIds ?? []).filter(
+        ({ value }) => !seen.has(value) && seen.add(value),
+      ),
+    );
+  }
+
+  get id(): TeamId {
+    return this._id;
+  }
+
+  get name(): string {
+    return this._name;
+  }
+
+  get description(): string {
+    return this._description;
+  }
+
+  get image(): ImageUrl {
+    return this._image;
+  }
+
+  /**
+   * IDs of the team's members, in roster order
+   */
+  get memberIds(): readonly CharacterId[] {
+    return this._memberIds;
+  }
+
+  get memberCount(): number {
+    return this._memberIds.length;
+  }
+
+  hasDescription(): boolean {
+    return this._description.length > 0;
+  }
+
+  /**
+   * Check if a character is on the roster
+   */
+  hasMember(characterId: CharacterId): boolean {
+    return this._memberIds.some((id) => id.equals(characterId));
+  }
+}
@@ -1,6 +1,8 @@
-import { Character } from "../entities/Character";
+import { CharacterSummary } from "../entities/CharacterSummary";
+import { CharacterDetail } from "../entities/CharacterDetail";
 import { Comic } from "../entities/Comic";
 import { CharacterId } from "../valueObjects/CharacterId";
+import { CharacterRelationships } from "../valueObjects/CharacterRelationships";
 
 /**
  * Pagination parameters for character queries
@@ -20,6 +22,15 @@ export interface PaginatedResult<T> {
   limit: number;
 }
 
+/**
+ * Result of looking up several characters by ID
+ */
+export interface CharactersByIdResult {
+  found: CharacterSummary[]; // In the order the IDs were requested
+  notFound: CharacterId[]; // IDs with no matching character
+  failed: CharacterId[]; // IDs whose request failed (unknown whether they exist)
+}
+
 /**
  * Character Repository Port
  *
@@ -37,28 +48,57 @@ export interface CharacterRepository {
    * Find multiple characters with pagination
    *
    * @param params - Pagination parameters
-   * @returns Paginated list of characters
+   * @returns Paginated list of character summaries
    * @throws {ApiError} When the API request fails
    */
-  findMany(params: PaginationParams): Promise<PaginatedResult<Character>>;
+  findMany(
+    params: PaginationParams,
+  ): Promise<PaginatedResult<CharacterSummary>>;
 
   /**
    * Find a single character by ID
    *
    * @param id - Character identifier
-   * @returns Character if found, null otherwise
+   * @returns Character detail (issues and profile facts) if found, null otherwise
    * @throws {ApiError} When the API request fails
    */
-  findById(id: CharacterId): Promise<Character | null>;
+  findById(id: CharacterId): Promise<CharacterDetail | null>;
+
+  /**
+   * Find a character's allies and enemies
+   *
+   * Fetched separately from the detail: the lists can run to hundreds.
+   *
+   * @param id - Character identifier
+   * @returns Related character IDs if the character exists, null otherwise
+   * @throws {ApiError} When the API request fails
+   */
+  findRelationships(id: CharacterId): Promise<CharacterRelationships | null>;
+
+  /**
+   * Find several characters by ID in as few requests as possible
+   *
+   * @param ids - Character identifiers (duplicates are ignored)
+   * @param options - `marvelOnly` treats other publishers' characters as not found
+   * @returns Found characters plus the IDs that were not found or failed
+   * @throws {ApiError} When the request is cancelled
+   */
+  findManyByIds(
+    ids: CharacterId[],
+    options?: { marvelOnly?: boolean },
+  ): Promise<CharactersByIdResult>;
 
   /**
    * Search characters by name
    *
    * @param query - What to search for (e.g., "Iron Man")
    * @param signal - Can cancel the search if needed (optional)
-   * @returns List of matching characters
+   * @returns List of matching character summaries
    */
-  searchByName(query: string, signal?: AbortSignal): Promise<Character[]>;
+  searchByName(
+    query: string,
+    signal?: AbortSignal,
+  ): Promise<CharacterSummary[]>;
 
   /**
    * Get comics by their IDs
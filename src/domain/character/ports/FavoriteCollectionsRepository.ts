@@ -0,0 +1,55 @@
+import { FavoriteCollection } from "../entities/FavoriteCollection";
+import { FavoritesChange } from "./FavoritesRepository";
+
+/**
+ * Favorite Collections Repository Port
+ *
+ * Defines the contract for storing named collections of characters.
+ * Infrastructure layer provides concrete implementation (e.g., LocalStorage).
+ *
+ * @example
+ * ```typescript
+ * const repository: FavoriteCollectionsRepository = new LocalStorageCollectionsRepository();
+ * await repository.save(collection.withCharacter(new CharacterId(1455)));
+ * const collections = await repository.findAll();
+ * ```
+ */
+export interface FavoriteCollectionsRepository {
+  /**
+   * Get all collections
+   *
+   * @returns Collections in creation order
+   * @throws {StorageError} When storage operation fails
+   */
+  findAll(): Promise<FavoriteCollection[]>;
+
+  /**
+   * Get a collection by ID
+   *
+   * @returns The collection, or null if it doesn't exist
+   * @throws {StorageError} When storage operation fails
+   */
+  findById(id: string): Promise<FavoriteCollection | null>;
+
+  /**
+   * Create or replace a collection
+   *
+   * @throws {StorageError} When storage operation fails
+   */
+  save(collection: FavoriteCollection): Promise<void>;
+
+  /**
+   * Delete a collection (no-op if it doesn't exist)
+   *
+   * @throws {StorageError} When storage operation fails
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * Subscribe to collection changes
+   *
+   * @param listener - Called after each change, local or remote
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (change: FavoritesChange) => void): () => void;
+}
@@ -0,0 +1,48 @@
+import { FavoriteSnapshot } from "./FavoritesRepository";
+
+/**
+ * File formats favorites can be exported to and imported from
+ */
+export type FavoritesFileFormat = "json" | "csv";
+
+/**
+ * Favorites read from an exported file
+ */
+export interface DecodedFavoritesFile {
+  favorites: FavoriteSnapshot[]; // In file order, may contain duplicate IDs
+  invalidRecords: number; // Entries or rows skipped because they couldn't be read
+  schemaVersion: number | null; // Storage schema version of a JSON file (null for CSV)
+}
+
+/**
+ * Favorites File Codec Port
+ *
+ * Converts favorites to and from portable files (backups, moving favorites
+ * between browsers). Infrastructure layer provides the concrete formats.
+ *
+ * @example
+ * ```typescript
+ * const content = codec.encode(await favoritesRepository.findAllSnapshots(), 'json');
+ * const { favorites } = codec.decode(content, 'json');
+ * ```
+ */
+export interface FavoritesFileCodec {
+  /**
+   * Write favorites to a file
+   *
+   * @param favorites - Favorites with their snapshot and date added
+   * @param format - Output format
+   * @returns File content
+   */
+  encode(favorites: FavoriteSnapshot[], format: FavoritesFileFormat): string;
+
+  /**
+   * Read favorites from a file, including files written by older app versions
+   *
+   * @param content - File content
+   * @param format - File format
+   * @returns Readable favorites and how many records were skipped
+   * @throws {Error} When the file isn't a favorites file at all
+   */
+  decode(content: string, format: FavoritesFileFormat): DecodedFavoritesFile;
+}
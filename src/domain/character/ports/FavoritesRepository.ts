@@ -1,5 +1,27 @@
+import { CharacterSummary } from "../entities/CharacterSummary";
 import { CharacterId } from "../valueObjects/CharacterId";
 
+/**
+ * Character data stored alongside a favorite, so favorites can be shown
+ * without the API (offline, rate-limited)
+ */
+export interface FavoriteSnapshot {
+  id: CharacterId;
+  name: string; // Empty when the character hasn't been snapshotted yet
+  thumbnailUrl: string;
+  description: string; // Shortened description
+  addedAt: Date;
+}
+
+/**
+ * Notification that favorites changed
+ * - local: changed through this repository instance
+ * - remote: changed elsewhere (e.g. another browser tab)
+ */
+export interface FavoritesChange {
+  origin: "local" | "remote";
+}
+
 /**
  * Favorites Repository Port
  *
@@ -18,9 +40,10 @@ export interface FavoritesRepository {
    * Add a character to favorites
    *
    * @param id - Character identifier
+   * @param character - Character data to snapshot (filled in later when omitted)
    * @throws {StorageError} When storage operation fails
    */
-  add(id: CharacterId): Promise<void>;
+  add(id: CharacterId, character?: CharacterSummary): Promise<void>;
 
   /**
    * Remove a character from favorites
@@ -38,6 +61,22 @@ export interface FavoritesRepository {
    */
   findAll(): Promise<CharacterId[]>;
 
+  /**
+   * Get the stored snapshot of every favorite
+   *
+   * @returns Snapshots in favorites order
+   * @throws {StorageError} When storage operation fails
+   */
+  findAllSnapshots(): Promise<FavoriteSnapshot[]>;
+
+  /**
+   * Refresh the snapshots of favorited characters with fresh data
+   * Characters that aren't favorited are ignored.
+   *
+   * @param characters - Characters loaded from the API
+   */
+  updateSnapshots(characters: CharacterSummary[]): Promise<void>;
+
   /**
    * Check if a character is in favorites
    *
@@ -54,10 +93,27 @@ export interface FavoritesRepository {
    */
   count(): Promise<number>;
 
+  /**
+   * Replace all favorites at once, keeping each snapshot and date added
+   * (e.g. when importing a backup)
+   *
+   * @param favorites - New favorites, in order (duplicate IDs are ignored)
+   * @throws {StorageError} When storage operation fails
+   */
+  replaceAll(favorites: FavoriteSnapshot[]): Promise<void>;
+
   /**
    * Clear all favorites
    *
    * @throws {StorageError} When storage operation fails
    */
   clear(): Promise<void>;
+
+  /**
+   * Subscribe to changes of the favorites list (added or removed favorites)
+   *
+   * @param listener - Called after each change, local or remote
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (change: FavoritesChange) => void): () => void;
 }
@@ -0,0 +1,30 @@
+import { SyncKey } from "../valueObjects/SyncKey";
+
+/**
+ * Favorites Sync Port
+ *
+ * Links devices that sync favorites through a server. Devices share
+ * favorites when they use the same sync key: the key is shown on one device
+ * and entered on the other.
+ *
+ * @example
+ * ```typescript
+ * const key = favoritesSync.getSyncKey(); // shown on the first device
+ * await otherDeviceSync.linkDevice(new SyncKey(enteredKey));
+ * ```
+ */
+export interface FavoritesSync {
+  /**
+   * This device's sync key (created on first use)
+   */
+  getSyncKey(): SyncKey;
+
+  /**
+   * Switch this device to another device's sync key
+   *
+   * Favorites already on this device are merged into the linked ones.
+   *
+   * @param key - Sync key shown on the other device
+   */
+  linkDevice(key: SyncKey): Promise<void>;
+}
@@ -0,0 +1,25 @@
+import { Power } from "../entities/Power";
+import { PowerId } from "../valueObjects/PowerId";
+
+/**
+ * Power Repository Port
+ *
+ * Defines the contract for power data access.
+ * Infrastructure layer provides concrete implementation.
+ *
+ * @example
+ * ```typescript
+ * const repository: PowerRepository = new ComicVinePowerRepository();
+ * const power = await repository.findById(new PowerId(1135));
+ * ```
+ */
+export interface PowerRepository {
+  /**
+   * Find a single power by ID
+   *
+   * @param id - Power identifier
+   * @returns Power with the IDs of its characters if found, null otherwise
+   * @throws {ApiError} When the API request fails
+   */
+  findById(id: PowerId): Promise<Power | null>;
+}
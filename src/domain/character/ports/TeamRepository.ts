@@ -0,0 +1,25 @@
+import { Team } from "../entities/Team";
+import { TeamId } from "../valueObjects/TeamId";
+
+/**
+ * Team Repository Port
+ *
+ * Defines the contract for team data access.
+ * Infrastructure layer provides concrete implementation.
+ *
+ * @example
+ * ```typescript
+ * const repository: TeamRepository = new ComicVineTeamRepository();
+ * const team = await repository.findById(new TeamId(3806));
+ * ```
+ */
+export interface TeamRepository {
+  /**
+   * Find a single team by ID
+   *
+   * @param id - Team identifier
+   * @returns Team with its roster if found, null otherwise
+   * @throws {ApiError} When the API request fails
+   */
+  findById(id: TeamId): Promise<Team | null>;
+}
@@ -0,0 +1,44 @@
+import { Aliases } from "./Aliases";
+
+describe("Aliases", () => {
+  describe("constructor", () => {
+    it("should trim names and drop blanks", () => {
+      const aliases = new Aliases(["  Spidey ", "", "   "]);
+      expect(aliases.values).toEqual(["Spidey"]);
+    });
+
+    it("should drop case-insensitive duplicates, keeping the first", () => {
+      const aliases = new Aliases(["Spidey", "SPIDEY", "Web-Slinger"]);
+      expect(aliases.values).toEqual(["Spidey", "Web-Slinger"]);
+    });
+  });
+
+  describe("fromText", () => {
+    it("should split one alias per line", () => {
+      const aliases = Aliases.fromText("Spidey\r\nWeb-Slinger\nWall-Crawler");
+      expect(aliases.values).toEqual(["Spidey", "Web-Slinger", "Wall-Crawler"]);
+    });
+
+    it("should be empty for missing text", () => {
+      expect(Aliases.fromText(null).isEmpty()).toBe(true);
+      expect(Aliases.fromText(undefined).count).toBe(0);
+    });
+  });
+
+  describe("without", () => {
+    it("should remove a name case-insensitively", () => {
+      const aliases = new Aliases(["Spider-Man", "Spidey"]).without(
+        "spider-man",
+      );
+      expect(aliases.values).toEqual(["Spidey"]);
+    });
+  });
+
+  describe("toString", () => {
+    it("should join aliases with commas", () => {
+      expect(new Aliases(["Spidey", "Web-Slinger"]).toString()).toBe(
+        "Spidey, Web-Slinger",
+      );
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Aliases Value Object
+ *
+ * Other names a character has gone by, in the order listed.
+ * Blank entries and case-insensitive duplicates are dropped.
+ *
+ * @example
+ * ```typescript
+ * const aliases = Aliases.fromText('Spidey\nWeb-Slinger\n');
+ * console.log(aliases.values); // ['Spidey', 'Web-Slinger']
+ * ```
+ */
+export class Aliases {
+  private readonly _values: readonly string[];
+
+  constructor(values: string[]) {
+    const seen = new Set<string>();
+    this._values = Object.freeze(
+      values
+        .map((value) => value.trim())
+        .filter((value) => {
+          const key = value.toLowerCase();
+          if (value === "" || seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        }),
+    );
+  }
+
+  /**
+   * Create from one alias per line
+   */
+  static fromText(text: string | null | undefined): Aliases {
+    return new Aliases(text ? text.split(/\r?\n/) : []);
+  }
+
+  static empty(): Aliases {
+    return new Aliases([]);
+  }
+
+  get values(): readonly string[] {
+    return this._values;
+  }
+
+  get count(): number {
+    return this._values.length;
+  }
+
+  isEmpty(): boolean {
+    return this._values.length === 0;
+  }
+
+  /**
+   * Aliases other than the given name (e.g. the character's own name)
+   */
+  without(name: string): Aliases {
+    const excluded = name.trim().toLowerCase();
+    return new Aliases(
+      this._values.filter((value) => value.toLowerCase() !== excluded),
+    );
+  }
+
+  toString(): string {
+    return this._values.join(", ");
+  }
+}
@@ -0,0 +1,42 @@
+import { BirthDate } from "./BirthDate";
+
+describe("BirthDate", () => {
+  describe("constructor", () => {
+    it("should throw error for empty text", () => {
+      expect(() => new BirthDate("  ")).toThrow("cannot be empty");
+    });
+
+    it.each([
+      ["1962-08-10"],
+      ["Aug 10, 1962"],
+      ["August 10, 1962"],
+      ["10 August 1962"],
+    ])("should parse the full date %s", (text) => {
+      const birth = new BirthDate(text);
+      expect(birth.date?.toISOString()).toBe("1962-08-10T00:00:00.000Z");
+    });
+
+    it.each([["1962"], ["August 1962"], ["Unknown"]])(
+      "should keep %s as text only",
+      (text) => {
+        const birth = new BirthDate(text);
+        expect(birth.date).toBeNull();
+        expect(birth.text).toBe(text);
+      },
+    );
+  });
+
+  describe("toDisplayString", () => {
+    it("should format full dates", () => {
+      expect(new BirthDate("1962-08-10").toDisplayString()).toBe(
+        "August 10, 1962",
+      );
+    });
+
+    it("should show partial dates as recorded", () => {
+      expect(new BirthDate("August 1962").toDisplayString()).toBe(
+        "August 1962",
+      );
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * BirthDate Value Object
+ *
+ * A character's birth as recorded by the comics database. Records are free
+ * text: usually a date ("Aug 10, 1962"), sometimes not ("Unknown", "1940s").
+ * The text is kept as-is and parsed when it's a full date.
+ *
+ * @example
+ * ```typescript
+ * const birth = new BirthDate('Aug 10, 1962');
+ * console.log(birth.toDisplayString()); // 'August 10, 1962'
+ * new BirthDate('1940s').toDisplayString(); // '1940s'
+ * ```
+ */
+export class BirthDate {
+  private readonly _text: string;
+  private readonly _date: Date | null;
+
+  constructor(text: string) {
+    const trimmed = text.trim();
+    if (trimmed === "") {
+      throw new Error("Birth date cannot be empty");
+    }
+
+    this._text = trimmed;
+    this._date = parseFullDate(trimmed);
+  }
+
+  /**
+   * Text as recorded
+   */
+  get text(): string {
+    return this._text;
+  }
+
+  /**
+   * Parsed date (null when the record isn't a full date)
+   */
+  get date(): Date | null {
+    return this._date ? new Date(this._date) : null;
+  }
+
+  toDisplayString(): string {
+    return this._date
+      ? this._date.toLocaleDateString("en-US", {
+          year: "numeric",
+          month: "long",
+          day: "numeric",
+          timeZone: "UTC",
+        })
+      : this._text;
+  }
+
+  toString(): string {
+    return this._text;
+  }
+}
+
+/**
+ * Full dates as the comics database writes them
+ */
+const FULL_DATE_PATTERNS = [
+  /^[a-z]{3,}\.? \d{1,2},? \d{4}$/i, // Aug 10, 1962
+  /^\d{1,2} [a-z]{3,}\.? \d{4}$/i, // 10 August 1962
+];
+
+/**
+ * Parse a full date (as UTC midnight), null for anything vaguer
+ */
+function parseFullDate(text: string): Date | null {
+  const parsed = /^\d{4}-\d{2}-\d{2}$/.test(text)
+    ? new Date(`${text}T00:00:00Z`)
+    : FULL_DATE_PATTERNS.some((pattern) => pattern.test(text))
+      ? new Date(`${text.replace(".", "")} UTC`)
+      : null;
+
+  return parsed && !isNaN(parsed.getTime()) ? parsed : null;
+}
@@ -0,0 +1,62 @@
+import { CharacterRelationships } from "./CharacterRelationships";
+import { CharacterId } from "./CharacterId";
+
+describe("CharacterRelationships", () => {
+  const ids = (...values: number[]) => values.map((v) => new CharacterId(v));
+  const values = (list: readonly CharacterId[]) => list.map((id) => id.value);
+
+  it("should expose allies and enemies in the order given", () => {
+    const relationships = new CharacterRelationships({
+      characterId: new CharacterId(1699),
+      allies: ids(1455, 1443),
+      enemies: ids(1502),
+    });
+
+    expect(values(relationships.allies)).toEqual([1455, 1443]);
+    expect(values(relationships.enemies)).toEqual([1502]);
+    expect(values(relationships.of("ally"))).toEqual([1455, 1443]);
+    expect(values(relationships.of("enemy"))).toEqual([1502]);
+    expect(relationships.isEmpty()).toBe(false);
+  });
+
+  it("should be empty by default", () => {
+    const relationships = new CharacterRelationships({
+      characterId: new CharacterId(1699),
+    });
+
+    expect(relationships.allies).toEqual([]);
+    expect(relationships.enemies).toEqual([]);
+    expect(relationships.isEmpty()).toBe(true);
+  });
+
+  it("should drop duplicates within a kind", () => {
+    const relationships = new CharacterRelationships({
+      characterId: new CharacterId(1699),
+      allies: ids(1443, 1455, 1443),
+    });
+
+    expect(values(relationships.allies)).toEqual([1443, 1455]);
+  });
+
+  it("should never relate a character to itself", () => {
+    const relationships = new CharacterRelationships({
+      characterId: new CharacterId(1699),
+      allies: ids(1699, 1443),
+      enemies: ids(1699),
+    });
+
+    expect(values(relationships.allies)).toEqual([1443]);
+    expect(relationships.enemies).toEqual([]);
+  });
+
+  it("should allow a character to be both an ally and an enemy", () => {
+    const relationships = new CharacterRelationships({
+      characterId: new CharacterId(1699),
+      allies: ids(1490),
+      enemies: ids(1490),
+    });
+
+    expect(values(relationships.allies)).toEqual([1490]);
+    expect(values(relationships.enemies)).toEqual([1490]);
+  });
+});
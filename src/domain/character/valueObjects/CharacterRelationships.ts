@@ -0,0 +1,76 @@
+import { CharacterId } from "./CharacterId";
+
+/**
+ * Kind of relationship between two characters
+ */
+export type RelationshipKind = "ally" | "enemy";
+
+/**
+ * CharacterRelationships Value Object
+ *
+ * The characters a character is allied with and opposed to, in the order
+ * listed.
+ *
+ * Business rules:
+ * - Each related character appears once per kind
+ * - A character is never related to itself
+ * - A character can be both an ally and an enemy (e.g. a former teammate)
+ *
+ * @example
+ * ```typescript
+ * const relationships = new CharacterRelationships({
+ *   characterId: new CharacterId(1699),
+ *   allies: [new CharacterId(1443)],
+ *   enemies: [new CharacterId(1502), new CharacterId(1699)],
+ * });
+ * console.log(relationships.of("enemy").length); // 1
+ * ```
+ */
+export class CharacterRelationships {
+  private readonly _characterId: CharacterId;
+  private readonly _allies: readonly CharacterId[];
+  private readonly _enemies: readonly CharacterId[];
+
+  constructor(props: {
+    characterId: CharacterId;
+    allies?: CharacterId[];
+    enemies?: CharacterId[];
+  }) {
+    this._characterId = props.characterId;
+    this._allies = this.related(props.allies);
+    this._enemies = this.related(props.enemies);
+  }
+
+  get characterId(): CharacterId {
+    return this._characterId;
+  }
+
+  get allies(): readonly CharacterId[] {
+    return this._allies;
+  }
+
+  get enemies(): readonly CharacterId[] {
+    return this._enemies;
+  }
+
+  /**
+   * Related characters of the given kind
+   */
+  of(kind: RelationshipKind): readonly CharacterId[] {
+    return kind === "ally" ? this._allies : this._enemies;
+  }
+
+  isEmpty(): boolean {
+    return this._allies.length === 0 && this._enemies.length === 0;
+  }
+
+  /**
+   * Unique IDs other than the character's own
+   */
+  private related(ids: CharacterId[] = []): readonly CharacterId[] {
+    const seen = new Set<number>([this._characterId.value]);
+    return Object.freeze(
+      ids.filter(({ value }) => !seen.has(value) && seen.add(value)),
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { FirstAppearance } from "./FirstAppearance";
+
+describe("FirstAppearance", () => {
+  describe("constructor", () => {
+    it("should throw error for invalid issue ID", () => {
+      expect(() => new FirstAppearance({ issueId: 0 })).toThrow(
+        "Invalid issue ID",
+      );
+    });
+  });
+
+  describe("toDisplayString", () => {
+    it("should show issue number and name", () => {
+      const appearance = new FirstAppearance({
+        issueId: 6686,
+        issueName: "Spider-Man!",
+        issueNumber: "15",
+      });
+      expect(appearance.toDisplayString()).toBe("#15 · Spider-Man!");
+    });
+
+    it("should show only the known part", () => {
+      expect(
+        new FirstAppearance({
+          issueId: 6686,
+          issueNumber: "15",
+        }).toDisplayString(),
+      ).toBe("#15");
+      expect(
+        new FirstAppearance({
+          issueId: 6686,
+          issueName: " Spider-Man! ",
+        }).toDisplayString(),
+      ).toBe("Spider-Man!");
+    });
+
+    it("should fall back to the issue ID", () => {
+      expect(
+        new FirstAppearance({
+          issueId: 6686,
+          issueName: null,
+        }).toDisplayString(),
+      ).toBe("Issue 6686");
+    });
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * FirstAppearance Value Object
+ *
+ * The issue a character first appeared in.
+ *
+ * @example
+ * ```typescript
+ * const first = new FirstAppearance({ issueId: 6686, issueName: 'Spider-Man!', issueNumber: '15' });
+ * console.log(first.toDisplayString()); // '#15 · Spider-Man!'
+ * ```
+ */
+export class FirstAppearance {
+  private readonly _issueId: number;
+  private readonly _issueName: string;
+  private readonly _issueNumber: string;
+
+  constructor(props: {
+    issueId: number;
+    issueName?: string | null;
+    issueNumber?: string | null;
+  }) {
+    if (!Number.isInteger(props.issueId) || props.issueId <= 0) {
+      throw new Error(`Invalid issue ID: ${props.issueId}`);
+    }
+
+    this._issueId = props.issueId;
+    this._issueName = props.issueName?.trim() ?? "";
+    this._issueNumber = props.issueNumber?.trim() ?? "";
+  }
+
+  get issueId(): number {
+    return this._issueId;
+  }
+
+  get issueName(): string {
+    return this._issueName;
+  }
+
+  get issueNumber(): string {
+    return this._issueNumber;
+  }
+
+  /**
+   * Issue number and name, whichever are known
+   */
+  toDisplayString(): string {
+    const parts = [
+      this._issueNumber && `#${this._issueNumber}`,
+      this._issueName,
+    ].filter(Boolean);
+
+    return parts.length > 0 ? parts.join(" · ") : `Issue ${this._issueId}`;
+  }
+
+  equals(other: FirstAppearance): boolean {
+    return this._issueId === other._issueId;
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Genders a character can be listed with
+ */
+export type GenderValue = "male" | "female" | "other";
+
+const LABELS: Record<GenderValue, string> = {
+  male: "Male",
+  female: "Female",
+  other: "Other",
+};
+
+/**
+ * Gender Value Object
+ *
+ * A character's gender as listed by the comics database.
+ *
+ * @example
+ * ```typescript
+ * const gender = new Gender('female');
+ * console.log(gender.toDisplayString()); // 'Female'
+ * ```
+ */
+export class Gender {
+  constructor(readonly value: GenderValue) {
+    if (!(value in LABELS)) {
+      throw new Error(`Invalid gender: ${value}`);
+    }
+  }
+
+  toDisplayString(): string {
+    return LABELS[this.value];
+  }
+
+  equals(other: Gender): boolean {
+    return this.value === other.value;
+  }
+
+  toString(): string {
+    return this.value;
+  }
+}
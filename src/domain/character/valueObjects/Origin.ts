@@ -0,0 +1,45 @@
+/**
+ * Origin Value Object
+ *
+ * Where a character's abilities come from (e.g. Mutant, Human, Robot).
+ *
+ * @example
+ * ```typescript
+ * const origin = new Origin(4, 'Mutant');
+ * console.log(origin.name); // 'Mutant'
+ * ```
+ */
+export class Origin {
+  private readonly _id: number;
+  private readonly _name: string;
+
+  constructor(id: number, name: string) {
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new Error(`Invalid origin ID: ${id}`);
+    }
+
+    const trimmed = name.trim();
+    if (trimmed === "") {
+      throw new Error("Origin name cannot be empty");
+    }
+
+    this._id = id;
+    this._name = trimmed;
+  }
+
+  get id(): number {
+    return this._id;
+  }
+
+  get name(): string {
+    return this._name;
+  }
+
+  equals(other: Origin): boolean {
+    return this._id === other._id;
+  }
+
+  toString(): string {
+    return this._name;
+  }
+}
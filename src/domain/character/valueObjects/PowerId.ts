@@ -0,0 +1,36 @@
+/**
+ * PowerId Value Object
+ *
+ * Represents a unique identifier for a character power.
+ * Ensures the ID is always a valid positive integer.
+ *
+ * @example
+ * ```typescript
+ * const id = new PowerId(1135); // Telepathy
+ * console.log(id.value); // 1135
+ * ```
+ */
+export class PowerId {
+  private readonly _value: number;
+
+  constructor(value: number) {
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new Error(
+        `Invalid power ID: ${value}. Must be a positive integer.`,
+      );
+    }
+    this._value = value;
+  }
+
+  get value(): number {
+    return this._value;
+  }
+
+  equals(other: PowerId): boolean {
+    return this._value === other._value;
+  }
+
+  toString(): string {
+    return this._value.toString();
+  }
+}
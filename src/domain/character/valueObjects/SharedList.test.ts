@@ -0,0 +1,148 @@
+/**
+ * SharedList Value Object Tests
+ *
+ * Tests for encoding character lists in shared links: round-trips, the
+ * length budget, and rejection of invalid or tampered payloads.
+ */
+
+import { InvalidSharedListError, SharedList } from "./SharedList";
+import { CharacterId } from "./CharacterId";
+
+describe("SharedList", () => {
+  const ids = (...values: number[]) =>
+    values.map((value) => new CharacterId(value));
+
+  const values = (list: SharedList) => list.ids.map(({ value }) => value);
+
+  /**
+   * Helper: Reason a payload is rejected with
+   */
+  const reasonFor = (payload: string) => {
+    try {
+      SharedList.decode(payload);
+    } catch (error) {
+      if (error instanceof InvalidSharedListError) return error.reason;
+      throw error;
+    }
+    return null;
+  };
+
+  describe("Encoding", () => {
+    it("round-trips IDs in order", () => {
+      const list = SharedList.of(ids(1009610, 1, 127, 128, 1009368));
+
+      expect(values(SharedList.decode(list.encode()))).toEqual([
+        1009610, 1, 127, 128, 1009368,
+      ]);
+    });
+
+    it("produces a compact, URL-safe payload", () => {
+      const payload = SharedList.of(ids(1009610, 1009368, 1009220)).encode();
+
+      expect(payload).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(payload.length).toBeLessThanOrEqual(20);
+    });
+
+    it("drops duplicate IDs", () => {
+      expect(values(SharedList.of(ids(3, 1, 3)))).toEqual([3, 1]);
+    });
+
+    it("keeps the largest list within the length budget", () => {
+      const largest = SharedList.of(
+        ids(
+          ...Array.from({ length: SharedList.MAX_IDS }, (_, i) => 2 ** 34 + i),
+        ),
+      );
+
+      expect(largest.encode().length).toBeLessThanOrEqual(
+        SharedList.MAX_ENCODED_LENGTH,
+      );
+    });
+  });
+
+  describe("Budget", () => {
+    const many = ids(
+      ...Array.from({ length: SharedList.MAX_IDS + 5 }, (_, i) => i + 1),
+    );
+
+    it("throws error for empty or oversized lists", () => {
+      expect(() => SharedList.of([])).toThrow(InvalidSharedListError);
+      expect(() => SharedList.of(many)).toThrow(
+        "Invalid shared list (too_long)",
+      );
+    });
+
+    it("keeps as many IDs as fit and reports the rest", () => {
+      const { list, omitted } = SharedList.fitting(many);
+
+      expect(list.size).toBe(SharedList.MAX_IDS);
+      expect(omitted).toBe(5);
+    });
+  });
+
+  describe("Invalid payloads", () => {
+    const payload = SharedList.of(ids(1009610, 1009368)).encode();
+
+    it("rejects empty payloads", () => {
+      expect(reasonFor("")).toBe("empty");
+    });
+
+    it("rejects payloads over the length budget", () => {
+      expect(reasonFor("A".repeat(SharedList.MAX_ENCODED_LENGTH + 1))).toBe(
+        "too_long",
+      );
+    });
+
+    it("rejects payloads that aren't base64url", () => {
+      expect(reasonFor("abc+/=")).toBe("malformed");
+      expect(reasonFor("%%%")).toBe("malformed");
+      expect(reasonFor("A")).toBe("malformed");
+    });
+
+    it("rejects edited payloads", () => {
+      const edited =
+        payload.slice(0, 3) +
+        (payload[3] === "A" ? "B" : "A") +
+        payload.slice(4);
+
+      expect(reasonFor(edited)).toBe("corrupted");
+    });
+
+    it("rejects truncated payloads", () => {
+      expect(reasonFor(payload.slice(0, -2))).toBe("corrupted");
+    });
+
+    it("rejects unknown format versions", () => {
+      expect(reasonFor(encodeBytes([2, 1, 0, 0]))).toBe("unsupported_version");
+    });
+
+    it("rejects truncated IDs and invalid IDs behind a valid checksum", () => {
+      expect(reasonFor(withChecksum([1, 0x80]))).toBe("malformed");
+      expect(reasonFor(withChecksum([1, 0]))).toBe("malformed");
+      expect(
+        reasonFor(withChecksum([1, 0xff, 0xff, 0xff, 0xff, 0xff, 1])),
+      ).toBe("malformed");
+    });
+
+    it("rejects payloads without IDs", () => {
+      expect(reasonFor(withChecksum([1]))).toBe("empty");
+    });
+  });
+});
+
+function withChecksum(body: number[]): string {
+  let sum1 = 0;
+  let sum2 = 0;
+  body.forEach((byte) => {
+    sum1 = (sum1 + byte) % 255;
+    sum2 = (sum2 + sum1) % 255;
+  });
+  return encodeBytes([...body, sum2, sum1]);
+}
+
+function encodeBytes(bytes: number[]): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
@@ -0,0 +1,236 @@
+import { CharacterId } from "./CharacterId";
+
+/**
+ * Why a shared list payload was rejected
+ * - empty: no payload, or no IDs in it
+ * - too_long: over the length or size budget
+ * - malformed: not base64url, truncated, or invalid IDs
+ * - unsupported_version: written by an unknown format version
+ * - corrupted: checksum mismatch (edited or truncated link)
+ */
+export type InvalidSharedListReason =
+  | "empty"
+  | "too_long"
+  | "malformed"
+  | "unsupported_version"
+  | "corrupted";
+
+/**
+ * Invalid shared list error
+ */
+export class InvalidSharedListError extends Error {
+  constructor(readonly reason: InvalidSharedListReason) {
+    super(`Invalid shared list (${reason})`);
+    this.name = "InvalidSharedListError";
+  }
+}
+
+/**
+ * SharedList Value Object
+ *
+ * Ordered list of characters encoded compactly for a URL, so a curated list
+ * can be shared as a link without a backend.
+ *
+ * Encoding (base64url, no padding) of the bytes:
+ * `[format version][varint ID]...[Fletcher-16 checksum (2 bytes)]`
+ * IDs are unsigned LEB128 varints: 3-4 bytes for typical character IDs.
+ *
+ * Budget: at most MAX_IDS characters and MAX_ENCODED_LENGTH characters of
+ * payload, which keeps links well under common URL length limits.
+ *
+ * @example
+ * ```typescript
+ * const payload = SharedList.of([new CharacterId(1009610)]).encode();
+ * const list = SharedList.decode(payload); // throws InvalidSharedListError when tampered
+ * ```
+ */
+export class SharedList {
+  static readonly FORMAT_VERSION = 1;
+  static readonly MAX_IDS = 100;
+  static readonly MAX_ENCODED_LENGTH = 1024;
+
+  private readonly _ids: readonly CharacterId[];
+
+  private constructor(ids: CharacterId[]) {
+    this._ids = Object.freeze(ids);
+  }
+
+  /**
+   * Create a list from IDs (duplicates are dropped, order is kept)
+   *
+   * @throws {InvalidSharedListError} When empty or over the budget
+   */
+  static of(ids: CharacterId[]): SharedList {
+    const unique = dedupe(ids);
+
+    if (unique.length === 0) {
+      throw new InvalidSharedListError("empty");
+    }
+    if (unique.length > SharedList.MAX_IDS) {
+      throw new InvalidSharedListError("too_long");
+    }
+
+    return new SharedList(unique);
+  }
+
+  /**
+   * Create a list with as many of the IDs as the budget allows
+   *
+   * @returns The list and how many IDs were left out
+   * @throws {InvalidSharedListError} When there are no IDs
+   */
+  static fitting(ids: CharacterId[]): { list: SharedList; omitted: number } {
+    const unique = dedupe(ids);
+    const kept = unique.slice(0, SharedList.MAX_IDS);
+
+    return {
+      list: SharedList.of(kept),
+      omitted: unique.length - kept.length,
+    };
+  }
+
+  /**
+   * Read a list from a URL payload
+   *
+   * @throws {InvalidSharedListError} When the payload is invalid or tampered with
+   */
+  static decode(payload: string): SharedList {
+    if (payload === "") {
+      throw new InvalidSharedListError("empty");
+    }
+    if (payload.length > SharedList.MAX_ENCODED_LENGTH) {
+      throw new InvalidSharedListError("too_long");
+    }
+
+    const bytes = fromBase64Url(payload);
+    if (!bytes || bytes.length < 3) {
+      throw new InvalidSharedListError("malformed");
+    }
+    if (bytes[0] !== SharedList.FORMAT_VERSION) {
+      throw new InvalidSharedListError("unsupported_version");
+    }
+
+    const body = bytes.subarray(0, bytes.length - 2);
+    const checksum = (bytes[bytes.length - 2]! << 8) | bytes[bytes.length - 1]!;
+    if (fletcher16(body) !== checksum) {
+      throw new InvalidSharedListError("corrupted");
+    }
+
+    const values = readVarints(body.subarray(1));
+    if (!values || values.some((value) => value === 0)) {
+      throw new InvalidSharedListError("malformed");
+    }
+
+    return SharedList.of(values.map((value) => new CharacterId(value)));
+  }
+
+  get ids(): readonly CharacterId[] {
+    return this._ids;
+  }
+
+  get size(): number {
+    return this._ids.length;
+  }
+
+  /**
+   * Encode as a URL-safe payload
+   */
+  encode(): string {
+    const body = [
+      SharedList.FORMAT_VERSION,
+      ...this._ids.flatMap(({ value }) => writeVarint(value)),
+    ];
+    const checksum = fletcher16(Uint8Array.from(body));
+
+    return toBase64Url(
+      Uint8Array.from([...body, checksum >> 8, checksum & 0xff]),
+    );
+  }
+}
+
+/**
+ * Longest varint accepted (5 bytes = 35 bits, well within safe integers)
+ */
+const MAX_VARINT_BYTES = 5;
+
+function dedupe(ids: CharacterId[]): CharacterId[] {
+  const seen = new Set<number>();
+  return ids.filter(({ value }) => {
+    if (seen.has(value)) return false;
+    seen.add(value);
+    return true;
+  });
+}
+
+function writeVarint(value: number): number[] {
+  const bytes: number[] = [];
+  let rest = value;
+
+  while (rest >= 0x80) {
+    bytes.push((rest % 0x80) | 0x80);
+    rest = Math.floor(rest / 0x80);
+  }
+  bytes.push(rest);
+
+  return bytes;
+}
+
+/**
+ * Read consecutive varints (null when truncated or too long)
+ */
+function readVarints(bytes: Uint8Array): number[] | null {
+  const values: number[] = [];
+  let value = 0;
+  let multiplier = 1;
+  let length = 0;
+
+  for (const byte of bytes) {
+    value += (byte & 0x7f) * multiplier;
+    multiplier *= 0x80;
+    length++;
+
+    if (length > MAX_VARINT_BYTES) {
+      return null;
+    }
+    if ((byte & 0x80) === 0) {
+      values.push(value);
+      value = 0;
+      multiplier = 1;
+      length = 0;
+    }
+  }
+
+  return length === 0 ? values : null;
+}
+
+function fletcher16(bytes: Uint8Array): number {
+  let sum1 = 0;
+  let sum2 = 0;
+
+  for (const byte of bytes) {
+    sum1 = (sum1 + byte) % 255;
+    sum2 = (sum2 + sum1) % 255;
+  }
+
+  return (sum2 << 8) | sum1;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(payload: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]+$/.test(payload)) {
+    return null;
+  }
+
+  try {
+    const binary = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
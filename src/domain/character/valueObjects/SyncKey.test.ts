@@ -0,0 +1,44 @@
+import { InvalidSyncKeyError, SyncKey } from "./SyncKey";
+
+describe("SyncKey", () => {
+  const valid = "3f9a0c7e1b2d4a6f8e0c1b3d";
+
+  describe("constructor", () => {
+    it("should create a valid sync key", () => {
+      expect(new SyncKey(valid).value).toBe(valid);
+    });
+
+    it("should ignore surrounding whitespace", () => {
+      expect(new SyncKey(`  ${valid}\n`).value).toBe(valid);
+    });
+
+    it("should accept URL-safe characters", () => {
+      expect(new SyncKey("Abc_def-123_XYZ-9").value).toBe("Abc_def-123_XYZ-9");
+    });
+
+    it("should throw InvalidSyncKeyError for keys that are too short or too long", () => {
+      expect(() => new SyncKey("a".repeat(15))).toThrow(InvalidSyncKeyError);
+      expect(() => new SyncKey("a".repeat(129))).toThrow(InvalidSyncKeyError);
+    });
+
+    it("should throw InvalidSyncKeyError for other characters", () => {
+      expect(() => new SyncKey(`${valid} x`)).toThrow(InvalidSyncKeyError);
+      expect(() => new SyncKey(`${valid}/`)).toThrow(InvalidSyncKeyError);
+      expect(() => new SyncKey("")).toThrow(InvalidSyncKeyError);
+    });
+  });
+
+  describe("isValid", () => {
+    it("should match the constructor's rules", () => {
+      expect(SyncKey.isValid(` ${valid} `)).toBe(true);
+      expect(SyncKey.isValid("short")).toBe(false);
+    });
+  });
+
+  describe("equals", () => {
+    it("should compare values", () => {
+      expect(new SyncKey(valid).equals(new SyncKey(` ${valid}`))).toBe(true);
+      expect(new SyncKey(valid).equals(new SyncKey(`${valid}0`))).toBe(false);
+    });
+  });
+});
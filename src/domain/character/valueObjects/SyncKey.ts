@@ -0,0 +1,59 @@
+/**
+ * Invalid sync key error
+ */
+export class InvalidSyncKeyError extends Error {
+  constructor() {
+    super("Invalid sync key");
+    this.name = "InvalidSyncKeyError";
+  }
+}
+
+/**
+ * SyncKey Value Object
+ *
+ * Secret that identifies one user's synced favorites. Devices using the same
+ * key share favorites, so it's shown on one device and entered on another
+ * to link them. Same format the favorites server accepts: 16 to 128
+ * URL-safe characters (letters, digits, `-` and `_`).
+ *
+ * @example
+ * ```typescript
+ * const key = new SyncKey('  3f9a0c7e1b2d4a6f8e0c1b3d  '); // surrounding spaces are ignored
+ * console.log(key.value); // '3f9a0c7e1b2d4a6f8e0c1b3d'
+ * ```
+ */
+export class SyncKey {
+  private static readonly PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+  private readonly _value: string;
+
+  /**
+   * @throws {InvalidSyncKeyError} When the key has an invalid format
+   */
+  constructor(value: string) {
+    const trimmed = value.trim();
+    if (!SyncKey.PATTERN.test(trimmed)) {
+      throw new InvalidSyncKeyError();
+    }
+    this._value = trimmed;
+  }
+
+  /**
+   * Whether a value is a valid sync key
+   */
+  static isValid(value: string): boolean {
+    return SyncKey.PATTERN.test(value.trim());
+  }
+
+  get value(): string {
+    return this._value;
+  }
+
+  equals(other: SyncKey): boolean {
+    return this._value === other._value;
+  }
+
+  toString(): string {
+    return this._value;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * TeamId Value Object
+ *
+ * Represents a unique identifier for a Marvel team.
+ * Ensures the ID is always a valid positive integer.
+ *
+ * @example
+ * ```typescript
+ * const id = new TeamId(3806); // Avengers
+ * console.log(id.value); // 3806
+ * ```
+ */
+export class TeamId {
+  private readonly _value: number;
+
+  constructor(value: number) {
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new Error(`Invalid team ID: ${value}. Must be a positive integer.`);
+    }
+    this._value = value;
+  }
+
+  get value(): number {
+    return this._value;
+  }
+
+  equals(other: TeamId): boolean {
+    return this._value === other._value;
+  }
+
+  toString(): string {
+    return this._value.toString();
+  }
+}
@@ -0,0 +1,44 @@
+import { TeamId } from "./TeamId";
+
+/**
+ * TeamReference Value Object
+ *
+ * A team a character belongs to, as listed on the character: just enough to
+ * link to the team's page.
+ *
+ * @example
+ * ```typescript
+ * const team = new TeamReference(new TeamId(3806), 'Avengers');
+ * console.log(team.name); // 'Avengers'
+ * ```
+ */
+export class TeamReference {
+  private readonly _id: TeamId;
+  private readonly _name: string;
+
+  constructor(id: TeamId, name: string) {
+    const trimmed = name.trim();
+    if (trimmed === "") {
+      throw new Error("Team name cannot be empty");
+    }
+
+    this._id = id;
+    this._name = trimmed;
+  }
+
+  get id(): TeamId {
+    return this._id;
+  }
+
+  get name(): string {
+    return this._name;
+  }
+
+  equals(other: TeamReference): boolean {
+    return this._id.equals(other._id);
+  }
+
+  toString(): string {
+    return this._name;
+  }
+}
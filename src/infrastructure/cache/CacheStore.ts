@@ -0,0 +1,55 @@
+/**
+ * Cached response entry
+ *
+ * Entries carry their own TTL so each resource type can expire at its own pace.
+ * Expiry is decided by the caller - stores only hold and evict entries.
+ */
+export interface CacheEntry<T = unknown> {
+  data: T;
+  timestamp: number; // When the response was stored (ms since epoch)
+  ttl: number; // Time-to-live in ms
+  lastAccessed: number; // Used for LRU eviction
+}
+
+/**
+ * Cache Store
+ *
+ * Pluggable storage contract for HTTP response caching.
+ * Implementations must be size-bounded and evict least recently used entries.
+ *
+ * @example
+ * ```typescript
+ * const store: CacheStore = new MemoryCacheStore({ maxEntries: 100 });
+ * await store.set('/characters/?limit=50', { data, timestamp: Date.now(), ttl: 60000, lastAccessed: Date.now() });
+ * const entry = await store.get('/characters/?limit=50');
+ * ```
+ */
+export interface CacheStore {
+  /**
+   * Get a cached entry (expired entries are returned too)
+   *
+   * @param key - Cache key
+   * @returns Entry if present, null otherwise
+   */
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+
+  /**
+   * Store an entry, evicting least recently used entries when full
+   *
+   * @param key - Cache key
+   * @param entry - Entry to store
+   */
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+
+  /**
+   * Remove a single entry
+   *
+   * @param key - Cache key
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Remove all entries
+   */
+  clear(): Promise<void>;
+}
@@ -0,0 +1,170 @@
+/**
+ * IndexedDBCacheStore Tests
+ *
+ * jsdom has no IndexedDB: the database tests run against fake-indexeddb,
+ * and the fallback tests cover the in-memory store used when the database
+ * cannot be opened (e.g. private browsing, or an upgrade blocked by a tab).
+ */
+
+import { IDBFactory as FakeIDBFactory } from "fake-indexeddb";
+import { IndexedDBCacheStore } from "./IndexedDBCacheStore";
+import { createCacheStore } from "./createCacheStore";
+import { MemoryCacheStore } from "./MemoryCacheStore";
+
+jest.mock("@infrastructure/logging/Logger");
+
+describe("IndexedDBCacheStore", () => {
+  const entry = {
+    data: { id: 1 },
+    timestamp: Date.now(),
+    ttl: 60000,
+    lastAccessed: Date.now(),
+  };
+
+  describe("with IndexedDB", () => {
+    let factory: IDBFactory;
+
+    const entryAt = (lastAccessed: number, id = 1) => ({
+      data: { id },
+      timestamp: 0,
+      ttl: 60000,
+      lastAccessed,
+    });
+
+    beforeEach(() => {
+      // A fresh factory per test: no databases left over
+      factory = new FakeIDBFactory();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("stores and reads entries that survive a reload", async () => {
+      await new IndexedDBCacheStore({ factory }).set("key", entry);
+
+      // A new store over the same database, as after a page reload
+      const reloaded = new IndexedDBCacheStore({ factory });
+
+      expect(await reloaded.get("key")).toMatchObject({
+        data: { id: 1 },
+        timestamp: entry.timestamp,
+        ttl: 60000,
+      });
+      expect(await reloaded.get("missing")).toBeNull();
+    });
+
+    it("marks entries as recently used when read", async () => {
+      const store = new IndexedDBCacheStore({ factory });
+      await store.set("key", entryAt(1000));
+      jest.spyOn(Date, "now").mockReturnValue(5000);
+
+      expect((await store.get("key"))?.lastAccessed).toBe(5000);
+    });
+
+    it("evicts the least recently used entry at capacity", async () => {
+      const store = new IndexedDBCacheStore({ factory, maxEntries: 2 });
+      await store.set("a", entryAt(1000, 1));
+      await store.set("b", entryAt(2000, 2));
+
+      // Reading "a" makes "b" the least recently used
+      jest.spyOn(Date, "now").mockReturnValue(3000);
+      await store.get("a");
+
+      await store.set("c", entryAt(4000, 3));
+
+      expect(await store.get("b")).toBeNull();
+      expect((await store.get("a"))?.data).toEqual({ id: 1 });
+      expect((await store.get("c"))?.data).toEqual({ id: 3 });
+    });
+
+    it("deletes and clears entries", async () => {
+      const store = new IndexedDBCacheStore({ factory });
+      await store.set("a", entryAt(1000, 1));
+      await store.set("b", entryAt(1000, 2));
+
+      await store.delete("a");
+      expect(await store.get("a")).toBeNull();
+      expect(await store.get("b")).not.toBeNull();
+
+      await store.clear();
+      expect(await store.get("b")).toBeNull();
+    });
+  });
+
+  it("falls back to memory when the database cannot be opened", async () => {
+    const factory = {
+      open: jest.fn(() => {
+        throw new DOMException("Blocked", "SecurityError");
+      }),
+    } as unknown as IDBFactory;
+
+    const store = new IndexedDBCacheStore({ factory });
+
+    await store.set("key", entry);
+    expect((await store.get("key"))?.data).toEqual({ id: 1 });
+
+    await store.delete("key");
+    expect(await store.get("key")).toBeNull();
+  });
+
+  it("falls back to memory when the open request errors", async () => {
+    const request = {} as IDBOpenDBRequest;
+    const factory = {
+      open: jest.fn(() => {
+        setTimeout(() => request.onerror?.(new Event("error")));
+        return request;
+      }),
+    } as unknown as IDBFactory;
+
+    const store = new IndexedDBCacheStore({ factory });
+
+    await store.set("key", entry);
+    await store.clear();
+    expect(await store.get("key")).toBeNull();
+  });
+
+  it("falls back to memory when another tab blocks the upgrade", async () => {
+    const request = {} as IDBOpenDBRequest;
+    const factory = {
+      open: jest.fn(() => {
+        setTimeout(() =>
+          request.onblocked?.(new Event("blocked") as IDBVersionChangeEvent),
+        );
+        return request;
+      }),
+    } as unknown as IDBFactory;
+
+    const store = new IndexedDBCacheStore({ factory });
+
+    await store.set("key", entry);
+    expect((await store.get("key"))?.data).toEqual({ id: 1 });
+  });
+
+  it("closes a blocked database that opens later", async () => {
+    const close = jest.fn();
+    const request = { result: { close } } as unknown as IDBOpenDBRequest;
+    const factory = {
+      open: jest.fn(() => {
+        setTimeout(() =>
+          request.onblocked?.(new Event("blocked") as IDBVersionChangeEvent),
+        );
+        return request;
+      }),
+    } as unknown as IDBFactory;
+
+    const store = new IndexedDBCacheStore({ factory });
+    await store.set("key", entry);
+
+    // The other tab closes its connection and the upgrade goes through
+    request.onsuccess?.(new Event("success"));
+
+    expect(close).toHaveBeenCalled();
+  });
+});
+
+describe("createCacheStore", () => {
+  it("uses the in-memory store when IndexedDB is unavailable", () => {
+    expect(createCacheStore()).toBeInstanceOf(MemoryCacheStore);
+  });
+});
@@ -0,0 +1,209 @@
+import { API } from "@config/constants";
+import { logger } from "@infrastructure/logging/Logger";
+import { CacheEntry, CacheStore } from "./CacheStore";
+import { MemoryCacheStore } from "./MemoryCacheStore";
+
+const DB_VERSION = 1;
+const STORE_NAME = "responses";
+const LAST_ACCESSED_INDEX = "lastAccessed";
+
+/**
+ * Record shape persisted in the object store
+ */
+interface CacheRecord extends CacheEntry {
+  key: string;
+}
+
+/**
+ * Wrap an IDBRequest in a Promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Wait for a transaction to commit
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * IndexedDB Cache Store
+ *
+ * Persistent LRU response cache that survives page reloads, so repeat visits
+ * don't spend Comic Vine quota on responses we already have.
+ *
+ * Features:
+ * - Size-bounded (maxEntries) with least-recently-used eviction
+ * - Falls back to an in-memory store if the database can't be opened
+ *   (private browsing, blocked storage, an upgrade blocked by another tab)
+ *
+ * @example
+ * ```typescript
+ * const store = new IndexedDBCacheStore({ maxEntries: 500 });
+ * const entry = await store.get('/character/4005-1443/?field_list=id,name');
+ * ```
+ */
+export class IndexedDBCacheStore implements CacheStore {
+  private readonly dbPromise: Promise<IDBDatabase | null>;
+  private readonly fallback: MemoryCacheStore;
+  private readonly maxEntries: number;
+
+  constructor(
+    options: {
+      dbName?: string;
+      maxEntries?: number;
+      factory?: IDBFactory;
+    } = {},
+  ) {
+    this.maxEntries = options.maxEntries ?? API.CACHE_MAX_ENTRIES;
+    this.fallback = new MemoryCacheStore({ maxEntries: this.maxEntries });
+    this.dbPromise = this.open(
+      options.dbName ?? "marvel_api_cache",
+      options.factory ?? indexedDB,
+    );
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const db = await this.dbPromise;
+    if (!db) {
+      return this.fallback.get<T>(key);
+    }
+
+    try {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      const store = transaction.objectStore(STORE_NAME);
+      const record = (await promisifyRequest(store.get(key))) as
+        | CacheRecord
+        | undefined;
+
+      if (!record) {
+        return null;
+      }
+
+      // Mark as most recently used
+      record.lastAccessed = Date.now();
+      store.put(record);
+      await transactionDone(transaction);
+
+      return {
+        data: record.data as T,
+        timestamp: record.timestamp,
+        ttl: record.ttl,
+        lastAccessed: record.lastAccessed,
+      };
+    } catch (error) {
+      logger.warn("IndexedDB cache read failed", { key, error });
+      return null;
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const db = await this.dbPromise;
+    if (!db) {
+      return this.fallback.set(key, entry);
+    }
+
+    try {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      const store = transaction.objectStore(STORE_NAME);
+      const record: CacheRecord = { key, ...entry };
+      store.put(record);
+
+      // Evict least recently used entries beyond the size bound
+      const count = await promisifyRequest(store.count());
+      let toEvict = count - this.maxEntries;
+
+      if (toEvict > 0) {
+        const cursorRequest = store.index(LAST_ACCESSED_INDEX).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor || toEvict <= 0) return;
+          cursor.delete();
+          toEvict--;
+          cursor.continue();
+        };
+      }
+
+      await transactionDone(transaction);
+    } catch (error) {
+      // Quota errors shouldn't break the request that produced the data
+      logger.warn("IndexedDB cache write failed", { key, error });
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const db = await this.dbPromise;
+    if (!db) {
+      return this.fallback.delete(key);
+    }
+
+    try {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      transaction.objectStore(STORE_NAME).delete(key);
+      await transactionDone(transaction);
+    } catch (error) {
+      logger.warn("IndexedDB cache delete failed", { key, error });
+    }
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.dbPromise;
+    if (!db) {
+      return this.fallback.clear();
+    }
+
+    try {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      transaction.objectStore(STORE_NAME).clear();
+      await transactionDone(transaction);
+    } catch (error) {
+      logger.warn("IndexedDB cache clear failed", { error });
+    }
+  }
+
+  /**
+   * Open (and upgrade) the database, resolving null if it is unavailable
+   */
+  private async open(
+    dbName: string,
+    factory: IDBFactory,
+  ): Promise<IDBDatabase | null> {
+    try {
+      const request = factory.open(dbName, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: "key" });
+          store.createIndex(LAST_ACCESSED_INDEX, "lastAccessed");
+        }
+      };
+
+      return await new Promise<IDBDatabase>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        // Another tab holds an older version open. The upgrade waits until
+        // that tab closes it, which may be never, so use memory instead and
+        // close the database if it opens later so it can't block other tabs
+        request.onblocked = () => {
+          request.onsuccess = () => request.result.close();
+          reject(new Error("IndexedDB upgrade blocked by another tab"));
+        };
+      });
+    } catch (error) {
+      logger.warn("IndexedDB unavailable, using in-memory response cache", {
+        error,
+      });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * MemoryCacheStore Tests
+ *
+ * Tests for the in-memory LRU response cache covering
+ * get/set, recency tracking, eviction and clearing.
+ */
+
+import { MemoryCacheStore } from "./MemoryCacheStore";
+import { CacheEntry } from "./CacheStore";
+
+describe("MemoryCacheStore", () => {
+  const createEntry = <T>(data: T): CacheEntry<T> => ({
+    data,
+    timestamp: Date.now(),
+    ttl: 60000,
+    lastAccessed: Date.now(),
+  });
+
+  it("returns null for missing keys", async () => {
+    const store = new MemoryCacheStore();
+
+    expect(await store.get("missing")).toBeNull();
+  });
+
+  it("stores and returns entries", async () => {
+    const store = new MemoryCacheStore();
+
+    await store.set("key", createEntry({ id: 1 }));
+
+    const entry = await store.get<{ id: number }>("key");
+    expect(entry?.data).toEqual({ id: 1 });
+    expect(entry?.ttl).toBe(60000);
+  });
+
+  it("evicts the least recently used entry when full", async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+
+    await store.set("a", createEntry("a"));
+    await store.set("b", createEntry("b"));
+
+    // Touch "a" so "b" becomes least recently used
+    await store.get("a");
+    await store.set("c", createEntry("c"));
+
+    expect(store.size).toBe(2);
+    expect(await store.get("a")).not.toBeNull();
+    expect(await store.get("b")).toBeNull();
+    expect(await store.get("c")).not.toBeNull();
+  });
+
+  it("updates lastAccessed on read", async () => {
+    const store = new MemoryCacheStore();
+    await store.set("key", { ...createEntry("value"), lastAccessed: 0 });
+
+    const entry = await store.get("key");
+
+    expect(entry?.lastAccessed).toBeGreaterThan(0);
+  });
+
+  it("deletes and clears entries", async () => {
+    const store = new MemoryCacheStore();
+    await store.set("a", createEntry("a"));
+    await store.set("b", createEntry("b"));
+
+    await store.delete("a");
+    expect(await store.get("a")).toBeNull();
+
+    await store.clear();
+    expect(store.size).toBe(0);
+  });
+});
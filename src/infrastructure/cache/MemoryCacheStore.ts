@@ -0,0 +1,65 @@
+import { API } from "@config/constants";
+import { CacheEntry, CacheStore } from "./CacheStore";
+
+/**
+ * Memory Cache Store
+ *
+ * In-memory LRU cache backed by a Map (insertion order = recency order).
+ * Used in Jest and as a fallback when IndexedDB is unavailable (e.g. private browsing).
+ * Contents are lost on page reload.
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryCacheStore({ maxEntries: 2 });
+ * ```
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? API.CACHE_MAX_ENTRIES;
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = this.entries.get(key) as CacheEntry<T> | undefined;
+
+    if (!entry) {
+      return null;
+    }
+
+    // Re-insert to mark as most recently used
+    const touched = { ...entry, lastAccessed: Date.now() };
+    this.entries.delete(key);
+    this.entries.set(key, touched);
+
+    return touched;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    // Evict least recently used entries (first in Map order)
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of entries currently held
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
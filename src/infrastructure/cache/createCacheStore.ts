@@ -0,0 +1,17 @@
+import { CacheStore } from "./CacheStore";
+import { IndexedDBCacheStore } from "./IndexedDBCacheStore";
+import { MemoryCacheStore } from "./MemoryCacheStore";
+
+/**
+ * Create the best available response cache store for the current environment
+ *
+ * - Browser with IndexedDB: persistent store that survives reloads
+ * - Jest (jsdom), SSR or browsers without IndexedDB: in-memory store
+ */
+export function createCacheStore(): CacheStore {
+  if (typeof indexedDB === "undefined") {
+    return new MemoryCacheStore();
+  }
+
+  return new IndexedDBCacheStore();
+}
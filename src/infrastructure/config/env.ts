@@ -20,6 +20,11 @@ const envSchema = z.object({
    * Falls back to window.location.origin if not set.
    */
   VITE_APP_URL: z.string().optional().default(""),
+  /**
+   * Favorites sync endpoint (e.g. `/api/favorites`).
+   * Favorites stay in this browser only when not set.
+   */
+  VITE_FAVORITES_API_URL: z.string().optional().default(""),
 });
 
 function validateEnv() {
@@ -54,6 +59,7 @@ function validateEnv() {
         VITE_COMICVINE_API_KEY: "",
         VITE_API_BASE_URL: "/api",
         VITE_APP_URL: "",
+        VITE_FAVORITES_API_URL: "",
       };
     }
     throw error;
@@ -65,6 +71,7 @@ const env = validateEnv();
 export const config = {
   comicVineApiKey: env.VITE_COMICVINE_API_KEY,
   apiBaseUrl: env.VITE_API_BASE_URL,
+  favoritesApiUrl: env.VITE_FAVORITES_API_URL,
   appUrl:
     env.VITE_APP_URL ||
     (typeof window !== "undefined" ? window.location.origin : ""),
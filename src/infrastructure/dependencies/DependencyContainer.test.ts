@@ -0,0 +1,42 @@
+/**
+ * DependencyContainer Tests
+ *
+ * Tests that the testing factory never reaches real infrastructure
+ * unless a test provides it.
+ */
+
+import { DependencyContainer } from "./DependencyContainer";
+import { FixtureMissError } from "@infrastructure/http/ComicVineApiClient";
+import { CharacterRepository } from "@domain/character/ports/CharacterRepository";
+import { FavoritesRepository } from "@domain/character/ports/FavoritesRepository";
+
+jest.mock("@infrastructure/logging/Logger");
+
+describe("DependencyContainer", () => {
+  describe("createForTesting", () => {
+    it("should default to an API client that rejects every request", async () => {
+      const container = DependencyContainer.createForTesting(
+        {} as CharacterRepository,
+        {} as FavoritesRepository,
+      );
+
+      await expect(
+        container.services.apiClient.get("/characters/", { limit: 1 }),
+      ).rejects.toBeInstanceOf(FixtureMissError);
+    });
+
+    it("should route the default team and power repositories through it", async () => {
+      const container = DependencyContainer.createForTesting(
+        {} as CharacterRepository,
+        {} as FavoritesRepository,
+      );
+
+      await expect(
+        container.useCases.getTeamDetail.execute(3806),
+      ).rejects.toBeInstanceOf(FixtureMissError);
+      await expect(
+        container.useCases.getPowerDetail.execute(1),
+      ).rejects.toBeInstanceOf(FixtureMissError);
+    });
+  });
+});
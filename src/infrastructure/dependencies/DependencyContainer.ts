@@ -1,16 +1,46 @@
 import { CharacterRepository } from "@domain/character/ports/CharacterRepository";
 import { FavoritesRepository } from "@domain/character/ports/FavoritesRepository";
+import { FavoriteCollectionsRepository } from "@domain/character/ports/FavoriteCollectionsRepository";
+import { FavoritesSync } from "@domain/character/ports/FavoritesSync";
+import { TeamRepository } from "@domain/character/ports/TeamRepository";
+import { PowerRepository } from "@domain/character/ports/PowerRepository";
 import { ComicVineCharacterRepository } from "@infrastructure/repositories/ComicVineCharacterRepository";
+import { ComicVineTeamRepository } from "@infrastructure/repositories/ComicVineTeamRepository";
+import { ComicVinePowerRepository } from "@infrastructure/repositories/ComicVinePowerRepository";
 import { LocalStorageFavoritesRepository } from "@infrastructure/repositories/LocalStorageFavoritesRepository";
+import { RestFavoritesRepository } from "@infrastructure/repositories/RestFavoritesRepository";
+import { LocalStorageCollectionsRepository } from "@infrastructure/repositories/LocalStorageCollectionsRepository";
 import { ListCharacters } from "@application/character/useCases/ListCharacters";
 import { SearchCharacters } from "@application/character/useCases/SearchCharacters";
 import { GetCharacterDetail } from "@application/character/useCases/GetCharacterDetail";
 import { ListCharacterComics } from "@application/character/useCases/ListCharacterComics";
+import { ListCharacterRelationships } from "@application/character/useCases/ListCharacterRelationships";
 import { ToggleFavorite } from "@application/character/useCases/ToggleFavorite";
 import { ListFavorites } from "@application/character/useCases/ListFavorites";
 import { FilterCharacters } from "@application/character/useCases/FilterCharacters";
+import { ListCollections } from "@application/character/useCases/ListCollections";
+import { CreateCollection } from "@application/character/useCases/CreateCollection";
+import { DeleteCollection } from "@application/character/useCases/DeleteCollection";
+import { AddToCollection } from "@application/character/useCases/AddToCollection";
+import { RemoveFromCollection } from "@application/character/useCases/RemoveFromCollection";
+import { UpdateCollectionEntry } from "@application/character/useCases/UpdateCollectionEntry";
+import { ExportFavorites } from "@application/character/useCases/ExportFavorites";
+import { ImportFavorites } from "@application/character/useCases/ImportFavorites";
+import { ShareFavorites } from "@application/character/useCases/ShareFavorites";
+import { GetSharedList } from "@application/character/useCases/GetSharedList";
+import { AddSharedFavorites } from "@application/character/useCases/AddSharedFavorites";
+import { GetTeamDetail } from "@application/character/useCases/GetTeamDetail";
+import { ListTeamMembers } from "@application/character/useCases/ListTeamMembers";
+import { GetPowerDetail } from "@application/character/useCases/GetPowerDetail";
+import { ListPowerCharacters } from "@application/character/useCases/ListPowerCharacters";
+import { JsonCsvFavoritesFileCodec } from "@infrastructure/storage/JsonCsvFavoritesFileCodec";
 import { SEOService } from "@application/seo/ports/SEOService";
 import { BrowserSEOService } from "@infrastructure/seo/BrowserSEOService";
+import { ComicVineApiClient } from "@infrastructure/http/ComicVineApiClient";
+import { RateLimiter } from "@infrastructure/http/RateLimiter";
+import { MemoryCacheStore } from "@infrastructure/cache/MemoryCacheStore";
+import { MemoryFixtureStore } from "@infrastructure/fixtures/MemoryFixtureStore";
+import { config } from "@infrastructure/config/env";
 
 /**
  * Dependency Container
@@ -36,10 +66,15 @@ export class DependencyContainer {
   private readonly _repositories: {
     character: CharacterRepository;
     favorites: FavoritesRepository;
+    collections: FavoriteCollectionsRepository;
+    team: TeamRepository;
+    power: PowerRepository;
   };
 
   private readonly _services: {
     seo: SEOService;
+    apiClient: ComicVineApiClient;
+    favoritesSync: FavoritesSync | null;
   };
 
   private readonly _useCases: {
@@ -47,60 +82,138 @@ export class DependencyContainer {
     searchCharacters: SearchCharacters;
     getCharacterDetail: GetCharacterDetail;
     listCharacterComics: ListCharacterComics;
+    listCharacterRelationships: ListCharacterRelationships;
     toggleFavorite: ToggleFavorite;
     listFavorites: ListFavorites;
     filterCharacters: FilterCharacters;
+    listCollections: ListCollections;
+    createCollection: CreateCollection;
+    deleteCollection: DeleteCollection;
+    addToCollection: AddToCollection;
+    removeFromCollection: RemoveFromCollection;
+    updateCollectionEntry: UpdateCollectionEntry;
+    exportFavorites: ExportFavorites;
+    importFavorites: ImportFavorites;
+    shareFavorites: ShareFavorites;
+    getSharedList: GetSharedList;
+    addSharedFavorites: AddSharedFavorites;
+    getTeamDetail: GetTeamDetail;
+    listTeamMembers: ListTeamMembers;
+    getPowerDetail: GetPowerDetail;
+    listPowerCharacters: ListPowerCharacters;
   };
 
   private constructor(
     characterRepository: CharacterRepository,
     favoritesRepository: FavoritesRepository,
+    collectionsRepository: FavoriteCollectionsRepository,
+    teamRepository: TeamRepository,
+    powerRepository: PowerRepository,
     seoService: SEOService,
+    apiClient: ComicVineApiClient,
+    favoritesSync: FavoritesSync | null,
   ) {
     // Store repositories
     this._repositories = {
       character: characterRepository,
       favorites: favoritesRepository,
+      collections: collectionsRepository,
+      team: teamRepository,
+      power: powerRepository,
     };
 
     // Store services
     this._services = {
       seo: seoService,
+      apiClient, // Shared HTTP client (cache revalidation events)
+      favoritesSync, // Device linking (null when favorites stay in this browser)
     };
 
+    const favoritesFileCodec = new JsonCsvFavoritesFileCodec();
+
     // Create use cases with injected repositories
     this._useCases = {
       listCharacters: new ListCharacters(characterRepository),
       searchCharacters: new SearchCharacters(characterRepository), //Calls api to search for characters
       getCharacterDetail: new GetCharacterDetail(characterRepository),
       listCharacterComics: new ListCharacterComics(characterRepository),
+      listCharacterRelationships: new ListCharacterRelationships(
+        characterRepository,
+      ),
       toggleFavorite: new ToggleFavorite(favoritesRepository),
       listFavorites: new ListFavorites(
         characterRepository,
         favoritesRepository,
       ),
       filterCharacters: new FilterCharacters(), //Filters characters on the page
+      listCollections: new ListCollections(collectionsRepository),
+      createCollection: new CreateCollection(collectionsRepository),
+      deleteCollection: new DeleteCollection(collectionsRepository),
+      addToCollection: new AddToCollection(
+        collectionsRepository,
+        favoritesRepository,
+      ),
+      removeFromCollection: new RemoveFromCollection(collectionsRepository),
+      updateCollectionEntry: new UpdateCollectionEntry(collectionsRepository),
+      exportFavorites: new ExportFavorites(
+        favoritesRepository,
+        favoritesFileCodec,
+      ),
+      importFavorites: new ImportFavorites(
+        favoritesRepository,
+        characterRepository,
+        favoritesFileCodec,
+      ),
+      shareFavorites: new ShareFavorites(favoritesRepository),
+      getSharedList: new GetSharedList(characterRepository),
+      addSharedFavorites: new AddSharedFavorites(favoritesRepository),
+      getTeamDetail: new GetTeamDetail(teamRepository),
+      listTeamMembers: new ListTeamMembers(teamRepository, characterRepository),
+      getPowerDetail: new GetPowerDetail(powerRepository),
+      listPowerCharacters: new ListPowerCharacters(
+        powerRepository,
+        characterRepository,
+      ),
     };
   }
 
   /**
    * Factory method to create a container with production dependencies
+   *
+   * Favorites sync with the favorites server when VITE_FAVORITES_API_URL is
+   * set, and stay in this browser otherwise.
    */
   static create(): DependencyContainer {
-    const characterRepository = new ComicVineCharacterRepository();
-    const favoritesRepository = new LocalStorageFavoritesRepository();
+    const apiClient = new ComicVineApiClient();
+    const characterRepository = new ComicVineCharacterRepository(apiClient);
+    const syncedFavorites = config.favoritesApiUrl
+      ? new RestFavoritesRepository({ url: config.favoritesApiUrl })
+      : null;
+    const favoritesRepository =
+      syncedFavorites || new LocalStorageFavoritesRepository();
+    const collectionsRepository = new LocalStorageCollectionsRepository();
+    const teamRepository = new ComicVineTeamRepository(apiClient);
+    const powerRepository = new ComicVinePowerRepository(apiClient);
     const seoService = new BrowserSEOService();
 
     return new DependencyContainer(
       characterRepository,
       favoritesRepository,
+      collectionsRepository,
+      teamRepository,
+      powerRepository,
       seoService,
+      apiClient,
+      syncedFavorites,
     );
   }
 
   /**
    * Factory method for testing - allows custom repository implementations
    *
+   * Without an API client, an offline one is used: every request rejects
+   * instead of reaching the network, IndexedDB or localStorage.
+   *
    * @example
    * ```typescript
    * const mockCharacterRepo = new MockCharacterRepository();
@@ -112,16 +225,39 @@ export class DependencyContainer {
     characterRepository: CharacterRepository,
     favoritesRepository: FavoritesRepository,
     seoService?: SEOService,
+    apiClient?: ComicVineApiClient,
+    collectionsRepository?: FavoriteCollectionsRepository,
+    teamRepository?: TeamRepository,
+    powerRepository?: PowerRepository,
+    favoritesSync?: FavoritesSync,
   ): DependencyContainer {
+    const client = apiClient || DependencyContainer.createOfflineApiClient();
     return new DependencyContainer(
       characterRepository,
       favoritesRepository,
+      collectionsRepository || new LocalStorageCollectionsRepository(),
+      teamRepository || new ComicVineTeamRepository(client),
+      powerRepository || new ComicVinePowerRepository(client),
       seoService || new BrowserSEOService(),
+      client,
+      favoritesSync || null,
     );
   }
 
   /**
-   * Get services (infrastructure services like SEO)
+   * API client that replays an empty fixture store, so every request rejects
+   * with a FixtureMissError and nothing is persisted
+   */
+  private static createOfflineApiClient(): ComicVineApiClient {
+    return new ComicVineApiClient({
+      cacheStore: new MemoryCacheStore(),
+      rateLimiter: new RateLimiter({ storage: null, channel: null }),
+      fixtures: { mode: "replay", store: new MemoryFixtureStore() },
+    });
+  }
+
+  /**
+   * Get services (infrastructure services like SEO and the API client)
    */
   get services() {
     return this._services;
@@ -0,0 +1,78 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FileFixtureStore, getFixtureFileName } from "./FileFixtureStore";
+
+describe("FileFixtureStore", () => {
+  let directory: string;
+  let store: FileFixtureStore;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "comicvine-fixtures-"));
+    store = new FileFixtureStore(join(directory, "recordings"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should return undefined for unrecorded keys", async () => {
+    await expect(store.get("/characters/?")).resolves.toBeUndefined();
+  });
+
+  it("should round-trip recorded responses", async () => {
+    const response = { error: "OK", results: [{ id: 1443 }] };
+
+    await store.set("/characters/?limit=50&offset=0", response);
+
+    await expect(store.get("/characters/?limit=50&offset=0")).resolves.toEqual(
+      response,
+    );
+    await expect(store.get("/characters/?limit=50&offset=50")).resolves.toBe(
+      undefined,
+    );
+  });
+
+  it("should write one reviewable JSON file per key", async () => {
+    const key = "/character/4005-1443/?field_list=id,name";
+
+    await store.set(key, { results: { id: 1443 } });
+
+    const files = await readdir(join(directory, "recordings"));
+    expect(files).toEqual([getFixtureFileName(key)]);
+
+    const contents = JSON.parse(
+      await readFile(join(directory, "recordings", files[0] ?? ""), "utf8"),
+    );
+    expect(contents).toMatchObject({ key, data: { results: { id: 1443 } } });
+    expect(typeof contents.recordedAt).toBe("string");
+  });
+
+  it("should ignore files recorded for a different key", async () => {
+    const key = "/characters/?";
+    await store.set(key, { results: [] });
+    await writeFile(
+      join(directory, "recordings", getFixtureFileName(key)),
+      JSON.stringify({ key: "/issues/?", recordedAt: "", data: {} }),
+    );
+
+    await expect(store.get(key)).resolves.toBeUndefined();
+  });
+
+  describe("getFixtureFileName", () => {
+    it("should derive a readable, stable name from the endpoint", () => {
+      const name = getFixtureFileName("/character/4005-1443/?field_list=id");
+
+      expect(name).toMatch(/^character-4005-1443-[0-9a-f]{8}\.json$/);
+      expect(getFixtureFileName("/character/4005-1443/?field_list=id")).toBe(
+        name,
+      );
+    });
+
+    it("should distinguish keys with different params", () => {
+      expect(getFixtureFileName("/characters/?offset=0")).not.toBe(
+        getFixtureFileName("/characters/?offset=50"),
+      );
+    });
+  });
+});
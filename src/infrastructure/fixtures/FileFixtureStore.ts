@@ -0,0 +1,90 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { FixtureStore } from "./FixtureStore";
+
+/**
+ * Recorded fixture file contents
+ */
+interface FixtureFile {
+  key: string;
+  recordedAt: string; // ISO date
+  data: unknown;
+}
+
+/**
+ * 32-bit FNV-1a hash, hex encoded (stable file names without Node's crypto)
+ */
+function hashKey(key: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Readable, filesystem-safe file name for a key
+ * e.g. '/character/4005-1443/?field_list=id,name' → 'character-4005-1443-1a2b3c4d.json'
+ */
+export function getFixtureFileName(key: string): string {
+  const endpoint = key.split("?")[0] ?? "";
+  const slug =
+    endpoint
+      .split("/")
+      .filter(Boolean)
+      .join("-")
+      .replace(/[^a-zA-Z0-9-]/g, "_") || "root";
+  return `${slug}-${hashKey(key)}.json`;
+}
+
+/**
+ * File Fixture Store
+ *
+ * Node-only store writing one JSON file per recorded request
+ * (`{ key, recordedAt, data }`), so recordings can be committed and reviewed.
+ * Used by Jest integration tests and the E2E mock server - never by the browser bundle.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileFixtureStore('src/tests/fixtures/comicvine');
+ * const client = new ComicVineApiClient({ fixtures: { mode: 'replay', store } });
+ * ```
+ */
+export class FileFixtureStore implements FixtureStore {
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<unknown | undefined> {
+    try {
+      const contents = await readFile(this.getPath(key), "utf8");
+      const fixture = JSON.parse(contents) as FixtureFile;
+
+      // Guard against hash collisions
+      return fixture.key === key ? fixture.data : undefined;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, data: unknown): Promise<void> {
+    const fixture: FixtureFile = {
+      key,
+      recordedAt: new Date().toISOString(),
+      data,
+    };
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(
+      this.getPath(key),
+      `${JSON.stringify(fixture, null, 2)}\n`,
+      "utf8",
+    );
+  }
+
+  private getPath(key: string): string {
+    return join(this.directory, getFixtureFileName(key));
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Fixture Store
+ *
+ * Storage contract for recorded API responses, keyed by request cache key
+ * (see getCacheKey). Used by ComicVineApiClient's record and replay modes.
+ *
+ * @example
+ * ```typescript
+ * const store: FixtureStore = new MemoryFixtureStore();
+ * await store.set('/characters/?limit=50', response);
+ * const recorded = await store.get('/characters/?limit=50');
+ * ```
+ */
+export interface FixtureStore {
+  /**
+   * Get a recorded response
+   *
+   * @param key - Request cache key
+   * @returns Recorded response, undefined when nothing was recorded for the key
+   */
+  get(key: string): Promise<unknown | undefined>;
+
+  /**
+   * Record a response (overwrites a previous recording for the key)
+   *
+   * @param key - Request cache key
+   * @param data - Response body
+   */
+  set(key: string, data: unknown): Promise<void>;
+}
+
+/**
+ * Record mode stores every network response; replay mode serves only recordings
+ */
+export type FixtureMode = "record" | "replay";
@@ -0,0 +1,35 @@
+import { FixtureStore } from "./FixtureStore";
+
+/**
+ * Memory Fixture Store
+ *
+ * Holds recorded responses in a Map. Seed it with fixtures bundled into the
+ * app (e.g. Storybook, via import.meta.glob) or use it to capture responses in tests.
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryFixtureStore({ '/character/4005-1443/?': response });
+ * ```
+ */
+export class MemoryFixtureStore implements FixtureStore {
+  private readonly fixtures: Map<string, unknown>;
+
+  constructor(fixtures: Record<string, unknown> = {}) {
+    this.fixtures = new Map(Object.entries(fixtures));
+  }
+
+  async get(key: string): Promise<unknown | undefined> {
+    return this.fixtures.get(key);
+  }
+
+  async set(key: string, data: unknown): Promise<void> {
+    this.fixtures.set(key, data);
+  }
+
+  /**
+   * All recordings, e.g. to persist them after a recording session
+   */
+  toJSON(): Record<string, unknown> {
+    return Object.fromEntries(this.fixtures);
+  }
+}
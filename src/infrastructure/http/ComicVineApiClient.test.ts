@@ -1,5 +1,8 @@
 import axios, { AxiosInstance } from "axios";
-import { ComicVineApiClient } from "./ComicVineApiClient";
+import { ComicVineApiClient, FixtureMissError } from "./ComicVineApiClient";
+import { RateLimiter } from "./RateLimiter";
+import { MemoryCacheStore } from "@infrastructure/cache/MemoryCacheStore";
+import { MemoryFixtureStore } from "@infrastructure/fixtures/MemoryFixtureStore";
 
 jest.mock("axios");
 jest.mock("../config/env", () => ({
@@ -12,8 +15,13 @@ jest.mock("../config/env", () => ({
 
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
+// Let fire-and-forget background revalidations settle
+const waitForRevalidation = () => new Promise((resolve) => setTimeout(resolve));
+
 type MockAxiosInstance = Pick<AxiosInstance, "get" | "interceptors">;
 
+const OriginalAbortController = global.AbortController;
+
 describe("ComicVineApiClient", () => {
   let client: ComicVineApiClient;
   let mockAxiosInstance: jest.Mocked<MockAxiosInstance>;
@@ -47,7 +55,10 @@ describe("ComicVineApiClient", () => {
     (mockedAxios.isCancel as jest.MockedFunction<typeof mockedAxios.isCancel>) =
       jest.fn(() => false) as unknown as typeof mockedAxios.isCancel;
 
-    client = new ComicVineApiClient();
+    client = new ComicVineApiClient({
+      rateLimiter: new RateLimiter({ storage: null, channel: null }),
+      minRequestInterval: 0,
+    });
 
     // Clear cache between tests
     client.clearCache();
@@ -55,6 +66,7 @@ describe("ComicVineApiClient", () => {
 
   afterEach(() => {
     jest.clearAllMocks();
+    global.AbortController = OriginalAbortController;
   });
 
   describe("get", () => {
@@ -121,16 +133,60 @@ describe("ComicVineApiClient", () => {
 
       await client.get("/characters/", { limit: 50 });
 
-      // Simulate time passing (6 minutes)
-      jest.spyOn(Date, "now").mockReturnValue(Date.now() + 6 * 60 * 1000);
+      // Simulate time passing (61 minutes - character lists live for 1 hour)
+      const now = Date.now();
+      jest.spyOn(Date, "now").mockReturnValue(now + 61 * 60 * 1000);
 
       await client.get("/characters/", { limit: 50 });
 
       // Should call API twice (cache expired)
       expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+
+      jest.restoreAllMocks();
+    });
+
+    it("should apply per-resource TTLs", async () => {
+      const mockResponse = {
+        data: { error: "OK", results: [] },
+      };
+
+      mockAxiosInstance.get.mockResolvedValue(mockResponse);
+
+      await client.get("/issues/", { filter: "id:1|2" });
+      await client.get("/search/", { query: "thor" });
+
+      // Simulate time passing (1 day)
+      const now = Date.now();
+      jest.spyOn(Date, "now").mockReturnValue(now + 24 * 60 * 60 * 1000);
+
+      await client.get("/issues/", { filter: "id:1|2" }); // Cached for 7 days
+      await client.get("/search/", { query: "thor" }); // Default 5 minute TTL
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(3);
+
+      jest.restoreAllMocks();
+    });
+
+    it("should use an injected cache store", async () => {
+      const cacheStore = new MemoryCacheStore();
+      client = new ComicVineApiClient({
+        cacheStore,
+        rateLimiter: new RateLimiter({ storage: null, channel: null }),
+        minRequestInterval: 0,
+      });
+
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { error: "OK", results: [{ id: 1 }] },
+      });
+
+      await client.get("/characters/", { limit: 50 });
+
+      const entry = await cacheStore.get("/characters/?limit=50");
+      expect(entry?.data).toEqual({ error: "OK", results: [{ id: 1 }] });
+      expect(entry?.ttl).toBe(60 * 60 * 1000);
     });
 
-    it("should handle rate limiting", async () => {
+    it("should queue requests once the rate limit is reached", async () => {
       // Make 200 requests to hit rate limit
       const mockResponse = {
         data: { error: "OK", results: [] },
@@ -143,33 +199,273 @@ describe("ComicVineApiClient", () => {
         await client.get(`/character/${i}/`, {}, { useCache: false });
       }
 
-      // 201st request should throw rate limit error
-      await expect(
-        client.get("/character/201/", {}, { useCache: false }),
-      ).rejects.toThrow("Rate limit exceeded");
+      // 201st request waits in the queue until cancelled
+      const controller = new AbortController();
+      const queued = client.get(
+        "/character/201/",
+        {},
+        { useCache: false, signal: controller.signal },
+      );
+      await waitForRevalidation();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(200);
+
+      controller.abort();
+      await expect(queued).rejects.toThrow("Request was cancelled");
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(200);
     });
 
-    it("should cancel previous request for same endpoint", async () => {
-      const abortSpy = jest.fn();
-      global.AbortController = jest.fn().mockImplementation(() => ({
-        abort: abortSpy,
-        signal: {} as AbortSignal,
-      })) as unknown as typeof AbortController;
+    it("should share one pending request between identical calls", async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: { error: "OK", results: { id: 1 } },
+      });
+
+      const [first, second] = await Promise.all([
+        client.get("/character/4005-1/"),
+        client.get("/character/4005-1/"),
+      ]);
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+      expect(first).toEqual({ error: "OK", results: { id: 1 } });
+      expect(second).toBe(first);
+    });
+
+    it("should not share requests with different params", async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { error: "OK", results: [] },
+      });
+
+      await Promise.all([
+        client.get("/characters/", { offset: 0 }),
+        client.get("/characters/", { offset: 50 }),
+      ]);
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    it("should keep a shared request alive while any caller waits", async () => {
+      let resolveRequest: (value: unknown) => void = () => {};
+      mockAxiosInstance.get.mockImplementationOnce(
+        () => new Promise((resolve) => (resolveRequest = resolve)),
+      );
+      const firstCaller = new AbortController();
+
+      const first = client.get("/character/4005-1/", undefined, {
+        signal: firstCaller.signal,
+      });
+      const second = client.get("/character/4005-1/");
+      await waitForRevalidation();
+
+      firstCaller.abort();
+      await expect(first).rejects.toThrow("Request was cancelled");
+
+      const requestSignal = mockAxiosInstance.get.mock.calls[0]?.[1]
+        ?.signal as AbortSignal;
+      expect(requestSignal.aborted).toBe(false);
+
+      resolveRequest({ data: { error: "OK", results: { id: 1 } } });
+      await expect(second).resolves.toEqual({
+        error: "OK",
+        results: { id: 1 },
+      });
+    });
+
+    it("should abort a shared request once every caller cancels", async () => {
+      mockAxiosInstance.get.mockImplementationOnce(() => new Promise(() => {}));
+      const firstCaller = new AbortController();
+      const secondCaller = new AbortController();
+
+      const first = client.get("/character/4005-1/", undefined, {
+        signal: firstCaller.signal,
+      });
+      const second = client.get("/character/4005-1/", undefined, {
+        signal: secondCaller.signal,
+      });
+      await waitForRevalidation();
+
+      const requestSignal = mockAxiosInstance.get.mock.calls[0]?.[1]
+        ?.signal as AbortSignal;
+
+      firstCaller.abort();
+      expect(requestSignal.aborted).toBe(false);
+
+      secondCaller.abort();
+      expect(requestSignal.aborted).toBe(true);
+
+      await expect(first).rejects.toThrow("Request was cancelled");
+      await expect(second).rejects.toThrow("Request was cancelled");
+    });
+
+    it("should not share a cached request with a caller that skips the cache", async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { error: "OK", results: { id: 1 } },
+      });
+
+      await Promise.all([
+        client.get("/character/4005-1/"),
+        client.get("/character/4005-1/", undefined, { useCache: false }),
+      ]);
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    it("should raise a shared request to a joining caller's priority", async () => {
+      // Budget down to the reserve: prefetches wait, user requests go through
+      client = new ComicVineApiClient({
+        rateLimiter: new RateLimiter({
+          storage: null,
+          channel: null,
+          maxRequests: 20,
+        }),
+        minRequestInterval: 0,
+      });
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { error: "OK", results: { id: 1 } },
+      });
+
+      const prefetch = client.get("/character/4005-1/", undefined, {
+        useCache: false,
+        priority: "prefetch",
+      });
+      await waitForRevalidation();
+      expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+
+      const user = client.get("/character/4005-1/", undefined, {
+        useCache: false,
+      });
+
+      await expect(user).resolves.toEqual({ error: "OK", results: { id: 1 } });
+      await expect(prefetch).resolves.toEqual({
+        error: "OK",
+        results: { id: 1 },
+      });
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    });
+
+    it("should start a new request after the shared one settles", async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { error: "OK", results: [] },
+      });
+
+      await client.get("/characters/", { limit: 50 }, { useCache: false });
+      await client.get("/characters/", { limit: 50 }, { useCache: false });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("stale-while-revalidate", () => {
+    const expireCache = () => {
+      const now = Date.now();
+      jest.spyOn(Date, "now").mockReturnValue(now + 25 * 60 * 60 * 1000);
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
 
+    it("returns stale data immediately and refreshes in background", async () => {
       mockAxiosInstance.get
-        .mockImplementationOnce(() => new Promise(() => {})) // Never resolves
-        .mockResolvedValueOnce({ data: { error: "OK", results: [] } });
+        .mockResolvedValueOnce({ data: { error: "OK", results: { id: 1 } } })
+        .mockResolvedValueOnce({ data: { error: "OK", results: { id: 2 } } });
 
-      // First request (will be cancelled)
-      void client.get("/characters/", { limit: 50 });
+      await client.get("/character/4005-1/", {});
+      expireCache();
 
-      // Second request (should cancel first)
-      const promise2 = client.get("/characters/", { limit: 50 });
+      const stale = await client.get(
+        "/character/4005-1/",
+        {},
+        { staleWhileRevalidate: true },
+      );
 
-      await promise2;
+      expect(stale).toEqual({ error: "OK", results: { id: 1 } });
+      await waitForRevalidation();
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
 
-      // First request's abort controller should be called
-      expect(abortSpy).toHaveBeenCalled();
+      // Fresh payload is now cached
+      const fresh = await client.get("/character/4005-1/", {});
+      expect(fresh).toEqual({ error: "OK", results: { id: 2 } });
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    it("notifies listeners when the payload changed", async () => {
+      const listener = jest.fn();
+      client.onRevalidate(listener);
+
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({ data: { error: "OK", results: [1] } })
+        .mockResolvedValueOnce({ data: { error: "OK", results: [1, 2] } });
+
+      await client.get("/characters/", { limit: 50 });
+      expireCache();
+      await client.get(
+        "/characters/",
+        { limit: 50 },
+        { staleWhileRevalidate: true },
+      );
+      await waitForRevalidation();
+
+      expect(listener).toHaveBeenCalledWith({
+        endpoint: "/characters/",
+        params: { limit: 50 },
+        data: { error: "OK", results: [1, 2] },
+      });
+    });
+
+    it("does not notify listeners when the payload is unchanged", async () => {
+      const listener = jest.fn();
+      const unsubscribe = client.onRevalidate(listener);
+
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { error: "OK", results: [1] },
+      });
+
+      await client.get("/characters/", { limit: 50 });
+      expireCache();
+      await client.get(
+        "/characters/",
+        { limit: 50 },
+        { staleWhileRevalidate: true },
+      );
+      await waitForRevalidation();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      expect(listener).not.toHaveBeenCalled();
+      unsubscribe();
+    });
+
+    it("refetches synchronously for stale entries without the option", async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({ data: { error: "OK", results: [1] } })
+        .mockResolvedValueOnce({ data: { error: "OK", results: [2] } });
+
+      await client.get("/characters/", { limit: 50 });
+      expireCache();
+
+      const result = await client.get("/characters/", { limit: 50 });
+
+      expect(result).toEqual({ error: "OK", results: [2] });
+    });
+
+    it("keeps stale data when background refresh fails", async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({ data: { error: "OK", results: [1] } })
+        .mockRejectedValueOnce({
+          isAxiosError: true,
+          response: { status: 404, data: { error: "Object Not Found" } },
+        });
+
+      await client.get("/characters/", { limit: 50 });
+      expireCache();
+
+      const result = await client.get(
+        "/characters/",
+        { limit: 50 },
+        { staleWhileRevalidate: true },
+      );
+      await waitForRevalidation();
+
+      expect(result).toEqual({ error: "OK", results: [1] });
     });
   });
 
@@ -222,6 +518,23 @@ describe("ComicVineApiClient", () => {
       );
     });
 
+    it("should emit a rate limit warning for 429 responses", async () => {
+      const listener = jest.fn();
+      client.onRateLimitWarning(listener);
+      mockAxiosInstance.get.mockRejectedValue({
+        isAxiosError: true,
+        response: { status: 429, data: { error: "Rate Limit Exceeded" } },
+      });
+
+      await expect(client.get("/characters/")).rejects.toThrow();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({
+        reason: "rejected",
+        retryAt: null,
+      });
+    });
+
     it("should throw ApiError for 500 server error", async () => {
       // Use fake timers to skip retry delays (500 errors trigger retries with exponential backoff)
       jest.useFakeTimers();
@@ -323,7 +636,10 @@ describe("ComicVineApiClient", () => {
       const abortSpy = jest.fn();
       global.AbortController = jest.fn().mockImplementation(() => ({
         abort: abortSpy,
-        signal: {} as AbortSignal,
+        signal: {
+          addEventListener: jest.fn(),
+          removeEventListener: jest.fn(),
+        } as unknown as AbortSignal,
       })) as unknown as typeof AbortController;
 
       mockAxiosInstance.get.mockImplementation(() => new Promise(() => {}));
@@ -342,7 +658,10 @@ describe("ComicVineApiClient", () => {
       const abortSpy = jest.fn();
       global.AbortController = jest.fn().mockImplementation(() => ({
         abort: abortSpy,
-        signal: {} as AbortSignal,
+        signal: {
+          addEventListener: jest.fn(),
+          removeEventListener: jest.fn(),
+        } as unknown as AbortSignal,
       })) as unknown as typeof AbortController;
 
       mockAxiosInstance.get.mockImplementation(() => new Promise(() => {}));
@@ -372,5 +691,128 @@ describe("ComicVineApiClient", () => {
       const afterOneRequest = client.getRemainingRequests();
       expect(afterOneRequest).toBe(199);
     });
+
+    it("should limit each resource independently", async () => {
+      client = new ComicVineApiClient({
+        rateLimiter: new RateLimiter({
+          storage: null,
+          channel: null,
+          maxRequests: 1,
+          timeWindow: 50,
+        }),
+        minRequestInterval: 0,
+      });
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { error: "OK", results: [] },
+      });
+
+      await client.get("/characters/", {}, { useCache: false });
+
+      const queued = client.get(
+        "/characters/",
+        { offset: 50 },
+        { useCache: false },
+      );
+      await expect(
+        client.get("/character/4005-1/", {}, { useCache: false }),
+      ).resolves.toBeDefined();
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      expect(client.getRemainingRequests("/issues/")).toBe(1);
+
+      // Runs once the /characters/ window frees up
+      await expect(queued).resolves.toBeDefined();
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(3);
+    });
+
+    it("should report quota changes", async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { error: "OK", results: [] },
+      });
+      const listener = jest.fn();
+      const unsubscribe = client.onQuotaChange(listener);
+
+      await client.get("/issues/", {}, { useCache: false });
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(
+        client.getQuotas().find((quota) => quota.resource === "issues"),
+      ).toMatchObject({ limit: 200, remaining: 199 });
+    });
+  });
+
+  describe("fixtures", () => {
+    const okResponse = {
+      error: "OK",
+      results: [{ id: 1443, name: "Spider-Man" }],
+    };
+
+    it("should record network responses keyed by cache key", async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: okResponse });
+      const store = new MemoryFixtureStore();
+      const recorder = new ComicVineApiClient({
+        rateLimiter: new RateLimiter({ storage: null, channel: null }),
+        minRequestInterval: 0,
+        fixtures: { mode: "record", store },
+      });
+
+      await recorder.get("/characters/", { offset: 0, limit: 50 });
+
+      expect(store.toJSON()).toEqual({
+        "/characters/?limit=50&offset=0": okResponse,
+      });
+    });
+
+    it("should bypass the cache while recording", async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: okResponse });
+      const recorder = new ComicVineApiClient({
+        rateLimiter: new RateLimiter({ storage: null, channel: null }),
+        minRequestInterval: 0,
+        fixtures: { mode: "record", store: new MemoryFixtureStore() },
+      });
+
+      await recorder.get("/characters/");
+      await recorder.get("/characters/");
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    it("should replay recorded responses without touching the network", async () => {
+      const replayer = new ComicVineApiClient({
+        rateLimiter: new RateLimiter({ storage: null, channel: null }),
+        minRequestInterval: 0,
+        fixtures: {
+          mode: "replay",
+          store: new MemoryFixtureStore({
+            "/characters/?limit=50&offset=0": okResponse,
+          }),
+        },
+      });
+
+      const result = await replayer.get("/characters/", {
+        limit: 50,
+        offset: 0,
+      });
+
+      expect(result).toEqual(okResponse);
+      expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+      expect(replayer.getRemainingRequests("/characters/")).toBe(200);
+    });
+
+    it("should fail loudly when a fixture is missing in replay mode", async () => {
+      const replayer = new ComicVineApiClient({
+        rateLimiter: new RateLimiter({ storage: null, channel: null }),
+        minRequestInterval: 0,
+        fixtures: { mode: "replay", store: new MemoryFixtureStore() },
+      });
+
+      const request = replayer.get("/character/4005-1/");
+
+      await expect(request).rejects.toBeInstanceOf(FixtureMissError);
+      await expect(request).rejects.toThrow(
+        'No recorded fixture for "/character/4005-1/?"',
+      );
+      expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+    });
   });
 });
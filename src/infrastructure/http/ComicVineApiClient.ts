@@ -3,6 +3,19 @@ import { config } from "../config/env";
 import { API } from "@config/constants";
 import { logger } from "@infrastructure/logging/Logger";
 import { isCancellationError, isTimeoutError, getErrorMessage } from "./types";
+import { CacheStore } from "@infrastructure/cache/CacheStore";
+import { createCacheStore } from "@infrastructure/cache/createCacheStore";
+import { RateLimiter, ResourceQuota } from "./RateLimiter";
+import {
+  RequestPriority,
+  RequestScheduler,
+  isHigherPriority,
+} from "./RequestScheduler";
+import { getCacheKey } from "./cacheKey";
+import {
+  FixtureMode,
+  FixtureStore,
+} from "@infrastructure/fixtures/FixtureStore";
 
 /**
  * Check if running in development mode
@@ -19,14 +32,6 @@ const isDevelopment = (): boolean => {
   return process.env.NODE_ENV === "development";
 };
 
-/**
- * Cached response with timestamp
- */
-interface CachedResponse<T> {
-  data: T;
-  timestamp: number;
-}
-
 /**
  * API Error with additional context
  */
@@ -42,34 +47,74 @@ export class ApiError extends Error {
 }
 
 /**
- * Rate Limiter for Comic Vine API
- * Limits: 200 requests per resource per hour
+ * Thrown in replay mode when no fixture was recorded for a request
  */
-class RateLimiter {
-  private requests: number[] = [];
-  private readonly maxRequests = 200;
-  private readonly timeWindow = 60 * 60 * 1000; // 1 hour in ms
-
-  canMakeRequest(): boolean {
-    const now = Date.now();
-    // Remove old requests outside time window
-    this.requests = this.requests.filter(
-      (time) => now - time < this.timeWindow,
+export class FixtureMissError extends ApiError {
+  constructor(public readonly cacheKey: string) {
+    super(
+      `No recorded fixture for "${cacheKey}". Re-record fixtures with a real API key to add it.`,
     );
-    return this.requests.length < this.maxRequests;
+    this.name = "FixtureMissError";
   }
+}
 
-  recordRequest(): void {
-    this.requests.push(Date.now());
-  }
+/**
+ * Emitted when a background revalidation returns a payload
+ * that differs from the stale cached one
+ */
+export interface RevalidationEvent {
+  endpoint: string;
+  params: Record<string, string | number | boolean> | undefined;
+  data: unknown;
+}
 
-  getRemainingRequests(): number {
-    const now = Date.now();
-    this.requests = this.requests.filter(
-      (time) => now - time < this.timeWindow,
-    );
-    return this.maxRequests - this.requests.length;
+type RevalidationListener = (event: RevalidationEvent) => void;
+
+/**
+ * Emitted when requests are slowed down by rate limiting
+ * - queued: the hourly budget is spent, user requests wait for quota
+ * - rejected: Comic Vine answered 429 Too Many Requests
+ */
+export interface RateLimitWarning {
+  reason: "queued" | "rejected";
+  retryAt: number | null; // When requests should go through again (ms since epoch), if known
+}
+
+type RateLimitWarningListener = (warning: RateLimitWarning) => void;
+
+/**
+ * How a GET uses the response cache and the request queue
+ */
+interface FetchOptions {
+  useCache?: boolean;
+  staleWhileRevalidate?: boolean;
+  priority: RequestPriority; // Raised when a higher-priority caller joins
+}
+
+/**
+ * A pending GET shared by every caller asking for the same cache key
+ * with the same cache handling
+ */
+interface InFlightRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  callers: number; // Callers still waiting; the request aborts when it drops to 0
+  cacheKey: string;
+  options: FetchOptions;
+}
+
+/**
+ * Key shared by callers that can receive the same response: a caller that
+ * skips the cache must not get a cached (or stale) one
+ */
+function getInFlightKey(
+  cacheKey: string,
+  options: { useCache?: boolean; staleWhileRevalidate?: boolean } | undefined,
+): string {
+  if (options?.useCache === false) {
+    return `${cacheKey}#no-cache`;
   }
+  return options?.staleWhileRevalidate ? `${cacheKey}#swr` : cacheKey;
 }
 
 /**
@@ -80,9 +125,13 @@ class RateLimiter {
  *
  * Features:
  * - Simple API key authentication
- * - Response caching with TTL
- * - Rate limiting (200 req/hour per resource)
+ * - Persistent response caching with per-resource TTLs (pluggable CacheStore)
+ * - Stale-while-revalidate with change notifications
+ * - Rate limiting (200 req/hour per resource, persisted and shared across tabs)
+ * - Priority request queue throttled to 1 req/sec (queues instead of failing at the limit)
+ * - In-flight deduplication of identical GETs with reference-counted cancellation
  * - Request cancellation
+ * - Record/replay fixture modes for offline tests, Storybook and E2E
  * - Comprehensive error handling
  *
  * @example
@@ -93,12 +142,30 @@ class RateLimiter {
  */
 export class ComicVineApiClient {
   private readonly axios: AxiosInstance;
-  private readonly cache: Map<string, CachedResponse<unknown>>;
-  private readonly cacheTTL: number = API.CACHE_TTL;
+  private readonly cache: CacheStore;
   private readonly rateLimiter: RateLimiter;
-  private abortControllers: Map<string, AbortController>;
+  private readonly scheduler: RequestScheduler;
+  private readonly fixtures: { mode: FixtureMode; store: FixtureStore } | null;
+  private readonly inFlight = new Map<string, InFlightRequest<unknown>>();
+  private readonly revalidations = new Map<string, AbortController>();
+  private readonly revalidationListeners = new Set<RevalidationListener>();
+  private readonly rateLimitListeners = new Set<RateLimitWarningListener>();
 
-  constructor() {
+  /**
+   * @param options - Optional cache store (defaults to IndexedDB, in-memory fallback),
+   *                  rate limiter (defaults to a persisted, cross-tab limiter)
+   *                  minimum delay between requests (defaults to 1 second)
+   *                  and fixture mode: 'record' saves every network response to the store,
+   *                  'replay' serves only from the store and never touches the network
+   */
+  constructor(
+    options: {
+      cacheStore?: CacheStore;
+      rateLimiter?: RateLimiter;
+      minRequestInterval?: number;
+      fixtures?: { mode: FixtureMode; store: FixtureStore };
+    } = {},
+  ) {
     // Never call ComicVine directly from a deployed browser (CORS + key exposure).
     // - On localhost dev, we use Vite proxy (/api -> comicvine) and a dev key.
     // - On any non-localhost host, we call our Vercel function (/api/proxy).
@@ -115,9 +182,14 @@ export class ComicVineApiClient {
       },
     });
 
-    this.cache = new Map();
-    this.rateLimiter = new RateLimiter();
-    this.abortControllers = new Map();
+    this.cache = options.cacheStore ?? createCacheStore();
+    this.rateLimiter = options.rateLimiter ?? new RateLimiter();
+    this.scheduler = new RequestScheduler(this.rateLimiter, {
+      minInterval: options.minRequestInterval ?? API.REQUEST_MIN_INTERVAL,
+      onUserRequestsBlocked: (retryAt) =>
+        this.emitRateLimitWarning({ reason: "queued", retryAt }),
+    });
+    this.fixtures = options.fixtures ?? null;
 
     // Request interceptor - add API key and format
     this.axios.interceptors.request.use((requestConfig) => {
@@ -176,48 +248,116 @@ export class ComicVineApiClient {
   /**
    * Perform GET request with caching and rate limiting
    *
+   * Concurrent calls for the same endpoint, params and cache handling share one
+   * pending request, which runs at the highest priority among its callers.
+   * A caller's signal only detaches that caller; the request itself is aborted
+   * once every caller has cancelled.
+   *
+   * Network requests go through the priority queue: when the resource's hourly
+   * budget is spent they wait for it to free up (or for cancellation).
+   *
    * @param endpoint - API endpoint (e.g., '/characters/')
    * @param params - Query parameters
-   * @param options - Request options (caching, cancellation)
+   * @param options - Request options (caching, stale-while-revalidate, priority, cancellation)
    * @returns Typed response data
-   * @throws {ApiError} When request fails or rate limit exceeded
+   * @throws {ApiError} When request fails or is cancelled
    */
-  async get<T>(
+  get<T>(
     endpoint: string,
     params?: Record<string, string | number | boolean>,
     options?: {
       useCache?: boolean;
+      /** Return expired cache entries immediately and refresh them in the background */
+      staleWhileRevalidate?: boolean;
+      /** Queue priority (defaults to 'user') */
+      priority?: RequestPriority;
       signal?: AbortSignal;
     },
   ): Promise<T> {
-    const cacheKey = this.getCacheKey(endpoint, params);
-
-    // Check cache first
-    if (options?.useCache !== false) {
-      const cached = this.getFromCache<T>(cacheKey);
-      if (cached) {
-        logger.debug("Cache hit", { endpoint });
-        return cached;
-      }
+    const cacheKey = getCacheKey(endpoint, params);
+    const inFlightKey = getInFlightKey(cacheKey, options);
+    const priority = options?.priority ?? "user";
+
+    const pending = this.inFlight.get(inFlightKey) as
+      | InFlightRequest<T>
+      | undefined;
+    if (pending) {
+      logger.debug("Joining in-flight request", { endpoint });
+      this.promote(pending, priority);
+      return this.join(pending, options?.signal);
     }
 
-    // Check rate limit
-    if (!this.rateLimiter.canMakeRequest()) {
-      const remaining = this.rateLimiter.getRemainingRequests();
-      throw new ApiError(
-        `Rate limit exceeded. ${remaining} requests remaining this hour.`,
-        429,
-      );
-    }
+    // Register before the (async) cache lookup so identical calls
+    // and cancellation see the request at any point
+    const controller = new AbortController();
+    const fetchOptions: FetchOptions = {
+      ...(options?.useCache !== undefined && { useCache: options.useCache }),
+      ...(options?.staleWhileRevalidate !== undefined && {
+        staleWhileRevalidate: options.staleWhileRevalidate,
+      }),
+      priority,
+    };
+    const request: InFlightRequest<T> = {
+      controller,
+      callers: 0,
+      cacheKey,
+      options: fetchOptions,
+      promise: this.fetch<T>(
+        endpoint,
+        params,
+        cacheKey,
+        controller.signal,
+        fetchOptions,
+      ),
+    };
+    this.inFlight.set(inFlightKey, request);
+
+    const release = () => {
+      if (this.inFlight.get(inFlightKey) === request) {
+        this.inFlight.delete(inFlightKey);
+      }
+    };
+    request.promise.then(release, release);
 
-    // Cancel previous request for same endpoint
-    this.cancelPreviousRequest(cacheKey);
+    return this.join(request, options?.signal);
+  }
 
-    // Create new abort controller
-    const controller = new AbortController();
-    this.abortControllers.set(cacheKey, controller);
+  /**
+   * Resolve a GET from cache or the network (shared by all callers of a key)
+   */
+  private async fetch<T>(
+    endpoint: string,
+    params: Record<string, string | number | boolean> | undefined,
+    cacheKey: string,
+    signal: AbortSignal,
+    options: FetchOptions,
+  ): Promise<T> {
+    if (this.fixtures?.mode === "replay") {
+      return this.replayFixture<T>(endpoint, cacheKey);
+    }
+
+    // Recording bypasses cache reads so every response gets captured
+    const readCache =
+      options.useCache !== false && this.fixtures?.mode !== "record";
 
     try {
+      // Check cache first
+      if (readCache) {
+        const cached = await this.getFromCache<T>(cacheKey);
+        if (cached && !cached.isStale) {
+          logger.debug("Cache hit", { endpoint });
+          return cached.data;
+        }
+
+        if (cached && options.staleWhileRevalidate) {
+          logger.debug("Stale cache hit, revalidating in background", {
+            endpoint,
+          });
+          this.revalidate(endpoint, params, cacheKey, cached.data);
+          return cached.data;
+        }
+      }
+
       // Build full URL for debugging
       const queryString = new URLSearchParams(
         params as Record<string, string>,
@@ -226,28 +366,27 @@ export class ComicVineApiClient {
 
       logger.debug("API request", { endpoint, params, fullUrl });
 
-      // Execute request with retry logic
-      const response = await this.requestWithRetry<T>(
-        endpoint,
-        params,
-        options?.signal || controller.signal,
+      // Queue the request (the scheduler records it for rate limiting),
+      // then execute it with retry logic. Read the priority now: callers
+      // joining during the cache lookup may have raised it
+      const response = await this.scheduler.schedule(
+        RateLimiter.getResource(endpoint),
+        () => this.requestWithRetry<T>(endpoint, params, signal),
+        { priority: options.priority, signal },
       );
 
-      // Record request for rate limiting
-      this.rateLimiter.recordRequest();
-
       // Cache response
-      if (options?.useCache !== false) {
-        this.setInCache(cacheKey, response);
+      if (options.useCache !== false) {
+        await this.setInCache(endpoint, cacheKey, response);
       }
 
-      // Clean up controller
-      this.abortControllers.delete(cacheKey);
+      if (this.fixtures?.mode === "record") {
+        await this.fixtures.store.set(cacheKey, response);
+        logger.debug("Fixture recorded", { cacheKey });
+      }
 
       return response;
     } catch (error: unknown) {
-      this.abortControllers.delete(cacheKey);
-
       // Handle both axios.isCancel and CanceledError
       if (axios.isCancel(error) || isCancellationError(error)) {
         logger.debug("Request cancelled", { endpoint });
@@ -258,6 +397,76 @@ export class ComicVineApiClient {
     }
   }
 
+  /**
+   * Serve a recorded response, failing loudly when nothing was recorded
+   */
+  private async replayFixture<T>(
+    endpoint: string,
+    cacheKey: string,
+  ): Promise<T> {
+    const data = await this.fixtures?.store.get(cacheKey);
+
+    if (data === undefined) {
+      const error = new FixtureMissError(cacheKey);
+      logger.error("Fixture missing in replay mode", error, { endpoint });
+      throw error;
+    }
+
+    logger.debug("Fixture replayed", { endpoint });
+    return data as T;
+  }
+
+  /**
+   * Raise a shared request to a joining caller's priority
+   * (before it is queued, or while it waits in the queue)
+   */
+  private promote<T>(
+    request: InFlightRequest<T>,
+    priority: RequestPriority,
+  ): void {
+    if (!isHigherPriority(priority, request.options.priority)) {
+      return;
+    }
+
+    request.options.priority = priority;
+    this.scheduler.promote(request.controller.signal, priority);
+  }
+
+  /**
+   * Attach a caller to a shared request
+   * When the caller's signal aborts, only that caller is rejected;
+   * the last caller to leave aborts the underlying request.
+   */
+  private join<T>(
+    request: InFlightRequest<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(new ApiError("Request was cancelled"));
+    }
+
+    request.callers++;
+
+    if (!signal) {
+      return request.promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        request.callers--;
+        if (request.callers === 0) {
+          request.controller.abort();
+        }
+        reject(new ApiError("Request was cancelled"));
+      };
+
+      signal.addEventListener("abort", onAbort, { once: true });
+      request.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener("abort", onAbort));
+    });
+  }
+
   /**
    * Execute request with automatic retry and exponential backoff
    * Retries on timeout (ECONNABORTED) and 5xx server errors
@@ -360,95 +569,192 @@ export class ComicVineApiClient {
   }
 
   /**
-   * Cancel a specific request
+   * Cancel a specific request (for every caller sharing it)
    */
   cancelRequest(
     endpoint: string,
     params?: Record<string, string | number | boolean>,
   ): void {
-    const cacheKey = this.getCacheKey(endpoint, params);
-    const controller = this.abortControllers.get(cacheKey);
-    if (controller) {
-      controller.abort();
-      this.abortControllers.delete(cacheKey);
-    }
+    const cacheKey = getCacheKey(endpoint, params);
+    this.inFlight.forEach((request, inFlightKey) => {
+      if (request.cacheKey === cacheKey) {
+        request.controller.abort();
+        this.inFlight.delete(inFlightKey);
+      }
+    });
   }
 
   /**
-   * Cancel all pending requests
+   * Cancel all pending requests (including queued requests and background revalidations)
    */
   cancelAllRequests(): void {
-    this.abortControllers.forEach((controller) => controller.abort());
-    this.abortControllers.clear();
+    this.scheduler.clear();
+    this.inFlight.forEach((request) => request.controller.abort());
+    this.inFlight.clear();
+    this.revalidations.forEach((controller) => controller.abort());
+    this.revalidations.clear();
+  }
+
+  /**
+   * Subscribe to background revalidations that changed a cached payload
+   *
+   * @param listener - Called with the endpoint, params and fresh payload
+   * @returns Unsubscribe function
+   */
+  onRevalidate(listener: RevalidationListener): () => void {
+    this.revalidationListeners.add(listener);
+    return () => {
+      this.revalidationListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to rate limit warnings (requests queued or rejected)
+   *
+   * @param listener - Called with the reason and when requests should resume
+   * @returns Unsubscribe function
+   */
+  onRateLimitWarning(listener: RateLimitWarningListener): () => void {
+    this.rateLimitListeners.add(listener);
+    return () => {
+      this.rateLimitListeners.delete(listener);
+    };
+  }
+
+  private emitRateLimitWarning(warning: RateLimitWarning): void {
+    this.rateLimitListeners.forEach((listener) => listener(warning));
   }
 
   /**
    * Clear all cached responses
    */
-  clearCache(): void {
-    this.cache.clear();
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
   }
 
   /**
    * Get remaining API requests this hour
+   *
+   * @param endpoint - Endpoint whose resource to check; when omitted, the most constrained resource
    */
-  getRemainingRequests(): number {
-    return this.rateLimiter.getRemainingRequests();
+  getRemainingRequests(endpoint?: string): number {
+    return this.rateLimiter.getRemainingRequests(
+      endpoint !== undefined ? RateLimiter.getResource(endpoint) : undefined,
+    );
   }
 
   /**
-   * Generate cache key from endpoint and params
+   * Get quota (remaining requests and reset time) for every tracked resource
    */
-  private getCacheKey(
-    endpoint: string,
-    params?: Record<string, string | number | boolean>,
-  ): string {
-    const sortedParams = params
-      ? Object.keys(params)
-          .sort()
-          .map((key) => `${key}=${params[key]}`)
-          .join("&")
-      : "";
-    return `${endpoint}?${sortedParams}`;
+  getQuotas(): ResourceQuota[] {
+    return this.rateLimiter.getQuotas();
   }
 
   /**
-   * Get response from cache if not expired
+   * Subscribe to quota changes, including requests made in other tabs
+   *
+   * @returns Unsubscribe function
+   */
+  onQuotaChange(listener: () => void): () => void {
+    return this.rateLimiter.subscribe(listener);
+  }
+
+  /**
+   * Get response from cache, flagging entries past their TTL as stale
+   * (stale entries are kept so they can be served while revalidating)
    */
-  private getFromCache<T>(key: string): T | null {
-    const cached = this.cache.get(key) as CachedResponse<T> | undefined;
+  private async getFromCache<T>(
+    key: string,
+  ): Promise<{ data: T; isStale: boolean } | null> {
+    const cached = await this.cache.get<T>(key);
 
     if (!cached) {
       return null;
     }
 
-    const isExpired = Date.now() - cached.timestamp > this.cacheTTL;
-    if (isExpired) {
-      this.cache.delete(key);
-      return null;
+    return {
+      data: cached.data,
+      isStale: Date.now() - cached.timestamp > cached.ttl,
+    };
+  }
+
+  /**
+   * Refresh a stale cache entry in the background
+   * Listeners are notified only when the fresh payload differs from the stale one.
+   * Queued at background priority; skipped when the same key is already revalidating.
+   */
+  private revalidate<T>(
+    endpoint: string,
+    params: Record<string, string | number | boolean> | undefined,
+    cacheKey: string,
+    staleData: T,
+  ): void {
+    if (this.revalidations.has(cacheKey)) {
+      return;
     }
 
-    return cached.data;
+    const controller = new AbortController();
+    this.revalidations.set(cacheKey, controller);
+
+    void this.scheduler
+      .schedule(
+        RateLimiter.getResource(endpoint),
+        () => this.requestWithRetry<T>(endpoint, params, controller.signal),
+        { priority: "background", signal: controller.signal },
+      )
+      .then(async (fresh) => {
+        await this.setInCache(endpoint, cacheKey, fresh);
+
+        if (JSON.stringify(fresh) === JSON.stringify(staleData)) {
+          logger.debug("Revalidated response unchanged", { endpoint });
+          return;
+        }
+
+        logger.debug("Revalidated response changed", { endpoint });
+        this.revalidationListeners.forEach((listener) =>
+          listener({ endpoint, params, data: fresh }),
+        );
+      })
+      .catch((error: unknown) => {
+        if (axios.isCancel(error) || isCancellationError(error)) {
+          return;
+        }
+        logger.warn("Background revalidation failed, keeping stale data", {
+          endpoint,
+          errorMessage: getErrorMessage(error),
+        });
+      })
+      .finally(() => {
+        this.revalidations.delete(cacheKey);
+      });
   }
 
   /**
-   * Store response in cache with timestamp
+   * Store response in cache with timestamp and the endpoint's TTL
    */
-  private setInCache<T>(key: string, data: T): void {
-    this.cache.set(key, {
+  private async setInCache<T>(
+    endpoint: string,
+    key: string,
+    data: T,
+  ): Promise<void> {
+    const now = Date.now();
+    await this.cache.set(key, {
       data,
-      timestamp: Date.now(),
+      timestamp: now,
+      ttl: this.getCacheTTL(endpoint),
+      lastAccessed: now,
     });
   }
 
   /**
-   * Cancel previous request for the same endpoint
+   * Resolve TTL for an endpoint by resource prefix
+   * e.g. '/character/4005-1443/' uses the '/character/' TTL
    */
-  private cancelPreviousRequest(cacheKey: string): void {
-    const controller = this.abortControllers.get(cacheKey);
-    if (controller) {
-      controller.abort();
-    }
+  private getCacheTTL(endpoint: string): number {
+    const match = Object.entries(API.CACHE_TTL_BY_RESOURCE).find(([prefix]) =>
+      endpoint.startsWith(prefix),
+    );
+    return match ? match[1] : API.CACHE_TTL;
   }
 
   /**
@@ -488,6 +794,7 @@ export class ComicVineApiClient {
           case 404:
             return new ApiError("Resource not found", 404, error);
           case 429:
+            this.emitRateLimitWarning({ reason: "rejected", retryAt: null });
             return new ApiError(
               "Rate limit exceeded. Please wait before making more requests.",
               429,
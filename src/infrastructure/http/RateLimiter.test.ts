@@ -0,0 +1,205 @@
+/**
+ * RateLimiter Tests
+ *
+ * Tests per-resource request counting, persistence across instances,
+ * cross-tab synchronization and quota change notifications.
+ */
+
+import { RateLimiter, RateLimitChannel } from "./RateLimiter";
+import { StorageAdapter } from "../storage/StorageAdapter";
+
+function createStorage(): StorageAdapter {
+  const store: Record<string, string> = {};
+  const storage = {
+    getItem: jest.fn((key: string) => store[key] ?? null),
+    setItem: jest.fn((key: string, value: string) => {
+      store[key] = value;
+    }),
+    removeItem: jest.fn((key: string) => {
+      delete store[key];
+    }),
+    clear: jest.fn(),
+    key: jest.fn(),
+    length: 0,
+  } as Storage;
+  return new StorageAdapter(storage);
+}
+
+function createChannel(): RateLimitChannel {
+  return {
+    postMessage: jest.fn(),
+    onmessage: null,
+    close: jest.fn(),
+  };
+}
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date("2024-01-01T10:00:00Z"));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("getResource", () => {
+    it("should resolve the first path segment", () => {
+      expect(RateLimiter.getResource("/characters/")).toBe("characters");
+      expect(RateLimiter.getResource("/character/4005-1443/")).toBe(
+        "character",
+      );
+      expect(RateLimiter.getResource("/issues/")).toBe("issues");
+    });
+  });
+
+  describe("per-resource limits", () => {
+    it("should count requests separately per resource", () => {
+      const limiter = new RateLimiter({
+        storage: null,
+        channel: null,
+        maxRequests: 2,
+      });
+
+      limiter.recordRequest("characters");
+      limiter.recordRequest("characters");
+
+      expect(limiter.canMakeRequest("characters")).toBe(false);
+      expect(limiter.canMakeRequest("character")).toBe(true);
+      expect(limiter.getRemainingRequests("issues")).toBe(2);
+      expect(limiter.getRemainingRequests()).toBe(0);
+    });
+
+    it("should free quota once requests leave the window", () => {
+      const limiter = new RateLimiter({
+        storage: null,
+        channel: null,
+        maxRequests: 1,
+        timeWindow: 1000,
+      });
+
+      limiter.recordRequest("characters");
+      expect(limiter.canMakeRequest("characters")).toBe(false);
+
+      jest.advanceTimersByTime(1001);
+      expect(limiter.canMakeRequest("characters")).toBe(true);
+    });
+
+    it("should report when the oldest request resets", () => {
+      const limiter = new RateLimiter({
+        storage: null,
+        channel: null,
+        timeWindow: 1000,
+      });
+
+      expect(limiter.getQuota("characters").resetAt).toBeNull();
+
+      limiter.recordRequest("characters");
+      jest.advanceTimersByTime(200);
+      limiter.recordRequest("characters");
+
+      expect(limiter.getQuota("characters")).toEqual({
+        resource: "characters",
+        limit: 200,
+        remaining: 198,
+        resetAt: Date.now() - 200 + 1000,
+      });
+    });
+
+    it("should always report quotas for the app's resources", () => {
+      const limiter = new RateLimiter({ storage: null, channel: null });
+
+      expect(limiter.getQuotas().map((quota) => quota.resource)).toEqual([
+        "characters",
+        "character",
+        "issues",
+        "team",
+        "power",
+      ]);
+    });
+  });
+
+  describe("persistence", () => {
+    it("should restore requests recorded by a previous instance", () => {
+      const storage = createStorage();
+      const first = new RateLimiter({ storage, channel: null });
+      first.recordRequest("character");
+      first.recordRequest("character");
+
+      const second = new RateLimiter({ storage, channel: null });
+
+      expect(second.getRemainingRequests("character")).toBe(198);
+    });
+
+    it("should ignore corrupted stored data", () => {
+      const storage = createStorage();
+      storage.set("marvel_rate_limit", { version: 1, requests: "invalid" });
+
+      const limiter = new RateLimiter({ storage, channel: null });
+
+      expect(limiter.getRemainingRequests()).toBe(200);
+    });
+
+    it("should keep working when storage fails", () => {
+      const storage = createStorage();
+      jest.spyOn(storage, "set").mockImplementation(() => {
+        throw new Error("Quota exceeded");
+      });
+      const limiter = new RateLimiter({ storage, channel: null });
+
+      expect(() => limiter.recordRequest("characters")).not.toThrow();
+      expect(limiter.getRemainingRequests("characters")).toBe(199);
+    });
+  });
+
+  describe("cross-tab sync", () => {
+    it("should broadcast recorded requests", () => {
+      const channel = createChannel();
+      const limiter = new RateLimiter({ storage: null, channel });
+
+      limiter.recordRequest("issues");
+
+      expect(channel.postMessage).toHaveBeenCalledWith({
+        resource: "issues",
+        timestamp: Date.now(),
+      });
+    });
+
+    it("should apply requests made in other tabs", () => {
+      const channel = createChannel();
+      const limiter = new RateLimiter({ storage: null, channel });
+      const listener = jest.fn();
+      limiter.subscribe(listener);
+
+      channel.onmessage?.({
+        data: { resource: "characters", timestamp: Date.now() },
+      } as MessageEvent);
+
+      expect(limiter.getRemainingRequests("characters")).toBe(199);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("should close the channel on dispose", () => {
+      const channel = createChannel();
+      const limiter = new RateLimiter({ storage: null, channel });
+
+      limiter.dispose();
+
+      expect(channel.close).toHaveBeenCalled();
+    });
+  });
+
+  describe("subscribe", () => {
+    it("should notify listeners until unsubscribed", () => {
+      const limiter = new RateLimiter({ storage: null, channel: null });
+      const listener = jest.fn();
+      const unsubscribe = limiter.subscribe(listener);
+
+      limiter.recordRequest("characters");
+      unsubscribe();
+      limiter.recordRequest("characters");
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+});
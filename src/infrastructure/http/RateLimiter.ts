@@ -0,0 +1,289 @@
+import { API } from "@config/constants";
+import { logger } from "@infrastructure/logging/Logger";
+import { StorageAdapter } from "../storage/StorageAdapter";
+
+/**
+ * Quota snapshot for a single Comic Vine resource
+ */
+export interface ResourceQuota {
+  resource: string; // e.g. "characters", "character", "issues"
+  limit: number;
+  remaining: number;
+  resetAt: number | null; // When the oldest request leaves the window (ms since epoch)
+}
+
+/**
+ * Message exchanged between tabs
+ */
+interface RateLimitMessage {
+  resource: string;
+  timestamp: number;
+}
+
+/**
+ * Minimal BroadcastChannel contract (injectable for tests)
+ */
+export interface RateLimitChannel {
+  postMessage(message: RateLimitMessage): void;
+  onmessage: ((event: MessageEvent<RateLimitMessage>) => void) | null;
+  close(): void;
+}
+
+/**
+ * Persisted rate limit data structure
+ */
+interface RateLimitData {
+  version: number;
+  requests: Record<string, number[]>; // Request timestamps per resource
+}
+
+const STORAGE_KEY = "marvel_rate_limit";
+const CHANNEL_NAME = "marvel_rate_limit";
+const DATA_VERSION = 1;
+
+function isRateLimitData(data: unknown): data is RateLimitData {
+  if (typeof data !== "object" || data === null) {
+    return false;
+  }
+
+  const obj = data as Record<string, unknown>;
+  return (
+    obj.version === DATA_VERSION &&
+    typeof obj.requests === "object" &&
+    obj.requests !== null &&
+    Object.values(obj.requests).every(
+      (timestamps) =>
+        Array.isArray(timestamps) &&
+        timestamps.every((time) => typeof time === "number"),
+    )
+  );
+}
+
+/**
+ * Rate Limiter for Comic Vine API
+ *
+ * Comic Vine limits requests per resource (200/hour for /characters/, /character/, /issues/...).
+ * Request timestamps are tracked per resource, persisted to localStorage so the quota
+ * survives reloads, and shared with other open tabs through BroadcastChannel.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter();
+ * const resource = RateLimiter.getResource('/character/4005-1443/'); // 'character'
+ * if (limiter.canMakeRequest(resource)) {
+ *   limiter.recordRequest(resource);
+ * }
+ * ```
+ */
+export class RateLimiter {
+  private requests: Record<string, number[]>;
+  private readonly maxRequests: number;
+  private readonly timeWindow: number;
+  private readonly storage: StorageAdapter | null;
+  private readonly channel: RateLimitChannel | null;
+  private readonly listeners = new Set<() => void>();
+
+  constructor(
+    options: {
+      storage?: StorageAdapter | null;
+      channel?: RateLimitChannel | null;
+      maxRequests?: number;
+      timeWindow?: number;
+    } = {},
+  ) {
+    this.maxRequests = options.maxRequests ?? API.RATE_LIMIT_MAX_REQUESTS;
+    this.timeWindow = options.timeWindow ?? API.RATE_LIMIT_WINDOW;
+    this.storage =
+      options.storage !== undefined
+        ? options.storage
+        : typeof window !== "undefined"
+          ? new StorageAdapter()
+          : null;
+    this.channel =
+      options.channel !== undefined
+        ? options.channel
+        : typeof BroadcastChannel !== "undefined"
+          ? (new BroadcastChannel(CHANNEL_NAME) as RateLimitChannel)
+          : null;
+
+    this.requests = this.load();
+
+    if (this.channel) {
+      this.channel.onmessage = (event) => this.handleMessage(event.data);
+    }
+  }
+
+  /**
+   * Resolve the rate-limited resource for an endpoint
+   * e.g. '/character/4005-1443/' → 'character', '/characters/' → 'characters'
+   */
+  static getResource(endpoint: string): string {
+    return endpoint.split("/").filter(Boolean)[0] ?? "";
+  }
+
+  canMakeRequest(resource: string): boolean {
+    return this.getRemainingRequests(resource) > 0;
+  }
+
+  recordRequest(resource: string): void {
+    const timestamp = Date.now();
+    this.addTimestamp(resource, timestamp);
+    this.persist();
+    this.channel?.postMessage({ resource, timestamp });
+    this.notify();
+  }
+
+  /**
+   * Get remaining requests in the current window
+   *
+   * @param resource - Resource name; when omitted, returns the most constrained resource
+   */
+  getRemainingRequests(resource?: string): number {
+    if (resource !== undefined) {
+      return this.getQuota(resource).remaining;
+    }
+
+    return Math.min(
+      this.maxRequests,
+      ...this.getQuotas().map((quota) => quota.remaining),
+    );
+  }
+
+  getQuota(resource: string): ResourceQuota {
+    const timestamps = this.prune(resource);
+    const oldest = timestamps[0];
+
+    return {
+      resource,
+      limit: this.maxRequests,
+      remaining: Math.max(0, this.maxRequests - timestamps.length),
+      resetAt: oldest !== undefined ? oldest + this.timeWindow : null,
+    };
+  }
+
+  /**
+   * Quotas for the app's known resources plus any other tracked resource
+   */
+  getQuotas(): ResourceQuota[] {
+    const resources = new Set<string>([
+      ...API.RATE_LIMITED_RESOURCES,
+      ...Object.keys(this.requests),
+    ]);
+    return Array.from(resources).map((resource) => this.getQuota(resource));
+  }
+
+  /**
+   * Subscribe to quota changes (local or from other tabs)
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stop listening to other tabs
+   */
+  dispose(): void {
+    this.channel?.close();
+    this.listeners.clear();
+  }
+
+  private handleMessage(message: RateLimitMessage): void {
+    if (!message || typeof message.timestamp !== "number") {
+      return;
+    }
+
+    // The sending tab already persisted - only update memory
+    this.addTimestamp(message.resource, message.timestamp);
+    this.notify();
+  }
+
+  private addTimestamp(resource: string, timestamp: number): void {
+    const timestamps = this.requests[resource] ?? [];
+    timestamps.push(timestamp);
+    timestamps.sort((a, b) => a - b);
+    this.requests[resource] = timestamps;
+  }
+
+  /**
+   * Union of two timestamp lists, keeping duplicates only as often as
+   * either list has them (several requests can share a millisecond)
+   */
+  private mergeTimestamps(local: number[], stored: number[]): number[] {
+    const remaining = [...local];
+    const merged = [...local];
+
+    stored.forEach((time) => {
+      const index = remaining.indexOf(time);
+      if (index === -1) {
+        merged.push(time);
+      } else {
+        remaining.splice(index, 1);
+      }
+    });
+
+    return merged.sort((a, b) => a - b);
+  }
+
+  /**
+   * Drop timestamps outside the time window
+   */
+  private prune(resource: string): number[] {
+    const now = Date.now();
+    const timestamps = (this.requests[resource] ?? []).filter(
+      (time) => now - time < this.timeWindow,
+    );
+    this.requests[resource] = timestamps;
+    return timestamps;
+  }
+
+  private load(): Record<string, number[]> {
+    if (!this.storage) {
+      return {};
+    }
+
+    try {
+      const stored = this.storage.get<unknown>(STORAGE_KEY);
+      return isRateLimitData(stored) ? stored.requests : {};
+    } catch (error) {
+      logger.debug("Rate limit data unavailable, starting fresh", { error });
+      return {};
+    }
+  }
+
+  /**
+   * Merge with what other tabs stored, then write back
+   */
+  private persist(): void {
+    if (!this.storage) {
+      return;
+    }
+
+    try {
+      const stored = this.load();
+      Object.entries(stored).forEach(([resource, timestamps]) => {
+        this.requests[resource] = this.mergeTimestamps(
+          this.requests[resource] ?? [],
+          timestamps,
+        );
+      });
+      Object.keys(this.requests).forEach((resource) => this.prune(resource));
+
+      const data: RateLimitData = {
+        version: DATA_VERSION,
+        requests: this.requests,
+      };
+      this.storage.set(STORAGE_KEY, data);
+    } catch (error) {
+      logger.debug("Failed to persist rate limit data", { error });
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * RequestScheduler Tests
+ *
+ * Tests priority ordering, 1 req/sec throttling, queueing on exhausted
+ * budget, the low-priority reserve, promotion and cancellation of queued
+ * requests.
+ */
+
+import { RequestScheduler } from "./RequestScheduler";
+import { RateLimiter } from "./RateLimiter";
+
+describe("RequestScheduler", () => {
+  let rateLimiter: RateLimiter;
+
+  const createLimiter = (maxRequests = 200, timeWindow = 60 * 60 * 1000) =>
+    new RateLimiter({ storage: null, channel: null, maxRequests, timeWindow });
+
+  // Let resolved task promises settle
+  const flush = () => Promise.resolve();
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    rateLimiter = createLimiter();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should dispatch immediately and record the request", async () => {
+    const scheduler = new RequestScheduler(rateLimiter);
+
+    await expect(
+      scheduler.schedule("characters", async () => "result"),
+    ).resolves.toBe("result");
+    expect(rateLimiter.getRemainingRequests("characters")).toBe(199);
+  });
+
+  it("should throttle to one request per interval", async () => {
+    const scheduler = new RequestScheduler(rateLimiter, { minInterval: 1000 });
+    const task = jest.fn(async () => "ok");
+
+    void scheduler.schedule("characters", task);
+    void scheduler.schedule("characters", task);
+    void scheduler.schedule("characters", task);
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(scheduler.pendingCount).toBe(2);
+
+    jest.advanceTimersByTime(1000);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(1000);
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(scheduler.pendingCount).toBe(0);
+  });
+
+  it("should dispatch user requests before prefetches and revalidations", () => {
+    const scheduler = new RequestScheduler(rateLimiter, { minInterval: 1000 });
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(name);
+    };
+
+    void scheduler.schedule("characters", task("first"));
+    void scheduler.schedule("characters", task("background"), {
+      priority: "background",
+    });
+    void scheduler.schedule("character", task("prefetch"), {
+      priority: "prefetch",
+    });
+    void scheduler.schedule("characters", task("search"));
+    void scheduler.schedule("character", task("detail"), { priority: "user" });
+
+    jest.advanceTimersByTime(4000);
+
+    expect(order).toEqual([
+      "first",
+      "search",
+      "detail",
+      "prefetch",
+      "background",
+    ]);
+  });
+
+  it("should queue requests until the resource's window frees up", async () => {
+    rateLimiter = createLimiter(1, 10000);
+    const scheduler = new RequestScheduler(rateLimiter, { minInterval: 0 });
+    const task = jest.fn(async () => "ok");
+
+    await scheduler.schedule("characters", task);
+    const queued = scheduler.schedule("characters", task);
+
+    expect(task).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(10001);
+    await expect(queued).resolves.toBe("ok");
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not block other resources while one is exhausted", async () => {
+    rateLimiter = createLimiter(1, 10000);
+    const scheduler = new RequestScheduler(rateLimiter, { minInterval: 0 });
+
+    await scheduler.schedule("characters", async () => "list");
+    const queued = scheduler.schedule("characters", async () => "queued");
+
+    await expect(
+      scheduler.schedule("issues", async () => "comics"),
+    ).resolves.toBe("comics");
+    expect(scheduler.pendingCount).toBe(1);
+
+    scheduler.clear();
+    await expect(queued).rejects.toThrow("cancelled");
+  });
+
+  it("should hold low-priority requests while the budget is down to the reserve", async () => {
+    rateLimiter = createLimiter(3, 10000);
+    const scheduler = new RequestScheduler(rateLimiter, {
+      minInterval: 0,
+      reserve: 2,
+    });
+
+    await scheduler.schedule("characters", async () => "list");
+
+    const background = jest.fn(async () => "revalidated");
+    const queued = scheduler.schedule("characters", background, {
+      priority: "background",
+    });
+    expect(background).not.toHaveBeenCalled();
+
+    await expect(
+      scheduler.schedule("characters", async () => "search"),
+    ).resolves.toBe("search");
+    expect(background).not.toHaveBeenCalled();
+
+    scheduler.clear();
+    await expect(queued).rejects.toThrow("cancelled");
+  });
+
+  it("should dispatch a held request once it is promoted to user priority", async () => {
+    rateLimiter = createLimiter(3, 10000);
+    const scheduler = new RequestScheduler(rateLimiter, {
+      minInterval: 0,
+      reserve: 2,
+    });
+    await scheduler.schedule("characters", async () => "list");
+    const controller = new AbortController();
+
+    const prefetch = scheduler.schedule(
+      "characters",
+      async () => "prefetched",
+      { priority: "prefetch", signal: controller.signal },
+    );
+    expect(scheduler.pendingCount).toBe(1);
+
+    scheduler.promote(controller.signal, "user");
+
+    await expect(prefetch).resolves.toBe("prefetched");
+    expect(scheduler.pendingCount).toBe(0);
+  });
+
+  it("should move a promoted request ahead of lower priorities", () => {
+    const scheduler = new RequestScheduler(rateLimiter, { minInterval: 1000 });
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(name);
+    };
+    const controller = new AbortController();
+
+    void scheduler.schedule("characters", task("first"));
+    void scheduler.schedule("characters", task("prefetch"), {
+      priority: "prefetch",
+    });
+    void scheduler.schedule("characters", task("revalidation"), {
+      priority: "background",
+      signal: controller.signal,
+    });
+
+    scheduler.promote(controller.signal, "user");
+    jest.advanceTimersByTime(2000);
+
+    expect(order).toEqual(["first", "revalidation", "prefetch"]);
+  });
+
+  it("should never lower a queued request's priority", () => {
+    const scheduler = new RequestScheduler(rateLimiter, { minInterval: 1000 });
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(name);
+    };
+    const controller = new AbortController();
+
+    void scheduler.schedule("characters", task("first"));
+    void scheduler.schedule("characters", task("search"), {
+      signal: controller.signal,
+    });
+    void scheduler.schedule("characters", task("prefetch"), {
+      priority: "prefetch",
+    });
+
+    scheduler.promote(controller.signal, "background");
+    jest.advanceTimersByTime(2000);
+
+    expect(order).toEqual(["first", "search", "prefetch"]);
+  });
+
+  it("should report user requests blocked by the budget once per wait", async () => {
+    rateLimiter = createLimiter(1, 10000);
+    const onUserRequestsBlocked = jest.fn();
+    const scheduler = new RequestScheduler(rateLimiter, {
+      minInterval: 0,
+      onUserRequestsBlocked,
+    });
+
+    await scheduler.schedule("characters", async () => "list");
+    const first = scheduler.schedule("characters", async () => "first");
+    const second = scheduler.schedule("characters", async () => "second");
+
+    expect(onUserRequestsBlocked).toHaveBeenCalledTimes(1);
+    expect(onUserRequestsBlocked).toHaveBeenCalledWith(expect.any(Number));
+
+    scheduler.clear();
+    await expect(first).rejects.toThrow("cancelled");
+    await expect(second).rejects.toThrow("cancelled");
+  });
+
+  it("should not report blocked low-priority requests", async () => {
+    rateLimiter = createLimiter(1, 10000);
+    const onUserRequestsBlocked = jest.fn();
+    const scheduler = new RequestScheduler(rateLimiter, {
+      minInterval: 0,
+      onUserRequestsBlocked,
+    });
+
+    await scheduler.schedule("characters", async () => "list");
+    const queued = scheduler.schedule("characters", async () => "refresh", {
+      priority: "background",
+    });
+
+    expect(onUserRequestsBlocked).not.toHaveBeenCalled();
+
+    scheduler.clear();
+    await expect(queued).rejects.toThrow("cancelled");
+  });
+
+  it("should reject queued requests when their signal aborts", async () => {
+    const scheduler = new RequestScheduler(rateLimiter, { minInterval: 1000 });
+    const controller = new AbortController();
+    const task = jest.fn(async () => "ok");
+
+    void scheduler.schedule("characters", task);
+    const queued = scheduler.schedule("characters", task, {
+      signal: controller.signal,
+    });
+
+    controller.abort();
+
+    await expect(queued).rejects.toThrow("cancelled");
+    expect(scheduler.pendingCount).toBe(0);
+
+    jest.advanceTimersByTime(1000);
+    await flush();
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject immediately when the signal is already aborted", async () => {
+    const scheduler = new RequestScheduler(rateLimiter);
+    const controller = new AbortController();
+    controller.abort();
+    const task = jest.fn(async () => "ok");
+
+    await expect(
+      scheduler.schedule("characters", task, { signal: controller.signal }),
+    ).rejects.toThrow("cancelled");
+    expect(task).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,297 @@
+import { API } from "@config/constants";
+import { logger } from "@infrastructure/logging/Logger";
+import { RateLimiter } from "./RateLimiter";
+
+/**
+ * Request priority, highest first:
+ * - user: searches and detail loads the user is waiting for
+ * - prefetch: data loaded ahead of navigation
+ * - background: stale-while-revalidate refreshes
+ */
+export type RequestPriority = "user" | "prefetch" | "background";
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+  user: 0,
+  prefetch: 1,
+  background: 2,
+};
+
+/**
+ * Whether `priority` goes before `other` in the queue
+ */
+export function isHigherPriority(
+  priority: RequestPriority,
+  other: RequestPriority,
+): boolean {
+  return PRIORITY_ORDER[priority] < PRIORITY_ORDER[other];
+}
+
+interface QueuedRequest {
+  resource: string;
+  priority: RequestPriority;
+  signal: AbortSignal | undefined;
+  start: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Error used to reject requests cancelled while still queued
+ * (named like axios' CanceledError so isCancellationError recognises it)
+ */
+function createCancellationError(): Error {
+  const error = new Error("Request was cancelled while queued");
+  error.name = "CanceledError";
+  return error;
+}
+
+/**
+ * Priority Request Scheduler
+ *
+ * Queues Comic Vine requests instead of failing when the hourly budget runs out.
+ * Dispatches at most one request per interval (Comic Vine asks for 1 req/sec),
+ * highest priority first, and records each dispatched request in the rate limiter.
+ *
+ * Features:
+ * - User requests go first; prefetches and revalidations go last
+ * - Low-priority requests wait while the budget is down to the reserve,
+ *   keeping the last requests of the hour for the user
+ * - Requests for an exhausted resource wait until its window frees up,
+ *   without blocking requests for other resources
+ * - Queued requests are dropped when their AbortSignal fires
+ * - Queued requests can be promoted (e.g. when a user request joins a prefetch)
+ * - `onUserRequestsBlocked` is called once each time user requests start
+ *   waiting for quota (e.g. to warn the user)
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new RequestScheduler(rateLimiter);
+ * const data = await scheduler.schedule('characters', () => fetchCharacters(), {
+ *   priority: 'user',
+ *   signal: controller.signal,
+ * });
+ * ```
+ */
+export class RequestScheduler {
+  private readonly queue: QueuedRequest[] = [];
+  private readonly minInterval: number;
+  private readonly reserve: number;
+  private lastDispatch = Number.NEGATIVE_INFINITY;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private readonly onUserRequestsBlocked: ((retryAt: number) => void) | null;
+  private userRequestsBlocked = false;
+
+  constructor(
+    private readonly rateLimiter: RateLimiter,
+    options: {
+      minInterval?: number;
+      reserve?: number;
+      onUserRequestsBlocked?: (retryAt: number) => void;
+    } = {},
+  ) {
+    this.minInterval = options.minInterval ?? API.REQUEST_MIN_INTERVAL;
+    this.reserve = options.reserve ?? API.RATE_LIMIT_RESERVE;
+    this.onUserRequestsBlocked = options.onUserRequestsBlocked ?? null;
+  }
+
+  /**
+   * Queue a request and run it when budget and throttling allow
+   *
+   * @param resource - Rate-limited resource (see RateLimiter.getResource)
+   * @param task - Performs the request once dispatched
+   * @param options - Priority (defaults to 'user') and cancellation signal
+   * @returns The task's result
+   */
+  schedule<T>(
+    resource: string,
+    task: () => Promise<T>,
+    options: { priority?: RequestPriority; signal?: AbortSignal } = {},
+  ): Promise<T> {
+    const { priority = "user", signal } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(createCancellationError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => request.cancel();
+
+      const request: QueuedRequest = {
+        resource,
+        priority,
+        signal,
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          task().then(resolve, reject);
+        },
+        cancel: () => {
+          signal?.removeEventListener("abort", onAbort);
+          this.remove(request);
+          logger.debug("Queued request cancelled", { resource, priority });
+          reject(createCancellationError());
+        },
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.enqueue(request);
+
+      // Re-plan: the new request may have budget while queued ones wait
+      this.clearTimer();
+      this.pump();
+    });
+  }
+
+  /**
+   * Raise the priority of a queued request; lower priorities are ignored
+   *
+   * @param signal - Signal the request was scheduled with
+   * @param priority - New priority
+   */
+  promote(signal: AbortSignal, priority: RequestPriority): void {
+    const request = this.queue.find((queued) => queued.signal === signal);
+    if (!request || !isHigherPriority(priority, request.priority)) {
+      return;
+    }
+
+    logger.debug("Queued request promoted", {
+      resource: request.resource,
+      from: request.priority,
+      to: priority,
+    });
+    this.remove(request);
+    request.priority = priority;
+    this.enqueue(request);
+
+    // Re-plan: the promoted request may have budget a low priority lacked
+    this.clearTimer();
+    this.pump();
+  }
+
+  /**
+   * Number of requests waiting to be dispatched
+   */
+  get pendingCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Reject every queued request
+   */
+  clear(): void {
+    [...this.queue].forEach((request) => request.cancel());
+  }
+
+  /**
+   * Insert keeping the queue ordered by priority, then arrival
+   */
+  private enqueue(request: QueuedRequest): void {
+    const index = this.queue.findIndex(
+      (queued) =>
+        PRIORITY_ORDER[queued.priority] > PRIORITY_ORDER[request.priority],
+    );
+    if (index === -1) {
+      this.queue.push(request);
+    } else {
+      this.queue.splice(index, 0, request);
+    }
+  }
+
+  private remove(request: QueuedRequest): void {
+    const index = this.queue.indexOf(request);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+    }
+    if (this.queue.length === 0) {
+      this.clearTimer();
+    }
+  }
+
+  /**
+   * Dispatch the highest-priority request that has budget, or wait for
+   * the throttle interval / the earliest quota reset
+   */
+  private pump(): void {
+    if (this.timer !== null || this.queue.length === 0) {
+      return;
+    }
+
+    const throttleDelay = this.lastDispatch + this.minInterval - Date.now();
+    if (throttleDelay > 0) {
+      this.wakeIn(throttleDelay);
+      return;
+    }
+
+    const next = this.queue.find((request) => this.hasBudget(request));
+    if (!next) {
+      const delay = this.getBudgetDelay();
+      logger.debug("Rate limit budget exhausted, requests queued", {
+        pending: this.queue.length,
+        retryIn: `${delay}ms`,
+      });
+      this.notifyUserRequestsBlocked(Date.now() + delay);
+      this.wakeIn(delay);
+      return;
+    }
+
+    if (next.priority === "user") {
+      this.userRequestsBlocked = false;
+    }
+    this.remove(next);
+    this.lastDispatch = Date.now();
+    this.rateLimiter.recordRequest(next.resource);
+    next.start();
+
+    this.pump();
+  }
+
+  private hasBudget(request: QueuedRequest): boolean {
+    const remaining = this.rateLimiter.getRemainingRequests(request.resource);
+    return request.priority === "user"
+      ? remaining > 0
+      : remaining > this.reserve;
+  }
+
+  /**
+   * Time until the first blocked resource regains quota
+   */
+  private getBudgetDelay(): number {
+    const now = Date.now();
+    const resetTimes = this.queue
+      .map((request) => this.rateLimiter.getQuota(request.resource).resetAt)
+      .filter((resetAt): resetAt is number => resetAt !== null);
+
+    if (resetTimes.length === 0) {
+      return Math.max(this.minInterval, 1);
+    }
+
+    return Math.max(Math.min(...resetTimes) - now, this.minInterval, 1);
+  }
+
+  /**
+   * Report user requests waiting for quota (once until one is dispatched)
+   */
+  private notifyUserRequestsBlocked(retryAt: number): void {
+    const hasUserRequest = this.queue.some(
+      (request) => request.priority === "user",
+    );
+    if (!hasUserRequest || this.userRequestsBlocked) {
+      return;
+    }
+
+    this.userRequestsBlocked = true;
+    this.onUserRequestsBlocked?.(retryAt);
+  }
+
+  private wakeIn(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pump();
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Build the key identifying a GET request (endpoint + sorted params)
+ *
+ * Shared by the response cache, in-flight deduplication and recorded fixtures.
+ * The E2E mock server mirrors this format to replay recordings
+ * (e2e/mock-server/recordings.ts) - keep the two in sync.
+ *
+ * @example
+ * ```typescript
+ * getCacheKey('/characters/', { offset: 0, limit: 50 });
+ * // '/characters/?limit=50&offset=0'
+ * ```
+ */
+export function getCacheKey(
+  endpoint: string,
+  params?: Record<string, string | number | boolean>,
+): string {
+  const sortedParams = params
+    ? Object.keys(params)
+        .sort()
+        .map((key) => `${key}=${params[key]}`)
+        .join("&")
+    : "";
+  return `${endpoint}?${sortedParams}`;
+}
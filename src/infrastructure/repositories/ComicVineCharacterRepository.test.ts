@@ -6,13 +6,20 @@
  */
 
 import { ComicVineCharacterRepository } from "./ComicVineCharacterRepository";
-import { ComicVineApiClient } from "@infrastructure/http/ComicVineApiClient";
+import {
+  ApiError,
+  ComicVineApiClient,
+} from "@infrastructure/http/ComicVineApiClient";
 import { CharacterId } from "@domain/character/valueObjects/CharacterId";
-import { Character } from "@domain/character/entities/Character";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterDetail } from "@domain/character/entities/CharacterDetail";
 import { Comic } from "@domain/character/entities/Comic";
 
-// Mock the API client
-jest.mock("@infrastructure/http/ComicVineApiClient");
+// Mock the API client (keep the real ApiError the repository throws)
+jest.mock("@infrastructure/http/ComicVineApiClient", () => ({
+  ...jest.requireActual("@infrastructure/http/ComicVineApiClient"),
+  ComicVineApiClient: jest.fn(),
+}));
 
 describe("ComicVineCharacterRepository", () => {
   let repository: ComicVineCharacterRepository;
@@ -103,16 +110,16 @@ describe("ComicVineCharacterRepository", () => {
       const character = await repository.findById(characterId);
 
       // Assert
-      expect(character).toBeInstanceOf(Character);
+      expect(character).toBeInstanceOf(CharacterDetail);
       expect(character?.id.value).toBe(1699);
       expect(character?.name.value).toBe("Spider-Man");
       expect(mockApiClient.get).toHaveBeenCalledWith(
         "/character/4005-1699/",
         {
           field_list:
-            "id,name,deck,description,image,publisher,date_last_updated,issue_credits",
+            "id,name,deck,image,description,issue_credits,character_teams,powers,real_name,aliases,gender,origin,birth,first_appeared_in_issue,count_of_issue_appearances",
         },
-        { useCache: true },
+        { useCache: true, staleWhileRevalidate: true },
       );
     });
 
@@ -147,6 +154,21 @@ describe("ComicVineCharacterRepository", () => {
       );
     });
 
+    it("returns null when the character payload is malformed", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "OK",
+        status_code: 1,
+        results: { ...createMockCharacterApiResponse(), name: "" },
+      });
+
+      // Act
+      const character = await repository.findById(new CharacterId(1699));
+
+      // Assert
+      expect(character).toBeNull();
+    });
+
     it("returns null when API returns 404 error", async () => {
       // Arrange
       interface ErrorWithStatusCode extends Error {
@@ -166,6 +188,86 @@ describe("ComicVineCharacterRepository", () => {
     });
   });
 
+  describe("findRelationships", () => {
+    it("returns allies and enemies with a relationships-only field_list", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "OK",
+        status_code: 1,
+        results: {
+          id: 1699,
+          character_friends: [{ id: 1443, name: "Iron Man" }],
+          character_enemies: [{ id: 1502, name: "Green Goblin" }],
+        },
+      });
+
+      // Act
+      const relationships = await repository.findRelationships(
+        new CharacterId(1699),
+      );
+
+      // Assert
+      expect(relationships?.allies.map((id) => id.value)).toEqual([1443]);
+      expect(relationships?.enemies.map((id) => id.value)).toEqual([1502]);
+      expect(mockApiClient.get).toHaveBeenCalledWith(
+        "/character/4005-1699/",
+        { field_list: "id,character_friends,character_enemies" },
+        { useCache: true, staleWhileRevalidate: true },
+      );
+    });
+
+    it("keeps the other list when one is malformed", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "OK",
+        status_code: 1,
+        results: {
+          id: 1699,
+          character_friends: "broken",
+          character_enemies: [{ id: 1502 }],
+        },
+      });
+
+      // Act
+      const relationships = await repository.findRelationships(
+        new CharacterId(1699),
+      );
+
+      // Assert
+      expect(relationships?.allies).toEqual([]);
+      expect(relationships?.enemies.map((id) => id.value)).toEqual([1502]);
+    });
+
+    it("returns null when character not found", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "Object Not Found",
+        status_code: 101,
+        results: [],
+      });
+
+      // Act
+      const relationships = await repository.findRelationships(
+        new CharacterId(99999),
+      );
+
+      // Assert
+      expect(relationships).toBeNull();
+    });
+
+    it("throws error when API returns non-404 error", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockRejectedValue(
+        new Error("API Error"),
+      );
+
+      // Act & Assert
+      await expect(
+        repository.findRelationships(new CharacterId(1699)),
+      ).rejects.toThrow("API Error");
+    });
+  });
+
   describe("findMany", () => {
     it("returns paginated list of characters", async () => {
       // Arrange
@@ -188,14 +290,19 @@ describe("ComicVineCharacterRepository", () => {
 
       // Assert
       expect(result.items).toHaveLength(2);
-      expect(result.items[0]).toBeInstanceOf(Character);
+      expect(result.items[0]).toBeInstanceOf(CharacterSummary);
       expect(result.total).toBe(100);
       expect(result.offset).toBe(0);
       expect(result.limit).toBe(50);
       expect(mockApiClient.get).toHaveBeenCalledWith(
         "/characters/",
-        { filter: "publisher:31", limit: 50, offset: 0 },
-        { useCache: true },
+        {
+          filter: "publisher:31",
+          field_list: "id,name,deck,image",
+          limit: 50,
+          offset: 0,
+        },
+        { useCache: true, staleWhileRevalidate: true },
       );
     });
 
@@ -218,6 +325,185 @@ describe("ComicVineCharacterRepository", () => {
       expect(result.items).toHaveLength(0);
       expect(result.total).toBe(0);
     });
+
+    it("skips malformed characters instead of failing the page", async () => {
+      // Arrange
+      const mockResponse = createMockCharacterApiResponse();
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "OK",
+        status_code: 1,
+        results: [
+          mockResponse,
+          { ...mockResponse, id: 1700, name: "   " },
+          { ...mockResponse, id: "1701" },
+          null,
+          { ...mockResponse, id: 1702, name: "Iron Man" },
+        ],
+        number_of_total_results: 100,
+      });
+
+      // Act
+      const result = await repository.findMany({ offset: 0, limit: 50 });
+
+      // Assert
+      expect(result.items.map((character) => character.id.value)).toEqual([
+        1699, 1702,
+      ]);
+      expect(result.total).toBe(100);
+    });
+
+    it("maps characters without an image to a placeholder", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "OK",
+        status_code: 1,
+        results: [{ ...createMockCharacterApiResponse(), image: null }],
+        number_of_total_results: 1,
+      });
+
+      // Act
+      const result = await repository.findMany({ offset: 0, limit: 50 });
+
+      // Assert
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0]!.thumbnail.getUrl()).toContain("placeholder");
+    });
+
+    it("rejects a malformed response envelope", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "OK",
+        status_code: 1,
+        results: "not a list",
+      });
+
+      // Act & Assert
+      await expect(
+        repository.findMany({ offset: 0, limit: 50 }),
+      ).rejects.toBeInstanceOf(ApiError);
+    });
+  });
+
+  describe("findManyByIds", () => {
+    it("fetches characters with a single id filter query", async () => {
+      // Arrange
+      const mockResponse = createMockCharacterApiResponse();
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "OK",
+        status_code: 1,
+        results: [
+          { ...mockResponse, id: 1700, name: "Iron Man" },
+          mockResponse,
+        ],
+        number_of_total_results: 2,
+      });
+
+      // Act
+      const result = await repository.findManyByIds([
+        new CharacterId(1700),
+        new CharacterId(1699),
+      ]);
+
+      // Assert
+      expect(mockApiClient.get).toHaveBeenCalledTimes(1);
+      expect(mockApiClient.get).toHaveBeenCalledWith(
+        "/characters/",
+        expect.objectContaining({
+          filter: "id:1699|1700",
+          field_list: "id,name,deck,image",
+          limit: 100,
+        }),
+        { useCache: true, staleWhileRevalidate: true },
+      );
+      expect(result.found.map((character) => character.id.value)).toEqual([
+        1700, 1699,
+      ]);
+      expect(result.notFound).toEqual([]);
+      expect(result.failed).toEqual([]);
+    });
+
+    it("filters by publisher when asked for Marvel characters only", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "OK",
+        status_code: 1,
+        results: [createMockCharacterApiResponse()],
+        number_of_total_results: 1,
+      });
+
+      // Act
+      const result = await repository.findManyByIds(
+        [new CharacterId(1699), new CharacterId(2001)],
+        { marvelOnly: true },
+      );
+
+      // Assert
+      expect(mockApiClient.get).toHaveBeenCalledWith(
+        "/characters/",
+        expect.objectContaining({ filter: "publisher:31,id:1699|2001" }),
+        { useCache: true, staleWhileRevalidate: true },
+      );
+      expect(result.found.map((character) => character.id.value)).toEqual([
+        1699,
+      ]);
+      expect(result.notFound.map((id) => id.value)).toEqual([2001]);
+    });
+
+    it("chunks more than 100 IDs into several requests", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "OK",
+        status_code: 1,
+        results: [],
+        number_of_total_results: 0,
+      });
+      const ids = Array.from({ length: 150 }, (_, i) => new CharacterId(i + 1));
+
+      // Act
+      await repository.findManyByIds(ids);
+
+      // Assert
+      const filters = (mockApiClient.get as jest.Mock).mock.calls.map(
+        ([, params]) => params.filter as string,
+      );
+      expect(filters).toHaveLength(2);
+      expect(filters[0]!.split("|")).toHaveLength(100);
+      expect(filters[1]!.split("|")).toHaveLength(50);
+    });
+
+    it("reports missing and failed IDs per character", async () => {
+      // Arrange
+      const mockResponse = createMockCharacterApiResponse();
+      const ids = Array.from({ length: 101 }, (_, i) => new CharacterId(i + 1));
+      (mockApiClient.get as jest.Mock)
+        .mockResolvedValueOnce({
+          error: "OK",
+          status_code: 1,
+          results: [{ ...mockResponse, id: 1 }],
+          number_of_total_results: 1,
+        })
+        .mockRejectedValueOnce(new Error("Network error"));
+
+      // Act
+      const result = await repository.findManyByIds(ids);
+
+      // Assert
+      expect(result.found.map((character) => character.id.value)).toEqual([1]);
+      expect(result.notFound).toHaveLength(99);
+      expect(result.failed.map((id) => id.value)).toEqual([101]);
+    });
+
+    it("rethrows cancellations", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockRejectedValue(
+        new Error("Request was cancelled"),
+      );
+
+      // Act & Assert
+      await expect(
+        repository.findManyByIds([new CharacterId(1699)]),
+      ).rejects.toThrow("Request was cancelled");
+    });
   });
 
   describe("searchByName", () => {
@@ -237,12 +523,13 @@ describe("ComicVineCharacterRepository", () => {
 
       // Assert
       expect(characters).toHaveLength(1);
-      expect(characters[0]).toBeInstanceOf(Character);
+      expect(characters[0]).toBeInstanceOf(CharacterSummary);
       expect(characters[0]!.name.value).toBe("Spider-Man");
       expect(mockApiClient.get).toHaveBeenCalledWith(
         "/characters/",
         expect.objectContaining({
           filter: "publisher:31,name:Spider-Man",
+          field_list: "id,name,deck,image",
           limit: expect.any(Number),
         }),
         expect.objectContaining({ useCache: true }),
@@ -313,5 +600,29 @@ describe("ComicVineCharacterRepository", () => {
       // Assert
       expect(comics).toHaveLength(0);
     });
+
+    it("skips malformed issues and keeps the rest of the batch", async () => {
+      // Arrange
+      const mockComicResponse = createMockComicApiResponse();
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "OK",
+        status_code: 1,
+        results: [
+          mockComicResponse,
+          { ...mockComicResponse, id: 123457, cover_date: "July 2018" },
+          { ...mockComicResponse, id: 123458, image: null },
+        ],
+        number_of_total_results: 3,
+      });
+
+      // Act
+      const comics = await repository.getComicsByIds(
+        [123456, 123457, 123458],
+        new CharacterId(1699),
+      );
+
+      // Assert
+      expect(comics.map((comic) => comic.id)).toEqual([123456, 123458]);
+    });
   });
 });
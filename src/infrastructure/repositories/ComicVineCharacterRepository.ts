@@ -1,23 +1,34 @@
 import {
   CharacterRepository,
+  CharactersByIdResult,
   PaginationParams,
   PaginatedResult,
 } from "@domain/character/ports/CharacterRepository";
-import { Character } from "@domain/character/entities/Character";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterDetail } from "@domain/character/entities/CharacterDetail";
 import { Comic } from "@domain/character/entities/Comic";
 import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterRelationships } from "@domain/character/valueObjects/CharacterRelationships";
 import { ComicVineApiClient } from "../http/ComicVineApiClient";
 import {
-  ComicVineApiResponse,
-  ComicVineCharacterResponse,
-  ComicVineSingleCharacterResponse,
+  CHARACTER_DETAIL_FIELD_LIST,
+  CHARACTER_RELATIONSHIPS_FIELD_LIST,
+  CHARACTER_SUMMARY_FIELD_LIST,
+  comicVineCharacterDetailSchema,
+  comicVineCharacterRelationshipsSchema,
+  comicVineCharacterSummarySchema,
+  comicVineListResponseSchema,
+  comicVineSingleResponseSchema,
 } from "@application/character/dtos/ComicVineCharacterDTO";
-import { ComicVineIssuesApiResponse } from "@application/character/dtos/ComicVineComicDTO";
-import { ComicVineCharacterMapper } from "@application/character/mappers/ComicVineCharacterMapper";
+import { comicVineIssueSchema } from "@application/character/dtos/ComicVineComicDTO";
+import { ComicVineCharacterDetailMapper } from "@application/character/mappers/ComicVineCharacterDetailMapper";
+import { ComicVineCharacterRelationshipsMapper } from "@application/character/mappers/ComicVineCharacterRelationshipsMapper";
+import { ComicVineCharacterSummaryMapper } from "@application/character/mappers/ComicVineCharacterSummaryMapper";
 import { ComicVineComicMapper } from "@application/character/mappers/ComicVineComicMapper";
 import { API } from "@config/constants";
 import { logger } from "@infrastructure/logging/Logger";
 import { isApiErrorWithStatus, isCancellationError } from "../http/types";
+import { parseResponse, toDomainItems } from "./comicVineValidation";
 
 /**
  * Comic Vine Character Repository
@@ -29,8 +40,12 @@ import { isApiErrorWithStatus, isCancellationError } from "../http/types";
  * - Fetches only Marvel characters (publisher ID = 31)
  * - Pagination support
  * - Name-based search filtering
+ * - Batch lookup by ID (up to 100 IDs per request)
+ * - Allies and enemies fetched on their own, after the detail
+ * - Minimal `field_list` per model: lists fetch summaries, the detail page a full detail
  * - Character-specific comics retrieval
- * - Response caching via API client
+ * - Response caching via API client (stale-while-revalidate for list/detail)
+ * - Runtime validation of payloads (malformed items are logged and skipped)
  *
  * @example
  * ```typescript
@@ -41,6 +56,7 @@ import { isApiErrorWithStatus, isCancellationError } from "../http/types";
 export class ComicVineCharacterRepository implements CharacterRepository {
   private readonly apiClient: ComicVineApiClient;
   private readonly MARVEL_PUBLISHER_ID = 31;
+  private readonly MAX_IDS_PER_REQUEST = 100; // Comic Vine's page size limit
 
   constructor(apiClient?: ComicVineApiClient) {
     this.apiClient = apiClient || new ComicVineApiClient();
@@ -56,24 +72,32 @@ export class ComicVineCharacterRepository implements CharacterRepository {
    */
   async findMany(
     params: PaginationParams,
-  ): Promise<PaginatedResult<Character>> {
+  ): Promise<PaginatedResult<CharacterSummary>> {
     try {
-      const response = await this.apiClient.get<
-        ComicVineApiResponse<ComicVineCharacterResponse>
-      >(
+      const data = await this.apiClient.get<unknown>(
         "/characters/",
         {
           filter: `publisher:${this.MARVEL_PUBLISHER_ID}`,
+          field_list: CHARACTER_SUMMARY_FIELD_LIST,
           limit: params.limit,
           offset: params.offset,
         },
         {
           useCache: true,
+          staleWhileRevalidate: true,
         },
       );
+      const response = parseResponse(
+        comicVineListResponseSchema,
+        data,
+        "/characters/",
+      );
 
-      const characters = ComicVineCharacterMapper.toDomainList(
+      const characters = toDomainItems(
         response.results,
+        comicVineCharacterSummarySchema,
+        (dto) => ComicVineCharacterSummaryMapper.toDomain(dto),
+        "/characters/",
       );
 
       return {
@@ -97,30 +121,42 @@ export class ComicVineCharacterRepository implements CharacterRepository {
    * Comic Vine uses format: /character/4005-{id}/
    *
    * @param id - Character identifier
-   * @returns Character if found, null if not found
+   * @returns Character detail if found, null if not found (or too malformed to display)
    * @throws {ApiError} When the API request fails
    */
-  async findById(id: CharacterId): Promise<Character | null> {
+  async findById(id: CharacterId): Promise<CharacterDetail | null> {
     try {
-      const response =
-        await this.apiClient.get<ComicVineSingleCharacterResponse>(
-          `/character/4005-${id.value}/`,
-          {
-            // Request issue_credits to get list of issues this character appears in
-            field_list:
-              "id,name,deck,description,image,publisher,date_last_updated,issue_credits",
-          },
-          {
-            useCache: true,
-          },
-        );
+      const endpoint = `/character/4005-${id.value}/`;
+      const data = await this.apiClient.get<unknown>(
+        endpoint,
+        {
+          // Includes issue_credits (issues this character appears in) and the
+          // profile facts shown on the detail page
+          field_list: CHARACTER_DETAIL_FIELD_LIST,
+        },
+        {
+          useCache: true,
+          staleWhileRevalidate: true,
+        },
+      );
+      const response = parseResponse(
+        comicVineSingleResponseSchema,
+        data,
+        endpoint,
+      );
 
-      // Comic Vine returns single character in results property
-      if (!response.results) {
+      // Comic Vine returns single character in results property ([] when not found)
+      if (!response.results || Array.isArray(response.results)) {
         return null;
       }
 
-      return ComicVineCharacterMapper.toDomain(response.results);
+      const [character] = toDomainItems(
+        [response.results],
+        comicVineCharacterDetailSchema,
+        (dto) => ComicVineCharacterDetailMapper.toDomain(dto),
+        endpoint,
+      );
+      return character ?? null;
     } catch (error: unknown) {
       // Return null for 404 errors (character not found)
       if (isApiErrorWithStatus(error) && error.statusCode === 404) {
@@ -142,6 +178,148 @@ export class ComicVineCharacterRepository implements CharacterRepository {
     }
   }
 
+  /**
+   * Find a character's allies and enemies
+   *
+   * Same endpoint as findById, with a `field_list` of just the relationships
+   * so the detail request doesn't carry them.
+   *
+   * @param id - Character identifier
+   * @returns Relationships if the character exists, null otherwise
+   * @throws {ApiError} When the API request fails
+   */
+  async findRelationships(
+    id: CharacterId,
+  ): Promise<CharacterRelationships | null> {
+    try {
+      const endpoint = `/character/4005-${id.value}/`;
+      const data = await this.apiClient.get<unknown>(
+        endpoint,
+        { field_list: CHARACTER_RELATIONSHIPS_FIELD_LIST },
+        {
+          useCache: true,
+          staleWhileRevalidate: true,
+        },
+      );
+      const response = parseResponse(
+        comicVineSingleResponseSchema,
+        data,
+        endpoint,
+      );
+
+      if (!response.results || Array.isArray(response.results)) {
+        return null;
+      }
+
+      const [relationships] = toDomainItems(
+        [response.results],
+        comicVineCharacterRelationshipsSchema,
+        (dto) => ComicVineCharacterRelationshipsMapper.toDomain(dto),
+        endpoint,
+      );
+      return relationships ?? null;
+    } catch (error: unknown) {
+      if (isApiErrorWithStatus(error) && error.statusCode === 404) {
+        return null;
+      }
+
+      if (isCancellationError(error)) {
+        logger.debug("Request cancelled (expected during navigation)", {
+          characterId: id.value,
+        });
+        throw error;
+      }
+
+      logger.error("Failed to fetch character relationships", error, {
+        characterId: id.value,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Find several characters by ID with chunked `filter=id:a|b|c` queries
+   *
+   * IDs are sorted inside each chunk so the same set of IDs always hits the same
+   * cache entry. A failed chunk only marks its own IDs as failed.
+   *
+   * @param ids - Character identifiers (duplicates are ignored)
+   * @param options - `marvelOnly` adds the Marvel publisher filter (publisher:31)
+   * @returns Found characters (in request order), plus not found and failed IDs
+   * @throws {ApiError} When the request is cancelled
+   */
+  async findManyByIds(
+    ids: CharacterId[],
+    options: { marvelOnly?: boolean } = {},
+  ): Promise<CharactersByIdResult> {
+    const uniqueIds = [...new Set(ids.map((id) => id.value))];
+    const charactersById = new Map<number, CharacterSummary>();
+    const failedIds = new Set<number>();
+
+    const sortedIds = [...uniqueIds].sort((a, b) => a - b);
+    const chunks = this.chunkArray(sortedIds, this.MAX_IDS_PER_REQUEST);
+
+    for (const chunk of chunks) {
+      try {
+        const data = await this.apiClient.get<unknown>(
+          "/characters/",
+          {
+            filter: options.marvelOnly
+              ? `publisher:${this.MARVEL_PUBLISHER_ID},id:${chunk.join("|")}`
+              : `id:${chunk.join("|")}`,
+            field_list: CHARACTER_SUMMARY_FIELD_LIST,
+            limit: this.MAX_IDS_PER_REQUEST,
+          },
+          {
+            useCache: true,
+            staleWhileRevalidate: true,
+          },
+        );
+        const response = parseResponse(
+          comicVineListResponseSchema,
+          data,
+          "/characters/",
+        );
+
+        toDomainItems(
+          response.results,
+          comicVineCharacterSummarySchema,
+          (dto) => ComicVineCharacterSummaryMapper.toDomain(dto),
+          "/characters/",
+        ).forEach((character) =>
+          charactersById.set(character.id.value, character),
+        );
+      } catch (error: unknown) {
+        if (isCancellationError(error)) {
+          throw error;
+        }
+
+        logger.error("Failed to fetch characters by IDs", error, {
+          batchSize: chunk.length,
+        });
+        chunk.forEach((id) => failedIds.add(id));
+      }
+    }
+
+    const result: CharactersByIdResult = {
+      found: [],
+      notFound: [],
+      failed: [],
+    };
+    for (const id of uniqueIds) {
+      const character = charactersById.get(id);
+      if (character) {
+        result.found.push(character);
+      } else if (failedIds.has(id)) {
+        result.failed.push(new CharacterId(id));
+      } else {
+        result.notFound.push(new CharacterId(id));
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Search characters by name
    * Uses Comic Vine's filter syntax to find Marvel characters only
@@ -153,7 +331,7 @@ export class ComicVineCharacterRepository implements CharacterRepository {
   async searchByName(
     query: string,
     signal?: AbortSignal,
-  ): Promise<Character[]> {
+  ): Promise<CharacterSummary[]> {
     try {
       if (!query || query.trim().length === 0) {
         return [];
@@ -167,12 +345,11 @@ export class ComicVineCharacterRepository implements CharacterRepository {
       });
 
       // Comic Vine filter syntax supports name filtering
-      const response = await this.apiClient.get<
-        ComicVineApiResponse<ComicVineCharacterResponse>
-      >(
+      const data = await this.apiClient.get<unknown>(
         "/characters/",
         {
           filter: `publisher:${this.MARVEL_PUBLISHER_ID},name:${searchQuery}`,
+          field_list: CHARACTER_SUMMARY_FIELD_LIST,
           limit: API.SEARCH_RESULT_LIMIT,
         },
         {
@@ -180,6 +357,11 @@ export class ComicVineCharacterRepository implements CharacterRepository {
           ...(signal && { signal }),
         },
       );
+      const response = parseResponse(
+        comicVineListResponseSchema,
+        data,
+        "/characters/",
+      );
 
       logger.info("Search results received", {
         query: searchQuery,
@@ -187,7 +369,12 @@ export class ComicVineCharacterRepository implements CharacterRepository {
         returnedResults: response.results.length,
       });
 
-      return ComicVineCharacterMapper.toDomainList(response.results);
+      return toDomainItems(
+        response.results,
+        comicVineCharacterSummarySchema,
+        (dto) => ComicVineCharacterSummaryMapper.toDomain(dto),
+        "/characters/",
+      );
     } catch (error: unknown) {
       // Don't log cancelled requests as errors (expected behavior from debouncing)
       if (isCancellationError(error)) {
@@ -244,7 +431,7 @@ export class ComicVineCharacterRepository implements CharacterRepository {
           filter: filter.substring(0, 50) + "...", // Truncate for readability
         });
 
-        const response = await this.apiClient.get<ComicVineIssuesApiResponse>(
+        const data = await this.apiClient.get<unknown>(
           "/issues/",
           {
             filter,
@@ -255,8 +442,14 @@ export class ComicVineCharacterRepository implements CharacterRepository {
           },
           {
             useCache: true,
+            staleWhileRevalidate: true,
           },
         );
+        const response = parseResponse(
+          comicVineListResponseSchema,
+          data,
+          "/issues/",
+        );
 
         if (response.status_code !== 1) {
           logger.warn("Comic Vine API returned non-success status for batch", {
@@ -267,9 +460,11 @@ export class ComicVineCharacterRepository implements CharacterRepository {
           continue; // Skip this batch but continue with others
         }
 
-        const batchComics = ComicVineComicMapper.toDomainList(
+        const batchComics = toDomainItems(
           response.results,
-          characterId,
+          comicVineIssueSchema,
+          (dto) => ComicVineComicMapper.toDomain(dto, characterId),
+          "/issues/",
         );
         allComics.push(...batchComics);
       }
@@ -0,0 +1,156 @@
+/**
+ * ComicVinePowerRepository Unit Tests
+ *
+ * Tests for the Power Repository.
+ * Tests cover: findById
+ */
+
+import { ComicVinePowerRepository } from "./ComicVinePowerRepository";
+import { ComicVineApiClient } from "@infrastructure/http/ComicVineApiClient";
+import { Power } from "@domain/character/entities/Power";
+import { PowerId } from "@domain/character/valueObjects/PowerId";
+
+// Mock the API client (keep the real ApiError the repository throws)
+jest.mock("@infrastructure/http/ComicVineApiClient", () => ({
+  ...jest.requireActual("@infrastructure/http/ComicVineApiClient"),
+  ComicVineApiClient: jest.fn(),
+}));
+
+jest.mock("@infrastructure/logging/Logger");
+
+describe("ComicVinePowerRepository", () => {
+  let repository: ComicVinePowerRepository;
+  let mockApiClient: jest.Mocked<ComicVineApiClient>;
+
+  const createMockPowerApiResponse = () => ({
+    id: 1135,
+    name: "Telepathy",
+    description: "<p>The ability to read minds</p>",
+    characters: [
+      { id: 1440, name: "Jean Grey", api_detail_url: "url1" },
+      { id: 1489, name: "Professor X", api_detail_url: "url2" },
+    ],
+  });
+
+  beforeEach(() => {
+    mockApiClient = {
+      get: jest.fn(),
+    } as unknown as jest.Mocked<ComicVineApiClient>;
+    repository = new ComicVinePowerRepository(mockApiClient);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("findById", () => {
+    it("returns power when found", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "OK",
+        status_code: 1,
+        results: createMockPowerApiResponse(),
+      });
+
+      // Act
+      const power = await repository.findById(new PowerId(1135));
+
+      // Assert
+      expect(power).toBeInstanceOf(Power);
+      expect(power?.name).toBe("Telepathy");
+      expect(power?.description).toBe("The ability to read minds");
+      expect(power?.characterIds.map((id) => id.value)).toEqual([1440, 1489]);
+      expect(mockApiClient.get).toHaveBeenCalledWith(
+        "/power/4035-1135/",
+        { field_list: "id,name,description,characters" },
+        { useCache: true, staleWhileRevalidate: true },
+      );
+    });
+
+    it("returns null when power not found", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "OK",
+        status_code: 1,
+        results: [],
+      });
+
+      // Act
+      const power = await repository.findById(new PowerId(99999));
+
+      // Assert
+      expect(power).toBeNull();
+    });
+
+    it("returns null when the power payload is malformed", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "OK",
+        status_code: 1,
+        results: { ...createMockPowerApiResponse(), name: "" },
+      });
+
+      // Act
+      const power = await repository.findById(new PowerId(1135));
+
+      // Assert
+      expect(power).toBeNull();
+    });
+
+    it("keeps the power when its characters are malformed", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "OK",
+        status_code: 1,
+        results: { ...createMockPowerApiResponse(), characters: "broken" },
+      });
+
+      // Act
+      const power = await repository.findById(new PowerId(1135));
+
+      // Assert
+      expect(power?.name).toBe("Telepathy");
+      expect(power?.characterCount).toBe(0);
+    });
+
+    it("returns null when API returns 404 error", async () => {
+      // Arrange
+      interface ErrorWithStatusCode extends Error {
+        statusCode: number;
+      }
+      const error = new Error("Not Found") as ErrorWithStatusCode;
+      error.statusCode = 404;
+      (mockApiClient.get as jest.Mock).mockRejectedValue(error);
+
+      // Act
+      const power = await repository.findById(new PowerId(1135));
+
+      // Assert
+      expect(power).toBeNull();
+    });
+
+    it("throws error when API returns non-404 error", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockRejectedValue(
+        new Error("API Error"),
+      );
+
+      // Act & Assert
+      await expect(repository.findById(new PowerId(1135))).rejects.toThrow(
+        "API Error",
+      );
+    });
+
+    it("rethrows cancellations", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockRejectedValue(
+        new Error("Request was cancelled"),
+      );
+
+      // Act & Assert
+      await expect(repository.findById(new PowerId(1135))).rejects.toThrow(
+        "Request was cancelled",
+      );
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { PowerRepository } from "@domain/character/ports/PowerRepository";
+import { Power } from "@domain/character/entities/Power";
+import { PowerId } from "@domain/character/valueObjects/PowerId";
+import { ComicVineApiClient } from "../http/ComicVineApiClient";
+import { comicVineSingleResponseSchema } from "@application/character/dtos/ComicVineCharacterDTO";
+import {
+  POWER_FIELD_LIST,
+  comicVinePowerSchema,
+} from "@application/character/dtos/ComicVinePowerDTO";
+import { ComicVinePowerMapper } from "@application/character/mappers/ComicVinePowerMapper";
+import { logger } from "@infrastructure/logging/Logger";
+import { isApiErrorWithStatus, isCancellationError } from "../http/types";
+import { parseResponse, toDomainItems } from "./comicVineValidation";
+
+/**
+ * Comic Vine Power Repository
+ *
+ * Implements PowerRepository port using Comic Vine API.
+ *
+ * Features:
+ * - Power lookup by ID with its characters (`/power/4035-{id}/`)
+ * - Minimal `field_list` (name, description and characters)
+ * - Response caching via API client (stale-while-revalidate)
+ * - Runtime validation of payloads
+ *
+ * @example
+ * ```typescript
+ * const repository = new ComicVinePowerRepository(apiClient);
+ * const power = await repository.findById(new PowerId(1135));
+ * ```
+ */
+export class ComicVinePowerRepository implements PowerRepository {
+  private readonly apiClient: ComicVineApiClient;
+
+  constructor(apiClient?: ComicVineApiClient) {
+    this.apiClient = apiClient || new ComicVineApiClient();
+  }
+
+  /**
+   * Find a single power by ID
+   *
+   * Comic Vine uses format: /power/4035-{id}/
+   *
+   * @param id - Power identifier
+   * @returns Power if found, null if not found (or too malformed to display)
+   * @throws {ApiError} When the API request fails
+   */
+  async findById(id: PowerId): Promise<Power | null> {
+    try {
+      const endpoint = `/power/4035-${id.value}/`;
+      const data = await this.apiClient.get<unknown>(
+        endpoint,
+        { field_list: POWER_FIELD_LIST },
+        {
+          useCache: true,
+          staleWhileRevalidate: true,
+        },
+      );
+      const response = parseResponse(
+        comicVineSingleResponseSchema,
+        data,
+        endpoint,
+      );
+
+      // Comic Vine returns the power in results ([] when not found)
+      if (!response.results || Array.isArray(response.results)) {
+        return null;
+      }
+
+      const [power] = toDomainItems(
+        [response.results],
+        comicVinePowerSchema,
+        (dto) => ComicVinePowerMapper.toDomain(dto),
+        endpoint,
+      );
+      return power ?? null;
+    } catch (error: unknown) {
+      // Return null for 404 errors (power not found)
+      if (isApiErrorWithStatus(error) && error.statusCode === 404) {
+        return null;
+      }
+
+      if (isCancellationError(error)) {
+        logger.debug("Request cancelled (expected during navigation)", {
+          powerId: id.value,
+        });
+        throw error;
+      }
+
+      logger.error("Failed to fetch power by ID", error, { powerId: id.value });
+      throw error;
+    }
+  }
+}
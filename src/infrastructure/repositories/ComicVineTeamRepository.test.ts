@@ -0,0 +1,158 @@
+/**
+ * ComicVineTeamRepository Unit Tests
+ *
+ * Tests for the Team Repository.
+ * Tests cover: findById
+ */
+
+import { ComicVineTeamRepository } from "./ComicVineTeamRepository";
+import { ComicVineApiClient } from "@infrastructure/http/ComicVineApiClient";
+import { Team } from "@domain/character/entities/Team";
+import { TeamId } from "@domain/character/valueObjects/TeamId";
+
+// Mock the API client (keep the real ApiError the repository throws)
+jest.mock("@infrastructure/http/ComicVineApiClient", () => ({
+  ...jest.requireActual("@infrastructure/http/ComicVineApiClient"),
+  ComicVineApiClient: jest.fn(),
+}));
+
+jest.mock("@infrastructure/logging/Logger");
+
+describe("ComicVineTeamRepository", () => {
+  let repository: ComicVineTeamRepository;
+  let mockApiClient: jest.Mocked<ComicVineApiClient>;
+
+  const createMockTeamApiResponse = () => ({
+    id: 3806,
+    name: "Avengers",
+    deck: "<p>Earth's Mightiest Heroes</p>",
+    image: {
+      original_url: "https://example.com/avengers.jpg",
+    },
+    characters: [
+      { id: 1443, name: "Iron Man", api_detail_url: "url1" },
+      { id: 1455, name: "Thor", api_detail_url: "url2" },
+    ],
+  });
+
+  beforeEach(() => {
+    mockApiClient = {
+      get: jest.fn(),
+    } as unknown as jest.Mocked<ComicVineApiClient>;
+    repository = new ComicVineTeamRepository(mockApiClient);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("findById", () => {
+    it("returns team when found", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "OK",
+        status_code: 1,
+        results: createMockTeamApiResponse(),
+      });
+
+      // Act
+      const team = await repository.findById(new TeamId(3806));
+
+      // Assert
+      expect(team).toBeInstanceOf(Team);
+      expect(team?.name).toBe("Avengers");
+      expect(team?.memberIds.map((id) => id.value)).toEqual([1443, 1455]);
+      expect(mockApiClient.get).toHaveBeenCalledWith(
+        "/team/4060-3806/",
+        { field_list: "id,name,deck,image,characters" },
+        { useCache: true, staleWhileRevalidate: true },
+      );
+    });
+
+    it("returns null when team not found", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "OK",
+        status_code: 1,
+        results: [],
+      });
+
+      // Act
+      const team = await repository.findById(new TeamId(99999));
+
+      // Assert
+      expect(team).toBeNull();
+    });
+
+    it("returns null when the team payload is malformed", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "OK",
+        status_code: 1,
+        results: { ...createMockTeamApiResponse(), name: "" },
+      });
+
+      // Act
+      const team = await repository.findById(new TeamId(3806));
+
+      // Assert
+      expect(team).toBeNull();
+    });
+
+    it("keeps the team when its roster is malformed", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockResolvedValue({
+        error: "OK",
+        status_code: 1,
+        results: { ...createMockTeamApiResponse(), characters: "broken" },
+      });
+
+      // Act
+      const team = await repository.findById(new TeamId(3806));
+
+      // Assert
+      expect(team?.name).toBe("Avengers");
+      expect(team?.memberCount).toBe(0);
+    });
+
+    it("returns null when API returns 404 error", async () => {
+      // Arrange
+      interface ErrorWithStatusCode extends Error {
+        statusCode: number;
+      }
+      const error = new Error("Not Found") as ErrorWithStatusCode;
+      error.statusCode = 404;
+      (mockApiClient.get as jest.Mock).mockRejectedValue(error);
+
+      // Act
+      const team = await repository.findById(new TeamId(3806));
+
+      // Assert
+      expect(team).toBeNull();
+    });
+
+    it("throws error when API returns non-404 error", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockRejectedValue(
+        new Error("API Error"),
+      );
+
+      // Act & Assert
+      await expect(repository.findById(new TeamId(3806))).rejects.toThrow(
+        "API Error",
+      );
+    });
+
+    it("rethrows cancellations", async () => {
+      // Arrange
+      (mockApiClient.get as jest.Mock).mockRejectedValue(
+        new Error("Request was cancelled"),
+      );
+
+      // Act & Assert
+      await expect(repository.findById(new TeamId(3806))).rejects.toThrow(
+        "Request was cancelled",
+      );
+    });
+  });
+});
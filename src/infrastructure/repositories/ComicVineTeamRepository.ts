@@ -0,0 +1,94 @@
+import { TeamRepository } from "@domain/character/ports/TeamRepository";
+import { Team } from "@domain/character/entities/Team";
+import { TeamId } from "@domain/character/valueObjects/TeamId";
+import { ComicVineApiClient } from "../http/ComicVineApiClient";
+import { comicVineSingleResponseSchema } from "@application/character/dtos/ComicVineCharacterDTO";
+import {
+  TEAM_FIELD_LIST,
+  comicVineTeamSchema,
+} from "@application/character/dtos/ComicVineTeamDTO";
+import { ComicVineTeamMapper } from "@application/character/mappers/ComicVineTeamMapper";
+import { logger } from "@infrastructure/logging/Logger";
+import { isApiErrorWithStatus, isCancellationError } from "../http/types";
+import { parseResponse, toDomainItems } from "./comicVineValidation";
+
+/**
+ * Comic Vine Team Repository
+ *
+ * Implements TeamRepository port using Comic Vine API.
+ *
+ * Features:
+ * - Team lookup by ID with its roster (`/team/4060-{id}/`)
+ * - Minimal `field_list` (name, deck, image and roster)
+ * - Response caching via API client (stale-while-revalidate)
+ * - Runtime validation of payloads
+ *
+ * @example
+ * ```typescript
+ * const repository = new ComicVineTeamRepository(apiClient);
+ * const team = await repository.findById(new TeamId(3806));
+ * ```
+ */
+export class ComicVineTeamRepository implements TeamRepository {
+  private readonly apiClient: ComicVineApiClient;
+
+  constructor(apiClient?: ComicVineApiClient) {
+    this.apiClient = apiClient || new ComicVineApiClient();
+  }
+
+  /**
+   * Find a single team by ID
+   *
+   * Comic Vine uses format: /team/4060-{id}/
+   *
+   * @param id - Team identifier
+   * @returns Team if found, null if not found (or too malformed to display)
+   * @throws {ApiError} When the API request fails
+   */
+  async findById(id: TeamId): Promise<Team | null> {
+    try {
+      const endpoint = `/team/4060-${id.value}/`;
+      const data = await this.apiClient.get<unknown>(
+        endpoint,
+        { field_list: TEAM_FIELD_LIST },
+        {
+          useCache: true,
+          staleWhileRevalidate: true,
+        },
+      );
+      const response = parseResponse(
+        comicVineSingleResponseSchema,
+        data,
+        endpoint,
+      );
+
+      // Comic Vine returns the team in results ([] when not found)
+      if (!response.results || Array.isArray(response.results)) {
+        return null;
+      }
+
+      const [team] = toDomainItems(
+        [response.results],
+        comicVineTeamSchema,
+        (dto) => ComicVineTeamMapper.toDomain(dto),
+        endpoint,
+      );
+      return team ?? null;
+    } catch (error: unknown) {
+      // Return null for 404 errors (team not found)
+      if (isApiErrorWithStatus(error) && error.statusCode === 404) {
+        return null;
+      }
+
+      if (isCancellationError(error)) {
+        logger.debug("Request cancelled (expected during navigation)", {
+          teamId: id.value,
+        });
+        throw error;
+      }
+
+      logger.error("Failed to fetch team by ID", error, { teamId: id.value });
+      throw error;
+    }
+  }
+}
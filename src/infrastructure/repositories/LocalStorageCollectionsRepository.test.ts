@@ -0,0 +1,178 @@
+/**
+ * LocalStorageCollectionsRepository Tests
+ *
+ * Tests for the LocalStorage-based collections repository covering
+ * persistence round-trips, invalid stored data, and change notifications.
+ */
+
+import { LocalStorageCollectionsRepository } from "./LocalStorageCollectionsRepository";
+import { FavoriteCollection } from "@domain/character/entities/FavoriteCollection";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { StorageAdapter } from "../storage/StorageAdapter";
+import { CollectionsData } from "../storage/CollectionsSchema";
+import { logger } from "@infrastructure/logging/Logger";
+
+jest.mock("@infrastructure/logging/Logger");
+
+const STORAGE_KEY = "marvel_favorite_collections";
+
+describe("LocalStorageCollectionsRepository", () => {
+  let items: Map<string, string>;
+  let events: EventTarget;
+  let repository: LocalStorageCollectionsRepository;
+
+  const createCollection = (id: string, name: string) =>
+    new FavoriteCollection({
+      id,
+      name,
+      createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    });
+
+  const stored = () =>
+    JSON.parse(items.get(STORAGE_KEY) ?? "null") as CollectionsData | null;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    items = new Map();
+    events = new EventTarget();
+
+    const storage = {
+      get: (key: string) => JSON.parse(items.get(key) ?? "null"),
+      set: (key: string, value: unknown) => {
+        items.set(key, JSON.stringify(value));
+      },
+    } as unknown as StorageAdapter;
+
+    repository = new LocalStorageCollectionsRepository(storage, {
+      events: events as unknown as Window,
+    });
+  });
+
+  afterEach(() => {
+    repository.dispose();
+  });
+
+  describe("save / findAll / findById", () => {
+    it("should return no collections when nothing is stored", async () => {
+      expect(await repository.findAll()).toEqual([]);
+    });
+
+    it("should round-trip a collection with entries", async () => {
+      const ironMan = new CharacterId(1009368);
+      const collection = createCollection("c_1", "Avengers roster")
+        .withCharacter(ironMan, new Date("2024-02-01T00:00:00.000Z"))
+        .withEntryDetails(ironMan, { note: "Genius", tags: ["founding"] });
+
+      await repository.save(collection);
+      const found = await repository.findById("c_1");
+
+      expect(found?.name).toBe("Avengers roster");
+      expect(found?.getEntry(ironMan)).toEqual({
+        characterId: ironMan,
+        note: "Genius",
+        tags: ["founding"],
+        addedAt: new Date("2024-02-01T00:00:00.000Z"),
+      });
+      expect(stored()?.version).toBe(1);
+    });
+
+    it("should replace an existing collection with the same ID", async () => {
+      await repository.save(createCollection("c_1", "Avengers"));
+      await repository.save(createCollection("c_2", "X-Men villains"));
+      await repository.save(createCollection("c_1", "New Avengers"));
+
+      const names = (await repository.findAll()).map(({ name }) => name);
+      expect(names).toEqual(["New Avengers", "X-Men villains"]);
+    });
+
+    it("should return null for an unknown ID", async () => {
+      expect(await repository.findById("missing")).toBeNull();
+    });
+  });
+
+  describe("delete", () => {
+    it("should remove the collection", async () => {
+      await repository.save(createCollection("c_1", "Avengers"));
+
+      await repository.delete("c_1");
+
+      expect(await repository.findAll()).toEqual([]);
+    });
+  });
+
+  describe("Data validation", () => {
+    it("should skip stored collections the domain rejects", async () => {
+      items.set(
+        STORAGE_KEY,
+        JSON.stringify({
+          version: 1,
+          collections: [
+            { id: "c_1", name: "", createdAt: "2024-01-01", entries: [] },
+            {
+              id: "c_2",
+              name: "X-Men villains",
+              createdAt: "2024-01-01",
+              entries: [],
+            },
+          ],
+          lastModified: "2024-01-01T00:00:00.000Z",
+        }),
+      );
+
+      const collections = await repository.findAll();
+
+      expect(collections.map(({ id }) => id)).toEqual(["c_2"]);
+      expect(logger.warn).toHaveBeenCalledWith(
+        "Skipping invalid stored collection",
+        expect.objectContaining({ id: "c_1" }),
+      );
+    });
+
+    it("should reset invalid data structures to default", async () => {
+      items.set(STORAGE_KEY, JSON.stringify({ version: 1, collections: "x" }));
+
+      expect(await repository.findAll()).toEqual([]);
+    });
+  });
+
+  describe("Change notifications", () => {
+    it("should notify local changes", async () => {
+      const listener = jest.fn();
+      repository.subscribe(listener);
+
+      await repository.save(createCollection("c_1", "Avengers"));
+      await repository.delete("c_1");
+
+      expect(listener.mock.calls).toEqual([
+        [{ origin: "local" }],
+        [{ origin: "local" }],
+      ]);
+    });
+
+    it("should notify remote changes to the collections key only", () => {
+      const listener = jest.fn();
+      repository.subscribe(listener);
+
+      events.dispatchEvent(
+        new StorageEvent("storage", { key: "marvel_favorites" }),
+      );
+      events.dispatchEvent(new StorageEvent("storage", { key: STORAGE_KEY }));
+
+      expect(listener.mock.calls).toEqual([[{ origin: "remote" }]]);
+    });
+
+    it("should stop notifying after unsubscribe and dispose", async () => {
+      const listener = jest.fn();
+      const unsubscribe = repository.subscribe(listener);
+
+      unsubscribe();
+      await repository.save(createCollection("c_1", "Avengers"));
+
+      repository.subscribe(listener);
+      repository.dispose();
+      events.dispatchEvent(new StorageEvent("storage", { key: STORAGE_KEY }));
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
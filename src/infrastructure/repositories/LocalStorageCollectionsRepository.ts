@@ -0,0 +1,172 @@
+import { FavoriteCollectionsRepository } from "@domain/character/ports/FavoriteCollectionsRepository";
+import { FavoritesChange } from "@domain/character/ports/FavoritesRepository";
+import { FavoriteCollection } from "@domain/character/entities/FavoriteCollection";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { StorageAdapter } from "../storage/StorageAdapter";
+import { VersionedStore } from "../storage/VersionedStore";
+import {
+  CollectionsData,
+  StoredCollection,
+  collectionsMigrations,
+  createDefaultCollectionsData,
+} from "../storage/CollectionsSchema";
+import { StorageEventTarget } from "./LocalStorageFavoritesRepository";
+import { logger } from "@infrastructure/logging/Logger";
+
+/**
+ * LocalStorage Collections Repository
+ *
+ * Implements FavoriteCollectionsRepository using browser localStorage, under
+ * its own versioned key (see VersionedStore). Collections written by other
+ * tabs are reported to subscribers as remote changes.
+ *
+ * @example
+ * ```typescript
+ * const repository = new LocalStorageCollectionsRepository();
+ * await repository.save(new FavoriteCollection({ id: 'c_1', name: 'X-Men villains', createdAt: new Date() }));
+ * ```
+ */
+export class LocalStorageCollectionsRepository implements FavoriteCollectionsRepository {
+  private readonly STORAGE_KEY = "marvel_favorite_collections";
+  private readonly store: VersionedStore<CollectionsData>;
+  private readonly events: StorageEventTarget | null;
+  private readonly listeners = new Set<(change: FavoritesChange) => void>();
+
+  constructor(
+    storage?: StorageAdapter,
+    options: { events?: StorageEventTarget | null } = {},
+  ) {
+    this.store = new VersionedStore(
+      storage || new StorageAdapter(),
+      this.STORAGE_KEY,
+      collectionsMigrations,
+    );
+    this.events =
+      options.events !== undefined
+        ? options.events
+        : typeof window !== "undefined"
+          ? window
+          : null;
+
+    this.events?.addEventListener("storage", this.handleStorageEvent);
+  }
+
+  async findAll(): Promise<FavoriteCollection[]> {
+    return this.load()
+      .collections.map((stored) => this.toDomain(stored))
+      .filter(
+        (collection): collection is FavoriteCollection => collection !== null,
+      );
+  }
+
+  async findById(id: string): Promise<FavoriteCollection | null> {
+    const stored = this.load().collections.find(
+      (collection) => collection.id === id,
+    );
+    return stored ? this.toDomain(stored) : null;
+  }
+
+  async save(collection: FavoriteCollection): Promise<void> {
+    const data = this.load();
+    const stored = this.toStored(collection);
+    const index = data.collections.findIndex(({ id }) => id === collection.id);
+
+    if (index === -1) {
+      data.collections.push(stored);
+    } else {
+      data.collections[index] = stored;
+    }
+
+    this.persist(data);
+  }
+
+  async delete(id: string): Promise<void> {
+    const data = this.load();
+    data.collections = data.collections.filter(
+      (collection) => collection.id !== id,
+    );
+    this.persist(data);
+  }
+
+  subscribe(listener: (change: FavoritesChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stop listening to other tabs
+   */
+  dispose(): void {
+    this.events?.removeEventListener("storage", this.handleStorageEvent);
+    this.listeners.clear();
+  }
+
+  private readonly handleStorageEvent = (event: StorageEvent): void => {
+    if (event.key === this.STORAGE_KEY || event.key === null) {
+      this.notify({ origin: "remote" });
+    }
+  };
+
+  /**
+   * Load collections data from storage with validation and migration
+   */
+  private load(): CollectionsData {
+    try {
+      return this.store.load();
+    } catch (error) {
+      logger.error("Failed to load collections", error);
+      return createDefaultCollectionsData();
+    }
+  }
+
+  private persist(data: CollectionsData): void {
+    data.lastModified = new Date().toISOString();
+    this.store.save(data);
+    this.notify({ origin: "local" });
+  }
+
+  private notify(change: FavoritesChange): void {
+    this.listeners.forEach((listener) => listener(change));
+  }
+
+  /**
+   * Stored collection → domain entity (null when the domain rejects it)
+   */
+  private toDomain(stored: StoredCollection): FavoriteCollection | null {
+    try {
+      return new FavoriteCollection({
+        id: stored.id,
+        name: stored.name,
+        createdAt: new Date(stored.createdAt),
+        entries: stored.entries.map((entry) => ({
+          characterId: new CharacterId(entry.characterId),
+          note: entry.note,
+          tags: entry.tags,
+          addedAt: new Date(entry.addedAt),
+        })),
+      });
+    } catch (error) {
+      logger.warn("Skipping invalid stored collection", {
+        id: stored.id,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  private toStored(collection: FavoriteCollection): StoredCollection {
+    return {
+      id: collection.id,
+      name: collection.name,
+      createdAt: collection.createdAt.toISOString(),
+      entries: collection.entries.map((entry) => ({
+        characterId: entry.characterId.value,
+        note: entry.note,
+        tags: [...entry.tags],
+        addedAt: entry.addedAt.toISOString(),
+      })),
+    };
+  }
+}
@@ -6,7 +6,10 @@
  */
 
 import { LocalStorageFavoritesRepository } from "./LocalStorageFavoritesRepository";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
 import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
 import { StorageAdapter } from "../storage/StorageAdapter";
 import { logger } from "@infrastructure/logging/Logger";
 import { FavoritesData } from "../storage/StorageSchema";
@@ -15,6 +18,35 @@ import { FavoritesData } from "../storage/StorageSchema";
 jest.mock("../storage/StorageAdapter");
 jest.mock("@infrastructure/logging/Logger");
 
+/**
+ * Stored v2 data with a snapshot per favorite
+ */
+function storedFavorites(
+  ids: number[],
+  lastModified = "2024-01-01T00:00:00.000Z",
+): FavoritesData {
+  return {
+    version: 2,
+    favorites: ids.map((id) => ({
+      id,
+      name: `Character ${id}`,
+      thumbnailUrl: `http://example.com/${id}.jpg`,
+      description: "",
+      addedAt: lastModified,
+    })),
+    lastModified,
+  };
+}
+
+const entryWithId = (id: number) => expect.objectContaining({ id });
+
+const spiderMan = new CharacterSummary({
+  id: new CharacterId(1009610),
+  name: new CharacterName("Spider-Man"),
+  deck: "Friendly neighborhood Spider-Man",
+  thumbnail: new ImageUrl("http://example.com/spiderman", "jpg"),
+});
+
 describe("LocalStorageFavoritesRepository", () => {
   let repository: LocalStorageFavoritesRepository;
   let mockStorage: jest.Mocked<StorageAdapter>;
@@ -40,11 +72,7 @@ describe("LocalStorageFavoritesRepository", () => {
   describe("add", () => {
     it("should add a new favorite", async () => {
       // Arrange: Empty favorites
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(storedFavorites([]));
 
       const characterId = new CharacterId(1011334);
 
@@ -55,19 +83,15 @@ describe("LocalStorageFavoritesRepository", () => {
       expect(mockStorage.set).toHaveBeenCalledWith(
         "marvel_favorites",
         expect.objectContaining({
-          version: 1,
-          favorites: [1011334],
+          version: 2,
+          favorites: [1011334].map(entryWithId),
         }),
       );
     });
 
     it("should not add duplicate favorites", async () => {
       // Arrange: Already favorited
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [1011334],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(storedFavorites([1011334]));
 
       const characterId = new CharacterId(1011334);
 
@@ -80,11 +104,7 @@ describe("LocalStorageFavoritesRepository", () => {
 
     it("should add multiple favorites", async () => {
       // Start with one favorite
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [1011334],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(storedFavorites([1011334]));
 
       await repository.add(new CharacterId(1009610)); // Spider-Man
 
@@ -92,17 +112,13 @@ describe("LocalStorageFavoritesRepository", () => {
       expect(mockStorage.set).toHaveBeenCalledWith(
         "marvel_favorites",
         expect.objectContaining({
-          favorites: [1011334, 1009610],
+          favorites: [1011334, 1009610].map(entryWithId),
         }),
       );
     });
 
     it("should update lastModified when adding", async () => {
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(storedFavorites([]));
 
       const before = Date.now();
       await repository.add(new CharacterId(1011334));
@@ -116,14 +132,100 @@ describe("LocalStorageFavoritesRepository", () => {
     });
   });
 
+  describe("snapshots", () => {
+    it("should store a snapshot when adding with character data", async () => {
+      mockStorage.get.mockReturnValue(storedFavorites([]));
+
+      await repository.add(spiderMan.id, spiderMan);
+
+      const savedData = mockStorage.set.mock.calls[0]?.[1] as FavoritesData;
+      expect(savedData.favorites).toEqual([
+        {
+          id: 1009610,
+          name: "Spider-Man",
+          thumbnailUrl: "http://example.com/spiderman.jpg",
+          description: "Friendly neighborhood Spider-Man",
+          addedAt: savedData.lastModified,
+        },
+      ]);
+    });
+
+    it("should shorten long descriptions in snapshots", async () => {
+      mockStorage.get.mockReturnValue(storedFavorites([]));
+      const character = new CharacterSummary({
+        id: new CharacterId(1009610),
+        name: new CharacterName("Spider-Man"),
+        deck: "word ".repeat(100),
+        thumbnail: new ImageUrl("http://example.com/spiderman", "jpg"),
+      });
+
+      await repository.add(character.id, character);
+
+      const savedData = mockStorage.set.mock.calls[0]?.[1] as FavoritesData;
+      const description = savedData.favorites[0]?.description ?? "";
+      expect(description.length).toBeLessThanOrEqual(200);
+      expect(description.endsWith("word…")).toBe(true);
+    });
+
+    it("should return snapshots in favorites order", async () => {
+      mockStorage.get.mockReturnValue(storedFavorites([1011334, 1009610]));
+
+      const snapshots = await repository.findAllSnapshots();
+
+      expect(snapshots.map((s) => s.id.value)).toEqual([1011334, 1009610]);
+      expect(snapshots[0]).toEqual({
+        id: new CharacterId(1011334),
+        name: "Character 1011334",
+        thumbnailUrl: "http://example.com/1011334.jpg",
+        description: "",
+        addedAt: new Date("2024-01-01T00:00:00.000Z"),
+      });
+    });
+
+    it("should refresh snapshots and keep the date added", async () => {
+      mockStorage.get.mockReturnValue(storedFavorites([1011334, 1009610]));
+
+      await repository.updateSnapshots([spiderMan]);
+
+      const savedData = mockStorage.set.mock.calls[0]?.[1] as FavoritesData;
+      expect(savedData.favorites[0]?.name).toBe("Character 1011334");
+      expect(savedData.favorites[1]).toEqual({
+        id: 1009610,
+        name: "Spider-Man",
+        thumbnailUrl: "http://example.com/spiderman.jpg",
+        description: "Friendly neighborhood Spider-Man",
+        addedAt: "2024-01-01T00:00:00.000Z",
+      });
+    });
+
+    it("should ignore characters that are not favorited", async () => {
+      mockStorage.get.mockReturnValue(storedFavorites([1011334]));
+
+      await repository.updateSnapshots([spiderMan]);
+
+      expect(mockStorage.set).not.toHaveBeenCalled();
+    });
+
+    it("should not fail when snapshots can't be saved", async () => {
+      mockStorage.get.mockReturnValue(storedFavorites([1009610]));
+      mockStorage.set.mockImplementation(() => {
+        throw new Error("Quota exceeded");
+      });
+
+      await expect(
+        repository.updateSnapshots([spiderMan]),
+      ).resolves.toBeUndefined();
+      expect(logger.warn).toHaveBeenCalledWith(
+        "Failed to refresh favorite snapshots",
+        expect.any(Object),
+      );
+    });
+  });
+
   describe("remove", () => {
     it("should remove a favorite", async () => {
       // Arrange
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [1011334, 1009610],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(storedFavorites([1011334, 1009610]));
 
       // Act
       await repository.remove(new CharacterId(1011334));
@@ -132,17 +234,13 @@ describe("LocalStorageFavoritesRepository", () => {
       expect(mockStorage.set).toHaveBeenCalledWith(
         "marvel_favorites",
         expect.objectContaining({
-          favorites: [1009610],
+          favorites: [1009610].map(entryWithId),
         }),
       );
     });
 
     it("should handle removing non-existent favorite", async () => {
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [1011334],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(storedFavorites([1011334]));
 
       await repository.remove(new CharacterId(9999));
 
@@ -150,17 +248,13 @@ describe("LocalStorageFavoritesRepository", () => {
       expect(mockStorage.set).toHaveBeenCalledWith(
         "marvel_favorites",
         expect.objectContaining({
-          favorites: [1011334],
+          favorites: [1011334].map(entryWithId),
         }),
       );
     });
 
     it("should update lastModified when removing", async () => {
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [1011334],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(storedFavorites([1011334]));
 
       const before = Date.now();
       await repository.remove(new CharacterId(1011334));
@@ -174,11 +268,7 @@ describe("LocalStorageFavoritesRepository", () => {
     });
 
     it("should handle removing from empty list", async () => {
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(storedFavorites([]));
 
       await repository.remove(new CharacterId(1011334));
 
@@ -193,11 +283,9 @@ describe("LocalStorageFavoritesRepository", () => {
 
   describe("findAll", () => {
     it("should return all favorites as CharacterIds", async () => {
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [1011334, 1009610, 1009368],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(
+        storedFavorites([1011334, 1009610, 1009368]),
+      );
 
       const result = await repository.findAll();
 
@@ -209,11 +297,7 @@ describe("LocalStorageFavoritesRepository", () => {
     });
 
     it("should return empty array when no favorites", async () => {
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(storedFavorites([]));
 
       const result = await repository.findAll();
 
@@ -231,11 +315,7 @@ describe("LocalStorageFavoritesRepository", () => {
 
   describe("contains", () => {
     it("should return true if favorite exists", async () => {
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [1011334, 1009610],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(storedFavorites([1011334, 1009610]));
 
       const result = await repository.contains(new CharacterId(1011334));
 
@@ -243,11 +323,7 @@ describe("LocalStorageFavoritesRepository", () => {
     });
 
     it("should return false if favorite does not exist", async () => {
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [1011334],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(storedFavorites([1011334]));
 
       const result = await repository.contains(new CharacterId(9999));
 
@@ -255,11 +331,7 @@ describe("LocalStorageFavoritesRepository", () => {
     });
 
     it("should return false when storage is empty", async () => {
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(storedFavorites([]));
 
       const result = await repository.contains(new CharacterId(1011334));
 
@@ -269,11 +341,9 @@ describe("LocalStorageFavoritesRepository", () => {
 
   describe("count", () => {
     it("should return the number of favorites", async () => {
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [1011334, 1009610, 1009368],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(
+        storedFavorites([1011334, 1009610, 1009368]),
+      );
 
       const result = await repository.count();
 
@@ -281,11 +351,7 @@ describe("LocalStorageFavoritesRepository", () => {
     });
 
     it("should return 0 when no favorites", async () => {
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(storedFavorites([]));
 
       const result = await repository.count();
 
@@ -301,26 +367,70 @@ describe("LocalStorageFavoritesRepository", () => {
     });
   });
 
+  describe("replaceAll", () => {
+    it("should store the given favorites with their snapshots and dates", async () => {
+      mockStorage.get.mockReturnValue(storedFavorites([1011334]));
+
+      await repository.replaceAll([
+        {
+          id: new CharacterId(1009610),
+          name: "Spider-Man",
+          thumbnailUrl: "http://example.com/spiderman.jpg",
+          description: "Friendly neighborhood Spider-Man",
+          addedAt: new Date("2023-06-01T00:00:00.000Z"),
+        },
+      ]);
+
+      const savedData = mockStorage.set.mock.calls[0]?.[1] as FavoritesData;
+      expect(savedData.favorites).toEqual([
+        {
+          id: 1009610,
+          name: "Spider-Man",
+          thumbnailUrl: "http://example.com/spiderman.jpg",
+          description: "Friendly neighborhood Spider-Man",
+          addedAt: "2023-06-01T00:00:00.000Z",
+        },
+      ]);
+    });
+
+    it("should ignore duplicate IDs and notify once", async () => {
+      mockStorage.get.mockReturnValue(storedFavorites([]));
+      const listener = jest.fn();
+      repository.subscribe(listener);
+      const favorite = {
+        id: new CharacterId(1009610),
+        name: "",
+        thumbnailUrl: "",
+        description: "",
+        addedAt: new Date(),
+      };
+
+      await repository.replaceAll([favorite, favorite]);
+
+      const savedData = mockStorage.set.mock.calls[0]?.[1] as FavoritesData;
+      expect(savedData.favorites).toHaveLength(1);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("clear", () => {
     it("should clear all favorites", async () => {
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [1011334, 1009610],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(storedFavorites([1011334, 1009610]));
 
       await repository.clear();
 
       expect(mockStorage.set).toHaveBeenCalledWith(
         "marvel_favorites",
         expect.objectContaining({
-          version: 1,
+          version: 2,
           favorites: [],
         }),
       );
     });
 
     it("should create default data structure when clearing", async () => {
+      mockStorage.get.mockReturnValue(null);
+
       await repository.clear();
 
       const savedData = mockStorage.set.mock.calls[0]?.[1] as FavoritesData;
@@ -382,7 +492,7 @@ describe("LocalStorageFavoritesRepository", () => {
       expect(mockStorage.set).toHaveBeenCalledWith(
         "marvel_favorites",
         expect.objectContaining({
-          favorites: [1011334],
+          favorites: [1011334].map(entryWithId),
         }),
       );
     });
@@ -390,11 +500,7 @@ describe("LocalStorageFavoritesRepository", () => {
 
   describe("Data validation and migration", () => {
     it("should validate data structure before using", async () => {
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [1011334],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(storedFavorites([1011334]));
 
       await repository.findAll();
 
@@ -403,7 +509,7 @@ describe("LocalStorageFavoritesRepository", () => {
     });
 
     it("should migrate old data format if needed", async () => {
-      // Simulate old data format that needs migration
+      // v1: IDs only
       mockStorage.get.mockReturnValue({
         version: 1,
         favorites: [1011334, 1009610],
@@ -412,7 +518,120 @@ describe("LocalStorageFavoritesRepository", () => {
 
       const result = await repository.findAll();
 
-      expect(result).toHaveLength(2);
+      expect(result.map((id) => id.value)).toEqual([1011334, 1009610]);
+    });
+
+    it("should persist v1 data migrated to v2", async () => {
+      mockStorage.get.mockReturnValue({
+        version: 1,
+        favorites: [1011334, 1011334, 1009610],
+        lastModified: "2024-01-01T00:00:00.000Z",
+      });
+
+      await repository.findAll();
+
+      expect(mockStorage.set).toHaveBeenCalledWith("marvel_favorites", {
+        version: 2,
+        favorites: [1011334, 1009610].map((id) => ({
+          id,
+          name: "",
+          thumbnailUrl: "",
+          description: "",
+          addedAt: "2024-01-01T00:00:00.000Z",
+        })),
+        lastModified: "2024-01-01T00:00:00.000Z",
+      });
+    });
+
+    it("should keep reading migrated data when persisting it fails", async () => {
+      mockStorage.get.mockReturnValue({
+        version: 1,
+        favorites: [1011334],
+        lastModified: "2024-01-01T00:00:00.000Z",
+      });
+      mockStorage.set.mockImplementation(() => {
+        throw new Error("Quota exceeded");
+      });
+
+      const result = await repository.findAll();
+
+      expect(result.map((id) => id.value)).toEqual([1011334]);
+      expect(logger.warn).toHaveBeenCalledWith(
+        "Failed to persist migrated favorites data",
+        expect.any(Object),
+      );
+    });
+
+    it("should back up v1 data before migrating it", async () => {
+      const v1 = {
+        version: 1,
+        favorites: [1011334],
+        lastModified: "2024-01-01T00:00:00.000Z",
+      };
+      mockStorage.get.mockReturnValue(v1);
+
+      await repository.findAll();
+
+      expect(mockStorage.set).toHaveBeenCalledWith(
+        "marvel_favorites_backup",
+        expect.objectContaining({ version: 1, data: v1 }),
+      );
+    });
+
+    it("should read data saved by a newer app version without resetting it", async () => {
+      mockStorage.get.mockReturnValue({
+        ...storedFavorites([1011334]),
+        version: 3,
+        collections: [],
+      });
+
+      const result = await repository.findAll();
+
+      expect(result.map((id) => id.value)).toEqual([1011334]);
+      expect(mockStorage.set).not.toHaveBeenCalled();
+    });
+
+    it("should back up newer data before overwriting it", async () => {
+      const newer = { ...storedFavorites([1011334]), version: 3 };
+      mockStorage.get.mockReturnValue(newer);
+
+      await repository.add(new CharacterId(1009610));
+
+      expect(mockStorage.set).toHaveBeenNthCalledWith(
+        1,
+        "marvel_favorites_backup",
+        expect.objectContaining({ version: 3, data: newer }),
+      );
+      expect(mockStorage.set).toHaveBeenNthCalledWith(
+        2,
+        "marvel_favorites",
+        expect.objectContaining({
+          favorites: [1011334, 1009610].map(entryWithId),
+        }),
+      );
+    });
+
+    it("should not rewrite data already at the current version", async () => {
+      mockStorage.get.mockReturnValue(storedFavorites([1011334]));
+
+      await repository.findAll();
+
+      expect(mockStorage.set).not.toHaveBeenCalled();
+    });
+
+    it("should reset entries with an invalid snapshot", async () => {
+      mockStorage.get.mockReturnValue({
+        version: 2,
+        favorites: [{ id: 1011334, name: 42 }],
+        lastModified: "2024-01-01T00:00:00.000Z",
+      });
+
+      const result = await repository.findAll();
+
+      expect(result).toEqual([]);
+      expect(logger.warn).toHaveBeenCalledWith(
+        "Invalid favorites data structure, resetting to default",
+      );
     });
 
     it("should create default data when storage is null", async () => {
@@ -423,8 +642,8 @@ describe("LocalStorageFavoritesRepository", () => {
       expect(mockStorage.set).toHaveBeenCalledWith(
         "marvel_favorites",
         expect.objectContaining({
-          version: 1,
-          favorites: [1011334],
+          version: 2,
+          favorites: [1011334].map(entryWithId),
         }),
       );
     });
@@ -433,11 +652,7 @@ describe("LocalStorageFavoritesRepository", () => {
   describe("Integration scenarios", () => {
     it("should handle add-remove-add cycle", async () => {
       // Start empty
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(storedFavorites([]));
 
       const characterId = new CharacterId(1011334);
 
@@ -446,22 +661,18 @@ describe("LocalStorageFavoritesRepository", () => {
       expect(mockStorage.set).toHaveBeenCalledTimes(1);
 
       // Update mock to reflect added favorite
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [1011334],
-        lastModified: new Date().toISOString(),
-      });
+      mockStorage.get.mockReturnValue(
+        storedFavorites([1011334], new Date().toISOString()),
+      );
 
       // Remove
       await repository.remove(characterId);
       expect(mockStorage.set).toHaveBeenCalledTimes(2);
 
       // Update mock to reflect removed favorite
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [],
-        lastModified: new Date().toISOString(),
-      });
+      mockStorage.get.mockReturnValue(
+        storedFavorites([], new Date().toISOString()),
+      );
 
       // Add again
       await repository.add(characterId);
@@ -469,11 +680,7 @@ describe("LocalStorageFavoritesRepository", () => {
     });
 
     it("should handle rapid operations", async () => {
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: [],
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(storedFavorites([]));
 
       // Add multiple favorites rapidly
       await Promise.all([
@@ -489,11 +696,7 @@ describe("LocalStorageFavoritesRepository", () => {
     it("should handle large favorite lists", async () => {
       const largeFavoritesList = Array.from({ length: 1000 }, (_, i) => i + 1);
 
-      mockStorage.get.mockReturnValue({
-        version: 1,
-        favorites: largeFavoritesList,
-        lastModified: "2024-01-01T00:00:00.000Z",
-      });
+      mockStorage.get.mockReturnValue(storedFavorites(largeFavoritesList));
 
       const result = await repository.findAll();
 
@@ -503,6 +706,165 @@ describe("LocalStorageFavoritesRepository", () => {
     });
   });
 
+  describe("Cross-tab sync", () => {
+    let items: Map<string, string>;
+    let events: EventTarget;
+    let tab: LocalStorageFavoritesRepository;
+
+    /**
+     * Another tab writing favorites (last write wins, as in localStorage)
+     */
+    const writeFromOtherTab = (oldIds: number[], newIds: number[]) => {
+      const oldValue = JSON.stringify(storedFavorites(oldIds));
+      const newValue = JSON.stringify(storedFavorites(newIds));
+      items.set("marvel_favorites", newValue);
+      events.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "marvel_favorites",
+          oldValue,
+          newValue,
+        }),
+      );
+    };
+
+    const storedIds = () =>
+      (
+        JSON.parse(items.get("marvel_favorites") ?? "null") as FavoritesData
+      ).favorites.map((entry) => entry.id);
+
+    beforeEach(() => {
+      items = new Map();
+      events = new EventTarget();
+
+      // Storage shared by both "tabs"
+      const storage = {
+        get: (key: string) => JSON.parse(items.get(key) ?? "null"),
+        set: (key: string, value: unknown) => {
+          items.set(key, JSON.stringify(value));
+        },
+      } as unknown as StorageAdapter;
+
+      tab = new LocalStorageFavoritesRepository(storage, {
+        events: events as unknown as Window,
+      });
+    });
+
+    afterEach(() => {
+      tab.dispose();
+    });
+
+    it("should notify local changes", async () => {
+      const listener = jest.fn();
+      tab.subscribe(listener);
+
+      await tab.add(new CharacterId(1));
+      await tab.remove(new CharacterId(1));
+
+      expect(listener.mock.calls).toEqual([
+        [{ origin: "local" }],
+        [{ origin: "local" }],
+      ]);
+    });
+
+    it("should notify changes made in another tab", () => {
+      const listener = jest.fn();
+      tab.subscribe(listener);
+
+      writeFromOtherTab([1], [1, 2]);
+
+      expect(listener).toHaveBeenCalledWith({ origin: "remote" });
+    });
+
+    it("should not notify snapshot-only changes from another tab", () => {
+      const listener = jest.fn();
+      tab.subscribe(listener);
+
+      writeFromOtherTab([1, 2], [1, 2]);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should ignore other storage keys", () => {
+      const listener = jest.fn();
+      tab.subscribe(listener);
+
+      events.dispatchEvent(
+        new StorageEvent("storage", { key: "marvel_rate_limit" }),
+      );
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should stop notifying after unsubscribe and dispose", () => {
+      const listener = jest.fn();
+      const unsubscribe = tab.subscribe(listener);
+      unsubscribe();
+      const other = jest.fn();
+      tab.subscribe(other);
+      tab.dispose();
+
+      writeFromOtherTab([], [1]);
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(other).not.toHaveBeenCalled();
+    });
+
+    it("should replay an add overwritten by a concurrent write", async () => {
+      await tab.add(new CharacterId(1));
+
+      // The other tab didn't see favorite 1 and wrote its own add
+      writeFromOtherTab([], [2]);
+
+      expect(storedIds()).toEqual([2, 1]);
+    });
+
+    it("should replay a removal overwritten by a concurrent write", async () => {
+      items.set("marvel_favorites", JSON.stringify(storedFavorites([1, 2])));
+      await tab.remove(new CharacterId(1));
+
+      // The other tab still saw favorite 1 and wrote its own add
+      writeFromOtherTab([1, 2], [1, 2, 3]);
+
+      expect(storedIds()).toEqual([2, 3]);
+    });
+
+    it("should let the other tab's change win for the same favorite", async () => {
+      await tab.add(new CharacterId(1));
+
+      // The other tab saw favorite 1 and removed it on purpose
+      writeFromOtherTab([1], []);
+
+      expect(storedIds()).toEqual([]);
+    });
+
+    it("should not replay changes older than the merge window", async () => {
+      const now = jest.spyOn(Date, "now").mockReturnValue(1_000);
+      await tab.add(new CharacterId(1));
+
+      now.mockReturnValue(1_000 + 60_000);
+      writeFromOtherTab([], [2]);
+      now.mockRestore();
+
+      expect(storedIds()).toEqual([2]);
+    });
+
+    it("should forget changes older than the merge window as it records new ones", async () => {
+      const now = jest.spyOn(Date, "now").mockReturnValue(1_000);
+      await tab.add(new CharacterId(1));
+      await tab.remove(new CharacterId(1));
+
+      now.mockReturnValue(1_000 + 60_000);
+      await tab.add(new CharacterId(2));
+      now.mockRestore();
+
+      // No other tab has written, so only recording can have pruned them
+      const { recentChanges } = tab as unknown as { recentChanges: unknown[] };
+      expect(recentChanges).toEqual([
+        expect.objectContaining({ type: "add", at: 61_000 }),
+      ]);
+    });
+  });
+
   describe("Constructor", () => {
     it("should create repository with default storage adapter", () => {
       const repo = new LocalStorageFavoritesRepository();
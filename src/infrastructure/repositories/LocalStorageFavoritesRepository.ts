@@ -1,60 +1,174 @@
-import { FavoritesRepository } from "@domain/character/ports/FavoritesRepository";
+import {
+  FavoriteSnapshot,
+  FavoritesChange,
+  FavoritesRepository,
+} from "@domain/character/ports/FavoritesRepository";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
 import { CharacterId } from "@domain/character/valueObjects/CharacterId";
 import { StorageAdapter } from "../storage/StorageAdapter";
+import { VersionedStore } from "../storage/VersionedStore";
 import {
+  FavoriteEntry,
   FavoritesData,
   createDefaultFavoritesData,
-  validateFavoritesData,
-  migrateFavoritesData,
+  favoritesMigrations,
+  shortenDescription,
 } from "../storage/StorageSchema";
 import { logger } from "@infrastructure/logging/Logger";
 
+/**
+ * Add or remove made by this tab, kept briefly to merge concurrent writes
+ */
+type RecentChange =
+  | { type: "add"; entry: FavoriteEntry; at: number }
+  | { type: "remove"; id: number; at: number };
+
+/**
+ * Minimal event target for `storage` events (injectable for tests)
+ */
+export type StorageEventTarget = Pick<
+  Window,
+  "addEventListener" | "removeEventListener"
+>;
+
+/**
+ * How long this tab's own changes are replayed over writes from other tabs
+ */
+const MERGE_WINDOW_MS = 10_000;
+
 /**
  * LocalStorage Favorites Repository
  *
  * Implements FavoritesRepository using browser localStorage.
- * Provides safe storage with validation and migration support.
+ * Provides safe storage with validation and migration support (see
+ * VersionedStore: older data is migrated, newer data is read without loss).
+ * Each favorite keeps a snapshot of the character (name, thumbnail, short
+ * description) so the favorites page renders without the API.
+ *
+ * Cross-tab sync: other tabs' writes arrive as `storage` events and are
+ * reported to subscribers as remote changes. When two tabs write at once, the
+ * last write wins in localStorage, so this tab replays its recent changes on
+ * top of the other tab's write - except for favorites the other tab changed
+ * itself, where its (later) choice wins.
  *
  * @example
  * ```typescript
  * const repository = new LocalStorageFavoritesRepository();
  * await repository.add(new CharacterId(1011334));
+ *
+ * const unsubscribe = repository.subscribe(({ origin }) => refresh());
  * ```
  */
 export class LocalStorageFavoritesRepository implements FavoritesRepository {
   private readonly STORAGE_KEY = "marvel_favorites";
-  private readonly storage: StorageAdapter;
+  private readonly store: VersionedStore<FavoritesData>;
+  private readonly events: StorageEventTarget | null;
+  private readonly listeners = new Set<(change: FavoritesChange) => void>();
+  private recentChanges: RecentChange[] = [];
 
-  constructor(storage?: StorageAdapter) {
-    this.storage = storage || new StorageAdapter();
+  constructor(
+    storage?: StorageAdapter,
+    options: { events?: StorageEventTarget | null } = {},
+  ) {
+    this.store = new VersionedStore(
+      storage || new StorageAdapter(),
+      this.STORAGE_KEY,
+      favoritesMigrations,
+    );
+    this.events =
+      options.events !== undefined
+        ? options.events
+        : typeof window !== "undefined"
+          ? window
+          : null;
+
+    this.events?.addEventListener("storage", this.handleStorageEvent);
   }
 
-  async add(id: CharacterId): Promise<void> {
+  async add(id: CharacterId, character?: CharacterSummary): Promise<void> {
     const data = this.load();
 
     // Avoid duplicates
-    if (!data.favorites.includes(id.value)) {
-      data.favorites.push(id.value);
-      data.lastModified = new Date().toISOString();
+    if (!data.favorites.some((entry) => entry.id === id.value)) {
+      const addedAt = new Date().toISOString();
+      data.favorites.push(
+        character
+          ? this.toEntry(character, addedAt)
+          : this.emptyEntry(id, addedAt),
+      );
+      data.lastModified = addedAt;
       this.save(data);
+      this.recordChange({
+        type: "add",
+        entry: data.favorites[data.favorites.length - 1]!,
+        at: Date.now(),
+      });
     }
   }
 
   async remove(id: CharacterId): Promise<void> {
     const data = this.load();
-    data.favorites = data.favorites.filter((favId) => favId !== id.value);
+    data.favorites = data.favorites.filter((entry) => entry.id !== id.value);
     data.lastModified = new Date().toISOString();
     this.save(data);
+    this.recordChange({ type: "remove", id: id.value, at: Date.now() });
   }
 
   async findAll(): Promise<CharacterId[]> {
     const data = this.load();
-    return data.favorites.map((id) => new CharacterId(id));
+    return data.favorites.map((entry) => new CharacterId(entry.id));
+  }
+
+  async findAllSnapshots(): Promise<FavoriteSnapshot[]> {
+    const data = this.load();
+    return data.favorites.map((entry) => ({
+      id: new CharacterId(entry.id),
+      name: entry.name,
+      thumbnailUrl: entry.thumbnailUrl,
+      description: entry.description,
+      addedAt: new Date(entry.addedAt),
+    }));
+  }
+
+  async updateSnapshots(characters: CharacterSummary[]): Promise<void> {
+    const byId = new Map(characters.map((c) => [c.id.value, c]));
+    const data = this.load();
+    let changed = false;
+
+    data.favorites = data.favorites.map((entry) => {
+      const character = byId.get(entry.id);
+      if (!character) {
+        return entry;
+      }
+
+      const updated = this.toEntry(character, entry.addedAt);
+      if (
+        updated.name === entry.name &&
+        updated.thumbnailUrl === entry.thumbnailUrl &&
+        updated.description === entry.description
+      ) {
+        return entry;
+      }
+
+      changed = true;
+      return updated;
+    });
+
+    if (!changed) {
+      return;
+    }
+
+    // Snapshots are a cache: failing to refresh them must not fail the caller
+    try {
+      this.save(data);
+    } catch (error) {
+      logger.warn("Failed to refresh favorite snapshots", { error });
+    }
   }
 
   async contains(id: CharacterId): Promise<boolean> {
     const data = this.load();
-    return data.favorites.includes(id.value);
+    return data.favorites.some((entry) => entry.id === id.value);
   }
 
   async count(): Promise<number> {
@@ -62,40 +176,211 @@ export class LocalStorageFavoritesRepository implements FavoritesRepository {
     return data.favorites.length;
   }
 
+  async replaceAll(favorites: FavoriteSnapshot[]): Promise<void> {
+    const previous = new Set(this.load().favorites.map(({ id }) => id));
+    const entries = new Map<number, FavoriteEntry>();
+    favorites.forEach((snapshot) => {
+      if (!entries.has(snapshot.id.value)) {
+        entries.set(snapshot.id.value, {
+          id: snapshot.id.value,
+          name: snapshot.name,
+          thumbnailUrl: snapshot.thumbnailUrl,
+          description: shortenDescription(snapshot.description),
+          addedAt: snapshot.addedAt.toISOString(),
+        });
+      }
+    });
+
+    const data = createDefaultFavoritesData();
+    data.favorites = [...entries.values()];
+    this.save(data);
+
+    // One notification for the whole batch
+    const at = Date.now();
+    this.recordChanges([
+      ...[...previous]
+        .filter((id) => !entries.has(id))
+        .map((id): RecentChange => ({ type: "remove", id, at })),
+      ...data.favorites
+        .filter((entry) => !previous.has(entry.id))
+        .map((entry): RecentChange => ({ type: "add", entry, at })),
+    ]);
+  }
+
   async clear(): Promise<void> {
+    const removed = this.load().favorites;
     const data = createDefaultFavoritesData();
     this.save(data);
+
+    const at = Date.now();
+    removed.forEach(({ id }) => this.recordChange({ type: "remove", id, at }));
+  }
+
+  subscribe(listener: (change: FavoritesChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   /**
-   * Load favorites data from storage with validation
+   * Stop listening to other tabs
    */
-  private load(): FavoritesData {
-    try {
-      const stored = this.storage.get<unknown>(this.STORAGE_KEY);
+  dispose(): void {
+    this.events?.removeEventListener("storage", this.handleStorageEvent);
+    this.listeners.clear();
+  }
+
+  /**
+   * Another tab wrote favorites (or cleared storage: key is null)
+   */
+  private readonly handleStorageEvent = (event: StorageEvent): void => {
+    if (event.key !== this.STORAGE_KEY && event.key !== null) {
+      return;
+    }
 
-      if (stored === null) {
-        return createDefaultFavoritesData();
+    const before = this.parseIds(event.oldValue);
+    const after = this.parseIds(event.newValue);
+    this.mergeRecentChanges(before, after);
+
+    const idsChanged =
+      before.size !== after.size || [...before].some((id) => !after.has(id));
+    if (idsChanged) {
+      // Snapshot-only refreshes don't change the list: no need to notify
+      this.notify({ origin: "remote" });
+    }
+  };
+
+  /**
+   * Replay this tab's recent changes that another tab's write overwrote
+   *
+   * A favorite whose presence differs between the other tab's old and new
+   * value was changed on purpose over there; that later choice wins.
+   *
+   * @param before - Favorite IDs the other tab saw before writing
+   * @param after - Favorite IDs the other tab wrote
+   */
+  private mergeRecentChanges(before: Set<number>, after: Set<number>): void {
+    const now = Date.now();
+    this.pruneRecentChanges(now);
+    if (this.recentChanges.length === 0) {
+      return;
+    }
+
+    const data = this.load();
+    let changed = false;
+
+    for (const change of this.recentChanges) {
+      const id = change.type === "add" ? change.entry.id : change.id;
+      if (before.has(id) !== after.has(id)) {
+        continue;
       }
 
-      // Validate structure
-      if (!validateFavoritesData(stored)) {
-        logger.warn("Invalid favorites data structure, resetting to default");
-        return createDefaultFavoritesData();
+      const present = data.favorites.some((entry) => entry.id === id);
+      if (change.type === "add" && !present) {
+        data.favorites.push(change.entry);
+        changed = true;
+      } else if (change.type === "remove" && present) {
+        data.favorites = data.favorites.filter((entry) => entry.id !== id);
+        changed = true;
       }
+    }
+
+    if (!changed) {
+      return;
+    }
+
+    try {
+      data.lastModified = new Date(now).toISOString();
+      this.save(data);
+      logger.info("Merged concurrent favorites changes from another tab");
+    } catch (error) {
+      logger.error("Failed to merge favorites changes from another tab", error);
+    }
+  }
+
+  /**
+   * Favorite IDs in a raw stored value (any schema version)
+   */
+  private parseIds(raw: string | null): Set<number> {
+    if (raw === null) {
+      return new Set();
+    }
+
+    try {
+      const { data } = favoritesMigrations.migrate(JSON.parse(raw));
+      return new Set(data.favorites.map((entry) => entry.id));
+    } catch {
+      return new Set();
+    }
+  }
+
+  private recordChange(change: RecentChange): void {
+    this.recordChanges([change]);
+  }
+
+  private recordChanges(changes: RecentChange[]): void {
+    this.pruneRecentChanges(Date.now());
+    this.recentChanges.push(...changes);
+    this.notify({ origin: "local" });
+  }
+
+  /**
+   * Forget changes too old to replay, so a tab that never hears from another
+   * one doesn't keep every change it made
+   */
+  private pruneRecentChanges(now: number): void {
+    this.recentChanges = this.recentChanges.filter(
+      (change) => now - change.at <= MERGE_WINDOW_MS,
+    );
+  }
+
+  private notify(change: FavoritesChange): void {
+    this.listeners.forEach((listener) => listener(change));
+  }
 
-      // Migrate if needed
-      return migrateFavoritesData(stored);
+  /**
+   * Load favorites data from storage with validation and migration
+   */
+  private load(): FavoritesData {
+    try {
+      return this.store.load();
     } catch (error) {
       logger.error("Failed to load favorites", error);
       return createDefaultFavoritesData();
     }
   }
 
+  /**
+   * Snapshot entry for a character
+   */
+  private toEntry(character: CharacterSummary, addedAt: string): FavoriteEntry {
+    return {
+      id: character.id.value,
+      name: character.name.value,
+      thumbnailUrl: character.getThumbnailUrl(),
+      description: shortenDescription(character.deck),
+      addedAt,
+    };
+  }
+
+  /**
+   * Entry without character data (filled in by the next snapshot refresh)
+   */
+  private emptyEntry(id: CharacterId, addedAt: string): FavoriteEntry {
+    return {
+      id: id.value,
+      name: "",
+      thumbnailUrl: "",
+      description: "",
+      addedAt,
+    };
+  }
+
   /**
    * Save favorites data to storage
    */
   private save(data: FavoritesData): void {
-    this.storage.set(this.STORAGE_KEY, data);
+    this.store.save(data);
   }
 }
@@ -0,0 +1,422 @@
+/**
+ * RestFavoritesRepository Tests
+ *
+ * Tests for syncing favorites with the favorites server: the offline queue,
+ * replay on reconnect, last-writer-wins conflicts, the first-sync merge and
+ * linking devices with a sync key.
+ */
+
+import {
+  ConnectivityEventTarget,
+  RestFavoritesRepository,
+} from "./RestFavoritesRepository";
+import { LocalStorageFavoritesRepository } from "./LocalStorageFavoritesRepository";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { SyncKey } from "@domain/character/valueObjects/SyncKey";
+import { StorageAdapter } from "../storage/StorageAdapter";
+import { FavoritesData } from "../storage/StorageSchema";
+import { logger } from "@infrastructure/logging/Logger";
+
+jest.mock("@infrastructure/logging/Logger");
+
+const T0 = Date.parse("2024-01-01T00:00:00.000Z");
+const minutes = (count: number) => count * 60_000;
+
+function documentWith(ids: number[], lastModified: number): FavoritesData {
+  return {
+    version: 2,
+    favorites: ids.map((id) => ({
+      id,
+      name: `Character ${id}`,
+      thumbnailUrl: "",
+      description: "",
+      addedAt: new Date(lastModified).toISOString(),
+    })),
+    lastModified: new Date(lastModified).toISOString(),
+  };
+}
+
+/**
+ * In-memory stand-in for api/favorites.ts
+ */
+function createServer(initial: FavoritesData = documentWith([], 0)) {
+  const server = {
+    document: initial,
+    reachable: true,
+    /** Runs before the next PUT is handled (another device writing first) */
+    beforePut: null as (() => void) | null,
+    ids: () => server.document.favorites.map(({ id }) => id),
+  };
+  const etag = () => `"${Date.parse(server.document.lastModified)}"`;
+  const respond = (status: number) => {
+    const body = JSON.parse(JSON.stringify(server.document)) as FavoritesData;
+    const tag = etag();
+    return {
+      status,
+      json: async () => body,
+      headers: { get: (name: string) => (name === "ETag" ? tag : null) },
+    } as unknown as Response;
+  };
+
+  const fetch = jest.fn(async (_url: RequestInfo | URL, init?: RequestInit) => {
+    if (!server.reachable) {
+      throw new TypeError("Failed to fetch");
+    }
+    if (init?.method !== "PUT") {
+      return respond(200);
+    }
+
+    const hook = server.beforePut;
+    server.beforePut = null;
+    hook?.();
+
+    const ifMatch = (init.headers as Record<string, string>)["If-Match"];
+    if (ifMatch && ifMatch !== etag()) {
+      return respond(412);
+    }
+    const document = JSON.parse(init.body as string) as FavoritesData;
+    if (
+      Date.parse(document.lastModified) <
+      Date.parse(server.document.lastModified)
+    ) {
+      return respond(409);
+    }
+    server.document = document;
+    return respond(200);
+  });
+
+  return { server, fetch };
+}
+
+/**
+ * Stand-in for api/favorites.ts with one document per sync key
+ */
+function createKeyedServer() {
+  const users = new Map<string, ReturnType<typeof createServer>>();
+  const userFor = (key: string) => {
+    let user = users.get(key);
+    if (!user) {
+      user = createServer();
+      users.set(key, user);
+    }
+    return user;
+  };
+
+  const fetch = jest.fn(async (url: RequestInfo | URL, init?: RequestInit) => {
+    const { Authorization = "" } = init?.headers as Record<string, string>;
+    return userFor(Authorization.slice("Bearer ".length)).fetch(url, init);
+  });
+
+  return { fetch, ids: (key: SyncKey) => userFor(key.value).server.ids() };
+}
+
+describe("RestFavoritesRepository", () => {
+  let storage: StorageAdapter;
+  let events: EventTarget;
+  let online: boolean;
+  let now: number;
+  let repositories: RestFavoritesRepository[];
+
+  const createRepository = (
+    fetch: typeof globalThis.fetch,
+    deviceStorage = storage,
+  ) => {
+    const repository = new RestFavoritesRepository({
+      url: "/api/favorites",
+      storage: deviceStorage,
+      local: new LocalStorageFavoritesRepository(deviceStorage, {
+        events: null,
+      }),
+      fetch,
+      events: events as unknown as ConnectivityEventTarget,
+      isOnline: () => online,
+      now: () => now,
+    });
+    repositories.push(repository);
+    return repository;
+  };
+
+  const localIds = async (repository: RestFavoritesRepository) =>
+    (await repository.findAll()).map(({ value }) => value);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    sessionStorage.clear();
+    storage = new StorageAdapter(localStorage);
+    events = new EventTarget();
+    online = true;
+    now = T0;
+    repositories = [];
+  });
+
+  afterEach(() => {
+    repositories.forEach((repository) => repository.dispose());
+  });
+
+  describe("Online", () => {
+    it("should save changes locally and send them to the server", async () => {
+      const { server, fetch } = createServer();
+      const repository = createRepository(fetch);
+      await repository.sync();
+
+      now = T0 + minutes(1);
+      await repository.add(new CharacterId(1));
+      await repository.add(new CharacterId(2));
+      now = T0 + minutes(2);
+      await repository.remove(new CharacterId(1));
+      await repository.sync();
+
+      expect(await localIds(repository)).toEqual([2]);
+      expect(server.ids()).toEqual([2]);
+      expect(server.document.lastModified).toBe(
+        new Date(T0 + minutes(2)).toISOString(),
+      );
+      expect(repository.pendingCount).toBe(0);
+    });
+
+    it("should send the sync key with every request", async () => {
+      const { fetch } = createServer();
+      const repository = createRepository(fetch);
+      await repository.sync();
+
+      const headers = fetch.mock.calls[0]![1]!.headers as Record<
+        string,
+        string
+      >;
+      expect(headers.Authorization).toMatch(/^Bearer [0-9a-f]{48}$/);
+      expect(localStorage.getItem("marvel_favorites_sync_key")).toContain(
+        headers.Authorization!.slice("Bearer ".length),
+      );
+    });
+
+    it("should apply changes from other devices and report them as remote", async () => {
+      const { server, fetch } = createServer(documentWith([1], T0));
+      const repository = createRepository(fetch);
+      await repository.sync();
+      const listener = jest.fn();
+      repository.subscribe(listener);
+
+      server.document = documentWith([1, 3], T0 + minutes(5));
+      events.dispatchEvent(new Event("focus"));
+      await repository.sync();
+
+      expect(await localIds(repository)).toEqual([1, 3]);
+      expect(listener).toHaveBeenCalledWith({ origin: "remote" });
+      expect(listener).not.toHaveBeenCalledWith({ origin: "local" });
+    });
+  });
+
+  describe("Offline queue", () => {
+    it("should queue changes while offline and replay them on reconnect", async () => {
+      const { server, fetch } = createServer();
+      online = false;
+      const repository = createRepository(fetch);
+
+      now = T0 + minutes(1);
+      await repository.add(new CharacterId(1));
+
+      expect(await localIds(repository)).toEqual([1]);
+      expect(repository.pendingCount).toBe(1);
+      expect(fetch).not.toHaveBeenCalled();
+
+      online = true;
+      events.dispatchEvent(new Event("online"));
+      await repository.sync();
+
+      expect(server.ids()).toEqual([1]);
+      expect(repository.pendingCount).toBe(0);
+    });
+
+    it("should keep the queue across reloads", async () => {
+      const { server, fetch } = createServer();
+      online = false;
+      const first = createRepository(fetch);
+      now = T0 + minutes(1);
+      await first.add(new CharacterId(4));
+      first.dispose();
+
+      online = true;
+      const second = createRepository(fetch);
+      await second.sync();
+
+      expect(server.ids()).toEqual([4]);
+      expect(second.pendingCount).toBe(0);
+    });
+
+    it("should keep changes queued when the server can't be reached", async () => {
+      const { server, fetch } = createServer();
+      server.reachable = false;
+      const repository = createRepository(fetch);
+
+      await repository.add(new CharacterId(1));
+      await repository.sync();
+
+      expect(await localIds(repository)).toEqual([1]);
+      expect(repository.pendingCount).toBe(1);
+      expect(logger.warn).toHaveBeenCalledWith(
+        "Favorites sync failed, changes stay queued",
+        expect.anything(),
+      );
+    });
+  });
+
+  describe("Conflicts", () => {
+    /**
+     * Helper: Synced with [1, 2], then removes 2 offline
+     */
+    const removeOffline = async (initial = documentWith([1, 2], T0)) => {
+      const { server, fetch } = createServer(initial);
+      const repository = createRepository(fetch);
+      await repository.sync();
+
+      online = false;
+      now = T0 + minutes(10);
+      await repository.remove(new CharacterId(2));
+      online = true;
+      return { server, repository };
+    };
+
+    it("should replay offline changes made after the server's last write", async () => {
+      const { server, repository } = await removeOffline();
+      server.document = documentWith([1, 2, 3], T0 + minutes(5));
+
+      await repository.sync();
+
+      expect(server.ids()).toEqual([1, 3]);
+      expect(await localIds(repository)).toEqual([1, 3]);
+    });
+
+    it("should drop offline changes older than the server's last write", async () => {
+      const { server, repository } = await removeOffline();
+      server.document = documentWith([1, 2, 3], T0 + minutes(20));
+
+      await repository.sync();
+
+      expect(server.ids()).toEqual([1, 2, 3]);
+      expect(await localIds(repository)).toEqual([1, 2, 3]);
+      expect(repository.pendingCount).toBe(0);
+    });
+
+    it("should rebase when another device writes during the sync", async () => {
+      const { server, repository } = await removeOffline();
+      server.beforePut = () => {
+        server.document = documentWith([1, 2, 5], T0 + minutes(5));
+      };
+
+      await repository.sync();
+
+      expect(server.ids()).toEqual([1, 5]);
+      expect(await localIds(repository)).toEqual([1, 5]);
+    });
+  });
+
+  describe("First sync", () => {
+    it("should merge favorites this browser already had", async () => {
+      await new LocalStorageFavoritesRepository(storage, { events: null }).add(
+        new CharacterId(7),
+      );
+      const { server, fetch } = createServer(documentWith([1], T0));
+
+      const repository = createRepository(fetch);
+      await repository.sync();
+
+      expect(server.ids()).toEqual([1, 7]);
+      expect(await localIds(repository)).toEqual([1, 7]);
+    });
+  });
+
+  describe("Device linking", () => {
+    /**
+     * Helper: A second device with its own storage
+     */
+    const otherDevice = (fetch: typeof globalThis.fetch) =>
+      createRepository(fetch, new StorageAdapter(sessionStorage));
+
+    it("should keep the same sync key across reloads", () => {
+      const { fetch } = createServer();
+
+      const key = createRepository(fetch).getSyncKey();
+
+      expect(key.value).toMatch(/^[0-9a-f]{48}$/);
+      expect(createRepository(fetch).getSyncKey().equals(key)).toBe(true);
+    });
+
+    it("should give each device its own favorites until they are linked", async () => {
+      const { fetch, ids } = createKeyedServer();
+      const laptop = createRepository(fetch);
+      const phone = otherDevice(fetch);
+      await Promise.all([laptop.sync(), phone.sync()]);
+
+      now = T0 + minutes(1);
+      await laptop.add(new CharacterId(1));
+      await laptop.sync();
+      await phone.sync();
+
+      expect(laptop.getSyncKey().equals(phone.getSyncKey())).toBe(false);
+      expect(ids(laptop.getSyncKey())).toEqual([1]);
+      expect(await localIds(phone)).toEqual([]);
+    });
+
+    it("should share favorites once a device uses another's sync key", async () => {
+      const { fetch, ids } = createKeyedServer();
+      const laptop = createRepository(fetch);
+      now = T0 + minutes(1);
+      await laptop.add(new CharacterId(1));
+      await laptop.sync();
+
+      const phone = otherDevice(fetch);
+      await phone.sync();
+      now = T0 + minutes(2);
+      await phone.add(new CharacterId(2));
+      await phone.sync();
+
+      await phone.linkDevice(new SyncKey(laptop.getSyncKey().value));
+      await laptop.sync();
+
+      // The phone's favorites are merged into the laptop's
+      const key = laptop.getSyncKey();
+      expect(phone.getSyncKey().equals(key)).toBe(true);
+      expect(ids(key)).toEqual([1, 2]);
+      expect(await localIds(phone)).toEqual([1, 2]);
+      expect(await localIds(laptop)).toEqual([1, 2]);
+
+      // Later changes on either device reach the other
+      now = T0 + minutes(3);
+      await laptop.remove(new CharacterId(1));
+      await laptop.sync();
+      await phone.sync();
+
+      expect(await localIds(phone)).toEqual([2]);
+    });
+
+    it("should keep changes queued offline when linking", async () => {
+      const { fetch, ids } = createKeyedServer();
+      const laptop = createRepository(fetch);
+      await laptop.sync();
+      const phone = otherDevice(fetch);
+
+      online = false;
+      now = T0 + minutes(1);
+      await phone.add(new CharacterId(5));
+      await phone.linkDevice(laptop.getSyncKey());
+      online = true;
+      await phone.sync();
+
+      expect(ids(laptop.getSyncKey())).toEqual([5]);
+      expect(phone.pendingCount).toBe(0);
+    });
+
+    it("should only sync when linking with its own key", async () => {
+      const { server, fetch } = createServer(documentWith([1], T0));
+      const repository = createRepository(fetch);
+      await repository.sync();
+      fetch.mockClear();
+
+      await repository.linkDevice(repository.getSyncKey());
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(server.ids()).toEqual([1]);
+    });
+  });
+});
@@ -0,0 +1,544 @@
+import {
+  FavoriteSnapshot,
+  FavoritesChange,
+  FavoritesRepository,
+} from "@domain/character/ports/FavoritesRepository";
+import { FavoritesSync } from "@domain/character/ports/FavoritesSync";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { SyncKey } from "@domain/character/valueObjects/SyncKey";
+import { StorageAdapter } from "../storage/StorageAdapter";
+import {
+  FavoriteEntry,
+  FavoritesData,
+  STORAGE_VERSION,
+  isFavoritesDataV2,
+} from "../storage/StorageSchema";
+import { LocalStorageFavoritesRepository } from "./LocalStorageFavoritesRepository";
+import { logger } from "@infrastructure/logging/Logger";
+
+/**
+ * Change made while possibly offline, replayed on the server's favorites
+ * - add / remove: one favorite
+ * - replace: the whole list (import, clear)
+ */
+export type FavoritesMutation =
+  | { id: string; type: "add"; entry: FavoriteEntry; at: string }
+  | { id: string; type: "remove"; characterId: number; at: string }
+  | { id: string; type: "replace"; entries: FavoriteEntry[]; at: string };
+
+/**
+ * Mutation before it's stamped for the queue
+ */
+type NewMutation = {
+  [T in FavoritesMutation["type"]]: Omit<
+    Extract<FavoritesMutation, { type: T }>,
+    "id" | "at"
+  >;
+}[FavoritesMutation["type"]];
+
+/**
+ * Sync bookkeeping persisted next to the local favorites
+ */
+interface SyncState {
+  version: 1;
+  lastSyncedAt: string | null; // Server `lastModified` last seen (null: never synced)
+  pending: FavoritesMutation[]; // Not yet on the server, oldest first
+}
+
+/**
+ * Minimal event target for `online` and `focus` events (injectable for tests)
+ */
+export type ConnectivityEventTarget = Pick<
+  Window,
+  "addEventListener" | "removeEventListener"
+>;
+
+export interface RestFavoritesRepositoryOptions {
+  /** Favorites endpoint (see api/favorites.ts) */
+  url: string;
+  storage?: StorageAdapter;
+  /** Local copy the app reads from (defaults to one on the same storage) */
+  local?: LocalStorageFavoritesRepository;
+  fetch?: typeof fetch;
+  events?: ConnectivityEventTarget | null;
+  isOnline?: () => boolean;
+  now?: () => number;
+}
+
+/**
+ * Favorites server answered with an unexpected status or body
+ */
+export class FavoritesSyncError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = "FavoritesSyncError";
+  }
+}
+
+/**
+ * Conflict rounds per sync before waiting for the next trigger
+ */
+const MAX_SYNC_ROUNDS = 3;
+
+const SYNC_STATE_KEY = "marvel_favorites_sync";
+const SYNC_KEY_KEY = "marvel_favorites_sync_key";
+
+/**
+ * REST Favorites Repository
+ *
+ * Implements FavoritesRepository on top of a favorites server, so favorites
+ * follow the user across devices. Offline-first: reads and writes go to a
+ * local copy (LocalStorageFavoritesRepository), and every write is also
+ * queued in storage until the server has it.
+ *
+ * Sync (after each write, on reconnect, on window focus and at startup):
+ * 1. Fetch the server's document
+ * 2. Replay queued changes made since its `lastModified`; changes older than
+ *    the server's last write are dropped - the last writer wins
+ * 3. Save the result with `If-Match`; if another device wrote in between,
+ *    start over from its document
+ * 4. Once nothing is queued, make the local copy match the server
+ *
+ * The first sync from a browser merges its existing favorites into the
+ * server's instead of dropping them. The user is identified by a random sync
+ * key kept in storage; devices using the same key share favorites, and
+ * `linkDevice` switches a device to the key shown on another one.
+ * Snapshot refreshes stay local: they are a cache of API data.
+ *
+ * @example
+ * ```typescript
+ * const repository = new RestFavoritesRepository({ url: '/api/favorites' });
+ * await repository.add(new CharacterId(1011334)); // saved locally, synced in the background
+ * ```
+ */
+export class RestFavoritesRepository
+  implements FavoritesRepository, FavoritesSync
+{
+  private readonly url: string;
+  private readonly storage: StorageAdapter;
+  private readonly local: LocalStorageFavoritesRepository;
+  private readonly fetch: typeof fetch;
+  private readonly events: ConnectivityEventTarget | null;
+  private readonly isOnline: () => boolean;
+  private readonly now: () => number;
+  private readonly listeners = new Set<(change: FavoritesChange) => void>();
+  private readonly unsubscribeLocal: () => void;
+  private syncing: Promise<void> | null = null;
+  private adopting = false;
+
+  constructor(options: RestFavoritesRepositoryOptions) {
+    this.url = options.url;
+    this.storage = options.storage || new StorageAdapter();
+    this.local =
+      options.local || new LocalStorageFavoritesRepository(this.storage);
+    this.fetch = options.fetch || ((input, init) => fetch(input, init));
+    this.events =
+      options.events !== undefined
+        ? options.events
+        : typeof window !== "undefined"
+          ? window
+          : null;
+    this.isOnline =
+      options.isOnline ||
+      (() => typeof navigator === "undefined" || navigator.onLine);
+    this.now = options.now || Date.now;
+
+    // Server changes are applied to the local copy: report them as remote
+    this.unsubscribeLocal = this.local.subscribe(({ origin }) =>
+      this.notify({ origin: this.adopting ? "remote" : origin }),
+    );
+    this.events?.addEventListener("online", this.handleReconnect);
+    this.events?.addEventListener("focus", this.handleReconnect);
+
+    void this.sync();
+  }
+
+  async add(id: CharacterId, character?: CharacterSummary): Promise<void> {
+    if (await this.local.contains(id)) {
+      return;
+    }
+
+    await this.local.add(id, character);
+    const snapshot = (await this.local.findAllSnapshots()).find((favorite) =>
+      favorite.id.equals(id),
+    );
+    if (snapshot) {
+      this.enqueue({ type: "add", entry: toEntry(snapshot) });
+    }
+  }
+
+  async remove(id: CharacterId): Promise<void> {
+    await this.local.remove(id);
+    this.enqueue({ type: "remove", characterId: id.value });
+  }
+
+  findAll(): Promise<CharacterId[]> {
+    return this.local.findAll();
+  }
+
+  findAllSnapshots(): Promise<FavoriteSnapshot[]> {
+    return this.local.findAllSnapshots();
+  }
+
+  updateSnapshots(characters: CharacterSummary[]): Promise<void> {
+    return this.local.updateSnapshots(characters);
+  }
+
+  contains(id: CharacterId): Promise<boolean> {
+    return this.local.contains(id);
+  }
+
+  count(): Promise<number> {
+    return this.local.count();
+  }
+
+  async replaceAll(favorites: FavoriteSnapshot[]): Promise<void> {
+    await this.local.replaceAll(favorites);
+    const entries = (await this.local.findAllSnapshots()).map(toEntry);
+    this.enqueue({ type: "replace", entries });
+  }
+
+  async clear(): Promise<void> {
+    await this.local.clear();
+    this.enqueue({ type: "replace", entries: [] });
+  }
+
+  subscribe(listener: (change: FavoritesChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send queued changes and fetch changes from other devices
+   *
+   * Never rejects: on failure, changes stay queued for the next sync.
+   * Concurrent calls share one sync.
+   */
+  sync(): Promise<void> {
+    this.syncing ??= this.runSync().finally(() => {
+      this.syncing = null;
+    });
+    return this.syncing;
+  }
+
+  /**
+   * This browser's sync key (created on first use)
+   */
+  getSyncKey(): SyncKey {
+    const stored = this.storage.get<unknown>(SYNC_KEY_KEY);
+    if (typeof stored === "string" && SyncKey.isValid(stored)) {
+      return new SyncKey(stored);
+    }
+
+    const key = new SyncKey(randomHex(24));
+    this.storage.set(SYNC_KEY_KEY, key.value);
+    return key;
+  }
+
+  /**
+   * Switch to another device's sync key, then sync
+   *
+   * This browser's favorites are merged into the linked ones, as on a first
+   * sync, and queued changes are replayed on top.
+   */
+  async linkDevice(key: SyncKey): Promise<void> {
+    // A sync already running still uses the previous key
+    await this.syncing;
+
+    if (!key.equals(this.getSyncKey())) {
+      this.storage.set(SYNC_KEY_KEY, key.value);
+      this.saveState({ ...this.loadState(), lastSyncedAt: null });
+    }
+    await this.sync();
+  }
+
+  /**
+   * Number of changes not yet on the server
+   */
+  get pendingCount(): number {
+    return this.loadState().pending.length;
+  }
+
+  /**
+   * Stop syncing and listening to other tabs
+   */
+  dispose(): void {
+    this.events?.removeEventListener("online", this.handleReconnect);
+    this.events?.removeEventListener("focus", this.handleReconnect);
+    this.unsubscribeLocal();
+    this.local.dispose();
+    this.listeners.clear();
+  }
+
+  private readonly handleReconnect = (): void => {
+    void this.sync();
+  };
+
+  private async runSync(): Promise<void> {
+    if (!this.isOnline()) {
+      return;
+    }
+
+    try {
+      for (let round = 0; round < MAX_SYNC_ROUNDS; round++) {
+        if (await this.syncRound()) {
+          return;
+        }
+      }
+      logger.warn("Favorites sync kept conflicting, retrying later");
+    } catch (error) {
+      logger.warn("Favorites sync failed, changes stay queued", { error });
+    }
+  }
+
+  /**
+   * One fetch-rebase-save round
+   *
+   * @returns true when in sync, false when another round is needed
+   */
+  private async syncRound(): Promise<boolean> {
+    const remote = await this.request("GET");
+    const state = this.loadState();
+    const remoteTime = Date.parse(remote.document.lastModified);
+
+    let favorites = remote.document.favorites;
+    let changed = false;
+
+    if (state.lastSyncedAt === null) {
+      // First sync from this browser: keep the favorites it already had
+      const known = new Set(favorites.map(({ id }) => id));
+      const added = (await this.local.findAllSnapshots())
+        .map(toEntry)
+        .filter(({ id }) => !known.has(id));
+      if (added.length > 0) {
+        favorites = [...favorites, ...added];
+        changed = true;
+      }
+    }
+
+    // Ties go to this browser: the server may hold its own earlier write
+    const replayed = state.pending.filter(
+      ({ at }) => Date.parse(at) >= remoteTime,
+    );
+    if (replayed.length < state.pending.length) {
+      logger.info("Dropped offline favorites changes older than the server's", {
+        dropped: state.pending.length - replayed.length,
+      });
+    }
+    for (const mutation of replayed) {
+      favorites = applyMutation(favorites, mutation);
+      changed = true;
+    }
+
+    let synced = remote.document;
+    if (changed) {
+      // Stamped with the latest change, and always after the server's version
+      const lastModified = Math.max(
+        remoteTime + 1,
+        ...replayed.map(({ at }) => Date.parse(at)),
+      );
+      const saved = await this.request(
+        "PUT",
+        {
+          version: STORAGE_VERSION,
+          favorites,
+          lastModified: new Date(lastModified).toISOString(),
+        },
+        remote.etag,
+      );
+      if (saved.status !== 200) {
+        return false; // Another device wrote first: rebase on its document
+      }
+      synced = saved.document;
+    }
+
+    // Changes queued during this round (possibly by another tab) stay queued
+    const sent = new Set(state.pending.map(({ id }) => id));
+    const next = this.loadState();
+    next.pending = next.pending.filter(({ id }) => !sent.has(id));
+    next.lastSyncedAt = synced.lastModified;
+    this.saveState(next);
+
+    if (next.pending.length > 0) {
+      return false;
+    }
+
+    await this.adopt(synced.favorites);
+    return true;
+  }
+
+  /**
+   * Make the local copy match the server's favorites
+   */
+  private async adopt(entries: FavoriteEntry[]): Promise<void> {
+    const current = await this.local.findAllSnapshots();
+    const unchanged =
+      current.length === entries.length &&
+      current.every(({ id }, index) => id.value === entries[index]!.id);
+    if (unchanged || this.loadState().pending.length > 0) {
+      return;
+    }
+
+    // Keep local snapshots for favorites the server has no data for yet
+    const byId = new Map(
+      current.map((snapshot) => [snapshot.id.value, snapshot]),
+    );
+    const snapshots = entries.map((entry) => {
+      const known = byId.get(entry.id);
+      return entry.name === "" && known
+        ? { ...known, addedAt: new Date(entry.addedAt) }
+        : toSnapshot(entry);
+    });
+
+    this.adopting = true;
+    try {
+      await this.local.replaceAll(snapshots);
+    } finally {
+      this.adopting = false;
+    }
+  }
+
+  /**
+   * Call the favorites server
+   *
+   * @returns The server's document (current one on 409/412 conflicts)
+   * @throws {FavoritesSyncError} On other statuses or an invalid body
+   */
+  private async request(
+    method: "GET" | "PUT",
+    document?: FavoritesData,
+    etag?: string | null,
+  ): Promise<{ status: number; document: FavoritesData; etag: string | null }> {
+    const response = await this.fetch(this.url, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.getSyncKey().value}`,
+        ...(document && { "Content-Type": "application/json" }),
+        ...(etag && { "If-Match": etag }),
+      },
+      ...(document && { body: JSON.stringify(document) }),
+    });
+
+    if (![200, 409, 412].includes(response.status)) {
+      throw new FavoritesSyncError(
+        `Favorites server error (${response.status})`,
+        response.status,
+      );
+    }
+
+    const body: unknown = await response.json();
+    if (!isFavoritesDataV2(body)) {
+      throw new FavoritesSyncError("Favorites server sent invalid data");
+    }
+
+    return {
+      status: response.status,
+      document: body,
+      etag: response.headers.get("ETag"),
+    };
+  }
+
+  private enqueue(mutation: NewMutation): void {
+    const at = this.now();
+    const state = this.loadState();
+    state.pending.push({
+      ...mutation,
+      id: `${at.toString(36)}-${randomHex(4)}`,
+      at: new Date(at).toISOString(),
+    });
+    this.saveState(state);
+
+    void this.sync();
+  }
+
+  private loadState(): SyncState {
+    const stored = this.storage.get<unknown>(SYNC_STATE_KEY);
+    if (stored === null) {
+      return { version: 1, lastSyncedAt: null, pending: [] };
+    }
+    if (!isSyncState(stored)) {
+      logger.warn("Invalid favorites sync state, queued changes were lost");
+      return { version: 1, lastSyncedAt: null, pending: [] };
+    }
+    return stored;
+  }
+
+  private saveState(state: SyncState): void {
+    this.storage.set(SYNC_STATE_KEY, state);
+  }
+
+  private notify(change: FavoritesChange): void {
+    this.listeners.forEach((listener) => listener(change));
+  }
+}
+
+function applyMutation(
+  favorites: FavoriteEntry[],
+  mutation: FavoritesMutation,
+): FavoriteEntry[] {
+  switch (mutation.type) {
+    case "add":
+      return favorites.some(({ id }) => id === mutation.entry.id)
+        ? favorites
+        : [...favorites, mutation.entry];
+    case "remove":
+      return favorites.filter(({ id }) => id !== mutation.characterId);
+    case "replace":
+      return mutation.entries;
+  }
+}
+
+function toEntry(snapshot: FavoriteSnapshot): FavoriteEntry {
+  return {
+    id: snapshot.id.value,
+    name: snapshot.name,
+    thumbnailUrl: snapshot.thumbnailUrl,
+    description: snapshot.description,
+    addedAt: snapshot.addedAt.toISOString(),
+  };
+}
+
+function toSnapshot(entry: FavoriteEntry): FavoriteSnapshot {
+  return {
+    id: new CharacterId(entry.id),
+    name: entry.name,
+    thumbnailUrl: entry.thumbnailUrl,
+    description: entry.description,
+    addedAt: new Date(entry.addedAt),
+  };
+}
+
+function isSyncState(value: unknown): value is SyncState {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const state = value as Record<string, unknown>;
+  return (
+    state.version === 1 &&
+    (state.lastSyncedAt === null || typeof state.lastSyncedAt === "string") &&
+    Array.isArray(state.pending) &&
+    state.pending.every(
+      (mutation) =>
+        typeof mutation === "object" &&
+        mutation !== null &&
+        typeof (mutation as FavoritesMutation).id === "string" &&
+        typeof (mutation as FavoritesMutation).at === "string" &&
+        ["add", "remove", "replace"].includes(
+          (mutation as FavoritesMutation).type,
+        ),
+    )
+  );
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
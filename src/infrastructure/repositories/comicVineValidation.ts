@@ -0,0 +1,106 @@
+import { z } from "zod";
+import { ApiError } from "../http/ComicVineApiClient";
+import { logger } from "@infrastructure/logging/Logger";
+
+/**
+ * Summarize zod issues for logs
+ * e.g. 'name: Character name cannot be empty; image.medium_url: Expected string, received number'
+ */
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message,
+    )
+    .join("; ");
+}
+
+/**
+ * Validate a Comic Vine response envelope
+ *
+ * A malformed envelope means the whole payload is unusable, so it fails the
+ * request instead of being skipped.
+ *
+ * @param schema - Envelope schema (list or single resource)
+ * @param data - Raw response body
+ * @param endpoint - Requested endpoint (for logs)
+ * @returns The validated envelope
+ * @throws {ApiError} When the envelope doesn't match the schema
+ */
+export function parseResponse<S extends z.ZodTypeAny>(
+  schema: S,
+  data: unknown,
+  endpoint: string,
+): z.infer<S> {
+  const result = schema.safeParse(data);
+
+  if (!result.success) {
+    throw new ApiError(
+      `Unexpected response from Comic Vine (${endpoint}): ${describeIssues(result.error)}`,
+      undefined,
+      result.error,
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Validate and map Comic Vine items one by one
+ *
+ * Items that fail validation, or that the domain rejects, are logged and
+ * skipped so a single bad record doesn't take down the whole page.
+ *
+ * @param items - Raw `results` items
+ * @param schema - Item schema
+ * @param toDomain - Mapper from a validated item to a domain entity
+ * @param endpoint - Requested endpoint (for logs)
+ * @returns Domain entities for every valid item, in order
+ *
+ * @example
+ * ```typescript
+ * const characters = toDomainItems(
+ *   response.results,
+ *   comicVineCharacterSummarySchema,
+ *   (dto) => ComicVineCharacterSummaryMapper.toDomain(dto),
+ *   '/characters/',
+ * );
+ * ```
+ */
+export function toDomainItems<T, E>(
+  items: unknown[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  toDomain: (item: T) => E,
+  endpoint: string,
+): E[] {
+  const entities: E[] = [];
+
+  items.forEach((item, index) => {
+    const id = (item as { id?: unknown } | null)?.id;
+    const result = schema.safeParse(item);
+
+    if (!result.success) {
+      logger.warn("Skipping malformed Comic Vine item", {
+        endpoint,
+        index,
+        id,
+        issues: describeIssues(result.error),
+      });
+      return;
+    }
+
+    try {
+      entities.push(toDomain(result.data));
+    } catch (error: unknown) {
+      logger.warn("Skipping Comic Vine item rejected by the domain", {
+        endpoint,
+        index,
+        id,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  return entities;
+}
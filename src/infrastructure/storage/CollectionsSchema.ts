@@ -0,0 +1,105 @@
+import { MigrationRegistry } from "./MigrationRegistry";
+
+/**
+ * Collections schema versions
+ * - v1: named collections with per-entry notes and tags
+ */
+export const COLLECTIONS_STORAGE_VERSION = 1;
+
+/**
+ * A character in a stored collection
+ */
+export interface StoredCollectionEntry {
+  characterId: number;
+  note: string;
+  tags: string[];
+  addedAt: string; // ISO date string
+}
+
+/**
+ * A stored collection
+ */
+export interface StoredCollection {
+  id: string;
+  name: string;
+  createdAt: string; // ISO date string
+  entries: StoredCollectionEntry[];
+}
+
+/**
+ * Collections data structure
+ */
+export interface CollectionsData {
+  version: number;
+  collections: StoredCollection[];
+  lastModified: string; // ISO date string
+}
+
+/**
+ * Create default collections data
+ */
+export function createDefaultCollectionsData(): CollectionsData {
+  return {
+    version: COLLECTIONS_STORAGE_VERSION,
+    collections: [],
+    lastModified: new Date().toISOString(),
+  };
+}
+
+function isStoredEntry(value: unknown): value is StoredCollectionEntry {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const entry = value as Record<string, unknown>;
+
+  return (
+    typeof entry.characterId === "number" &&
+    typeof entry.note === "string" &&
+    Array.isArray(entry.tags) &&
+    entry.tags.every((tag) => typeof tag === "string") &&
+    typeof entry.addedAt === "string"
+  );
+}
+
+function isStoredCollection(value: unknown): value is StoredCollection {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const collection = value as Record<string, unknown>;
+
+  return (
+    typeof collection.id === "string" &&
+    typeof collection.name === "string" &&
+    typeof collection.createdAt === "string" &&
+    Array.isArray(collection.entries) &&
+    collection.entries.every(isStoredEntry)
+  );
+}
+
+/**
+ * Validate v1 collections data structure
+ */
+export function isCollectionsDataV1(data: unknown): data is CollectionsData {
+  if (typeof data !== "object" || data === null) {
+    return false;
+  }
+
+  const obj = data as Record<string, unknown>;
+
+  return (
+    Array.isArray(obj.collections) &&
+    obj.collections.every(isStoredCollection) &&
+    typeof obj.lastModified === "string"
+  );
+}
+
+/**
+ * Collections schema versions and migrations
+ */
+export const collectionsMigrations = new MigrationRegistry<CollectionsData>({
+  name: "collections",
+  versions: [{ version: 1, validate: isCollectionsDataV1 }],
+  createDefault: createDefaultCollectionsData,
+});
@@ -0,0 +1,180 @@
+/**
+ * JsonCsvFavoritesFileCodec Tests
+ *
+ * Tests for favorites export files: JSON and CSV round-trips, files from
+ * older schema versions, and rejected or partially invalid files.
+ */
+
+import {
+  FAVORITES_EXPORT_FORMAT,
+  JsonCsvFavoritesFileCodec,
+} from "./JsonCsvFavoritesFileCodec";
+import { FavoriteSnapshot } from "@domain/character/ports/FavoritesRepository";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+
+describe("JsonCsvFavoritesFileCodec", () => {
+  const now = new Date("2024-03-01T12:00:00.000Z");
+  const codec = new JsonCsvFavoritesFileCodec(() => now);
+
+  const favorites: FavoriteSnapshot[] = [
+    {
+      id: new CharacterId(1009610),
+      name: "Spider-Man",
+      thumbnailUrl: "https://example.com/spiderman.jpg",
+      description: 'Says "with great power", often, to himself',
+      addedAt: new Date("2024-01-01T00:00:00.000Z"),
+    },
+    {
+      id: new CharacterId(1009368),
+      name: "Iron Man",
+      thumbnailUrl: "https://example.com/ironman.jpg",
+      description: "Genius\nbillionaire",
+      addedAt: new Date("2024-02-01T00:00:00.000Z"),
+    },
+  ];
+
+  describe("JSON", () => {
+    it("round-trips favorites with snapshots and dates added", () => {
+      const content = codec.encode(favorites, "json");
+
+      expect(codec.decode(content, "json")).toEqual({
+        favorites,
+        invalidRecords: 0,
+        schemaVersion: 2,
+      });
+    });
+
+    it("writes a versioned export file", () => {
+      const file = JSON.parse(codec.encode(favorites, "json"));
+
+      expect(file).toMatchObject({
+        format: FAVORITES_EXPORT_FORMAT,
+        exportedAt: now.toISOString(),
+        data: { version: 2 },
+      });
+    });
+
+    it("reads files written with the v1 schema (IDs only)", () => {
+      const content = JSON.stringify({
+        format: FAVORITES_EXPORT_FORMAT,
+        exportedAt: "2023-06-01T00:00:00.000Z",
+        data: {
+          version: 1,
+          favorites: [1009610, 1009368],
+          lastModified: "2023-06-01T00:00:00.000Z",
+        },
+      });
+
+      const decoded = codec.decode(content, "json");
+
+      expect(decoded.schemaVersion).toBe(1);
+      expect(decoded.favorites.map(({ id }) => id.value)).toEqual([
+        1009610, 1009368,
+      ]);
+      expect(decoded.favorites[0]).toMatchObject({
+        name: "",
+        addedAt: new Date("2023-06-01T00:00:00.000Z"),
+      });
+    });
+
+    it("reads a raw copy of the stored favorites", () => {
+      const content = JSON.stringify({
+        version: 1,
+        favorites: [1009610],
+        lastModified: "2023-06-01T00:00:00.000Z",
+      });
+
+      expect(codec.decode(content, "json").favorites).toHaveLength(1);
+    });
+
+    it("skips entries with invalid IDs or dates", () => {
+      const content = JSON.stringify({
+        version: 2,
+        favorites: [
+          { ...entry(1009610), id: -1 },
+          { ...entry(1009368), addedAt: "not a date" },
+          entry(1009220),
+        ],
+        lastModified: "2024-01-01T00:00:00.000Z",
+      });
+
+      const decoded = codec.decode(content, "json");
+
+      expect(decoded.invalidRecords).toBe(2);
+      expect(decoded.favorites.map(({ id }) => id.value)).toEqual([1009220]);
+    });
+
+    it("throws error for invalid JSON", () => {
+      expect(() => codec.decode("{ nope", "json")).toThrow(
+        "File is not valid JSON",
+      );
+    });
+
+    it("throws error for data that is not favorites", () => {
+      expect(() =>
+        codec.decode(JSON.stringify({ version: 2, items: [] }), "json"),
+      ).toThrow("File does not contain favorites data");
+    });
+  });
+
+  describe("CSV", () => {
+    it("round-trips favorites, quoting commas, quotes and line breaks", () => {
+      const content = codec.encode(favorites, "csv");
+
+      expect(content.split("\r\n")[0]).toBe(
+        "id,name,thumbnailUrl,description,addedAt",
+      );
+      expect(codec.decode(content, "csv")).toEqual({
+        favorites,
+        invalidRecords: 0,
+        schemaVersion: null,
+      });
+    });
+
+    it("reads files with only an id column, in any column order", () => {
+      const decoded = codec.decode("name,id\nThor,1009664\n\n", "csv");
+
+      expect(decoded.favorites).toEqual([
+        {
+          id: new CharacterId(1009664),
+          name: "Thor",
+          thumbnailUrl: "",
+          description: "",
+          addedAt: now,
+        },
+      ]);
+    });
+
+    it("ignores a byte order mark", () => {
+      const decoded = codec.decode("\uFEFFid\r\n1009664\r\n", "csv");
+
+      expect(decoded.favorites).toHaveLength(1);
+    });
+
+    it("counts unreadable rows", () => {
+      const decoded = codec.decode(
+        "id,addedAt\nabc,\n0,\n1009664,yesterday\n1009610,\n",
+        "csv",
+      );
+
+      expect(decoded.invalidRecords).toBe(3);
+      expect(decoded.favorites.map(({ id }) => id.value)).toEqual([1009610]);
+    });
+
+    it("throws error without an id column", () => {
+      expect(() => codec.decode("name\nThor\n", "csv")).toThrow(
+        'CSV file must have an "id" column',
+      );
+    });
+  });
+});
+
+function entry(id: number) {
+  return {
+    id,
+    name: `Character ${id}`,
+    thumbnailUrl: "",
+    description: "",
+    addedAt: "2024-01-01T00:00:00.000Z",
+  };
+}
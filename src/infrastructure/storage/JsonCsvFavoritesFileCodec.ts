@@ -0,0 +1,282 @@
+import {
+  DecodedFavoritesFile,
+  FavoritesFileCodec,
+  FavoritesFileFormat,
+} from "@domain/character/ports/FavoritesFileCodec";
+import { FavoriteSnapshot } from "@domain/character/ports/FavoritesRepository";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import {
+  FavoriteEntry,
+  FavoritesData,
+  STORAGE_VERSION,
+  favoritesMigrations,
+} from "./StorageSchema";
+
+/**
+ * Marker identifying JSON exports of this app
+ */
+export const FAVORITES_EXPORT_FORMAT = "marvel-favorites-export";
+
+/**
+ * CSV columns, in export order (only `id` is required on import)
+ */
+const CSV_COLUMNS = [
+  "id",
+  "name",
+  "thumbnailUrl",
+  "description",
+  "addedAt",
+] as const;
+
+/**
+ * JSON export file structure
+ * `data` is the favorites storage schema, so the storage migrations also
+ * upgrade files exported by older versions.
+ */
+interface FavoritesExportFile {
+  format: typeof FAVORITES_EXPORT_FORMAT;
+  exportedAt: string; // ISO date string
+  data: FavoritesData;
+}
+
+/**
+ * JSON / CSV Favorites File Codec
+ *
+ * Implements FavoritesFileCodec with two formats:
+ * - JSON: versioned, wraps the favorites storage schema. Files from any
+ *   schema version the storage can migrate are readable, as are raw copies
+ *   of the localStorage value.
+ * - CSV: one row per favorite with a header row (`id,name,thumbnailUrl,
+ *   description,addedAt`), for spreadsheets. Rows are validated one by one.
+ *
+ * @example
+ * ```typescript
+ * const codec = new JsonCsvFavoritesFileCodec();
+ * const csv = codec.encode(snapshots, 'csv');
+ * const { favorites, invalidRecords } = codec.decode(csv, 'csv');
+ * ```
+ */
+export class JsonCsvFavoritesFileCodec implements FavoritesFileCodec {
+  constructor(private readonly now: () => Date = () => new Date()) {}
+
+  encode(favorites: FavoriteSnapshot[], format: FavoritesFileFormat): string {
+    const entries = favorites.map(toEntry);
+    return format === "csv"
+      ? this.encodeCsv(entries)
+      : this.encodeJson(entries);
+  }
+
+  decode(content: string, format: FavoritesFileFormat): DecodedFavoritesFile {
+    // Spreadsheet apps often prepend a byte order mark
+    const text = content.replace(/^\uFEFF/, "");
+    return format === "csv" ? this.decodeCsv(text) : this.decodeJson(text);
+  }
+
+  private encodeJson(entries: FavoriteEntry[]): string {
+    const exportedAt = this.now().toISOString();
+    const file: FavoritesExportFile = {
+      format: FAVORITES_EXPORT_FORMAT,
+      exportedAt,
+      data: {
+        version: STORAGE_VERSION,
+        favorites: entries,
+        lastModified: exportedAt,
+      },
+    };
+
+    return JSON.stringify(file, null, 2);
+  }
+
+  private encodeCsv(entries: FavoriteEntry[]): string {
+    const rows = [
+      [...CSV_COLUMNS],
+      ...entries.map((entry) =>
+        CSV_COLUMNS.map((column) => `${entry[column]}`),
+      ),
+    ];
+
+    return `${rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n")}\r\n`;
+  }
+
+  private decodeJson(text: string): DecodedFavoritesFile {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error("File is not valid JSON");
+    }
+
+    // Exported file, or a raw copy of the stored favorites
+    const stored = isExportFile(parsed) ? parsed.data : parsed;
+    const { data, outcome, fromVersion } = favoritesMigrations.migrate(stored);
+
+    if (outcome === "invalid" || outcome === "failed") {
+      throw new Error("File does not contain favorites data");
+    }
+
+    return {
+      ...toSnapshots(data.favorites),
+      schemaVersion: fromVersion,
+    };
+  }
+
+  private decodeCsv(text: string): DecodedFavoritesFile {
+    const [header, ...rows] = parseCsv(text).filter(
+      (row) => !(row.length === 1 && row[0]!.trim() === ""),
+    );
+
+    const columns = (header ?? []).map((name) => name.trim());
+    const index = (column: (typeof CSV_COLUMNS)[number]) =>
+      columns.indexOf(column);
+
+    if (index("id") === -1) {
+      throw new Error('CSV file must have an "id" column');
+    }
+
+    const importedAt = this.now().toISOString();
+    let invalidRecords = 0;
+    const entries: FavoriteEntry[] = [];
+
+    for (const row of rows) {
+      const field = (column: (typeof CSV_COLUMNS)[number]) =>
+        index(column) === -1 ? "" : (row[index(column)] ?? "").trim();
+
+      const id = field("id");
+      if (!/^\d+$/.test(id)) {
+        invalidRecords++;
+        continue;
+      }
+
+      const addedAt = field("addedAt");
+      entries.push({
+        id: Number(id),
+        name: field("name"),
+        thumbnailUrl: field("thumbnailUrl"),
+        description: field("description"),
+        addedAt: addedAt === "" ? importedAt : addedAt,
+      });
+    }
+
+    // Same validation rules as stored data
+    const data: FavoritesData = {
+      version: STORAGE_VERSION,
+      favorites: entries,
+      lastModified: importedAt,
+    };
+    if (!favoritesMigrations.isCurrent(data)) {
+      throw new Error("File does not contain favorites data");
+    }
+
+    const decoded = toSnapshots(data.favorites);
+    return {
+      favorites: decoded.favorites,
+      invalidRecords: invalidRecords + decoded.invalidRecords,
+      schemaVersion: null,
+    };
+  }
+}
+
+function isExportFile(value: unknown): value is FavoritesExportFile {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { format?: unknown }).format === FAVORITES_EXPORT_FORMAT
+  );
+}
+
+function toEntry(snapshot: FavoriteSnapshot): FavoriteEntry {
+  return {
+    id: snapshot.id.value,
+    name: snapshot.name,
+    thumbnailUrl: snapshot.thumbnailUrl,
+    description: snapshot.description,
+    addedAt: snapshot.addedAt.toISOString(),
+  };
+}
+
+/**
+ * Stored entries → snapshots, skipping entries the domain rejects
+ * (invalid character ID or date)
+ */
+function toSnapshots(
+  entries: FavoriteEntry[],
+): Pick<DecodedFavoritesFile, "favorites" | "invalidRecords"> {
+  const favorites: FavoriteSnapshot[] = [];
+  let invalidRecords = 0;
+
+  for (const entry of entries) {
+    const addedAt = new Date(entry.addedAt);
+    if (
+      !Number.isInteger(entry.id) ||
+      entry.id <= 0 ||
+      Number.isNaN(addedAt.getTime())
+    ) {
+      invalidRecords++;
+      continue;
+    }
+
+    favorites.push({
+      id: new CharacterId(entry.id),
+      name: entry.name,
+      thumbnailUrl: entry.thumbnailUrl,
+      description: entry.description,
+      addedAt,
+    });
+  }
+
+  return { favorites, invalidRecords };
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break
+ */
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
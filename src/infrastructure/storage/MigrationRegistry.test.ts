@@ -0,0 +1,204 @@
+/**
+ * MigrationRegistry Tests
+ *
+ * Tests for chained schema migrations: step ordering, validation after each
+ * step, newer-version reads and registry configuration errors.
+ */
+
+import { MigrationRegistry, SchemaVersion } from "./MigrationRegistry";
+
+interface SettingsV3 {
+  version: 3;
+  theme: "light" | "dark";
+  fontSize: number;
+}
+
+const isObject = (data: unknown): data is Record<string, unknown> =>
+  typeof data === "object" && data !== null;
+
+const v1: SchemaVersion = {
+  version: 1,
+  validate: (data) => isObject(data) && typeof data.dark === "boolean",
+};
+
+const v2: SchemaVersion = {
+  version: 2,
+  validate: (data) =>
+    isObject(data) && (data.theme === "light" || data.theme === "dark"),
+  migrate: (data) => {
+    const { dark } = data as { dark: boolean };
+    return { version: 2, theme: dark ? "dark" : "light" };
+  },
+};
+
+const v3: SchemaVersion = {
+  version: 3,
+  validate: (data) =>
+    v2.validate(data) && isObject(data) && typeof data.fontSize === "number",
+  migrate: (data) => ({ ...(data as object), version: 3, fontSize: 16 }),
+};
+
+const createDefault = (): SettingsV3 => ({
+  version: 3,
+  theme: "dark",
+  fontSize: 16,
+});
+
+function createRegistry(versions: SchemaVersion[] = [v1, v2, v3]) {
+  return new MigrationRegistry<SettingsV3>({
+    name: "settings",
+    versions,
+    createDefault,
+  });
+}
+
+describe("MigrationRegistry", () => {
+  describe("configuration", () => {
+    it("should use the last version as current", () => {
+      expect(createRegistry().currentVersion).toBe(3);
+    });
+
+    it("should reject an empty version list", () => {
+      expect(() => createRegistry([])).toThrow(
+        "at least one schema version is required",
+      );
+    });
+
+    it("should reject gaps between versions", () => {
+      expect(() => createRegistry([v1, v3])).toThrow(
+        "schema versions must be consecutive (v1 → v3)",
+      );
+    });
+
+    it("should reject a version without a migration step", () => {
+      expect(() =>
+        createRegistry([v1, { version: 2, validate: v2.validate }]),
+      ).toThrow("missing migration v1 → v2");
+    });
+  });
+
+  describe("migrate", () => {
+    it("should return current data as-is", () => {
+      const stored = { version: 3, theme: "light", fontSize: 12 };
+
+      expect(createRegistry().migrate(stored)).toEqual({
+        data: stored,
+        outcome: "current",
+        fromVersion: 3,
+      });
+    });
+
+    it("should chain every step from an old version", () => {
+      const result = createRegistry().migrate({ version: 1, dark: false });
+
+      expect(result).toEqual({
+        data: { version: 3, theme: "light", fontSize: 16 },
+        outcome: "migrated",
+        fromVersion: 1,
+      });
+    });
+
+    it("should start from the stored version", () => {
+      const migrateV2 = jest.fn(v2.migrate);
+      const registry = createRegistry([v1, { ...v2, migrate: migrateV2 }, v3]);
+
+      const result = registry.migrate({ version: 2, theme: "dark" });
+
+      expect(result.outcome).toBe("migrated");
+      expect(migrateV2).not.toHaveBeenCalled();
+    });
+
+    it("should fail when a step produces invalid data", () => {
+      const registry = createRegistry([
+        v1,
+        { ...v2, migrate: () => ({ version: 2, theme: "blue" }) },
+        v3,
+      ]);
+
+      const result = registry.migrate({ version: 1, dark: true });
+
+      expect(result).toEqual({
+        data: createDefault(),
+        outcome: "failed",
+        fromVersion: 1,
+      });
+    });
+
+    it("should fail when a step doesn't set the next version", () => {
+      const registry = createRegistry([
+        v1,
+        { ...v2, migrate: () => ({ version: 1, theme: "dark" }) },
+        v3,
+      ]);
+
+      expect(registry.migrate({ version: 1, dark: true }).outcome).toBe(
+        "failed",
+      );
+    });
+
+    it("should fail when a step throws", () => {
+      const registry = createRegistry([
+        v1,
+        {
+          ...v2,
+          migrate: () => {
+            throw new Error("boom");
+          },
+        },
+        v3,
+      ]);
+
+      expect(registry.migrate({ version: 1, dark: true }).outcome).toBe(
+        "failed",
+      );
+    });
+
+    it("should read newer data that validates as the current version", () => {
+      const stored = { version: 4, theme: "dark", fontSize: 14, extra: true };
+
+      expect(createRegistry().migrate(stored)).toEqual({
+        data: stored,
+        outcome: "newer",
+        fromVersion: 4,
+      });
+    });
+
+    it("should treat unreadable newer data as invalid", () => {
+      const result = createRegistry().migrate({ version: 4, colors: {} });
+
+      expect(result.outcome).toBe("invalid");
+      expect(result.data).toEqual(createDefault());
+    });
+
+    it.each([
+      ["not an object", "settings"],
+      ["no version", { theme: "dark" }],
+      ["non-integer version", { version: 1.5, dark: true }],
+      ["unknown old version", { version: 0, dark: true }],
+      ["structure not matching its version", { version: 1, theme: "dark" }],
+    ])("should treat %s as invalid", (_, stored) => {
+      const result = createRegistry().migrate(stored);
+
+      expect(result.outcome).toBe("invalid");
+      expect(result.data).toEqual(createDefault());
+    });
+  });
+
+  describe("isCurrent", () => {
+    it("should accept valid data at the current version", () => {
+      expect(
+        createRegistry().isCurrent({ version: 3, theme: "dark", fontSize: 1 }),
+      ).toBe(true);
+    });
+
+    it("should reject older, newer or invalid data", () => {
+      const registry = createRegistry();
+
+      expect(registry.isCurrent({ version: 1, dark: true })).toBe(false);
+      expect(
+        registry.isCurrent({ version: 4, theme: "dark", fontSize: 1 }),
+      ).toBe(false);
+      expect(registry.isCurrent({ version: 3, theme: "dark" })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Any persisted structure carrying a schema version
+ */
+export interface VersionedData {
+  version: number;
+}
+
+/**
+ * One schema version: how to recognize it and how to reach it from the previous one
+ */
+export interface SchemaVersion {
+  version: number;
+  /** Structural check for this version (must not check `version` itself) */
+  validate: (data: unknown) => boolean;
+  /** vN-1 → vN (omitted for the first version) */
+  migrate?: (data: unknown) => unknown;
+}
+
+/**
+ * How stored data was read
+ * - current: already at the current version
+ * - migrated: upgraded from an older version
+ * - newer: written by a newer app version, read as the current version
+ * - invalid: unknown structure, or newer data the current version can't read
+ * - failed: a migration step threw or produced invalid data
+ */
+export type MigrationOutcome =
+  | "current"
+  | "migrated"
+  | "newer"
+  | "invalid"
+  | "failed";
+
+export interface MigrationResult<T> {
+  data: T;
+  outcome: MigrationOutcome;
+  fromVersion: number | null; // null when the stored data had no version
+}
+
+/**
+ * Migration Registry
+ *
+ * Ordered `vN → vN+1` migrations for a persisted data structure. Stored data is
+ * upgraded one step at a time and validated after each step, so a bad step is
+ * caught instead of persisted.
+ *
+ * Data written by a newer app version (after a rollback, or another tab on a
+ * newer deploy) is read as the current version when it still validates: new
+ * versions are expected to add fields, not remove them.
+ *
+ * @example
+ * ```typescript
+ * const registry = new MigrationRegistry<SettingsV2>({
+ *   name: 'settings',
+ *   versions: [
+ *     { version: 1, validate: isSettingsV1 },
+ *     { version: 2, validate: isSettingsV2, migrate: settingsV1ToV2 },
+ *   ],
+ *   createDefault: () => ({ version: 2, theme: 'dark' }),
+ * });
+ *
+ * const { data, outcome } = registry.migrate(storage.get('settings'));
+ * ```
+ */
+export class MigrationRegistry<T extends VersionedData> {
+  readonly name: string;
+  readonly currentVersion: number;
+  private readonly versions: ReadonlyMap<number, SchemaVersion>;
+  private readonly createDefaultData: () => T;
+
+  constructor(options: {
+    /** Name used in logs, e.g. 'favorites' */
+    name: string;
+    /** Every version from the oldest still readable to the current one, in order */
+    versions: SchemaVersion[];
+    createDefault: () => T;
+  }) {
+    const { versions } = options;
+
+    if (versions.length === 0) {
+      throw new Error(
+        `${options.name}: at least one schema version is required`,
+      );
+    }
+
+    versions.forEach((schema, index) => {
+      const previous = versions[index - 1];
+      if (previous && schema.version !== previous.version + 1) {
+        throw new Error(
+          `${options.name}: schema versions must be consecutive (v${previous.version} → v${schema.version})`,
+        );
+      }
+      if (previous && !schema.migrate) {
+        throw new Error(
+          `${options.name}: missing migration v${previous.version} → v${schema.version}`,
+        );
+      }
+    });
+
+    this.name = options.name;
+    this.versions = new Map(versions.map((schema) => [schema.version, schema]));
+    this.currentVersion = versions[versions.length - 1]!.version;
+    this.createDefaultData = options.createDefault;
+  }
+
+  createDefault(): T {
+    return this.createDefaultData();
+  }
+
+  /**
+   * Whether stored data is valid and at the current version (no migration needed)
+   */
+  isCurrent(data: unknown): data is T {
+    return (
+      getVersion(data) === this.currentVersion &&
+      this.versions.get(this.currentVersion)!.validate(data)
+    );
+  }
+
+  /**
+   * Bring stored data to the current version
+   *
+   * Never throws: unreadable data yields the default with a non-success outcome.
+   * Callers decide what to persist (see VersionedStore).
+   *
+   * @param stored - Raw data read from storage
+   */
+  migrate(stored: unknown): MigrationResult<T> {
+    const fromVersion = getVersion(stored);
+
+    if (fromVersion === null) {
+      return this.fallback("invalid", null);
+    }
+
+    if (fromVersion > this.currentVersion) {
+      return this.versions.get(this.currentVersion)!.validate(stored)
+        ? { data: stored as T, outcome: "newer", fromVersion }
+        : this.fallback("invalid", fromVersion);
+    }
+
+    const initial = this.versions.get(fromVersion);
+    if (!initial?.validate(stored)) {
+      return this.fallback("invalid", fromVersion);
+    }
+
+    let data = stored;
+    for (
+      let version = fromVersion + 1;
+      version <= this.currentVersion;
+      version++
+    ) {
+      const step = this.versions.get(version)!;
+
+      try {
+        data = step.migrate!(data);
+      } catch {
+        return this.fallback("failed", fromVersion);
+      }
+
+      if (getVersion(data) !== version || !step.validate(data)) {
+        return this.fallback("failed", fromVersion);
+      }
+    }
+
+    return {
+      data: data as T,
+      outcome: fromVersion === this.currentVersion ? "current" : "migrated",
+      fromVersion,
+    };
+  }
+
+  private fallback(
+    outcome: MigrationOutcome,
+    fromVersion: number | null,
+  ): MigrationResult<T> {
+    return { data: this.createDefault(), outcome, fromVersion };
+  }
+}
+
+function getVersion(data: unknown): number | null {
+  if (typeof data !== "object" || data === null) {
+    return null;
+  }
+
+  const { version } = data as { version?: unknown };
+  return typeof version === "number" && Number.isInteger(version) && version > 0
+    ? version
+    : null;
+}
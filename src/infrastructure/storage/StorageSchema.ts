@@ -1,13 +1,42 @@
+import { MigrationRegistry } from "./MigrationRegistry";
+
 /**
  * Storage schema versions for migration support
+ * - v1: favorite IDs only
+ * - v2: per-favorite snapshot (name, thumbnail, short description, date added)
+ */
+export const STORAGE_VERSION = 2;
+
+/**
+ * Longest description kept in a favorite snapshot (full text comes from the API)
  */
-export const STORAGE_VERSION = 1;
+export const SNAPSHOT_DESCRIPTION_MAX_LENGTH = 200;
+
+/**
+ * Denormalized copy of a favorited character, so favorites render offline
+ */
+export interface FavoriteEntry {
+  id: number;
+  name: string; // Empty until the first refresh for favorites migrated from v1
+  thumbnailUrl: string;
+  description: string; // Short description (see SNAPSHOT_DESCRIPTION_MAX_LENGTH)
+  addedAt: string; // ISO date string
+}
 
 /**
  * Favorites data structure
  */
 export interface FavoritesData {
   version: number;
+  favorites: FavoriteEntry[]; // In the order they were added
+  lastModified: string; // ISO date string
+}
+
+/**
+ * Favorites data structure (v1)
+ */
+export interface FavoritesDataV1 {
+  version: 1;
   favorites: number[]; // Array of character IDs
   lastModified: string; // ISO date string
 }
@@ -24,34 +53,110 @@ export function createDefaultFavoritesData(): FavoritesData {
 }
 
 /**
- * Validate favorites data structure
+ * Shorten a description for a snapshot, cutting at a word boundary
+ *
+ * @example
+ * ```typescript
+ * shortenDescription('Bitten by a radioactive spider...', 20); // 'Bitten by a…'
+ * ```
  */
-export function validateFavoritesData(data: unknown): data is FavoritesData {
+export function shortenDescription(
+  description: string,
+  maxLength: number = SNAPSHOT_DESCRIPTION_MAX_LENGTH,
+): string {
+  const text = description.trim();
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+function isFavoriteEntry(value: unknown): value is FavoriteEntry {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const entry = value as Record<string, unknown>;
+
+  return (
+    typeof entry.id === "number" &&
+    typeof entry.name === "string" &&
+    typeof entry.thumbnailUrl === "string" &&
+    typeof entry.description === "string" &&
+    typeof entry.addedAt === "string"
+  );
+}
+
+/**
+ * Fields shared by every favorites version
+ */
+function hasFavoritesEnvelope(
+  data: unknown,
+): data is { favorites: unknown[]; lastModified: string } {
   if (typeof data !== "object" || data === null) {
     return false;
   }
 
   const obj = data as Record<string, unknown>;
 
+  return Array.isArray(obj.favorites) && typeof obj.lastModified === "string";
+}
+
+/**
+ * Validate v1 favorites data structure
+ */
+export function isFavoritesDataV1(data: unknown): data is FavoritesDataV1 {
   return (
-    typeof obj.version === "number" &&
-    Array.isArray(obj.favorites) &&
-    obj.favorites.every((id) => typeof id === "number") &&
-    typeof obj.lastModified === "string"
+    hasFavoritesEnvelope(data) &&
+    data.favorites.every((id) => typeof id === "number")
   );
 }
 
 /**
- * Migrate favorites data to current version
+ * Validate v2 favorites data structure
  */
-export function migrateFavoritesData(data: FavoritesData): FavoritesData {
-  // Currently only version 1 exists
-  // Future versions would add migration logic here
-
-  if (data.version === STORAGE_VERSION) {
-    return data;
-  }
+export function isFavoritesDataV2(data: unknown): data is FavoritesData {
+  return hasFavoritesEnvelope(data) && data.favorites.every(isFavoriteEntry);
+}
 
-  // If unknown version, reset to default
-  return createDefaultFavoritesData();
+/**
+ * v1 → v2: IDs become snapshot entries
+ *
+ * v1 didn't store character data, so entries start empty and are filled in by
+ * the next refresh from the API. The date each favorite was added wasn't
+ * stored either; the last modification date is the best approximation.
+ */
+function migrateV1ToV2(data: FavoritesDataV1): FavoritesData {
+  return {
+    version: 2,
+    favorites: [...new Set(data.favorites)].map((id) => ({
+      id,
+      name: "",
+      thumbnailUrl: "",
+      description: "",
+      addedAt: data.lastModified,
+    })),
+    lastModified: data.lastModified,
+  };
 }
+
+/**
+ * Favorites schema versions and migrations
+ * To change the schema: bump STORAGE_VERSION and append a version with its
+ * `migrate` step from the previous one.
+ */
+export const favoritesMigrations = new MigrationRegistry<FavoritesData>({
+  name: "favorites",
+  versions: [
+    { version: 1, validate: isFavoritesDataV1 },
+    {
+      version: 2,
+      validate: isFavoritesDataV2,
+      migrate: (data) => migrateV1ToV2(data as FavoritesDataV1),
+    },
+  ],
+  createDefault: createDefaultFavoritesData,
+});
@@ -0,0 +1,172 @@
+/**
+ * VersionedStore Tests
+ *
+ * Tests for versioned reads and writes: persisted migrations, backups before
+ * overwriting, and reads of data the current version can't migrate.
+ */
+
+import { VersionedStore } from "./VersionedStore";
+import { StorageAdapter } from "./StorageAdapter";
+import { MigrationRegistry } from "./MigrationRegistry";
+import { logger } from "@infrastructure/logging/Logger";
+
+jest.mock("@infrastructure/logging/Logger");
+
+interface CounterV2 {
+  version: 2;
+  count: number;
+}
+
+const registry = new MigrationRegistry<CounterV2>({
+  name: "counter",
+  versions: [
+    {
+      version: 1,
+      validate: (data) => typeof (data as { n?: unknown }).n === "number",
+    },
+    {
+      version: 2,
+      validate: (data) =>
+        typeof (data as { count?: unknown }).count === "number",
+      migrate: (data) => ({ version: 2, count: (data as { n: number }).n }),
+    },
+  ],
+  createDefault: () => ({ version: 2, count: 0 }),
+});
+
+describe("VersionedStore", () => {
+  let items: Map<string, string>;
+  let adapter: StorageAdapter;
+  let store: VersionedStore<CounterV2>;
+
+  const read = (key: string): unknown => {
+    const item = items.get(key);
+    return item === undefined ? null : JSON.parse(item);
+  };
+
+  const write = (key: string, value: unknown) => {
+    items.set(key, JSON.stringify(value));
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    items = new Map();
+    adapter = new StorageAdapter({
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        items.set(key, value);
+      },
+    } as unknown as Storage);
+    store = new VersionedStore(adapter, "counter", registry);
+  });
+
+  describe("load", () => {
+    it("should return the default when nothing is stored", () => {
+      expect(store.load()).toEqual({ version: 2, count: 0 });
+      expect(items.size).toBe(0);
+    });
+
+    it("should return current data without writing", () => {
+      write("counter", { version: 2, count: 5 });
+      const setItem = jest.spyOn(adapter, "set");
+
+      expect(store.load()).toEqual({ version: 2, count: 5 });
+      expect(setItem).not.toHaveBeenCalled();
+    });
+
+    it("should persist migrated data and back up the original", () => {
+      write("counter", { version: 1, n: 7 });
+
+      expect(store.load()).toEqual({ version: 2, count: 7 });
+      expect(read("counter")).toEqual({ version: 2, count: 7 });
+      expect(store.getBackup()).toEqual({
+        version: 1,
+        backedUpAt: expect.any(String),
+        data: { version: 1, n: 7 },
+      });
+    });
+
+    it("should keep returning migrated data when it can't be persisted", () => {
+      write("counter", { version: 1, n: 7 });
+      jest.spyOn(adapter, "set").mockImplementation(() => {
+        throw new Error("Quota exceeded");
+      });
+
+      expect(store.load()).toEqual({ version: 2, count: 7 });
+      expect(logger.warn).toHaveBeenCalledWith(
+        "Failed to persist migrated counter data",
+        expect.any(Object),
+      );
+    });
+
+    it("should read newer data without overwriting it", () => {
+      write("counter", { version: 3, count: 4, unit: "clicks" });
+
+      expect(store.load()).toEqual({ version: 3, count: 4, unit: "clicks" });
+      expect(read("counter")).toEqual({ version: 3, count: 4, unit: "clicks" });
+      expect(logger.warn).toHaveBeenCalledWith(
+        "Reading counter data saved by a newer app version",
+        { version: 3, currentVersion: 2 },
+      );
+    });
+
+    it("should leave invalid data in place and return the default", () => {
+      write("counter", { version: 2, count: "many" });
+
+      expect(store.load()).toEqual({ version: 2, count: 0 });
+      expect(read("counter")).toEqual({ version: 2, count: "many" });
+      expect(logger.warn).toHaveBeenCalledWith(
+        "Invalid counter data structure, resetting to default",
+      );
+    });
+  });
+
+  describe("save", () => {
+    it("should overwrite current data without a backup", () => {
+      write("counter", { version: 2, count: 1 });
+
+      store.save({ version: 2, count: 2 });
+
+      expect(read("counter")).toEqual({ version: 2, count: 2 });
+      expect(store.getBackup()).toBeNull();
+    });
+
+    it("should back up invalid data before overwriting it", () => {
+      write("counter", "corrupted");
+
+      store.save({ version: 2, count: 1 });
+
+      expect(read("counter")).toEqual({ version: 2, count: 1 });
+      expect(store.getBackup()).toEqual({
+        version: null,
+        backedUpAt: expect.any(String),
+        data: "corrupted",
+      });
+    });
+
+    it("should back up newer data before overwriting it", () => {
+      write("counter", { version: 3, count: 4, unit: "clicks" });
+
+      store.save({ version: 2, count: 5 });
+
+      expect(store.getBackup()?.data).toEqual({
+        version: 3,
+        count: 4,
+        unit: "clicks",
+      });
+    });
+
+    it("should not overwrite data when the backup fails", () => {
+      write("counter", { version: 1, n: 7 });
+      const set = jest.spyOn(adapter, "set").mockImplementationOnce(() => {
+        throw new Error("Quota exceeded");
+      });
+
+      expect(() => store.save({ version: 2, count: 1 })).toThrow(
+        "Quota exceeded",
+      );
+      expect(set).toHaveBeenCalledTimes(1);
+      expect(read("counter")).toEqual({ version: 1, n: 7 });
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { logger } from "@infrastructure/logging/Logger";
+import { StorageAdapter } from "./StorageAdapter";
+import { MigrationRegistry, VersionedData } from "./MigrationRegistry";
+
+/**
+ * Copy of a stored blob kept before it's overwritten
+ */
+export interface StorageBackup {
+  version: number | null;
+  backedUpAt: string; // ISO date string
+  data: unknown;
+}
+
+/**
+ * Versioned Store
+ *
+ * Reads and writes one versioned structure under a storage key, migrating it
+ * with a MigrationRegistry. Data is never lost silently:
+ * - Migrated data is persisted once, after backing up the pre-migration blob
+ * - Data that can't be read (invalid, failed migration, too new) is left in
+ *   place; reads get the default, and the blob is backed up before the first
+ *   write replaces it
+ * - Data from a newer app version that still validates is read as-is, and
+ *   backed up before being overwritten with the current version
+ *
+ * The backup lives under `<key>_backup` and holds the last overwritten blob.
+ *
+ * @example
+ * ```typescript
+ * const store = new VersionedStore(new StorageAdapter(), 'marvel_favorites', favoritesMigrations);
+ * const data = store.load();
+ * store.save({ ...data, lastModified: new Date().toISOString() });
+ * ```
+ */
+export class VersionedStore<T extends VersionedData> {
+  readonly backupKey: string;
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    readonly key: string,
+    private readonly registry: MigrationRegistry<T>,
+  ) {
+    this.backupKey = `${key}_backup`;
+  }
+
+  /**
+   * Load data at the current version (default when nothing usable is stored)
+   *
+   * @throws {StorageError} When storage can't be read
+   */
+  load(): T {
+    const stored = this.storage.get<unknown>(this.key);
+
+    if (stored === null) {
+      return this.registry.createDefault();
+    }
+
+    const { data, outcome, fromVersion } = this.registry.migrate(stored);
+    const { name } = this.registry;
+
+    switch (outcome) {
+      case "migrated":
+        this.persistMigration(data, fromVersion);
+        break;
+      case "newer":
+        logger.warn(`Reading ${name} data saved by a newer app version`, {
+          version: fromVersion,
+          currentVersion: this.registry.currentVersion,
+        });
+        break;
+      case "invalid":
+        logger.warn(`Invalid ${name} data structure, resetting to default`);
+        break;
+      case "failed":
+        logger.error(`Failed to migrate ${name} data, using default`, {
+          version: fromVersion,
+        });
+        break;
+    }
+
+    return data;
+  }
+
+  /**
+   * Save data, backing up the stored blob first unless it's already current
+   *
+   * @throws {StorageError} When storage can't be written
+   */
+  save(data: T): void {
+    const stored = this.storage.get<unknown>(this.key);
+
+    if (stored !== null && !this.registry.isCurrent(stored)) {
+      this.backup(stored);
+    }
+
+    this.storage.set(this.key, data);
+  }
+
+  /**
+   * Last blob replaced by a migration or overwrite, if any
+   */
+  getBackup(): StorageBackup | null {
+    return this.storage.get<StorageBackup>(this.backupKey);
+  }
+
+  private backup(stored: unknown): void {
+    const { version } = (stored ?? {}) as { version?: unknown };
+    const backup: StorageBackup = {
+      version: typeof version === "number" ? version : null,
+      backedUpAt: new Date().toISOString(),
+      data: stored,
+    };
+    this.storage.set(this.backupKey, backup);
+  }
+
+  /**
+   * Save migrated data (reads keep working from memory if the write fails)
+   */
+  private persistMigration(data: T, fromVersion: number | null): void {
+    try {
+      this.save(data);
+      logger.info(`Migrated ${this.registry.name} data`, {
+        from: fromVersion,
+        to: data.version,
+      });
+    } catch (error) {
+      logger.warn(`Failed to persist migrated ${this.registry.name} data`, {
+        error,
+      });
+    }
+  }
+}
@@ -7,6 +7,7 @@
 export const config = {
   comicVineApiKey: "test_api_key_for_testing_needs_40_chars_min",
   apiBaseUrl: "/api",
+  favoritesApiUrl: "",
   isDevelopment: true,
   isProduction: false,
   isConfigured: true,
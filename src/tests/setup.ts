@@ -6,6 +6,7 @@
  */
 
 import "@testing-library/jest-dom";
+import { deserialize, serialize } from "v8";
 
 // Mock ResizeObserver which is not available in jsdom
 global.ResizeObserver = class ResizeObserver {
@@ -14,6 +15,15 @@ global.ResizeObserver = class ResizeObserver {
   disconnect() {}
 };
 
+// Provide structuredClone, which is not available in jsdom (fake-indexeddb
+// clones every stored value with it)
+if (typeof structuredClone === "undefined") {
+  Object.defineProperty(global, "structuredClone", {
+    writable: true,
+    value: (value: unknown) => deserialize(serialize(value)),
+  });
+}
+
 // Mock window.matchMedia
 Object.defineProperty(window, "matchMedia", {
   writable: true,
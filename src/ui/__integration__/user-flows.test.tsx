@@ -9,8 +9,9 @@
  */
 
 // Import domain entities and value objects (must be before jest.mock)
-import { Character } from "@domain/character/entities/Character";
+import { CharacterDetail } from "@domain/character/entities/CharacterDetail";
 import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterRelationships } from "@domain/character/valueObjects/CharacterRelationships";
 import { CharacterName } from "@domain/character/valueObjects/CharacterName";
 import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
 import { Comic } from "@domain/character/entities/Comic";
@@ -18,7 +19,7 @@ import { ReleaseDate } from "@domain/character/valueObjects/ReleaseDate";
 
 // Create domain entity mocks
 const createMockCharacter = (id: number, name: string, description: string) => {
-  return new Character({
+  return new CharacterDetail({
     id: new CharacterId(id),
     name: new CharacterName(name),
     description,
@@ -76,6 +77,21 @@ jest.mock("@infrastructure/repositories/ComicVineCharacterRepository", () => {
           if (!character) throw new Error("Not found");
           return character;
         }),
+        findRelationships: jest
+          .fn()
+          .mockImplementation(
+            async (id: CharacterId) =>
+              new CharacterRelationships({ characterId: id }),
+          ),
+        findManyByIds: jest.fn().mockImplementation(async (ids) => {
+          const found = mockCharacters.filter((c) =>
+            ids.some((id: CharacterId) => id.value === c.id.value),
+          );
+          const notFound = ids.filter(
+            (id: CharacterId) => !found.some((c) => c.id.value === id.value),
+          );
+          return { found, notFound, failed: [] };
+        }),
         searchByName: jest.fn().mockImplementation(async (query) => {
           const filtered = mockCharacters.filter((c) =>
             c.name.value.toLowerCase().includes(query.toLowerCase()),
@@ -98,6 +114,7 @@ import userEvent from "@testing-library/user-event";
 import { MemoryRouter } from "react-router-dom";
 import { DependenciesProvider } from "@ui/state/DependenciesContext";
 import { FavoritesProvider } from "@ui/state/FavoritesContext";
+import { ToastProvider } from "@ui/state/ToastContext";
 import { QueryProvider } from "@ui/providers/QueryProvider";
 import { RouterContent } from "@ui/routes/AppRouter";
 import { createTestQueryClient } from "@tests/queryTestUtils";
@@ -133,14 +150,19 @@ describe("Cross-Page User Flow Integration Tests", () => {
     return render(
       <DependenciesProvider>
         <QueryProvider client={queryClient}>
-          <FavoritesProvider>
-            <MemoryRouter
-              initialEntries={[initialRoute]}
-              future={{ v7_startTransition: true, v7_relativeSplatPath: true }}
-            >
-              <RouterContent />
-            </MemoryRouter>
-          </FavoritesProvider>
+          <ToastProvider>
+            <FavoritesProvider>
+              <MemoryRouter
+                initialEntries={[initialRoute]}
+                future={{
+                  v7_startTransition: true,
+                  v7_relativeSplatPath: true,
+                }}
+              >
+                <RouterContent />
+              </MemoryRouter>
+            </FavoritesProvider>
+          </ToastProvider>
         </QueryProvider>
       </DependenciesProvider>,
     );
@@ -381,6 +403,9 @@ describe("Cross-Page User Flow Integration Tests", () => {
 
       // Both should be in favorites
       await waitFor(() => {
+        expect(
+          screen.getByRole("heading", { name: "FAVORITES" }),
+        ).toBeInTheDocument();
         expect(screen.getByText("Spider-Man")).toBeInTheDocument();
         expect(screen.getByText("Iron Man")).toBeInTheDocument();
       });
@@ -436,9 +461,13 @@ describe("Cross-Page User Flow Integration Tests", () => {
       // Navigate to favorites page
       await user.click(screen.getByRole("button", { name: /view favorites/i }));
 
-      // Wait for favorites to load
+      // Wait for the lazy FavoritesPage itself: both names are also on the
+      // list page until it mounts, and typing earlier would go to that page
       await waitFor(
         () => {
+          expect(
+            screen.getByRole("heading", { name: "FAVORITES" }),
+          ).toBeInTheDocument();
           expect(screen.getByText("Spider-Man")).toBeInTheDocument();
           expect(screen.getByText("Iron Man")).toBeInTheDocument();
         },
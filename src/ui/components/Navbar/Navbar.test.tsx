@@ -16,6 +16,15 @@ jest.mock("@ui/state/FavoritesContext", () => ({
   }),
 }));
 
+jest.mock("@ui/hooks/useApiQuota", () => ({
+  useApiQuota: () => ({
+    quotas: [],
+    remaining: 180,
+    limit: 200,
+    resetAt: null,
+  }),
+}));
+
 jest.mock("@ui/designSystem/atoms/Logo/Logo", () => ({
   Logo: ({ onClick }: { onClick?: () => void }) => (
     <button onClick={onClick} data-testid="logo">
@@ -73,6 +82,15 @@ describe("Navbar", () => {
       expect(screen.getByTestId("heart-icon")).toBeInTheDocument();
     });
 
+    it("should render API quota meter", () => {
+      renderNavbar();
+
+      expect(screen.getByRole("meter", { name: "API quota" })).toHaveAttribute(
+        "aria-valuenow",
+        "180",
+      );
+    });
+
     it("should render as header element", () => {
       const { container } = renderNavbar();
 
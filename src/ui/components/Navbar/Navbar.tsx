@@ -2,6 +2,8 @@ import React, { memo, useCallback, useMemo } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { Logo } from "@ui/designSystem/atoms/Logo/Logo";
 import { Icon } from "@ui/designSystem/atoms/Icon/Icon";
+import { QuotaMeter } from "@ui/designSystem/atoms/QuotaMeter/QuotaMeter";
+import { useApiQuota } from "@ui/hooks/useApiQuota";
 import { useFavorites } from "@ui/state/FavoritesContext";
 import { routes } from "@ui/routes/routes";
 import { preloadFavoritesPage } from "@ui/routes/AppRouter";
@@ -17,7 +19,7 @@ export interface NavbarProps {
 /**
  * Navbar Component
  *
- * Reusable navigation bar with Marvel logo and favorites button.
+ * Reusable navigation bar with Marvel logo, API quota meter and favorites button.
  * Displays favorites count badge when user has favorites.
  * Consistent across all pages.
  */
@@ -28,6 +30,7 @@ const NavbarComponent: React.FC<NavbarProps> = ({
   const navigate = useNavigate();
   const location = useLocation();
   const { favoritesCount } = useFavorites();
+  const { remaining, limit, resetAt } = useApiQuota();
 
   const isFavoritesActive = useMemo(
     () => location.pathname === routes.favorites,
@@ -52,27 +55,30 @@ const NavbarComponent: React.FC<NavbarProps> = ({
     <header className={styles.navbar}>
       <div className={styles.navbar__content}>
         {onLogoClick ? <Logo onClick={onLogoClick} /> : <Logo />}
-        <button
-          type="button"
-          onClick={handleFavoritesClick}
-          onMouseEnter={handleFavoritesHover}
-          onFocus={handleFavoritesHover}
-          className={styles.navbar__favoritesButton}
-          aria-label={
-            isFavoritesActive ? "Viewing favorites" : "View favorites"
-          }
-          data-testid="favorites-nav-button"
-        >
-          <Icon name="heart-filled" size={24} />
-          {favoritesCount > 0 && (
-            <span
-              className={styles.navbar__favoritesCount}
-              data-testid="favorites-count"
-            >
-              {favoritesCount}
-            </span>
-          )}
-        </button>
+        <div className={styles.navbar__actions}>
+          <QuotaMeter remaining={remaining} limit={limit} resetAt={resetAt} />
+          <button
+            type="button"
+            onClick={handleFavoritesClick}
+            onMouseEnter={handleFavoritesHover}
+            onFocus={handleFavoritesHover}
+            className={styles.navbar__favoritesButton}
+            aria-label={
+              isFavoritesActive ? "Viewing favorites" : "View favorites"
+            }
+            data-testid="favorites-nav-button"
+          >
+            <Icon name="heart-filled" size={24} />
+            {favoritesCount > 0 && (
+              <span
+                className={styles.navbar__favoritesCount}
+                data-testid="favorites-count"
+              >
+                {favoritesCount}
+              </span>
+            )}
+          </button>
+        </div>
       </div>
     </header>
   );
@@ -0,0 +1,61 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import { QuotaMeter } from "./QuotaMeter";
+
+/**
+ * QuotaMeter Component
+ *
+ * Compact meter showing how many Comic Vine API requests are left in the current hour.
+ *
+ * ## Features
+ * - Track/fill bar with remaining/limit label
+ * - Warning color below 20% of the quota
+ * - Accessible `meter` role with a readable value text
+ *
+ * ## Usage
+ * Rendered in the Navbar, fed by the useApiQuota hook.
+ */
+const meta: Meta<typeof QuotaMeter> = {
+  title: "Design System/Atoms/QuotaMeter",
+  component: QuotaMeter,
+  tags: ["autodocs"],
+  argTypes: {
+    remaining: {
+      control: { type: "number", min: 0, max: 200 },
+      description: "Requests left in the current window",
+    },
+    limit: {
+      control: { type: "number", min: 1 },
+      description: "Requests allowed per window",
+    },
+    resetAt: {
+      control: "date",
+      description: "When quota is regained (ms since epoch)",
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof QuotaMeter>;
+
+export const Full: Story = {
+  args: {
+    remaining: 200,
+    limit: 200,
+  },
+};
+
+export const PartiallyUsed: Story = {
+  args: {
+    remaining: 120,
+    limit: 200,
+    resetAt: Date.now() + 25 * 60 * 1000,
+  },
+};
+
+export const Low: Story = {
+  args: {
+    remaining: 12,
+    limit: 200,
+    resetAt: Date.now() + 5 * 60 * 1000,
+  },
+};
@@ -0,0 +1,42 @@
+/**
+ * QuotaMeter Tests
+ *
+ * Tests quota display and accessibility.
+ */
+
+import { render, screen } from "@testing-library/react";
+import { QuotaMeter } from "./QuotaMeter";
+
+describe("QuotaMeter", () => {
+  it("should render remaining and limit", () => {
+    render(<QuotaMeter remaining={150} limit={200} />);
+
+    expect(screen.getByText("150/200")).toBeInTheDocument();
+  });
+
+  it("should expose meter ARIA attributes", () => {
+    render(<QuotaMeter remaining={150} limit={200} />);
+
+    const meter = screen.getByRole("meter");
+    expect(meter).toHaveAttribute("aria-valuenow", "150");
+    expect(meter).toHaveAttribute("aria-valuemax", "200");
+    expect(meter).toHaveAttribute(
+      "aria-valuetext",
+      "150 of 200 API requests remaining",
+    );
+  });
+
+  it("should include reset time when provided", () => {
+    render(
+      <QuotaMeter
+        remaining={10}
+        limit={200}
+        resetAt={new Date(2024, 0, 1, 14, 30).getTime()}
+      />,
+    );
+
+    expect(screen.getByRole("meter").getAttribute("aria-valuetext")).toMatch(
+      /resets at/,
+    );
+  });
+});
@@ -0,0 +1,60 @@
+import React from "react";
+import styles from "./QuotaMeter.module.scss";
+
+/** Below this share of the quota the meter switches to its warning style */
+const LOW_QUOTA_RATIO = 0.2;
+
+export interface QuotaMeterProps {
+  /** Requests remaining in the current window */
+  remaining: number;
+  /** Requests allowed per window */
+  limit: number;
+  /** When quota is regained (ms since epoch), if any requests were made */
+  resetAt?: number | null;
+}
+
+/**
+ * QuotaMeter Component
+ *
+ * Compact meter showing how much Comic Vine API quota is left.
+ * Turns red when the quota is nearly spent and shows the reset time on hover.
+ */
+export const QuotaMeter: React.FC<QuotaMeterProps> = ({
+  remaining,
+  limit,
+  resetAt = null,
+}) => {
+  const ratio = limit > 0 ? remaining / limit : 0;
+  const isLow = ratio < LOW_QUOTA_RATIO;
+  const resetText = resetAt
+    ? `, resets at ${new Date(resetAt).toLocaleTimeString([], {
+        hour: "2-digit",
+        minute: "2-digit",
+      })}`
+    : "";
+  const description = `${remaining} of ${limit} API requests remaining${resetText}`;
+
+  return (
+    <div
+      className={`${styles.quotaMeter} ${isLow ? styles["quotaMeter--low"] : ""}`}
+      role="meter"
+      aria-label="API quota"
+      aria-valuemin={0}
+      aria-valuemax={limit}
+      aria-valuenow={remaining}
+      aria-valuetext={description}
+      title={description}
+      data-testid="quota-meter"
+    >
+      <span className={styles.quotaMeter__track}>
+        <span
+          className={styles.quotaMeter__fill}
+          style={{ width: `${Math.round(ratio * 100)}%` }}
+        />
+      </span>
+      <span className={styles.quotaMeter__label} aria-hidden="true">
+        {remaining}/{limit}
+      </span>
+    </div>
+  );
+};
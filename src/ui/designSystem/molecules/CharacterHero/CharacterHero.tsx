@@ -1,5 +1,8 @@
 import React, { useState, useRef, useEffect } from "react";
-import { FavoriteButton } from "@ui/designSystem/molecules/FavoriteButton/FavoriteButton";
+import {
+  FavoriteButton,
+  CollectionMenuProps,
+} from "@ui/designSystem/molecules/FavoriteButton/FavoriteButton";
 import { useAdaptiveLineClamp } from "@ui/hooks/useAdaptiveLineClamp";
 import styles from "./CharacterHero.module.scss";
 
@@ -9,6 +12,7 @@ interface CharacterHeroProps {
   isFavorite: boolean;
   onToggleFavorite: () => void;
   description?: string;
+  collectionMenu?: CollectionMenuProps; // Enables the "add to collection" menu
 }
 
 /**
@@ -26,6 +30,7 @@ export const CharacterHero: React.FC<CharacterHeroProps> = ({
   isFavorite,
   onToggleFavorite,
   description,
+  collectionMenu,
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [showButton, setShowButton] = useState(false);
@@ -91,6 +96,7 @@ export const CharacterHero: React.FC<CharacterHeroProps> = ({
               onToggle={onToggleFavorite}
               characterName={characterName}
               size="medium"
+              {...collectionMenu}
             />
           </div>
           {description && (
@@ -0,0 +1,73 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import { BrowserRouter } from "react-router-dom";
+import { CharacterRail } from "./CharacterRail";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
+
+const character = (id: number, name: string) =>
+  new CharacterSummary({
+    id: new CharacterId(id),
+    name: new CharacterName(name),
+    deck: "",
+    thumbnail: new ImageUrl(
+      "https://i.annihil.us/u/prod/marvel/i/mg/c/e0/535fecbbb9784",
+      "jpg",
+    ),
+  });
+
+/**
+ * CharacterRail Component
+ *
+ * Titled, horizontally scrolling row of character cards.
+ *
+ * ## Features
+ * - Reuses CharacterCard (links to the character, favorite toggle)
+ * - Scroll snapping, one card at a time
+ * - Renders nothing without characters
+ *
+ * ## Usage
+ * Shows a character's allies and enemies on the detail page.
+ */
+const meta: Meta<typeof CharacterRail> = {
+  title: "Design System/Molecules/CharacterRail",
+  component: CharacterRail,
+  tags: ["autodocs"],
+  decorators: [
+    (Story) => (
+      <BrowserRouter>
+        <Story />
+      </BrowserRouter>
+    ),
+  ],
+  args: {
+    isFavorite: (id: number) => id === 1455,
+    onToggleFavorite: () => {},
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof CharacterRail>;
+
+export const Allies: Story = {
+  args: {
+    title: "Allies",
+    characters: [
+      character(1443, "Iron Man"),
+      character(1455, "Thor"),
+      character(1456, "Hulk"),
+      character(1442, "Captain America"),
+      character(1457, "Black Widow"),
+      character(1458, "Hawkeye"),
+      character(1459, "Vision"),
+    ],
+  },
+};
+
+export const FewCharacters: Story = {
+  args: {
+    title: "Enemies",
+    characters: [character(1502, "Green Goblin")],
+  },
+};
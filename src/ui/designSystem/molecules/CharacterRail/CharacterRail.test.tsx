@@ -0,0 +1,88 @@
+/**
+ * CharacterRail Tests
+ *
+ * Tests the character cards, favorite toggling and the empty state.
+ */
+
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { MemoryRouter } from "react-router-dom";
+import { CharacterRail } from "./CharacterRail";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
+
+describe("CharacterRail", () => {
+  const character = (id: number, name: string) =>
+    new CharacterSummary({
+      id: new CharacterId(id),
+      name: new CharacterName(name),
+      deck: "",
+      thumbnail: new ImageUrl("https://example.com/image", "jpg"),
+    });
+
+  const characters = [character(1443, "Iron Man"), character(1455, "Thor")];
+
+  it("should show a card for each character, in order", () => {
+    render(
+      <MemoryRouter>
+        <CharacterRail
+          title="Allies"
+          characters={characters}
+          isFavorite={() => false}
+          onToggleFavorite={jest.fn()}
+        />
+      </MemoryRouter>,
+    );
+
+    const rail = screen.getByRole("region", { name: "Allies" });
+    expect(rail).toBeInTheDocument();
+    const cards = screen.getAllByTestId("character-card");
+    expect(cards).toHaveLength(2);
+    expect(cards[0]).toHaveTextContent("Iron Man");
+    expect(cards[1]).toHaveTextContent("Thor");
+    expect(screen.getAllByTestId("character-card-link")[0]).toHaveAttribute(
+      "href",
+      "/character/1443",
+    );
+  });
+
+  it("should toggle a character's favorite", async () => {
+    const user = userEvent.setup();
+    const onToggleFavorite = jest.fn();
+
+    render(
+      <MemoryRouter>
+        <CharacterRail
+          title="Enemies"
+          characters={characters}
+          isFavorite={(id) => id === 1455}
+          onToggleFavorite={onToggleFavorite}
+        />
+      </MemoryRouter>,
+    );
+
+    const buttons = screen.getAllByRole("button");
+    expect(buttons[1]).toHaveAttribute("aria-pressed", "true");
+
+    await user.click(buttons[0]!);
+
+    expect(onToggleFavorite).toHaveBeenCalledWith(characters[0]);
+  });
+
+  it("should render nothing without characters", () => {
+    const { container } = render(
+      <MemoryRouter>
+        <CharacterRail
+          title="Allies"
+          characters={[]}
+          isFavorite={() => false}
+          onToggleFavorite={jest.fn()}
+        />
+      </MemoryRouter>,
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,65 @@
+import React, { useId } from "react";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterCard } from "../CharacterCard/CharacterCard";
+import styles from "./CharacterRail.module.scss";
+
+interface CharacterRailProps {
+  title: string;
+  characters: CharacterSummary[];
+  isFavorite: (characterId: number) => boolean;
+  onToggleFavorite: (character: CharacterSummary) => void;
+}
+
+/**
+ * CharacterRail Component
+ *
+ * Titled, horizontally scrolling row of character cards.
+ *
+ * Features:
+ * - Reuses CharacterCard (links to the character, favorite toggle)
+ * - Scroll snapping, one card at a time
+ * - Renders nothing when there are no characters
+ *
+ * @example
+ * ```tsx
+ * <CharacterRail
+ *   title="Allies"
+ *   characters={allies}
+ *   isFavorite={isFavorite}
+ *   onToggleFavorite={(character) => toggleFavorite(character.id.value, character)}
+ * />
+ * ```
+ */
+export const CharacterRail: React.FC<CharacterRailProps> = ({
+  title,
+  characters,
+  isFavorite,
+  onToggleFavorite,
+}) => {
+  const headingId = useId();
+
+  if (characters.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className={styles.characterRail} aria-labelledby={headingId}>
+      <h2 id={headingId} className={styles.characterRail__title}>
+        {title}
+      </h2>
+      <ul className={styles.characterRail__track}>
+        {characters.map((character) => (
+          <li key={character.id.value} className={styles.characterRail__item}>
+            <CharacterCard
+              id={character.id.value}
+              name={character.name.value}
+              imageUrl={character.getThumbnailUrl("portrait_uncanny")}
+              isFavorite={isFavorite(character.id.value)}
+              onToggleFavorite={() => onToggleFavorite(character)}
+            />
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
@@ -0,0 +1,49 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import { FactsPanel } from "./FactsPanel";
+
+/**
+ * FactsPanel Component
+ *
+ * Titled list of label/value facts.
+ *
+ * ## Features
+ * - Semantic description list (`dl`/`dt`/`dd`)
+ * - Two columns from tablet up
+ * - Renders nothing without facts
+ *
+ * ## Usage
+ * Shows a character's profile on the detail page, below the hero.
+ */
+const meta: Meta<typeof FactsPanel> = {
+  title: "Design System/Molecules/FactsPanel",
+  component: FactsPanel,
+  tags: ["autodocs"],
+};
+
+export default meta;
+type Story = StoryObj<typeof FactsPanel>;
+
+export const Complete: Story = {
+  args: {
+    title: "Profile",
+    facts: [
+      { label: "Real name", value: "Peter Parker" },
+      { label: "Aliases", value: "Spidey, Web-Slinger, Wall-Crawler" },
+      { label: "Gender", value: "Male" },
+      { label: "Origin", value: "Human" },
+      { label: "Born", value: "August 10, 1962" },
+      { label: "First appearance", value: "#15 · Spider-Man!" },
+      { label: "Issue appearances", value: "8,932" },
+    ],
+  },
+};
+
+export const Partial: Story = {
+  args: {
+    title: "Profile",
+    facts: [
+      { label: "Gender", value: "Female" },
+      { label: "Origin", value: "Mutant" },
+    ],
+  },
+};
@@ -0,0 +1,43 @@
+/**
+ * FactsPanel Tests
+ *
+ * Tests the titled description list and the empty state.
+ */
+
+import { render, screen } from "@testing-library/react";
+import { FactsPanel } from "./FactsPanel";
+
+describe("FactsPanel", () => {
+  it("should render each fact as a term and its description", () => {
+    render(
+      <FactsPanel
+        title="Profile"
+        facts={[
+          { label: "Real name", value: "Peter Parker" },
+          { label: "Gender", value: "Male" },
+        ]}
+      />,
+    );
+
+    expect(screen.getByText("Real name").tagName).toBe("DT");
+    expect(screen.getByText("Peter Parker").tagName).toBe("DD");
+    expect(screen.getAllByRole("definition")).toHaveLength(2);
+  });
+
+  it("should label the section with its title", () => {
+    render(
+      <FactsPanel
+        title="Profile"
+        facts={[{ label: "Real name", value: "Peter Parker" }]}
+      />,
+    );
+
+    expect(screen.getByRole("region", { name: "Profile" })).toBeInTheDocument();
+  });
+
+  it("should render nothing without facts", () => {
+    const { container } = render(<FactsPanel title="Profile" facts={[]} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,57 @@
+import React, { useId } from "react";
+import styles from "./FactsPanel.module.scss";
+
+/**
+ * One labelled fact
+ */
+export interface Fact {
+  label: string;
+  value: React.ReactNode;
+}
+
+interface FactsPanelProps {
+  title: string;
+  facts: Fact[];
+}
+
+/**
+ * FactsPanel Component
+ *
+ * Titled list of label/value facts (e.g. a character's real name, origin and
+ * first appearance), rendered as a description list.
+ *
+ * Features:
+ * - Two columns from tablet up, one on mobile
+ * - Renders nothing when there are no facts
+ *
+ * @example
+ * ```tsx
+ * <FactsPanel
+ *   title="Profile"
+ *   facts={[{ label: 'Real name', value: 'Peter Parker' }]}
+ * />
+ * ```
+ */
+export const FactsPanel: React.FC<FactsPanelProps> = ({ title, facts }) => {
+  const headingId = useId();
+
+  if (facts.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className={styles.factsPanel} aria-labelledby={headingId}>
+      <h2 id={headingId} className={styles.factsPanel__title}>
+        {title}
+      </h2>
+      <dl className={styles.factsPanel__list}>
+        {facts.map(({ label, value }) => (
+          <div key={label} className={styles.factsPanel__fact}>
+            <dt className={styles.factsPanel__label}>{label}</dt>
+            <dd className={styles.factsPanel__value}>{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </section>
+  );
+};
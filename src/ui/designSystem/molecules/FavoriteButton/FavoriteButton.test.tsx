@@ -167,4 +167,94 @@ describe("FavoriteButton", () => {
       );
     });
   });
+
+  describe("Collection menu", () => {
+    const collections = [
+      { id: "c_1", name: "Avengers roster", selected: true },
+      { id: "c_2", name: "X-Men villains", selected: false },
+    ];
+
+    const renderWithMenu = (props = {}) =>
+      renderButton({
+        collections,
+        onToggleCollection: jest.fn(),
+        onCreateCollection: jest.fn(),
+        ...props,
+      });
+
+    it("does not render the menu toggle without collections", () => {
+      renderButton();
+
+      expect(
+        screen.queryByTestId("collection-menu-toggle"),
+      ).not.toBeInTheDocument();
+    });
+
+    it("opens the menu with a checkbox item per collection", async () => {
+      const user = userEvent.setup();
+      renderWithMenu();
+
+      const toggle = screen.getByTestId("collection-menu-toggle");
+      expect(toggle).toHaveAttribute("aria-expanded", "false");
+
+      await user.click(toggle);
+
+      expect(toggle).toHaveAttribute("aria-expanded", "true");
+      expect(
+        screen.getByRole("menuitemcheckbox", { name: /Avengers roster/ }),
+      ).toHaveAttribute("aria-checked", "true");
+      expect(
+        screen.getByRole("menuitemcheckbox", { name: /X-Men villains/ }),
+      ).toHaveAttribute("aria-checked", "false");
+    });
+
+    it("toggles a collection", async () => {
+      const user = userEvent.setup();
+      const onToggleCollection = jest.fn();
+      renderWithMenu({ onToggleCollection });
+
+      await user.click(screen.getByTestId("collection-menu-toggle"));
+      await user.click(
+        screen.getByRole("menuitemcheckbox", { name: /X-Men villains/ }),
+      );
+
+      expect(onToggleCollection).toHaveBeenCalledWith("c_2", true);
+    });
+
+    it("creates a collection from the menu", async () => {
+      const user = userEvent.setup();
+      const onCreateCollection = jest.fn();
+      renderWithMenu({ onCreateCollection });
+
+      await user.click(screen.getByTestId("collection-menu-toggle"));
+      await user.type(
+        screen.getByLabelText("New collection name"),
+        "Defenders{Enter}",
+      );
+
+      expect(onCreateCollection).toHaveBeenCalledWith("Defenders");
+    });
+
+    it("closes on Escape and returns focus to the toggle", async () => {
+      const user = userEvent.setup();
+      renderWithMenu();
+
+      const toggle = screen.getByTestId("collection-menu-toggle");
+      await user.click(toggle);
+      await user.keyboard("{Escape}");
+
+      expect(screen.queryByRole("menu")).not.toBeInTheDocument();
+      expect(toggle).toHaveFocus();
+    });
+
+    it("closes on outside click", async () => {
+      const user = userEvent.setup();
+      renderWithMenu();
+
+      await user.click(screen.getByTestId("collection-menu-toggle"));
+      await user.click(document.body);
+
+      expect(screen.queryByRole("menu")).not.toBeInTheDocument();
+    });
+  });
 });
@@ -1,8 +1,26 @@
-import React from "react";
+import React, { useEffect, useId, useRef, useState } from "react";
 import { Icon } from "../../atoms/Icon/Icon";
 import styles from "./FavoriteButton.module.scss";
 
-export interface FavoriteButtonProps {
+/**
+ * A collection listed in the FavoriteButton menu
+ */
+export interface CollectionMenuItem {
+  id: string;
+  name: string;
+  selected: boolean; // Character is in this collection
+}
+
+/**
+ * Props enabling the "add to collection" menu next to the heart
+ */
+export interface CollectionMenuProps {
+  collections: CollectionMenuItem[];
+  onToggleCollection: (collectionId: string, selected: boolean) => void;
+  onCreateCollection?: (name: string) => void;
+}
+
+export interface FavoriteButtonProps extends Partial<CollectionMenuProps> {
   isFavorite: boolean;
   onToggle: (e: React.MouseEvent) => void;
   characterName?: string;
@@ -13,6 +31,8 @@ export interface FavoriteButtonProps {
  * FavoriteButton Component
  *
  * Heart button for favoriting characters.
+ * When `collections` are provided, a menu button next to the heart lets users
+ * add the character to (or remove it from) specific collections, or create one.
  *
  * @example
  * ```tsx
@@ -28,6 +48,9 @@ export const FavoriteButton: React.FC<FavoriteButtonProps> = ({
   onToggle,
   characterName,
   size = "medium",
+  collections,
+  onToggleCollection,
+  onCreateCollection,
 }) => {
   const ariaLabel = isFavorite
     ? `Remove ${characterName || "character"} from favorites`
@@ -39,7 +62,7 @@ export const FavoriteButton: React.FC<FavoriteButtonProps> = ({
     onToggle(e);
   };
 
-  return (
+  const heart = (
     <button
       type="button"
       onClick={handleClick}
@@ -54,4 +77,159 @@ export const FavoriteButton: React.FC<FavoriteButtonProps> = ({
       />
     </button>
   );
+
+  if (!collections || !onToggleCollection) {
+    return heart;
+  }
+
+  return (
+    <div className={styles.favoriteButton__group}>
+      {heart}
+      <CollectionMenu
+        collections={collections}
+        onToggleCollection={onToggleCollection}
+        characterName={characterName || "character"}
+        {...(onCreateCollection ? { onCreateCollection } : {})}
+      />
+    </div>
+  );
+};
+
+/**
+ * Dropdown listing collections as checkboxes, plus a "new collection" form.
+ * Closes on Escape and on clicks outside.
+ */
+const CollectionMenu: React.FC<
+  CollectionMenuProps & { characterName: string }
+> = ({
+  collections,
+  onToggleCollection,
+  onCreateCollection,
+  characterName,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const containerRef = useRef<HTMLDivElement>(null);
+  const toggleRef = useRef<HTMLButtonElement>(null);
+  const menuId = useId();
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        setIsOpen(false);
+        toggleRef.current?.focus();
+      }
+    };
+
+    document.addEventListener("mousedown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("mousedown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (name && onCreateCollection) {
+      onCreateCollection(name);
+      setNewName("");
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={styles.favoriteButton__menuContainer}>
+      <button
+        ref={toggleRef}
+        type="button"
+        className={styles.favoriteButton__menuToggle}
+        onClick={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          setIsOpen((open) => !open);
+        }}
+        aria-label={`Add ${characterName} to a collection`}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? menuId : undefined}
+        data-testid="collection-menu-toggle"
+      >
+        <span aria-hidden="true">▾</span>
+      </button>
+
+      {isOpen && (
+        <div id={menuId} className={styles.favoriteButton__menu}>
+          <ul
+            role="menu"
+            aria-label="Collections"
+            className={styles.favoriteButton__menuList}
+          >
+            {collections.map((collection) => (
+              <li key={collection.id} role="none">
+                <button
+                  type="button"
+                  role="menuitemcheckbox"
+                  aria-checked={collection.selected}
+                  className={styles.favoriteButton__menuItem}
+                  onClick={() =>
+                    onToggleCollection(collection.id, !collection.selected)
+                  }
+                >
+                  <span
+                    aria-hidden="true"
+                    className={styles.favoriteButton__check}
+                  >
+                    {collection.selected ? "✓" : ""}
+                  </span>
+                  {collection.name}
+                </button>
+              </li>
+            ))}
+          </ul>
+          {collections.length === 0 && (
+            <p className={styles.favoriteButton__menuEmpty}>
+              No collections yet
+            </p>
+          )}
+          {onCreateCollection && (
+            <form
+              className={styles.favoriteButton__menuForm}
+              onSubmit={handleCreate}
+            >
+              <label
+                htmlFor={`${menuId}-name`}
+                className={styles.favoriteButton__srOnly}
+              >
+                New collection name
+              </label>
+              <input
+                id={`${menuId}-name`}
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="New collection"
+                maxLength={60}
+                className={styles.favoriteButton__menuInput}
+              />
+              <button
+                type="submit"
+                className={styles.favoriteButton__menuCreate}
+                disabled={newName.trim() === ""}
+              >
+                Create
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
 };
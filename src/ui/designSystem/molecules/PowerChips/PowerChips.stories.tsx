@@ -0,0 +1,49 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import { BrowserRouter } from "react-router-dom";
+import { PowerChips } from "./PowerChips";
+
+/**
+ * PowerChips Component
+ *
+ * Titled list of chips linking to browse-by-power pages.
+ *
+ * ## Features
+ * - Each power links to its page (`/powers/:id`)
+ * - Wraps onto several lines for characters with many powers
+ * - Renders nothing without powers
+ *
+ * ## Usage
+ * Shows a character's powers on the detail page, below the teams.
+ */
+const meta: Meta<typeof PowerChips> = {
+  title: "Design System/Molecules/PowerChips",
+  component: PowerChips,
+  tags: ["autodocs"],
+  decorators: [
+    (Story) => (
+      <BrowserRouter>
+        <Story />
+      </BrowserRouter>
+    ),
+  ],
+};
+
+export default meta;
+type Story = StoryObj<typeof PowerChips>;
+
+export const Default: Story = {
+  args: {
+    powers: [
+      { id: 1135, name: "Telepathy" },
+      { id: 3, name: "Flight" },
+      { id: 7, name: "Super Strength" },
+      { id: 24, name: "Agility" },
+    ],
+  },
+};
+
+export const SinglePower: Story = {
+  args: {
+    powers: [{ id: 1135, name: "Telepathy" }],
+  },
+};
@@ -0,0 +1,41 @@
+/**
+ * PowerChips Tests
+ *
+ * Tests the power chips and the empty state.
+ */
+
+import { render, screen } from "@testing-library/react";
+import { MemoryRouter } from "react-router-dom";
+import { PowerChips } from "./PowerChips";
+
+describe("PowerChips", () => {
+  it("should link each power to its page", () => {
+    render(
+      <MemoryRouter>
+        <PowerChips
+          powers={[
+            { id: 1135, name: "Telepathy" },
+            { id: 3, name: "Flight" },
+          ]}
+        />
+      </MemoryRouter>,
+    );
+
+    expect(screen.getByRole("region", { name: "Powers" })).toBeInTheDocument();
+    expect(screen.getByRole("link", { name: "Telepathy" })).toHaveAttribute(
+      "href",
+      "/powers/1135",
+    );
+    expect(screen.getAllByRole("listitem")).toHaveLength(2);
+  });
+
+  it("should render nothing without powers", () => {
+    const { container } = render(
+      <MemoryRouter>
+        <PowerChips powers={[]} />
+      </MemoryRouter>,
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
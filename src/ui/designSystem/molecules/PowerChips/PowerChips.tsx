@@ -0,0 +1,59 @@
+import React, { useId } from "react";
+import { Link } from "react-router-dom";
+import { routes } from "@ui/routes/routes";
+import styles from "./PowerChips.module.scss";
+
+/**
+ * A power to link to
+ */
+export interface PowerLink {
+  id: number;
+  name: string;
+}
+
+interface PowerChipsProps {
+  powers: PowerLink[];
+}
+
+/**
+ * PowerChips Component
+ *
+ * "Powers" section listing a character's powers as chips, each linking to
+ * the page of Marvel characters with that power.
+ *
+ * Features:
+ * - Wrapping list of power chips
+ * - Renders nothing when there are no powers
+ *
+ * @example
+ * ```tsx
+ * <PowerChips powers={[{ id: 1135, name: 'Telepathy' }]} />
+ * ```
+ */
+export const PowerChips: React.FC<PowerChipsProps> = ({ powers }) => {
+  const headingId = useId();
+
+  if (powers.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className={styles.powerChips} aria-labelledby={headingId}>
+      <h2 id={headingId} className={styles.powerChips__title}>
+        Powers
+      </h2>
+      <ul className={styles.powerChips__list}>
+        {powers.map((power) => (
+          <li key={power.id}>
+            <Link
+              to={routes.powerDetail(power.id)}
+              className={styles.powerChips__chip}
+            >
+              {power.name}
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
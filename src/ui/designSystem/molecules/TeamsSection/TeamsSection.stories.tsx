@@ -0,0 +1,48 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import { BrowserRouter } from "react-router-dom";
+import { TeamsSection } from "./TeamsSection";
+
+/**
+ * TeamsSection Component
+ *
+ * Titled list of links to team pages.
+ *
+ * ## Features
+ * - Each team links to its page (`/team/:id`)
+ * - Wraps onto several lines for characters on many teams
+ * - Renders nothing without teams
+ *
+ * ## Usage
+ * Shows the teams a character belongs to on the detail page, below the profile.
+ */
+const meta: Meta<typeof TeamsSection> = {
+  title: "Design System/Molecules/TeamsSection",
+  component: TeamsSection,
+  tags: ["autodocs"],
+  decorators: [
+    (Story) => (
+      <BrowserRouter>
+        <Story />
+      </BrowserRouter>
+    ),
+  ],
+};
+
+export default meta;
+type Story = StoryObj<typeof TeamsSection>;
+
+export const Default: Story = {
+  args: {
+    teams: [
+      { id: 3806, name: "Avengers" },
+      { id: 4149, name: "Defenders" },
+      { id: 35318, name: "New Avengers" },
+    ],
+  },
+};
+
+export const SingleTeam: Story = {
+  args: {
+    teams: [{ id: 3806, name: "Avengers" }],
+  },
+};
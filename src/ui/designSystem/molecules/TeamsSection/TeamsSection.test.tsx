@@ -0,0 +1,41 @@
+/**
+ * TeamsSection Tests
+ *
+ * Tests the team links and the empty state.
+ */
+
+import { render, screen } from "@testing-library/react";
+import { MemoryRouter } from "react-router-dom";
+import { TeamsSection } from "./TeamsSection";
+
+describe("TeamsSection", () => {
+  it("should link each team to its page", () => {
+    render(
+      <MemoryRouter>
+        <TeamsSection
+          teams={[
+            { id: 3806, name: "Avengers" },
+            { id: 5426, name: "Fantastic Four" },
+          ]}
+        />
+      </MemoryRouter>,
+    );
+
+    expect(screen.getByRole("region", { name: "Teams" })).toBeInTheDocument();
+    expect(screen.getByRole("link", { name: "Avengers" })).toHaveAttribute(
+      "href",
+      "/team/3806",
+    );
+    expect(screen.getAllByRole("listitem")).toHaveLength(2);
+  });
+
+  it("should render nothing without teams", () => {
+    const { container } = render(
+      <MemoryRouter>
+        <TeamsSection teams={[]} />
+      </MemoryRouter>,
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,59 @@
+import React, { useId } from "react";
+import { Link } from "react-router-dom";
+import { routes } from "@ui/routes/routes";
+import styles from "./TeamsSection.module.scss";
+
+/**
+ * A team to link to
+ */
+export interface TeamLink {
+  id: number;
+  name: string;
+}
+
+interface TeamsSectionProps {
+  teams: TeamLink[];
+}
+
+/**
+ * TeamsSection Component
+ *
+ * "Teams" section listing the teams a character belongs to, each linking to
+ * the team's page.
+ *
+ * Features:
+ * - Wrapping list of team links
+ * - Renders nothing when there are no teams
+ *
+ * @example
+ * ```tsx
+ * <TeamsSection teams={[{ id: 3806, name: 'Avengers' }]} />
+ * ```
+ */
+export const TeamsSection: React.FC<TeamsSectionProps> = ({ teams }) => {
+  const headingId = useId();
+
+  if (teams.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className={styles.teamsSection} aria-labelledby={headingId}>
+      <h2 id={headingId} className={styles.teamsSection__title}>
+        Teams
+      </h2>
+      <ul className={styles.teamsSection__list}>
+        {teams.map((team) => (
+          <li key={team.id}>
+            <Link
+              to={routes.teamDetail(team.id)}
+              className={styles.teamsSection__link}
+            >
+              {team.name}
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
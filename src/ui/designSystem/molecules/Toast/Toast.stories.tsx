@@ -0,0 +1,74 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import { Toast, ToastViewport } from "./Toast";
+
+/**
+ * Toast Component
+ *
+ * Short notification shown at the bottom of the screen.
+ *
+ * ## Features
+ * - Info, success, warning and error variants
+ * - Optional action button (e.g. "Undo")
+ * - Auto-dismiss, paused while hovered or focused
+ * - Announced through the ToastViewport live region
+ *
+ * ## Usage
+ * Shown through `useToast()` from ToastProvider, which queues toasts.
+ */
+const meta: Meta<typeof Toast> = {
+  title: "Design System/Molecules/Toast",
+  component: Toast,
+  tags: ["autodocs"],
+  decorators: [
+    (Story) => (
+      <ToastViewport>
+        <Story />
+      </ToastViewport>
+    ),
+  ],
+  argTypes: {
+    variant: {
+      control: "select",
+      options: ["info", "success", "warning", "error"],
+      description: "Accent color and ARIA role",
+    },
+    duration: {
+      control: { type: "number", min: 1000 },
+      description: "Auto-dismiss delay in ms",
+    },
+  },
+  args: {
+    duration: 600000,
+    onDismiss: () => {},
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof Toast>;
+
+export const Info: Story = {
+  args: {
+    message: "You're offline. Favorites still work.",
+  },
+};
+
+export const WithAction: Story = {
+  args: {
+    message: "Removed Spider-Man",
+    action: { label: "Undo", onAction: () => {} },
+  },
+};
+
+export const Warning: Story = {
+  args: {
+    message: "API request limit reached. Requests will resume at 14:05.",
+    variant: "warning",
+  },
+};
+
+export const ErrorMessage: Story = {
+  args: {
+    message: "Your favorites could not be saved.",
+    variant: "error",
+  },
+};
@@ -0,0 +1,100 @@
+/**
+ * Toast Tests
+ *
+ * Tests toast rendering, the action button, auto-dismiss and its pause
+ * while hovered or focused.
+ */
+
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import { Toast, ToastViewport } from "./Toast";
+
+describe("Toast", () => {
+  const onDismiss = jest.fn();
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    onDismiss.mockClear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should render the message inside a polite live region", () => {
+    render(
+      <ToastViewport>
+        <Toast
+          message="Removed Spider-Man"
+          duration={5000}
+          onDismiss={onDismiss}
+        />
+      </ToastViewport>,
+    );
+
+    expect(
+      screen.getByText("Removed Spider-Man").closest("[aria-live]"),
+    ).toHaveAttribute("aria-live", "polite");
+  });
+
+  it("should use the alert role for errors", () => {
+    render(
+      <Toast
+        message="Could not save"
+        variant="error"
+        duration={5000}
+        onDismiss={onDismiss}
+      />,
+    );
+
+    expect(screen.getByRole("alert")).toHaveTextContent("Could not save");
+  });
+
+  it("should run the action and close", () => {
+    const onAction = jest.fn();
+    render(
+      <Toast
+        message="Removed Spider-Man"
+        action={{ label: "Undo", onAction }}
+        duration={5000}
+        onDismiss={onDismiss}
+      />,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Undo" }));
+
+    expect(onAction).toHaveBeenCalled();
+    expect(onDismiss).toHaveBeenCalled();
+  });
+
+  it("should close with the close button", () => {
+    render(<Toast message="Hello" duration={5000} onDismiss={onDismiss} />);
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "Dismiss notification" }),
+    );
+
+    expect(onDismiss).toHaveBeenCalled();
+  });
+
+  it("should close automatically after its duration", () => {
+    render(<Toast message="Hello" duration={5000} onDismiss={onDismiss} />);
+
+    act(() => jest.advanceTimersByTime(4999));
+    expect(onDismiss).not.toHaveBeenCalled();
+
+    act(() => jest.advanceTimersByTime(1));
+    expect(onDismiss).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not close while hovered", () => {
+    render(<Toast message="Hello" duration={5000} onDismiss={onDismiss} />);
+
+    fireEvent.mouseEnter(screen.getByTestId("toast"));
+    act(() => jest.advanceTimersByTime(10000));
+    expect(onDismiss).not.toHaveBeenCalled();
+
+    fireEvent.mouseLeave(screen.getByTestId("toast"));
+    act(() => jest.advanceTimersByTime(5000));
+    expect(onDismiss).toHaveBeenCalled();
+  });
+});
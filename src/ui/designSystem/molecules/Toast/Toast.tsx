@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from "react";
+import styles from "./Toast.module.scss";
+
+export type ToastVariant = "info" | "success" | "warning" | "error";
+
+export interface ToastAction {
+  label: string;
+  onAction: () => void;
+}
+
+export interface ToastProps {
+  message: string;
+  variant?: ToastVariant;
+  /** Optional action button (e.g. "Undo"); the toast closes after it runs */
+  action?: ToastAction;
+  /** Auto-dismiss delay in ms (paused while hovered or focused) */
+  duration: number;
+  onDismiss: () => void;
+}
+
+/**
+ * Toast Component
+ *
+ * Short notification with an optional action, closed automatically after
+ * `duration` or with its close button.
+ *
+ * Accessibility:
+ * - Errors use `role="alert"` (announced immediately), others are announced
+ *   politely by the surrounding ToastViewport live region
+ * - The timer pauses while the toast is hovered or has focus, so there's
+ *   time to reach the action button
+ */
+export const Toast: React.FC<ToastProps> = ({
+  message,
+  variant = "info",
+  action,
+  duration,
+  onDismiss,
+}) => {
+  const [isPaused, setIsPaused] = useState(false);
+
+  useEffect(() => {
+    if (isPaused) return;
+
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [isPaused, duration, onDismiss]);
+
+  const handleAction = () => {
+    action?.onAction();
+    onDismiss();
+  };
+
+  return (
+    <div
+      className={`${styles.toast} ${styles[`toast--${variant}`]}`}
+      role={variant === "error" ? "alert" : undefined}
+      data-testid="toast"
+      onMouseEnter={() => setIsPaused(true)}
+      onMouseLeave={() => setIsPaused(false)}
+      onFocus={() => setIsPaused(true)}
+      onBlur={() => setIsPaused(false)}
+    >
+      <p className={styles.toast__message}>{message}</p>
+      {action && (
+        <button
+          type="button"
+          className={styles.toast__action}
+          onClick={handleAction}
+        >
+          {action.label}
+        </button>
+      )}
+      <button
+        type="button"
+        className={styles.toast__close}
+        onClick={onDismiss}
+        aria-label="Dismiss notification"
+      >
+        ×
+      </button>
+    </div>
+  );
+};
+
+export interface ToastViewportProps {
+  children: React.ReactNode;
+}
+
+/**
+ * ToastViewport Component
+ *
+ * Fixed stack of toasts, rendered as a polite ARIA live region that is
+ * always mounted (so toasts added later are announced).
+ */
+export const ToastViewport: React.FC<ToastViewportProps> = ({ children }) => (
+  <section className={styles.toastViewport} aria-label="Notifications">
+    <div
+      className={styles.toastViewport__list}
+      aria-live="polite"
+      aria-relevant="additions text"
+    >
+      {children}
+    </div>
+  </section>
+);
@@ -1,3 +1,5 @@
 export { useDebouncedValue } from "./useDebouncedValue";
 export { useAdaptiveLineClamp } from "./useAdaptiveLineClamp";
 export { useSEO, type SEOConfig } from "./useSEO";
+export { useApiQuota, type ApiQuota } from "./useApiQuota";
+export { useSystemNotifications } from "./useSystemNotifications";
@@ -0,0 +1,66 @@
+import { useEffect, useMemo, useState } from "react";
+import { useServices } from "@ui/state";
+import type { ResourceQuota } from "@infrastructure/http/RateLimiter";
+
+/** How often to re-read quotas so expired requests leave the window */
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+export interface ApiQuota {
+  /** Quota per Comic Vine resource */
+  quotas: ResourceQuota[];
+  /** Remaining requests for the most constrained resource */
+  remaining: number;
+  /** Requests allowed per resource per window */
+  limit: number;
+  /** When the most constrained resource regains quota (ms since epoch) */
+  resetAt: number | null;
+}
+
+/**
+ * Tracks Comic Vine API quota for display (e.g. a quota meter)
+ *
+ * Updates when requests are made in this or any other tab,
+ * and every minute as old requests slide out of the hourly window.
+ *
+ * @returns Quota per resource plus a summary of the most constrained one
+ *
+ * @example
+ * ```tsx
+ * const { remaining, limit, resetAt } = useApiQuota();
+ * return <span>{remaining}/{limit} requests left</span>;
+ * ```
+ */
+export function useApiQuota(): ApiQuota {
+  const { apiClient } = useServices();
+  const [quotas, setQuotas] = useState<ResourceQuota[]>(() =>
+    apiClient.getQuotas(),
+  );
+
+  useEffect(() => {
+    const refresh = () => setQuotas(apiClient.getQuotas());
+    const unsubscribe = apiClient.onQuotaChange(refresh);
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+
+    refresh();
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [apiClient]);
+
+  return useMemo(() => {
+    const mostConstrained = quotas.reduce<ResourceQuota | undefined>(
+      (lowest, quota) =>
+        !lowest || quota.remaining < lowest.remaining ? quota : lowest,
+      undefined,
+    );
+
+    return {
+      quotas,
+      remaining: mostConstrained?.remaining ?? 0,
+      limit: mostConstrained?.limit ?? 0,
+      resetAt: mostConstrained?.resetAt ?? null,
+    };
+  }, [quotas]);
+}
@@ -0,0 +1,92 @@
+/**
+ * useSystemNotifications Tests
+ *
+ * Tests toasts for rate limit warnings and offline/online transitions.
+ */
+
+import { act, render, screen } from "@testing-library/react";
+import { useSystemNotifications } from "./useSystemNotifications";
+import { ToastProvider } from "@ui/state/ToastContext";
+import type { RateLimitWarning } from "@infrastructure/http/ComicVineApiClient";
+
+let emitRateLimitWarning: (warning: RateLimitWarning) => void = () => {};
+const mockUnsubscribe = jest.fn();
+
+jest.mock("@ui/state/DependenciesContext", () => ({
+  useServices: () => ({
+    apiClient: {
+      onRateLimitWarning: (listener: (warning: RateLimitWarning) => void) => {
+        emitRateLimitWarning = listener;
+        return mockUnsubscribe;
+      },
+    },
+  }),
+}));
+
+describe("useSystemNotifications", () => {
+  const Notifications = () => {
+    useSystemNotifications();
+    return null;
+  };
+
+  const renderHookWithToasts = () =>
+    render(
+      <ToastProvider>
+        <Notifications />
+      </ToastProvider>,
+    );
+
+  it("should warn when requests are queued for quota", () => {
+    renderHookWithToasts();
+
+    const retryAt = new Date(2024, 0, 1, 14, 5);
+
+    act(() =>
+      emitRateLimitWarning({ reason: "queued", retryAt: retryAt.getTime() }),
+    );
+
+    expect(screen.getByTestId("toast")).toHaveTextContent(
+      `API request limit reached for this hour. Requests will resume at ${retryAt.toLocaleTimeString(
+        [],
+        { hour: "2-digit", minute: "2-digit" },
+      )}.`,
+    );
+  });
+
+  it("should warn when Comic Vine rejects requests, once", () => {
+    renderHookWithToasts();
+
+    act(() => {
+      emitRateLimitWarning({ reason: "rejected", retryAt: null });
+      emitRateLimitWarning({ reason: "rejected", retryAt: null });
+    });
+
+    expect(screen.getAllByTestId("toast")).toHaveLength(1);
+    expect(screen.getByTestId("toast")).toHaveTextContent(
+      "Comic Vine is limiting requests.",
+    );
+  });
+
+  it("should report going offline and coming back online", () => {
+    renderHookWithToasts();
+
+    act(() => {
+      window.dispatchEvent(new Event("offline"));
+    });
+    expect(screen.getByTestId("toast")).toHaveTextContent("You're offline.");
+
+    act(() => {
+      window.dispatchEvent(new Event("online"));
+    });
+    expect(screen.getAllByTestId("toast")).toHaveLength(1);
+    expect(screen.getByTestId("toast")).toHaveTextContent("Back online.");
+  });
+
+  it("should unsubscribe on unmount", () => {
+    const { unmount } = renderHookWithToasts();
+
+    unmount();
+
+    expect(mockUnsubscribe).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+import { useEffect } from "react";
+import { useServices, useToast } from "@ui/state";
+import type { RateLimitWarning } from "@infrastructure/http/ComicVineApiClient";
+
+function rateLimitMessage({ reason, retryAt }: RateLimitWarning): string {
+  if (reason === "rejected") {
+    return "Comic Vine is limiting requests. Please wait a moment before trying again.";
+  }
+
+  const resume = retryAt
+    ? ` Requests will resume at ${new Date(retryAt).toLocaleTimeString([], {
+        hour: "2-digit",
+        minute: "2-digit",
+      })}.`
+    : "";
+  return `API request limit reached for this hour.${resume}`;
+}
+
+/**
+ * Shows toasts for app-wide events the user should know about
+ *
+ * - Rate limiting: requests queued for quota, or rejected by Comic Vine
+ * - Connectivity: going offline and coming back online
+ *
+ * Repeated events replace their previous toast instead of stacking.
+ *
+ * @example
+ * ```typescript
+ * // Mounted once near the root, inside DependenciesProvider and ToastProvider
+ * useSystemNotifications();
+ * ```
+ */
+export function useSystemNotifications(): void {
+  const { apiClient } = useServices();
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    return apiClient.onRateLimitWarning((warning) => {
+      showToast({
+        key: "rate-limit",
+        variant: "warning",
+        message: rateLimitMessage(warning),
+      });
+    });
+  }, [apiClient, showToast]);
+
+  useEffect(() => {
+    const handleOffline = () =>
+      showToast({
+        key: "connectivity",
+        variant: "warning",
+        message:
+          "You're offline. Your favorites are still available; other characters will load when you're back online.",
+      });
+    const handleOnline = () =>
+      showToast({
+        key: "connectivity",
+        variant: "success",
+        message: "Back online.",
+      });
+
+    window.addEventListener("offline", handleOffline);
+    window.addEventListener("online", handleOnline);
+    return () => {
+      window.removeEventListener("offline", handleOffline);
+      window.removeEventListener("online", handleOnline);
+    };
+  }, [showToast]);
+}
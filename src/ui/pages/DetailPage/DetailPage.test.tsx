@@ -2,10 +2,10 @@
  * DetailPage Tests
  *
  * Integration tests for character detail page with hero,
- * description, comics, and favorite functionality.
+ * description, comics, allies and enemies, and favorite functionality.
  */
 
-import { render, screen, waitFor } from "@testing-library/react";
+import { render, screen, waitFor, within } from "@testing-library/react";
 import { MemoryRouter, Route, Routes } from "react-router-dom";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { DetailPage } from "./DetailPage";
@@ -13,20 +13,30 @@ import { createTestQueryClient } from "@tests/queryTestUtils";
 import userEvent from "@testing-library/user-event";
 
 // Import types for mock data
-import { Character } from "@domain/character/entities/Character";
+import { CharacterDetail } from "@domain/character/entities/CharacterDetail";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
 import { CharacterId } from "@domain/character/valueObjects/CharacterId";
 import { CharacterName } from "@domain/character/valueObjects/CharacterName";
 import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
+import { Gender } from "@domain/character/valueObjects/Gender";
+import { TeamId } from "@domain/character/valueObjects/TeamId";
+import { TeamReference } from "@domain/character/valueObjects/TeamReference";
+import { Power } from "@domain/character/entities/Power";
+import { PowerId } from "@domain/character/valueObjects/PowerId";
 
 // Create mock character data
-const mockCharacter = new Character({
+const mockCharacter = new CharacterDetail({
   id: new CharacterId(123),
   name: new CharacterName("Spider-Man"),
   description: "Friendly neighborhood Spider-Man",
   thumbnail: new ImageUrl("https://example.com/spiderman", "jpg"),
+  realName: new CharacterName("Peter Parker"),
+  gender: new Gender("male"),
+  teams: [new TeamReference(new TeamId(3806), "Avengers")],
+  powers: [new Power({ id: new PowerId(3), name: "Wall Crawling" })],
 });
 
-const mockCharacterNoDesc = new Character({
+const mockCharacterNoDesc = new CharacterDetail({
   id: new CharacterId(456),
   name: new CharacterName("Iron Man"),
   description: "",
@@ -58,6 +68,7 @@ const mockSeoService = {
 
 // Mock React Query hooks
 const mockUseCharacterDetail = jest.fn();
+const mockUseCharacterRelationships = jest.fn();
 
 // Mock contexts and hooks
 jest.mock("@ui/state/FavoritesContext", () => ({
@@ -66,6 +77,9 @@ jest.mock("@ui/state/FavoritesContext", () => ({
 
 jest.mock("@ui/queries", () => ({
   useCharacterDetail: (id: number) => mockUseCharacterDetail(id),
+  useCharacterRelationships: (id: number, enabled: boolean) =>
+    mockUseCharacterRelationships(id, enabled),
+  useCollectionMenu: () => undefined,
 }));
 
 jest.mock("@infrastructure/logging/Logger", () => ({
@@ -113,6 +127,7 @@ describe("DetailPage", () => {
 
     // Reset use case mocks
     mockListCharacterComics.execute.mockResolvedValue([]);
+    mockUseCharacterRelationships.mockReturnValue({ data: undefined });
 
     // Reset React Query hook mocks to default success state
     mockUseCharacterDetail.mockReturnValue({
@@ -173,6 +188,130 @@ describe("DetailPage", () => {
     });
   });
 
+  describe("Profile", () => {
+    it("should render the character's profile facts", async () => {
+      renderPage();
+
+      const profile = await screen.findByRole("region", { name: "Profile" });
+      expect(profile).toHaveTextContent("Real name");
+      expect(profile).toHaveTextContent("Peter Parker");
+      expect(profile).toHaveTextContent("Male");
+    });
+
+    it("should not render the profile when no facts are known", async () => {
+      mockUseCharacterDetail.mockReturnValue({
+        data: mockCharacterNoDesc,
+        isLoading: false,
+        isFetching: false,
+        isError: false,
+        error: null,
+        refetch: jest.fn(),
+      });
+
+      renderPage("456");
+
+      await screen.findByText("Iron Man");
+      expect(
+        screen.queryByRole("region", { name: "Profile" }),
+      ).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Teams", () => {
+    it("should link to the character's teams", async () => {
+      renderPage();
+
+      const teams = await screen.findByRole("region", { name: "Teams" });
+      expect(teams).toContainElement(
+        screen.getByRole("link", { name: "Avengers" }),
+      );
+      expect(screen.getByRole("link", { name: "Avengers" })).toHaveAttribute(
+        "href",
+        "/team/3806",
+      );
+    });
+  });
+
+  describe("Powers", () => {
+    it("should link each power to its page", async () => {
+      renderPage();
+
+      const powers = await screen.findByRole("region", { name: "Powers" });
+      expect(powers).toContainElement(
+        screen.getByRole("link", { name: "Wall Crawling" }),
+      );
+      expect(
+        screen.getByRole("link", { name: "Wall Crawling" }),
+      ).toHaveAttribute("href", "/powers/3");
+    });
+  });
+
+  describe("Allies and Enemies", () => {
+    const mockAlly = new CharacterSummary({
+      id: new CharacterId(1443),
+      name: new CharacterName("Iron Man"),
+      deck: "",
+      thumbnail: new ImageUrl("https://example.com/ironman", "jpg"),
+    });
+    const mockEnemy = new CharacterSummary({
+      id: new CharacterId(1502),
+      name: new CharacterName("Green Goblin"),
+      deck: "",
+      thumbnail: new ImageUrl("https://example.com/goblin", "jpg"),
+    });
+
+    it("should request relationships once the character is loaded", () => {
+      renderPage();
+
+      expect(mockUseCharacterRelationships).toHaveBeenCalledWith(123, true);
+    });
+
+    it("should wait for the character before requesting relationships", () => {
+      mockUseCharacterDetail.mockReturnValue({
+        data: undefined,
+        isLoading: true,
+        isFetching: true,
+        isError: false,
+        error: null,
+      });
+
+      renderPage();
+
+      expect(mockUseCharacterRelationships).toHaveBeenCalledWith(123, false);
+    });
+
+    it("should show allies and enemies rails", async () => {
+      mockUseCharacterRelationships.mockReturnValue({
+        data: { allies: [mockAlly], enemies: [mockEnemy] },
+      });
+
+      renderPage();
+
+      const allies = await screen.findByRole("region", { name: "Allies" });
+      expect(allies).toHaveTextContent("Iron Man");
+      expect(screen.getByRole("region", { name: "Enemies" })).toHaveTextContent(
+        "Green Goblin",
+      );
+    });
+
+    it("should toggle a related character's favorite", async () => {
+      const user = userEvent.setup();
+      mockUseCharacterRelationships.mockReturnValue({
+        data: { allies: [mockAlly], enemies: [] },
+      });
+
+      renderPage();
+
+      const allies = await screen.findByRole("region", { name: "Allies" });
+      await user.click(within(allies).getByRole("button"));
+
+      expect(mockToggleFavorite).toHaveBeenCalledWith(1443, mockAlly);
+      expect(
+        screen.queryByRole("region", { name: "Enemies" }),
+      ).not.toBeInTheDocument();
+    });
+  });
+
   describe("Loading State", () => {
     it("should show empty content while loading", () => {
       mockUseCharacterDetail.mockReturnValue({
@@ -267,7 +406,12 @@ describe("DetailPage", () => {
       });
       await user.click(favButton);
 
-      expect(mockToggleFavorite).toHaveBeenCalledWith(123);
+      expect(mockToggleFavorite).toHaveBeenCalledWith(
+        123,
+        expect.objectContaining({
+          name: expect.objectContaining({ value: "Spider-Man" }),
+        }),
+      );
     });
   });
 
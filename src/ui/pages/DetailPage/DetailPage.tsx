@@ -3,14 +3,23 @@ import { useParams, useNavigate } from "react-router-dom";
 import { CharacterHero } from "@ui/designSystem/molecules/CharacterHero/CharacterHero";
 import { Button } from "@ui/designSystem/atoms/Button/Button";
 import { ComicsHorizontalScroll } from "@ui/designSystem/molecules/ComicsHorizontalScroll/ComicsHorizontalScroll";
+import { FactsPanel } from "@ui/designSystem/molecules/FactsPanel/FactsPanel";
+import { TeamsSection } from "@ui/designSystem/molecules/TeamsSection/TeamsSection";
+import { PowerChips } from "@ui/designSystem/molecules/PowerChips/PowerChips";
+import { CharacterRail } from "@ui/designSystem/molecules/CharacterRail/CharacterRail";
 import { SEO } from "@ui/components/SEO";
 import { useFavorites } from "@ui/state/FavoritesContext";
 import { routes } from "@ui/routes/routes";
 import { config } from "@infrastructure/config/env";
-import { useCharacterDetail } from "@ui/queries";
+import {
+  useCharacterDetail,
+  useCharacterRelationships,
+  useCollectionMenu,
+} from "@ui/queries";
 import { useUseCases } from "@ui/state";
 import { Comic } from "@domain/character/entities/Comic";
 import { logger } from "@infrastructure/logging/Logger";
+import { characterFacts } from "./characterFacts";
 import styles from "./DetailPage.module.scss";
 
 const COMICS_PAGE_SIZE = 20; // Load 20 comics at a time
@@ -18,7 +27,9 @@ const COMICS_PAGE_SIZE = 20; // Load 20 comics at a time
 /**
  * Detail Page
  *
- * Displays detailed character information and comics with pagination.
+ * Displays detailed character information, its profile facts, the teams it
+ * belongs to, its powers, comics with pagination and rails of its allies
+ * and enemies.
  * Uses React Query for character data and manual state for comics pagination.
  *
  */
@@ -45,6 +56,15 @@ export const DetailPage: React.FC = () => {
     error: characterError,
   } = useCharacterDetail(characterId);
 
+  // Allies and enemies: requested once the detail is in, not with it
+  const { data: related } = useCharacterRelationships(
+    characterId,
+    Boolean(character),
+  );
+
+  // "Add to collection" menu next to the favorite button
+  const collectionMenu = useCollectionMenu(character);
+
   // Load initial comics when character is loaded
   useEffect(() => {
     if (!character) return;
@@ -202,10 +222,31 @@ export const DetailPage: React.FC = () => {
           imageUrl={character.getThumbnailUrl()}
           characterName={character.name.value}
           isFavorite={isFavorite(character.id.value)}
-          onToggleFavorite={() => void toggleFavorite(character.id.value)}
+          onToggleFavorite={() =>
+            void toggleFavorite(character.id.value, character)
+          }
           {...(character.hasDescription() && {
             description: character.description,
           })}
+          {...(collectionMenu && { collectionMenu })}
+        />
+
+        {character.hasFacts() && (
+          <FactsPanel title="Profile" facts={characterFacts(character)} />
+        )}
+
+        <TeamsSection
+          teams={character.teams.map((team) => ({
+            id: team.id.value,
+            name: team.name,
+          }))}
+        />
+
+        <PowerChips
+          powers={character.powers.map((power) => ({
+            id: power.id.value,
+            name: power.name,
+          }))}
         />
 
         <ComicsHorizontalScroll
@@ -216,6 +257,22 @@ export const DetailPage: React.FC = () => {
           loadingMore={loadingMoreComics}
           onLoadMore={loadMoreComics}
         />
+
+        <CharacterRail
+          title="Allies"
+          characters={related?.allies ?? []}
+          isFavorite={isFavorite}
+          onToggleFavorite={(ally) => void toggleFavorite(ally.id.value, ally)}
+        />
+
+        <CharacterRail
+          title="Enemies"
+          characters={related?.enemies ?? []}
+          isFavorite={isFavorite}
+          onToggleFavorite={(enemy) =>
+            void toggleFavorite(enemy.id.value, enemy)
+          }
+        />
       </div>
     </>
   );
@@ -0,0 +1,67 @@
+/**
+ * characterFacts Tests
+ *
+ * Tests which profile facts are listed and how they are formatted.
+ */
+
+import { characterFacts } from "./characterFacts";
+import { CharacterDetail } from "@domain/character/entities/CharacterDetail";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
+import { Aliases } from "@domain/character/valueObjects/Aliases";
+import { Gender } from "@domain/character/valueObjects/Gender";
+import { Origin } from "@domain/character/valueObjects/Origin";
+import { BirthDate } from "@domain/character/valueObjects/BirthDate";
+import { FirstAppearance } from "@domain/character/valueObjects/FirstAppearance";
+
+describe("characterFacts", () => {
+  const baseProps = {
+    id: new CharacterId(1443),
+    name: new CharacterName("Spider-Man"),
+    description: "",
+    thumbnail: new ImageUrl("https://example.com/spiderman", "jpg"),
+  };
+
+  it("should list every known fact in order", () => {
+    const profile = new CharacterDetail({
+      ...baseProps,
+      realName: new CharacterName("Peter Parker"),
+      aliases: new Aliases(["Spidey", "Web-Slinger"]),
+      gender: new Gender("male"),
+      origin: new Origin(4, "Human"),
+      birth: new BirthDate("1962-08-10"),
+      firstAppearance: new FirstAppearance({
+        issueId: 6686,
+        issueName: "Spider-Man!",
+        issueNumber: "15",
+      }),
+      issueAppearances: 8932,
+    });
+
+    expect(characterFacts(profile)).toEqual([
+      { label: "Real name", value: "Peter Parker" },
+      { label: "Aliases", value: "Spidey, Web-Slinger" },
+      { label: "Gender", value: "Male" },
+      { label: "Origin", value: "Human" },
+      { label: "Born", value: "August 10, 1962" },
+      { label: "First appearance", value: "#15 · Spider-Man!" },
+      { label: "Issue appearances", value: "8,932" },
+    ]);
+  });
+
+  it("should leave out unknown facts", () => {
+    const profile = new CharacterDetail({
+      ...baseProps,
+      issueAppearances: 0,
+    });
+
+    expect(characterFacts(profile)).toEqual([
+      { label: "Issue appearances", value: "0" },
+    ]);
+  });
+
+  it("should be empty without facts", () => {
+    expect(characterFacts(new CharacterDetail(baseProps))).toEqual([]);
+  });
+});
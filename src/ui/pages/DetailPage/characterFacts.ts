@@ -0,0 +1,48 @@
+import { CharacterDetail } from "@domain/character/entities/CharacterDetail";
+import type { Fact } from "@ui/designSystem/molecules/FactsPanel/FactsPanel";
+
+/**
+ * Build the facts panel rows for a character's profile
+ *
+ * Unknown facts are left out, so a character with no profile data
+ * yields an empty list.
+ *
+ * @example
+ * ```typescript
+ * characterFacts(character);
+ * // [{ label: 'Real name', value: 'Peter Parker' }, ...]
+ * ```
+ */
+export function characterFacts(character: CharacterDetail): Fact[] {
+  const facts: Fact[] = [];
+
+  if (character.realName) {
+    facts.push({ label: "Real name", value: character.realName.value });
+  }
+  if (!character.aliases.isEmpty()) {
+    facts.push({ label: "Aliases", value: character.aliases.toString() });
+  }
+  if (character.gender) {
+    facts.push({ label: "Gender", value: character.gender.toDisplayString() });
+  }
+  if (character.origin) {
+    facts.push({ label: "Origin", value: character.origin.name });
+  }
+  if (character.birth) {
+    facts.push({ label: "Born", value: character.birth.toDisplayString() });
+  }
+  if (character.firstAppearance) {
+    facts.push({
+      label: "First appearance",
+      value: character.firstAppearance.toDisplayString(),
+    });
+  }
+  if (character.issueAppearances !== null) {
+    facts.push({
+      label: "Issue appearances",
+      value: character.issueAppearances.toLocaleString("en-US"),
+    });
+  }
+
+  return facts;
+}
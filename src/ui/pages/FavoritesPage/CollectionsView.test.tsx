@@ -0,0 +1,164 @@
+/**
+ * CollectionsView Tests
+ *
+ * Tests for the favorites page "Collections" tab: creating and deleting
+ * collections, and editing or removing entries.
+ */
+
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { CollectionsView } from "./CollectionsView";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { FavoriteCollection } from "@domain/character/entities/FavoriteCollection";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
+
+const mockUseCollections = jest.fn();
+const mockActions = {
+  create: jest.fn(),
+  remove: jest.fn(),
+  addCharacter: jest.fn(),
+  removeCharacter: jest.fn(),
+  updateEntry: jest.fn(),
+};
+
+jest.mock("@ui/queries", () => ({
+  useCollections: () => mockUseCollections(),
+  useCollectionActions: () => mockActions,
+}));
+
+jest.mock("@ui/state/FavoritesContext", () => ({
+  useFavorites: () => ({
+    isFavorite: () => true,
+    toggleFavorite: jest.fn(),
+  }),
+}));
+
+jest.mock("@infrastructure/logging/Logger");
+
+jest.mock("@ui/designSystem/molecules/CharacterCard/CharacterCard", () => ({
+  CharacterCard: ({ name }: { name: string }) => (
+    <div data-testid="character-card">{name}</div>
+  ),
+}));
+
+describe("CollectionsView", () => {
+  const ironMan = new CharacterSummary({
+    id: new CharacterId(1009368),
+    name: new CharacterName("Iron Man"),
+    deck: "Genius billionaire",
+    thumbnail: new ImageUrl("http://example.com/ironman", "jpg"),
+  });
+
+  const avengers = new FavoriteCollection({
+    id: "c_1",
+    name: "Avengers roster",
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  })
+    .withCharacter(ironMan.id)
+    .withCharacter(new CharacterId(1009610)) // Not in the loaded favorites
+    .withEntryDetails(ironMan.id, { note: "Genius", tags: ["founding"] });
+
+  const renderView = () => render(<CollectionsView characters={[ironMan]} />);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUseCollections.mockReturnValue({ data: [avengers], isLoading: false });
+    Object.values(mockActions).forEach((action) =>
+      action.mockResolvedValue(undefined),
+    );
+  });
+
+  it("renders each collection with its loaded characters", () => {
+    renderView();
+
+    expect(
+      screen.getByRole("heading", { name: "Avengers roster" }),
+    ).toBeInTheDocument();
+    expect(screen.getByText("2 CHARACTERS")).toBeInTheDocument();
+    expect(screen.getAllByTestId("character-card")).toHaveLength(1);
+    expect(screen.getByLabelText("Note for Iron Man")).toHaveValue("Genius");
+    expect(screen.getByLabelText("Tags for Iron Man")).toHaveValue("founding");
+  });
+
+  it("shows an empty state without collections", () => {
+    mockUseCollections.mockReturnValue({ data: [], isLoading: false });
+
+    renderView();
+
+    expect(screen.getByText("No Collections Yet")).toBeInTheDocument();
+  });
+
+  it("creates a collection", async () => {
+    const user = userEvent.setup();
+    renderView();
+
+    await user.type(screen.getByLabelText("New collection name"), "Defenders");
+    await user.click(screen.getByRole("button", { name: "Create" }));
+
+    expect(mockActions.create).toHaveBeenCalledWith("Defenders");
+    await waitFor(() =>
+      expect(screen.getByLabelText("New collection name")).toHaveValue(""),
+    );
+  });
+
+  it("shows the error when creating fails", async () => {
+    const user = userEvent.setup();
+    mockActions.create.mockRejectedValue(
+      new Error('A collection named "Avengers roster" already exists'),
+    );
+    renderView();
+
+    await user.type(
+      screen.getByLabelText("New collection name"),
+      "Avengers roster",
+    );
+    await user.click(screen.getByRole("button", { name: "Create" }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      'A collection named "Avengers roster" already exists',
+    );
+  });
+
+  it("deletes a collection", async () => {
+    const user = userEvent.setup();
+    renderView();
+
+    await user.click(
+      screen.getByRole("button", { name: "Delete collection Avengers roster" }),
+    );
+
+    expect(mockActions.remove).toHaveBeenCalledWith("c_1");
+  });
+
+  it("saves an entry's note and comma-separated tags", async () => {
+    const user = userEvent.setup();
+    renderView();
+
+    const save = screen.getByRole("button", { name: "Save" });
+    expect(save).toBeDisabled();
+
+    await user.clear(screen.getByLabelText("Note for Iron Man"));
+    await user.type(screen.getByLabelText("Note for Iron Man"), "Leader");
+    await user.type(screen.getByLabelText("Tags for Iron Man"), ", tech");
+    await user.click(save);
+
+    expect(mockActions.updateEntry).toHaveBeenCalledWith("c_1", 1009368, {
+      note: "Leader",
+      tags: ["founding", " tech"],
+    });
+  });
+
+  it("removes a character from the collection", async () => {
+    const user = userEvent.setup();
+    renderView();
+
+    await user.click(
+      screen.getByRole("button", { name: "Remove Iron Man from collection" }),
+    );
+
+    expect(mockActions.removeCharacter).toHaveBeenCalledWith("c_1", 1009368);
+    expect(mockActions.updateEntry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,276 @@
+import React, { useEffect, useId, useMemo, useState } from "react";
+import { Button } from "@ui/designSystem/atoms/Button/Button";
+import { CharacterCard } from "@ui/designSystem/molecules/CharacterCard/CharacterCard";
+import { useFavorites } from "@ui/state/FavoritesContext";
+import { useCollectionActions, useCollections } from "@ui/queries";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import {
+  CollectionEntry,
+  FavoriteCollection,
+} from "@domain/character/entities/FavoriteCollection";
+import { logger } from "@infrastructure/logging/Logger";
+import styles from "./CollectionsView.module.scss";
+
+interface CollectionsViewProps {
+  characters: CharacterSummary[]; // Loaded favorite characters, used to render entries
+}
+
+/**
+ * Error message to show for a failed collection action
+ */
+function toMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Something went wrong";
+}
+
+/**
+ * Collections View
+ *
+ * "Collections" tab of the favorites page: named groups of characters, each
+ * entry with a note and tags.
+ *
+ * Features:
+ * - Create and delete collections
+ * - Edit the note and tags of each entry, or remove it from the collection
+ * - Entries render from the favorites list data (characters added from the
+ *   detail page's collection menu are favorited too)
+ */
+export const CollectionsView: React.FC<CollectionsViewProps> = ({
+  characters,
+}) => {
+  const { data: collections = [], isLoading } = useCollections();
+  const actions = useCollectionActions();
+  const [newName, setNewName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const inputId = useId();
+
+  const charactersById = useMemo(
+    () =>
+      new Map(characters.map((character) => [character.id.value, character])),
+    [characters],
+  );
+
+  const run = async (action: () => Promise<unknown>, context: string) => {
+    try {
+      setError(null);
+      await action();
+      return true;
+    } catch (err) {
+      logger.error(context, err);
+      setError(toMessage(err));
+      return false;
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await run(
+      () => actions.create(newName),
+      "Failed to create collection",
+    );
+    if (created) {
+      setNewName("");
+    }
+  };
+
+  return (
+    <div className={styles.collectionsView}>
+      <form className={styles.collectionsView__create} onSubmit={handleCreate}>
+        <label htmlFor={inputId} className={styles.collectionsView__srOnly}>
+          New collection name
+        </label>
+        <input
+          id={inputId}
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="NEW COLLECTION NAME..."
+          maxLength={FavoriteCollection.MAX_NAME_LENGTH}
+          className={styles.collectionsView__input}
+        />
+        <Button type="submit" size="sm" disabled={newName.trim() === ""}>
+          Create
+        </Button>
+      </form>
+
+      {error && (
+        <p role="alert" className={styles.collectionsView__error}>
+          {error}
+        </p>
+      )}
+
+      {!isLoading && collections.length === 0 && (
+        <div className={styles.collectionsView__emptyState}>
+          <h2 className={styles.collectionsView__heading}>
+            No Collections Yet
+          </h2>
+          <p className={styles.collectionsView__message}>
+            Create a collection, then add characters from their page.
+          </p>
+        </div>
+      )}
+
+      {collections.map((collection) => (
+        <section
+          key={collection.id}
+          className={styles.collectionsView__collection}
+          aria-labelledby={`collection-${collection.id}`}
+        >
+          <header className={styles.collectionsView__header}>
+            <h2
+              id={`collection-${collection.id}`}
+              className={styles.collectionsView__name}
+            >
+              {collection.name}
+            </h2>
+            <span className={styles.collectionsView__count}>
+              {collection.size}{" "}
+              {collection.size === 1 ? "CHARACTER" : "CHARACTERS"}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                void run(
+                  () => actions.remove(collection.id),
+                  "Failed to delete collection",
+                )
+              }
+              aria-label={`Delete collection ${collection.name}`}
+            >
+              Delete
+            </Button>
+          </header>
+
+          <ul className={styles.collectionsView__entries}>
+            {collection.entries.map((entry) => {
+              const character = charactersById.get(entry.characterId.value);
+              return (
+                character && (
+                  <CollectionEntryItem
+                    key={entry.characterId.value}
+                    character={character}
+                    entry={entry}
+                    onSave={(details) =>
+                      run(
+                        () =>
+                          actions.updateEntry(
+                            collection.id,
+                            entry.characterId.value,
+                            details,
+                          ),
+                        "Failed to update collection entry",
+                      )
+                    }
+                    onRemove={() =>
+                      void run(
+                        () =>
+                          actions.removeCharacter(
+                            collection.id,
+                            entry.characterId.value,
+                          ),
+                        "Failed to remove character from collection",
+                      )
+                    }
+                  />
+                )
+              );
+            })}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+interface CollectionEntryItemProps {
+  character: CharacterSummary;
+  entry: CollectionEntry;
+  onSave: (details: { note: string; tags: string[] }) => Promise<boolean>;
+  onRemove: () => void;
+}
+
+/**
+ * One character of a collection with its note and tags editor
+ */
+const CollectionEntryItem: React.FC<CollectionEntryItemProps> = ({
+  character,
+  entry,
+  onSave,
+  onRemove,
+}) => {
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const savedTags = entry.tags.join(", ");
+  const [note, setNote] = useState(entry.note);
+  const [tags, setTags] = useState(savedTags);
+  const name = character.name.value;
+
+  // Show the stored (normalized) values once saved, or when changed elsewhere
+  useEffect(() => {
+    setNote(entry.note);
+    setTags(savedTags);
+  }, [entry.note, savedTags]);
+
+  const isDirty = note !== entry.note || tags !== savedTags;
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    void onSave({ note, tags: tags.split(",") });
+  };
+
+  return (
+    <li className={styles.collectionsView__entry}>
+      <CharacterCard
+        id={character.id.value}
+        name={name}
+        imageUrl={character.getThumbnailUrl("portrait_uncanny")}
+        isFavorite={isFavorite(character.id.value)}
+        onToggleFavorite={() =>
+          void toggleFavorite(character.id.value, character)
+        }
+      />
+      <form className={styles.collectionsView__details} onSubmit={handleSave}>
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          maxLength={FavoriteCollection.MAX_NOTE_LENGTH}
+          rows={3}
+          placeholder="Note"
+          className={styles.collectionsView__textarea}
+          aria-label={`Note for ${name}`}
+        />
+        <input
+          type="text"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="Tags, comma-separated"
+          className={styles.collectionsView__input}
+          aria-label={`Tags for ${name}`}
+        />
+        {entry.tags.length > 0 && (
+          <ul className={styles.collectionsView__tags} aria-label="Tags">
+            {entry.tags.map((tag) => (
+              <li key={tag} className={styles.collectionsView__tag}>
+                {tag}
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className={styles.collectionsView__actions}>
+          <Button type="submit" size="sm" disabled={!isDirty}>
+            Save
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={onRemove}
+            aria-label={`Remove ${name} from collection`}
+          >
+            Remove
+          </Button>
+        </div>
+      </form>
+    </li>
+  );
+};
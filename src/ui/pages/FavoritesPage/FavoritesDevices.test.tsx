@@ -0,0 +1,144 @@
+/**
+ * FavoritesDevices Tests
+ *
+ * Tests for showing this device's sync key and linking another device's.
+ */
+
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { SyncKey } from "@domain/character/valueObjects/SyncKey";
+import { FavoritesDevices } from "./FavoritesDevices";
+
+const SYNC_KEY = "3f9a0c7e1b2d4a6f8e0c1b3d5f7a9c1e";
+const OTHER_KEY = "0a1b2c3d4e5f60718293a4b5c6d7e8f9";
+
+const mockFavoritesSync = {
+  getSyncKey: jest.fn(),
+  linkDevice: jest.fn(),
+};
+let mockSyncEnabled = true;
+
+jest.mock("@ui/state/DependenciesContext", () => ({
+  useServices: () => ({
+    favoritesSync: mockSyncEnabled ? mockFavoritesSync : null,
+  }),
+}));
+
+jest.mock("@infrastructure/logging/Logger");
+
+describe("FavoritesDevices", () => {
+  const writeText = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSyncEnabled = true;
+    writeText.mockResolvedValue(undefined);
+    mockFavoritesSync.getSyncKey.mockReturnValue(new SyncKey(SYNC_KEY));
+    mockFavoritesSync.linkDevice.mockResolvedValue(undefined);
+  });
+
+  /**
+   * Helper: Set up user events with a (possibly missing) clipboard
+   */
+  const setupUser = (clipboard: boolean) => {
+    const user = userEvent.setup();
+    Object.defineProperty(navigator, "clipboard", {
+      value: clipboard ? { writeText } : undefined,
+      configurable: true,
+    });
+    return user;
+  };
+
+  it("renders nothing when favorites sync isn't configured", () => {
+    mockSyncEnabled = false;
+
+    const { container } = render(<FavoritesDevices />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("shows the sync key and copies it to the clipboard", async () => {
+    const user = setupUser(true);
+    render(<FavoritesDevices />);
+
+    await user.click(screen.getByRole("button", { name: "SHOW SYNC KEY" }));
+
+    expect(screen.getByLabelText("Sync key for this device")).toHaveValue(
+      SYNC_KEY,
+    );
+    expect(writeText).toHaveBeenCalledWith(SYNC_KEY);
+    expect(
+      screen.getByText(/Sync key copied to the clipboard/),
+    ).toBeInTheDocument();
+  });
+
+  it("shows the sync key to copy by hand without a clipboard", async () => {
+    const user = setupUser(false);
+    render(<FavoritesDevices />);
+
+    await user.click(screen.getByRole("button", { name: "SHOW SYNC KEY" }));
+
+    expect(screen.getByText(/Copy the sync key/)).toBeInTheDocument();
+  });
+
+  it("links this device with a key from another device", async () => {
+    const user = setupUser(true);
+    render(<FavoritesDevices />);
+
+    await user.type(
+      screen.getByLabelText("Sync key from another device"),
+      ` ${OTHER_KEY} `,
+    );
+    await user.click(screen.getByRole("button", { name: "LINK DEVICE" }));
+
+    expect(mockFavoritesSync.linkDevice).toHaveBeenCalledWith(
+      new SyncKey(OTHER_KEY),
+    );
+    expect(await screen.findByRole("status")).toHaveTextContent(
+      "This device now shares favorites with the other device.",
+    );
+    expect(screen.getByLabelText("Sync key from another device")).toHaveValue(
+      "",
+    );
+  });
+
+  it("disables linking until a key is entered", () => {
+    setupUser(true);
+    render(<FavoritesDevices />);
+
+    expect(screen.getByRole("button", { name: "LINK DEVICE" })).toBeDisabled();
+  });
+
+  it("rejects malformed keys without contacting the server", async () => {
+    const user = setupUser(true);
+    render(<FavoritesDevices />);
+
+    await user.type(
+      screen.getByLabelText("Sync key from another device"),
+      "not a key",
+    );
+    await user.click(screen.getByRole("button", { name: "LINK DEVICE" }));
+
+    expect(mockFavoritesSync.linkDevice).not.toHaveBeenCalled();
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "That sync key isn't valid.",
+    );
+  });
+
+  it("reports a failed link", async () => {
+    const user = setupUser(true);
+    mockFavoritesSync.linkDevice.mockRejectedValue(new Error("Storage full"));
+    render(<FavoritesDevices />);
+
+    await user.type(
+      screen.getByLabelText("Sync key from another device"),
+      OTHER_KEY,
+    );
+    await user.click(screen.getByRole("button", { name: "LINK DEVICE" }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "This device could not be linked.",
+    );
+    expect(screen.queryByRole("status")).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,152 @@
+import React, { useId, useState } from "react";
+import { Button } from "@ui/designSystem/atoms/Button/Button";
+import { useServices } from "@ui/state/DependenciesContext";
+import { SyncKey } from "@domain/character/valueObjects/SyncKey";
+import { logger } from "@infrastructure/logging/Logger";
+import { copyToClipboard } from "./clipboard";
+import styles from "./FavoritesDevices.module.scss";
+
+interface ShownKey {
+  value: string;
+  copied: boolean;
+}
+
+/**
+ * Favorites Devices
+ *
+ * Links devices that sync favorites: this device's sync key is shown (and
+ * copied) here, and entered on another device to share the same favorites.
+ * Hidden when favorites sync isn't configured.
+ *
+ * Features:
+ * - Shows the sync key and copies it to the clipboard when allowed
+ * - Links this device with a key from another one; its favorites are merged
+ * - Rejects malformed keys before contacting the server
+ */
+export const FavoritesDevices: React.FC = () => {
+  const { favoritesSync } = useServices();
+  const keyInputId = useId();
+  const linkInputId = useId();
+
+  const [shownKey, setShownKey] = useState<ShownKey | null>(null);
+  const [enteredKey, setEnteredKey] = useState("");
+  const [isLinking, setIsLinking] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!favoritesSync) {
+    return null;
+  }
+
+  const handleShowKey = async () => {
+    const { value } = favoritesSync.getSyncKey();
+    setShownKey({ value, copied: await copyToClipboard(value) });
+  };
+
+  const handleLink = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setStatus(null);
+
+    if (!SyncKey.isValid(enteredKey)) {
+      setError(
+        "That sync key isn't valid. Copy it again from the other device.",
+      );
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsLinking(true);
+      await favoritesSync.linkDevice(new SyncKey(enteredKey));
+      setEnteredKey("");
+      setShownKey(null);
+      setStatus("This device now shares favorites with the other device.");
+    } catch (err) {
+      logger.error("Failed to link device", err);
+      setError("This device could not be linked.");
+    } finally {
+      setIsLinking(false);
+    }
+  };
+
+  return (
+    <section className={styles.favoritesDevices} aria-label="Sync devices">
+      <div>
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={() => void handleShowKey()}
+        >
+          SHOW SYNC KEY
+        </Button>
+      </div>
+
+      {shownKey && (
+        <div className={styles.favoritesDevices__field}>
+          <label
+            htmlFor={keyInputId}
+            className={styles.favoritesDevices__label}
+          >
+            Sync key for this device
+          </label>
+          <input
+            id={keyInputId}
+            type="text"
+            readOnly
+            value={shownKey.value}
+            onFocus={(e) => e.target.select()}
+            className={styles.favoritesDevices__input}
+          />
+          <p className={styles.favoritesDevices__hint}>
+            {shownKey.copied
+              ? "Sync key copied to the clipboard. "
+              : "Copy the sync key. "}
+            Enter it on another device to share these favorites. Anyone with the
+            key can change them.
+          </p>
+        </div>
+      )}
+
+      <form
+        className={styles.favoritesDevices__field}
+        onSubmit={(event) => void handleLink(event)}
+      >
+        <label htmlFor={linkInputId} className={styles.favoritesDevices__label}>
+          Sync key from another device
+        </label>
+        <div className={styles.favoritesDevices__row}>
+          <input
+            id={linkInputId}
+            type="text"
+            autoComplete="off"
+            spellCheck={false}
+            value={enteredKey}
+            onChange={(e) => setEnteredKey(e.target.value)}
+            className={styles.favoritesDevices__input}
+          />
+          <Button
+            type="submit"
+            variant="secondary"
+            size="sm"
+            disabled={isLinking || enteredKey.trim() === ""}
+          >
+            LINK DEVICE
+          </Button>
+        </div>
+      </form>
+
+      {status && (
+        <p role="status" className={styles.favoritesDevices__status}>
+          {status}
+        </p>
+      )}
+
+      {error && (
+        <p role="alert" className={styles.favoritesDevices__error}>
+          {error}
+        </p>
+      )}
+    </section>
+  );
+};
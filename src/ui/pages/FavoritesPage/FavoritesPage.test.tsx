@@ -8,7 +8,7 @@ import { render, screen, fireEvent, waitFor } from "@testing-library/react";
 import { BrowserRouter } from "react-router-dom";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { FavoritesPage } from "./FavoritesPage";
-import { Character } from "@domain/character/entities/Character";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
 import { CharacterId } from "@domain/character/valueObjects/CharacterId";
 import { CharacterName } from "@domain/character/valueObjects/CharacterName";
 import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
@@ -19,7 +19,7 @@ const mockIsFavorite = jest.fn(() => true);
 const mockListFavorites = jest.fn();
 const mockFilterCharacters = jest.fn((chars, query) => {
   if (!query) return chars;
-  return chars.filter((c: Character) =>
+  return chars.filter((c: CharacterSummary) =>
     c.name.value.toLowerCase().includes(query.toLowerCase()),
   );
 });
@@ -52,12 +52,12 @@ jest.mock("@ui/state/FavoritesContext", () => ({
 const createMockCharacter = (
   id: number,
   name: string,
-  description: string,
-): Character => {
-  return new Character({
+  deck: string,
+): CharacterSummary => {
+  return new CharacterSummary({
     id: new CharacterId(id),
     name: new CharacterName(name),
-    description,
+    deck,
     thumbnail: new ImageUrl(
       `https://example.com/${name.toLowerCase().replace(" ", "")}`,
       "jpg",
@@ -118,6 +118,23 @@ jest.mock("@ui/designSystem/molecules/CharacterCard/CharacterCard", () => ({
   ),
 }));
 
+// Mock the Collections tab (tested in CollectionsView.test.tsx)
+jest.mock("./CollectionsView", () => ({
+  CollectionsView: ({ characters }: { characters: CharacterSummary[] }) => (
+    <div data-testid="collections-view">{characters.length} characters</div>
+  ),
+}));
+
+// Mock export / import (tested in FavoritesTransfer.test.tsx)
+jest.mock("./FavoritesTransfer", () => ({
+  FavoritesTransfer: () => <div data-testid="favorites-transfer" />,
+}));
+
+// Mock shareable link (tested in FavoritesShare.test.tsx)
+jest.mock("./FavoritesShare", () => ({
+  FavoritesShare: () => <div data-testid="favorites-share" />,
+}));
+
 describe("FavoritesPage", () => {
   let queryClient: QueryClient;
 
@@ -464,4 +481,36 @@ describe("FavoritesPage", () => {
       });
     });
   });
+
+  describe("Collections tab", () => {
+    afterEach(() => {
+      window.history.replaceState({}, "", "/");
+    });
+
+    it("shows all favorites by default", () => {
+      renderPage();
+
+      expect(screen.getByRole("tab", { name: "ALL" })).toHaveAttribute(
+        "aria-selected",
+        "true",
+      );
+      expect(screen.queryByTestId("collections-view")).not.toBeInTheDocument();
+    });
+
+    it("switches to the collections view with the loaded favorites", () => {
+      renderPage();
+
+      fireEvent.click(screen.getByRole("tab", { name: "COLLECTIONS" }));
+
+      expect(screen.getByRole("tab", { name: "COLLECTIONS" })).toHaveAttribute(
+        "aria-selected",
+        "true",
+      );
+      expect(screen.getByTestId("collections-view")).toHaveTextContent(
+        "3 characters",
+      );
+      expect(screen.queryByTestId("character-card")).not.toBeInTheDocument();
+      expect(window.location.search).toBe("?view=collections");
+    });
+  });
 });
@@ -1,4 +1,5 @@
 import React, { useState, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
 import { SearchBar } from "@ui/designSystem/molecules/SearchBar/SearchBar";
 import { CharacterCard } from "@ui/designSystem/molecules/CharacterCard/CharacterCard";
 import { SEO } from "@ui/components/SEO";
@@ -9,6 +10,10 @@ import { useFavoritesList } from "@ui/queries";
 import { UI } from "@config/constants";
 import { config } from "@infrastructure/config/env";
 import { routes } from "@ui/routes/routes";
+import { CollectionsView } from "./CollectionsView";
+import { FavoritesTransfer } from "./FavoritesTransfer";
+import { FavoritesShare } from "./FavoritesShare";
+import { FavoritesDevices } from "./FavoritesDevices";
 import styles from "./FavoritesPage.module.scss";
 
 /**
@@ -18,21 +23,33 @@ import styles from "./FavoritesPage.module.scss";
  *
  * Features:
  * - Loads favorite characters from localStorage
+ * - Renders stored snapshots instantly (works offline), refreshed from the API in the background
  * - Real-time search filtering with debouncing
  * - Automatic loading states with global loading bar (via React Query)
  * - Synchronized with favorites context for real-time updates
  * - Automatic caching and refetching
+ * - Export favorites (JSON or CSV) and import them back, merged or replacing
+ * - Shareable link to a read-only view of the favorites
+ * - Device linking with a sync key, when favorites sync is configured
+ * - "Collections" tab (`?view=collections`) to organize favorites in named collections
  **/
 export const FavoritesPage: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState("");
   const debouncedQuery = useDebouncedValue(searchQuery, UI.SEARCH_DEBOUNCE_MS);
   const { isFavorite, toggleFavorite, favoritesCount } = useFavorites();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const view =
+    searchParams.get("view") === "collections" ? "collections" : "all";
 
   // Inject use cases via DI container
   const { filterCharacters } = useUseCases();
 
   // Fetch favorite characters with React Query (automatic loading bar)
-  const { data: favoriteCharacters = [], isLoading } = useFavoritesList();
+  const {
+    data: favoriteCharacters = [],
+    isLoading,
+    isShowingSnapshot,
+  } = useFavoritesList();
 
   // Derived state: Check if there are any favorites
   const hasFavorites = favoritesCount > 0;
@@ -62,76 +79,120 @@ export const FavoritesPage: React.FC = () => {
       <div className={styles.favoritesPage} id="main-content">
         <h1 className={styles.favoritesPage__title}>FAVORITES</h1>
 
-        <div className={styles.favoritesPage__search}>
-          <SearchBar
-            value={searchQuery}
-            onChange={setSearchQuery}
-            placeholder="SEARCH A CHARACTER..."
-          />
-        </div>
-
-        <div className={styles.favoritesPage__resultsCount}>
-          {searchQuery
-            ? `${displayedCharacters.length} OF ${favoritesCount} RESULTS`
-            : `${favoritesCount} RESULTS`}
-        </div>
-
         <div
-          role="status"
-          aria-live="polite"
-          aria-atomic="true"
-          className={styles.favoritesPage__srOnly}
+          role="tablist"
+          aria-label="Favorites views"
+          className={styles.favoritesPage__tabs}
         >
-          {displayedCharacters.length} favorite characters found
+          <button
+            type="button"
+            role="tab"
+            aria-selected={view === "all"}
+            className={styles.favoritesPage__tab}
+            onClick={() => setSearchParams({})}
+          >
+            ALL
+          </button>
+          <button
+            type="button"
+            role="tab"
+            aria-selected={view === "collections"}
+            className={styles.favoritesPage__tab}
+            onClick={() => setSearchParams({ view: "collections" })}
+          >
+            COLLECTIONS
+          </button>
         </div>
 
-        {!isLoading && (
-          <div className={styles.favoritesPage__grid}>
-            {displayedCharacters.map((character) => (
-              <CharacterCard
-                key={character.id.value}
-                id={character.id.value}
-                name={character.name.value}
-                imageUrl={character.getThumbnailUrl("portrait_uncanny")}
-                isFavorite={isFavorite(character.id.value)}
-                onToggleFavorite={() => void toggleFavorite(character.id.value)}
+        {view === "collections" ? (
+          <CollectionsView characters={favoriteCharacters} />
+        ) : (
+          <>
+            <FavoritesTransfer />
+            <FavoritesShare />
+            <FavoritesDevices />
+
+            <div className={styles.favoritesPage__search}>
+              <SearchBar
+                value={searchQuery}
+                onChange={setSearchQuery}
+                placeholder="SEARCH A CHARACTER..."
               />
-            ))}
-          </div>
-        )}
+            </div>
 
-        {/* Empty state - only show after loading completes AND when truly empty */}
-        {!isLoading && !hasFavorites && displayedCharacters.length === 0 && (
-          <div className={styles.favoritesPage__emptyState}>
-            <h2 className={styles.favoritesPage__heading}>
-              {debouncedQuery ? "No Characters Found" : "No Favorites Yet"}
-            </h2>
-            {debouncedQuery ? (
-              <p className={styles.favoritesPage__message}>
-                Try searching for different character names
-              </p>
-            ) : (
-              <p className={styles.favoritesPage__message}>
-                Start favoriting characters to see them here!
-              </p>
-            )}
-          </div>
-        )}
+            <div className={styles.favoritesPage__resultsCount}>
+              {searchQuery
+                ? `${displayedCharacters.length} OF ${favoritesCount} RESULTS`
+                : `${favoritesCount} RESULTS`}
+            </div>
 
-        {/* Search filter empty state - when searching yields no results but favorites exist */}
-        {!isLoading &&
-          hasFavorites &&
-          debouncedQuery &&
-          displayedCharacters.length === 0 && (
-            <div className={styles.favoritesPage__emptyState}>
-              <h2 className={styles.favoritesPage__heading}>
-                No Characters Found
-              </h2>
-              <p className={styles.favoritesPage__message}>
-                Try searching for different character names
-              </p>
+            <div
+              role="status"
+              aria-live="polite"
+              aria-atomic="true"
+              className={styles.favoritesPage__srOnly}
+            >
+              {displayedCharacters.length} favorite characters found
             </div>
-          )}
+
+            {!isLoading && (
+              <div
+                className={styles.favoritesPage__grid}
+                aria-busy={isShowingSnapshot}
+              >
+                {displayedCharacters.map((character) => (
+                  <CharacterCard
+                    key={character.id.value}
+                    id={character.id.value}
+                    name={character.name.value}
+                    imageUrl={character.getThumbnailUrl("portrait_uncanny")}
+                    isFavorite={isFavorite(character.id.value)}
+                    onToggleFavorite={() =>
+                      void toggleFavorite(character.id.value, character)
+                    }
+                  />
+                ))}
+              </div>
+            )}
+
+            {/* Empty state - only show after loading completes AND when truly empty */}
+            {!isLoading &&
+              !hasFavorites &&
+              displayedCharacters.length === 0 && (
+                <div className={styles.favoritesPage__emptyState}>
+                  <h2 className={styles.favoritesPage__heading}>
+                    {debouncedQuery
+                      ? "No Characters Found"
+                      : "No Favorites Yet"}
+                  </h2>
+                  {debouncedQuery ? (
+                    <p className={styles.favoritesPage__message}>
+                      Try searching for different character names
+                    </p>
+                  ) : (
+                    <p className={styles.favoritesPage__message}>
+                      Start favoriting characters to see them here!
+                    </p>
+                  )}
+                </div>
+              )}
+
+            {/* Search filter empty state - when searching yields no results but favorites exist */}
+            {!isLoading &&
+              hasFavorites &&
+              debouncedQuery &&
+              displayedCharacters.length === 0 && (
+                <div className={styles.favoritesPage__emptyState}>
+                  <h2 className={styles.favoritesPage__heading}>
+                    No Characters Found
+                  </h2>
+                  <p className={styles.favoritesPage__message}>
+                    Try searching for different character names
+                  </p>
+                </div>
+              )}
+          </>
+        )}
       </div>
     </>
   );
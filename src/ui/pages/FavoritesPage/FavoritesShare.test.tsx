@@ -0,0 +1,111 @@
+/**
+ * FavoritesShare Tests
+ *
+ * Tests for creating and copying a shareable link to the favorites.
+ */
+
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { FavoritesShare } from "./FavoritesShare";
+
+const mockExecuteShare = jest.fn();
+let mockFavoritesCount = 2;
+
+jest.mock("@ui/state/DependenciesContext", () => ({
+  useUseCases: () => ({
+    shareFavorites: { execute: mockExecuteShare },
+  }),
+}));
+
+jest.mock("@ui/state/FavoritesContext", () => ({
+  useFavorites: () => ({ favoritesCount: mockFavoritesCount }),
+}));
+
+jest.mock("@infrastructure/logging/Logger");
+
+describe("FavoritesShare", () => {
+  const writeText = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFavoritesCount = 2;
+    writeText.mockResolvedValue(undefined);
+    mockExecuteShare.mockResolvedValue({
+      payload: "AbC-_1",
+      sharedCount: 2,
+      omittedCount: 0,
+    });
+  });
+
+  /**
+   * Helper: Set up user events with a (possibly missing) clipboard
+   */
+  const setupUser = (clipboard: boolean) => {
+    const user = userEvent.setup();
+    Object.defineProperty(navigator, "clipboard", {
+      value: clipboard ? { writeText } : undefined,
+      configurable: true,
+    });
+    return user;
+  };
+
+  it("creates the link and copies it to the clipboard", async () => {
+    const user = setupUser(true);
+    render(<FavoritesShare />);
+
+    await user.click(screen.getByRole("button", { name: "SHARE LINK" }));
+
+    const url = `${window.location.origin}/shared?list=AbC-_1`;
+    expect(screen.getByLabelText("Link to your favorites")).toHaveValue(url);
+    expect(writeText).toHaveBeenCalledWith(url);
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "Link copied to the clipboard.",
+    );
+  });
+
+  it("shows the link to copy by hand without a clipboard", async () => {
+    const user = setupUser(false);
+    render(<FavoritesShare />);
+
+    await user.click(screen.getByRole("button", { name: "SHARE LINK" }));
+
+    expect(await screen.findByRole("status")).toHaveTextContent(
+      "Copy the link to share it.",
+    );
+  });
+
+  it("reports favorites left out of the link", async () => {
+    const user = setupUser(true);
+    mockExecuteShare.mockResolvedValue({
+      payload: "AbC",
+      sharedCount: 100,
+      omittedCount: 3,
+    });
+    render(<FavoritesShare />);
+
+    await user.click(screen.getByRole("button", { name: "SHARE LINK" }));
+
+    expect(await screen.findByRole("status")).toHaveTextContent(
+      "3 favorites were left out to keep the link short.",
+    );
+  });
+
+  it("shows an error when the link cannot be created", async () => {
+    const user = setupUser(true);
+    mockExecuteShare.mockRejectedValue(new Error("Storage unavailable"));
+    render(<FavoritesShare />);
+
+    await user.click(screen.getByRole("button", { name: "SHARE LINK" }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "The link could not be created.",
+    );
+  });
+
+  it("is disabled without favorites", () => {
+    mockFavoritesCount = 0;
+    render(<FavoritesShare />);
+
+    expect(screen.getByRole("button", { name: "SHARE LINK" })).toBeDisabled();
+  });
+});
@@ -0,0 +1,92 @@
+import React, { useId, useState } from "react";
+import { Button } from "@ui/designSystem/atoms/Button/Button";
+import { useFavorites } from "@ui/state/FavoritesContext";
+import { useUseCases } from "@ui/state/DependenciesContext";
+import { routes } from "@ui/routes/routes";
+import { logger } from "@infrastructure/logging/Logger";
+import { copyToClipboard } from "./clipboard";
+import styles from "./FavoritesShare.module.scss";
+
+interface SharedLink {
+  url: string;
+  omittedCount: number;
+  copied: boolean;
+}
+
+/**
+ * Favorites Share
+ *
+ * Creates a link to a read-only view of the current favorites, which the
+ * recipient can add to their own favorites.
+ *
+ * Features:
+ * - Compact link (favorites are encoded in the URL, no backend)
+ * - Copies the link to the clipboard when allowed, and shows it to copy by hand
+ * - Reports favorites left out to keep the link short
+ */
+export const FavoritesShare: React.FC = () => {
+  const { shareFavorites } = useUseCases();
+  const { favoritesCount } = useFavorites();
+  const linkInputId = useId();
+
+  const [link, setLink] = useState<SharedLink | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleShare = async () => {
+    try {
+      setError(null);
+      const { payload, omittedCount } = await shareFavorites.execute();
+      const url = `${window.location.origin}${routes.sharedList(payload)}`;
+      setLink({ url, omittedCount, copied: await copyToClipboard(url) });
+    } catch (err) {
+      logger.error("Failed to share favorites", err);
+      setLink(null);
+      setError("The link could not be created.");
+    }
+  };
+
+  return (
+    <section className={styles.favoritesShare} aria-label="Share favorites">
+      <div>
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={() => void handleShare()}
+          disabled={favoritesCount === 0}
+        >
+          SHARE LINK
+        </Button>
+      </div>
+
+      {link && (
+        <div className={styles.favoritesShare__link}>
+          <label htmlFor={linkInputId} className={styles.favoritesShare__label}>
+            Link to your favorites
+          </label>
+          <input
+            id={linkInputId}
+            type="text"
+            readOnly
+            value={link.url}
+            onFocus={(e) => e.target.select()}
+            className={styles.favoritesShare__input}
+          />
+          <p role="status" className={styles.favoritesShare__status}>
+            {link.copied
+              ? "Link copied to the clipboard."
+              : "Copy the link to share it."}
+            {link.omittedCount > 0 &&
+              ` ${link.omittedCount} favorites were left out to keep the link short.`}
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <p role="alert" className={styles.favoritesShare__error}>
+          {error}
+        </p>
+      )}
+    </section>
+  );
+};
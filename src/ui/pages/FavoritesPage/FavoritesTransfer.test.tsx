@@ -0,0 +1,176 @@
+/**
+ * FavoritesTransfer Tests
+ *
+ * Tests for exporting favorites to a file and importing them back,
+ * including the merge/replace choice and the import report.
+ */
+
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { FavoritesTransfer } from "./FavoritesTransfer";
+
+const mockExecuteExport = jest.fn();
+const mockExecuteImport = jest.fn();
+const mockRefreshCount = jest.fn();
+
+jest.mock("@ui/state/DependenciesContext", () => ({
+  useUseCases: () => ({
+    exportFavorites: { execute: mockExecuteExport },
+    importFavorites: { execute: mockExecuteImport },
+  }),
+}));
+
+jest.mock("@ui/state/FavoritesContext", () => ({
+  useFavorites: () => ({
+    favoritesCount: 2,
+    refreshCount: mockRefreshCount,
+  }),
+}));
+
+jest.mock("@infrastructure/logging/Logger");
+
+describe("FavoritesTransfer", () => {
+  const renderTransfer = () =>
+    render(
+      <QueryClientProvider client={new QueryClient()}>
+        <FavoritesTransfer />
+      </QueryClientProvider>,
+    );
+
+  /**
+   * Helper: Choose a file in the (visually hidden) file input
+   */
+  const chooseFile = async (
+    user: ReturnType<typeof userEvent.setup>,
+    name: string,
+    content: string,
+  ) => {
+    await user.upload(
+      screen.getByLabelText("Favorites file to import"),
+      new File([content], name),
+    );
+    await screen.findByText(name);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    URL.createObjectURL = jest.fn(() => "blob:favorites");
+    URL.revokeObjectURL = jest.fn();
+    mockRefreshCount.mockResolvedValue(undefined);
+    mockExecuteImport.mockResolvedValue({
+      imported: 2,
+      duplicates: [1009610],
+      unknownIds: [999],
+      unverifiedIds: [],
+      invalidRecords: 1,
+      total: 4,
+    });
+  });
+
+  describe("Export", () => {
+    it("downloads the exported file", async () => {
+      const user = userEvent.setup();
+      const click = jest
+        .spyOn(HTMLAnchorElement.prototype, "click")
+        .mockImplementation(() => {});
+      mockExecuteExport.mockResolvedValue({
+        content: "id\n1\n",
+        fileName: "marvel-favorites-2024-03-01.csv",
+        mimeType: "text/csv",
+        count: 1,
+      });
+      renderTransfer();
+
+      await user.click(screen.getByRole("button", { name: "EXPORT CSV" }));
+
+      expect(mockExecuteExport).toHaveBeenCalledWith("csv");
+      expect(URL.createObjectURL).toHaveBeenCalled();
+      expect(click).toHaveBeenCalled();
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:favorites");
+      click.mockRestore();
+    });
+
+    it("shows an error when export fails", async () => {
+      const user = userEvent.setup();
+      mockExecuteExport.mockRejectedValue(new Error("Storage unavailable"));
+      renderTransfer();
+
+      await user.click(screen.getByRole("button", { name: "EXPORT JSON" }));
+
+      expect(await screen.findByRole("alert")).toHaveTextContent(
+        "Favorites could not be exported.",
+      );
+    });
+  });
+
+  describe("Import", () => {
+    it("merges by default and reports the result", async () => {
+      const user = userEvent.setup();
+      renderTransfer();
+
+      await chooseFile(user, "favorites.json", '{"version":1}');
+      await user.click(
+        screen.getByRole("button", { name: "IMPORT FAVORITES" }),
+      );
+
+      expect(mockExecuteImport).toHaveBeenCalledWith(
+        '{"version":1}',
+        "json",
+        "merge",
+      );
+      const report = await screen.findByRole("status");
+      expect(report).toHaveTextContent("Imported 2 favorites (4 in total).");
+      expect(report).toHaveTextContent("Skipped 1 duplicates: 1009610");
+      expect(report).toHaveTextContent("Skipped 1 unknown characters: 999");
+      expect(report).toHaveTextContent("Skipped 1 unreadable records");
+      expect(mockRefreshCount).toHaveBeenCalled();
+    });
+
+    it("replaces favorites when chosen, detecting CSV files", async () => {
+      const user = userEvent.setup();
+      renderTransfer();
+
+      await chooseFile(user, "favorites.csv", "id\n1\n");
+      await user.click(screen.getByLabelText("Replace my favorites"));
+      await user.click(
+        screen.getByRole("button", { name: "IMPORT FAVORITES" }),
+      );
+
+      expect(mockExecuteImport).toHaveBeenCalledWith(
+        "id\n1\n",
+        "csv",
+        "replace",
+      );
+    });
+
+    it("shows the reason when the file is rejected", async () => {
+      const user = userEvent.setup();
+      mockExecuteImport.mockRejectedValue(
+        new Error("File does not contain favorites data"),
+      );
+      renderTransfer();
+
+      await chooseFile(user, "notes.json", "{}");
+      await user.click(
+        screen.getByRole("button", { name: "IMPORT FAVORITES" }),
+      );
+
+      expect(await screen.findByRole("alert")).toHaveTextContent(
+        "Import failed: File does not contain favorites data",
+      );
+      expect(mockRefreshCount).not.toHaveBeenCalled();
+    });
+
+    it("can be cancelled before importing", async () => {
+      const user = userEvent.setup();
+      renderTransfer();
+
+      await chooseFile(user, "favorites.json", "{}");
+      await user.click(screen.getByRole("button", { name: "CANCEL" }));
+
+      expect(screen.queryByText("favorites.json")).not.toBeInTheDocument();
+      expect(mockExecuteImport).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,274 @@
+import React, { useId, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@ui/designSystem/atoms/Button/Button";
+import { useFavorites } from "@ui/state/FavoritesContext";
+import { useUseCases } from "@ui/state/DependenciesContext";
+import { FavoritesFileFormat } from "@domain/character/ports/FavoritesFileCodec";
+import {
+  ImportFavoritesReport,
+  ImportMode,
+} from "@application/character/useCases/ImportFavorites";
+import { logger } from "@infrastructure/logging/Logger";
+import styles from "./FavoritesTransfer.module.scss";
+
+interface SelectedFile {
+  name: string;
+  content: string;
+  format: FavoritesFileFormat;
+}
+
+/**
+ * Save content as a file through a temporary download link
+ */
+function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a chosen file as text
+ */
+function readFileText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ""));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
+
+function formatOf(file: File): FavoritesFileFormat {
+  return file.name.toLowerCase().endsWith(".csv") || file.type === "text/csv"
+    ? "csv"
+    : "json";
+}
+
+function formatIds(ids: number[]): string {
+  return ids.join(", ");
+}
+
+/**
+ * Favorites Transfer
+ *
+ * Export favorites (JSON or CSV) and import them back, e.g. to back them up or
+ * move them to another browser.
+ *
+ * Features:
+ * - Export with dates added and snapshots
+ * - Import merges with or replaces the current favorites (user's choice)
+ * - Report of imported favorites, duplicates, unknown IDs and unreadable records
+ */
+export const FavoritesTransfer: React.FC = () => {
+  const { exportFavorites, importFavorites } = useUseCases();
+  const { favoritesCount, refreshCount } = useFavorites();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const fileInputId = useId();
+
+  const [selected, setSelected] = useState<SelectedFile | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<ImportFavoritesReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: FavoritesFileFormat) => {
+    try {
+      setError(null);
+      const file = await exportFavorites.execute(format);
+      downloadFile(file.fileName, file.content, file.mimeType);
+    } catch (err) {
+      logger.error("Failed to export favorites", err, { format });
+      setError("Favorites could not be exported.");
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow choosing the same file again
+    if (!file) return;
+
+    setReport(null);
+    setError(null);
+    try {
+      setSelected({
+        name: file.name,
+        content: await readFileText(file),
+        format: formatOf(file),
+      });
+    } catch (err) {
+      logger.error("Failed to read favorites file", err);
+      setError("The file could not be read.");
+    }
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+
+    try {
+      setIsImporting(true);
+      setError(null);
+      const result = await importFavorites.execute(
+        selected.content,
+        selected.format,
+        mode,
+      );
+      setReport(result);
+      setSelected(null);
+      await refreshCount();
+      void queryClient.invalidateQueries({ queryKey: ["favorites"] });
+    } catch (err) {
+      logger.error("Failed to import favorites", err, {
+        format: selected.format,
+      });
+      setError(
+        err instanceof Error
+          ? `Import failed: ${err.message}`
+          : "Import failed.",
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <section
+      className={styles.favoritesTransfer}
+      aria-label="Export and import"
+    >
+      <div className={styles.favoritesTransfer__actions}>
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={() => void handleExport("json")}
+          disabled={favoritesCount === 0}
+        >
+          EXPORT JSON
+        </Button>
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={() => void handleExport("csv")}
+          disabled={favoritesCount === 0}
+        >
+          EXPORT CSV
+        </Button>
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          IMPORT
+        </Button>
+        <label
+          htmlFor={fileInputId}
+          className={styles.favoritesTransfer__srOnly}
+        >
+          Favorites file to import
+        </label>
+        <input
+          ref={fileInputRef}
+          id={fileInputId}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          onChange={(e) => void handleFileChange(e)}
+          className={styles.favoritesTransfer__srOnly}
+          tabIndex={-1}
+        />
+      </div>
+
+      {selected && (
+        <form
+          className={styles.favoritesTransfer__import}
+          onSubmit={handleImport}
+        >
+          <p className={styles.favoritesTransfer__fileName}>{selected.name}</p>
+          <fieldset className={styles.favoritesTransfer__modes}>
+            <legend className={styles.favoritesTransfer__srOnly}>
+              Import mode
+            </legend>
+            <label>
+              <input
+                type="radio"
+                name="import-mode"
+                value="merge"
+                checked={mode === "merge"}
+                onChange={() => setMode("merge")}
+              />{" "}
+              Merge with my favorites
+            </label>
+            <label>
+              <input
+                type="radio"
+                name="import-mode"
+                value="replace"
+                checked={mode === "replace"}
+                onChange={() => setMode("replace")}
+              />{" "}
+              Replace my favorites
+            </label>
+          </fieldset>
+          <div className={styles.favoritesTransfer__actions}>
+            <Button type="submit" size="sm" loading={isImporting}>
+              IMPORT FAVORITES
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setSelected(null)}
+            >
+              CANCEL
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <p role="alert" className={styles.favoritesTransfer__error}>
+          {error}
+        </p>
+      )}
+
+      {report && (
+        <div role="status" className={styles.favoritesTransfer__report}>
+          <p>
+            Imported {report.imported}{" "}
+            {report.imported === 1 ? "favorite" : "favorites"} ({report.total}{" "}
+            in total).
+          </p>
+          <ul>
+            {report.duplicates.length > 0 && (
+              <li>
+                Skipped {report.duplicates.length} duplicates:{" "}
+                {formatIds(report.duplicates)}
+              </li>
+            )}
+            {report.unknownIds.length > 0 && (
+              <li>
+                Skipped {report.unknownIds.length} unknown characters:{" "}
+                {formatIds(report.unknownIds)}
+              </li>
+            )}
+            {report.unverifiedIds.length > 0 && (
+              <li>
+                Imported {report.unverifiedIds.length} characters that could not
+                be checked right now: {formatIds(report.unverifiedIds)}
+              </li>
+            )}
+            {report.invalidRecords > 0 && (
+              <li>Skipped {report.invalidRecords} unreadable records</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+};
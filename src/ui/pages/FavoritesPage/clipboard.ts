@@ -0,0 +1,12 @@
+/**
+ * Copy text to the clipboard (false when not available or not allowed)
+ */
+export async function copyToClipboard(text: string): Promise<boolean> {
+  try {
+    if (!navigator.clipboard) return false;
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
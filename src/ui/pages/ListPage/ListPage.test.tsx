@@ -14,16 +14,16 @@ import {
 } from "@testing-library/react";
 import { BrowserRouter } from "react-router-dom";
 import { ListPage } from "./ListPage";
-import { Character } from "@domain/character/entities/Character";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
 import { CharacterId } from "@domain/character/valueObjects/CharacterId";
 import { CharacterName } from "@domain/character/valueObjects/CharacterName";
 import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
 
 // Create mock character data
-const mockCharacter = new Character({
+const mockCharacter = new CharacterSummary({
   id: new CharacterId(1),
   name: new CharacterName("Spider-Man"),
-  description: "Friendly neighborhood Spider-Man",
+  deck: "Friendly neighborhood Spider-Man",
   thumbnail: new ImageUrl("https://example.com/spiderman", "jpg"),
 });
 
@@ -202,7 +202,9 @@ export const ListPage: React.FC = () => {
                   name={characterName}
                   imageUrl={imageUrl}
                   isFavorite={favorite}
-                  onToggleFavorite={() => void toggleFavorite(characterId)}
+                  onToggleFavorite={() =>
+                    void toggleFavorite(characterId, character)
+                  }
                   priority={isPriority}
                 />
               );
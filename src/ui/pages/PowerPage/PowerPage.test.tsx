@@ -0,0 +1,261 @@
+/**
+ * PowerPage Tests
+ *
+ * Tests for the browse-by-power view: the power's name and description, its
+ * Marvel characters, infinite scroll, and powers that can't be loaded.
+ */
+
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import { PowerPage } from "./PowerPage";
+import { Power } from "@domain/character/entities/Power";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
+import { PowerId } from "@domain/character/valueObjects/PowerId";
+import { PowerNotFoundError } from "@application/character/useCases/GetPowerDetail";
+
+const mockToggleFavorite = jest.fn();
+const mockUsePowerDetail = jest.fn();
+const mockUsePowerCharacters = jest.fn();
+
+jest.mock("@ui/state/FavoritesContext", () => ({
+  useFavorites: () => ({
+    isFavorite: (id: number) => id === 1,
+    toggleFavorite: mockToggleFavorite,
+  }),
+}));
+
+jest.mock("@ui/state/DependenciesContext", () => ({
+  useServices: () => ({
+    seo: {
+      updateMetadata: jest.fn(),
+      addStructuredData: jest.fn(),
+      removeStructuredData: jest.fn(),
+      reset: jest.fn(),
+    },
+  }),
+}));
+
+jest.mock("@ui/queries", () => ({
+  usePowerDetail: (...args: unknown[]) => mockUsePowerDetail(...args),
+  usePowerCharacters: (...args: unknown[]) => mockUsePowerCharacters(...args),
+}));
+
+// Mock CharacterCard to render character names and the favorite toggle
+jest.mock("@ui/designSystem/molecules/CharacterCard/CharacterCard", () => ({
+  CharacterCard: ({
+    name,
+    isFavorite,
+    onToggleFavorite,
+  }: {
+    name: string;
+    isFavorite: boolean;
+    onToggleFavorite: () => void;
+  }) => (
+    <div data-testid="character-card">
+      {name}
+      <button
+        type="button"
+        aria-pressed={isFavorite}
+        onClick={onToggleFavorite}
+      >
+        Favorite {name}
+      </button>
+    </div>
+  ),
+}));
+
+const character = (id: number, name: string) =>
+  new CharacterSummary({
+    id: new CharacterId(id),
+    name: new CharacterName(name),
+    deck: "",
+    thumbnail: new ImageUrl("https://example.com/image", "jpg"),
+  });
+
+const power = new Power({
+  id: new PowerId(1135),
+  name: "Telepathy",
+  description: "The ability to read minds.",
+  characterIds: [new CharacterId(1), new CharacterId(2)],
+});
+
+describe("PowerPage", () => {
+  const characters = [character(1, "Professor X"), character(2, "Jean Grey")];
+  const mockFetchNextPage = jest.fn();
+  const mockRefetch = jest.fn();
+
+  const charactersQuery = (overrides: Record<string, unknown> = {}) => ({
+    data: { characters },
+    fetchNextPage: mockFetchNextPage,
+    hasNextPage: false,
+    isFetching: false,
+    isLoading: false,
+    error: null,
+    refetch: mockRefetch,
+    ...overrides,
+  });
+
+  const renderPage = (url = "/powers/1135") =>
+    render(
+      <MemoryRouter initialEntries={[url]}>
+        <Routes>
+          <Route path="/powers/:id" element={<PowerPage />} />
+        </Routes>
+      </MemoryRouter>,
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUsePowerDetail.mockReturnValue({
+      data: power,
+      isLoading: false,
+      error: null,
+    });
+    mockUsePowerCharacters.mockReturnValue(charactersQuery());
+  });
+
+  it("should fetch the power from the route id", () => {
+    renderPage();
+
+    expect(mockUsePowerDetail).toHaveBeenCalledWith(1135);
+    expect(mockUsePowerCharacters).toHaveBeenCalledWith(1135);
+  });
+
+  it("should show a not found state for a route id that isn't an integer", () => {
+    mockUsePowerDetail.mockReturnValue({
+      data: undefined,
+      isLoading: false,
+      error: null,
+    });
+
+    renderPage("/powers/1.5");
+
+    expect(mockUsePowerDetail).toHaveBeenCalledWith(1.5);
+    expect(
+      screen.getByRole("heading", { name: "Power Not Found" }),
+    ).toBeInTheDocument();
+  });
+
+  it("should show the power name and description", () => {
+    renderPage();
+
+    expect(
+      screen.getByRole("heading", { level: 1, name: "Telepathy" }),
+    ).toBeInTheDocument();
+    expect(screen.getByText("The ability to read minds.")).toBeInTheDocument();
+  });
+
+  it("should list the characters with the power", () => {
+    renderPage();
+
+    const cards = screen.getAllByTestId("character-card");
+    expect(cards).toHaveLength(2);
+    expect(cards[0]).toHaveTextContent("Professor X");
+    expect(cards[1]).toHaveTextContent("Jean Grey");
+    expect(screen.getByText("2 CHARACTERS")).toBeInTheDocument();
+  });
+
+  it("should show favorites and toggle them with the character", async () => {
+    const user = userEvent.setup();
+    renderPage();
+
+    expect(
+      screen.getByRole("button", { name: "Favorite Professor X" }),
+    ).toHaveAttribute("aria-pressed", "true");
+
+    await user.click(
+      screen.getByRole("button", { name: "Favorite Jean Grey" }),
+    );
+
+    expect(mockToggleFavorite).toHaveBeenCalledWith(2, characters[1]);
+  });
+
+  it("should render the infinite scroll sentinel while more pages remain", () => {
+    mockUsePowerCharacters.mockReturnValue(
+      charactersQuery({ hasNextPage: true }),
+    );
+
+    renderPage();
+
+    expect(screen.getByTestId("sentinel")).toBeInTheDocument();
+  });
+
+  it("should label the count as loaded so far while more pages remain", () => {
+    mockUsePowerCharacters.mockReturnValue(
+      charactersQuery({ hasNextPage: true }),
+    );
+
+    renderPage();
+
+    expect(screen.getByText("2 CHARACTERS LOADED")).toBeInTheDocument();
+  });
+
+  it("should not render the sentinel on the last page", () => {
+    renderPage();
+
+    expect(screen.queryByTestId("sentinel")).not.toBeInTheDocument();
+  });
+
+  it("should show an empty state when no Marvel character has the power", () => {
+    mockUsePowerCharacters.mockReturnValue(
+      charactersQuery({ data: { characters: [] } }),
+    );
+
+    renderPage();
+
+    expect(
+      screen.getByText("No Marvel characters have this power."),
+    ).toBeInTheDocument();
+  });
+
+  it("should retry when the characters fail to load", async () => {
+    const user = userEvent.setup();
+    mockUsePowerCharacters.mockReturnValue(
+      charactersQuery({
+        data: undefined,
+        hasNextPage: true,
+        error: new Error("Network error"),
+      }),
+    );
+
+    renderPage();
+
+    expect(screen.queryByTestId("sentinel")).not.toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "Retry" }));
+
+    expect(mockRefetch).toHaveBeenCalled();
+  });
+
+  it("should render nothing while loading", () => {
+    mockUsePowerDetail.mockReturnValue({
+      data: undefined,
+      isLoading: true,
+      error: null,
+    });
+
+    renderPage();
+
+    expect(screen.queryByRole("heading")).not.toBeInTheDocument();
+  });
+
+  it("should show a not found state when the power can't be loaded", () => {
+    mockUsePowerDetail.mockReturnValue({
+      data: undefined,
+      isLoading: false,
+      error: new PowerNotFoundError(1135),
+    });
+
+    renderPage();
+
+    expect(
+      screen.getByRole("heading", { name: "Power Not Found" }),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("link", { name: "Browse All Characters" }),
+    ).toHaveAttribute("href", "/");
+  });
+});
@@ -0,0 +1,173 @@
+import React, { useCallback, useEffect, useRef } from "react";
+import { useParams } from "react-router-dom";
+import { CharacterCard } from "@ui/designSystem/molecules/CharacterCard/CharacterCard";
+import { Link } from "@ui/designSystem/atoms/Link/Link";
+import { SEO } from "@ui/components/SEO";
+import { useFavorites } from "@ui/state/FavoritesContext";
+import { usePowerCharacters, usePowerDetail } from "@ui/queries";
+import { UI } from "@config/constants";
+import { config } from "@infrastructure/config/env";
+import { routes } from "@ui/routes/routes";
+import styles from "./PowerPage.module.scss";
+
+/**
+ * Power Page
+ *
+ * Shows a power (`/powers/:id`) and the Marvel characters that have it.
+ *
+ * Features:
+ * - Characters load as you scroll (infinite scroll), like the main list
+ * - Characters link to their detail pages and can be favorited from the grid
+ * - Characters from other publishers are left out
+ * - The count says "LOADED" until the last page is in, as it can't be known sooner
+ */
+export const PowerPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { isFavorite, toggleFavorite } = useFavorites();
+
+  // Parse power ID
+  const powerId = id ? Number(id) : 0;
+
+  const {
+    data: power,
+    isLoading: isPowerLoading,
+    error: powerError,
+  } = usePowerDetail(powerId);
+  const {
+    data: charactersData,
+    fetchNextPage,
+    hasNextPage,
+    isFetching: areCharactersFetching,
+    isLoading: areCharactersLoading,
+    error: charactersError,
+    refetch: retryCharacters,
+  } = usePowerCharacters(powerId);
+
+  // Intersection Observer for infinite scroll
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!hasNextPage || areCharactersFetching) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        // Trigger load when sentinel is visible
+        if (entries[0]?.isIntersecting) {
+          void fetchNextPage();
+        }
+      },
+      {
+        root: null, // Use viewport
+        rootMargin: UI.INFINITE_SCROLL_ROOT_MARGIN,
+        threshold: 0.1, // Trigger when 10% visible
+      },
+    );
+
+    if (sentinelRef.current) {
+      observer.observe(sentinelRef.current);
+    }
+
+    return () => observer.disconnect();
+  }, [hasNextPage, areCharactersFetching, fetchNextPage]);
+
+  const handleRetry = useCallback(() => {
+    void retryCharacters();
+  }, [retryCharacters]);
+
+  if (isPowerLoading || areCharactersLoading) {
+    return <div className={styles.powerPage} id="main-content" />;
+  }
+
+  if (powerError || !power) {
+    return (
+      <div className={styles.powerPage} id="main-content">
+        <div className={styles.powerPage__emptyState}>
+          <h1 className={styles.powerPage__heading}>Power Not Found</h1>
+          <p className={styles.powerPage__message}>
+            Unable to load this power. This may be due to an API error or the
+            power may not exist.
+          </p>
+          <Link to={routes.home} variant="primary">
+            Browse All Characters
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const characters = charactersData?.characters ?? [];
+  const charactersFailed = Boolean(charactersError);
+
+  return (
+    <>
+      <SEO
+        title={`${power.name} - Marvel Power | Characters`}
+        description={
+          power.hasDescription()
+            ? `${power.name}: ${power.description.substring(0, 150)}`
+            : `Browse the Marvel characters with ${power.name}.`
+        }
+        type="website"
+        canonicalUrl={`${config.appUrl}${routes.powerDetail(power.id.value)}`}
+      />
+      <div className={styles.powerPage} id="main-content">
+        <h1 className={styles.powerPage__title}>{power.name}</h1>
+
+        {power.hasDescription() && (
+          <p className={styles.powerPage__description}>{power.description}</p>
+        )}
+
+        {/* Pages hold IDs from every publisher, so only count what has loaded */}
+        <div className={styles.powerPage__resultsCount}>
+          {characters.length}{" "}
+          {characters.length === 1 ? "CHARACTER" : "CHARACTERS"}
+          {hasNextPage && " LOADED"}
+        </div>
+
+        <div className={styles.powerPage__grid}>
+          {characters.map((character) => (
+            <CharacterCard
+              key={character.id.value}
+              id={character.id.value}
+              name={character.name.value}
+              imageUrl={character.getThumbnailUrl("portrait_uncanny")}
+              isFavorite={isFavorite(character.id.value)}
+              onToggleFavorite={() =>
+                void toggleFavorite(character.id.value, character)
+              }
+            />
+          ))}
+        </div>
+
+        {/* Infinite scroll sentinel */}
+        {hasNextPage && !charactersFailed && (
+          <div
+            ref={sentinelRef}
+            className={styles.powerPage__sentinel}
+            data-testid="sentinel"
+          />
+        )}
+
+        {charactersFailed && (
+          <div className={styles.powerPage__errorState}>
+            <p>Failed to load characters. Please try again.</p>
+            <button onClick={handleRetry} className={styles.powerPage__action}>
+              Retry
+            </button>
+          </div>
+        )}
+
+        {!charactersFailed && !hasNextPage && characters.length === 0 && (
+          <div className={styles.powerPage__emptyState}>
+            <h2 className={styles.powerPage__heading}>No Characters Found</h2>
+            <p className={styles.powerPage__message}>
+              No Marvel characters have this power.
+            </p>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1 @@
+export { PowerPage } from "./PowerPage";
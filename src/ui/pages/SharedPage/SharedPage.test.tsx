@@ -0,0 +1,173 @@
+/**
+ * SharedPage Tests
+ *
+ * Tests for the read-only view of a shared favorites link: listing the
+ * characters, adding them to favorites, and invalid links.
+ */
+
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { MemoryRouter } from "react-router-dom";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { SharedPage } from "./SharedPage";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
+import { InvalidSharedListError } from "@domain/character/valueObjects/SharedList";
+
+const mockAddSharedFavorites = jest.fn();
+const mockRefreshCount = jest.fn();
+const mockUseSharedList = jest.fn();
+
+jest.mock("@ui/state/FavoritesContext", () => ({
+  useFavorites: () => ({
+    isFavorite: () => false,
+    toggleFavorite: jest.fn(),
+    refreshCount: mockRefreshCount,
+  }),
+}));
+
+jest.mock("@ui/state/DependenciesContext", () => ({
+  useUseCases: () => ({
+    addSharedFavorites: { execute: mockAddSharedFavorites },
+  }),
+  useServices: () => ({
+    seo: {
+      updateMetadata: jest.fn(),
+      addStructuredData: jest.fn(),
+      removeStructuredData: jest.fn(),
+      reset: jest.fn(),
+    },
+  }),
+}));
+
+jest.mock("@ui/queries", () => ({
+  useSharedList: (...args: unknown[]) => mockUseSharedList(...args),
+}));
+
+jest.mock("@infrastructure/logging/Logger");
+
+// Mock CharacterCard to render character names
+jest.mock("@ui/designSystem/molecules/CharacterCard/CharacterCard", () => ({
+  CharacterCard: ({ name }: { name: string }) => (
+    <div data-testid="character-card">{name}</div>
+  ),
+}));
+
+const character = (id: number, name: string) =>
+  new CharacterSummary({
+    id: new CharacterId(id),
+    name: new CharacterName(name),
+    deck: "",
+    thumbnail: new ImageUrl("https://example.com/image", "jpg"),
+  });
+
+describe("SharedPage", () => {
+  const characters = [character(1, "Spider-Man"), character(2, "Thor")];
+
+  const renderPage = (url = "/shared?list=AbC") =>
+    render(
+      <QueryClientProvider client={new QueryClient()}>
+        <MemoryRouter initialEntries={[url]}>
+          <SharedPage />
+        </MemoryRouter>
+      </QueryClientProvider>,
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRefreshCount.mockResolvedValue(undefined);
+    mockUseSharedList.mockReturnValue({
+      data: { characters, notFound: [], failed: [] },
+      isLoading: false,
+      error: null,
+    });
+  });
+
+  it("shows the shared characters from the link", () => {
+    renderPage();
+
+    expect(mockUseSharedList).toHaveBeenCalledWith("AbC");
+    expect(screen.getAllByTestId("character-card")).toHaveLength(2);
+    expect(screen.getByText("2 RESULTS")).toBeInTheDocument();
+  });
+
+  it("reports characters that could not be found", () => {
+    mockUseSharedList.mockReturnValue({
+      data: { characters, notFound: [3], failed: [4] },
+      isLoading: false,
+      error: null,
+    });
+    renderPage();
+
+    expect(
+      screen.getByText("2 shared characters could not be found."),
+    ).toBeInTheDocument();
+  });
+
+  it("adds all characters to favorites", async () => {
+    const user = userEvent.setup();
+    mockAddSharedFavorites.mockResolvedValue({
+      added: 1,
+      alreadyFavorites: 1,
+    });
+    renderPage();
+
+    await user.click(
+      screen.getByRole("button", { name: "ADD ALL TO MY FAVORITES" }),
+    );
+
+    expect(mockAddSharedFavorites).toHaveBeenCalledWith(characters);
+    expect(await screen.findByRole("status")).toHaveTextContent(
+      "Added 1 character to your favorites (1 already there).",
+    );
+    expect(mockRefreshCount).toHaveBeenCalled();
+  });
+
+  it("shows an error when the characters cannot be added", async () => {
+    const user = userEvent.setup();
+    mockAddSharedFavorites.mockRejectedValue(new Error("Quota exceeded"));
+    renderPage();
+
+    await user.click(
+      screen.getByRole("button", { name: "ADD ALL TO MY FAVORITES" }),
+    );
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "The characters could not be added to your favorites.",
+    );
+  });
+
+  it("explains why a link is invalid", () => {
+    mockUseSharedList.mockReturnValue({
+      data: undefined,
+      isLoading: false,
+      error: new InvalidSharedListError("corrupted"),
+    });
+    renderPage("/shared?list=tampered");
+
+    expect(
+      screen.getByRole("heading", { name: "Invalid Link" }),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText(/This link was changed or cut off/),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("link", { name: "Browse All Characters" }),
+    ).toHaveAttribute("href", "/");
+  });
+
+  it("shows a generic error when the characters cannot be loaded", () => {
+    mockUseSharedList.mockReturnValue({
+      data: undefined,
+      isLoading: false,
+      error: new Error("Network error"),
+    });
+    renderPage();
+
+    expect(
+      screen.getByRole("heading", { name: "List Unavailable" }),
+    ).toBeInTheDocument();
+  });
+});
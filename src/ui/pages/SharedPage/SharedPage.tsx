@@ -0,0 +1,176 @@
+import React, { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { CharacterCard } from "@ui/designSystem/molecules/CharacterCard/CharacterCard";
+import { Button } from "@ui/designSystem/atoms/Button/Button";
+import { Link } from "@ui/designSystem/atoms/Link/Link";
+import { SEO } from "@ui/components/SEO";
+import { useFavorites } from "@ui/state/FavoritesContext";
+import { useUseCases } from "@ui/state/DependenciesContext";
+import { useSharedList } from "@ui/queries";
+import { config } from "@infrastructure/config/env";
+import { routes } from "@ui/routes/routes";
+import {
+  InvalidSharedListError,
+  InvalidSharedListReason,
+} from "@domain/character/valueObjects/SharedList";
+import { AddSharedFavoritesResult } from "@application/character/useCases/AddSharedFavorites";
+import { logger } from "@infrastructure/logging/Logger";
+import styles from "./SharedPage.module.scss";
+
+const INVALID_LINK_MESSAGES: Record<InvalidSharedListReason, string> = {
+  empty: "This link doesn't contain any characters.",
+  too_long: "This link is too long to be a favorites link.",
+  malformed: "This link is incomplete or was not created by this app.",
+  unsupported_version:
+    "This link was created by a newer version of the app and can't be opened.",
+  corrupted:
+    "This link was changed or cut off. Ask for the link to be sent again.",
+};
+
+/**
+ * Shared Page
+ *
+ * Read-only view of a favorites list shared as a link (`/shared?list=...`).
+ *
+ * Features:
+ * - Characters shown in the order they were shared
+ * - "Add all" adds the list to the visitor's own favorites
+ * - Characters that no longer exist are reported, not fatal
+ * - Invalid or tampered links get an explanation instead of an error
+ */
+export const SharedPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const payload = searchParams.get("list") ?? "";
+  const { isFavorite, toggleFavorite, refreshCount } = useFavorites();
+  const { addSharedFavorites } = useUseCases();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useSharedList(payload);
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [result, setResult] = useState<AddSharedFavoritesResult | null>(null);
+  const [addError, setAddError] = useState<string | null>(null);
+
+  const handleAddAll = async () => {
+    if (!data) return;
+
+    try {
+      setIsAdding(true);
+      setAddError(null);
+      setResult(await addSharedFavorites.execute(data.characters));
+      await refreshCount();
+      void queryClient.invalidateQueries({ queryKey: ["favorites"] });
+    } catch (err) {
+      logger.error("Failed to add shared favorites", err);
+      setAddError("The characters could not be added to your favorites.");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const seo = (
+    <SEO
+      title="Shared Favorites - Marvel Characters"
+      description="A list of favorite Marvel characters shared with you."
+      image={`${config.appUrl}/marvel-logo.png`}
+      type="website"
+      canonicalUrl={`${config.appUrl}${routes.shared}`}
+    />
+  );
+
+  if (isLoading) {
+    return <div className={styles.sharedPage} id="main-content" />;
+  }
+
+  if (error || !data) {
+    return (
+      <>
+        {seo}
+        <div className={styles.sharedPage} id="main-content">
+          <div className={styles.sharedPage__emptyState}>
+            <h1 className={styles.sharedPage__heading}>
+              {error instanceof InvalidSharedListError
+                ? "Invalid Link"
+                : "List Unavailable"}
+            </h1>
+            <p className={styles.sharedPage__message}>
+              {error instanceof InvalidSharedListError
+                ? INVALID_LINK_MESSAGES[error.reason]
+                : "The shared characters could not be loaded. Try again later."}
+            </p>
+            <Link to={routes.home} variant="primary">
+              Browse All Characters
+            </Link>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  const missingCount = data.notFound.length + data.failed.length;
+
+  return (
+    <>
+      {seo}
+      <div className={styles.sharedPage} id="main-content">
+        <h1 className={styles.sharedPage__title}>SHARED FAVORITES</h1>
+
+        <div className={styles.sharedPage__actions}>
+          <Button
+            type="button"
+            size="sm"
+            loading={isAdding}
+            onClick={() => void handleAddAll()}
+            disabled={data.characters.length === 0}
+          >
+            ADD ALL TO MY FAVORITES
+          </Button>
+        </div>
+
+        {result && (
+          <p role="status" className={styles.sharedPage__notice}>
+            Added {result.added}{" "}
+            {result.added === 1 ? "character" : "characters"} to your favorites
+            {result.alreadyFavorites > 0 &&
+              ` (${result.alreadyFavorites} already there)`}
+            .
+          </p>
+        )}
+
+        {addError && (
+          <p role="alert" className={styles.sharedPage__error}>
+            {addError}
+          </p>
+        )}
+
+        <div className={styles.sharedPage__resultsCount}>
+          {data.characters.length} RESULTS
+        </div>
+
+        {missingCount > 0 && (
+          <p className={styles.sharedPage__notice}>
+            {missingCount} shared{" "}
+            {missingCount === 1 ? "character" : "characters"} could not be
+            found.
+          </p>
+        )}
+
+        <div className={styles.sharedPage__grid}>
+          {data.characters.map((character) => (
+            <CharacterCard
+              key={character.id.value}
+              id={character.id.value}
+              name={character.name.value}
+              imageUrl={character.getThumbnailUrl("portrait_uncanny")}
+              isFavorite={isFavorite(character.id.value)}
+              onToggleFavorite={() =>
+                void toggleFavorite(character.id.value, character)
+              }
+            />
+          ))}
+        </div>
+      </div>
+    </>
+  );
+};
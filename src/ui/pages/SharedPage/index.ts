@@ -0,0 +1 @@
+export { SharedPage } from "./SharedPage";
@@ -0,0 +1,201 @@
+/**
+ * TeamPage Tests
+ *
+ * Tests for the team view: the team's name and description, its roster of
+ * members, missing members, and teams that can't be loaded.
+ */
+
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import { TeamPage } from "./TeamPage";
+import { Team } from "@domain/character/entities/Team";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
+import { TeamId } from "@domain/character/valueObjects/TeamId";
+import { TeamNotFoundError } from "@application/character/useCases/GetTeamDetail";
+
+const mockToggleFavorite = jest.fn();
+const mockUseTeamDetail = jest.fn();
+const mockUseTeamMembers = jest.fn();
+
+jest.mock("@ui/state/FavoritesContext", () => ({
+  useFavorites: () => ({
+    isFavorite: (id: number) => id === 1,
+    toggleFavorite: mockToggleFavorite,
+  }),
+}));
+
+jest.mock("@ui/state/DependenciesContext", () => ({
+  useServices: () => ({
+    seo: {
+      updateMetadata: jest.fn(),
+      addStructuredData: jest.fn(),
+      removeStructuredData: jest.fn(),
+      reset: jest.fn(),
+    },
+  }),
+}));
+
+jest.mock("@ui/queries", () => ({
+  useTeamDetail: (...args: unknown[]) => mockUseTeamDetail(...args),
+  useTeamMembers: (...args: unknown[]) => mockUseTeamMembers(...args),
+}));
+
+// Mock CharacterCard to render character names and the favorite toggle
+jest.mock("@ui/designSystem/molecules/CharacterCard/CharacterCard", () => ({
+  CharacterCard: ({
+    name,
+    isFavorite,
+    onToggleFavorite,
+  }: {
+    name: string;
+    isFavorite: boolean;
+    onToggleFavorite: () => void;
+  }) => (
+    <div data-testid="character-card">
+      {name}
+      <button
+        type="button"
+        aria-pressed={isFavorite}
+        onClick={onToggleFavorite}
+      >
+        Favorite {name}
+      </button>
+    </div>
+  ),
+}));
+
+const character = (id: number, name: string) =>
+  new CharacterSummary({
+    id: new CharacterId(id),
+    name: new CharacterName(name),
+    deck: "",
+    thumbnail: new ImageUrl("https://example.com/image", "jpg"),
+  });
+
+const team = new Team({
+  id: new TeamId(3806),
+  name: "Avengers",
+  description: "Earth's Mightiest Heroes.",
+  image: new ImageUrl("https://example.com/avengers", "jpg"),
+  memberIds: [new CharacterId(1), new CharacterId(2), new CharacterId(3)],
+});
+
+describe("TeamPage", () => {
+  const characters = [character(1, "Iron Man"), character(2, "Thor")];
+
+  const renderPage = (url = "/team/3806") =>
+    render(
+      <MemoryRouter initialEntries={[url]}>
+        <Routes>
+          <Route path="/team/:id" element={<TeamPage />} />
+        </Routes>
+      </MemoryRouter>,
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUseTeamDetail.mockReturnValue({
+      data: team,
+      isLoading: false,
+      error: null,
+    });
+    mockUseTeamMembers.mockReturnValue({
+      data: { characters, missing: 1 },
+      isLoading: false,
+    });
+  });
+
+  it("should fetch the team from the route id", () => {
+    renderPage();
+
+    expect(mockUseTeamDetail).toHaveBeenCalledWith(3806);
+    expect(mockUseTeamMembers).toHaveBeenCalledWith(3806);
+  });
+
+  it("should show the team name and description", () => {
+    renderPage();
+
+    expect(
+      screen.getByRole("heading", { level: 1, name: "Avengers" }),
+    ).toBeInTheDocument();
+    expect(screen.getByText("Earth's Mightiest Heroes.")).toBeInTheDocument();
+  });
+
+  it("should list the members in roster order", () => {
+    renderPage();
+
+    const cards = screen.getAllByTestId("character-card");
+    expect(cards).toHaveLength(2);
+    expect(cards[0]).toHaveTextContent("Iron Man");
+    expect(cards[1]).toHaveTextContent("Thor");
+    expect(screen.getByText("2 MEMBERS")).toBeInTheDocument();
+  });
+
+  it("should report members that could not be loaded", () => {
+    renderPage();
+
+    expect(
+      screen.getByText("1 member could not be loaded."),
+    ).toBeInTheDocument();
+  });
+
+  it("should report the whole roster when the members fail to load", () => {
+    mockUseTeamMembers.mockReturnValue({
+      data: undefined,
+      isLoading: false,
+    });
+
+    renderPage();
+
+    expect(screen.getByText("0 MEMBERS")).toBeInTheDocument();
+    expect(
+      screen.getByText("3 members could not be loaded."),
+    ).toBeInTheDocument();
+  });
+
+  it("should show favorites and toggle them with the character", async () => {
+    const user = userEvent.setup();
+    renderPage();
+
+    expect(
+      screen.getByRole("button", { name: "Favorite Iron Man" }),
+    ).toHaveAttribute("aria-pressed", "true");
+
+    await user.click(screen.getByRole("button", { name: "Favorite Thor" }));
+
+    expect(mockToggleFavorite).toHaveBeenCalledWith(2, characters[1]);
+  });
+
+  it("should render nothing while loading", () => {
+    mockUseTeamDetail.mockReturnValue({
+      data: undefined,
+      isLoading: true,
+      error: null,
+    });
+
+    renderPage();
+
+    expect(screen.queryByRole("heading")).not.toBeInTheDocument();
+  });
+
+  it("should show a not found state when the team can't be loaded", () => {
+    mockUseTeamDetail.mockReturnValue({
+      data: undefined,
+      isLoading: false,
+      error: new TeamNotFoundError(3806),
+    });
+
+    renderPage();
+
+    expect(
+      screen.getByRole("heading", { name: "Team Not Found" }),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("link", { name: "Browse All Characters" }),
+    ).toHaveAttribute("href", "/");
+  });
+});
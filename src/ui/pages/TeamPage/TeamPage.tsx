@@ -0,0 +1,110 @@
+import React from "react";
+import { useParams } from "react-router-dom";
+import { CharacterCard } from "@ui/designSystem/molecules/CharacterCard/CharacterCard";
+import { Link } from "@ui/designSystem/atoms/Link/Link";
+import { SEO } from "@ui/components/SEO";
+import { useFavorites } from "@ui/state/FavoritesContext";
+import { useTeamDetail, useTeamMembers } from "@ui/queries";
+import { config } from "@infrastructure/config/env";
+import { routes } from "@ui/routes/routes";
+import styles from "./TeamPage.module.scss";
+
+/**
+ * Team Page
+ *
+ * Shows a team (`/team/:id`) and the characters on its roster.
+ *
+ * Features:
+ * - Members shown in roster order, as cards linking to their detail pages
+ * - Members can be favorited straight from the grid
+ * - Members that no longer exist are reported, not fatal
+ */
+export const TeamPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { isFavorite, toggleFavorite } = useFavorites();
+
+  // Parse team ID
+  const teamId = id ? Number(id) : 0;
+
+  const {
+    data: team,
+    isLoading: isTeamLoading,
+    error: teamError,
+  } = useTeamDetail(teamId);
+  const { data: members, isLoading: areMembersLoading } =
+    useTeamMembers(teamId);
+
+  if (isTeamLoading || areMembersLoading) {
+    return <div className={styles.teamPage} id="main-content" />;
+  }
+
+  if (teamError || !team) {
+    return (
+      <div className={styles.teamPage} id="main-content">
+        <div className={styles.teamPage__emptyState}>
+          <h1 className={styles.teamPage__heading}>Team Not Found</h1>
+          <p className={styles.teamPage__message}>
+            Unable to load this team. This may be due to an API error or the
+            team may not exist.
+          </p>
+          <Link to={routes.home} variant="primary">
+            Browse All Characters
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const characters = members?.characters ?? [];
+  // Whole roster counts as missing when the members request failed
+  const missingCount = members ? members.missing : team.memberCount;
+
+  return (
+    <>
+      <SEO
+        title={`${team.name} - Marvel Team | Members`}
+        description={
+          team.hasDescription()
+            ? `${team.name}: ${team.description.substring(0, 150)}`
+            : `Meet the members of ${team.name}, a Marvel team.`
+        }
+        image={team.image.url}
+        type="website"
+        canonicalUrl={`${config.appUrl}${routes.teamDetail(team.id.value)}`}
+      />
+      <div className={styles.teamPage} id="main-content">
+        <h1 className={styles.teamPage__title}>{team.name}</h1>
+
+        {team.hasDescription() && (
+          <p className={styles.teamPage__description}>{team.description}</p>
+        )}
+
+        <div className={styles.teamPage__resultsCount}>
+          {characters.length} {characters.length === 1 ? "MEMBER" : "MEMBERS"}
+        </div>
+
+        {missingCount > 0 && (
+          <p className={styles.teamPage__notice}>
+            {missingCount} {missingCount === 1 ? "member" : "members"} could not
+            be loaded.
+          </p>
+        )}
+
+        <div className={styles.teamPage__grid}>
+          {characters.map((character) => (
+            <CharacterCard
+              key={character.id.value}
+              id={character.id.value}
+              name={character.name.value}
+              imageUrl={character.getThumbnailUrl("portrait_uncanny")}
+              isFavorite={isFavorite(character.id.value)}
+              onToggleFavorite={() =>
+                void toggleFavorite(character.id.value, character)
+              }
+            />
+          ))}
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1 @@
+export { TeamPage } from "./TeamPage";
@@ -0,0 +1,13 @@
+import React from "react";
+import { useRevalidationSync } from "@ui/queries";
+
+/**
+ * Subscribes React Query to API cache revalidations for the whole app.
+ * Must be rendered inside both DependenciesProvider and QueryProvider.
+ */
+export const RevalidationSync: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  useRevalidationSync();
+  return <>{children}</>;
+};
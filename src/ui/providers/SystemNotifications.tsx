@@ -0,0 +1,13 @@
+import React from "react";
+import { useSystemNotifications } from "@ui/hooks/useSystemNotifications";
+
+/**
+ * Shows rate limit and connectivity toasts for the whole app.
+ * Must be rendered inside both DependenciesProvider and ToastProvider.
+ */
+export const SystemNotifications: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  useSystemNotifications();
+  return <>{children}</>;
+};
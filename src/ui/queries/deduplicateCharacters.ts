@@ -0,0 +1,28 @@
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+
+/**
+ * Deduplicate characters by ID
+ * Prevents duplicate characters if same page is fetched twice
+ *
+ * Shared by the infinite queries that flatten their pages into one grid.
+ *
+ * @example
+ * ```typescript
+ * const characters = deduplicateCharacters(
+ *   data.pages.flatMap((page) => page.items),
+ * );
+ * ```
+ */
+export function deduplicateCharacters(
+  characters: CharacterSummary[],
+): CharacterSummary[] {
+  const seen = new Set<number>();
+  return characters.filter((character) => {
+    const id = character.id.value;
+    if (seen.has(id)) {
+      return false;
+    }
+    seen.add(id);
+    return true;
+  });
+}
@@ -8,4 +8,15 @@
 export { useCharactersList } from "./useCharactersList";
 export { useCharactersSearch } from "./useCharactersSearch";
 export { useCharacterDetail } from "./useCharacterDetail";
+export { useCharacterRelationships } from "./useCharacterRelationships";
 export { useFavoritesList } from "./useFavoritesList";
+export {
+  useCollections,
+  useCollectionActions,
+  useCollectionMenu,
+  COLLECTIONS_QUERY_KEY,
+} from "./useCollections";
+export { useSharedList } from "./useSharedList";
+export { useTeamDetail, useTeamMembers } from "./useTeam";
+export { usePowerDetail, usePowerCharacters } from "./usePower";
+export { useRevalidationSync } from "./useRevalidationSync";
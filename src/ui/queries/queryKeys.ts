@@ -16,6 +16,11 @@
  * - ['characters', 'search', query] - Search results
  * - ['characters', 'detail', id] - Single character
  * - ['characters', 'comics', id] - Character's comics
+ * - ['characters', 'relationships', id] - Character's allies and enemies
+ * - ['teams', 'detail', id] - Single team
+ * - ['teams', 'members', id] - Team's roster
+ * - ['powers', 'detail', id] - Single power
+ * - ['powers', 'characters', id] - Power's characters (infinite scroll)
  *
  * @example
  * ```typescript
@@ -68,5 +73,64 @@ export const queryKeys = {
     comicsLists: () => [...queryKeys.characters.all, "comics"] as const,
     comics: (characterId: number) =>
       [...queryKeys.characters.comicsLists(), characterId] as const,
+
+    /**
+     * Character allies and enemies queries
+     * @param characterId - Character ID
+     */
+    relationshipsLists: () =>
+      [...queryKeys.characters.all, "relationships"] as const,
+    relationships: (characterId: number) =>
+      [...queryKeys.characters.relationshipsLists(), characterId] as const,
+  },
+
+  /**
+   * All team-related queries
+   */
+  teams: {
+    /**
+     * Base key for all team queries
+     */
+    all: ["teams"] as const,
+
+    /**
+     * Single team detail queries
+     * @param id - Team ID
+     */
+    details: () => [...queryKeys.teams.all, "detail"] as const,
+    detail: (id: number) => [...queryKeys.teams.details(), id] as const,
+
+    /**
+     * Team roster queries
+     * @param teamId - Team ID
+     */
+    membersLists: () => [...queryKeys.teams.all, "members"] as const,
+    members: (teamId: number) =>
+      [...queryKeys.teams.membersLists(), teamId] as const,
+  },
+
+  /**
+   * All power-related queries
+   */
+  powers: {
+    /**
+     * Base key for all power queries
+     */
+    all: ["powers"] as const,
+
+    /**
+     * Single power detail queries
+     * @param id - Power ID
+     */
+    details: () => [...queryKeys.powers.all, "detail"] as const,
+    detail: (id: number) => [...queryKeys.powers.details(), id] as const,
+
+    /**
+     * Power characters queries (infinite scroll)
+     * @param powerId - Power ID
+     */
+    charactersLists: () => [...queryKeys.powers.all, "characters"] as const,
+    characters: (powerId: number) =>
+      [...queryKeys.powers.charactersLists(), powerId] as const,
   },
 } as const;
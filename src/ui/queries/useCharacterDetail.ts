@@ -29,7 +29,7 @@ import { queryKeys } from "./queryKeys";
  *
  * if (isLoading) return <Spinner />;
  * if (!character) return <NotFound />;
- * return <CharacterProfile character={character} />;
+ * return <CharacterDetail character={character} />;
  * ```
  */
 export function useCharacterDetail(
@@ -0,0 +1,39 @@
+import { useQuery } from "@tanstack/react-query";
+import { useUseCases } from "@ui/state";
+import { CharacterNotFoundError } from "@application/character/useCases/GetCharacterDetail";
+import { queryKeys } from "./queryKeys";
+
+/**
+ * useCharacterRelationships Hook
+ *
+ * React Query hook for a character's allies and enemies.
+ * Wraps the ListCharacterRelationships use case with caching.
+ *
+ * Runs as its own request, so callers can wait for the detail to load
+ * first and keep the page's first request small.
+ *
+ * @param characterId - Character ID whose relationships to fetch
+ * @param enabled - Whether the query should run (default: true)
+ *
+ * @example
+ * ```typescript
+ * const { data } = useCharacterRelationships(1699, Boolean(character));
+ * data?.allies.map((ally) => <CharacterCard ... />);
+ * ```
+ */
+export function useCharacterRelationships(
+  characterId: number,
+  enabled: boolean = true,
+) {
+  const { listCharacterRelationships } = useUseCases();
+
+  return useQuery({
+    queryKey: queryKeys.characters.relationships(characterId),
+    queryFn: async () => await listCharacterRelationships.execute(characterId),
+    enabled: enabled && characterId > 0,
+    // Retry on failure (but not when the character doesn't exist)
+    retry: (failureCount, error) =>
+      !(error instanceof CharacterNotFoundError) && failureCount < 3,
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -2,7 +2,7 @@ import { useInfiniteQuery } from "@tanstack/react-query";
 import { useUseCases } from "@ui/state";
 import { queryKeys } from "./queryKeys";
 import { PAGINATION } from "@config/constants";
-import { Character } from "@domain/character/entities/Character";
+import { deduplicateCharacters } from "./deduplicateCharacters";
 
 /**
  * useCharactersList Hook
@@ -72,19 +72,3 @@ export function useCharactersList() {
     }),
   });
 }
-
-/**
- * Deduplicate characters by ID
- * Prevents duplicate characters if same page is fetched twice
- */
-function deduplicateCharacters(characters: Character[]): Character[] {
-  const seen = new Set<number>();
-  return characters.filter((character) => {
-    const id = character.id.value;
-    if (seen.has(id)) {
-      return false;
-    }
-    seen.add(id);
-    return true;
-  });
-}
@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { useDependencyContainer, useFavorites, useUseCases } from "@ui/state";
+import type { CollectionMenuProps } from "@ui/designSystem/molecules/FavoriteButton/FavoriteButton";
+import { logger } from "@infrastructure/logging/Logger";
+
+/**
+ * Collections query key (under "favorites" so favorites invalidations cover it)
+ */
+export const COLLECTIONS_QUERY_KEY = ["favorites", "collections"] as const;
+
+/**
+ * React Query hook for the user's favorite collections.
+ *
+ * Collections are local data: the query runs offline too. It's invalidated on
+ * every collection change, from this tab or another one.
+ */
+export function useCollections() {
+  const { listCollections } = useUseCases();
+  const { repositories } = useDependencyContainer();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    return repositories.collections.subscribe(() => {
+      void queryClient.invalidateQueries({ queryKey: COLLECTIONS_QUERY_KEY });
+    });
+  }, [repositories.collections, queryClient]);
+
+  return useQuery({
+    queryKey: COLLECTIONS_QUERY_KEY,
+    queryFn: async () => await listCollections.execute(),
+    networkMode: "always",
+  });
+}
+
+/**
+ * Collection actions wrapping the collection use cases.
+ *
+ * Errors (invalid names, storage failures...) are rethrown for the caller to
+ * display. Adding to a collection may add a favorite, so the favorites state
+ * is refreshed afterwards.
+ */
+export function useCollectionActions() {
+  const {
+    createCollection,
+    deleteCollection,
+    addToCollection,
+    removeFromCollection,
+    updateCollectionEntry,
+  } = useUseCases();
+  const { refreshCount } = useFavorites();
+  const queryClient = useQueryClient();
+
+  const add = useCallback(
+    async (
+      collectionId: string,
+      characterId: number,
+      character?: CharacterSummary,
+    ) => {
+      await addToCollection.execute(collectionId, characterId, character);
+      await refreshCount();
+      void queryClient.invalidateQueries({ queryKey: ["favorites", "list"] });
+    },
+    [addToCollection, refreshCount, queryClient],
+  );
+
+  return useMemo(
+    () => ({
+      create: async (name: string) => await createCollection.execute(name),
+      remove: async (collectionId: string) =>
+        await deleteCollection.execute(collectionId),
+      addCharacter: add,
+      removeCharacter: async (collectionId: string, characterId: number) =>
+        await removeFromCollection.execute(collectionId, characterId),
+      updateEntry: async (
+        collectionId: string,
+        characterId: number,
+        details: { note?: string; tags?: string[] },
+      ) =>
+        await updateCollectionEntry.execute(collectionId, characterId, details),
+    }),
+    [
+      createCollection,
+      deleteCollection,
+      add,
+      removeFromCollection,
+      updateCollectionEntry,
+    ],
+  );
+}
+
+/**
+ * FavoriteButton collection menu props for a character
+ *
+ * Returns undefined until both the character and the collections are loaded.
+ * Failures are logged; the menu reflects the stored state on the next refetch.
+ */
+export function useCollectionMenu(
+  character: CharacterSummary | undefined,
+): CollectionMenuProps | undefined {
+  const { data: collections } = useCollections();
+  const actions = useCollectionActions();
+
+  const onToggleCollection = useCallback(
+    (collectionId: string, selected: boolean) => {
+      if (!character) return;
+
+      const characterId = character.id.value;
+      const action = selected
+        ? actions.addCharacter(collectionId, characterId, character)
+        : actions.removeCharacter(collectionId, characterId);
+
+      action.catch((error: unknown) => {
+        logger.error("Failed to update collection", error, {
+          collectionId,
+          characterId,
+        });
+      });
+    },
+    [actions, character],
+  );
+
+  const onCreateCollection = useCallback(
+    (name: string) => {
+      if (!character) return;
+
+      actions
+        .create(name)
+        .then((collection) =>
+          actions.addCharacter(collection.id, character.id.value, character),
+        )
+        .catch((error: unknown) => {
+          logger.error("Failed to create collection", error, { name });
+        });
+    },
+    [actions, character],
+  );
+
+  return useMemo(() => {
+    if (!character || !collections) return undefined;
+
+    return {
+      collections: collections.map((collection) => ({
+        id: collection.id,
+        name: collection.name,
+        selected: collection.contains(character.id),
+      })),
+      onToggleCollection,
+      onCreateCollection,
+    };
+  }, [character, collections, onToggleCollection, onCreateCollection]);
+}
@@ -6,11 +6,23 @@ import { useUseCases } from "@ui/state";
  *
  * Wraps ListFavorites use case with caching and auto-refetch on invalidation.
  * Automatically refetches when navigating to favorites page after toggling.
+ *
+ * Renders the stored snapshots first (no API call, works offline) while the
+ * API data loads in the background, then switches to the fresh data.
  */
 export function useFavoritesList() {
   const { listFavorites } = useUseCases();
 
-  return useQuery({
+  // Local data only: run even when the browser reports being offline
+  const snapshotQuery = useQuery({
+    queryKey: ["favorites", "snapshot"],
+    queryFn: async () => await listFavorites.executeFromSnapshot(),
+    staleTime: 0,
+    refetchOnMount: true,
+    networkMode: "always",
+  });
+
+  const listQuery = useQuery({
     // Stable key for proper invalidation when favorites change
     queryKey: ["favorites", "list"],
     queryFn: async () => await listFavorites.execute(),
@@ -25,4 +37,16 @@ export function useFavoritesList() {
     // Graceful error handling
     select: (data) => data ?? [],
   });
+
+  const snapshot = snapshotQuery.data;
+  const showSnapshot = listQuery.data === undefined && snapshot !== undefined;
+
+  return {
+    ...listQuery,
+    data: showSnapshot ? snapshot : listQuery.data,
+    // Only "loading" while there's nothing at all to show
+    isLoading: listQuery.isLoading && !showSnapshot,
+    // Snapshot shown while the API data loads in the background
+    isShowingSnapshot: showSnapshot,
+  };
 }
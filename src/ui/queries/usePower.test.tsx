@@ -0,0 +1,85 @@
+/**
+ * usePower Tests
+ *
+ * Tests that power queries only run for IDs a route can name and that
+ * character pages are flattened without duplicates.
+ */
+
+import React from "react";
+import { renderHook, waitFor } from "@testing-library/react";
+import { QueryClientProvider } from "@tanstack/react-query";
+import { usePowerCharacters, usePowerDetail } from "./usePower";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterName } from "@domain/character/valueObjects/CharacterName";
+import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
+import { PAGINATION } from "@config/constants";
+import { createTestQueryClient } from "@tests/queryTestUtils";
+
+const mockGetPowerDetail = jest.fn();
+const mockListPowerCharacters = jest.fn();
+
+jest.mock("@ui/state", () => ({
+  useUseCases: () => ({
+    getPowerDetail: { execute: mockGetPowerDetail },
+    listPowerCharacters: { execute: mockListPowerCharacters },
+  }),
+}));
+
+const character = (id: number) =>
+  new CharacterSummary({
+    id: new CharacterId(id),
+    name: new CharacterName(`Character ${id}`),
+    deck: "",
+    thumbnail: new ImageUrl("https://example.com/image", "jpg"),
+  });
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <QueryClientProvider client={createTestQueryClient()}>
+    {children}
+  </QueryClientProvider>
+);
+
+describe("usePower", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should not run the queries for IDs that aren't positive integers", () => {
+    for (const powerId of [0, -1, 1.5, NaN]) {
+      const detail = renderHook(() => usePowerDetail(powerId), { wrapper });
+      const characters = renderHook(() => usePowerCharacters(powerId), {
+        wrapper,
+      });
+
+      expect(detail.result.current.fetchStatus).toBe("idle");
+      expect(characters.result.current.fetchStatus).toBe("idle");
+    }
+
+    expect(mockGetPowerDetail).not.toHaveBeenCalled();
+    expect(mockListPowerCharacters).not.toHaveBeenCalled();
+  });
+
+  it("should flatten character pages without duplicates", async () => {
+    mockListPowerCharacters.mockResolvedValue({
+      items: [character(1), character(2), character(1)],
+      total: 2,
+      offset: 0,
+      limit: PAGINATION.DEFAULT_LIMIT,
+    });
+
+    const { result } = renderHook(() => usePowerCharacters(1135), {
+      wrapper,
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(mockListPowerCharacters).toHaveBeenCalledWith(1135, {
+      limit: PAGINATION.DEFAULT_LIMIT,
+      offset: 0,
+    });
+    expect(result.current.data?.characters.map(({ id }) => id.value)).toEqual([
+      1, 2,
+    ]);
+    expect(result.current.hasNextPage).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { useUseCases } from "@ui/state";
+import { PowerNotFoundError } from "@application/character/useCases/GetPowerDetail";
+import { PAGINATION } from "@config/constants";
+import { queryKeys } from "./queryKeys";
+import { deduplicateCharacters } from "./deduplicateCharacters";
+
+/**
+ * Whether a route-parsed power ID can be fetched
+ *
+ * `/powers/1.5` parses to a positive number that PowerId rejects, so the
+ * query would only fail (and retry) with a validation error. It never runs.
+ */
+function isValidPowerId(powerId: number): boolean {
+  return Number.isInteger(powerId) && powerId > 0;
+}
+
+/**
+ * Retry failed power queries, except when the power doesn't exist
+ */
+function retryUnlessNotFound(failureCount: number, error: unknown): boolean {
+  return !(error instanceof PowerNotFoundError) && failureCount < 3;
+}
+
+/**
+ * usePowerDetail Hook
+ *
+ * React Query hook for a single power (name, description, character IDs).
+ * Wraps the GetPowerDetail use case with caching.
+ *
+ * @param powerId - Power ID to fetch
+ *
+ * @example
+ * ```typescript
+ * const { data: power, isLoading, error } = usePowerDetail(1135);
+ * ```
+ */
+export function usePowerDetail(powerId: number) {
+  const { getPowerDetail } = useUseCases();
+
+  return useQuery({
+    queryKey: queryKeys.powers.detail(powerId),
+    queryFn: async () => await getPowerDetail.execute(powerId),
+    enabled: isValidPowerId(powerId),
+    retry: retryUnlessNotFound,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * usePowerCharacters Hook
+ *
+ * React Query hook for the Marvel characters with a power, with infinite scroll.
+ * Wraps the ListPowerCharacters use case with caching.
+ *
+ * Pages are cut from the power's character IDs, so the next offset follows
+ * the last page's `offset + limit` rather than the number of characters loaded.
+ *
+ * @param powerId - Power ID whose characters to fetch
+ *
+ * @example
+ * ```typescript
+ * const { data, fetchNextPage, hasNextPage } = usePowerCharacters(1135);
+ * data?.characters.map((character) => <CharacterCard ... />);
+ * ```
+ */
+export function usePowerCharacters(powerId: number) {
+  const { listPowerCharacters } = useUseCases();
+
+  return useInfiniteQuery({
+    queryKey: queryKeys.powers.characters(powerId),
+    queryFn: async ({ pageParam = 0 }) => {
+      return await listPowerCharacters.execute(powerId, {
+        limit: PAGINATION.DEFAULT_LIMIT,
+        offset: pageParam,
+      });
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => {
+      const nextOffset = lastPage.offset + lastPage.limit;
+      return nextOffset < lastPage.total ? nextOffset : undefined;
+    },
+    enabled: isValidPowerId(powerId),
+    retry: retryUnlessNotFound,
+    staleTime: 5 * 60 * 1000,
+    select: (data) => ({
+      pages: data.pages,
+      pageParams: data.pageParams,
+      // Deduplicate characters across pages by ID
+      characters: deduplicateCharacters(
+        data.pages.flatMap((page) => page.items),
+      ),
+    }),
+  });
+}
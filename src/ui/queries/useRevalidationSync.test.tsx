@@ -0,0 +1,134 @@
+/**
+ * useRevalidationSync Tests
+ *
+ * Tests endpoint-to-query-key mapping and invalidation of React Query
+ * caches when the API client reports a changed revalidated payload.
+ */
+
+import React from "react";
+import { renderHook } from "@testing-library/react";
+import { QueryClientProvider } from "@tanstack/react-query";
+import {
+  getRevalidatedQueryKeys,
+  useRevalidationSync,
+} from "./useRevalidationSync";
+import { DependenciesProvider } from "@ui/state";
+import { DependencyContainer } from "@infrastructure/dependencies/DependencyContainer";
+import {
+  ComicVineApiClient,
+  RevalidationEvent,
+} from "@infrastructure/http/ComicVineApiClient";
+import { CharacterRepository } from "@domain/character/ports/CharacterRepository";
+import { FavoritesRepository } from "@domain/character/ports/FavoritesRepository";
+import { createTestQueryClient } from "@tests/queryTestUtils";
+import { queryKeys } from "./queryKeys";
+
+describe("getRevalidatedQueryKeys", () => {
+  it("maps character lists", () => {
+    expect(
+      getRevalidatedQueryKeys({
+        endpoint: "/characters/",
+        params: { filter: "publisher:31", limit: 50, offset: 0 },
+      }),
+    ).toEqual([queryKeys.characters.lists()]);
+  });
+
+  it("maps name searches", () => {
+    expect(
+      getRevalidatedQueryKeys({
+        endpoint: "/characters/",
+        params: { filter: "publisher:31,name:Spider" },
+      }),
+    ).toEqual([queryKeys.characters.searches()]);
+  });
+
+  it("maps character details, relationships and the favorites list", () => {
+    expect(
+      getRevalidatedQueryKeys({
+        endpoint: "/character/4005-1443/",
+        params: undefined,
+      }),
+    ).toEqual([
+      queryKeys.characters.detail(1443),
+      queryKeys.characters.relationships(1443),
+      ["favorites", "list"],
+    ]);
+  });
+
+  it("maps issues to comics queries", () => {
+    expect(
+      getRevalidatedQueryKeys({ endpoint: "/issues/", params: undefined }),
+    ).toEqual([queryKeys.characters.comicsLists()]);
+  });
+
+  it("maps a team to its detail and roster", () => {
+    expect(
+      getRevalidatedQueryKeys({
+        endpoint: "/team/4060-3806/",
+        params: undefined,
+      }),
+    ).toEqual([queryKeys.teams.detail(3806), queryKeys.teams.members(3806)]);
+  });
+
+  it("maps a power to its detail and characters", () => {
+    expect(
+      getRevalidatedQueryKeys({
+        endpoint: "/power/4035-1135/",
+        params: undefined,
+      }),
+    ).toEqual([
+      queryKeys.powers.detail(1135),
+      queryKeys.powers.characters(1135),
+    ]);
+  });
+
+  it("ignores unknown endpoints", () => {
+    expect(
+      getRevalidatedQueryKeys({ endpoint: "/volumes/", params: undefined }),
+    ).toEqual([]);
+  });
+});
+
+describe("useRevalidationSync", () => {
+  it("invalidates affected queries on revalidation", () => {
+    let emit: (event: RevalidationEvent) => void = () => {};
+    const unsubscribe = jest.fn();
+    const apiClient = {
+      onRevalidate: jest.fn((listener) => {
+        emit = listener;
+        return unsubscribe;
+      }),
+    } as unknown as ComicVineApiClient;
+
+    const container = DependencyContainer.createForTesting(
+      {} as CharacterRepository,
+      {} as FavoritesRepository,
+      undefined,
+      apiClient,
+    );
+    const queryClient = createTestQueryClient();
+    const invalidateSpy = jest.spyOn(queryClient, "invalidateQueries");
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <DependenciesProvider container={container}>
+        <QueryClientProvider client={queryClient}>
+          {children}
+        </QueryClientProvider>
+      </DependenciesProvider>
+    );
+
+    const { unmount } = renderHook(() => useRevalidationSync(), { wrapper });
+
+    emit({ endpoint: "/character/4005-7/", params: undefined, data: {} });
+
+    expect(invalidateSpy).toHaveBeenCalledWith({
+      queryKey: queryKeys.characters.detail(7),
+    });
+    expect(invalidateSpy).toHaveBeenCalledWith({
+      queryKey: ["favorites", "list"],
+    });
+
+    unmount();
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+});
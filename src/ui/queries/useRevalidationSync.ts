@@ -0,0 +1,85 @@
+import { useEffect } from "react";
+import { QueryKey, useQueryClient } from "@tanstack/react-query";
+import { useServices } from "@ui/state";
+import type { RevalidationEvent } from "@infrastructure/http/ComicVineApiClient";
+import { queryKeys } from "./queryKeys";
+
+/**
+ * Map a revalidated API endpoint to the React Query keys built from it
+ *
+ * - /characters/ with a name filter → search queries
+ * - /characters/ → character list queries
+ * - /character/4005-{id}/ → that character's detail and relationships + the favorites list
+ * - /issues/ → character comics queries
+ * - /team/4060-{id}/ → that team's detail and roster
+ * - /power/4035-{id}/ → that power's detail and characters
+ */
+export function getRevalidatedQueryKeys({
+  endpoint,
+  params,
+}: Pick<RevalidationEvent, "endpoint" | "params">): QueryKey[] {
+  if (endpoint.startsWith("/characters/")) {
+    const filter = String(params?.filter ?? "");
+    return filter.includes("name:")
+      ? [queryKeys.characters.searches()]
+      : [queryKeys.characters.lists()];
+  }
+
+  const detailMatch = endpoint.match(/^\/character\/4005-(\d+)\/?$/);
+  if (detailMatch) {
+    const characterId = Number(detailMatch[1]);
+    return [
+      queryKeys.characters.detail(characterId),
+      queryKeys.characters.relationships(characterId),
+      ["favorites", "list"],
+    ];
+  }
+
+  if (endpoint.startsWith("/issues/")) {
+    return [queryKeys.characters.comicsLists()];
+  }
+
+  const teamMatch = endpoint.match(/^\/team\/4060-(\d+)\/?$/);
+  if (teamMatch) {
+    const teamId = Number(teamMatch[1]);
+    return [queryKeys.teams.detail(teamId), queryKeys.teams.members(teamId)];
+  }
+
+  const powerMatch = endpoint.match(/^\/power\/4035-(\d+)\/?$/);
+  if (powerMatch) {
+    const powerId = Number(powerMatch[1]);
+    return [
+      queryKeys.powers.detail(powerId),
+      queryKeys.powers.characters(powerId),
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * useRevalidationSync Hook
+ *
+ * Keeps React Query caches in sync with the API client's stale-while-revalidate cache.
+ * When a background revalidation returns a changed payload, the affected queries
+ * are invalidated; their refetch is served from the now-fresh HTTP cache,
+ * so no extra API requests are made.
+ *
+ * @example
+ * ```typescript
+ * // Mounted once near the root, inside QueryProvider and DependenciesProvider
+ * useRevalidationSync();
+ * ```
+ */
+export function useRevalidationSync(): void {
+  const queryClient = useQueryClient();
+  const { apiClient } = useServices();
+
+  useEffect(() => {
+    return apiClient.onRevalidate((event) => {
+      getRevalidatedQueryKeys(event).forEach((queryKey) => {
+        void queryClient.invalidateQueries({ queryKey });
+      });
+    });
+  }, [apiClient, queryClient]);
+}
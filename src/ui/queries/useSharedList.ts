@@ -0,0 +1,37 @@
+import { useQuery } from "@tanstack/react-query";
+import { useUseCases } from "@ui/state";
+import { InvalidSharedListError } from "@domain/character/valueObjects/SharedList";
+
+/**
+ * useSharedList Hook
+ *
+ * React Query hook for the characters of a shared favorites link.
+ * Wraps the GetSharedList use case with caching.
+ *
+ * Features:
+ * - Cached per payload (5min stale time)
+ * - Invalid or tampered links fail at once (no retry)
+ * - Other failures are retried like any API call
+ *
+ * @param payload - Value of the `list` parameter of the shared link
+ *
+ * @example
+ * ```typescript
+ * const { data, error } = useSharedList(searchParams.get("list") ?? "");
+ * if (error instanceof InvalidSharedListError) return <InvalidLink />;
+ * ```
+ */
+export function useSharedList(payload: string) {
+  const { getSharedList } = useUseCases();
+
+  return useQuery({
+    queryKey: ["shared", payload],
+    queryFn: async () => await getSharedList.execute(payload),
+
+    // An invalid link stays invalid
+    retry: (failureCount, error) =>
+      !(error instanceof InvalidSharedListError) && failureCount < 3,
+
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,62 @@
+import { useQuery } from "@tanstack/react-query";
+import { useUseCases } from "@ui/state";
+import { TeamNotFoundError } from "@application/character/useCases/GetTeamDetail";
+import { queryKeys } from "./queryKeys";
+
+/**
+ * Retry failed team queries, except when the team doesn't exist
+ */
+function retryUnlessNotFound(failureCount: number, error: unknown): boolean {
+  return !(error instanceof TeamNotFoundError) && failureCount < 3;
+}
+
+/**
+ * useTeamDetail Hook
+ *
+ * React Query hook for a single team (name, description, image, roster IDs).
+ * Wraps the GetTeamDetail use case with caching.
+ *
+ * @param teamId - Team ID to fetch
+ *
+ * @example
+ * ```typescript
+ * const { data: team, isLoading, error } = useTeamDetail(3806);
+ * ```
+ */
+export function useTeamDetail(teamId: number) {
+  const { getTeamDetail } = useUseCases();
+
+  return useQuery({
+    queryKey: queryKeys.teams.detail(teamId),
+    queryFn: async () => await getTeamDetail.execute(teamId),
+    enabled: teamId > 0,
+    retry: retryUnlessNotFound,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * useTeamMembers Hook
+ *
+ * React Query hook for the characters on a team's roster.
+ * Wraps the ListTeamMembers use case with caching.
+ *
+ * @param teamId - Team ID whose roster to fetch
+ *
+ * @example
+ * ```typescript
+ * const { data } = useTeamMembers(3806);
+ * data?.characters.map((character) => <CharacterCard ... />);
+ * ```
+ */
+export function useTeamMembers(teamId: number) {
+  const { listTeamMembers } = useUseCases();
+
+  return useQuery({
+    queryKey: queryKeys.teams.members(teamId),
+    queryFn: async () => await listTeamMembers.execute(teamId),
+    enabled: teamId > 0,
+    retry: retryUnlessNotFound,
+    staleTime: 5 * 60 * 1000,
+  });
+}
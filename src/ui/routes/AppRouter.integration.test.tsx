@@ -11,10 +11,12 @@ import { MemoryRouter } from "react-router-dom";
 import { RouterContent } from "./AppRouter";
 import { DependenciesProvider } from "@ui/state/DependenciesContext";
 import { FavoritesProvider } from "@ui/state/FavoritesContext";
+import { ToastProvider } from "@ui/state/ToastContext";
 import { QueryProvider } from "@ui/providers/QueryProvider";
 import { createTestQueryClient } from "@tests/queryTestUtils";
-import { Character } from "@domain/character/entities/Character";
+import { CharacterDetail } from "@domain/character/entities/CharacterDetail";
 import { CharacterId } from "@domain/character/valueObjects/CharacterId";
+import { CharacterRelationships } from "@domain/character/valueObjects/CharacterRelationships";
 import { CharacterName } from "@domain/character/valueObjects/CharacterName";
 import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
 
@@ -22,7 +24,7 @@ import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
 global.scrollTo = jest.fn();
 
 // Create mock character
-const mockCharacter = new Character({
+const mockCharacter = new CharacterDetail({
   id: new CharacterId(1),
   name: new CharacterName("Spider-Man"),
   description: "Friendly neighborhood Spider-Man",
@@ -41,6 +43,17 @@ jest.mock("@infrastructure/repositories/ComicVineCharacterRepository", () => {
           limit: 50,
         }),
         findById: jest.fn().mockResolvedValue(mockCharacter),
+        findRelationships: jest
+          .fn()
+          .mockImplementation(
+            async (id: CharacterId) =>
+              new CharacterRelationships({ characterId: id }),
+          ),
+        findManyByIds: jest.fn().mockResolvedValue({
+          found: [mockCharacter],
+          notFound: [],
+          failed: [],
+        }),
         findComicsByCharacterId: jest.fn().mockResolvedValue({
           items: [],
           total: 0,
@@ -79,14 +92,19 @@ describe("AppRouter Integration Tests", () => {
     return render(
       <DependenciesProvider>
         <QueryProvider client={queryClient}>
-          <FavoritesProvider>
-            <MemoryRouter
-              initialEntries={[initialRoute]}
-              future={{ v7_startTransition: true, v7_relativeSplatPath: true }}
-            >
-              <RouterContent />
-            </MemoryRouter>
-          </FavoritesProvider>
+          <ToastProvider>
+            <FavoritesProvider>
+              <MemoryRouter
+                initialEntries={[initialRoute]}
+                future={{
+                  v7_startTransition: true,
+                  v7_relativeSplatPath: true,
+                }}
+              >
+                <RouterContent />
+              </MemoryRouter>
+            </FavoritesProvider>
+          </ToastProvider>
         </QueryProvider>
       </DependenciesProvider>,
     );
@@ -21,6 +21,10 @@ jest.mock("../pages/DetailPage/DetailPage", () => ({
   DetailPage: () => <div data-testid="detail-page">Detail Page</div>,
 }));
 
+jest.mock("../pages/SharedPage", () => ({
+  SharedPage: () => <div data-testid="shared-page">Shared Page</div>,
+}));
+
 // Mock React Query's useIsFetching
 jest.mock("@tanstack/react-query", () => ({
   useIsFetching: () => 0, // No queries fetching by default
@@ -101,6 +105,14 @@ describe("AppRouter", () => {
         expect(screen.getByTestId("detail-page")).toBeInTheDocument();
       });
     });
+
+    it("should render SharedPage on shared route", async () => {
+      renderRouter("/shared?list=AbC");
+
+      await waitFor(() => {
+        expect(screen.getByTestId("shared-page")).toBeInTheDocument();
+      });
+    });
   });
 
   describe("Router setup", () => {
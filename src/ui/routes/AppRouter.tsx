@@ -22,6 +22,21 @@ const DetailPage = lazy(() =>
     default: m.DetailPage,
   })),
 );
+const SharedPage = lazy(() =>
+  import("../pages/SharedPage").then((m) => ({
+    default: m.SharedPage,
+  })),
+);
+const TeamPage = lazy(() =>
+  import("../pages/TeamPage").then((m) => ({
+    default: m.TeamPage,
+  })),
+);
+const PowerPage = lazy(() =>
+  import("../pages/PowerPage").then((m) => ({
+    default: m.PowerPage,
+  })),
+);
 const NotFoundPage = lazy(() =>
   import("../pages/NotFoundPage").then((m) => ({
     default: m.NotFoundPage,
@@ -82,6 +97,9 @@ export const RouterContent: React.FC = () => {
               path={routes.characterDetailPattern}
               element={<DetailPage />}
             />
+            <Route path={routes.teamDetailPattern} element={<TeamPage />} />
+            <Route path={routes.powerDetailPattern} element={<PowerPage />} />
+            <Route path={routes.shared} element={<SharedPage />} />
             {/* Catch-all for unmatched routes */}
             <Route path="*" element={<NotFoundPage />} />
           </Routes>
@@ -9,4 +9,11 @@ export const routes = {
   favorites: "/favorites",
   characterDetail: (id: number | string) => `/character/${id}`,
   characterDetailPattern: "/character/:id",
+  teamDetail: (id: number | string) => `/team/${id}`,
+  teamDetailPattern: "/team/:id",
+  powerDetail: (id: number | string) => `/powers/${id}`,
+  powerDetailPattern: "/powers/:id",
+  shared: "/shared",
+  sharedList: (payload: string) =>
+    `/shared?list=${encodeURIComponent(payload)}`,
 } as const;
@@ -5,18 +5,99 @@ import React, {
   useCallback,
   useEffect,
   useMemo,
+  useRef,
 } from "react";
-import { useQueryClient } from "@tanstack/react-query";
-import { Character } from "@domain/character/entities/Character";
+import {
+  QueryClient,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
+import { StorageError } from "@infrastructure/storage/StorageAdapter";
 import { logger } from "@infrastructure/logging/Logger";
 import { useDependencyContainer } from "./DependenciesContext";
+import { useToast } from "./ToastContext";
 
 interface FavoritesContextValue {
   favoritesCount: number;
   isFavorite: (characterId: number) => boolean;
-  toggleFavorite: (characterId: number) => Promise<void>;
+  toggleFavorite: (
+    characterId: number,
+    character?: CharacterSummary,
+  ) => Promise<void>;
   refreshCount: () => Promise<void>;
-  getFavoriteCharacters: (characters: Character[]) => Character[];
+  getFavoriteCharacters: (characters: CharacterSummary[]) => CharacterSummary[];
+}
+
+interface ToggleVariables {
+  characterId: number;
+  character?: CharacterSummary | undefined;
+  restore?: Map<FavoritesListKey, RemovedCharacter>; // Where Undo puts it back
+}
+
+interface ToggleContext {
+  wasFavorite: boolean;
+  removed: Map<FavoritesListKey, RemovedCharacter>; // To put back on rollback
+}
+
+interface RemovedCharacter {
+  character: CharacterSummary;
+  index: number;
+}
+
+/**
+ * Favorites list caches patched on toggle (API list and offline snapshot)
+ */
+const FAVORITES_LIST_KEYS = [
+  ["favorites", "list"],
+  ["favorites", "snapshot"],
+] as const;
+
+type FavoritesListKey = (typeof FAVORITES_LIST_KEYS)[number];
+
+/**
+ * Remove a character from a cached favorites list
+ *
+ * @returns The removed character and its position, to restore it on rollback
+ */
+function removeFromList(
+  queryClient: QueryClient,
+  queryKey: FavoritesListKey,
+  characterId: number,
+): RemovedCharacter | undefined {
+  const list = queryClient.getQueryData<CharacterSummary[]>(queryKey);
+  const index = list?.findIndex(({ id }) => id.value === characterId) ?? -1;
+  if (!list || index === -1) return undefined;
+
+  queryClient.setQueryData<CharacterSummary[]>(
+    queryKey,
+    list.filter((_, i) => i !== index),
+  );
+  return { character: list[index]!, index };
+}
+
+/**
+ * Insert a character in a cached favorites list (end of the list by default)
+ */
+function insertInList(
+  queryClient: QueryClient,
+  queryKey: FavoritesListKey,
+  character: CharacterSummary,
+  index?: number,
+): void {
+  queryClient.setQueryData<CharacterSummary[]>(queryKey, (list) => {
+    if (!list || list.some(({ id }) => id.equals(character.id))) return list;
+
+    const next = [...list];
+    next.splice(index ?? next.length, 0, character);
+    return next;
+  });
+}
+
+function toggleErrorMessage(error: unknown): string {
+  return error instanceof StorageError
+    ? "Your favorites could not be saved: browser storage is full or unavailable. The change was undone."
+    : "The favorite could not be updated. The change was undone.";
 }
 
 const FavoritesContext = createContext<FavoritesContextValue | undefined>(
@@ -27,7 +108,13 @@ const FavoritesContext = createContext<FavoritesContextValue | undefined>(
  * Favorites Provider
  *
  * Manages favorite characters state and persistence.
+ * Stays in sync with other tabs: remote changes reload the favorite IDs and
+ * invalidate the favorites queries.
  *
+ * Toggling is an optimistic mutation: the favorite state and the cached
+ * favorites lists are patched at once (no refetch of every favorite), then
+ * rolled back with an error toast if saving fails.
+ * Removals show an "Undo" toast. Requires ToastProvider.
  */
 export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({
   children,
@@ -35,6 +122,28 @@ export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({
   const [favoritesCount, setFavoritesCount] = useState(0);
   const [favoriteIds, setFavoriteIds] = useState<Set<number>>(new Set());
   const queryClient = useQueryClient();
+  const { showToast } = useToast();
+
+  // Latest favorite IDs, read synchronously by overlapping toggles
+  const favoriteIdsRef = useRef(favoriteIds);
+  const updateFavoriteIds = useCallback((ids: Set<number>) => {
+    favoriteIdsRef.current = ids;
+    setFavoriteIds(ids);
+  }, []);
+
+  const setFavorite = useCallback(
+    (characterId: number, favorite: boolean) => {
+      const next = new Set(favoriteIdsRef.current);
+      if (favorite) {
+        next.add(characterId);
+      } else {
+        next.delete(characterId);
+      }
+      updateFavoriteIds(next);
+      setFavoritesCount((prev) => (favorite ? prev + 1 : prev - 1));
+    },
+    [updateFavoriteIds],
+  );
 
   // Inject dependencies from shared container (Dependency Injection)
   // This ensures we use the SAME repository instances with SHARED cache
@@ -54,7 +163,7 @@ export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({
 
       // Load favorite IDs
       const ids = await favoritesRepository.findAll();
-      setFavoriteIds(new Set(ids.map((id) => id.value)));
+      updateFavoriteIds(new Set(ids.map((id) => id.value)));
     } catch (error) {
       logger.error("Failed to load favorites count", error);
     }
@@ -65,46 +174,133 @@ export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({
     void refreshCount();
   }, [refreshCount]);
 
+  // Live updates from other tabs (local toggles already update state below)
+  useEffect(() => {
+    return favoritesRepository.subscribe(({ origin }) => {
+      if (origin !== "remote") {
+        return;
+      }
+
+      void refreshCount();
+      void queryClient.invalidateQueries({ queryKey: ["favorites"] });
+    });
+  }, [favoritesRepository, queryClient, refreshCount]);
+
   const isFavorite = useCallback(
     (characterId: number) => favoriteIds.has(characterId),
     [favoriteIds],
   );
 
-  const toggleFavorite = useCallback(
-    async (characterId: number) => {
-      try {
-        const newState = await toggleFavoriteUseCase.execute(characterId);
-
-        // Update local state
-        setFavoriteIds((prev) => {
-          const next = new Set(prev);
-          if (newState) {
-            next.add(characterId);
-          } else {
-            next.delete(characterId);
+  const { mutate: retoggle, mutateAsync: toggleMutation } = useMutation<
+    boolean,
+    unknown,
+    ToggleVariables,
+    ToggleContext
+  >({
+    mutationFn: async ({ characterId, character }) =>
+      await toggleFavoriteUseCase.execute(characterId, character),
+
+    // Favorites are local: don't pause the mutation while offline
+    networkMode: "always",
+
+    onMutate: async ({ characterId, character, restore }) => {
+      const wasFavorite = favoriteIdsRef.current.has(characterId);
+      setFavorite(characterId, !wasFavorite);
+
+      // Don't let an in-flight refetch overwrite the patched lists
+      await queryClient.cancelQueries({ queryKey: ["favorites"] });
+
+      const removed = new Map<FavoritesListKey, RemovedCharacter>();
+      FAVORITES_LIST_KEYS.forEach((queryKey) => {
+        if (!wasFavorite) {
+          const entry = restore?.get(queryKey);
+          if (entry) {
+            insertInList(queryClient, queryKey, entry.character, entry.index);
+          } else if (character) {
+            insertInList(queryClient, queryKey, character);
           }
-          return next;
-        });
+          return;
+        }
+        const entry = removeFromList(queryClient, queryKey, characterId);
+        if (entry) removed.set(queryKey, entry);
+      });
+
+      return { wasFavorite, removed };
+    },
+
+    onSuccess: (isFavorite, { characterId, character }, context) => {
+      const expected = !context.wasFavorite;
 
-        setFavoritesCount((prev) => (newState ? prev + 1 : prev - 1));
+      // Out of sync with storage (e.g. changed in another tab): reload
+      if (isFavorite !== expected) {
+        void refreshCount();
+        void queryClient.invalidateQueries({ queryKey: ["favorites"] });
+        return;
+      }
 
-        // Invalidate favorites list query to trigger refetch, marks the query as stale, so it will refetch when the component mounts
-        void queryClient.invalidateQueries({
-          queryKey: ["favorites", "list"],
+      // Added without character data: the lists need the API
+      if (isFavorite && !character) {
+        void queryClient.invalidateQueries({ queryKey: ["favorites"] });
+      }
+
+      if (!isFavorite) {
+        const removed =
+          character ?? [...context.removed.values()][0]?.character;
+        showToast({
+          message: removed
+            ? `Removed ${removed.name.value}`
+            : "Removed from favorites",
+          action: {
+            label: "Undo",
+            onAction: () =>
+              retoggle({
+                characterId,
+                character: removed,
+                restore: context.removed,
+              }),
+          },
         });
-      } catch (error) {
-        logger.error("Failed to toggle favorite", error, { characterId });
       }
     },
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    [queryClient],
+
+    onError: (error, { characterId, character }, context) => {
+      logger.error("Failed to toggle favorite", error, { characterId });
+      showToast({ message: toggleErrorMessage(error), variant: "error" });
+      if (!context) return;
+
+      // Roll back the favorite state and the patched lists
+      setFavorite(characterId, context.wasFavorite);
+      FAVORITES_LIST_KEYS.forEach((queryKey) => {
+        if (!context.wasFavorite) {
+          removeFromList(queryClient, queryKey, characterId);
+          return;
+        }
+        const entry = context.removed.get(queryKey);
+        if (entry) {
+          insertInList(queryClient, queryKey, entry.character, entry.index);
+        } else if (character) {
+          insertInList(queryClient, queryKey, character);
+        }
+      });
+    },
+  });
+
+  const toggleFavorite = useCallback(
+    async (characterId: number, character?: CharacterSummary) => {
+      try {
+        await toggleMutation({ characterId, character });
+      } catch {
+        // Rolled back and reported in onError
+      }
+    },
+    [toggleMutation],
   );
 
   /**
    * Filter characters array to only favorites
    */
   const getFavoriteCharacters = useCallback(
-    (characters: Character[]) => {
+    (characters: CharacterSummary[]) => {
       return characters.filter((char) => favoriteIds.has(char.id.value));
     },
     [favoriteIds],
@@ -0,0 +1,153 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  Toast,
+  ToastAction,
+  ToastVariant,
+  ToastViewport,
+} from "@ui/designSystem/molecules/Toast/Toast";
+
+/** Toasts on screen at once; later ones wait in the queue */
+const MAX_VISIBLE_TOASTS = 3;
+
+const DEFAULT_DURATION_MS = 5000;
+/** Longer when there's something to do (action) or read (error) */
+const LONG_DURATION_MS = 8000;
+
+export interface ToastOptions {
+  message: string;
+  variant?: ToastVariant;
+  action?: ToastAction;
+  duration?: number;
+  /** Toasts with the same key replace each other (e.g. offline / online) */
+  key?: string;
+}
+
+interface QueuedToast {
+  id: number;
+  message: string;
+  variant: ToastVariant;
+  action?: ToastAction | undefined;
+  duration: number;
+  key?: string | undefined;
+}
+
+interface ToastContextValue {
+  showToast: (options: ToastOptions) => number;
+  dismissToast: (id: number) => void;
+}
+
+const ToastContext = createContext<ToastContextValue | undefined>(undefined);
+
+/**
+ * Toast Provider
+ *
+ * Queues toast notifications and renders them in a live region.
+ *
+ * Business rules:
+ * - At most MAX_VISIBLE_TOASTS on screen; the rest wait in arrival order
+ * - A queued toast's timer only starts once it's shown
+ * - A toast with the same `key` as a queued one replaces it
+ */
+export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [toasts, setToasts] = useState<QueuedToast[]>([]);
+  const nextId = useRef(1);
+
+  const dismissToast = useCallback((id: number) => {
+    setToasts((prev) => prev.filter((toast) => toast.id !== id));
+  }, []);
+
+  const showToast = useCallback((options: ToastOptions) => {
+    const id = nextId.current++;
+    const variant = options.variant ?? "info";
+    const toast: QueuedToast = {
+      id,
+      message: options.message,
+      variant,
+      action: options.action,
+      duration:
+        options.duration ??
+        (options.action || variant === "error"
+          ? LONG_DURATION_MS
+          : DEFAULT_DURATION_MS),
+      key: options.key,
+    };
+
+    setToasts((prev) => {
+      const index =
+        options.key === undefined
+          ? -1
+          : prev.findIndex(({ key }) => key === options.key);
+      if (index === -1) return [...prev, toast];
+
+      const next = [...prev];
+      next[index] = toast;
+      return next;
+    });
+
+    return id;
+  }, []);
+
+  const value = useMemo(
+    () => ({ showToast, dismissToast }),
+    [showToast, dismissToast],
+  );
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      <ToastViewport>
+        {toasts.slice(0, MAX_VISIBLE_TOASTS).map((toast) => (
+          <ToastItem key={toast.id} toast={toast} onDismiss={dismissToast} />
+        ))}
+      </ToastViewport>
+    </ToastContext.Provider>
+  );
+};
+
+/**
+ * Toast bound to its queue entry (stable onDismiss for the timer)
+ */
+const ToastItem: React.FC<{
+  toast: QueuedToast;
+  onDismiss: (id: number) => void;
+}> = ({ toast, onDismiss }) => {
+  const { id } = toast;
+  const handleDismiss = useCallback(() => onDismiss(id), [id, onDismiss]);
+
+  return (
+    <Toast
+      message={toast.message}
+      variant={toast.variant}
+      {...(toast.action && { action: toast.action })}
+      duration={toast.duration}
+      onDismiss={handleDismiss}
+    />
+  );
+};
+
+/**
+ * Hook to show toast notifications
+ *
+ * @example
+ * ```typescript
+ * const { showToast } = useToast();
+ * showToast({ message: "Removed Spider-Man", action: { label: "Undo", onAction: undo } });
+ * ```
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export function useToast() {
+  const context = useContext(ToastContext);
+  if (!context) {
+    throw new Error("useToast must be used within ToastProvider");
+  }
+  return context;
+}
@@ -5,14 +5,19 @@
  * and context provider functionality.
  */
 
-import { renderHook, waitFor, act } from "@testing-library/react";
+import { renderHook, waitFor, act, screen } from "@testing-library/react";
+import { QueryClient } from "@tanstack/react-query";
 import { FavoritesProvider, useFavorites } from "../FavoritesContext";
 import { DependenciesProvider } from "../DependenciesContext";
-import { Character } from "@domain/character/entities/Character";
+import { ToastProvider } from "../ToastContext";
+import { CharacterSummary } from "@domain/character/entities/CharacterSummary";
 import { CharacterId } from "@domain/character/valueObjects/CharacterId";
 import { CharacterName } from "@domain/character/valueObjects/CharacterName";
 import { ImageUrl } from "@domain/character/valueObjects/ImageUrl";
 import { QueryWrapper } from "@tests/queryTestUtils";
+import { LocalStorageFavoritesRepository } from "@infrastructure/repositories/LocalStorageFavoritesRepository";
+import { FavoritesChange } from "@domain/character/ports/FavoritesRepository";
+import { StorageError } from "@infrastructure/storage/StorageAdapter";
 
 // Mock repository to return proper values
 jest.mock(
@@ -22,9 +27,11 @@ jest.mock(
       getAll: jest.fn().mockResolvedValue([]),
       save: jest.fn().mockResolvedValue(undefined),
       remove: jest.fn().mockResolvedValue(undefined),
+      add: jest.fn().mockResolvedValue(undefined),
       findAll: jest.fn().mockResolvedValue([]),
       count: jest.fn().mockResolvedValue(0),
       contains: jest.fn().mockResolvedValue(false),
+      subscribe: jest.fn().mockReturnValue(() => {}),
     })),
   }),
 );
@@ -41,12 +48,14 @@ describe("FavoritesContext", () => {
    * Helper: Render hook with provider wrapper
    * Includes QueryWrapper for QueryClient and DependenciesProvider for proper context hierarchy
    */
-  const renderWithProvider = () => {
+  const renderWithProvider = (client?: QueryClient) => {
     return renderHook(() => useFavorites(), {
       wrapper: ({ children }) => (
-        <QueryWrapper>
+        <QueryWrapper {...(client && { client })}>
           <DependenciesProvider>
-            <FavoritesProvider>{children}</FavoritesProvider>
+            <ToastProvider>
+              <FavoritesProvider>{children}</FavoritesProvider>
+            </ToastProvider>
           </DependenciesProvider>
         </QueryWrapper>
       ),
@@ -56,11 +65,11 @@ describe("FavoritesContext", () => {
   /**
    * Helper: Create test character with all required fields
    */
-  const createCharacter = (id: number, name: string): Character => {
-    return new Character({
+  const createCharacter = (id: number, name: string): CharacterSummary => {
+    return new CharacterSummary({
       id: new CharacterId(id),
       name: new CharacterName(name),
-      description: `Test description for ${name}`,
+      deck: `Test description for ${name}`,
       thumbnail: new ImageUrl("https://example.com/image", "jpg"),
     });
   };
@@ -229,4 +238,251 @@ describe("FavoritesContext", () => {
       ).resolves.not.toThrow();
     });
   });
+
+  describe("Optimistic toggle", () => {
+    const spiderMan = createCharacter(1, "Spider-Man");
+    const ironMan = createCharacter(2, "Iron Man");
+    let queryClient: QueryClient;
+
+    /**
+     * Helper: Repository instance created by the provider's container
+     */
+    const getRepository = () => {
+      const { results } = (
+        LocalStorageFavoritesRepository as unknown as jest.Mock
+      ).mock;
+      return results[results.length - 1]?.value as {
+        add: jest.Mock;
+        remove: jest.Mock;
+        contains: jest.Mock;
+        findAll: jest.Mock;
+        count: jest.Mock;
+      };
+    };
+
+    const cachedList = () =>
+      queryClient
+        .getQueryData<CharacterSummary[]>(["favorites", "list"])
+        ?.map(({ id }) => id.value);
+
+    /**
+     * Helper: Provider with Spider-Man and Iron Man already favorites
+     */
+    const renderWithFavorites = async () => {
+      queryClient = new QueryClient({
+        defaultOptions: { mutations: { retry: false } },
+      });
+      queryClient.setQueryData(["favorites", "list"], [spiderMan, ironMan]);
+
+      const rendered = renderWithProvider(queryClient);
+      const repository = getRepository();
+      repository.findAll.mockResolvedValue([
+        new CharacterId(1),
+        new CharacterId(2),
+      ]);
+      repository.count.mockResolvedValue(2);
+      await act(async () => {
+        await rendered.result.current.refreshCount();
+      });
+      return { ...rendered, repository };
+    };
+
+    it("should remove the character from the cached list without refetching", async () => {
+      const { result, repository } = await renderWithFavorites();
+      repository.contains.mockResolvedValue(true);
+      const invalidate = jest.spyOn(queryClient, "invalidateQueries");
+
+      await act(async () => {
+        await result.current.toggleFavorite(1);
+      });
+
+      expect(repository.remove).toHaveBeenCalledWith(new CharacterId(1));
+      expect(result.current.isFavorite(1)).toBe(false);
+      expect(result.current.favoritesCount).toBe(1);
+      expect(cachedList()).toEqual([2]);
+      expect(invalidate).not.toHaveBeenCalled();
+    });
+
+    it("should append an added character to the cached list", async () => {
+      const { result } = await renderWithFavorites();
+      const thor = createCharacter(3, "Thor");
+
+      await act(async () => {
+        await result.current.toggleFavorite(3, thor);
+      });
+
+      expect(result.current.isFavorite(3)).toBe(true);
+      expect(cachedList()).toEqual([1, 2, 3]);
+    });
+
+    it("should update the state before the change is saved", async () => {
+      const { result, repository } = await renderWithFavorites();
+      let save: () => void = () => {};
+      repository.add.mockReturnValue(
+        new Promise<void>((resolve) => (save = resolve)),
+      );
+
+      let toggle: Promise<void> = Promise.resolve();
+      act(() => {
+        toggle = result.current.toggleFavorite(3, createCharacter(3, "Thor"));
+      });
+
+      await waitFor(() => {
+        expect(result.current.isFavorite(3)).toBe(true);
+      });
+      expect(cachedList()).toEqual([1, 2, 3]);
+
+      await act(async () => {
+        save();
+        await toggle;
+      });
+    });
+
+    it("should roll back and report storage errors", async () => {
+      const { result, repository } = await renderWithFavorites();
+      repository.contains.mockResolvedValue(true);
+      repository.remove.mockRejectedValue(
+        new StorageError("Storage quota exceeded"),
+      );
+
+      await act(async () => {
+        await result.current.toggleFavorite(1);
+      });
+
+      expect(result.current.isFavorite(1)).toBe(true);
+      expect(result.current.favoritesCount).toBe(2);
+      expect(cachedList()).toEqual([1, 2]);
+      expect(screen.getByRole("alert")).toHaveTextContent(/storage is full/);
+    });
+
+    it("should remove a failed addition from the cached list", async () => {
+      const { result, repository } = await renderWithFavorites();
+      repository.add.mockRejectedValue(new Error("Unexpected"));
+
+      await act(async () => {
+        await result.current.toggleFavorite(3, createCharacter(3, "Thor"));
+      });
+
+      expect(result.current.isFavorite(3)).toBe(false);
+      expect(cachedList()).toEqual([1, 2]);
+      expect(screen.getByRole("alert")).toHaveTextContent(
+        "The favorite could not be updated. The change was undone.",
+      );
+    });
+
+    it("should offer to undo a removal", async () => {
+      const { result, repository } = await renderWithFavorites();
+      repository.contains.mockResolvedValue(true);
+
+      await act(async () => {
+        await result.current.toggleFavorite(1);
+      });
+
+      expect(screen.getByText("Removed Spider-Man")).toBeInTheDocument();
+
+      repository.contains.mockResolvedValue(false);
+      await act(async () => {
+        screen.getByRole("button", { name: "Undo" }).click();
+      });
+
+      await waitFor(() => {
+        expect(result.current.isFavorite(1)).toBe(true);
+      });
+      expect(repository.add).toHaveBeenCalledWith(
+        new CharacterId(1),
+        spiderMan,
+      );
+      // Back where it was in the list
+      expect(cachedList()).toEqual([1, 2]);
+      expect(screen.queryByText("Removed Spider-Man")).not.toBeInTheDocument();
+    });
+
+    it("should put an undone removal back at its position in each cached list", async () => {
+      const { result, repository } = await renderWithFavorites();
+      const thor = createCharacter(3, "Thor");
+      queryClient.setQueryData(
+        ["favorites", "list"],
+        [spiderMan, ironMan, thor],
+      );
+      queryClient.setQueryData(["favorites", "snapshot"], [thor, ironMan]);
+      repository.contains.mockResolvedValue(true);
+
+      await act(async () => {
+        await result.current.toggleFavorite(2);
+      });
+      expect(cachedList()).toEqual([1, 3]);
+
+      repository.contains.mockResolvedValue(false);
+      await act(async () => {
+        screen.getByRole("button", { name: "Undo" }).click();
+      });
+
+      await waitFor(() => {
+        expect(result.current.isFavorite(2)).toBe(true);
+      });
+      expect(cachedList()).toEqual([1, 2, 3]);
+      expect(
+        queryClient
+          .getQueryData<CharacterSummary[]>(["favorites", "snapshot"])
+          ?.map(({ id }) => id.value),
+      ).toEqual([3, 2]);
+    });
+  });
+
+  describe("Cross-tab sync", () => {
+    /**
+     * Helper: Repository instance created by the provider's container
+     */
+    const getRepository = () => {
+      const { results } = (
+        LocalStorageFavoritesRepository as unknown as jest.Mock
+      ).mock;
+      return results[results.length - 1]?.value as {
+        findAll: jest.Mock;
+        count: jest.Mock;
+        subscribe: jest.Mock;
+      };
+    };
+
+    it("should reload favorites when another tab changes them", async () => {
+      const { result } = renderWithProvider();
+      const repository = getRepository();
+
+      await waitFor(() => {
+        expect(repository.subscribe).toHaveBeenCalled();
+      });
+
+      repository.findAll.mockResolvedValue([new CharacterId(1009610)]);
+      repository.count.mockResolvedValue(1);
+      const listener = repository.subscribe.mock.calls[0]?.[0] as (
+        change: FavoritesChange,
+      ) => void;
+
+      act(() => listener({ origin: "remote" }));
+
+      await waitFor(() => {
+        expect(result.current.isFavorite(1009610)).toBe(true);
+        expect(result.current.favoritesCount).toBe(1);
+      });
+    });
+
+    it("should ignore local changes (already applied by toggleFavorite)", async () => {
+      renderWithProvider();
+      const repository = getRepository();
+
+      await waitFor(() => {
+        expect(repository.subscribe).toHaveBeenCalled();
+      });
+      await waitFor(() => {
+        expect(repository.findAll).toHaveBeenCalledTimes(1);
+      });
+
+      const listener = repository.subscribe.mock.calls[0]?.[0] as (
+        change: FavoritesChange,
+      ) => void;
+      act(() => listener({ origin: "local" }));
+
+      expect(repository.findAll).toHaveBeenCalledTimes(1);
+    });
+  });
 });
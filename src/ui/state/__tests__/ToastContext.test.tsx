@@ -0,0 +1,109 @@
+/**
+ * ToastContext Tests
+ *
+ * Tests the toast queue: showing, dismissing, the visible limit, key
+ * replacement and auto-dismiss of queued toasts.
+ */
+
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import { ToastProvider, useToast, ToastOptions } from "../ToastContext";
+
+describe("ToastContext", () => {
+  let showToast: (options: ToastOptions) => number;
+  let dismissToast: (id: number) => void;
+
+  const Consumer = () => {
+    ({ showToast, dismissToast } = useToast());
+    return null;
+  };
+
+  const renderProvider = () =>
+    render(
+      <ToastProvider>
+        <Consumer />
+      </ToastProvider>,
+    );
+
+  const messages = () =>
+    screen.queryAllByTestId("toast").map((toast) => toast.textContent);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should show and dismiss toasts", () => {
+    renderProvider();
+
+    let id = 0;
+    act(() => {
+      id = showToast({ message: "Hello" });
+    });
+    expect(screen.getByText("Hello")).toBeInTheDocument();
+
+    act(() => dismissToast(id));
+    expect(screen.queryByText("Hello")).not.toBeInTheDocument();
+  });
+
+  it("should queue toasts beyond the visible limit", () => {
+    renderProvider();
+
+    act(() => {
+      ["One", "Two", "Three", "Four"].forEach((message) =>
+        showToast({ message }),
+      );
+    });
+
+    expect(messages()).toHaveLength(3);
+    expect(screen.queryByText("Four")).not.toBeInTheDocument();
+
+    fireEvent.click(
+      screen.getAllByRole("button", { name: "Dismiss notification" })[0]!,
+    );
+
+    expect(screen.queryByText("One")).not.toBeInTheDocument();
+    expect(screen.getByText("Four")).toBeInTheDocument();
+  });
+
+  it("should replace a toast with the same key", () => {
+    renderProvider();
+
+    act(() => {
+      showToast({ message: "You're offline", key: "connectivity" });
+      showToast({ message: "Back online", key: "connectivity" });
+    });
+
+    expect(screen.queryByText("You're offline")).not.toBeInTheDocument();
+    expect(screen.getByText("Back online")).toBeInTheDocument();
+  });
+
+  it("should dismiss toasts automatically, longer with an action", () => {
+    renderProvider();
+
+    act(() => {
+      showToast({ message: "Saved" });
+      showToast({
+        message: "Removed Thor",
+        action: { label: "Undo", onAction: jest.fn() },
+      });
+    });
+
+    act(() => jest.advanceTimersByTime(5000));
+    expect(screen.queryByText("Saved")).not.toBeInTheDocument();
+    expect(screen.getByText("Removed Thor")).toBeInTheDocument();
+
+    act(() => jest.advanceTimersByTime(3000));
+    expect(screen.queryByText("Removed Thor")).not.toBeInTheDocument();
+  });
+
+  it("should throw error when used outside ToastProvider", () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(() => render(<Consumer />)).toThrow(
+      "useToast must be used within ToastProvider",
+    );
+  });
+});
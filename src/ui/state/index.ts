@@ -5,6 +5,7 @@
  */
 
 export { FavoritesProvider, useFavorites } from "./FavoritesContext";
+export { ToastProvider, useToast, type ToastOptions } from "./ToastContext";
 export {
   DependenciesProvider,
   useDependencyContainer,
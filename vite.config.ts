@@ -3,6 +3,7 @@ import react from "@vitejs/plugin-react";
 import path from "path";
 import { fileURLToPath } from "url";
 import { dirname } from "path";
+import { comicVineMockPlugin } from "./e2e/mock-server/vitePlugin";
 
 // Define __dirname for ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -11,12 +12,14 @@ const __dirname = dirname(__filename);
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
   const isDev = mode === "development";
+  // Serve the mock Comic Vine API (e2e/mock-server) instead of proxying to the real one
+  const useMockApi = process.env.MOCK_API === "true";
 
   return {
     // Set base path for GitHub Pages deployment
     // Change 'marvel-characters-app' to match your repo name
     base: process.env.GITHUB_PAGES === "true" ? "/marvel-characters-app/" : "/",
-    plugins: [react()],
+    plugins: [react(), ...(useMockApi ? [comicVineMockPlugin()] : [])],
     resolve: {
       alias: {
         "@domain": path.resolve(__dirname, "./src/domain"),
@@ -104,15 +107,17 @@ export default defineConfig(({ mode }) => {
     },
     server: {
       open: true, // Auto-open browser in dev mode
-      proxy: {
-        // Proxy /api/* to Comic Vine API to avoid CORS
-        "/api": {
-          target: "https://comicvine.gamespot.com",
-          changeOrigin: true,
-          rewrite: (path) => path, // Keep the /api prefix as-is
-          secure: false,
-        },
-      },
+      proxy: useMockApi
+        ? undefined
+        : {
+            // Proxy /api/* to Comic Vine API to avoid CORS
+            "/api": {
+              target: "https://comicvine.gamespot.com",
+              changeOrigin: true,
+              rewrite: (path) => path, // Keep the /api prefix as-is
+              secure: false,
+            },
+          },
     },
     preview: {
       port: 4173,